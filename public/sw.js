@@ -0,0 +1,30 @@
+/* Service worker for HelpMeApply web push notifications */
+
+self.addEventListener('push', event => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch (error) {
+    payload = { title: 'HelpMeApply AI', body: event.data ? event.data.text() : '' }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'HelpMeApply AI', {
+      body: payload.body,
+      tag: payload.tag,
+      data: { url: payload.url || '/dashboard' },
+    })
+  )
+})
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  const url = event.notification.data && event.notification.data.url
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const open = clients.find(client => client.url === url)
+      return open ? open.focus() : self.clients.openWindow(url || '/dashboard')
+    })
+  )
+})
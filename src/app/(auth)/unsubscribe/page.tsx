@@ -0,0 +1,5 @@
+import { UnsubscribeForm } from '@/components/email/UnsubscribeForm'
+
+export default function UnsubscribePage() {
+  return <UnsubscribeForm />
+}
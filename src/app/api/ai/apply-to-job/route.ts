@@ -4,7 +4,10 @@ import { prisma } from '@/lib/db'
 import { authOptions } from '@/lib/auth'
 import { analyzeJobMatch, generateCoverLetter, JobMatchingRequest, CoverLetterRequest } from '@/lib/openai'
 import { resumeCustomizationService, ResumeCustomizationRequest } from '@/lib/resumeCustomizationService'
+import { computeJobIdentity, findCanonicalJob, findExistingApplication, resolveCanonicalJob } from '@/lib/jobIdentity'
+import { extractSalaryFromText, toSalaryFields } from '@/lib/salary'
 import { z } from 'zod'
+import { emitWebhookEvent } from '@/lib/webhooks'
 
 const applyToJobSchema = z.object({
   job: z.object({
@@ -56,15 +59,9 @@ export async function POST(req: NextRequest) {
     const preferredLocations = profile.preferredLocations ? JSON.parse(profile.preferredLocations) : []
     const employmentTypes = profile.employmentTypes ? JSON.parse(profile.employmentTypes) : []
 
-    // Check if already applied to this job
-    const existingApplication = await prisma.application.findFirst({
-      where: {
-        userId: session.user.id,
-        company: job.company,
-        jobTitle: job.title,
-        ...(job.sourceJobId && { sourceJobId: job.sourceJobId }),
-      },
-    })
+    // Check if already applied to this job, on this or any other job board
+    const knownJob = await findCanonicalJob(computeJobIdentity(job))
+    const existingApplication = await findExistingApplication(session.user.id, job, knownJob?.id ?? null)
 
     if (existingApplication) {
       return NextResponse.json(
@@ -209,6 +206,7 @@ export async function POST(req: NextRequest) {
 
     if (shouldApply) {
       // Create application record
+      const { canonicalJobId } = await resolveCanonicalJob(job, { linkVariant: false })
       application = await prisma.application.create({
         data: {
           userId: session.user.id,
@@ -218,6 +216,7 @@ export async function POST(req: NextRequest) {
           jobUrl: job.jobUrl,
           location: job.location,
           salaryRange: job.salaryRange,
+          ...toSalaryFields(extractSalaryFromText(job.salaryRange || job.description)),
           employmentType: job.employmentType,
           coverLetter,
           customizedResumeUrl: customizedResumeData?.customizedPdfUrl || null,
@@ -229,10 +228,12 @@ export async function POST(req: NextRequest) {
           matchScore: matchResult.matchScore,
           source: job.source,
           sourceJobId: job.sourceJobId,
+          canonicalJobId,
           notes: `AI Applied: ${matchResult.recommendation} (${Math.round(matchResult.matchScore * 100)}% match)`,
           status: 'APPLIED',
         },
       })
+      await emitWebhookEvent(session.user.id, 'application.created', { application })
 
       // Create customized resume record if we have customization data
       if (customizedResumeData) {
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+
+// Editing an answer makes it the user's own; approving keeps the AI draft as-is
+const updateAnswerSchema = z.union([
+  z.object({ answer: z.string().min(1, 'Answer is required') }),
+  z.object({ approve: z.literal(true) }),
+])
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await req.json()
+    const data = updateAnswerSchema.parse(body)
+
+    const result = 'answer' in data
+      ? await prisma.screeningAnswer.updateMany({
+          where: { id, userId: session.user.id },
+          data: { answer: data.answer.trim(), source: 'USER', status: 'APPROVED' },
+        })
+      : await prisma.screeningAnswer.updateMany({
+          where: { id, userId: session.user.id, answer: { not: '' } },
+          data: { status: 'APPROVED' },
+        })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Answer not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Answer bank update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update answer' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const result = await prisma.screeningAnswer.deleteMany({
+      where: { id, userId: session.user.id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Answer not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Answer bank delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete answer' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { listScreeningAnswers, saveScreeningAnswer } from '@/lib/answerBank'
+import { z } from 'zod'
+
+const saveAnswerSchema = z.object({
+  question: z.string().min(1, 'Question is required'),
+  answer: z.string().min(1, 'Answer is required'),
+})
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const answers = await listScreeningAnswers(session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        answers,
+        pendingCount: answers.filter(answer => answer.status === 'PENDING').length,
+      }
+    })
+
+  } catch (error) {
+    console.error('Answer bank fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch answer bank' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Add an answer for a question the user expects to see on forms
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+    const data = saveAnswerSchema.parse(body)
+
+    const answer = await saveScreeningAnswer(session.user.id, data.question.trim(), data.answer.trim())
+
+    return NextResponse.json({
+      success: true,
+      data: { answer },
+      message: 'Answer saved'
+    })
+
+  } catch (error) {
+    console.error('Answer bank save error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save answer' },
+      { status: 500 }
+    )
+  }
+}
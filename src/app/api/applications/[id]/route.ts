@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/db'
 import { authOptions } from '@/lib/auth'
+import { emitWebhookEvent } from '@/lib/webhooks'
 import { z } from 'zod'
 
 const updateApplicationSchema = z.object({
@@ -84,7 +85,11 @@ export async function PATCH(
 
     const updateData: any = {}
     
-    if (data.status) updateData.status = data.status
+    if (data.status && data.status !== existingApplication.status) {
+      updateData.status = data.status
+      updateData.previousStatus = existingApplication.status
+      updateData.statusChangedAt = new Date()
+    }
     if (data.notes !== undefined) updateData.notes = data.notes
     if (data.responseAt) updateData.responseAt = new Date(data.responseAt)
 
@@ -92,6 +97,12 @@ export async function PATCH(
       where: { id: id },
       data: updateData,
     })
+    if (updateData.status) {
+      await emitWebhookEvent(session.user.id, 'application.status_changed', {
+        application,
+        previousStatus: existingApplication.status,
+      })
+    }
 
     return NextResponse.json({ application })
   } catch (error) {
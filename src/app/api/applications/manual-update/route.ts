@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withSubscription } from '@/lib/billing'
 import { prisma } from '@/lib/db'
+import { ensureCanonicalJobId, findExistingApplication } from '@/lib/jobIdentity'
+import { pickSalaryFields } from '@/lib/salary'
+import { emitWebhookEvent } from '@/lib/webhooks'
 
 interface ManualApplicationUpdate {
   jobId: string
@@ -64,14 +67,10 @@ export const POST = withSubscription(async (request: NextRequest, { user }) => {
       jobNotificationCustomizedResume: existingJobNotification?.customizedResume || 'none'
     })
 
-    // Check if an application already exists for this job and user
-    let existingApplication = await prisma.application.findFirst({
-      where: {
-        userId: user.id,
-        jobTitle: job.title,
-        company: job.company
-      }
-    })
+    // Check if an application already exists for this job and user, including
+    // one made to the same role through another job board
+    const canonicalJobId = await ensureCanonicalJobId(job)
+    const existingApplication = await findExistingApplication(user.id, job, canonicalJobId)
 
     // Map status to application status enum
     let applicationStatus: 'APPLIED' | 'REVIEWING' | 'WITHDRAWN'
@@ -148,10 +147,12 @@ export const POST = withSubscription(async (request: NextRequest, { user }) => {
       jobUrl: job.url,
       location: job.location,
       salaryRange: job.salaryRange,
+      ...pickSalaryFields(job),
       employmentType: job.employmentType,
       status: applicationStatus,
       appliedAt: status === 'applied' && applicationDate ? new Date(applicationDate) : new Date(),
       source: 'manual',
+      canonicalJobId,
       notes: notes || null,
       // Include customized materials
       customizedResumeUrl: customizedResumeUrl,
@@ -164,15 +165,26 @@ export const POST = withSubscription(async (request: NextRequest, { user }) => {
     let application
     if (existingApplication) {
       // Update existing application
+      const statusChanged = existingApplication.status !== applicationStatus
       application = await prisma.application.update({
         where: { id: existingApplication.id },
-        data: applicationData
+        data: {
+          ...applicationData,
+          ...(statusChanged && { previousStatus: existingApplication.status, statusChangedAt: new Date() })
+        }
       })
+      if (statusChanged) {
+        await emitWebhookEvent(user.id, 'application.status_changed', {
+          application,
+          previousStatus: existingApplication.status,
+        })
+      }
     } else {
       // Create new application record
       application = await prisma.application.create({
         data: applicationData
       })
+      await emitWebhookEvent(user.id, 'application.created', { application })
     }
 
     // Update the job's appliedTo status if successfully applied
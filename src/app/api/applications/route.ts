@@ -4,7 +4,10 @@ import { prisma } from '@/lib/db'
 import { authOptions } from '@/lib/auth'
 import { withSubscription } from '@/lib/billing'
 import { checkUsageLimit, incrementUsage } from '@/lib/billing/usageTracking'
+import { computeJobIdentity, findCanonicalJob, findExistingApplication, resolveCanonicalJob } from '@/lib/jobIdentity'
+import { extractSalaryFromText, toSalaryFields } from '@/lib/salary'
 import { z } from 'zod'
+import { emitWebhookEvent } from '@/lib/webhooks'
 
 const createApplicationSchema = z.object({
   jobTitle: z.string().min(1, 'Job title is required'),
@@ -50,7 +53,32 @@ export const POST = withSubscription(async (req: NextRequest, { user }) => {
       }
     }
 
+    // Reject duplicates of a role already applied to through another source
+    const jobIdentity = {
+      title: data.jobTitle,
+      company: data.company,
+      description: data.jobDescription,
+      location: data.location,
+    }
+    const knownJob = await findCanonicalJob(computeJobIdentity(jobIdentity))
+    const existingApplication = await findExistingApplication(user.id, jobIdentity, knownJob?.id ?? null)
+
+    if (existingApplication) {
+      return NextResponse.json(
+        {
+          error: 'Already applied to this job',
+          existingApplication: {
+            id: existingApplication.id,
+            appliedAt: existingApplication.appliedAt,
+            status: existingApplication.status,
+          }
+        },
+        { status: 409 }
+      )
+    }
+
     // Create the application
+    const { canonicalJobId } = await resolveCanonicalJob(jobIdentity, { linkVariant: false })
     const application = await prisma.application.create({
       data: {
         userId: user.id,
@@ -60,14 +88,17 @@ export const POST = withSubscription(async (req: NextRequest, { user }) => {
         jobUrl: data.jobUrl,
         location: data.location,
         salaryRange: data.salaryRange,
+        ...toSalaryFields(extractSalaryFromText(data.salaryRange || data.jobDescription)),
         employmentType: data.employmentType,
         coverLetter: data.coverLetter,
         matchScore: data.matchScore,
         source: data.source,
         sourceJobId: data.sourceJobId,
+        canonicalJobId,
         notes: data.notes,
       },
     })
+    await emitWebhookEvent(user.id, 'application.created', { application })
 
     // If this was an auto application, increment the usage counter
     if (isAutoApplication) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
 import crypto from 'crypto'
+import { appUrl, sendEmail } from '@/lib/email'
 
 const forgotPasswordSchema = z.object({
   email: z.string().email('Invalid email address')
@@ -15,7 +16,7 @@ export async function POST(req: NextRequest) {
     // Check if user exists
     const user = await prisma.user.findUnique({
       where: { email: email.toLowerCase() },
-      select: { id: true, email: true, password: true }
+      select: { id: true, email: true, name: true, password: true }
     })
 
     if (!user) {
@@ -51,20 +52,16 @@ export async function POST(req: NextRequest) {
       }
     })
 
-    // Send email (using console.log for now - you can integrate with your email service)
-    const resetUrl = `${process.env.NEXTAUTH_URL}/reset-password?token=${resetToken}`
-    
-    console.log('Password reset email would be sent to:', email)
-    console.log('Reset URL:', resetUrl)
-    console.log('Reset token expires at:', expires)
-
-    // TODO: Integrate with email service (SendGrid, Resend, etc.)
-    // Example:
-    // await sendPasswordResetEmail({
-    //   to: email,
-    //   resetUrl: resetUrl,
-    //   userName: user.name || 'User'
-    // })
+    await sendEmail({
+      template: 'password_reset',
+      to: user.email,
+      userId: user.id,
+      props: {
+        name: user.name || undefined,
+        resetUrl: appUrl(`/reset-password?token=${resetToken}`),
+        expiresAt: expires,
+      },
+    })
 
     return NextResponse.json({ 
       success: true, 
@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { backgroundJobManager } from '@/lib/backgroundJobs'
+import { queueManager } from '@/lib/queue/QueueManager'
 
 export async function POST() {
   try {
@@ -10,16 +10,18 @@ export async function POST() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    await backgroundJobManager.initialize()
+    // Background work runs in the queue worker; this only queues a scan for the user
+    const jobId = await queueManager.enqueueUserJobScan(session.user.id)
     
     return NextResponse.json({
       success: true,
-      message: 'Background job manager initialized'
+      data: { jobId },
+      message: 'Job scan queued'
     })
   } catch (error) {
-    console.error('Error initializing background jobs:', error)
+    console.error('Error queueing background job scan:', error)
     return NextResponse.json(
-      { error: 'Failed to initialize background jobs' },
+      { error: 'Failed to queue job scan' },
       { status: 500 }
     )
   }
@@ -32,9 +34,9 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const stats = await backgroundJobManager.getJobStats()
+    const metrics = await queueManager.getMetrics()
     
-    return NextResponse.json(stats)
+    return NextResponse.json(metrics)
   } catch (error) {
     console.error('Error getting background job stats:', error)
     return NextResponse.json(
@@ -42,4 +44,4 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
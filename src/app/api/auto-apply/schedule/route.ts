@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getUserScanSchedule, isValidTimeZone, syncUserScanSchedule, toScheduleSummary } from '@/lib/queue/schedules'
+
+const scheduleSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, 'Unknown time zone'),
+})
+
+/**
+ * The user's job scan schedule, built from their scan frequency and time zone
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [user, schedule] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { timezone: true },
+      }),
+      getUserScanSchedule(session.user.id),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        schedule,
+        timezone: user?.timezone || null,
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching scan schedule:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch scan schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Change the time zone the user's scans are scheduled in
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { timezone } = scheduleSchema.parse(body)
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { timezone },
+    })
+    const schedule = await syncUserScanSchedule(session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        schedule: schedule ? toScheduleSummary(schedule) : null,
+        timezone,
+      },
+      message: 'Time zone updated'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating scan schedule:', error)
+    return NextResponse.json(
+      { error: 'Failed to update scan schedule' },
+      { status: 500 }
+    )
+  }
+}
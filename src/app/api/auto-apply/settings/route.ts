@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
 import { calculateProfileCompletion } from '@/lib/profileCompletion'
+import { isScanFrequencyHours, SCAN_FREQUENCY_HOURS, syncUserScanSchedule } from '@/lib/queue/schedules'
 
 const autoApplySettingsSchema = z.object({
   isEnabled: z.boolean(),
@@ -14,7 +15,7 @@ const autoApplySettingsSchema = z.object({
   preferredSources: z.array(z.string()).optional(),
   requireSalaryRange: z.boolean(),
   autoScanEnabled: z.boolean(),
-  scanFrequencyHours: z.number().min(1).max(24),
+  scanFrequencyHours: z.number().refine(isScanFrequencyHours, `Scan every ${SCAN_FREQUENCY_HOURS.join(', ')} hours`),
   // New notification and approval settings
   notifyOnMatch: z.boolean().optional(),
   notifyMinScore: z.number().min(0).max(1).optional(),
@@ -22,6 +23,7 @@ const autoApplySettingsSchema = z.object({
   autoApplyEnabled: z.boolean().optional(),
   customizeResume: z.boolean().optional(),
   reviewTimeoutHours: z.number().min(1).max(168).optional(),
+  dryRun: z.boolean().optional(),
 })
 
 export async function GET() {
@@ -54,6 +56,7 @@ export async function GET() {
         autoApplyEnabled: false,
         customizeResume: true,
         reviewTimeoutHours: 24,
+        dryRun: false,
       }
       return NextResponse.json({ success: true, settings: defaultSettings })
     }
@@ -88,6 +91,7 @@ export async function GET() {
       autoApplyEnabled: false,
       customizeResume: true,
       reviewTimeoutHours: 24,
+      dryRun: false,
     }
 
     return NextResponse.json({ success: true, settings: parsedSettings })
@@ -193,6 +197,7 @@ export async function POST(request: NextRequest) {
       autoApplyEnabled: validatedData.autoApplyEnabled ?? false,
       customizeResume: validatedData.customizeResume ?? true,
       reviewTimeoutHours: validatedData.reviewTimeoutHours ?? 24,
+      dryRun: validatedData.dryRun ?? false,
     }
 
     const settings = await prisma.autoApplySettings.upsert({
@@ -201,23 +206,8 @@ export async function POST(request: NextRequest) {
       create: settingsData,
     })
 
-    // Sync with background job scheduler
-    try {
-      const { jobScheduler } = await import('@/lib/jobQueue/scheduler')
-      
-      // Update scheduled job frequency if auto scanning is enabled
-      if (validatedData.autoScanEnabled && validatedData.isEnabled) {
-        console.log(`Updating job scan schedule for user ${session.user.id}: every ${validatedData.scanFrequencyHours} hours`)
-      } else {
-        console.log(`Auto scanning disabled for user ${session.user.id}`)
-      }
-      
-      // Note: The job scheduler will pick up the new settings automatically
-      // when it reads from the database on next scheduled run
-    } catch (error) {
-      console.error('Failed to sync with background job scheduler:', error)
-      // Don't fail the API call if background sync fails
-    }
+    // Scans run from the user's schedule row, so it follows every settings change
+    await syncUserScanSchedule(session.user.id)
 
     const parsedSettings = {
       ...settings,
@@ -255,6 +245,13 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json()
+
+    if (body.scanFrequencyHours !== undefined && !isScanFrequencyHours(body.scanFrequencyHours)) {
+      return NextResponse.json(
+        { error: `Scan frequency must be one of ${SCAN_FREQUENCY_HOURS.join(', ')} hours` },
+        { status: 400 }
+      )
+    }
     
     const profile = await prisma.profile.findUnique({
       where: { userId: session.user.id },
@@ -287,11 +284,13 @@ export async function PATCH(request: NextRequest) {
         autoApplyEnabled: body.autoApplyEnabled ?? false,
         customizeResume: body.customizeResume ?? true,
         reviewTimeoutHours: body.reviewTimeoutHours ?? 24,
+        dryRun: body.dryRun ?? false,
       }
 
       const settings = await prisma.autoApplySettings.create({
         data: defaultSettings
       })
+      await syncUserScanSchedule(session.user.id)
 
       return NextResponse.json({ 
         success: true,
@@ -320,6 +319,7 @@ export async function PATCH(request: NextRequest) {
     if (body.autoApplyEnabled !== undefined) updateData.autoApplyEnabled = body.autoApplyEnabled
     if (body.customizeResume !== undefined) updateData.customizeResume = body.customizeResume
     if (body.reviewTimeoutHours !== undefined) updateData.reviewTimeoutHours = body.reviewTimeoutHours
+    if (body.dryRun !== undefined) updateData.dryRun = body.dryRun
     
     if (body.excludedCompanies !== undefined) updateData.excludedCompanies = JSON.stringify(body.excludedCompanies)
     if (body.excludedKeywords !== undefined) updateData.excludedKeywords = JSON.stringify(body.excludedKeywords)
@@ -329,6 +329,7 @@ export async function PATCH(request: NextRequest) {
       where: { profileId: profile.id },
       data: updateData
     })
+    await syncUserScanSchedule(session.user.id)
 
     const parsedSettings = {
       ...settings,
@@ -369,6 +370,7 @@ export async function DELETE() {
     await prisma.autoApplySettings.deleteMany({
       where: { profileId: profile.id },
     })
+    await syncUserScanSchedule(session.user.id)
 
     return NextResponse.json({ success: true })
   } catch (error) {
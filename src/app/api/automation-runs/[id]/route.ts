@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { isAdminEmail } from '@/lib/admin'
+import { parseApplicationPreview } from '@/lib/applicationPreview'
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const run = await prisma.automationRun.findFirst({
+      where: {
+        id,
+        ...(!isAdminEmail(session.user.email) && { userId: session.user.id }),
+      },
+      include: {
+        steps: { orderBy: { index: 'asc' } },
+      },
+    })
+
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Automation run not found' },
+        { status: 404 }
+      )
+    }
+
+    // Artifacts are private; hand out our own URLs instead of storage keys
+    const steps = run.steps.map(({ screenshotKey, htmlKey, ...step }) => ({
+      ...step,
+      screenshotUrl: screenshotKey ? `/api/automation-runs/${run.id}/steps/${step.id}/screenshot` : null,
+      htmlUrl: htmlKey ? `/api/automation-runs/${run.id}/steps/${step.id}/html` : null,
+    }))
+
+    return NextResponse.json({
+      success: true,
+      data: { run: { ...run, preview: parseApplicationPreview(run.preview), steps } }
+    })
+
+  } catch (error) {
+    console.error('Automation run fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch automation run' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { isAdminEmail } from '@/lib/admin'
+import { artifactContentType, readArtifact } from '@/lib/automationRuns'
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; stepId: string; artifact: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id, stepId, artifact } = await params
+    if (artifact !== 'screenshot' && artifact !== 'html') {
+      return NextResponse.json(
+        { error: 'Unknown artifact' },
+        { status: 404 }
+      )
+    }
+
+    const step = await prisma.automationRunStep.findFirst({
+      where: {
+        id: stepId,
+        runId: id,
+        run: isAdminEmail(session.user.email) ? {} : { userId: session.user.id },
+      },
+    })
+
+    const key = artifact === 'screenshot' ? step?.screenshotKey : step?.htmlKey
+    if (!key) {
+      return NextResponse.json(
+        { error: 'Artifact not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await readArtifact(key)
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': artifactContentType(artifact),
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff',
+        // Snapshots are third-party markup; render them without scripts or our origin
+        ...(artifact === 'html' && { 'Content-Security-Policy': 'sandbox' }),
+      },
+    })
+
+  } catch (error) {
+    console.error('Automation artifact fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch artifact' },
+      { status: 500 }
+    )
+  }
+}
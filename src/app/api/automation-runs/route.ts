@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { isAdminEmail } from '@/lib/admin'
+import { AutomationRunStatus } from '@prisma/client'
+import { z } from 'zod'
+
+const statusSchema = z.nativeEnum(AutomationRunStatus).nullable()
+
+/**
+ * List automation runs for an application or job. Admins can pass all=true
+ * (optionally with platform/status) to look across users for broken selectors.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(req.url)
+    const applicationId = searchParams.get('applicationId')
+    const jobId = searchParams.get('jobId')
+    const platform = searchParams.get('platform')
+    const parsedStatus = statusSchema.safeParse(searchParams.get('status') || null)
+    if (!parsedStatus.success) {
+      return NextResponse.json(
+        { error: 'Invalid status', details: parsedStatus.error.issues },
+        { status: 400 }
+      )
+    }
+    const status = parsedStatus.data
+    const acrossUsers = searchParams.get('all') === 'true' && isAdminEmail(session.user.email)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100)
+
+    const runs = await prisma.automationRun.findMany({
+      where: {
+        ...(!acrossUsers && { userId: session.user.id }),
+        ...(applicationId && { applicationId }),
+        ...(jobId && { jobId }),
+        ...(platform && { platform }),
+        ...(status && { status }),
+      },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+      include: {
+        _count: { select: { steps: true } },
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { runs }
+    })
+
+  } catch (error) {
+    console.error('Automation runs fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch automation runs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+
+const updateFollowedCompanySchema = z.object({
+  isActive: z.boolean().optional(),
+  companyName: z.string().max(100).optional(),
+})
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await req.json()
+    const data = updateFollowedCompanySchema.parse(body)
+
+    const result = await prisma.followedCompany.updateMany({
+      where: { id, userId: session.user.id },
+      data,
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Followed company not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Followed company update error:', error)
+    
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update followed company' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const result = await prisma.followedCompany.deleteMany({
+      where: { id, userId: session.user.id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Followed company not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Unfollow company error:', error)
+    return NextResponse.json(
+      { error: 'Failed to unfollow company' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { fetchCompanyBoard, WATCHLIST_PLATFORMS } from '@/lib/companyWatchlist'
+import { extractJobBoard } from '@/lib/jobSourceDetector'
+import { z } from 'zod'
+
+const followCompanySchema = z.object({
+  // Either a board URL (boards.greenhouse.io/airbnb, jobs.lever.co/netflix) or platform + slug
+  boardUrl: z.string().optional(),
+  platform: z.enum(['greenhouse', 'lever']).optional(),
+  boardSlug: z.string().regex(/^[a-z0-9][a-z0-9-_.]*$/i, 'Invalid board slug').optional(),
+  companyName: z.string().max(100).optional(),
+})
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const companies = await prisma.followedCompany.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        companies,
+        platforms: WATCHLIST_PLATFORMS,
+      }
+    })
+
+  } catch (error) {
+    console.error('Followed companies fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch followed companies' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+    const data = followCompanySchema.parse(body)
+
+    const board = data.boardUrl
+      ? extractJobBoard(data.boardUrl)
+      : data.platform && data.boardSlug
+      ? { platform: data.platform, boardSlug: data.boardSlug.toLowerCase() }
+      : null
+
+    if (!board) {
+      return NextResponse.json(
+        { error: 'Provide a Greenhouse or Lever board URL, or a platform and board slug' },
+        { status: 400 }
+      )
+    }
+
+    // Make sure the board exists before following it
+    let openPostings: number
+    try {
+      const postings = await fetchCompanyBoard(board.platform, board.boardSlug)
+      openPostings = postings.length
+    } catch (error) {
+      return NextResponse.json(
+        { error: `No public ${board.platform} job board found for "${board.boardSlug}"` },
+        { status: 404 }
+      )
+    }
+
+    const company = await prisma.followedCompany.upsert({
+      where: {
+        userId_platform_boardSlug: {
+          userId: session.user.id,
+          platform: board.platform,
+          boardSlug: board.boardSlug,
+        },
+      },
+      update: {
+        isActive: true,
+        companyName: data.companyName,
+      },
+      create: {
+        userId: session.user.id,
+        platform: board.platform,
+        boardSlug: board.boardSlug,
+        companyName: data.companyName,
+        openJobCount: openPostings,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { company },
+      message: `Following ${data.companyName || board.boardSlug} (${openPostings} open postings)`
+    })
+
+  } catch (error) {
+    console.error('Follow company error:', error)
+    
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to follow company' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { syncUserWatchlist } from '@/lib/companyWatchlist'
+import { queueManager } from '@/lib/queue/QueueManager'
+import { prisma } from '@/lib/db'
+
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await syncUserWatchlist(session.user.id)
+
+    // Newly surfaced postings go through the same background AI analysis as scanned jobs
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+      include: { autoApplySettings: true },
+    })
+
+    if (profile?.autoApplySettings?.isEnabled) {
+      for (const jobId of result.linkedJobIds) {
+        await queueManager.enqueueAIAnalysis(jobId, session.user.id)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        companies: result.companies,
+        newJobs: result.linkedJobIds.length,
+        closedJobs: result.closedJobs,
+        results: result.results.map(({ linkedJobIds, ...board }) => board),
+      },
+      message: `Synced ${result.companies} companies: ${result.linkedJobIds.length} new postings, ${result.closedJobs} closed`
+    })
+
+  } catch (error) {
+    console.error('Watchlist sync error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sync followed companies' },
+      { status: 500 }
+    )
+  }
+}
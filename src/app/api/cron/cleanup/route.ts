@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { jobQueue } from '@/lib/jobQueue/JobQueue'
-import { JobType } from '@/lib/jobQueue/types'
+import { queueManager, JobType } from '@/lib/queue/QueueManager'
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,9 +18,8 @@ export async function GET(request: NextRequest) {
     ]
 
     for (const jobType of cleanupJobs) {
-      await jobQueue.addJob(jobType, {
-        timestamp: new Date().toISOString(),
-        source: 'cron'
+      await queueManager.enqueue(jobType, { source: 'cron' }, {
+        deduplicationKey: `cron_${jobType}_${new Date().toISOString().split('T')[0]}`
       })
     }
 
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { jobQueue } from '@/lib/jobQueue/JobQueue'
-import { JobType } from '@/lib/jobQueue/types'
+import { queueManager, JobType } from '@/lib/queue/QueueManager'
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,10 +12,9 @@ export async function GET(request: NextRequest) {
     console.log('📊 Starting daily summary generation...')
     
     // Add daily summary job to queue
-    await jobQueue.addJob(JobType.SEND_DAILY_SUMMARY, {
-      timestamp: new Date().toISOString(),
-      source: 'cron',
-      date: new Date().toISOString().split('T')[0]
+    const date = new Date().toISOString().split('T')[0]
+    await queueManager.enqueue(JobType.SEND_DAILY_SUMMARY, { source: 'cron', date }, {
+      deduplicationKey: `daily_summary_${date}`
     })
 
     console.log('✅ Daily summary queued successfully')
@@ -1,7 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { jobQueue } from '@/lib/jobQueue/JobQueue'
-import { JobType } from '@/lib/jobQueue/types'
-import { prisma } from '@/lib/db'
+import { queueManager } from '@/lib/queue/QueueManager'
 
 export async function GET(request: NextRequest) {
   try {
@@ -11,53 +9,19 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    console.log('🕐 Daily job scan check - Running for all users with auto-scan enabled...')
-    
-    // Get all users with auto-scan enabled  
-    const usersWithAutoScan = await prisma.profile.findMany({
-      where: {
-        autoApplySettings: {
-          isEnabled: true,
-          autoScanEnabled: true
-        }
-      },
-      include: {
-        autoApplySettings: true,
-        user: true
-      }
-    })
+    console.log('🕐 Job scan cron - Firing due schedules...')
 
-    console.log(`Found ${usersWithAutoScan.length} users with auto-scan enabled`)
-
-    let scansQueued = 0
+    // Fires every due schedule, users' scans included, under the same lease the
+    // worker's scheduler holds, so cron and worker never fire a run twice
     const currentTime = new Date()
+    const enqueued = await queueManager.runDueSchedules()
 
-    // Since we run daily, scan all users with auto-scan enabled
-    // Users control frequency via their settings
-    for (const profile of usersWithAutoScan) {
-      const settings = profile.autoApplySettings!
-      
-      // Queue job scan for this user (let the job handler check frequency)
-      await jobQueue.addJob(JobType.USER_JOB_SCAN, {
-        userId: profile.userId,
-        profileId: profile.id,
-        timestamp: currentTime.toISOString(),
-        source: 'daily_auto_scan',
-        userScanFrequency: settings.scanFrequencyHours,
-        runDailyCheck: true
-      })
-
-      scansQueued++
-      console.log(`✅ Queued daily scan check for user ${profile.user.email} (user frequency: ${settings.scanFrequencyHours}h)`)
-    }
-
-    console.log(`✅ ${scansQueued} job scans queued successfully`)
+    console.log(`✅ Due schedules fired: ${enqueued} jobs queued`)
     
     return NextResponse.json({ 
       success: true, 
-      message: `${scansQueued} user job scans initiated`,
-      usersChecked: usersWithAutoScan.length,
-      scansQueued,
+      message: 'Due schedules fired',
+      enqueued,
       timestamp: currentTime.toISOString()
     })
   } catch (error) {
@@ -71,4 +35,4 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   return GET(request)
-}
\ No newline at end of file
+}
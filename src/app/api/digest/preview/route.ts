@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { buildDigest, isDigestEmpty } from '@/lib/digest'
+import { appUrl, renderEmail } from '@/lib/email'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+const previewQuerySchema = z.object({
+  frequency: z.enum(['DAILY', 'WEEKLY']).optional(),
+  format: z.enum(['html', 'text', 'json']).default('html'),
+})
+
+/**
+ * Show the signed-in user the digest they'd get if it went out now.
+ * Opens as the rendered email by default; ?format=text or json for the
+ * plain-text part or the underlying data, ?frequency=DAILY|WEEKLY to
+ * preview the other cadence.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const query = previewQuerySchema.parse({
+      frequency: req.nextUrl.searchParams.get('frequency')?.toUpperCase() || undefined,
+      format: req.nextUrl.searchParams.get('format') || undefined,
+    })
+
+    const [user, preference] = await Promise.all([
+      prisma.user.findUnique({ where: { id: session.user.id }, select: { name: true } }),
+      prisma.emailPreference.findUnique({ where: { userId: session.user.id } }),
+    ])
+    const savedFrequency = preference?.digestFrequency === 'WEEKLY' ? 'WEEKLY' : 'DAILY'
+    const frequency = query.frequency || savedFrequency
+
+    const digest = await buildDigest(session.user.id, {
+      frequency,
+      // The saved schedule's last send only applies to the cadence it was sent on
+      since: frequency === savedFrequency ? preference?.lastDigestSentAt : null,
+      name: user?.name || undefined,
+    })
+
+    if (query.format === 'json') {
+      return NextResponse.json({
+        success: true,
+        data: { digest, empty: isDigestEmpty(digest) }
+      })
+    }
+
+    const rendered = await renderEmail('digest', digest, { preferencesUrl: appUrl('/profile#email-preferences') })
+    return new NextResponse(query.format === 'text' ? `Subject: ${rendered.subject}\n\n${rendered.text}` : rendered.html, {
+      headers: {
+        'Content-Type': query.format === 'text' ? 'text/plain; charset=utf-8' : 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    })
+
+  } catch (error) {
+    console.error('Digest preview error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid preview options', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to build digest preview' },
+      { status: 500 }
+    )
+  }
+}
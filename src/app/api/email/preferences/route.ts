@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getEmailPreferences, updateEmailPreferences } from '@/lib/email'
+import { z } from 'zod'
+
+const updatePreferencesSchema = z.object({
+  jobMatches: z.boolean().optional(),
+  reviewReminders: z.boolean().optional(),
+  applicationUpdates: z.boolean().optional(),
+  digestFrequency: z.enum(['DAILY', 'WEEKLY', 'OFF']).optional(),
+  unsubscribedAll: z.boolean().optional(),
+})
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const preferences = await getEmailPreferences(session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: { preferences }
+    })
+
+  } catch (error) {
+    console.error('Email preferences fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch email preferences' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+    const changes = updatePreferencesSchema.parse(body)
+    const preferences = await updateEmailPreferences(session.user.id, changes)
+
+    return NextResponse.json({
+      success: true,
+      data: { preferences },
+      message: 'Email preferences saved'
+    })
+
+  } catch (error) {
+    console.error('Email preferences update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid email preferences', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save email preferences' },
+      { status: 500 }
+    )
+  }
+}
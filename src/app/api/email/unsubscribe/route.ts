@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { unsubscribe, verifyUnsubscribeToken } from '@/lib/email'
+
+/**
+ * Turn off emails with a signed token from an email footer. Mail clients
+ * call this directly for one-click unsubscribe (token in the query string);
+ * the /unsubscribe page posts the token as JSON. No session is needed.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    let token = req.nextUrl.searchParams.get('token')
+    if (!token && req.headers.get('content-type')?.includes('application/json')) {
+      const body = await req.json().catch(() => ({}))
+      token = typeof body.token === 'string' ? body.token : null
+    }
+
+    const verified = token ? verifyUnsubscribeToken(token) : null
+    if (!verified) {
+      return NextResponse.json(
+        { error: 'This unsubscribe link is invalid' },
+        { status: 400 }
+      )
+    }
+
+    const preferences = await unsubscribe(verified.userId, verified.scope === 'all' ? undefined : verified.scope)
+
+    return NextResponse.json({
+      success: true,
+      data: { scope: verified.scope, preferences },
+      message: verified.scope === 'all' ? 'Unsubscribed from all emails' : 'Unsubscribed'
+    })
+
+  } catch (error) {
+    console.error('Email unsubscribe error:', error)
+    return NextResponse.json(
+      { error: 'Failed to unsubscribe' },
+      { status: 500 }
+    )
+  }
+}
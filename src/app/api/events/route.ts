@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { queueManager } from '@/lib/queue/QueueManager'
+import { getUserEventBus, UserEvent } from '@/lib/userEvents'
+
+export const dynamic = 'force-dynamic'
+
+// Close before the platform's 60s function limit; the browser reconnects with Last-Event-ID
+const STREAM_DURATION_MS = 50000
+const HEARTBEAT_INTERVAL_MS = 15000
+const DEPTH_DEBOUNCE_MS = 1000
+const RECONNECT_DELAY_MS = 3000
+
+function formatEvent(event: UserEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, createdAt: event.createdAt })}\n\n`
+}
+
+/**
+ * Server-sent events for the signed-in user: background work progress as it
+ * happens, plus their queue depth whenever it may have changed
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const userId = session.user.id
+    const cursor = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId')
+    const encoder = new TextEncoder()
+    let close = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false
+        let lastDepth = ''
+        let depthTimer: NodeJS.Timeout | undefined
+
+        const send = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch (error) {
+            close() // The client went away
+          }
+        }
+
+        const sendDepth = async () => {
+          try {
+            const depth = await queueManager.getUserDepth(userId)
+            const serialized = JSON.stringify(depth)
+            if (serialized === lastDepth) return
+            lastDepth = serialized
+            send(`event: queue.depth\ndata: ${serialized}\n\n`)
+          } catch (error) {
+            console.error('Event stream queue depth error:', error)
+          }
+        }
+
+        const scheduleDepth = () => {
+          if (depthTimer) return
+          depthTimer = setTimeout(() => {
+            depthTimer = undefined
+            sendDepth()
+          }, DEPTH_DEBOUNCE_MS)
+        }
+
+        send(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+        sendDepth()
+
+        const unsubscribe = getUserEventBus().subscribe(userId, cursor, events => {
+          events.forEach(event => send(formatEvent(event)))
+          scheduleDepth()
+        })
+
+        const heartbeat = setInterval(() => {
+          send(': keep-alive\n\n')
+          scheduleDepth()
+        }, HEARTBEAT_INTERVAL_MS)
+        const expiry = setTimeout(() => close(), STREAM_DURATION_MS)
+
+        close = () => {
+          if (closed) return
+          closed = true
+          unsubscribe()
+          clearInterval(heartbeat)
+          clearTimeout(expiry)
+          if (depthTimer) clearTimeout(depthTimer)
+          try {
+            controller.close()
+          } catch (error) {
+            // Already closed by the client
+          }
+        }
+
+        request.signal.addEventListener('abort', () => close())
+      },
+      cancel() {
+        close()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('Event stream error:', error)
+    return NextResponse.json(
+      { error: 'Failed to open event stream' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { checkUsageLimit, incrementUsage } from '@/lib/billing/usageTracking'
+import { drillSessionData, DrillUnavailableError, isInterviewPersona, listDrillCompetencies } from '@/lib/interview'
+
+interface StartDrillRequest {
+  persona?: string
+}
+
+/**
+ * Competencies the user has been graded on, weakest first, with when each
+ * is next due for review
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const competencies = await listDrillCompetencies(session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        competencies,
+        dueCount: competencies.filter(c => c.due).length
+      }
+    })
+
+  } catch (error) {
+    console.error('Drill schedule fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch drill schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Start a drill on the weakest competencies that are due. Drills aren't
+ * tied to an application.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body: StartDrillRequest = await req.json().catch(() => ({}))
+    const persona = body.persona || null
+
+    if (persona && !isInterviewPersona(persona)) {
+      return NextResponse.json(
+        { error: 'Invalid interviewer persona' },
+        { status: 400 }
+      )
+    }
+
+    const canStartInterview = await checkUsageLimit(session.user.id, 'mock_interview')
+    if (!canStartInterview) {
+      return NextResponse.json(
+        {
+          error: 'Mock interview limit reached for current billing period',
+          quotaExceeded: true,
+          upgradeRequired: true
+        },
+        { status: 402 }
+      )
+    }
+
+    // Finish the drill in progress before starting another
+    const existingSession = await prisma.interviewSession.findFirst({
+      where: {
+        userId: session.user.id,
+        interviewType: 'drill',
+        status: 'IN_PROGRESS'
+      }
+    })
+
+    if (existingSession) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          sessionId: existingSession.id,
+          currentQuestion: existingSession.currentQuestion,
+          totalQuestions: existingSession.totalQuestions,
+          existing: true
+        }
+      })
+    }
+
+    const drill = await drillSessionData(session.user.id)
+
+    try {
+      await incrementUsage(session.user.id, 'mock_interview')
+    } catch (error) {
+      console.error('Failed to increment mock interview usage:', error)
+      return NextResponse.json(
+        { error: 'Mock interview limit reached for current billing period' },
+        { status: 402 }
+      )
+    }
+
+    const interviewSession = await prisma.interviewSession.create({
+      data: {
+        userId: session.user.id,
+        applicationId: null,
+        ...drill,
+        currentQuestion: 0,
+        status: 'IN_PROGRESS',
+        interviewType: 'drill',
+        persona
+      }
+    })
+
+    console.log(`Created drill session ${interviewSession.id} with ${drill.totalQuestions} questions`)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sessionId: interviewSession.id,
+        currentQuestion: 0,
+        totalQuestions: interviewSession.totalQuestions,
+        existing: false
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof DrillUnavailableError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Start drill API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start drill' },
+      { status: 500 }
+    )
+  }
+}
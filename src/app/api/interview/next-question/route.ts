@@ -2,7 +2,15 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
-import OpenAI from 'openai'
+import { generateInterviewQuestion } from '@/lib/openai'
+import {
+  bankGeneratedQuestion,
+  chooseQuestionText,
+  interviewTypeStrategy,
+  personaStrategy,
+  planSessionQuestion,
+  QuestionPlan
+} from '@/lib/interview'
 
 // Helper function to fetch file from URL and convert to Blob
 async function fetchFileAsBlob(url: string): Promise<Blob> {
@@ -35,7 +43,7 @@ interface GradioResponse {
   ]
 }
 
-// Built-in interview questions fallback
+// Questions from the question bank when OpenAI isn't configured
 async function handleBuiltInQuestions(
   sessionId: string,
   questionIndex: number, 
@@ -44,52 +52,14 @@ async function handleBuiltInQuestions(
   jobDescription: string
 ): Promise<NextResponse> {
   try {
-    // Professional interview questions based on job type and progress
-    const getQuestionForRole = (jobTitle: string, qIndex: number): string => {
-      const roleType = jobTitle.toLowerCase()
-      
-      // Question banks by role type
-      const questions = {
-        opening: [
-          "Tell me about yourself and your professional background.",
-          "Why are you interested in this position at our company?",
-          "What attracted you to apply for this role?"
-        ],
-        technical: [
-          roleType.includes('engineer') || roleType.includes('developer') ? 
-            "Walk me through your approach to solving a complex technical problem." :
-          roleType.includes('manager') ? 
-            "Describe your management style and how you handle team conflicts." :
-          roleType.includes('designer') ?
-            "Tell me about your design process from concept to final product." :
-            "What technical skills make you well-suited for this position?"
-        ],
-        experience: [
-          "Describe a challenging project you've worked on and how you overcame obstacles.",
-          "Tell me about a time when you had to learn a new technology quickly.",
-          "Give me an example of when you collaborated with a difficult team member."
-        ],
-        behavioral: [
-          "How do you handle tight deadlines and pressure?",
-          "Describe a time when you failed at something. What did you learn?",
-          "Tell me about a time you went above and beyond for a project."
-        ],
-        closing: [
-          "Where do you see yourself in 5 years?",
-          "What questions do you have for me about the role or company?",
-          "What would success look like for you in this position?"
-        ]
-      }
-      
-      // Select appropriate question based on interview progress
-      if (qIndex === 0) return questions.opening[qIndex % 3]
-      if (qIndex === totalQuestions - 1) return questions.closing[qIndex % 3]
-      if (qIndex === 1) return questions.technical[0]
-      if (qIndex <= 2) return questions.experience[qIndex % 3]
-      return questions.behavioral[qIndex % 3]
-    }
-    
-    const questionText = getQuestionForRole(interviewSession.jobTitle, questionIndex)
+    // Probe vague answers, raise the bar after strong ones, and work through the role's competencies
+    const { plan, style, previous } = await planSessionQuestion(interviewSession, questionIndex, totalQuestions)
+    const questionText = await chooseQuestionText(
+      interviewSession,
+      plan,
+      style,
+      previous.flatMap(q => q.questionText ? [q.questionText] : [])
+    )
     
     // Save the question to database
     const interviewQuestion = await prisma.interviewQuestion.create({
@@ -97,7 +67,8 @@ async function handleBuiltInQuestions(
         sessionId: sessionId,
         questionIndex: questionIndex,
         questionText: questionText,
-        questionAudioUrl: null // Built-in questions are text-only
+        questionAudioUrl: null, // Built-in questions are text-only
+        ...questionPlanFields(plan)
       }
     })
 
@@ -118,7 +89,8 @@ async function handleBuiltInQuestions(
         questionAudioUrl: null,
         questionIndex: questionIndex,
         totalQuestions: totalQuestions,
-        sessionId: sessionId
+        sessionId: sessionId,
+        ...questionPlanSummary(plan)
       }
     })
 
@@ -131,6 +103,26 @@ async function handleBuiltInQuestions(
   }
 }
 
+// Columns that record why a question was asked, so later questions can build on it
+function questionPlanFields(plan: QuestionPlan) {
+  return {
+    questionType: plan.questionType,
+    competency: plan.competency?.name ?? null,
+    difficulty: plan.difficulty,
+    followUpOfId: plan.followUpOf?.questionId ?? null,
+    interviewer: plan.interviewer
+  }
+}
+
+function questionPlanSummary(plan: QuestionPlan) {
+  return {
+    move: plan.move,
+    competency: plan.competency?.name ?? null,
+    isFollowUp: plan.move === 'follow_up',
+    interviewer: plan.interviewer
+  }
+}
+
 // OpenAI-based interview handler
 async function handleOpenAIInterview(
   userId: string,
@@ -141,9 +133,9 @@ async function handleOpenAIInterview(
   interviewSession: any
 ): Promise<NextResponse> {
   try {
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
+    const { plan, style, previous } = await planSessionQuestion(interviewSession, questionIndex, totalQuestions)
+    const askedQuestions = previous.flatMap(q => q.questionText ? [q.questionText] : [])
+    const lastAnswered = [...previous].reverse().find(q => q.questionText && q.userAnswerText)
 
     // Get user profile for context
     const profile = await prisma.profile.findUnique({
@@ -151,48 +143,43 @@ async function handleOpenAIInterview(
       include: { skills: true }
     })
 
-    // Generate interview question based on job description and progress
-    const questionPrompt = `You are conducting a professional job interview. 
-
-Job Details:
-- Position: ${interviewSession.jobTitle}
-- Company: ${interviewSession.company}  
-- Job Description: ${jobDescription}
-
-Interview Progress:
-- Current Question: ${questionIndex + 1} of ${totalQuestions}
-- Candidate Background: ${profile?.fullName || 'Candidate'}
-- Skills: ${profile?.skills?.map(s => s.name).join(', ') || 'Various skills'}
-
-Generate a professional, relevant interview question that:
-1. Is appropriate for this stage of the interview (question ${questionIndex + 1} of ${totalQuestions})
-2. Relates to the job requirements and responsibilities
-3. Is conversational and realistic
-4. Tests relevant skills and experience
-
-${questionIndex === 0 ? 'Start with an opening question like "Tell me about yourself" or "Why are you interested in this position?"' : ''}
-${questionIndex === totalQuestions - 1 ? 'This is the final question - make it about future goals or closing thoughts.' : ''}
-
-Respond with just the question text, no additional formatting.`
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an experienced hiring manager conducting professional job interviews. Generate realistic, relevant interview questions.'
+    let questionText: string
+    let generated = false
+    try {
+      questionText = await generateInterviewQuestion({
+        job: {
+          title: interviewSession.jobTitle,
+          company: interviewSession.company,
+          description: jobDescription
         },
-        {
-          role: 'user', 
-          content: questionPrompt
-        }
-      ],
-      max_tokens: 200,
-      temperature: 0.7
-    })
+        interview: style.type ? interviewTypeStrategy(style.type) : undefined,
+        interviewer: {
+          style: personaStrategy(style.persona).style,
+          name: plan.interviewer ?? undefined
+        },
+        questionNumber: questionIndex + 1,
+        totalQuestions,
+        move: plan.move,
+        competency: plan.competency ?? undefined,
+        difficulty: plan.difficulty,
+        followUpOf: plan.followUpOf
+          ? { question: plan.followUpOf.questionText, answer: plan.followUpOf.answerText, gaps: plan.followUpOf.gaps }
+          : undefined,
+        previousAnswer: plan.move === 'deep_dive' && lastAnswered
+          ? { question: lastAnswered.questionText!, answer: lastAnswered.userAnswerText! }
+          : undefined,
+        askedQuestions,
+        skills: profile?.skills?.map(s => s.name) || []
+      })
+      generated = true
+    } catch (error) {
+      // Fall back to the question bank
+      questionText = await chooseQuestionText(interviewSession, plan, style, askedQuestions)
+    }
 
-    const questionText = response.choices[0]?.message?.content?.trim() || 
-      `Tell me about your experience with ${interviewSession.jobTitle} roles and what interests you about this position.`
+    if (generated) {
+      await bankGeneratedQuestion(interviewSession, plan, questionText)
+    }
 
     // Save the question to database
     const interviewQuestion = await prisma.interviewQuestion.create({
@@ -201,7 +188,8 @@ Respond with just the question text, no additional formatting.`
         questionIndex: questionIndex,
         questionText: questionText,
         // No audio URL for OpenAI version - we'll use text-to-speech later if needed
-        questionAudioUrl: null
+        questionAudioUrl: null,
+        ...questionPlanFields(plan)
       }
     })
 
@@ -222,52 +210,17 @@ Respond with just the question text, no additional formatting.`
         questionAudioUrl: null, // Will be text-based for now
         questionIndex: questionIndex,
         totalQuestions: totalQuestions,
-        sessionId: sessionId
+        sessionId: sessionId,
+        ...questionPlanSummary(plan)
       }
     })
 
   } catch (error) {
     console.error('OpenAI interview error:', error)
-    
-    // Fallback to pre-defined questions
-    const fallbackQuestions = [
-      "Tell me about yourself and your background.",
-      "Why are you interested in this position?", 
-      "What are your greatest strengths?",
-      "Describe a challenging project you've worked on.",
-      "Where do you see yourself in 5 years?"
-    ]
-    
-    const questionText = fallbackQuestions[questionIndex] || fallbackQuestions[0]
-    
-    const interviewQuestion = await prisma.interviewQuestion.create({
-      data: {
-        sessionId: sessionId,
-        questionIndex: questionIndex,
-        questionText: questionText,
-        questionAudioUrl: null
-      }
-    })
-
-    await prisma.interviewSession.update({
-      where: { id: sessionId },
-      data: {
-        currentQuestion: questionIndex,
-        updatedAt: new Date()
-      }
-    })
-
-    return NextResponse.json({
-      success: true,
-      data: {
-        questionId: interviewQuestion.id,
-        questionText: questionText,
-        questionAudioUrl: null,
-        questionIndex: questionIndex,
-        totalQuestions: totalQuestions,
-        sessionId: sessionId
-      }
-    })
+    return NextResponse.json(
+      { error: 'Failed to generate interview question' },
+      { status: 500 }
+    )
   }
 }
 
@@ -316,8 +269,11 @@ export async function POST(req: NextRequest) {
     // Check if we have the Gradio endpoint configured
     const gradioEndpoint = process.env.GRADIO_INTERVIEW_ENDPOINT
     
-    // If Gradio endpoint is not configured, fall back to built-in questions
+    // If Gradio endpoint is not configured, write questions with OpenAI, or fall back to built-in questions
     if (!gradioEndpoint) {
+      if (process.env.OPENAI_API_KEY) {
+        return await handleOpenAIInterview(session.user.id, sessionId, interviewSession.jobDescription, questionIndex, totalQuestions, interviewSession)
+      }
       console.log('Gradio endpoint not configured, using built-in questions')
       return await handleBuiltInQuestions(sessionId, questionIndex, totalQuestions, interviewSession, jobDescription)
     }
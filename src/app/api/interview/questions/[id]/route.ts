@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+
+/**
+ * Remove a question the user added. Shared questions can't be removed.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const result = await prisma.interviewBankQuestion.deleteMany({
+      where: { id, userId: session.user.id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Question bank delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete question' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isAdminEmail } from '@/lib/admin'
+import { shareBankQuestion } from '@/lib/interview'
+
+/**
+ * Share a private question with every user (admins only). The shared copy
+ * has no owner; the original stays with its user.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const question = await shareBankQuestion(id)
+
+    if (!question) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { question },
+      message: 'Question shared'
+    })
+
+  } catch (error) {
+    console.error('Question share error:', error)
+    return NextResponse.json(
+      { error: 'Failed to share question' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isAdminEmail } from '@/lib/admin'
+import { listShareCandidates } from '@/lib/interview'
+
+/**
+ * Private questions that could be shared with everyone (admins only)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const questions = await listShareCandidates()
+
+    return NextResponse.json({
+      success: true,
+      data: { questions }
+    })
+
+  } catch (error) {
+    console.error('Question share candidates fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch questions' },
+      { status: 500 }
+    )
+  }
+}
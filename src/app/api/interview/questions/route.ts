@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  addBankQuestion,
+  INTERVIEW_QUESTION_TYPES,
+  InterviewQuestionType,
+  listBankQuestions,
+  ROLE_FAMILIES,
+  RoleFamily,
+  SENIORITIES,
+  Seniority,
+} from '@/lib/interview'
+import { z } from 'zod'
+
+const addQuestionSchema = z.object({
+  text: z.string().min(10, 'Question is too short'),
+  questionType: z.enum(INTERVIEW_QUESTION_TYPES as [InterviewQuestionType, ...InterviewQuestionType[]]),
+  competency: z.string().min(1).optional(),
+  seniority: z.enum(SENIORITIES as [Seniority, ...Seniority[]]).optional(),
+  roleFamily: z.enum(ROLE_FAMILIES as [RoleFamily, ...RoleFamily[]]).optional(),
+  company: z.string().min(1).optional(),
+  difficulty: z.number().int().min(1).max(3).optional(),
+})
+
+/**
+ * Shared questions plus the user's own, filtered by any tag
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(req.url)
+    const difficulty = parseInt(searchParams.get('difficulty') || '')
+
+    const questions = await listBankQuestions(session.user.id, {
+      questionType: (searchParams.get('questionType') as InterviewQuestionType) || undefined,
+      competency: searchParams.get('competency') || undefined,
+      seniority: (searchParams.get('seniority') as Seniority) || undefined,
+      roleFamily: (searchParams.get('roleFamily') as RoleFamily) || undefined,
+      company: searchParams.get('company') || undefined,
+      difficulty: Number.isNaN(difficulty) ? undefined : difficulty,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        questions: questions.map(q => ({
+          id: q.id,
+          text: q.text,
+          questionType: q.questionType,
+          competency: q.competency,
+          seniority: q.seniority,
+          roleFamily: q.roleFamily,
+          company: q.company,
+          difficulty: q.difficulty,
+          source: q.source,
+          own: q.userId === session.user.id,
+          timesAsked: q.timesAsked,
+        }))
+      }
+    })
+
+  } catch (error) {
+    console.error('Question bank fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch question bank' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Add a question of the user's own. Only they get asked it.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+    const data = addQuestionSchema.parse(body)
+
+    const question = await addBankQuestion({
+      ...data,
+      text: data.text.trim(),
+      userId: session.user.id,
+      source: 'USER',
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { question },
+      message: 'Question added'
+    })
+
+  } catch (error) {
+    console.error('Question bank save error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to add question' },
+      { status: 500 }
+    )
+  }
+}
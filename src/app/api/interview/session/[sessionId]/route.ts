@@ -2,6 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
+import {
+  competencyCoverage,
+  parseAnswerEvaluation,
+  parseCompetencies,
+  parseSessionReport,
+  parseSpeakingMetrics,
+  parseTranscript,
+} from '@/lib/interview'
 
 export async function GET(
   req: NextRequest,
@@ -75,8 +83,13 @@ export async function GET(
           jobDescription: interviewSession.jobDescription,
           currentQuestion: interviewSession.currentQuestion,
           totalQuestions: interviewSession.totalQuestions,
+          interviewType: interviewSession.interviewType,
+          persona: interviewSession.persona,
           overallScore: interviewSession.overallScore,
           feedback: interviewSession.feedback,
+          competencies: competencyCoverage(parseCompetencies(interviewSession.competencies) || [], interviewSession.questions),
+          report: parseSessionReport(interviewSession.report),
+          reportGeneratedAt: interviewSession.reportGeneratedAt,
           createdAt: interviewSession.createdAt,
           completedAt: interviewSession.completedAt
         },
@@ -87,8 +100,17 @@ export async function GET(
           questionAudioUrl: q.questionAudioUrl,
           userAnswerText: q.userAnswerText,
           userAnswerAudioUrl: q.userAnswerAudioUrl,
+          transcriptionStatus: q.transcriptionStatus,
+          transcript: parseTranscript(q.transcript),
+          speakingMetrics: parseSpeakingMetrics(q.speakingMetrics),
+          questionType: q.questionType,
+          competency: q.competency,
+          difficulty: q.difficulty,
+          followUpOfId: q.followUpOfId,
+          interviewer: q.interviewer,
           feedback: q.feedback,
           score: q.score,
+          evaluation: parseAnswerEvaluation(q.evaluation),
           answeredAt: q.answeredAt
         })),
         progress,
@@ -3,10 +3,13 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { checkUsageLimit, incrementUsage } from '@/lib/billing/usageTracking'
+import { INTERVIEW_TYPES, InterviewType, isInterviewPersona } from '@/lib/interview'
 
 interface StartInterviewRequest {
   applicationId: string
   totalQuestions?: number
+  interviewType?: string // Omitted for a general interview
+  persona?: string
 }
 
 export async function POST(req: NextRequest) {
@@ -22,6 +25,8 @@ export async function POST(req: NextRequest) {
 
     const body: StartInterviewRequest = await req.json()
     const { applicationId, totalQuestions = 5 } = body
+    const interviewType = body.interviewType || null
+    const persona = body.persona || null
 
     if (!applicationId) {
       return NextResponse.json(
@@ -30,6 +35,21 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    // Drills aren't tied to an application and start from /api/interview/drill
+    if (interviewType && !INTERVIEW_TYPES.includes(interviewType as InterviewType)) {
+      return NextResponse.json(
+        { error: 'Invalid interview type' },
+        { status: 400 }
+      )
+    }
+
+    if (persona && !isInterviewPersona(persona)) {
+      return NextResponse.json(
+        { error: 'Invalid interviewer persona' },
+        { status: 400 }
+      )
+    }
+
     // Check mock interview usage limit before proceeding
     const canStartInterview = await checkUsageLimit(session.user.id, 'mock_interview')
     if (!canStartInterview) {
@@ -70,14 +90,17 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Check if there's already an active interview session for this application
-    const existingSession = await prisma.interviewSession.findFirst({
+    // Check if there's already an active interview session of this kind for this application
+    const activeSessions = await prisma.interviewSession.findMany({
       where: {
         applicationId: applicationId,
         userId: session.user.id,
         status: 'IN_PROGRESS'
       }
     })
+    const existingSession = activeSessions.find(s =>
+      (s.interviewType ?? null) === interviewType && (s.persona ?? null) === persona
+    )
 
     if (existingSession) {
       return NextResponse.json({
@@ -86,6 +109,8 @@ export async function POST(req: NextRequest) {
           sessionId: existingSession.id,
           currentQuestion: existingSession.currentQuestion,
           totalQuestions: existingSession.totalQuestions,
+          interviewType: existingSession.interviewType,
+          persona: existingSession.persona,
           existing: true
         }
       })
@@ -113,11 +138,13 @@ export async function POST(req: NextRequest) {
         resumeUrl: profile.resumeUrl,
         totalQuestions: totalQuestions,
         currentQuestion: 0,
-        status: 'IN_PROGRESS'
+        status: 'IN_PROGRESS',
+        interviewType,
+        persona
       }
     })
 
-    console.log(`Created new interview session ${interviewSession.id} for application ${applicationId}`)
+    console.log(`Created new ${interviewType || 'general'} interview session ${interviewSession.id} for application ${applicationId}${persona ? ` with ${persona}` : ''}`)
 
     return NextResponse.json({
       success: true,
@@ -127,6 +154,8 @@ export async function POST(req: NextRequest) {
         totalQuestions: totalQuestions,
         jobTitle: application.jobTitle,
         company: application.company,
+        interviewType,
+        persona,
         existing: false
       }
     })
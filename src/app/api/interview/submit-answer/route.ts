@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
+import { emitWebhookEvent } from '@/lib/webhooks'
+import { enqueueAnswerEvaluation, enqueueAnswerTranscription, requestSessionReport } from '@/lib/interview'
+import { isTranscriptionConfigured } from '@/lib/transcription'
 import { uploadAudioFile, generateAudioFileName } from '@/lib/audioStorage'
 
 interface SubmitAnswerRequest {
@@ -75,30 +78,58 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Recordings are transcribed before grading; the transcript job queues the grade
+    const transcribe = Boolean(userAnswerAudioUrl) && isTranscriptionConfigured()
+
     // Update the question with the user's answer
     const updatedQuestion = await prisma.interviewQuestion.update({
       where: { id: questionId },
       data: {
         userAnswerAudioUrl: userAnswerAudioUrl,
         userAnswerText: userAnswerText,
+        transcriptionStatus: transcribe ? 'PENDING' : null,
         answeredAt: new Date()
       }
     })
 
+    // Transcribe and grade the answer in the background; the next question doesn't wait on it
+    try {
+      if (transcribe) {
+        await enqueueAnswerTranscription(questionId, session.user.id)
+      } else if (userAnswerText?.trim()) {
+        await enqueueAnswerEvaluation(questionId, session.user.id)
+      }
+    } catch (error) {
+      console.error('Failed to queue answer transcription or evaluation:', error)
+    }
+
     // Check if this was the last question
     const isLastQuestion = question.questionIndex >= (question.session.totalQuestions - 1)
 
     if (isLastQuestion) {
       // Complete the interview session
-      await prisma.interviewSession.update({
+      const completedSession = await prisma.interviewSession.update({
         where: { id: question.sessionId },
         data: {
           status: 'COMPLETED',
           completedAt: new Date()
-        }
+        },
+        include: { application: true }
+      })
+      const { application, ...interviewSession } = completedSession
+      await emitWebhookEvent(completedSession.userId, 'interview.completed', {
+        session: interviewSession,
+        application,
       })
 
       console.log(`Interview session ${question.sessionId} completed`)
+
+      // Answers graded before this one finished the session can be reported on now
+      try {
+        await requestSessionReport(question.sessionId, session.user.id)
+      } catch (error) {
+        console.error('Failed to queue interview report:', error)
+      }
     }
 
     return NextResponse.json({
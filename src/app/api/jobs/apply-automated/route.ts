@@ -3,7 +3,12 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { consumeAutoApplication, checkAutoApplicationQuota } from '@/lib/plans/enforcement'
+import { ensureCanonicalJobId, findExistingApplication } from '@/lib/jobIdentity'
+import { pickSalaryFields } from '@/lib/salary'
+import { linkRunToApplication } from '@/lib/automationRuns'
+import { ApplicationPreview, isDryRunEnabled } from '@/lib/applicationPreview'
 import { z } from 'zod'
+import { emitWebhookEvent } from '@/lib/webhooks'
 
 const automatedApplySchema = z.object({
   jobId: z.string(),
@@ -20,7 +25,8 @@ const automatedApplySchema = z.object({
   customizedResumeUrl: z.string().optional(),
   coverLetter: z.string().optional(),
   useAutomation: z.boolean().default(true),
-  prepareOnly: z.boolean().default(false)
+  prepareOnly: z.boolean().default(false),
+  dryRun: z.boolean().optional() // Defaults to the user's auto-apply setting
 })
 
 export async function POST(req: NextRequest) {
@@ -37,7 +43,8 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json()
-    const { jobId, resumeData, customizedResumeUrl, coverLetter, useAutomation, prepareOnly } = automatedApplySchema.parse(body)
+    const { jobId, resumeData, customizedResumeUrl, coverLetter, useAutomation, prepareOnly, dryRun: requestedDryRun } = automatedApplySchema.parse(body)
+    const dryRun = requestedDryRun ?? await isDryRunEnabled(session.user.id)
     
     console.log('Automated application request:', {
       jobId,
@@ -45,11 +52,12 @@ export async function POST(req: NextRequest) {
       hasResumeUrl: !!customizedResumeUrl,
       hasCoverLetter: !!coverLetter,
       useAutomation,
-      prepareOnly
+      prepareOnly,
+      dryRun
     })
 
-    // For automated applications, check quota before proceeding
-    if (!prepareOnly && useAutomation) {
+    // For automated applications, check quota before proceeding (dry runs submit nothing)
+    if (!prepareOnly && useAutomation && !dryRun) {
       const quotaCheck = await checkAutoApplicationQuota(session.user.id)
       if (!quotaCheck.allowed) {
         return NextResponse.json(
@@ -88,10 +96,14 @@ export async function POST(req: NextRequest) {
     let applicationResult: {
       success: boolean;
       platform: string;
-      method: 'redirect' | 'automated' | 'failed';
+      method: 'redirect' | 'automated' | 'dry_run' | 'failed';
       redirectUrl?: string;
       confirmationId?: string;
       error?: string;
+      stoppedAt?: string;
+      completedSteps?: string[];
+      runId?: string;
+      preview?: ApplicationPreview;
     }
     
     // For manual apply jobs, just prepare materials and return
@@ -109,6 +121,24 @@ export async function POST(req: NextRequest) {
       })
     }
 
+    // The same role may already have been applied to from another job board
+    const canonicalJobId = await ensureCanonicalJobId(job)
+    const existingApplication = await findExistingApplication(session.user.id, job, canonicalJobId)
+
+    if (existingApplication && !dryRun) {
+      return NextResponse.json(
+        {
+          error: 'Already applied to this job',
+          existingApplication: {
+            id: existingApplication.id,
+            appliedAt: existingApplication.appliedAt,
+            status: existingApplication.status,
+          }
+        },
+        { status: 409 }
+      )
+    }
+
     if (useAutomation && job.url && job.source) {
       // Attempt automated application
       console.log('Attempting automated application...')
@@ -121,13 +151,17 @@ export async function POST(req: NextRequest) {
           job.url, // job_apply_link from JSearch
           job.source, // job_publisher from JSearch  
           {
+            userId: session.user.id,
+            jobId: job.id,
             fullName: resumeData.contactInfo.fullName,
             email: resumeData.contactInfo.email,
             phone: resumeData.contactInfo.phone,
             resumeUrl: customizedResumeUrl || '',
             coverLetter: coverLetter,
             linkedinProfile: resumeData.contactInfo.linkedin,
-            portfolioUrl: resumeData.contactInfo.website
+            portfolioUrl: resumeData.contactInfo.website,
+            job: { title: job.title, company: job.company, description: job.description },
+            dryRun
           }
         )
         
@@ -158,6 +192,29 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Dry runs stop before submitting, so nothing is recorded as applied
+    if (dryRun) {
+      const reachedSubmit = applicationResult.method === 'dry_run'
+
+      return NextResponse.json({
+        success: reachedSubmit,
+        method: 'dry_run',
+        platform: applicationResult.platform,
+        error: reachedSubmit ? undefined : applicationResult.error,
+        stoppedAt: applicationResult.stoppedAt,
+        completedSteps: applicationResult.completedSteps,
+        runId: applicationResult.runId,
+        data: {
+          jobTitle: job.title,
+          company: job.company,
+          preview: applicationResult.preview,
+          message: reachedSubmit
+            ? `Dry run complete: ${job.title} at ${job.company} is ready to submit`
+            : 'Dry run stopped before reaching the submit button'
+        }
+      })
+    }
+
     // Create response based on automation result
     if (applicationResult.success && applicationResult.method === 'automated') {
       // Successful automation - consume quota and mark as applied
@@ -186,11 +243,13 @@ export async function POST(req: NextRequest) {
           jobUrl: job.url,
           location: job.location,
           salaryRange: job.salaryRange,
+          ...pickSalaryFields(job),
           employmentType: job.employmentType,
           customizedResumeUrl: customizedResumeUrl || '',
           coverLetter: coverLetter || '',
           status: 'APPLIED',
           source: 'automated',
+          canonicalJobId,
           matchScore: 0.8, // Default for automated applications
           resumeCustomizationData: JSON.stringify({
             automationResult: applicationResult,
@@ -198,6 +257,11 @@ export async function POST(req: NextRequest) {
           })
         }
       })
+      await emitWebhookEvent(session.user.id, 'application.created', { application })
+
+      if (applicationResult.runId) {
+        await linkRunToApplication(applicationResult.runId, application.id)
+      }
 
       return NextResponse.json({
         success: true,
@@ -205,6 +269,7 @@ export async function POST(req: NextRequest) {
         platform: applicationResult.platform,
         data: {
           applicationId: application.id,
+          runId: applicationResult.runId,
           confirmationId: applicationResult.confirmationId,
           message: `Successfully applied to ${job.title} at ${job.company} via automation`,
           appliedAt: application.appliedAt
@@ -221,6 +286,9 @@ export async function POST(req: NextRequest) {
         platform: applicationResult.platform,
         redirectUrl: applicationResult.redirectUrl,
         error: applicationResult.error,
+        stoppedAt: applicationResult.stoppedAt,
+        completedSteps: applicationResult.completedSteps,
+        runId: applicationResult.runId,
         data: {
           jobTitle: job.title,
           company: job.company,
@@ -267,7 +335,7 @@ export async function GET() {
     try {
       await import('@/lib/jobApplicationAutomation')
       automationAvailable = true
-      supportedPlatforms = ['indeed', 'greenhouse']
+      supportedPlatforms = ['indeed', 'greenhouse', 'workday']
     } catch (error) {
       console.log('Automation system not available:', error)
     }
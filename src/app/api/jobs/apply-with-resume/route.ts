@@ -4,7 +4,10 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { structuredResumeCustomizer } from '@/lib/structuredResumeCustomizer'
 import { generateCoverLetter } from '@/lib/openai'
+import { ensureCanonicalJobId, findExistingApplication } from '@/lib/jobIdentity'
+import { pickSalaryFields } from '@/lib/salary'
 import { z } from 'zod'
+import { emitWebhookEvent } from '@/lib/webhooks'
 
 const applyJobSchema = z.object({
   jobId: z.string(),
@@ -64,6 +67,24 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    // The same role may already have been applied to from another job board
+    const canonicalJobId = await ensureCanonicalJobId(job)
+    const existingApplication = await findExistingApplication(session.user.id, job, canonicalJobId)
+
+    if (existingApplication) {
+      return NextResponse.json(
+        {
+          error: 'Already applied to this job',
+          existingApplication: {
+            id: existingApplication.id,
+            appliedAt: existingApplication.appliedAt,
+            status: existingApplication.status,
+          }
+        },
+        { status: 409 }
+      )
+    }
+
     let finalResumeUrl: string
     let customizationNotes: string[] = []
     let keywordMatches: string[] = []
@@ -162,11 +183,13 @@ ${resumeData.contactInfo.fullName}`
         jobUrl: job.url,
         location: job.location,
         salaryRange: job.salaryRange,
+        ...pickSalaryFields(job),
         employmentType: job.employmentType,
         customizedResumeUrl: finalResumeUrl,
         coverLetter: finalCoverLetter,
         status: 'APPLIED',
         source: 'manual',
+        canonicalJobId,
         matchScore: matchScore,
         resumeCustomizationData: customizeResume ? JSON.stringify({
           customizationNotes,
@@ -176,6 +199,7 @@ ${resumeData.contactInfo.fullName}`
         }) : null
       }
     })
+    await emitWebhookEvent(session.user.id, 'application.created', { application })
 
     console.log('Critical operations completed, application ID:', application.id)
 
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { createJobSearchService, JobSearchParams } from '@/lib/jobAPIs'
+import { JobSearchParams } from '@/lib/jobAPIs'
+import { createJobSearchService } from '@/lib/jobSources'
 import { resolveJobPreferences } from '@/lib/preferenceResolver'
 
 export async function POST(req: NextRequest) {
@@ -25,9 +26,8 @@ export async function POST(req: NextRequest) {
     console.log(`  📊 Preference Source: ${preferences.source}`)
     console.log(`  🔄 Search came from: ${preferences.source === 'RESUME' ? 'Resume extraction' : 'User-defined preferences'}`)
 
-    // Create job search service with automatic fallback
-    const jsearchApiKey = process.env.JSEARCH_API_KEY
-    const jobAPI = createJobSearchService(jsearchApiKey)
+    // Create job search service across all configured job sources
+    const jobAPI = createJobSearchService()
 
     // Search for jobs using resolved preferences
     const jobSearchParams: JobSearchParams = {
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { createJobSearchService } from '@/lib/jobAPIs'
+import { createJobSearchService } from '@/lib/jobSources'
 import { z } from 'zod'
 
 const jobDetailsSchema = z.object({
@@ -22,9 +22,8 @@ export async function POST(req: NextRequest) {
     const body = await req.json()
     const { jobId } = jobDetailsSchema.parse(body)
 
-    // Create job search service with automatic fallback
-    const jsearchApiKey = process.env.JSEARCH_API_KEY
-    const jobAPI = createJobSearchService(jsearchApiKey)
+    // Create job search service across all configured job sources
+    const jobAPI = createJobSearchService()
 
     // Get job details
     const jobDetails = await jobAPI.getJobDetails(jobId)
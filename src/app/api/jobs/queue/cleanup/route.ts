@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { jobScheduler } from '@/lib/jobQueue/scheduler'
+import { queueManager } from '@/lib/queue/QueueManager'
 import { z } from 'zod'
 
 const cleanupSchema = z.object({
@@ -24,7 +24,7 @@ export async function POST(req: NextRequest) {
     const body = await req.json()
     const { olderThanDays } = cleanupSchema.parse(body)
 
-    const deletedCount = await jobScheduler.cleanupQueue(olderThanDays)
+    const deletedCount = await queueManager.cleanup(olderThanDays)
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isAdminEmail } from '@/lib/admin'
+import { queueManager } from '@/lib/queue/QueueManager'
+import { z } from 'zod'
+
+const replaySchema = z.object({
+  payload: z.record(z.any()).optional(), // Replaces the dead job's payload
+})
+
+/**
+ * Enqueue a dead job again (admins only), optionally with an edited payload
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const { payload } = replaySchema.parse(body)
+    const { id } = await params
+
+    const jobId = await queueManager.replayDeadJob(id, { payload })
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Dead job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id, jobId },
+      message: 'Dead job queued again'
+    })
+
+  } catch (error) {
+    console.error('Dead job replay error:', error)
+    
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to replay dead job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isAdminEmail } from '@/lib/admin'
+import { queueManager } from '@/lib/queue/QueueManager'
+
+/**
+ * One dead job with the error from every attempt (admins only)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const job = await queueManager.getDeadJob(id)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Dead job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: job
+    })
+
+  } catch (error) {
+    console.error('Dead job fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch dead job' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const deletedCount = await queueManager.purgeDeadJobs({ ids: [id] })
+
+    if (deletedCount === 0) {
+      return NextResponse.json(
+        { error: 'Dead job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Dead job purged'
+    })
+
+  } catch (error) {
+    console.error('Dead job purge error:', error)
+    return NextResponse.json(
+      { error: 'Failed to purge dead job' },
+      { status: 500 }
+    )
+  }
+}
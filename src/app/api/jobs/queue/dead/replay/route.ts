@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isAdminEmail } from '@/lib/admin'
+import { queueManager } from '@/lib/queue/QueueManager'
+import { z } from 'zod'
+
+const batchReplaySchema = z.object({
+  ids: z.array(z.string()).min(1).max(500).optional(),
+  type: z.string().optional(),
+  error: z.string().optional(),
+  limit: z.number().min(1).max(500).optional().default(100),
+})
+
+/**
+ * Enqueue a batch of dead jobs again (admins only): the given ids, or
+ * every dead job matching type and/or error up to the limit
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const body = await req.json()
+    const { ids, type, error, limit } = batchReplaySchema.parse(body)
+
+    if (!ids && !type && !error) {
+      return NextResponse.json(
+        { error: 'Pass ids, type or error to choose the dead jobs to replay' },
+        { status: 400 }
+      )
+    }
+
+    const replayed = await queueManager.replayDeadJobs({
+      ids,
+      type,
+      error,
+      limit: ids ? ids.length : limit,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { replayed },
+      message: `Queued ${replayed.length} dead jobs again`
+    })
+
+  } catch (error) {
+    console.error('Dead jobs replay error:', error)
+    
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to replay dead jobs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isAdminEmail } from '@/lib/admin'
+import { queueManager } from '@/lib/queue/QueueManager'
+import { z } from 'zod'
+
+const purgeSchema = z.object({
+  ids: z.array(z.string()).min(1).optional(),
+  type: z.string().optional(),
+  error: z.string().optional(),
+  olderThanDays: z.number().min(0).max(365).optional(),
+  all: z.boolean().optional(), // Required to purge without any filter
+})
+
+/**
+ * List dead jobs (admins only), most recently failed first.
+ * Filter with type and error (case-insensitive match on the final error).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(req.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0'), 0)
+
+    const { jobs, total } = await queueManager.listDeadJobs({
+      type: searchParams.get('type') || undefined,
+      error: searchParams.get('error') || undefined,
+      limit,
+      offset,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { jobs, total, limit, offset }
+    })
+
+  } catch (error) {
+    console.error('Dead jobs fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch dead jobs' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Permanently delete dead jobs matching the filter (admins only)
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const { ids, type, error, olderThanDays, all } = purgeSchema.parse(body)
+
+    if (!ids && !type && !error && olderThanDays === undefined && !all) {
+      return NextResponse.json(
+        { error: 'Pass ids, type, error or olderThanDays, or all: true to purge every dead job' },
+        { status: 400 }
+      )
+    }
+
+    const deletedCount = await queueManager.purgeDeadJobs({
+      ids,
+      type,
+      error,
+      failedBefore: olderThanDays !== undefined
+        ? new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000)
+        : undefined,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { deletedCount },
+      message: `Purged ${deletedCount} dead jobs`
+    })
+
+  } catch (error) {
+    console.error('Dead jobs purge error:', error)
+    
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to purge dead jobs' },
+      { status: 500 }
+    )
+  }
+}
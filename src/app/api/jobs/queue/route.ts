@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { jobScheduler } from '@/lib/jobQueue/scheduler'
+import { queueManager, JobType } from '@/lib/queue/QueueManager'
 import { z } from 'zod'
 
 const scheduleJobSchema = z.object({
-  type: z.enum(['user_job_scan', 'process_job_matches', 'generate_cover_letter', 'customize_resume', 'process_application']),
+  type: z.enum([JobType.USER_JOB_SCAN, JobType.PROCESS_JOB_MATCHES]),
   userId: z.string().optional(),
-  jobId: z.string().optional(),
 })
 
 export async function GET() {
@@ -21,8 +20,8 @@ export async function GET() {
       )
     }
 
-    const metrics = await jobScheduler.getQueueMetrics()
-    const schedules = Object.fromEntries(jobScheduler.getSchedules())
+    const metrics = await queueManager.getMetrics()
+    const schedules = await queueManager.getSchedules(session.user.id)
 
     return NextResponse.json({
       success: true,
@@ -53,56 +52,13 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json()
-    const { type, userId, jobId } = scheduleJobSchema.parse(body)
+    const { type, userId } = scheduleJobSchema.parse(body)
 
     const targetUserId = userId || session.user.id
-    let jobScheduleId: string
-
-    switch (type) {
-      case 'user_job_scan':
-        jobScheduleId = await jobScheduler.scheduleUserJobScan(targetUserId)
-        break
-      
-      case 'process_job_matches':
-        jobScheduleId = await jobScheduler.scheduleJobMatching(targetUserId)
-        break
-      
-      case 'generate_cover_letter':
-        if (!jobId) {
-          return NextResponse.json(
-            { error: 'jobId is required for cover letter generation' },
-            { status: 400 }
-          )
-        }
-        jobScheduleId = await jobScheduler.scheduleCoverLetterGeneration(targetUserId, jobId)
-        break
-      
-      case 'customize_resume':
-        if (!jobId) {
-          return NextResponse.json(
-            { error: 'jobId is required for resume customization' },
-            { status: 400 }
-          )
-        }
-        jobScheduleId = await jobScheduler.scheduleResumeCustomization(targetUserId, jobId)
-        break
-      
-      case 'process_application':
-        if (!jobId) {
-          return NextResponse.json(
-            { error: 'jobId is required for application processing' },
-            { status: 400 }
-          )
-        }
-        jobScheduleId = await jobScheduler.scheduleApplicationProcessing(targetUserId, jobId)
-        break
-      
-      default:
-        return NextResponse.json(
-          { error: 'Invalid job type' },
-          { status: 400 }
-        )
-    }
+    const jobScheduleId = await queueManager.enqueue(type, {
+      userId: targetUserId,
+      source: 'api',
+    })
 
     return NextResponse.json({
       success: true,
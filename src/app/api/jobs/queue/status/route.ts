@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { jobScheduler } from '@/lib/jobQueue/scheduler'
+import { queueManager } from '@/lib/queue/QueueManager'
 import { prisma } from '@/lib/db'
 
 export async function GET() {
@@ -16,10 +16,13 @@ export async function GET() {
     }
 
     // Get queue metrics
-    const metrics = await jobScheduler.getQueueMetrics()
+    const metrics = await queueManager.getMetrics()
     
     // Get schedule configuration
-    const schedules = Object.fromEntries(jobScheduler.getSchedules())
+    const schedules = await queueManager.getSchedules(session.user.id)
+
+    // The user's own jobs waiting and running
+    const userQueue = await queueManager.getUserDepth(session.user.id)
 
     // Get recent jobs for the current user
     const recentJobs = await prisma.jobQueue.findMany({
@@ -83,6 +86,7 @@ export async function GET() {
       success: true,
       data: {
         queueMetrics: metrics,
+        userQueue,
         schedules,
         recentJobs: parsedRecentJobs,
         userStats: {
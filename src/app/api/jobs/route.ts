@@ -98,8 +98,10 @@ export async function GET(req: NextRequest) {
       const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000)
       where.createdAt = { gte: yesterday }
       where.appliedTo = false
+      where.isClosed = { not: true }
     } else if (validatedParams.filter === 'available') {
       where.appliedTo = false
+      where.isClosed = { not: true } // Postings removed from their job board can no longer be applied to (older rows lack the field)
     } else if (validatedParams.filter === 'applied') {
       where.appliedTo = true
     }
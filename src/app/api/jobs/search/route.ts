@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { createJobSearchService, JobSearchParams } from '@/lib/jobAPIs'
+import { JobSearchParams } from '@/lib/jobAPIs'
+import { createJobSearchService } from '@/lib/jobSources'
 import { z } from 'zod'
 
 const jobSearchSchema = z.object({
@@ -28,9 +29,8 @@ export async function POST(req: NextRequest) {
     const body = await req.json()
     const searchParams = jobSearchSchema.parse(body)
 
-    // Create job search service with automatic fallback
-    const jsearchApiKey = process.env.JSEARCH_API_KEY
-    const jobAPI = createJobSearchService(jsearchApiKey)
+    // Create job search service across all configured job sources
+    const jobAPI = createJobSearchService()
 
     // Search for jobs
     const jobSearchParams: JobSearchParams = {
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { listInAppNotifications, markInAppNotificationsRead } from '@/lib/notifications'
+import { z } from 'zod'
+
+const markReadSchema = z.object({
+  ids: z.array(z.string()).max(100).optional(), // Every unread notification when omitted
+})
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(req.url)
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 20, 1), 100)
+    const inbox = await listInAppNotifications(session.user.id, {
+      limit,
+      unreadOnly: searchParams.get('unread') === 'true',
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: inbox
+    })
+
+  } catch (error) {
+    console.error('Notification inbox fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const { ids } = markReadSchema.parse(body)
+    const marked = await markInAppNotificationsRead(session.user.id, ids)
+
+    return NextResponse.json({
+      success: true,
+      data: { marked },
+      message: `${marked} notification${marked === 1 ? '' : 's'} marked read`
+    })
+
+  } catch (error) {
+    console.error('Notification mark read error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to mark notifications read' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENT_TYPES,
+  NotificationPreferenceSettings,
+  countPushSubscriptions,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  vapidPublicKey,
+} from '@/lib/notifications'
+import { isValidTimeZone } from '@/lib/queue/schedules'
+import { z } from 'zod'
+
+const channelSchema = z.enum(NOTIFICATION_CHANNELS as [string, ...string[]])
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:mm')
+
+const updatePreferencesSchema = z.object({
+  routes: z.object(Object.fromEntries(
+    NOTIFICATION_EVENT_TYPES.map(type => [type, z.array(channelSchema).optional()])
+  )).optional(),
+  minScores: z.object(Object.fromEntries(
+    NOTIFICATION_CHANNELS.map(channel => [channel, z.number().min(0).max(1).optional()])
+  )).optional(),
+  quietHours: z.object({
+    enabled: z.boolean().optional(),
+    start: timeSchema.optional(),
+    end: timeSchema.optional(),
+    timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+  }).optional(),
+})
+
+async function toResponse(userId: string, settings: NotificationPreferenceSettings) {
+  return {
+    preferences: settings,
+    push: { configured: Boolean(vapidPublicKey()), subscriptions: await countPushSubscriptions(userId) },
+  }
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const settings = await getNotificationPreferences(session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: await toResponse(session.user.id, settings)
+    })
+
+  } catch (error) {
+    console.error('Notification preferences fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch notification preferences' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+    const changes = updatePreferencesSchema.parse(body)
+    const settings = await updateNotificationPreferences(
+      session.user.id,
+      changes as Parameters<typeof updateNotificationPreferences>[1]
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: await toResponse(session.user.id, settings),
+      message: 'Notification preferences saved'
+    })
+
+  } catch (error) {
+    console.error('Notification preferences update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid notification preferences', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save notification preferences' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { deletePushSubscription, savePushSubscription, vapidPublicKey } from '@/lib/notifications'
+import { z } from 'zod'
+
+const subscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+})
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url(),
+})
+
+/**
+ * The VAPID public key the browser subscribes with
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { publicKey: vapidPublicKey() }
+    })
+
+  } catch (error) {
+    console.error('Push key fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch push settings' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!vapidPublicKey()) {
+      return NextResponse.json(
+        { error: 'Push notifications are not configured on this server' },
+        { status: 503 }
+      )
+    }
+
+    const body = await req.json()
+    const subscription = subscriptionSchema.parse(body)
+    await savePushSubscription(session.user.id, subscription, req.headers.get('user-agent') || undefined)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Push notifications enabled on this browser'
+    })
+
+  } catch (error) {
+    console.error('Push subscription error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid push subscription', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save push subscription' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+    const { endpoint } = unsubscribeSchema.parse(body)
+    const removed = await deletePushSubscription(session.user.id, endpoint)
+
+    return NextResponse.json({
+      success: true,
+      data: { removed },
+      message: 'Push notifications disabled on this browser'
+    })
+
+  } catch (error) {
+    console.error('Push unsubscribe error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to remove push subscription' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
+import { isValidTimeZone, syncUserScanSchedule } from '@/lib/queue/schedules'
 
 export async function POST(req: NextRequest) {
   try {
@@ -14,7 +15,7 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    const { method } = await req.json() // 'upload' or 'manual'
+    const { method, timezone } = await req.json() // 'upload' or 'manual', and the browser's time zone
 
     // Get the user's profile to ensure it exists
     const profile = await prisma.profile.findUnique({
@@ -60,8 +61,13 @@ export async function POST(req: NextRequest) {
     // Update user's profile to mark onboarding as complete
     await prisma.user.update({
       where: { id: session.user.id },
-      data: { updatedAt: new Date() }
+      data: {
+        updatedAt: new Date(),
+        // Recurring scans run in this zone; users can change it in their settings
+        ...(typeof timezone === 'string' && isValidTimeZone(timezone) ? { timezone } : {}),
+      }
     })
+    await syncUserScanSchedule(session.user.id)
 
     return NextResponse.json({
       success: true,
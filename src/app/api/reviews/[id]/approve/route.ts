@@ -2,10 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { jobNotificationService } from '@/lib/jobNotificationService'
+import { isDryRunEnabled } from '@/lib/applicationPreview'
+import { QueueFullError } from '@/lib/queue/QueueManager'
 import { z } from 'zod'
 
 const approveSchema = z.object({
   userNotes: z.string().optional(),
+  dryRun: z.boolean().optional(), // Defaults to the user's auto-apply setting
 })
 
 export async function POST(
@@ -23,9 +26,24 @@ export async function POST(
     }
 
     const body = await req.json()
-    const { userNotes } = approveSchema.parse(body)
+    const { userNotes, dryRun: requestedDryRun } = approveSchema.parse(body)
     const { id } = await params
 
+    if (requestedDryRun ?? await isDryRunEnabled(session.user.id)) {
+      // Previews come from runs started from here on; GET ./preview?since= polls for it
+      const requestedAt = new Date()
+      const { review, preview, queued } = await jobNotificationService.previewApplication(id, session.user.id)
+
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        data: { review, preview, queued, requestedAt },
+        message: queued
+          ? `Dry run queued for ${review.job.title} at ${review.job.company}; nothing will be submitted`
+          : `Dry run: nothing was submitted for ${review.job.title} at ${review.job.company}`
+      })
+    }
+
     const review = await jobNotificationService.approveApplication(
       id,
       session.user.id,
@@ -35,7 +53,9 @@ export async function POST(
     return NextResponse.json({
       success: true,
       data: review,
-      message: `Application approved for ${review.job.title} at ${review.job.company}`
+      message: review.queued
+        ? `Application approved for ${review.job.title} at ${review.job.company} and queued for submission`
+        : `Application approved for ${review.job.title} at ${review.job.company}`
     })
 
   } catch (error) {
@@ -48,6 +68,13 @@ export async function POST(
       )
     }
 
+    if (error instanceof QueueFullError) {
+      return NextResponse.json(
+        { error: 'Too many applications are waiting to be submitted, please try again shortly' },
+        { status: 503 }
+      )
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: 'Invalid request data', details: error.issues },
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { jobNotificationService } from '@/lib/jobNotificationService'
+import { z } from 'zod'
+
+const sinceSchema = z.string().datetime().transform(value => new Date(value))
+
+/**
+ * Poll for the preview of a queued dry run, started at or after `since`
+ * (the requestedAt returned by the dry-run approve call)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(req.url)
+    const since = sinceSchema.parse(searchParams.get('since'))
+
+    const result = await jobNotificationService.getApplicationPreview(id, session.user.id, since)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        run: result?.run ?? null,
+        preview: result?.preview ?? null,
+      }
+    })
+
+  } catch (error) {
+    console.error('Application preview fetch error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json(
+        { error: 'Review not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch application preview' },
+      { status: 500 }
+    )
+  }
+}
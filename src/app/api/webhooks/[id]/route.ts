@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  UnsafeWebhookUrlError,
+  WEBHOOK_EVENT_TYPES,
+  WebhookEventType,
+  deleteWebhookEndpoint,
+  updateWebhookEndpoint,
+} from '@/lib/webhooks'
+import { z } from 'zod'
+
+const updateEndpointSchema = z.object({
+  url: z.string().url().optional(),
+  description: z.string().max(200).nullable().optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES as [WebhookEventType, ...WebhookEventType[]])).min(1, 'Pick at least one event').optional(),
+  isActive: z.boolean().optional(),
+})
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await req.json()
+    const changes = updateEndpointSchema.parse(body)
+    const endpoint = await updateWebhookEndpoint(session.user.id, id, changes)
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { endpoint },
+      message: 'Webhook endpoint saved'
+    })
+
+  } catch (error) {
+    console.error('Webhook endpoint update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid webhook endpoint', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof UnsafeWebhookUrlError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save webhook endpoint' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const deleted = await deleteWebhookEndpoint(session.user.id, id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook endpoint removed'
+    })
+
+  } catch (error) {
+    console.error('Webhook endpoint delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove webhook endpoint' },
+      { status: 500 }
+    )
+  }
+}
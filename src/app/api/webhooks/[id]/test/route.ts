@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getWebhookEndpoint, sendTestWebhook } from '@/lib/webhooks'
+
+/**
+ * Send a webhook.test event to the endpoint now and report how it answered
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const endpoint = await getWebhookEndpoint(session.user.id, id)
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      )
+    }
+
+    const delivery = await sendTestWebhook(endpoint)
+
+    return NextResponse.json({
+      success: true,
+      data: { delivery },
+      message: delivery.status === 'SUCCEEDED'
+        ? `Test event delivered (HTTP ${delivery.responseStatus})`
+        : `Test event failed: ${delivery.error}`
+    })
+
+  } catch (error) {
+    console.error('Webhook test error:', error)
+    return NextResponse.json(
+      { error: 'Failed to send test event' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { replayWebhookDelivery } from '@/lib/webhooks'
+
+/**
+ * Queue the delivery's original payload again as a new delivery
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const delivery = await replayWebhookDelivery(session.user.id, id)
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Webhook delivery not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { delivery },
+      message: 'Delivery queued again'
+    })
+
+  } catch (error) {
+    console.error('Webhook replay error:', error)
+    return NextResponse.json(
+      { error: 'Failed to replay webhook delivery' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getWebhookDelivery } from '@/lib/webhooks'
+
+/**
+ * One delivery with the exact body that was sent
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const delivery = await getWebhookDelivery(session.user.id, id)
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Webhook delivery not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { delivery }
+    })
+
+  } catch (error) {
+    console.error('Webhook delivery fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook delivery' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { listWebhookDeliveries } from '@/lib/webhooks'
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(req.url)
+    const deliveries = await listWebhookDeliveries(session.user.id, {
+      endpointId: searchParams.get('endpointId') || undefined,
+      limit: Math.min(Math.max(Number(searchParams.get('limit')) || 50, 1), 200),
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { deliveries }
+    })
+
+  } catch (error) {
+    console.error('Webhook deliveries fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  UnsafeWebhookUrlError,
+  WEBHOOK_EVENT_TYPES,
+  WebhookEndpointLimitError,
+  WebhookEventType,
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+} from '@/lib/webhooks'
+import { z } from 'zod'
+
+const createEndpointSchema = z.object({
+  url: z.string().url(),
+  description: z.string().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES as [WebhookEventType, ...WebhookEventType[]])).min(1, 'Pick at least one event'),
+})
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const endpoints = await listWebhookEndpoints(session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: { endpoints, eventTypes: WEBHOOK_EVENT_TYPES }
+    })
+
+  } catch (error) {
+    console.error('Webhook endpoints fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook endpoints' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+    const input = createEndpointSchema.parse(body)
+    const { endpoint, secret } = await createWebhookEndpoint(session.user.id, input)
+
+    return NextResponse.json({
+      success: true,
+      data: { endpoint, secret },
+      message: 'Webhook endpoint added. Copy the signing secret now; it won\'t be shown again.'
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Webhook endpoint create error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid webhook endpoint', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof WebhookEndpointLimitError || error instanceof UnsafeWebhookUrlError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to add webhook endpoint' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { encryptSecret } from '@/lib/workday'
+import { z } from 'zod'
+
+const updateAccountSchema = z.object({
+  email: z.string().email('Valid email is required').optional(),
+  password: z.string().min(1).optional(),
+})
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await req.json()
+    const data = updateAccountSchema.parse(body)
+
+    // New credentials get a fresh sign-in attempt on the next application
+    const result = await prisma.workdayAccount.updateMany({
+      where: { id, userId: session.user.id },
+      data: {
+        ...(data.email && { email: data.email }),
+        ...(data.password && { encryptedPassword: encryptSecret(data.password) }),
+        status: 'ACTIVE',
+        lastError: null,
+      },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Workday account not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Workday account update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update Workday account' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const result = await prisma.workdayAccount.deleteMany({
+      where: { id, userId: session.user.id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Workday account not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Workday account delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete Workday account' },
+      { status: 500 }
+    )
+  }
+}
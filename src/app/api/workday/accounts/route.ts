@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { extractWorkdayTenant } from '@/lib/jobSourceDetector'
+import { listWorkdayAccounts, saveWorkdayCredentials } from '@/lib/workday'
+import { z } from 'zod'
+
+const saveAccountSchema = z.object({
+  // Any career-site or posting URL on the tenant, e.g. https://acme.wd5.myworkdayjobs.com/External
+  tenantUrl: z.string().min(1, 'Workday URL is required'),
+  email: z.string().email('Valid email is required'),
+  password: z.string().min(1, 'Password is required'),
+})
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const accounts = await listWorkdayAccounts(session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: { accounts }
+    })
+
+  } catch (error) {
+    console.error('Workday accounts fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch Workday accounts' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Save an existing Workday login so automation signs in instead of
+ * trying to create a new account on that tenant
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+    const data = saveAccountSchema.parse(body)
+
+    const tenant = extractWorkdayTenant(data.tenantUrl)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Provide a Workday URL such as https://company.wd5.myworkdayjobs.com/External' },
+        { status: 400 }
+      )
+    }
+
+    const account = await saveWorkdayCredentials(session.user.id, tenant, {
+      email: data.email,
+      password: data.password,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        account: {
+          id: account.id,
+          tenant: account.tenant,
+          host: account.host,
+          email: account.email,
+          status: account.status,
+        }
+      },
+      message: `Saved Workday account for ${tenant.tenant}`
+    })
+
+  } catch (error) {
+    console.error('Workday account save error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save Workday account' },
+      { status: 500 }
+    )
+  }
+}
@@ -7,6 +7,12 @@ import { ProfileForm } from '@/components/profile/ProfileForm'
 import { AutoApplySettings } from '@/components/profile/AutoApplySettings'
 import { ProfileCompletionCard } from '@/components/profile/ProfileCompletionCard'
 import { ProfileImportCard } from '@/components/profile/ProfileImportCard'
+import { CompanyWatchlist } from '@/components/profile/CompanyWatchlist'
+import { WorkdayAccounts } from '@/components/profile/WorkdayAccounts'
+import { ScreeningAnswerBank } from '@/components/profile/ScreeningAnswerBank'
+import { EmailPreferences } from '@/components/profile/EmailPreferences'
+import { NotificationSettings } from '@/components/profile/NotificationSettings'
+import { WebhookSettings } from '@/components/profile/WebhookSettings'
 import { Sidebar } from '@/components/ui/Sidebar'
 import { ProfileInput, SkillInput } from '@/lib/validations'
 import { parseProfileData } from '@/lib/profileCompletion'
@@ -349,6 +355,84 @@ export default function ProfilePage() {
               />
             </div>
           </div>
+
+          {/* Company Watchlist */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-4 sm:p-6 border-b border-gray-200">
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Company Watchlist</h2>
+              <p className="text-sm sm:text-base text-gray-600 mt-2">
+                Follow the Greenhouse and Lever job boards of your target companies to see every opening they post.
+              </p>
+            </div>
+            <div className="p-4 sm:p-6">
+              <CompanyWatchlist />
+            </div>
+          </div>
+
+          {/* Workday Accounts */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-4 sm:p-6 border-b border-gray-200">
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Workday Accounts</h2>
+              <p className="text-sm sm:text-base text-gray-600 mt-2">
+                Employers on Workday require a separate candidate account for each company. Passwords are stored encrypted.
+              </p>
+            </div>
+            <div className="p-4 sm:p-6">
+              <WorkdayAccounts />
+            </div>
+          </div>
+
+          {/* Screening Answers */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-4 sm:p-6 border-b border-gray-200">
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Screening Answers</h2>
+              <p className="text-sm sm:text-base text-gray-600 mt-2">
+                Answers to application questions like work authorization, sponsorship and notice period. Approved answers are filled in automatically.
+              </p>
+            </div>
+            <div className="p-4 sm:p-6">
+              <ScreeningAnswerBank />
+            </div>
+          </div>
+
+          {/* Email Preferences */}
+          <div id="email-preferences" className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-4 sm:p-6 border-b border-gray-200">
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Email Preferences</h2>
+              <p className="text-sm sm:text-base text-gray-600 mt-2">
+                Choose which emails we send you. Changes save right away.
+              </p>
+            </div>
+            <div className="p-4 sm:p-6">
+              <EmailPreferences />
+            </div>
+          </div>
+
+          {/* Notifications */}
+          <div id="notifications" className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-4 sm:p-6 border-b border-gray-200">
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Notifications</h2>
+              <p className="text-sm sm:text-base text-gray-600 mt-2">
+                Pick where each kind of update reaches you: in the app, by email, as a browser push or on your webhooks.
+              </p>
+            </div>
+            <div className="p-4 sm:p-6">
+              <NotificationSettings />
+            </div>
+          </div>
+
+          {/* Webhooks */}
+          <div id="webhooks" className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-4 sm:p-6 border-b border-gray-200">
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Webhooks</h2>
+              <p className="text-sm sm:text-base text-gray-600 mt-2">
+                Send application, review and interview events to your own tools, such as a Notion or Airtable tracker.
+              </p>
+            </div>
+            <div className="p-4 sm:p-6">
+              <WebhookSettings />
+            </div>
+          </div>
         </div>
       </div>
     </Sidebar>
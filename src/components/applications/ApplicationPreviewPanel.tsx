@@ -0,0 +1,95 @@
+'use client'
+
+import { Badge } from '@/components/ui/Badge'
+import { AlertTriangle, FileText, FlaskConical, MousePointerClick } from 'lucide-react'
+
+export interface ApplicationPreview {
+  platform: string
+  fields: { label: string; value: string; selector?: string }[]
+  resume?: { fileName: string; url: string }
+  coverLetter?: string
+  answers: { question: string; answer: string; source: string }[]
+  missing: string[]
+  submitSelector?: string
+}
+
+interface ApplicationPreviewPanelProps {
+  preview: ApplicationPreview
+}
+
+export function ApplicationPreviewPanel({ preview }: ApplicationPreviewPanelProps) {
+  return (
+    <div className="border border-purple-200 bg-purple-50 rounded-lg p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <FlaskConical className="h-4 w-4 text-purple-700" />
+        <h4 className="font-medium text-purple-900">Dry run: nothing was submitted</h4>
+        <Badge variant="outline" className="bg-white text-purple-700 border-purple-200">
+          {preview.platform}
+        </Badge>
+      </div>
+
+      {preview.fields.length > 0 && (
+        <dl className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-1 text-sm">
+          {preview.fields.map(field => (
+            <div key={field.label} className="contents">
+              <dt className="text-gray-600">{field.label}</dt>
+              <dd className="sm:col-span-2 text-gray-900 break-words">{field.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {preview.resume && (
+        <a
+          href={preview.resume.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+        >
+          <FileText className="h-4 w-4 mr-1" />
+          {preview.resume.fileName}
+        </a>
+      )}
+
+      {preview.coverLetter && (
+        <div>
+          <p className="text-sm font-medium text-gray-900 mb-1">Cover Letter</p>
+          <div className="bg-white p-3 rounded text-sm text-gray-700 max-h-32 overflow-y-auto whitespace-pre-wrap">
+            {preview.coverLetter}
+          </div>
+        </div>
+      )}
+
+      {preview.answers.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-900 mb-1">Screening Answers</p>
+          <ul className="space-y-1 text-sm">
+            {preview.answers.map(entry => (
+              <li key={entry.question}>
+                <span className="text-gray-600">{entry.question}</span>{' '}
+                <span className="text-gray-900 font-medium">{entry.answer}</span>
+                {entry.source === 'ai' && (
+                  <span className="text-xs text-amber-700 ml-1">(AI draft)</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {preview.missing.length > 0 && (
+        <div className="flex items-start text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+          Not filled: {preview.missing.join(', ')}
+        </div>
+      )}
+
+      {preview.submitSelector && (
+        <div className="flex items-center text-xs text-gray-500">
+          <MousePointerClick className="h-3 w-3 mr-1" />
+          <span className="font-mono break-all">Would click {preview.submitSelector}</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,262 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Image from 'next/image'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import {
+  X,
+  CheckCircle,
+  XCircle,
+  MinusCircle,
+  Code,
+  Loader2,
+  Bot
+} from 'lucide-react'
+
+interface AutomationRunStep {
+  id: string
+  index: number
+  action: 'NAVIGATE' | 'CLICK' | 'FILL' | 'UPLOAD' | 'SUBMIT' | 'CONFIRMATION' | 'FAILURE'
+  description: string
+  selector?: string | null
+  status: 'OK' | 'SKIPPED' | 'FAILED'
+  error?: string | null
+  pageUrl?: string | null
+  durationMs: number
+  screenshotUrl: string | null
+  htmlUrl: string | null
+}
+
+interface AutomationRun {
+  id: string
+  platform: string
+  status: 'RUNNING' | 'SUCCEEDED' | 'REDIRECTED' | 'FAILED' | 'DRY_RUN'
+  error?: string | null
+  stoppedAt?: string | null
+  confirmationId?: string | null
+  selectorPack?: string | null
+  startedAt: string
+  durationMs?: number | null
+  steps: AutomationRunStep[]
+}
+
+interface Application {
+  id: string
+  jobTitle: string
+  company: string
+}
+
+interface AutomationRunModalProps {
+  application: Application | null
+  isOpen: boolean
+  onClose: () => void
+}
+
+const runStatusConfig = {
+  RUNNING: { color: 'bg-blue-100 text-blue-800', label: 'Running' },
+  SUCCEEDED: { color: 'bg-green-100 text-green-800', label: 'Submitted' },
+  REDIRECTED: { color: 'bg-yellow-100 text-yellow-800', label: 'Handed back to you' },
+  FAILED: { color: 'bg-red-100 text-red-800', label: 'Failed' },
+  DRY_RUN: { color: 'bg-purple-100 text-purple-800', label: 'Dry run' },
+}
+
+const stepStatusConfig = {
+  OK: { icon: CheckCircle, color: 'text-green-600' },
+  SKIPPED: { icon: MinusCircle, color: 'text-gray-400' },
+  FAILED: { icon: XCircle, color: 'text-red-600' },
+}
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+
+export function AutomationRunModal({
+  application,
+  isOpen,
+  onClose
+}: AutomationRunModalProps) {
+  const [run, setRun] = useState<AutomationRun | null>(null)
+  const [selectedStep, setSelectedStep] = useState<AutomationRunStep | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRun = useCallback(async () => {
+    if (!application) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const listResponse = await fetch(`/api/automation-runs?applicationId=${application.id}&limit=1`)
+      const list = await listResponse.json()
+      const latest = list.data?.runs?.[0]
+
+      if (!latest) {
+        setError('No automation run was recorded for this application.')
+        return
+      }
+
+      const response = await fetch(`/api/automation-runs/${latest.id}`)
+      if (!response.ok) {
+        setError('Failed to load automation run')
+        return
+      }
+
+      const data = await response.json()
+      setRun(data.data.run)
+      // Open on the step that matters most: the failure, else the confirmation
+      const steps: AutomationRunStep[] = data.data.run.steps
+      setSelectedStep(steps.find(step => step.status === 'FAILED') || steps[steps.length - 1] || null)
+    } catch (error) {
+      console.error('Error fetching automation run:', error)
+      setError('Failed to load automation run')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [application])
+
+  useEffect(() => {
+    if (isOpen && application) {
+      fetchRun()
+    } else {
+      setRun(null)
+      setSelectedStep(null)
+    }
+  }, [isOpen, application, fetchRun])
+
+  if (!isOpen || !application) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="max-w-5xl w-full max-h-[90vh] overflow-hidden">
+        <div className="flex flex-col h-full max-h-[90vh]">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Automation Run</h2>
+              <p className="text-sm text-gray-600">
+                {application.jobTitle} at {application.company}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex-1 overflow-auto p-6">
+            {isLoading && (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                <span>Loading automation run...</span>
+              </div>
+            )}
+
+            {error && (
+              <div className="text-center py-8">
+                <Bot className="mx-auto h-12 w-12 text-gray-400 mb-3" />
+                <p className="text-gray-600">{error}</p>
+              </div>
+            )}
+
+            {run && (
+              <div className="space-y-4">
+                {/* Run Summary */}
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <span className={`px-3 py-1 rounded-full font-medium ${runStatusConfig[run.status].color}`}>
+                    {runStatusConfig[run.status].label}
+                  </span>
+                  <span className="text-gray-600">via {run.platform}</span>
+                  {run.selectorPack && (
+                    <span className="text-gray-500 font-mono text-xs">{run.selectorPack}</span>
+                  )}
+                  <span className="text-gray-500">{new Date(run.startedAt).toLocaleString()}</span>
+                  {run.durationMs != null && (
+                    <span className="text-gray-500">{formatDuration(run.durationMs)}</span>
+                  )}
+                  {run.confirmationId && (
+                    <span className="text-gray-500 truncate">Confirmation: {run.confirmationId}</span>
+                  )}
+                </div>
+
+                {run.error && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                    <p className="text-red-700 text-sm">{run.error}</p>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                  {/* Step Trail */}
+                  <ol className="md:col-span-2 border border-gray-200 rounded-lg divide-y divide-gray-200">
+                    {run.steps.map(step => {
+                      const StatusIcon = stepStatusConfig[step.status].icon
+                      return (
+                        <li key={step.id}>
+                          <button
+                            onClick={() => setSelectedStep(step)}
+                            className={`w-full text-left p-3 flex items-start gap-2 ${
+                              selectedStep?.id === step.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                            }`}
+                          >
+                            <StatusIcon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${stepStatusConfig[step.status].color}`} />
+                            <div className="min-w-0 flex-1">
+                              <p className="text-sm font-medium text-gray-900">{step.description}</p>
+                              <p className="text-xs text-gray-500">
+                                {step.action.toLowerCase()} · {formatDuration(step.durationMs)}
+                              </p>
+                            </div>
+                          </button>
+                        </li>
+                      )
+                    })}
+                  </ol>
+
+                  {/* Step Detail */}
+                  <div className="md:col-span-3 space-y-3">
+                    {selectedStep ? (
+                      <>
+                        {selectedStep.error && (
+                          <p className="text-sm text-red-700 break-words">{selectedStep.error}</p>
+                        )}
+                        {selectedStep.selector && (
+                          <p className="text-xs text-gray-500 font-mono break-all">{selectedStep.selector}</p>
+                        )}
+                        {selectedStep.pageUrl && (
+                          <p className="text-xs text-gray-500 break-all">{selectedStep.pageUrl}</p>
+                        )}
+                        {selectedStep.screenshotUrl ? (
+                          <a href={selectedStep.screenshotUrl} target="_blank" rel="noopener noreferrer">
+                            <Image
+                              src={selectedStep.screenshotUrl}
+                              alt={`Screenshot: ${selectedStep.description}`}
+                              width={1280}
+                              height={800}
+                              unoptimized
+                              className="w-full h-auto border border-gray-200 rounded"
+                            />
+                          </a>
+                        ) : (
+                          <p className="text-sm text-gray-500">No screenshot for this step.</p>
+                        )}
+                        {selectedStep.htmlUrl && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => window.open(selectedStep.htmlUrl!, '_blank')}
+                          >
+                            <Code className="h-4 w-4 mr-2" />
+                            Page Snapshot
+                          </Button>
+                        )}
+                      </>
+                    ) : (
+                      <p className="text-sm text-gray-500">No steps were recorded.</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/Button'
 import { ApplicationMaterialsModal } from '@/components/applications/ApplicationMaterialsModal'
+import { AutomationRunModal } from '@/components/applications/AutomationRunModal'
+import { InterviewSetup, InterviewSetupModal } from '@/components/interview/InterviewSetupModal'
 import { 
   ExternalLink, 
   Calendar, 
@@ -19,7 +21,8 @@ import {
   FileText,
   MessageSquare,
   Play,
-  Mic
+  Mic,
+  Bot
 } from 'lucide-react'
 
 interface CustomizedResumeInfo {
@@ -71,6 +74,8 @@ export function ApplicationsList() {
   const [showCoverLetter, setShowCoverLetter] = useState<string | null>(null)
   const [startingInterview, setStartingInterview] = useState<string | null>(null)
   const [selectedApplication, setSelectedApplication] = useState<Application | null>(null)
+  const [runApplication, setRunApplication] = useState<Application | null>(null)
+  const [interviewApplication, setInterviewApplication] = useState<Application | null>(null)
 
   useEffect(() => {
     fetchApplications()
@@ -127,14 +132,14 @@ export function ApplicationsList() {
     return 'text-red-600'
   }
 
-  const startInterviewSession = async (applicationId: string) => {
+  const startInterviewSession = async (applicationId: string, setup: InterviewSetup) => {
     try {
       setStartingInterview(applicationId)
       
       const response = await fetch('/api/interview/start', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ applicationId }),
+        body: JSON.stringify({ applicationId, ...setup }),
       })
 
       if (!response.ok) {
@@ -289,7 +294,7 @@ export function ApplicationsList() {
                     <Button
                       size="sm"
                       variant="outline"
-                      onClick={() => startInterviewSession(app.id)}
+                      onClick={() => setInterviewApplication(app)}
                       disabled={startingInterview === app.id}
                       className="text-purple-600 hover:text-purple-700 border-purple-200 hover:border-purple-300 flex-1 sm:flex-none min-h-[44px] whitespace-nowrap"
                     >
@@ -315,6 +320,19 @@ export function ApplicationsList() {
                       </Button>
                     )}
 
+                    {app.source === 'automated' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRunApplication(app)}
+                        className="flex-1 sm:flex-none min-h-[44px] whitespace-nowrap"
+                      >
+                        <Bot className="h-4 w-4 sm:mr-1" />
+                        <span className="hidden sm:inline ml-1">Automation Run</span>
+                        <span className="sm:hidden ml-1">Run</span>
+                      </Button>
+                    )}
+
                     {app.jobUrl && (
                       <Button
                         size="sm"
@@ -370,6 +388,22 @@ export function ApplicationsList() {
           isOpen={!!selectedApplication}
           onClose={() => setSelectedApplication(null)}
         />
+
+        {/* Automation Run Modal */}
+        <AutomationRunModal
+          application={runApplication}
+          isOpen={!!runApplication}
+          onClose={() => setRunApplication(null)}
+        />
+
+        {/* Interview Setup Modal */}
+        <InterviewSetupModal
+          application={interviewApplication}
+          isOpen={!!interviewApplication}
+          isStarting={!!interviewApplication && startingInterview === interviewApplication.id}
+          onClose={() => setInterviewApplication(null)}
+          onStart={setup => interviewApplication && startInterviewSession(interviewApplication.id, setup)}
+        />
       </div>
     </div>
   )
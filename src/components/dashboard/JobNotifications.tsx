@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/Button'
 import { Card } from '@/components/ui/Card'
 import { Badge } from '@/components/ui/Badge'
+import { ApplicationPreview, ApplicationPreviewPanel } from '@/components/applications/ApplicationPreviewPanel'
+import { useUserEvents } from '@/hooks/useUserEvents'
 import { 
   Bell, 
   BellOff, 
@@ -15,7 +17,8 @@ import {
   Building2, 
   Clock,
   Star,
-  FileText
+  FileText,
+  FlaskConical
 } from 'lucide-react'
 
 interface JobNotification {
@@ -68,12 +71,74 @@ export function JobNotifications() {
   const [reviews, setReviews] = useState<ApplicationReview[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [selectedTab, setSelectedTab] = useState<'notifications' | 'reviews'>('reviews')
+  const [previews, setPreviews] = useState<Record<string, ApplicationPreview>>({})
+  // Queued dry runs still going, by review, with when they were requested
+  const [pendingPreviews, setPendingPreviews] = useState<Record<string, string>>({})
+  const [previewErrors, setPreviewErrors] = useState<Record<string, string>>({})
 
   useEffect(() => {
     fetchNotifications()
     fetchReviews()
   }, [])
 
+  // New matches and reviews show up as the worker creates them
+  const { connected: eventsConnected } = useUserEvents(event => {
+    switch (event.type) {
+      case 'notification.created':
+        fetchNotifications()
+        break
+      case 'review.created':
+        fetchReviews()
+        break
+      case 'application.submitted':
+        fetchNotifications()
+        fetchReviews()
+        break
+      case 'application.previewed':
+        if (event.data.reviewId) receivePreview(event.data.reviewId, event.data.preview, event.data.error)
+        break
+    }
+  })
+
+  // Poll while the event stream is down
+  useEffect(() => {
+    if (eventsConnected) return
+    const interval = setInterval(() => {
+      fetchNotifications()
+      fetchReviews()
+    }, 60000)
+    return () => clearInterval(interval)
+  }, [eventsConnected])
+
+  // Without the event stream, ask for each queued dry run until it finishes
+  useEffect(() => {
+    const pending = Object.entries(pendingPreviews)
+    if (eventsConnected || pending.length === 0) return
+    const interval = setInterval(() => {
+      pending.forEach(async ([reviewId, requestedAt]) => {
+        try {
+          const response = await fetch(`/api/reviews/${reviewId}/preview?since=${encodeURIComponent(requestedAt)}`)
+          if (!response.ok) return
+          const { data } = await response.json()
+          if (data.run?.finishedAt) receivePreview(reviewId, data.preview, data.run.error || undefined)
+        } catch (error) {
+          console.error('Error fetching application preview:', error)
+        }
+      })
+    }, 5000)
+    return () => clearInterval(interval)
+  }, [eventsConnected, pendingPreviews])
+
+  const receivePreview = (reviewId: string, preview?: ApplicationPreview | null, error?: string) => {
+    setPendingPreviews(prev => {
+      const next = { ...prev }
+      delete next[reviewId]
+      return next
+    })
+    if (preview) setPreviews(prev => ({ ...prev, [reviewId]: preview }))
+    if (error) setPreviewErrors(prev => ({ ...prev, [reviewId]: error }))
+  }
+
   const fetchNotifications = async () => {
     try {
       const response = await fetch('/api/notifications')
@@ -122,17 +187,34 @@ export function JobNotifications() {
     }
   }
 
-  const approveApplication = async (reviewId: string, userNotes?: string) => {
+  const approveApplication = async (reviewId: string, userNotes?: string, dryRun?: boolean) => {
     try {
       const response = await fetch(`/api/reviews/${reviewId}/approve`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ userNotes }),
+        body: JSON.stringify({ userNotes, dryRun }),
       })
 
-      if (response.ok) {
+      if (!response.ok) return
+
+      const result = await response.json()
+      if (result.dryRun) {
+        // Nothing was submitted, so the review stays pending. Dry runs through
+        // the real form are queued and their preview arrives as an event.
+        const { preview, queued, requestedAt } = result.data
+        if (queued) {
+          setPreviewErrors(prev => {
+            const next = { ...prev }
+            delete next[reviewId]
+            return next
+          })
+          setPendingPreviews(prev => ({ ...prev, [reviewId]: requestedAt }))
+        } else {
+          setPreviews(prev => ({ ...prev, [reviewId]: preview }))
+        }
+      } else {
         await fetchReviews()
         await fetchNotifications()
       }
@@ -329,6 +411,22 @@ export function JobNotifications() {
                     {formatTimeRemaining(review.expiresAt)}
                   </div>
 
+                  {/* Dry Run Preview */}
+                  {pendingPreviews[review.id] && (
+                    <div className="flex items-center text-sm text-gray-600">
+                      <FlaskConical className="h-4 w-4 mr-1" />
+                      Filling in the application form without submitting it...
+                    </div>
+                  )}
+                  {previewErrors[review.id] && (
+                    <div className="text-sm text-red-600">
+                      Dry run stopped early: {previewErrors[review.id]}
+                    </div>
+                  )}
+                  {previews[review.id] && (
+                    <ApplicationPreviewPanel preview={previews[review.id]} />
+                  )}
+
                   {/* Actions */}
                   {review.status === 'PENDING' && (
                     <div className="flex items-center space-x-3 pt-4 border-t">
@@ -339,6 +437,14 @@ export function JobNotifications() {
                         <Check className="h-4 w-4 mr-2" />
                         Approve & Apply
                       </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => approveApplication(review.id, undefined, true)}
+                        disabled={!!pendingPreviews[review.id]}
+                      >
+                        <FlaskConical className="h-4 w-4 mr-2" />
+                        Dry Run
+                      </Button>
                       <Button
                         variant="outline"
                         onClick={() => rejectApplication(review.id)}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/Button'
 import { Card } from '@/components/ui/Card'
 import { Badge } from '@/components/ui/Badge'
@@ -25,6 +25,7 @@ import {
 import { JobApplicationModal } from '@/components/jobs/JobApplicationModal'
 import { SmartApplyModal } from '@/components/jobs/SmartApplyModal'
 import { getJobSourceInfo } from '@/lib/jobSourceDetector'
+import { useUserEvents } from '@/hooks/useUserEvents'
 
 interface Job {
   id: string
@@ -40,6 +41,7 @@ interface Job {
   matchScore?: number
   isProcessed: boolean
   appliedTo: boolean
+  isClosed?: boolean
   createdAt: string
   canAutoApply?: boolean
   automationType?: string
@@ -68,6 +70,44 @@ export function JobsViewer() {
   const [selectedJob, setSelectedJob] = useState<Job | null>(null)
   const [selectedSmartApplyJob, setSelectedSmartApplyJob] = useState<Job | null>(null)
   const [userResumeData, setUserResumeData] = useState<any>(null)
+  const refreshTimerRef = useRef<NodeJS.Timeout | undefined>(undefined)
+
+  // Live progress from background scans and submissions; bursts of events refresh the list once
+  const { connected: eventsConnected } = useUserEvents(event => {
+    switch (event.type) {
+      case 'queue.depth':
+        setScanStatus(prev => ({
+          ...prev,
+          isScanning: event.data.processing > 0,
+          pendingJobs: event.data.pending,
+          processingJobs: event.data.processing,
+        }))
+        break
+      case 'scan.failed':
+        if (!event.data.willRetry) fetchScanStatus()
+        break
+      case 'scan.finished':
+      case 'job.analyzed':
+      case 'application.submitted':
+      case 'application.failed':
+        if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current)
+        refreshTimerRef.current = setTimeout(() => fetchJobs(pagination.currentPage), 1000)
+        break
+    }
+  })
+
+  // Poll while the event stream is down
+  useEffect(() => {
+    if (eventsConnected) return
+    const interval = setInterval(() => fetchScanStatus(), 30000)
+    return () => clearInterval(interval)
+  }, [eventsConnected])
+
+  useEffect(() => {
+    return () => {
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current)
+    }
+  }, [])
 
   useEffect(() => {
     // Add a small delay to ensure session is ready
@@ -107,11 +147,12 @@ export function JobsViewer() {
       const response = await fetch('/api/jobs/queue/status')
       if (response.ok) {
         const data = await response.json()
-        setScanStatus(data.data || {
-          isScanning: false,
-          pendingJobs: 0,
-          processingJobs: 0,
-          failedJobs: 0
+        const userQueue = data.data?.userQueue || { pending: 0, processing: 0 }
+        setScanStatus({
+          isScanning: userQueue.processing > 0,
+          pendingJobs: userQueue.pending,
+          processingJobs: userQueue.processing,
+          failedJobs: (data.data?.recentJobs || []).filter((job: { status: string }) => job.status === 'FAILED').length
         })
       }
     } catch (error) {
@@ -152,8 +193,9 @@ export function JobsViewer() {
         if (data.data.status === 'queued') {
           // Background scanning - show user that it's running in background
           alert(`${data.data.message}`)
-          
-          // Poll for updates every 10 seconds
+          fetchScanStatus()
+
+          // Progress arrives over the event stream; without it, check back for the results
           const pollForUpdates = () => {
             fetchJobs()
             fetchScanStatus()
@@ -165,7 +207,7 @@ export function JobsViewer() {
             }, 10000)
           }
           
-          pollForUpdates()
+          if (!eventsConnected) pollForUpdates()
         } else {
           // Legacy response format - immediate completion
           alert(`Scan completed! ${data.data.message}`)
@@ -343,6 +385,11 @@ export function JobsViewer() {
                           Applied
                         </Badge>
                       )}
+                      {job.isClosed && (
+                        <Badge variant="outline" className="bg-gray-100 text-gray-600 whitespace-nowrap">
+                          Posting closed
+                        </Badge>
+                      )}
                       {(() => {
                         // Get source info for this job
                         const sourceInfo = job.sourceInfo || getJobSourceInfo(job.url || '')
@@ -440,6 +487,7 @@ export function JobsViewer() {
                         
                         switch (sourceInfo.source) {
                           case 'INDEED':
+                          case 'WORKDAY':
                             return (
                               <>
                                 <Bot className="h-4 w-4 mr-2" />
@@ -0,0 +1,149 @@
+'use client'
+
+import { useState, Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/Button'
+import { CheckCircle, AlertCircle, Mail } from 'lucide-react'
+
+const SCOPE_LABELS: Record<string, string> = {
+  job_matches: 'new high-match job emails',
+  review_reminders: 'review reminder emails',
+  application_updates: 'application update emails',
+  digest: 'the job search digest',
+  all: 'all HelpMeApply AI emails except account and security messages',
+}
+
+function UnsubscribeContent() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSuccess, setIsSuccess] = useState(false)
+  const [error, setError] = useState('')
+
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const scope = token?.split('.')[1] || ''
+  const scopeLabel = SCOPE_LABELS[scope]
+
+  const onConfirm = async () => {
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/email/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        setIsSuccess(true)
+      } else {
+        setError(result.error || 'Something went wrong. Please try again.')
+      }
+    } catch (error) {
+      setError('Something went wrong. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!token || !scopeLabel) {
+    return (
+      <div className="w-full max-w-md space-y-6">
+        <div className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center">
+              <AlertCircle className="w-8 h-8 text-red-600" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">Invalid Unsubscribe Link</h1>
+          <p className="mt-2 text-gray-600">
+            This link is incomplete. You can change which emails you get from your profile.
+          </p>
+        </div>
+
+        <Link href="/profile#email-preferences">
+          <Button className="w-full">
+            Manage Email Preferences
+          </Button>
+        </Link>
+      </div>
+    )
+  }
+
+  if (isSuccess) {
+    return (
+      <div className="w-full max-w-md space-y-6">
+        <div className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center">
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">You&apos;re Unsubscribed</h1>
+          <p className="mt-2 text-gray-600">
+            You won&apos;t get {scopeLabel} anymore. You can turn emails back on from your profile at any time.
+          </p>
+        </div>
+
+        <Link href="/profile#email-preferences">
+          <Button variant="outline" className="w-full">
+            Manage Email Preferences
+          </Button>
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full max-w-md space-y-6">
+      <div className="text-center">
+        <div className="flex justify-center mb-4">
+          <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center">
+            <Mail className="w-8 h-8 text-blue-600" />
+          </div>
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900">Unsubscribe</h1>
+        <p className="mt-2 text-gray-600">
+          Stop sending me {scopeLabel}?
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <Button className="w-full" onClick={onConfirm} isLoading={isLoading}>
+        Unsubscribe
+      </Button>
+
+      <div className="text-center">
+        <Link
+          href="/profile#email-preferences"
+          className="text-sm text-gray-600 hover:text-gray-900"
+        >
+          Choose which emails to get instead
+        </Link>
+      </div>
+    </div>
+  )
+}
+
+export function UnsubscribeForm() {
+  return (
+    <Suspense fallback={
+      <div className="w-full max-w-md space-y-6">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <h1 className="text-3xl font-bold text-gray-900">Loading...</h1>
+        </div>
+      </div>
+    }>
+      <UnsubscribeContent />
+    </Suspense>
+  )
+}
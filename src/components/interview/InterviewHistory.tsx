@@ -11,7 +11,8 @@ import {
   Pause,
   Eye,
   Trash2,
-  BarChart3
+  BarChart3,
+  Target
 } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 
@@ -35,12 +36,19 @@ export function InterviewHistory({ applicationId }: InterviewHistoryProps) {
   const [sessions, setSessions] = useState<InterviewSession[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [deletingSession, setDeletingSession] = useState<string | null>(null)
+  const [drillsDue, setDrillsDue] = useState(0)
+  const [isStartingDrill, setIsStartingDrill] = useState(false)
   const router = useRouter()
 
   useEffect(() => {
     fetchInterviewSessions()
   }, [applicationId])
 
+  // Drills span every application, so they're only offered on the full history
+  useEffect(() => {
+    if (!applicationId) fetchDrillSchedule()
+  }, [applicationId])
+
   const fetchInterviewSessions = async () => {
     try {
       const url = applicationId 
@@ -60,6 +68,43 @@ export function InterviewHistory({ applicationId }: InterviewHistoryProps) {
     }
   }
 
+  const fetchDrillSchedule = async () => {
+    try {
+      const response = await fetch('/api/interview/drill')
+
+      if (response.ok) {
+        const data = await response.json()
+        setDrillsDue(data.data.dueCount || 0)
+      }
+    } catch (error) {
+      console.error('Error fetching drill schedule:', error)
+    }
+  }
+
+  const startDrill = async () => {
+    try {
+      setIsStartingDrill(true)
+
+      const response = await fetch('/api/interview/drill', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start drill')
+      }
+
+      router.push(`/interview/${data.data.sessionId}`)
+    } catch (error) {
+      console.error('Error starting drill:', error)
+      alert(error instanceof Error ? error.message : 'Failed to start drill. Please try again.')
+    } finally {
+      setIsStartingDrill(false)
+    }
+  }
+
   const deleteSession = async (sessionId: string) => {
     if (!confirm('Are you sure you want to delete this interview session? This action cannot be undone.')) {
       return
@@ -158,9 +203,22 @@ export function InterviewHistory({ applicationId }: InterviewHistoryProps) {
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200">
       <div className="px-4 py-5 sm:p-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-6">
-          Interview Practice Sessions ({sessions.length})
-        </h3>
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Interview Practice Sessions ({sessions.length})
+          </h3>
+          {drillsDue > 0 && (
+            <Button
+              size="sm"
+              onClick={startDrill}
+              disabled={isStartingDrill}
+              className="bg-purple-600 text-white hover:bg-purple-700"
+            >
+              <Target className="h-4 w-4 mr-1" />
+              {isStartingDrill ? 'Starting...' : `Drill weak spots (${drillsDue} due)`}
+            </Button>
+          )}
+        </div>
 
         <div className="space-y-4">
           {sessions.map((session) => {
@@ -190,7 +248,7 @@ export function InterviewHistory({ applicationId }: InterviewHistoryProps) {
                       )}
                     </div>
                     
-                    <p className="text-gray-600 mb-2">{session.company}</p>
+                    <p className="text-gray-600 mb-2">{session.company || 'Competency drill'}</p>
                     
                     <div className="flex items-center space-x-4 text-sm text-gray-500 mb-3">
                       <div className="flex items-center space-x-1">
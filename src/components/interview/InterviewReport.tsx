@@ -0,0 +1,202 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, Lightbulb, Mic, ThumbsUp, TrendingUp } from 'lucide-react'
+import { RUBRIC_CRITERIA } from '@/lib/interview/rubrics'
+import type { AnswerEvaluation, RubricCriterionId, SessionReport } from '@/lib/interview/types'
+import type { SpeakingMetrics } from '@/lib/transcription/types'
+
+export interface GradedQuestion {
+  id: string
+  questionIndex: number
+  questionText: string
+  userAnswerText?: string
+  score?: number
+  evaluation?: AnswerEvaluation | null
+  speakingMetrics?: SpeakingMetrics | null
+}
+
+interface InterviewReportProps {
+  report: SessionReport
+  questions: GradedQuestion[]
+}
+
+function scoreColor(score: number): string {
+  if (score >= 0.75) return 'text-green-700'
+  if (score >= 0.5) return 'text-yellow-700'
+  return 'text-red-700'
+}
+
+// Much under 120 or over 170 words per minute comes across as slow or rushed
+function paceLabel(wordsPerMinute: number): string {
+  if (wordsPerMinute < 120) return 'slow'
+  if (wordsPerMinute > 170) return 'fast'
+  return 'good pace'
+}
+
+function barColor(score: number): string {
+  if (score >= 0.75) return 'bg-green-500'
+  if (score >= 0.5) return 'bg-yellow-500'
+  return 'bg-red-500'
+}
+
+export function InterviewReport({ report, questions }: InterviewReportProps) {
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const graded = questions.filter(q => q.evaluation)
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded border p-4">
+        <div className="flex items-baseline justify-between mb-3">
+          <h4 className="font-medium text-gray-900">Rubric scores</h4>
+          <span className="text-xs text-gray-500">
+            {report.evaluatedQuestions} of {report.answeredQuestions} answers graded
+          </span>
+        </div>
+        <div className="space-y-2">
+          {(Object.keys(report.criteria) as RubricCriterionId[]).map(id => {
+            const score = report.criteria[id]!
+            return (
+              <div key={id} className="flex items-center gap-3 text-sm">
+                <span className="w-40 shrink-0 text-gray-700">{RUBRIC_CRITERIA[id].label}</span>
+                <div className="flex-1 bg-gray-200 rounded-full h-2">
+                  <div className={`h-2 rounded-full ${barColor(score)}`} style={{ width: `${Math.round(score * 100)}%` }} />
+                </div>
+                <span className={`w-10 text-right font-medium ${scoreColor(score)}`}>{Math.round(score * 100)}%</span>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white rounded border p-4">
+          <h4 className="flex items-center font-medium text-gray-900 mb-2">
+            <ThumbsUp className="w-4 h-4 mr-2 text-green-600" />
+            Strengths
+          </h4>
+          <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+            {report.strengths.map((strength, i) => <li key={i}>{strength}</li>)}
+          </ul>
+        </div>
+        <div className="bg-white rounded border p-4">
+          <h4 className="flex items-center font-medium text-gray-900 mb-2">
+            <TrendingUp className="w-4 h-4 mr-2 text-orange-600" />
+            To work on
+          </h4>
+          <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+            {report.weaknesses.map((weakness, i) => <li key={i}>{weakness}</li>)}
+          </ul>
+        </div>
+      </div>
+
+      {report.speaking && (
+        <div className="bg-white rounded border p-4">
+          <h4 className="flex items-center font-medium text-gray-900 mb-3">
+            <Mic className="w-4 h-4 mr-2 text-blue-600" />
+            Delivery
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              from {report.speaking.answers} recorded answer{report.speaking.answers === 1 ? '' : 's'}
+            </span>
+          </h4>
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-2xl font-semibold text-gray-900">{report.speaking.wordsPerMinute}</p>
+              <p className="text-xs text-gray-500">words per minute ({paceLabel(report.speaking.wordsPerMinute)})</p>
+            </div>
+            <div>
+              <p className="text-2xl font-semibold text-gray-900">{report.speaking.fillerWordsPerMinute}</p>
+              <p className="text-xs text-gray-500">filler words per minute</p>
+            </div>
+            <div>
+              <p className="text-2xl font-semibold text-gray-900">{report.speaking.longPauses}</p>
+              <p className="text-xs text-gray-500">
+                long pauses{report.speaking.longPauses > 0 && ` (longest ${report.speaking.longestPauseSeconds}s)`}
+              </p>
+            </div>
+          </div>
+          {report.speaking.topFillers.length > 0 && (
+            <p className="mt-3 text-sm text-gray-600">
+              Most used fillers: {report.speaking.topFillers.map(f => `"${f.word}" ×${f.count}`).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {report.suggestedAnswer && (
+        <div className="bg-white rounded border p-4">
+          <h4 className="flex items-center font-medium text-gray-900 mb-1">
+            <Lightbulb className="w-4 h-4 mr-2 text-yellow-600" />
+            A stronger answer
+          </h4>
+          <p className="text-sm text-gray-500 mb-2">{report.suggestedAnswer.questionText}</p>
+          <p className="text-sm text-gray-800 whitespace-pre-line">{report.suggestedAnswer.answer}</p>
+        </div>
+      )}
+
+      {graded.length > 0 && (
+        <div className="bg-white rounded border divide-y">
+          {graded.map(question => {
+            const evaluation = question.evaluation!
+            const isExpanded = expanded === question.id
+            return (
+              <div key={question.id} className="p-4">
+                <button
+                  onClick={() => setExpanded(isExpanded ? null : question.id)}
+                  className="w-full flex items-start justify-between text-left"
+                >
+                  <span className="text-sm font-medium text-gray-900 pr-4">
+                    {question.questionIndex + 1}. {question.questionText}
+                  </span>
+                  <span className="flex items-center shrink-0">
+                    <span className={`text-sm font-medium mr-2 ${scoreColor(evaluation.score)}`}>
+                      {Math.round(evaluation.score * 100)}%
+                    </span>
+                    {isExpanded ? <ChevronUp className="w-4 h-4 text-gray-500" /> : <ChevronDown className="w-4 h-4 text-gray-500" />}
+                  </span>
+                </button>
+
+                {isExpanded && (
+                  <div className="mt-3 space-y-3 text-sm">
+                    <p className="text-gray-700">{evaluation.feedback}</p>
+                    <ul className="space-y-1">
+                      {evaluation.criteria.map(criterion => (
+                        <li key={criterion.id} className="text-gray-700">
+                          <span className={`font-medium ${scoreColor(criterion.score)}`}>
+                            {RUBRIC_CRITERIA[criterion.id]?.label || criterion.id} {Math.round(criterion.score * 100)}%
+                          </span>
+                          {criterion.comment && <span> · {criterion.comment}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                    {evaluation.improvements.length > 0 && (
+                      <div>
+                        <p className="font-medium text-gray-900">Try next time</p>
+                        <ul className="list-disc pl-5 text-gray-700">
+                          {evaluation.improvements.map((improvement, i) => <li key={i}>{improvement}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                    {question.speakingMetrics && (
+                      <p className="text-gray-500">
+                        {question.speakingMetrics.wordsPerMinute} wpm · {question.speakingMetrics.fillerWords.total} filler
+                        word{question.speakingMetrics.fillerWords.total === 1 ? '' : 's'} · {question.speakingMetrics.longPauses.count} long
+                        pause{question.speakingMetrics.longPauses.count === 1 ? '' : 's'}
+                      </p>
+                    )}
+                    {question.userAnswerText && (
+                      <details className="text-gray-600">
+                        <summary className="cursor-pointer text-gray-500">Your answer</summary>
+                        <p className="mt-1 whitespace-pre-line">{question.userAnswerText}</p>
+                      </details>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,11 @@ import { useState, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { Mic, MicOff, Play, Pause, RotateCcw, CheckCircle, Volume2, Square, MessageSquare } from 'lucide-react'
 import { useAudioRecording } from '@/hooks/useAudioRecording'
+import { useUserEvents } from '@/hooks/useUserEvents'
+import { isInterviewPersona, isInterviewType, INTERVIEW_TYPE_STRATEGIES, PERSONA_STRATEGIES } from '@/lib/interview/strategies'
+import type { AnswerEvaluation, CompetencyCoverage, SessionReport } from '@/lib/interview/types'
+import type { SpeakingMetrics } from '@/lib/transcription/types'
+import { InterviewReport } from './InterviewReport'
 
 interface InterviewQuestion {
   id: string
@@ -15,6 +20,13 @@ interface InterviewQuestion {
   answeredAt?: string
   feedback?: string
   score?: number
+  questionType?: string
+  competency?: string | null
+  followUpOfId?: string | null
+  interviewer?: string | null
+  evaluation?: AnswerEvaluation | null
+  transcriptionStatus?: 'PENDING' | 'COMPLETED' | 'FAILED' | null
+  speakingMetrics?: SpeakingMetrics | null
 }
 
 interface InterviewSessionData {
@@ -24,8 +36,12 @@ interface InterviewSessionData {
   company: string
   currentQuestion: number
   totalQuestions: number
+  interviewType?: string | null
+  persona?: string | null
   overallScore?: number
   feedback?: string
+  report?: SessionReport | null
+  competencies?: CompetencyCoverage[]
 }
 
 interface InterviewProgress {
@@ -60,6 +76,14 @@ export function InterviewSession({ sessionId, onComplete }: InterviewSessionProp
     loadSession()
   }, [sessionId])
 
+  // Grades and the report arrive from background jobs
+  useUserEvents(event => {
+    if (event.type !== 'job.updated' || event.data.status !== 'COMPLETED') return
+    if (['transcribe_interview_answer', 'evaluate_interview_answer', 'build_interview_report'].includes(event.data.type)) {
+      loadSession()
+    }
+  })
+
   // Load current question when session data changes
   useEffect(() => {
     if (session && questions.length > 0) {
@@ -121,7 +145,10 @@ export function InterviewSession({ sessionId, onComplete }: InterviewSessionProp
         id: data.data.questionId,
         questionIndex: data.data.questionIndex,
         questionText: data.data.questionText,
-        questionAudioUrl: data.data.questionAudioUrl
+        questionAudioUrl: data.data.questionAudioUrl,
+        competency: data.data.competency,
+        followUpOfId: data.data.isFollowUp ? 'previous' : null,
+        interviewer: data.data.interviewer
       }
 
       setCurrentQuestion(newQuestion)
@@ -260,7 +287,7 @@ export function InterviewSession({ sessionId, onComplete }: InterviewSessionProp
           <div>
             <h3 className="text-lg font-semibold text-green-800">Interview Completed!</h3>
             <p className="text-green-700">
-              You have successfully completed the interview for {session.jobTitle} at {session.company}.
+              You have successfully completed the interview for {session.jobTitle}{session.company && ` at ${session.company}`}.
             </p>
             {session.overallScore && (
               <p className="text-green-700 mt-1">
@@ -277,6 +304,31 @@ export function InterviewSession({ sessionId, onComplete }: InterviewSessionProp
           </div>
         )}
 
+        {session.competencies && session.competencies.length > 0 && (
+          <div className="mt-4 flex flex-wrap gap-2">
+            {session.competencies.map(c => (
+              <span
+                key={c.name}
+                className={`text-xs px-2 py-1 rounded-full ${c.covered ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-500'}`}
+                title={c.covered ? `Asked ${c.questions} question${c.questions === 1 ? '' : 's'}` : 'Not covered this session'}
+              >
+                {c.name}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {session.report ? (
+          <div className="mt-4">
+            <InterviewReport report={session.report} questions={questions} />
+          </div>
+        ) : questions.some(q => q.userAnswerText || q.transcriptionStatus === 'PENDING') && (
+          <div className="mt-4 p-3 bg-white rounded border flex items-center">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-600 mr-2"></div>
+            <p className="text-gray-700 text-sm">Grading your answers. Your report will appear here in a minute or so.</p>
+          </div>
+        )}
+
         <div className="mt-4 flex space-x-3">
           <button
             onClick={() => router.push('/dashboard')}
@@ -303,8 +355,16 @@ export function InterviewSession({ sessionId, onComplete }: InterviewSessionProp
           Practice Interview
         </h1>
         <p className="text-gray-600">
-          {session?.jobTitle} at {session?.company}
+          {session?.jobTitle}{session?.company && ` at ${session.company}`}
         </p>
+        {(isInterviewType(session?.interviewType) || isInterviewPersona(session?.persona)) && (
+          <p className="text-sm text-gray-500 mt-1">
+            {[
+              isInterviewType(session?.interviewType) && INTERVIEW_TYPE_STRATEGIES[session.interviewType].label,
+              isInterviewPersona(session?.persona) && `with a ${PERSONA_STRATEGIES[session.persona].label.toLowerCase()}`,
+            ].filter(Boolean).join(' ')}
+          </p>
+        )}
       </div>
 
       {/* Progress Bar */}
@@ -339,7 +399,16 @@ export function InterviewSession({ sessionId, onComplete }: InterviewSessionProp
       {/* Question Section */}
       {currentQuestion && (
         <div className="bg-white border rounded-lg p-6 mb-6">
-          <h2 className="text-xl font-semibold mb-4">Interview Question</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">
+              {currentQuestion.interviewer ? `${currentQuestion.interviewer} asks` : 'Interview Question'}
+            </h2>
+            {(currentQuestion.followUpOfId || currentQuestion.competency) && (
+              <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                {currentQuestion.followUpOfId ? 'Follow-up' : currentQuestion.competency}
+              </span>
+            )}
+          </div>
           
           {/* Question Audio */}
           {currentQuestion.questionAudioUrl ? (
@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { Mic, X } from 'lucide-react'
+import { GENERAL_INTERVIEW, INTERVIEW_TYPE_STRATEGIES, PERSONA_STRATEGIES } from '@/lib/interview/strategies'
+import { INTERVIEW_PERSONAS, INTERVIEW_TYPES, InterviewPersona, InterviewType } from '@/lib/interview/types'
+
+interface Application {
+  id: string
+  jobTitle: string
+  company: string
+}
+
+export interface InterviewSetup {
+  interviewType: InterviewType | null
+  persona: InterviewPersona | null
+}
+
+interface InterviewSetupModalProps {
+  application: Application | null
+  isOpen: boolean
+  isStarting: boolean
+  onClose: () => void
+  onStart: (setup: InterviewSetup) => void
+}
+
+export function InterviewSetupModal({
+  application,
+  isOpen,
+  isStarting,
+  onClose,
+  onStart
+}: InterviewSetupModalProps) {
+  const [interviewType, setInterviewType] = useState<InterviewType | null>(null)
+  const [persona, setPersona] = useState<InterviewPersona | null>(null)
+
+  if (!isOpen || !application) return null
+
+  const optionClass = (selected: boolean) =>
+    `text-left p-3 rounded-lg border transition-colors ${selected ? 'border-purple-500 bg-purple-50' : 'border-gray-200 hover:border-gray-300'}`
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="max-w-2xl w-full max-h-[90vh] overflow-hidden">
+        <div className="flex flex-col h-full max-h-[90vh]">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Practice Interview</h2>
+              <p className="text-sm text-gray-600">
+                {application.jobTitle} at {application.company}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex-1 overflow-auto p-6 space-y-6">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Interview type</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <button onClick={() => setInterviewType(null)} className={optionClass(interviewType === null)}>
+                  <p className="text-sm font-medium text-gray-900">{GENERAL_INTERVIEW.label}</p>
+                  <p className="text-xs text-gray-500">{GENERAL_INTERVIEW.description}</p>
+                </button>
+                {INTERVIEW_TYPES.map(type => (
+                  <button key={type} onClick={() => setInterviewType(type)} className={optionClass(interviewType === type)}>
+                    <p className="text-sm font-medium text-gray-900">{INTERVIEW_TYPE_STRATEGIES[type].label}</p>
+                    <p className="text-xs text-gray-500">{INTERVIEW_TYPE_STRATEGIES[type].description}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Interviewer</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {INTERVIEW_PERSONAS.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setPersona(persona === option ? null : option)}
+                    className={optionClass(persona === option)}
+                  >
+                    <p className="text-sm font-medium text-gray-900">{PERSONA_STRATEGIES[option].label}</p>
+                    <p className="text-xs text-gray-500">{PERSONA_STRATEGIES[option].description}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 p-6 border-t">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => onStart({ interviewType, persona })}
+              disabled={isStarting}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              <Mic className="h-4 w-4 mr-2" />
+              {isStarting ? 'Starting...' : 'Start Interview'}
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  )
+}
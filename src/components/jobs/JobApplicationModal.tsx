@@ -519,6 +519,8 @@ export function JobApplicationModal({
     // For auto-apply jobs, use the existing logic
     const sourceInfo = job.sourceInfo || getJobSourceInfo(job.url || '')
     const isIndeedJob = sourceInfo.source === 'INDEED'
+    const isWorkdayJob = sourceInfo.source === 'WORKDAY'
+    const useAutomation = isIndeedJob || isWorkdayJob // Platforms with server-side browser automation
     const isExternalJob = sourceInfo.source === 'OTHER'
     setIsApplying(true)
     console.log('Setting isApplying to true, attempting application...')
@@ -530,7 +532,7 @@ export function JobApplicationModal({
         resumeData: userResumeData,
         customizedResumeUrl: customizeResume ? customizedResumeUrl : null,
         coverLetter,
-        useAutomation: isIndeedJob // Only use automation for Indeed jobs
+        useAutomation
       })
       
       const response = await fetch('/api/jobs/apply-automated', {
@@ -542,7 +544,7 @@ export function JobApplicationModal({
           resumeData: userResumeData,
           customizedResumeUrl: customizeResume ? customizedResumeUrl : null,
           coverLetter,
-          useAutomation: isIndeedJob // Only use automation for Indeed jobs
+          useAutomation
         })
       })
 
@@ -553,8 +555,8 @@ export function JobApplicationModal({
       console.log('Response data:', result)
       
       if (response.ok && result.success) {
-        if (result.method === 'automated' && isIndeedJob) {
-          // Successful automation for Indeed jobs
+        if (result.method === 'automated' && useAutomation) {
+          // Successful automation for Indeed/Workday jobs
           console.log('✅ Automated application successful!')
           setApplicationResult({
             ...result.data,
@@ -593,6 +595,19 @@ export function JobApplicationModal({
           }
         }
         
+      } else if (isWorkdayJob && result.redirectUrl) {
+        // Workday automation got partway; the candidate finishes from the step it stopped at
+        console.log('⚠️ Workday automation stopped at:', result.stoppedAt)
+        setApplicationResult({
+          method: 'redirect',
+          platform: 'workday',
+          message: result.error || 'Workday automation could not finish - please complete the application on Workday',
+          redirectUrl: result.redirectUrl,
+          resumeUrl: customizedResumeUrl,
+          coverLetter,
+          jobTitle: job.title,
+          company: job.company
+        })
       } else {
         console.log('Application failed completely')
         throw new Error(result.error || 'Application failed')
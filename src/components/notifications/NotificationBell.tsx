@@ -0,0 +1,142 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Bell } from 'lucide-react'
+import { useUserEvents } from '@/hooks/useUserEvents'
+
+interface InboxNotification {
+  id: string
+  type: string
+  title: string
+  body: string
+  url: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+function timeAgo(date: string): string {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return `${Math.floor(hours / 24)}d ago`
+}
+
+export function NotificationBell() {
+  const [notifications, setNotifications] = useState<InboxNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const fetchInbox = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications/inbox?limit=10')
+      if (response.ok) {
+        const data = await response.json()
+        setNotifications(data.data.notifications)
+        setUnreadCount(data.data.unreadCount)
+      }
+    } catch (error) {
+      console.error('Error fetching notification inbox:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchInbox()
+  }, [fetchInbox])
+
+  useUserEvents(event => {
+    if (event.type === 'inbox.created') fetchInbox()
+  })
+
+  useEffect(() => {
+    if (!isOpen) return
+    const close = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', close)
+    return () => document.removeEventListener('mousedown', close)
+  }, [isOpen])
+
+  const markAllRead = async () => {
+    try {
+      const response = await fetch('/api/notifications/inbox', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      })
+      if (response.ok) {
+        const readAt = new Date().toISOString()
+        setNotifications(current => current.map(notification => ({ ...notification, readAt: notification.readAt || readAt })))
+        setUnreadCount(0)
+      }
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+    }
+  }
+
+  const openNotification = async (notification: InboxNotification) => {
+    if (!notification.readAt) {
+      await fetch('/api/notifications/inbox', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [notification.id] }),
+      }).catch(() => undefined)
+    }
+    if (notification.url) window.location.href = notification.url
+    else fetchInbox()
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-gray-900"
+        aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <span className="text-sm font-semibold text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button type="button" onClick={markAllRead} className="text-xs text-blue-600 hover:text-blue-800">
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">You&apos;re all caught up</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => openNotification(notification)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.readAt ? '' : 'bg-blue-50/50'}`}
+                >
+                  <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                  <p className="text-xs text-gray-600 mt-0.5 line-clamp-2">{notification.body}</p>
+                  <p className="text-[11px] text-gray-400 mt-1">{timeAgo(notification.createdAt)}</p>
+                </button>
+              ))
+            )}
+          </div>
+          <a href="/profile#notifications" className="block px-4 py-2 text-xs text-center text-gray-500 hover:text-gray-900 border-t border-gray-200">
+            Notification settings
+          </a>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -32,7 +32,7 @@ export function FirstTimeUserSetup({ onComplete, onSkip, userEmail, userName }:
       await fetch('/api/onboarding/complete', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ method: 'upload' })
+        body: JSON.stringify({ method: 'upload', timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })
       })
 
       // Trigger resume import to extract structured data and job title
@@ -23,7 +23,7 @@ const autoApplySchema = z.object({
   preferredSources: z.array(z.string()).optional(),
   requireSalaryRange: z.boolean(),
   autoScanEnabled: z.boolean(),
-  scanFrequencyHours: z.number().min(1).max(24),
+  scanFrequencyHours: z.number().min(1).max(24).refine(hours => 24 % hours === 0, 'Pick a listed scan frequency'),
   // New notification and approval settings
   notifyOnMatch: z.boolean(),
   notifyMinScore: z.number().min(0).max(1),
@@ -31,10 +31,19 @@ const autoApplySchema = z.object({
   autoApplyEnabled: z.boolean(),
   customizeResume: z.boolean(),
   reviewTimeoutHours: z.number().min(1).max(168), // 1 hour to 1 week
+  dryRun: z.boolean(),
 })
 
 type AutoApplySettingsInput = z.infer<typeof autoApplySchema>
 
+// The user's scan schedule row, as returned by /api/auto-apply/schedule
+interface ScanSchedule {
+  enabled: boolean
+  timezone: string
+  nextRunAt: string | null
+  lastRunAt: string | null
+}
+
 interface AutoApplySettingsProps {
   initialData?: Partial<AutoApplySettingsInput>
   onSubmit: (data: AutoApplySettingsInput) => Promise<void>
@@ -52,6 +61,8 @@ export function AutoApplySettings({ initialData, onSubmit }: AutoApplySettingsPr
   const [preferredSources, setPreferredSources] = useState<string[]>(
     initialData?.preferredSources || ['linkedin', 'indeed']
   )
+  const [scanSchedule, setScanSchedule] = useState<ScanSchedule | null>(null)
+  const [browserTimeZone, setBrowserTimeZone] = useState<string | null>(null)
 
   const {
     register,
@@ -76,6 +87,7 @@ export function AutoApplySettings({ initialData, onSubmit }: AutoApplySettingsPr
       autoApplyEnabled: false,
       customizeResume: true,
       reviewTimeoutHours: 24,
+      dryRun: false,
       ...initialData,
     },
   })
@@ -98,6 +110,7 @@ export function AutoApplySettings({ initialData, onSubmit }: AutoApplySettingsPr
         autoApplyEnabled: false,
         customizeResume: true,
         reviewTimeoutHours: 24,
+        dryRun: false,
         ...initialData,
       })
       
@@ -107,6 +120,51 @@ export function AutoApplySettings({ initialData, onSubmit }: AutoApplySettingsPr
     }
   }, [initialData, reset])
 
+  useEffect(() => {
+    setBrowserTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone)
+    fetchScanSchedule()
+  }, [])
+
+  const fetchScanSchedule = async () => {
+    try {
+      const response = await fetch('/api/auto-apply/schedule')
+      if (response.ok) {
+        const data = await response.json()
+        setScanSchedule(data.data.schedule)
+      }
+    } catch (error) {
+      console.error('Error fetching scan schedule:', error)
+    }
+  }
+
+  const switchToBrowserTimeZone = async () => {
+    if (!browserTimeZone) return
+    try {
+      const response = await fetch('/api/auto-apply/schedule', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ timezone: browserTimeZone }),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setScanSchedule(data.data.schedule)
+      }
+    } catch (error) {
+      console.error('Error updating time zone:', error)
+    }
+  }
+
+  const formatScheduleTime = (value: string, timeZone: string) =>
+    new Date(value).toLocaleString(undefined, {
+      timeZone,
+      weekday: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+
   const isEnabled = watch('isEnabled')
   const autoScanEnabled = watch('autoScanEnabled')
   const minMatchScore = watch('minMatchScore')
@@ -116,6 +174,7 @@ export function AutoApplySettings({ initialData, onSubmit }: AutoApplySettingsPr
   const notifyMinScore = watch('notifyMinScore')
   const customizeResume = watch('customizeResume')
   const requireSalaryRange = watch('requireSalaryRange')
+  const dryRun = watch('dryRun')
 
   const addExcludedCompany = (company: string) => {
     if (company && !excludedCompanies.includes(company)) {
@@ -171,6 +230,8 @@ export function AutoApplySettings({ initialData, onSubmit }: AutoApplySettingsPr
         console.error('Failed to update setting:', errorData)
         // Revert the form field value on error
         setValue(fieldName, !value)
+      } else {
+        fetchScanSchedule()
       }
     } catch (error) {
       console.error('Error updating setting:', error)
@@ -190,6 +251,7 @@ export function AutoApplySettings({ initialData, onSubmit }: AutoApplySettingsPr
         excludedKeywords,
         preferredSources,
       })
+      fetchScanSchedule()
     } finally {
       setIsLoading(false)
     }
@@ -413,6 +475,24 @@ export function AutoApplySettings({ initialData, onSubmit }: AutoApplySettingsPr
                       disabled={isUpdating}
                     />
                   </div>
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label>Dry Run</Label>
+                      <p className="text-sm text-gray-600">
+                        Fill in every application but stop before submitting, and show what would have been sent
+                      </p>
+                    </div>
+                    <Switch 
+                      checked={dryRun}
+                      onChange={async (e) => {
+                        const value = e.target.checked
+                        setValue('dryRun', value, { shouldDirty: true })
+                        await updateSingleField('dryRun', value)
+                      }}
+                      disabled={isUpdating}
+                    />
+                  </div>
                 </div>
               </div>
             </Card>
@@ -482,11 +562,35 @@ export function AutoApplySettings({ initialData, onSubmit }: AutoApplySettingsPr
                     <Select {...register('scanFrequencyHours', { valueAsNumber: true })}>
                       <option value={1}>Every hour</option>
                       <option value={2}>Every 2 hours</option>
+                      <option value={3}>Every 3 hours</option>
                       <option value={4}>Every 4 hours</option>
                       <option value={6}>Every 6 hours</option>
+                      <option value={8}>Every 8 hours</option>
                       <option value={12}>Every 12 hours</option>
                       <option value={24}>Once daily</option>
                     </Select>
+                    {scanSchedule && (
+                      <div className="text-sm text-gray-600 mt-1 space-y-1">
+                        <p>
+                          {scanSchedule.enabled && scanSchedule.nextRunAt
+                            ? `Next scan: ${formatScheduleTime(scanSchedule.nextRunAt, scanSchedule.timezone)}`
+                            : 'Scheduled scans are paused'}
+                          {scanSchedule.lastRunAt && ` · Last: ${formatScheduleTime(scanSchedule.lastRunAt, scanSchedule.timezone)}`}
+                        </p>
+                        <p>
+                          Times in {scanSchedule.timezone}
+                          {browserTimeZone && browserTimeZone !== scanSchedule.timezone && (
+                            <button
+                              type="button"
+                              onClick={switchToBrowserTimeZone}
+                              className="ml-2 text-primary-600 hover:underline"
+                            >
+                              Use {browserTimeZone}
+                            </button>
+                          )}
+                        </p>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -664,6 +768,9 @@ export function AutoApplySettings({ initialData, onSubmit }: AutoApplySettingsPr
                 <div>
                   <h4 className="font-semibold text-blue-800">AI Assistant Summary</h4>
                   <div className="text-sm text-blue-700 mt-2 space-y-1">
+                    {dryRun && (
+                      <p className="font-medium">🧪 Dry run: applications are filled in but never submitted</p>
+                    )}
                     {requireApproval ? (
                       <div>
                         <p className="font-medium">📋 Review Mode Active:</p>
@@ -0,0 +1,181 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Badge } from '@/components/ui/Badge'
+import { Building, RefreshCw, Trash2, AlertCircle } from 'lucide-react'
+
+interface FollowedCompany {
+  id: string
+  platform: 'greenhouse' | 'lever'
+  boardSlug: string
+  companyName?: string | null
+  isActive: boolean
+  openJobCount: number
+  lastSyncedAt?: string | null
+  lastSyncError?: string | null
+}
+
+export function CompanyWatchlist() {
+  const [companies, setCompanies] = useState<FollowedCompany[]>([])
+  const [boardUrl, setBoardUrl] = useState('')
+  const [companyName, setCompanyName] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAdding, setIsAdding] = useState(false)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    fetchCompanies()
+  }, [])
+
+  const fetchCompanies = async () => {
+    try {
+      const response = await fetch('/api/companies/followed')
+      if (response.ok) {
+        const data = await response.json()
+        setCompanies(data.data.companies)
+      }
+    } catch (error) {
+      console.error('Error fetching followed companies:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFollow = async () => {
+    if (!boardUrl.trim()) return
+
+    setIsAdding(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/companies/followed', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          boardUrl: boardUrl.trim(),
+          companyName: companyName.trim() || undefined,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to follow company' })
+        return
+      }
+
+      setBoardUrl('')
+      setCompanyName('')
+      setMessage({ type: 'success', text: data.message })
+      await fetchCompanies()
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error: Failed to follow company' })
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleUnfollow = async (id: string) => {
+    try {
+      const response = await fetch(`/api/companies/followed/${id}`, { method: 'DELETE' })
+      if (response.ok) {
+        setCompanies(prev => prev.filter(company => company.id !== id))
+      }
+    } catch (error) {
+      console.error('Error unfollowing company:', error)
+    }
+  }
+
+  const handleSync = async () => {
+    setIsSyncing(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/companies/followed/sync', { method: 'POST' })
+      const data = await response.json()
+
+      setMessage(response.ok
+        ? { type: 'success', text: data.message }
+        : { type: 'error', text: data.error || 'Failed to sync followed companies' })
+      await fetchCompanies()
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error: Failed to sync followed companies' })
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          value={boardUrl}
+          onChange={e => setBoardUrl(e.target.value)}
+          placeholder="https://boards.greenhouse.io/company or https://jobs.lever.co/company"
+        />
+        <Input
+          value={companyName}
+          onChange={e => setCompanyName(e.target.value)}
+          placeholder="Company name (optional)"
+          className="sm:max-w-[220px]"
+        />
+        <Button onClick={handleFollow} isLoading={isAdding} disabled={!boardUrl.trim()}>
+          Follow
+        </Button>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse h-10 bg-gray-100 rounded" />
+      ) : companies.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          You're not following any companies yet. Every open posting on a followed board is added to your jobs on each scan.
+        </p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {companies.map(company => (
+              <li key={company.id} className="flex items-center justify-between p-3 gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Building className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {company.companyName || company.boardSlug}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {company.openJobCount} open postings
+                      {company.lastSyncedAt && ` · synced ${new Date(company.lastSyncedAt).toLocaleString()}`}
+                    </p>
+                    {company.lastSyncError && (
+                      <p className="text-xs text-red-600 flex items-center mt-1">
+                        <AlertCircle className="h-3 w-3 mr-1" />
+                        {company.lastSyncError}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="capitalize">{company.platform}</Badge>
+                  <Button variant="ghost" size="sm" onClick={() => handleUnfollow(company.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <Button variant="outline" size="sm" onClick={handleSync} isLoading={isSyncing}>
+            {!isSyncing && <RefreshCw className="h-4 w-4 mr-2" />}
+            Sync now
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface EmailPreferenceSettings {
+  jobMatches: boolean
+  reviewReminders: boolean
+  applicationUpdates: boolean
+  digestFrequency: 'DAILY' | 'WEEKLY' | 'OFF'
+  unsubscribedAll: boolean
+}
+
+type CategoryKey = 'jobMatches' | 'reviewReminders' | 'applicationUpdates'
+
+const CATEGORIES: { key: CategoryKey; label: string; description: string }[] = [
+  { key: 'jobMatches', label: 'High-match jobs', description: 'Jobs scoring at least your email minimum under Notifications' },
+  { key: 'reviewReminders', label: 'Review reminders', description: 'Applications waiting for your review, and reviews about to expire' },
+  { key: 'applicationUpdates', label: 'Application updates', description: 'Applications submitted or failed, and a plan allowance running low' },
+]
+
+export function EmailPreferences() {
+  const [preferences, setPreferences] = useState<EmailPreferenceSettings | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    fetchPreferences()
+  }, [])
+
+  const fetchPreferences = async () => {
+    try {
+      const response = await fetch('/api/email/preferences')
+      if (response.ok) {
+        const data = await response.json()
+        setPreferences(data.data.preferences)
+      }
+    } catch (error) {
+      console.error('Error fetching email preferences:', error)
+    }
+  }
+
+  const savePreferences = async (changes: Partial<EmailPreferenceSettings>) => {
+    if (!preferences) return
+
+    const previous = preferences
+    setPreferences({ ...preferences, ...changes })
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/email/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setPreferences(previous)
+        setMessage({ type: 'error', text: data.error || 'Failed to save email preferences' })
+        return
+      }
+
+      setPreferences(data.data.preferences)
+      setMessage({ type: 'success', text: data.message })
+    } catch (error) {
+      setPreferences(previous)
+      setMessage({ type: 'error', text: 'Network error: Failed to save email preferences' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!preferences) {
+    return <div className="animate-pulse h-32 bg-gray-100 rounded" />
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {CATEGORIES.map(category => (
+          <label key={category.key} className="flex items-start space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={preferences[category.key] && !preferences.unsubscribedAll}
+              disabled={isSaving || preferences.unsubscribedAll}
+              onChange={e => savePreferences({ [category.key]: e.target.checked })}
+              className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-900">{category.label}</span>
+              <span className="block text-xs text-gray-500">{category.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="border-t border-gray-200 pt-4">
+        <label htmlFor="digest-frequency" className="block text-sm font-medium text-gray-900">Job search digest</label>
+        <p className="text-xs text-gray-500 mb-2">
+          New matches ranked by score, reviews about to expire, application updates and interviews to practice for
+        </p>
+        <div className="flex items-center gap-3">
+          <select
+            id="digest-frequency"
+            value={preferences.unsubscribedAll ? 'OFF' : preferences.digestFrequency}
+            disabled={isSaving || preferences.unsubscribedAll}
+            onChange={e => savePreferences({ digestFrequency: e.target.value as EmailPreferenceSettings['digestFrequency'] })}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="DAILY">Daily</option>
+            <option value="WEEKLY">Weekly</option>
+            <option value="OFF">Off</option>
+          </select>
+          <a
+            href={`/api/digest/preview${preferences.digestFrequency === 'WEEKLY' ? '?frequency=weekly' : ''}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Preview digest
+          </a>
+        </div>
+      </div>
+
+      <label className="flex items-start space-x-3 cursor-pointer border-t border-gray-200 pt-4">
+        <input
+          type="checkbox"
+          checked={preferences.unsubscribedAll}
+          disabled={isSaving}
+          onChange={e => savePreferences({ unsubscribedAll: e.target.checked })}
+          className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>
+          <span className="block text-sm font-medium text-gray-900">Unsubscribe from all</span>
+          <span className="block text-xs text-gray-500">Password resets and other account emails are still sent</span>
+        </span>
+      </label>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
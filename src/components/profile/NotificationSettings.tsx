@@ -0,0 +1,291 @@
+'use client'
+
+import { useCallback, useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+
+type EventType = 'match_found' | 'review_pending' | 'review_expiring' | 'auto_applied' | 'automation_failed' | 'quota_low'
+type ChannelId = 'in_app' | 'email' | 'push' | 'webhook'
+
+interface NotificationPreferenceSettings {
+  routes: Record<EventType, ChannelId[]>
+  minScores: Record<ChannelId, number>
+  quietHours: { enabled: boolean; start: string; end: string; timeZone: string }
+}
+
+interface PushStatus {
+  configured: boolean
+  subscriptions: number
+}
+
+const EVENTS: { type: EventType; label: string }[] = [
+  { type: 'match_found', label: 'New job match' },
+  { type: 'review_pending', label: 'Application ready for review' },
+  { type: 'review_expiring', label: 'Review about to expire' },
+  { type: 'auto_applied', label: 'Application submitted for you' },
+  { type: 'automation_failed', label: 'Automatic application failed' },
+  { type: 'quota_low', label: 'Plan allowance running low' },
+]
+
+const CHANNELS: { id: ChannelId; label: string }[] = [
+  { id: 'in_app', label: 'In-app' },
+  { id: 'email', label: 'Email' },
+  { id: 'push', label: 'Push' },
+  { id: 'webhook', label: 'Webhook' },
+]
+
+// The VAPID key arrives base64url encoded; PushManager wants raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + '='.repeat((4 - base64.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  const raw = atob(padded)
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length))
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i)
+  return bytes
+}
+
+export function NotificationSettings() {
+  const [preferences, setPreferences] = useState<NotificationPreferenceSettings | null>(null)
+  const [push, setPush] = useState<PushStatus | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isSubscribing, setIsSubscribing] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const applyResponse = useCallback((data: { preferences: NotificationPreferenceSettings; push: PushStatus }) => {
+    setPreferences(data.preferences)
+    setPush(data.push)
+  }, [])
+
+  const fetchPreferences = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications/preferences')
+      if (response.ok) {
+        const data = await response.json()
+        applyResponse(data.data)
+      }
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error)
+    }
+  }, [applyResponse])
+
+  useEffect(() => {
+    fetchPreferences()
+  }, [fetchPreferences])
+
+  const savePreferences = async (changes: Record<string, unknown>) => {
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.details?.[0]?.message || data.error || 'Failed to save notification preferences' })
+        return false
+      }
+
+      applyResponse(data.data)
+      setMessage({ type: 'success', text: data.message })
+      return true
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error: Failed to save notification preferences' })
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleRoute = (type: EventType, channel: ChannelId, enabled: boolean) => {
+    if (!preferences) return
+    const channels = enabled
+      ? [...preferences.routes[type], channel]
+      : preferences.routes[type].filter(id => id !== channel)
+    setPreferences({ ...preferences, routes: { ...preferences.routes, [type]: channels } })
+    savePreferences({ routes: { [type]: channels } })
+  }
+
+  const enablePush = async () => {
+    if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+      setMessage({ type: 'error', text: 'This browser does not support push notifications' })
+      return
+    }
+
+    setIsSubscribing(true)
+    setMessage(null)
+    try {
+      const permission = await Notification.requestPermission()
+      if (permission !== 'granted') {
+        setMessage({ type: 'error', text: 'Notifications are blocked for this site in your browser settings' })
+        return
+      }
+
+      const keyResponse = await fetch('/api/notifications/push-subscriptions')
+      const keyData = await keyResponse.json()
+      if (!keyData.data?.publicKey) {
+        setMessage({ type: 'error', text: 'Push notifications are not configured on this server' })
+        return
+      }
+
+      const registration = await navigator.serviceWorker.register('/sw.js')
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(keyData.data.publicKey),
+      })
+
+      const response = await fetch('/api/notifications/push-subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(subscription.toJSON()),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to enable push notifications' })
+        return
+      }
+
+      setMessage({ type: 'success', text: data.message })
+      fetchPreferences()
+    } catch (error) {
+      console.error('Error enabling push notifications:', error)
+      setMessage({ type: 'error', text: 'Failed to enable push notifications' })
+    } finally {
+      setIsSubscribing(false)
+    }
+  }
+
+  if (!preferences || !push) {
+    return <div className="animate-pulse h-32 bg-gray-100 rounded" />
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-2 pr-4 font-medium">Event</th>
+              {CHANNELS.map(channel => (
+                <th key={channel.id} className="py-2 px-2 font-medium text-center">{channel.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {EVENTS.map(event => (
+              <tr key={event.type}>
+                <td className="py-2 pr-4 text-gray-900">{event.label}</td>
+                {CHANNELS.map(channel => (
+                  <td key={channel.id} className="py-2 px-2 text-center">
+                    <input
+                      type="checkbox"
+                      aria-label={`${event.label}: ${channel.label}`}
+                      checked={preferences.routes[event.type].includes(channel.id)}
+                      disabled={isSaving}
+                      onChange={e => toggleRoute(event.type, channel.id, e.target.checked)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-medium text-gray-900">Minimum match score</h3>
+        <p className="text-xs text-gray-500 mb-3">Job matches below this score skip the channel. Other events always go through.</p>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {CHANNELS.map(channel => (
+            <label key={channel.id} className="block">
+              <span className="block text-xs text-gray-600 mb-1">{channel.label}</span>
+              <select
+                value={Math.round(preferences.minScores[channel.id] * 100)}
+                disabled={isSaving}
+                onChange={e => savePreferences({ minScores: { [channel.id]: Number(e.target.value) / 100 } })}
+                className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {[0, 50, 60, 70, 75, 80, 85, 90, 95].map(score => (
+                  <option key={score} value={score}>{score === 0 ? 'Any' : `${score}%+`}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t border-gray-200 pt-4">
+        <label className="flex items-start space-x-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={preferences.quietHours.enabled}
+            disabled={isSaving}
+            onChange={e => savePreferences({
+              quietHours: {
+                enabled: e.target.checked,
+                // Quiet hours are read in the browser's time zone the first time they're turned on
+                ...(e.target.checked && preferences.quietHours.timeZone === 'UTC'
+                  ? { timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+                  : {}),
+              },
+            })}
+            className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-900">Quiet hours</span>
+            <span className="block text-xs text-gray-500">Email and push notifications wait until quiet hours end</span>
+          </span>
+        </label>
+        {preferences.quietHours.enabled && (
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <span>From</span>
+            <input
+              type="time"
+              value={preferences.quietHours.start}
+              disabled={isSaving}
+              onChange={e => e.target.value && savePreferences({ quietHours: { start: e.target.value } })}
+              className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+            />
+            <span>to</span>
+            <input
+              type="time"
+              value={preferences.quietHours.end}
+              disabled={isSaving}
+              onChange={e => e.target.value && savePreferences({ quietHours: { end: e.target.value } })}
+              className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+            />
+            <span className="text-xs text-gray-500">({preferences.quietHours.timeZone})</span>
+          </div>
+        )}
+      </div>
+
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-medium text-gray-900">Browser push</h3>
+        <p className="text-xs text-gray-500 mb-2">
+          {push.configured
+            ? `${push.subscriptions} browser${push.subscriptions === 1 ? '' : 's'} subscribed`
+            : 'Push notifications are not configured on this server'}
+        </p>
+        <Button variant="outline" size="sm" onClick={enablePush} isLoading={isSubscribing} disabled={!push.configured}>
+          Enable push on this browser
+        </Button>
+      </div>
+
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-medium text-gray-900">Webhook</h3>
+        <p className="text-xs text-gray-500">
+          Events routed to Webhook are sent as a signed Notification event to each endpoint
+          under <a href="#webhooks" className="text-blue-600 hover:underline">Webhooks</a> that subscribes to it.
+        </p>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
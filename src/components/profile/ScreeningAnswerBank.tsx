@@ -0,0 +1,202 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Badge } from '@/components/ui/Badge'
+import { Check, MessageSquareText, Sparkles, Trash2 } from 'lucide-react'
+
+interface ScreeningAnswer {
+  id: string
+  question: string
+  answer: string
+  category: string
+  source: 'USER' | 'AI'
+  status: 'APPROVED' | 'PENDING'
+  timesUsed: number
+}
+
+export function ScreeningAnswerBank() {
+  const [answers, setAnswers] = useState<ScreeningAnswer[]>([])
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [question, setQuestion] = useState('')
+  const [answer, setAnswer] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    fetchAnswers()
+  }, [])
+
+  const fetchAnswers = async () => {
+    try {
+      const response = await fetch('/api/answer-bank')
+      if (response.ok) {
+        const data = await response.json()
+        setAnswers(data.data.answers)
+      }
+    } catch (error) {
+      console.error('Error fetching answer bank:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleAdd = async () => {
+    if (!question.trim() || !answer.trim()) return
+
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/answer-bank', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: question.trim(), answer: answer.trim() }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to save answer' })
+        return
+      }
+
+      setQuestion('')
+      setAnswer('')
+      setMessage({ type: 'success', text: data.message })
+      await fetchAnswers()
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error: Failed to save answer' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleUpdate = async (id: string, body: { answer: string } | { approve: true }) => {
+    try {
+      const response = await fetch(`/api/answer-bank/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      if (response.ok) {
+        setDrafts(prev => {
+          const next = { ...prev }
+          delete next[id]
+          return next
+        })
+        await fetchAnswers()
+      }
+    } catch (error) {
+      console.error('Error updating answer:', error)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/answer-bank/${id}`, { method: 'DELETE' })
+      if (response.ok) {
+        setAnswers(prev => prev.filter(entry => entry.id !== id))
+      }
+    } catch (error) {
+      console.error('Error deleting answer:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <Input
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder="Question, e.g. Do you require visa sponsorship?"
+        />
+        <Input
+          value={answer}
+          onChange={e => setAnswer(e.target.value)}
+          placeholder="Your answer"
+        />
+      </div>
+      <Button onClick={handleAdd} isLoading={isSaving} disabled={!question.trim() || !answer.trim()}>
+        Save answer
+      </Button>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse h-10 bg-gray-100 rounded" />
+      ) : answers.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No saved answers yet. Questions found on application forms are added here, with AI drafts for you to approve.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {answers.map(entry => {
+            const draft = drafts[entry.id]
+            const isEditing = draft !== undefined
+
+            return (
+              <li key={entry.id} className="p-3 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <MessageSquareText className="h-4 w-4 text-gray-400 flex-shrink-0 mt-0.5" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{entry.question}</p>
+                      {!isEditing && (
+                        <button
+                          type="button"
+                          className="text-sm text-gray-600 text-left hover:text-gray-900"
+                          onClick={() => setDrafts(prev => ({ ...prev, [entry.id]: entry.answer }))}
+                        >
+                          {entry.answer || <span className="italic text-amber-700">Needs your answer</span>}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {entry.status === 'PENDING' ? (
+                      <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                        {entry.source === 'AI' && <Sparkles className="h-3 w-3 mr-1" />}
+                        {entry.answer ? 'Review draft' : 'Unanswered'}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                        Used {entry.timesUsed}×
+                      </Badge>
+                    )}
+                    {entry.status === 'PENDING' && entry.answer && !isEditing && (
+                      <Button variant="ghost" size="sm" onClick={() => handleUpdate(entry.id, { approve: true })}>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(entry.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {isEditing && (
+                  <div className="flex gap-2 pl-7">
+                    <Input
+                      value={draft}
+                      onChange={e => setDrafts(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                      placeholder="Your answer"
+                    />
+                    <Button size="sm" onClick={() => handleUpdate(entry.id, { answer: draft })} disabled={!draft.trim()}>
+                      Save
+                    </Button>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
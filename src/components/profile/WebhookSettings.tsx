@@ -0,0 +1,292 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/Button'
+
+type EventType = 'application.created' | 'application.status_changed' | 'review.created' | 'interview.completed' | 'notification.created'
+
+interface WebhookEndpoint {
+  id: string
+  url: string
+  description: string | null
+  events: EventType[]
+  isActive: boolean
+  createdAt: string
+}
+
+interface WebhookDelivery {
+  id: string
+  endpointId: string
+  event: string
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED'
+  attemptCount: number
+  responseStatus: number | null
+  error: string | null
+  durationMs: number | null
+  replayOfId: string | null
+  createdAt: string
+}
+
+const EVENT_LABELS: Record<EventType, string> = {
+  'application.created': 'Application created',
+  'application.status_changed': 'Application status changed',
+  'review.created': 'Review created',
+  'interview.completed': 'Mock interview completed',
+  'notification.created': 'Notification',
+}
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  SUCCEEDED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+}
+
+export function WebhookSettings() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[] | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [events, setEvents] = useState<EventType[]>(['application.created', 'application.status_changed'])
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+  const [busy, setBusy] = useState<string | null>(null) // What's in flight: 'create', or an endpoint or delivery ID
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const fetchEndpoints = useCallback(async () => {
+    try {
+      const response = await fetch('/api/webhooks')
+      if (response.ok) {
+        const data = await response.json()
+        setEndpoints(data.data.endpoints)
+      }
+    } catch (error) {
+      console.error('Error fetching webhook endpoints:', error)
+    }
+  }, [])
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const response = await fetch('/api/webhooks/deliveries?limit=25')
+      if (response.ok) {
+        const data = await response.json()
+        setDeliveries(data.data.deliveries)
+      }
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchEndpoints()
+    fetchDeliveries()
+  }, [fetchEndpoints, fetchDeliveries])
+
+  const request = async (key: string, input: string, init: RequestInit, onSuccess?: (data: any) => void) => {
+    setBusy(key)
+    setMessage(null)
+    try {
+      const response = await fetch(input, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.details?.[0]?.message || data.error || 'Request failed' })
+        return
+      }
+      onSuccess?.(data)
+      if (data.message) setMessage({ type: data.data?.delivery?.status === 'FAILED' ? 'error' : 'success', text: data.message })
+      await Promise.all([fetchEndpoints(), fetchDeliveries()])
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error: request failed' })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const createEndpoint = () => request('create', '/api/webhooks', {
+    method: 'POST',
+    body: JSON.stringify({ url: url.trim(), description: description.trim() || undefined, events }),
+  }, data => {
+    setNewSecret(data.data.secret)
+    setUrl('')
+    setDescription('')
+  })
+
+  const toggleEvent = (event: EventType, enabled: boolean) => {
+    setEvents(current => enabled ? [...current, event] : current.filter(type => type !== event))
+  }
+
+  if (!endpoints) {
+    return <div className="animate-pulse h-32 bg-gray-100 rounded" />
+  }
+
+  const endpointUrl = (endpointId: string) => endpoints.find(endpoint => endpoint.id === endpointId)?.url || 'Removed endpoint'
+
+  return (
+    <div className="space-y-6">
+      {newSecret && (
+        <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3">
+          <p className="text-sm font-medium text-yellow-900">Signing secret</p>
+          <p className="text-xs text-yellow-800 mb-2">Copy it now; it won&apos;t be shown again.</p>
+          <code className="block break-all text-xs bg-white border border-yellow-200 rounded px-2 py-1">{newSecret}</code>
+          <button type="button" onClick={() => setNewSecret(null)} className="mt-2 text-xs text-yellow-900 underline">
+            I&apos;ve saved it
+          </button>
+        </div>
+      )}
+
+      {endpoints.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {endpoints.map(endpoint => (
+            <li key={endpoint.id} className="p-3 space-y-2">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 break-all">{endpoint.url}</p>
+                  {endpoint.description && <p className="text-xs text-gray-500">{endpoint.description}</p>}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {endpoint.events.map(event => EVENT_LABELS[event]).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-1 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={endpoint.isActive}
+                      disabled={busy !== null}
+                      onChange={e => request(endpoint.id, `/api/webhooks/${endpoint.id}`, {
+                        method: 'PATCH',
+                        body: JSON.stringify({ isActive: e.target.checked }),
+                      })}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    Active
+                  </label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    isLoading={busy === `test:${endpoint.id}`}
+                    disabled={busy !== null}
+                    onClick={() => request(`test:${endpoint.id}`, `/api/webhooks/${endpoint.id}/test`, { method: 'POST' })}
+                  >
+                    Send test
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy !== null}
+                    onClick={() => confirm('Remove this webhook endpoint and its delivery log?')
+                      && request(endpoint.id, `/api/webhooks/${endpoint.id}`, { method: 'DELETE' })}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-3 border border-dashed border-gray-300 rounded-md p-3">
+        <h3 className="text-sm font-medium text-gray-900">Add an endpoint</h3>
+        <input
+          type="url"
+          value={url}
+          placeholder="https://example.com/helpmeapply-webhook"
+          onChange={e => setUrl(e.target.value)}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          value={description}
+          placeholder="Description (optional), e.g. Notion sync"
+          onChange={e => setDescription(e.target.value)}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {(Object.keys(EVENT_LABELS) as EventType[]).map(event => (
+            <label key={event} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={events.includes(event)}
+                onChange={e => toggleEvent(event, e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              {EVENT_LABELS[event]}
+            </label>
+          ))}
+        </div>
+        <Button size="sm" onClick={createEndpoint} isLoading={busy === 'create'} disabled={busy !== null || !url.trim() || events.length === 0}>
+          Add endpoint
+        </Button>
+        <p className="text-xs text-gray-500">
+          Each event is POSTed as JSON with an X-HelpMeApply-Signature header: t=timestamp,v1=HMAC-SHA256 of
+          &quot;timestamp.body&quot; with your signing secret. Failed deliveries are retried with increasing delays for about an hour.
+        </p>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-900">Recent deliveries</h3>
+          <button type="button" onClick={fetchDeliveries} className="text-xs text-blue-600 hover:text-blue-800">
+            Refresh
+          </button>
+        </div>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500">No deliveries yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-3 font-medium">When</th>
+                  <th className="py-2 pr-3 font-medium">Event</th>
+                  <th className="py-2 pr-3 font-medium">Endpoint</th>
+                  <th className="py-2 pr-3 font-medium">Status</th>
+                  <th className="py-2 pr-3 font-medium">Response</th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {deliveries.map(delivery => (
+                  <tr key={delivery.id}>
+                    <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</td>
+                    <td className="py-2 pr-3 text-gray-900 whitespace-nowrap">
+                      {delivery.event}
+                      {delivery.replayOfId && <span className="ml-1 text-gray-400">(replay)</span>}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-600 max-w-[12rem] truncate">{endpointUrl(delivery.endpointId)}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[delivery.status]}`}>{delivery.status.toLowerCase()}</span>
+                      <span className="ml-1 text-gray-400">×{delivery.attemptCount}</span>
+                    </td>
+                    <td className="py-2 pr-3 text-gray-600" title={delivery.error || undefined}>
+                      {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.error ? 'No response' : '—'}
+                      {delivery.durationMs !== null && <span className="text-gray-400"> · {delivery.durationMs}ms</span>}
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        isLoading={busy === delivery.id}
+                        disabled={busy !== null || delivery.status === 'PENDING'}
+                        onClick={() => request(delivery.id, `/api/webhooks/deliveries/${delivery.id}/replay`, { method: 'POST' })}
+                      >
+                        Replay
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
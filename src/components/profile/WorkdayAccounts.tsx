@@ -0,0 +1,165 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Badge } from '@/components/ui/Badge'
+import { KeyRound, Trash2, AlertCircle } from 'lucide-react'
+
+interface WorkdayAccount {
+  id: string
+  tenant: string
+  host: string
+  email: string
+  status: 'ACTIVE' | 'PENDING_VERIFICATION' | 'LOGIN_FAILED'
+  createdByAutomation: boolean
+  lastLoginAt?: string | null
+  lastError?: string | null
+}
+
+const STATUS_BADGES: Record<WorkdayAccount['status'], { label: string; className: string }> = {
+  ACTIVE: { label: 'Active', className: 'bg-green-50 text-green-700 border-green-200' },
+  PENDING_VERIFICATION: { label: 'Verify email', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  LOGIN_FAILED: { label: 'Sign-in failed', className: 'bg-red-50 text-red-700 border-red-200' },
+}
+
+export function WorkdayAccounts() {
+  const [accounts, setAccounts] = useState<WorkdayAccount[]>([])
+  const [tenantUrl, setTenantUrl] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    fetchAccounts()
+  }, [])
+
+  const fetchAccounts = async () => {
+    try {
+      const response = await fetch('/api/workday/accounts')
+      if (response.ok) {
+        const data = await response.json()
+        setAccounts(data.data.accounts)
+      }
+    } catch (error) {
+      console.error('Error fetching Workday accounts:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!tenantUrl.trim() || !email.trim() || !password) return
+
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/workday/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantUrl: tenantUrl.trim(), email: email.trim(), password }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to save Workday account' })
+        return
+      }
+
+      setTenantUrl('')
+      setPassword('')
+      setMessage({ type: 'success', text: data.message })
+      await fetchAccounts()
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error: Failed to save Workday account' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/workday/accounts/${id}`, { method: 'DELETE' })
+      if (response.ok) {
+        setAccounts(prev => prev.filter(account => account.id !== id))
+      }
+    } catch (error) {
+      console.error('Error deleting Workday account:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <Input
+          value={tenantUrl}
+          onChange={e => setTenantUrl(e.target.value)}
+          placeholder="https://company.wd5.myworkdayjobs.com/..."
+        />
+        <Input
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          placeholder="Account email"
+          type="email"
+        />
+        <Input
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          placeholder="Password"
+          type="password"
+        />
+      </div>
+      <Button onClick={handleSave} isLoading={isSaving} disabled={!tenantUrl.trim() || !email.trim() || !password}>
+        Save account
+      </Button>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse h-10 bg-gray-100 rounded" />
+      ) : accounts.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No Workday accounts yet. Auto-apply creates one per employer the first time it applies there, or you can save logins you already have.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {accounts.map(account => (
+            <li key={account.id} className="flex items-center justify-between p-3 gap-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <KeyRound className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{account.tenant}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {account.email}
+                    {account.createdByAutomation && ' · created by auto-apply'}
+                  </p>
+                  {account.lastError && (
+                    <p className="text-xs text-red-600 flex items-center mt-1">
+                      <AlertCircle className="h-3 w-3 mr-1" />
+                      {account.lastError}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={STATUS_BADGES[account.status].className}>
+                  {STATUS_BADGES[account.status].label}
+                </Badge>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(account.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { Button } from './Button'
 import { Logo } from './Logo'
+import { NotificationBell } from '@/components/notifications/NotificationBell'
 import { 
   LayoutDashboard, 
   Briefcase, 
@@ -152,6 +153,7 @@ export function Sidebar({ children }: SidebarProps) {
                   {session.user?.email}
                 </p>
               </div>
+              <NotificationBell />
             </div>
           </div>
         )}
@@ -0,0 +1,95 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { USER_EVENT_TYPES, UserEventPayloads, UserEventType } from '@/lib/userEvents/types'
+
+// One variant per event type, so checking `type` narrows `data`
+export type UserEventMessage = {
+  [T in UserEventType]: { type: T; data: UserEventPayloads[T] }
+}[UserEventType]
+
+interface SharedStream {
+  source: EventSource
+  connected: boolean
+  listeners: Set<(event: UserEventMessage) => void>
+  connectionListeners: Set<(connected: boolean) => void>
+}
+
+// Every component on the page shares one connection
+let sharedStream: SharedStream | null = null
+
+function openSharedStream(): SharedStream {
+  if (sharedStream) return sharedStream
+
+  const stream: SharedStream = {
+    source: new EventSource('/api/events'),
+    connected: false,
+    listeners: new Set(),
+    connectionListeners: new Set(),
+  }
+
+  const setConnected = (connected: boolean) => {
+    stream.connected = connected
+    stream.connectionListeners.forEach(listener => listener(connected))
+  }
+  stream.source.onopen = () => setConnected(true)
+  stream.source.onerror = () => setConnected(false)
+
+  USER_EVENT_TYPES.forEach(type => {
+    stream.source.addEventListener(type, (message: MessageEvent) => {
+      let event: UserEventMessage
+      try {
+        event = { type, data: JSON.parse(message.data) } as UserEventMessage
+      } catch (error) {
+        console.warn(`Failed to parse ${type} event:`, error)
+        return
+      }
+      stream.listeners.forEach(listener => listener(event))
+    })
+  })
+
+  sharedStream = stream
+  return stream
+}
+
+function releaseSharedStream(stream: SharedStream): void {
+  if (stream.listeners.size > 0 || sharedStream !== stream) return
+  stream.source.close()
+  sharedStream = null
+}
+
+/**
+ * Subscribe to the signed-in user's progress events from /api/events.
+ * The browser reconnects on its own after the server closes the stream;
+ * `connected` is false while it can't, so callers can fall back to polling.
+ */
+export function useUserEvents(onEvent: (event: UserEventMessage) => void) {
+  const [connected, setConnected] = useState(false)
+  const handlerRef = useRef(onEvent)
+  handlerRef.current = onEvent
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || typeof EventSource === 'undefined') return
+
+    const stream = openSharedStream()
+    const listener = (event: UserEventMessage) => {
+      try {
+        handlerRef.current(event)
+      } catch (error) {
+        console.warn(`Failed to handle ${event.type} event:`, error)
+      }
+    }
+
+    stream.listeners.add(listener)
+    stream.connectionListeners.add(setConnected)
+    setConnected(stream.connected)
+
+    return () => {
+      stream.listeners.delete(listener)
+      stream.connectionListeners.delete(setConnected)
+      releaseSharedStream(stream)
+    }
+  }, [])
+
+  return { connected }
+}
@@ -0,0 +1,18 @@
+/**
+ * Team access
+ *
+ * Users whose email is listed in ADMIN_EMAILS (comma-separated) can view
+ * operational data across all users, e.g. automation runs when debugging
+ * selector breakage.
+ */
+
+export function isAdminEmail(email?: string | null): boolean {
+  if (!email) return false
+
+  const admins = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+
+  return admins.includes(email.toLowerCase())
+}
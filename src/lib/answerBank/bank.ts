@@ -0,0 +1,244 @@
+/**
+ * Screening Answer Bank
+ *
+ * Per-user store of answers to employer screening questions. Questions found
+ * on a form are matched against the bank by normalized wording; anything new
+ * is drafted by AI and saved back as a pending entry, so once the user
+ * approves it the question is answered automatically everywhere.
+ */
+
+import { prisma } from '../db'
+import { draftScreeningAnswers } from '../openai'
+import { MATCH_THRESHOLD, normalizeQuestion, questionSimilarity } from './normalize'
+import { answerFromProfile } from './profileAnswers'
+import {
+  AnswerQuestionsContext,
+  AnswerQuestionsOptions,
+  AnswerQuestionsResult,
+  NormalizedQuestion,
+  ScreeningAnswerResult,
+  ScreeningQuestion,
+} from './types'
+
+type BankEntry = Awaited<ReturnType<typeof prisma.screeningAnswer.findMany>>[number]
+
+function findBestEntry(
+  normalized: NormalizedQuestion,
+  bank: Array<{ entry: BankEntry; normalized: NormalizedQuestion }>
+): { entry: BankEntry; similarity: number } | null {
+  let best: { entry: BankEntry; similarity: number } | null = null
+
+  for (const candidate of bank) {
+    const similarity = questionSimilarity(normalized, candidate.normalized)
+    if (similarity >= MATCH_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { entry: candidate.entry, similarity }
+    }
+  }
+
+  return best
+}
+
+async function saveNewQuestion(
+  userId: string,
+  question: string,
+  normalized: NormalizedQuestion,
+  answer: string,
+  source: 'USER' | 'AI'
+): Promise<BankEntry> {
+  return prisma.screeningAnswer.upsert({
+    where: { userId_questionKey: { userId, questionKey: normalized.key } },
+    create: {
+      userId,
+      questionKey: normalized.key,
+      question,
+      answer,
+      category: normalized.category,
+      source,
+      status: 'PENDING',
+    },
+    // Never overwrite an entry the user may already have answered
+    update: {},
+  })
+}
+
+/**
+ * Answer screening questions from the user's bank, falling back to the
+ * profile and then to AI drafts that wait in the bank for approval
+ */
+export async function answerScreeningQuestions(
+  userId: string,
+  questions: ScreeningQuestion[],
+  context: AnswerQuestionsContext = {},
+  options: AnswerQuestionsOptions = {}
+): Promise<AnswerQuestionsResult> {
+  const { draftWithAi = true } = options
+  const result: AnswerQuestionsResult = { answers: [], approved: [], pending: [], unanswered: [] }
+
+  const profile = context.profile ?? await prisma.profile.findUnique({
+    where: { userId },
+    include: { skills: true },
+  })
+
+  const entries = await prisma.screeningAnswer.findMany({ where: { userId } })
+  const bank = entries.map(entry => ({ entry, normalized: normalizeQuestion(entry.question) }))
+
+  const seenKeys = new Set<string>()
+  const usedEntryIds: string[] = []
+  const toDraft: Array<{ question: ScreeningQuestion; normalized: NormalizedQuestion }> = []
+
+  const addAnswer = (answer: ScreeningAnswerResult) => {
+    result.answers.push(answer)
+    if (answer.status === 'approved') result.approved.push(answer)
+    else result.pending.push(answer)
+  }
+
+  for (const question of questions) {
+    const normalized = normalizeQuestion(question.question)
+    if (!normalized.key || seenKeys.has(normalized.key)) continue
+    seenKeys.add(normalized.key)
+
+    const match = findBestEntry(normalized, bank)
+
+    if (match && match.entry.answer) {
+      if (match.entry.status === 'APPROVED') usedEntryIds.push(match.entry.id)
+      addAnswer({
+        question: question.question,
+        answer: match.entry.answer,
+        category: normalized.category,
+        source: match.entry.status === 'APPROVED' ? 'bank' : 'ai',
+        status: match.entry.status === 'APPROVED' ? 'approved' : 'pending',
+        bankEntryId: match.entry.id,
+        matchedQuestion: match.entry.question,
+        similarity: match.similarity,
+      })
+      continue
+    }
+
+    const fromProfile = answerFromProfile(normalized, profile)
+    if (fromProfile) {
+      addAnswer({
+        question: question.question,
+        answer: fromProfile.answer,
+        category: normalized.category,
+        source: fromProfile.source,
+        status: 'approved',
+      })
+      continue
+    }
+
+    // Already in the bank waiting for the user to fill it in
+    if (match) {
+      result.unanswered.push(question)
+      continue
+    }
+
+    toDraft.push({ question, normalized })
+  }
+
+  if (toDraft.length > 0) {
+    let drafts: string[] = []
+
+    if (draftWithAi && profile) {
+      try {
+        drafts = await draftScreeningAnswers({
+          profile: {
+            fullName: profile.fullName,
+            yearsExperience: profile.yearsExperience ?? undefined,
+            skills: (profile.skills || []).map((s: any) => ({ name: s.name, yearsUsed: s.yearsUsed ?? undefined })),
+            preferredLocations: JSON.parse(profile.preferredLocations || '[]'),
+            salaryMin: profile.salaryMin ?? undefined,
+            salaryMax: profile.salaryMax ?? undefined,
+          },
+          job: context.job
+            ? { title: context.job.title, company: context.job.company, description: context.job.description || undefined }
+            : undefined,
+          questions: toDraft.map(({ question }) => ({ question: question.question, options: question.options })),
+        })
+      } catch (error) {
+        console.error('Screening answer drafting failed:', error)
+      }
+    }
+
+    for (let i = 0; i < toDraft.length; i++) {
+      const { question, normalized } = toDraft[i]
+      const draft = drafts[i] || ''
+      const entry = await saveNewQuestion(userId, question.question, normalized, draft, draft ? 'AI' : 'USER')
+
+      if (entry.answer) {
+        addAnswer({
+          question: question.question,
+          answer: entry.answer,
+          category: normalized.category,
+          source: 'ai',
+          status: 'pending',
+          bankEntryId: entry.id,
+        })
+      } else {
+        result.unanswered.push(question)
+      }
+    }
+
+    console.log(`📝 Answer bank: saved ${toDraft.length} new screening question(s) for user ${userId}`)
+  }
+
+  if (usedEntryIds.length > 0) {
+    await prisma.screeningAnswer.updateMany({
+      where: { id: { in: usedEntryIds } },
+      data: { timesUsed: { increment: 1 }, lastUsedAt: new Date() },
+    })
+  }
+
+  return result
+}
+
+/**
+ * Save a user-written answer, replacing whatever the bank held for that question
+ */
+export async function saveScreeningAnswer(userId: string, question: string, answer: string) {
+  const normalized = normalizeQuestion(question)
+
+  return prisma.screeningAnswer.upsert({
+    where: { userId_questionKey: { userId, questionKey: normalized.key } },
+    create: {
+      userId,
+      questionKey: normalized.key,
+      question,
+      answer,
+      category: normalized.category,
+      source: 'USER',
+      status: 'APPROVED',
+    },
+    update: {
+      answer,
+      source: 'USER',
+      status: 'APPROVED',
+    },
+  })
+}
+
+/**
+ * Approve pending drafts, e.g. when the user approves an application review
+ * that used them. Entries still without an answer stay pending.
+ */
+export async function approveScreeningAnswers(userId: string, entryIds: string[]): Promise<number> {
+  if (entryIds.length === 0) return 0
+
+  const result = await prisma.screeningAnswer.updateMany({
+    where: {
+      id: { in: entryIds },
+      userId,
+      status: 'PENDING',
+      answer: { not: '' },
+    },
+    data: { status: 'APPROVED' },
+  })
+
+  return result.count
+}
+
+export async function listScreeningAnswers(userId: string) {
+  return prisma.screeningAnswer.findMany({
+    where: { userId },
+    orderBy: [{ status: 'desc' }, { updatedAt: 'desc' }],
+  })
+}
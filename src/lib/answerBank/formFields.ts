@@ -0,0 +1,208 @@
+/**
+ * Screening question form filling
+ *
+ * Shared by the platform automations: read each question block on the page,
+ * look the questions up in the answer bank and fill only approved answers.
+ * Questions without one are left for the user instead of being guessed.
+ */
+
+import { ElementHandle, Page } from 'puppeteer'
+import { answerScreeningQuestions } from './bank'
+import { AnswerQuestionsContext, DECLINE_TO_ANSWER, ScreeningAnswerResult } from './types'
+
+export interface FormQuestionField {
+  container: ElementHandle
+  question: string
+  options: string[]
+  required: boolean
+}
+
+export interface FillQuestionsResult {
+  filled: number
+  pending: number // Answers drafted and waiting for approval in the bank
+  unanswered: string[] // Required questions left empty
+  answered: ScreeningAnswerResult[] // Answers that were put on the form
+}
+
+const DECLINE_PATTERN = /decline|prefer not|not wish|don.?t wish|choose not|not to (say|answer|disclose|self.?identify)/i
+const PLACEHOLDER_OPTION = /^(select|choose|please select|--)/i
+
+/**
+ * Pick the choice that best expresses an answer. Bank answers are stored as
+ * text, so "Yes" has to land on "Yes, I am authorized" and "4" on "3-5 years".
+ */
+export function pickOption(answer: string, options: string[]): string | null {
+  const wanted = answer.trim().toLowerCase()
+  const choices = options.filter(option => option.trim() && !PLACEHOLDER_OPTION.test(option.trim()))
+  if (!wanted || choices.length === 0) return null
+
+  const exact = choices.find(option => option.trim().toLowerCase() === wanted)
+  if (exact) return exact
+
+  if (answer === DECLINE_TO_ANSWER || DECLINE_PATTERN.test(wanted)) {
+    return choices.find(option => DECLINE_PATTERN.test(option)) || null
+  }
+
+  const polarity = /^(yes|no)\b/.exec(wanted)
+  if (polarity) {
+    return choices.find(option => new RegExp(`^${polarity[1]}\\b`, 'i').test(option.trim())) || null
+  }
+
+  const number = /^\d+(\.\d+)?/.exec(wanted)
+  if (number) {
+    const value = parseFloat(number[0])
+    const inRange = choices.find(option => {
+      const range = /(\d+)\s*(?:-|to|–)\s*(\d+)/.exec(option)
+      if (range) return value >= parseInt(range[1], 10) && value <= parseInt(range[2], 10)
+      const atLeast = /(\d+)\s*\+|(?:more than|over|at least)\s*(\d+)/i.exec(option)
+      if (atLeast) return value >= parseInt(atLeast[1] || atLeast[2], 10)
+      return false
+    })
+    if (inRange) return inRange
+  }
+
+  const contained = choices
+    .filter(option => wanted.includes(option.trim().toLowerCase()) || option.toLowerCase().includes(wanted))
+    .sort((a, b) => b.length - a.length)
+  return contained[0] || null
+}
+
+/**
+ * Read question blocks (label plus control) from the page, skipping any that
+ * already hold a value
+ */
+export async function collectQuestionFields(
+  page: Page,
+  containerSelector: string,
+  labelSelector = 'label, legend'
+): Promise<FormQuestionField[]> {
+  const containers = await page.$$(containerSelector)
+  const fields: FormQuestionField[] = []
+
+  for (const container of containers) {
+    const info = await container.evaluate((el: any, labelSel: string) => {
+      const label = el.querySelector(labelSel)
+      const question = (label?.textContent || '').replace(/\*/g, '').replace(/\s+/g, ' ').trim()
+      const control = el.querySelector('input:not([type="hidden"]):not([type="file"]), select, textarea, [aria-haspopup="listbox"]')
+      if (!question || !control) return null
+
+      const textControl = el.querySelector('input[type="text"], input[type="number"], input:not([type]), textarea') as any
+      const checked = el.querySelector('input[type="radio"]:checked, input[type="checkbox"]:checked')
+      const select = el.querySelector('select') as any
+      const hasValue = !!checked || (textControl && textControl.value.trim()) || (select && select.value)
+
+      const options: string[] = []
+      if (select) {
+        for (const option of Array.from(select.options) as any[]) options.push((option.textContent || '').trim())
+      }
+      for (const input of Array.from(el.querySelectorAll('input[type="radio"], input[type="checkbox"]')) as any[]) {
+        const forLabel = input.id ? el.querySelector(`label[for="${input.id}"]`) : null
+        const text = (input.closest('label') || forLabel)?.textContent || input.getAttribute('aria-label') || input.value
+        if (text) options.push(text.replace(/\s+/g, ' ').trim())
+      }
+
+      const required = /\*/.test(label?.textContent || '') ||
+        !!el.querySelector('[required], [aria-required="true"]')
+
+      return { question, options, required, hasValue: !!hasValue }
+    }, labelSelector).catch(() => null)
+
+    if (info && !info.hasValue) {
+      fields.push({ container, question: info.question, options: info.options, required: info.required })
+    }
+  }
+
+  return fields
+}
+
+/**
+ * Put an answer into whatever control the question block uses
+ */
+export async function fillQuestionField(page: Page, field: FormQuestionField, answer: string): Promise<boolean> {
+  const { container } = field
+
+  const select = await container.$('select')
+  if (select) {
+    const choice = pickOption(answer, field.options)
+    if (!choice) return false
+    return select.evaluate((el: any, text: string) => {
+      const option = Array.from(el.options as any[]).find((o: any) => (o.textContent || '').trim() === text) as any
+      if (!option) return false
+      el.value = option.value
+      el.dispatchEvent(new Event('change', { bubbles: true }))
+      return true
+    }, choice)
+  }
+
+  const choiceInputs = await container.$$('input[type="radio"], input[type="checkbox"]')
+  if (choiceInputs.length > 0) {
+    const choice = pickOption(answer, field.options)
+    if (!choice) return false
+    const index = field.options.indexOf(choice)
+    const input = choiceInputs[index]
+    if (!input) return false
+    await input.evaluate((el: any) => el.click())
+    return true
+  }
+
+  const listbox = await container.$('[aria-haspopup="listbox"]')
+  if (listbox) {
+    await listbox.click()
+    const options = await page.waitForSelector('[role="option"]', { timeout: 5000 }).then(() => page.$$('[role="option"]')).catch(() => [])
+    const texts = await Promise.all(options.map(option => option.evaluate((el: any) => (el.textContent || '').trim())))
+    const choice = pickOption(answer, texts)
+    if (!choice) {
+      await page.keyboard.press('Escape')
+      return false
+    }
+    await options[texts.indexOf(choice)].click()
+    return true
+  }
+
+  const textInput = await container.$('textarea, input[type="text"], input[type="number"], input:not([type])')
+  if (textInput) {
+    const isNumber = await textInput.evaluate((el: any) => el.type === 'number')
+    const value = isNumber ? (/\d+(\.\d+)?/.exec(answer)?.[0] || '') : answer
+    if (!value) return false
+    await textInput.click()
+    await textInput.type(value, { delay: 20 })
+    return true
+  }
+
+  return false
+}
+
+/**
+ * Fill every unanswered screening question in the matched blocks from the
+ * user's answer bank
+ */
+export async function fillScreeningQuestions(
+  page: Page,
+  userId: string,
+  containerSelector: string,
+  context: AnswerQuestionsContext = {},
+  labelSelector?: string
+): Promise<FillQuestionsResult> {
+  const fields = await collectQuestionFields(page, containerSelector, labelSelector)
+  if (fields.length === 0) return { filled: 0, pending: 0, unanswered: [], answered: [] }
+
+  const answers = await answerScreeningQuestions(
+    userId,
+    fields.map(field => ({ question: field.question, options: field.options, required: field.required })),
+    context
+  )
+
+  const answered: ScreeningAnswerResult[] = []
+  const unanswered: string[] = []
+
+  for (const field of fields) {
+    const answer = answers.approved.find(a => a.question === field.question)
+    const ok = answer ? await fillQuestionField(page, field, answer.answer).catch(() => false) : false
+
+    if (ok && answer) answered.push(answer)
+    else if (field.required) unanswered.push(field.question)
+  }
+
+  console.log(`📝 Screening questions: ${answered.length}/${fields.length} filled, ${answers.pending.length} awaiting approval`)
+  return { filled: answered.length, pending: answers.pending.length, unanswered, answered }
+}
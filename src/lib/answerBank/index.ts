@@ -0,0 +1,35 @@
+/**
+ * Answer Bank Module Main Export
+ *
+ * Per-user answers to application screening questions (work authorization,
+ * sponsorship, notice period, relocation, salary, years with X, EEO), matched
+ * to the wording on each form and grown with AI drafts the user approves.
+ */
+
+export type {
+  ScreeningQuestionCategory,
+  ScreeningQuestion,
+  NormalizedQuestion,
+  ScreeningAnswerResult,
+  AnswerQuestionsContext,
+  AnswerQuestionsOptions,
+  AnswerQuestionsResult,
+} from './types'
+export { DECLINE_TO_ANSWER, COMMON_SCREENING_QUESTIONS } from './types'
+
+export {
+  normalizeQuestion,
+  detectCategory,
+  questionSimilarity,
+  MATCH_THRESHOLD,
+} from './normalize'
+
+export {
+  answerScreeningQuestions,
+  saveScreeningAnswer,
+  approveScreeningAnswers,
+  listScreeningAnswers,
+} from './bank'
+
+export type { FormQuestionField, FillQuestionsResult } from './formFields'
+export { pickOption, collectQuestionFields, fillQuestionField, fillScreeningQuestions } from './formFields'
@@ -0,0 +1,207 @@
+/**
+ * Screening Question Normalization
+ *
+ * Employers word the same question many ways ("Will you now or in the future
+ * require visa sponsorship?" / "Do you need a sponsor to work here?"), so
+ * questions are reduced to a canonical token list, a category and, where it
+ * matters, a subject before being compared with the answer bank.
+ */
+
+import { NormalizedQuestion, ScreeningQuestionCategory } from './types'
+
+// Phrases rewritten before tokenizing, longest first
+const PHRASE_SYNONYMS: Array<[RegExp, string]> = [
+  // Plain "us" is left alone, it's far more often the pronoun
+  [/\bu\.s\.(a\.)?/g, 'usa '],
+  [/\bunited states( of america)?\b/g, 'usa'],
+  [/\bunited kingdom\b|\bgreat britain\b/g, 'uk'],
+  [/\beuropean union\b/g, 'eu'],
+  [/\blegally (authori[sz]ed|eligible|entitled|permitted)\b/g, 'authorized'],
+  [/\b(eligible|entitled|permitted|able) to work\b/g, 'authorized work'],
+  [/\bright to work\b/g, 'authorized work'],
+  [/\bwork (permit|visa)\b/g, 'sponsorship'],
+  [/\bnotice period\b/g, 'notice'],
+  [/\b(start date|available to start|earliest start|soonest you can start)\b/g, 'notice'],
+  [/\b(desired|expected|target) (salary|compensation|pay)\b/g, 'salary'],
+  [/\bsalary (expectations?|requirements?)\b/g, 'salary'],
+  [/\bcompensation (expectations?|requirements?)\b/g, 'salary'],
+  [/\bprotected veteran\b/g, 'veteran'],
+  [/\bhispanic or latino\b/g, 'ethnicity'],
+]
+
+const TOKEN_SYNONYMS: Record<string, string> = {
+  authorised: 'authorized',
+  authorization: 'authorized',
+  authorisation: 'authorized',
+  visa: 'sponsorship',
+  sponsor: 'sponsorship',
+  sponsored: 'sponsorship',
+  sponsoring: 'sponsorship',
+  need: 'require',
+  needs: 'require',
+  requires: 'require',
+  required: 'require',
+  yrs: 'years',
+  year: 'years',
+  relocating: 'relocate',
+  relocation: 'relocate',
+  compensation: 'salary',
+  pay: 'salary',
+  wage: 'salary',
+  race: 'ethnicity',
+  ethnic: 'ethnicity',
+  sex: 'gender',
+  veterans: 'veteran',
+  disabled: 'disability',
+  disabilities: 'disability',
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by', 'as',
+  'do', 'does', 'you', 'your', 'are', 'is', 'be', 'will', 'would', 'can', 'could', 'have',
+  'has', 'this', 'that', 'these', 'any', 'please', 'if', 'our', 'we', 'us', 'what', 'how',
+  'many', 'which', 'who', 'currently', 'now', 'future', 'position', 'role', 'job', 'company',
+  'select', 'indicate', 'provide', 'describe', 'answer', 'following', 'applicable', 'here',
+])
+
+const NEGATIONS = new Set(['not', 'without', 'no', 'never', 'unable'])
+
+// Words that carry the category but not the subject of a "years with X" question
+const YEARS_FILLER = new Set([
+  'years', 'experience', 'professional', 'working', 'work', 'hands', 'relevant', 'total',
+  'industry', 'using', 'overall', 'commercial', 'proven', 'minimum', 'least',
+])
+
+const COUNTRIES = ['usa', 'uk', 'eu', 'canada', 'australia', 'india', 'germany', 'france', 'ireland', 'netherlands', 'singapore']
+
+const CATEGORY_RULES: Array<[ScreeningQuestionCategory, RegExp]> = [
+  // Sponsorship before authorization: sponsorship questions usually mention both
+  ['SPONSORSHIP', /\bsponsorship\b/],
+  ['WORK_AUTHORIZATION', /\bauthorized\b|\bcitizen(ship)?\b|\bpermanent resident\b/],
+  ['NOTICE_PERIOD', /\bnotice\b/],
+  ['RELOCATION', /\brelocate\b|\bcommute\b/],
+  ['SALARY_EXPECTATION', /\bsalary\b/],
+  ['YEARS_EXPERIENCE', /\byears\b.*\bexperience\b|\bexperience\b.*\byears\b|\bhow long\b/],
+  ['GENDER', /\bgender\b|\bpronouns?\b/],
+  ['RACE_ETHNICITY', /\bethnicity\b/],
+  ['VETERAN_STATUS', /\bveteran\b|\bmilitary\b/],
+  ['DISABILITY_STATUS', /\bdisability\b/],
+]
+
+/**
+ * Categories where questions usually ask the same thing, so a little shared
+ * wording is enough once category, subject and polarity agree
+ */
+export const SINGLE_INTENT_CATEGORIES: ScreeningQuestionCategory[] = [
+  'WORK_AUTHORIZATION',
+  'SPONSORSHIP',
+  'NOTICE_PERIOD',
+  'RELOCATION',
+  'SALARY_EXPECTATION',
+  'GENDER',
+  'RACE_ETHNICITY',
+  'VETERAN_STATUS',
+  'DISABILITY_STATUS',
+]
+
+export const EEO_CATEGORIES: ScreeningQuestionCategory[] = [
+  'GENDER',
+  'RACE_ETHNICITY',
+  'VETERAN_STATUS',
+  'DISABILITY_STATUS',
+]
+
+function canonicalText(question: string): string {
+  let text = ` ${question.toLowerCase().replace(/[’']/g, '')} `
+    .replace(/[*()[\]{}:;,!"]/g, ' ')
+    .replace(/\s+/g, ' ')
+
+  for (const [pattern, replacement] of PHRASE_SYNONYMS) {
+    text = text.replace(pattern, replacement)
+  }
+
+  return text.replace(/[?.\/\\-]/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .split(' ')
+    .map(token => TOKEN_SYNONYMS[token] || token)
+    .filter(Boolean)
+}
+
+export function detectCategory(text: string): ScreeningQuestionCategory {
+  for (const [category, pattern] of CATEGORY_RULES) {
+    if (pattern.test(text)) return category
+  }
+  return 'OTHER'
+}
+
+function detectSubject(category: ScreeningQuestionCategory, tokens: string[]): string | undefined {
+  if (category === 'WORK_AUTHORIZATION' || category === 'SPONSORSHIP') {
+    return COUNTRIES.find(country => tokens.includes(country))
+  }
+
+  // What they earn now, not what they'd like to
+  if (category === 'SALARY_EXPECTATION') {
+    return tokens.includes('current') ? 'current' : undefined
+  }
+
+  if (category === 'YEARS_EXPERIENCE') {
+    const subject = tokens.filter(token => !STOP_WORDS.has(token) && !YEARS_FILLER.has(token) && !/^\d+$/.test(token))
+    return subject.length > 0 ? subject.join(' ') : undefined
+  }
+
+  return undefined
+}
+
+export function normalizeQuestion(question: string): NormalizedQuestion {
+  const text = canonicalText(question)
+  const allTokens = tokenize(text)
+  const category = detectCategory(allTokens.join(' '))
+  const tokens = allTokens.filter((token, i) => !STOP_WORDS.has(token) && allTokens.indexOf(token) === i)
+
+  return {
+    key: tokens.join(' '),
+    tokens,
+    category,
+    subject: detectSubject(category, allTokens),
+    negated: allTokens.some(token => NEGATIONS.has(token)),
+  }
+}
+
+// Share of wording two single-intent questions need in common before the
+// category counts: "Willing to relocate?" and "Able to commute to our
+// office?" are both RELOCATION but ask different things
+const MIN_TOKEN_OVERLAP = 0.3
+
+/**
+ * Similarity between two normalized questions, 0-1. Questions in different
+ * categories, about different subjects or with opposite polarity never match.
+ */
+export function questionSimilarity(a: NormalizedQuestion, b: NormalizedQuestion): number {
+  if (a.key === b.key) return 1
+  if (a.category !== b.category) return 0
+  if (a.negated !== b.negated) return 0
+  if ((a.subject || b.subject) && a.subject !== b.subject) {
+    // "Authorized to work?" still matches "Authorized to work in the US?"
+    const countryQuestion = a.category === 'WORK_AUTHORIZATION' || a.category === 'SPONSORSHIP'
+    if (!countryQuestion || (a.subject && b.subject)) return 0
+  }
+
+  const setA = new Set(a.tokens)
+  const setB = new Set(b.tokens)
+  let intersection = 0
+  setA.forEach(token => {
+    if (setB.has(token)) intersection++
+  })
+  const union = setA.size + setB.size - intersection
+  const jaccard = union === 0 ? 0 : intersection / union
+
+  // The subject already pins down a years question
+  if (a.category === 'YEARS_EXPERIENCE') return 0.6 + 0.4 * jaccard
+  if (SINGLE_INTENT_CATEGORIES.includes(a.category) && jaccard >= MIN_TOKEN_OVERLAP) return 0.6 + 0.4 * jaccard
+  return jaccard
+}
+
+export const MATCH_THRESHOLD = 0.6
@@ -0,0 +1,47 @@
+/**
+ * Answers derived from the profile
+ *
+ * These are computed on every application rather than stored in the bank,
+ * so they follow the profile when it changes.
+ */
+
+import { EEO_CATEGORIES } from './normalize'
+import { DECLINE_TO_ANSWER, NormalizedQuestion } from './types'
+
+export function answerFromProfile(
+  normalized: NormalizedQuestion,
+  profile: any
+): { answer: string; source: 'profile' | 'default' } | null {
+  // EEO questions are voluntary; declining is always a valid answer
+  if (EEO_CATEGORIES.includes(normalized.category)) {
+    return { answer: DECLINE_TO_ANSWER, source: 'default' }
+  }
+
+  if (!profile) return null
+
+  switch (normalized.category) {
+    case 'YEARS_EXPERIENCE': {
+      if (!normalized.subject) {
+        return profile.yearsExperience != null
+          ? { answer: String(profile.yearsExperience), source: 'profile' }
+          : null
+      }
+
+      const subject = normalized.subject
+      const skill = (profile.skills || []).find((s: any) => {
+        const name = String(s.name).toLowerCase()
+        return s.yearsUsed != null && (name === subject || name.replace(/[^a-z0-9+#]/g, '') === subject.replace(/\s+/g, ''))
+      })
+      return skill ? { answer: String(skill.yearsUsed), source: 'profile' } : null
+    }
+
+    case 'SALARY_EXPECTATION': {
+      // Profile range is yearly in the base currency; ask for the top of it
+      const expectation = profile.salaryMax || profile.salaryMin
+      return expectation ? { answer: String(expectation), source: 'profile' } : null
+    }
+
+    default:
+      return null
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Answer Bank Types
+ */
+
+export type ScreeningQuestionCategory =
+  | 'WORK_AUTHORIZATION'
+  | 'SPONSORSHIP'
+  | 'NOTICE_PERIOD'
+  | 'RELOCATION'
+  | 'SALARY_EXPECTATION'
+  | 'YEARS_EXPERIENCE'
+  | 'GENDER'
+  | 'RACE_ETHNICITY'
+  | 'VETERAN_STATUS'
+  | 'DISABILITY_STATUS'
+  | 'OTHER'
+
+// A question as found on an application form
+export interface ScreeningQuestion {
+  question: string
+  options?: string[] // Choices for selects and radio groups
+  required?: boolean
+}
+
+export interface NormalizedQuestion {
+  key: string // Normalized wording, unique per user in the bank
+  tokens: string[]
+  category: ScreeningQuestionCategory
+  subject?: string // Skill for "years with X", country for work authorization
+  negated: boolean // "without sponsorship" flips the expected answer
+}
+
+export interface ScreeningAnswerResult {
+  question: string
+  answer: string
+  category: ScreeningQuestionCategory
+  // bank: approved bank entry, profile: derived from the profile,
+  // default: safe fallback (e.g. declining EEO questions), ai: pending AI draft
+  source: 'bank' | 'profile' | 'default' | 'ai'
+  status: 'approved' | 'pending'
+  bankEntryId?: string
+  matchedQuestion?: string // Bank wording the question was matched to
+  similarity?: number
+}
+
+export interface AnswerQuestionsContext {
+  job?: {
+    title: string
+    company: string
+    description?: string | null
+  }
+  profile?: any // Profile with skills; loaded from the user when omitted
+}
+
+export interface AnswerQuestionsOptions {
+  draftWithAi?: boolean // Draft answers for unmatched questions (default true)
+}
+
+export interface AnswerQuestionsResult {
+  answers: ScreeningAnswerResult[] // Every question that has an answer, approved or pending
+  approved: ScreeningAnswerResult[] // Safe to put on a form without asking
+  pending: ScreeningAnswerResult[] // Drafts waiting in the bank for approval
+  unanswered: ScreeningQuestion[] // No match and no draft; saved to the bank for the user to fill in
+}
+
+export const DECLINE_TO_ANSWER = 'I do not wish to answer'
+
+// Asked by most employers; answered up front for every application review
+export const COMMON_SCREENING_QUESTIONS: ScreeningQuestion[] = [
+  { question: 'Are you legally authorized to work in this country?', options: ['Yes', 'No'] },
+  { question: 'Will you now or in the future require visa sponsorship?', options: ['Yes', 'No'] },
+  { question: 'What is your notice period?' },
+  { question: 'Are you willing to relocate?', options: ['Yes', 'No'] },
+  { question: 'What are your salary expectations?' },
+  { question: 'How many years of professional experience do you have?' },
+]
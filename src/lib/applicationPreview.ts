@@ -0,0 +1,70 @@
+/**
+ * Dry-run application previews
+ *
+ * A dry run goes through every step of an application except the final
+ * submit click and reports what would have been sent instead. Users switch
+ * it on in their auto-apply settings while they build trust in automation;
+ * any single request can also ask for one, e.g. to check a selector change.
+ */
+
+import { prisma } from './db'
+
+export interface PreviewField {
+  label: string
+  value: string
+  selector?: string // Where the value was typed
+}
+
+export interface PreviewAnswer {
+  question: string
+  answer: string
+  source: string // bank, profile, default or ai, as in ScreeningAnswerResult
+}
+
+export interface ApplicationPreview {
+  platform: string
+  jobUrl?: string
+  fields: PreviewField[]
+  resume?: {
+    fileName: string
+    url: string
+    selector?: string
+  }
+  coverLetter?: string
+  answers: PreviewAnswer[]
+  missing: string[] // Fields the form asked for but automation couldn't find
+  submitSelector?: string // Button that would have been clicked
+}
+
+export function createApplicationPreview(platform: string, jobUrl?: string): ApplicationPreview {
+  return { platform, jobUrl, fields: [], answers: [], missing: [] }
+}
+
+export function parseApplicationPreview(value: string | null): ApplicationPreview | null {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch (error) {
+    return null
+  }
+}
+
+export function resumeFileName(resumeUrl: string): string {
+  try {
+    const name = new URL(resumeUrl).pathname.split('/').pop()
+    return name ? decodeURIComponent(name) : 'resume.pdf'
+  } catch (error) {
+    return 'resume.pdf'
+  }
+}
+
+/**
+ * Whether the user has dry-run mode switched on in their auto-apply settings
+ */
+export async function isDryRunEnabled(userId: string): Promise<boolean> {
+  const profile = await prisma.profile.findUnique({
+    where: { userId },
+    select: { autoApplySettings: { select: { dryRun: true } } },
+  })
+  return profile?.autoApplySettings?.dryRun ?? false
+}
@@ -0,0 +1,251 @@
+/**
+ * Queued application submissions
+ *
+ * Auto-applies from job scans and approved application reviews don't drive
+ * a browser themselves. They enqueue a submit_application job, and the queue
+ * worker submits it here through the shared browser pool, then records the
+ * outcome the same way a direct automated apply does.
+ *
+ * A submitted form can't be taken back, so nothing after the submit click
+ * is retried: a failure there fails the job for good, and a replayed job
+ * records the earlier run's submission instead of applying again.
+ */
+
+import { ApplicationReview, Job } from '@prisma/client'
+import { prisma } from './db'
+import { getJobSourceInfo, JobSourceInfo } from './jobSourceDetector'
+import { ensureCanonicalJobId, findExistingApplication } from './jobIdentity'
+import { pickSalaryFields } from './salary'
+import { linkRunToApplication } from './automationRuns'
+import { consumeAutoApplication } from './plans/enforcement'
+import { isDryRunEnabled } from './applicationPreview'
+import { publishUserEvent } from './userEvents/createEventBus'
+import { dispatchNotification } from './notifications/dispatch'
+import { ApplicationResult, jobApplicationAutomation } from './jobApplicationAutomation'
+import { emitWebhookEvent } from './webhooks/deliveries'
+
+/**
+ * The application went in, but recording it failed. Never retried, since
+ * a retry would submit the form a second time.
+ */
+export class SubmissionNotRecordedError extends Error {
+  constructor(public jobId: string, cause: unknown) {
+    super(`Application was submitted but recording it failed: ${cause instanceof Error ? cause.message : cause}`)
+    this.name = 'SubmissionNotRecordedError'
+  }
+}
+
+export interface SubmitApplicationPayload {
+  userId: string
+  jobId: string
+  reviewId?: string // Approved ApplicationReview being submitted
+  matchScore?: number
+  coverLetter?: string
+  dryRun?: boolean // Preview only, whatever the user's dry-run setting
+}
+
+/**
+ * Run the application and record it. Returns null when there was nothing
+ * to submit because the role was already applied to.
+ */
+export async function submitQueuedApplication(payload: SubmitApplicationPayload): Promise<ApplicationResult | null> {
+  const [job, profile, review] = await Promise.all([
+    prisma.job.findUnique({ where: { id: payload.jobId } }),
+    prisma.profile.findUnique({ where: { userId: payload.userId } }),
+    payload.reviewId
+      ? prisma.applicationReview.findFirst({ where: { id: payload.reviewId, userId: payload.userId } })
+      : null,
+  ])
+
+  if (!job || !job.url || !profile) {
+    throw new Error('Job or profile not found')
+  }
+
+  const canonicalJobId = await ensureCanonicalJobId(job)
+  if (await findExistingApplication(payload.userId, job, canonicalJobId)) {
+    console.log(`⏭️ Already applied to ${job.title} at ${job.company}, skipping queued submission`)
+    if (review && !payload.dryRun) await markReviewSubmitted(review.id, review.notificationId)
+    return null
+  }
+
+  const sourceInfo = getJobSourceInfo(job.url)
+  const resumeUrl = review?.customizedResume?.startsWith('http') ? review.customizedResume : profile.resumeUrl
+  const coverLetter = payload.coverLetter ?? review?.coverLetter ?? undefined
+
+  let result: ApplicationResult
+  const submittedRun = payload.dryRun ? null : await findUnrecordedSubmission(payload.userId, job.id)
+  if (submittedRun) {
+    console.log(`♻️ Recording earlier submission ${submittedRun.id} to ${job.title} at ${job.company} instead of applying again`)
+    result = {
+      success: true,
+      platform: submittedRun.platform,
+      method: 'automated',
+      confirmationId: submittedRun.confirmationId || undefined,
+      runId: submittedRun.id,
+    }
+  } else {
+    // Dry-run mode may have been switched on after the job was queued
+    const dryRun = payload.dryRun || await isDryRunEnabled(payload.userId)
+
+    result = await jobApplicationAutomation.applyToJob(job.url, sourceInfo.source.toLowerCase(), {
+      userId: payload.userId,
+      jobId: job.id,
+      job: { title: job.title, company: job.company, description: job.description },
+      fullName: profile.fullName,
+      email: profile.email,
+      phone: profile.mobile || '',
+      resumeUrl: resumeUrl || '',
+      coverLetter,
+      linkedinProfile: profile.linkedinUrl || undefined,
+      dryRun,
+    })
+
+    if (dryRun) {
+      console.log(`🧪 Dry run for ${job.title} at ${job.company}: ${result.method === 'dry_run' ? 'stopped before submit' : result.error}`)
+      await publishUserEvent(payload.userId, 'application.previewed', {
+        jobId: job.id,
+        reviewId: review?.id,
+        runId: result.runId,
+        title: job.title,
+        company: job.company,
+        preview: result.preview,
+        error: result.method === 'dry_run' ? undefined : result.error,
+      })
+      return result
+    }
+  }
+
+  const submitted = result.success && result.method === 'automated'
+  try {
+    await recordSubmission(payload, job, review, result, { canonicalJobId, resumeUrl, coverLetter, sourceInfo })
+  } catch (error) {
+    if (submitted) throw new SubmissionNotRecordedError(job.id, error)
+    throw error
+  }
+  return result
+}
+
+/**
+ * The latest run that got through the submit click for this job without
+ * an application being recorded for it
+ */
+async function findUnrecordedSubmission(userId: string, jobId: string) {
+  return prisma.automationRun.findFirst({
+    where: { userId, jobId, status: 'SUCCEEDED', applicationId: null },
+    orderBy: { startedAt: 'desc' },
+  })
+}
+
+async function recordSubmission(
+  payload: SubmitApplicationPayload,
+  job: Job,
+  review: ApplicationReview | null,
+  result: ApplicationResult,
+  context: { canonicalJobId: string; resumeUrl: string | null; coverLetter?: string; sourceInfo: JobSourceInfo }
+): Promise<void> {
+  const { canonicalJobId, resumeUrl, coverLetter, sourceInfo } = context
+  const submitted = result.success && result.method === 'automated'
+
+  // The application record is what stops a later attempt from applying again,
+  // so it's written before anything else
+  const application = await prisma.application.create({
+    data: {
+      userId: payload.userId,
+      jobTitle: job.title,
+      company: job.company,
+      jobDescription: job.description,
+      jobUrl: job.url,
+      location: job.location,
+      salaryRange: job.salaryRange,
+      ...pickSalaryFields(job),
+      employmentType: job.employmentType,
+      status: submitted ? 'APPLIED' : 'REVIEWING',
+      customizedResumeUrl: resumeUrl || '',
+      coverLetter: coverLetter || '',
+      matchScore: payload.matchScore ?? review?.matchScore ?? job.matchScore,
+      source: `${submitted ? 'automated' : 'manual'}_${sourceInfo.source.toLowerCase()}`,
+      sourceJobId: job.sourceJobId,
+      canonicalJobId,
+      notes: submitted
+        ? `Auto-applied via ${sourceInfo.displayName} application form`
+        : `Auto-apply to ${sourceInfo.displayName} failed - manual application required. ${result.error || ''}`.trim(),
+      resumeCustomizationData: JSON.stringify({
+        automationResult: result,
+        appliedAt: new Date().toISOString()
+      })
+    },
+  })
+  await emitWebhookEvent(payload.userId, 'application.created', { application })
+
+  if (submitted && !(await consumeAutoApplication(payload.userId))) {
+    console.error('Failed to consume auto application quota after successful automation')
+  }
+
+  if (result.runId) {
+    await linkRunToApplication(result.runId, application.id)
+  }
+
+  await prisma.job.update({
+    where: { id: job.id },
+    data: { appliedTo: submitted },
+  })
+
+  // A failed review submission stays APPROVED; the application record asks for a manual apply
+  if (review && submitted) {
+    await markReviewSubmitted(review.id, review.notificationId)
+  }
+
+  console.log(submitted
+    ? `✅ Submitted queued application to ${job.title} at ${job.company}`
+    : `⚠️ Queued application to ${job.title} at ${job.company} needs a manual apply`)
+
+  const outcome = { jobId: job.id, applicationId: application.id, title: job.title, company: job.company }
+  if (submitted) {
+    await publishUserEvent(payload.userId, 'application.submitted', outcome)
+    await dispatchNotification(payload.userId, 'auto_applied', {
+      applicationId: application.id,
+      job: { id: job.id, title: job.title, company: job.company, location: job.location || undefined },
+      matchScore: payload.matchScore,
+    }, { dedupeKey: `auto_applied:${application.id}` })
+  } else {
+    const error = result.error || 'Automated submission failed; apply manually'
+    await publishUserEvent(payload.userId, 'application.failed', { ...outcome, error, willRetry: false })
+    await notifyAutomationFailed(payload.userId, job.id, error, application.id)
+  }
+}
+
+/**
+ * Tell the user an automatic application won't go through, over whichever
+ * channels they route automation failures to
+ */
+export async function notifyAutomationFailed(userId: string, jobId: string, error: string, applicationId?: string): Promise<void> {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: { id: true, title: true, company: true, location: true },
+  })
+  if (!job) return
+
+  await dispatchNotification(userId, 'automation_failed', {
+    applicationId,
+    job: { id: job.id, title: job.title, company: job.company, location: job.location || undefined },
+    error,
+  }, { dedupeKey: `automation_failed:${applicationId || jobId}` })
+}
+
+async function markReviewSubmitted(reviewId: string, notificationId: string): Promise<void> {
+  await prisma.jobNotification.update({
+    where: { id: notificationId },
+    data: {
+      status: 'APPLIED',
+      respondedAt: new Date(),
+    },
+  })
+
+  await prisma.applicationReview.update({
+    where: { id: reviewId },
+    data: {
+      status: 'SUBMITTED',
+      submittedAt: new Date(),
+    },
+  })
+}
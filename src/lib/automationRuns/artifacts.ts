@@ -0,0 +1,80 @@
+/**
+ * Automation run artifacts (screenshots and DOM snapshots)
+ *
+ * Stored in S3 when it's configured, otherwise on local disk under
+ * AUTOMATION_ARTIFACTS_DIR. Keys carry their backend ("s3:" / "local:") so
+ * artifacts stay readable if the configuration changes later.
+ */
+
+import { ArtifactKind } from './types'
+
+const CONTENT_TYPES: Record<ArtifactKind, string> = {
+  screenshot: 'image/jpeg',
+  html: 'text/html; charset=utf-8',
+}
+
+const EXTENSIONS: Record<ArtifactKind, string> = {
+  screenshot: 'jpg',
+  html: 'html',
+}
+
+function s3Configured(): boolean {
+  return !!(process.env.AWS_S3_BUCKET && process.env.AWS_ACCESS_KEY_ID)
+}
+
+async function localPath(objectKey: string): Promise<string> {
+  const path = await import('path')
+  const os = await import('os')
+  const baseDir = process.env.AUTOMATION_ARTIFACTS_DIR || path.join(os.tmpdir(), 'helpmeapply-artifacts')
+  const resolved = path.resolve(baseDir, objectKey)
+
+  // Keys come from the database; never let one escape the artifacts directory
+  if (!resolved.startsWith(path.resolve(baseDir) + path.sep)) {
+    throw new Error(`Invalid artifact key: ${objectKey}`)
+  }
+  return resolved
+}
+
+export function artifactContentType(kind: ArtifactKind): string {
+  return CONTENT_TYPES[kind]
+}
+
+export async function saveArtifact(
+  runPath: string,
+  name: string,
+  kind: ArtifactKind,
+  body: Buffer
+): Promise<string> {
+  const objectKey = `automation-runs/${runPath}/${name}.${EXTENSIONS[kind]}`
+
+  if (s3Configured()) {
+    const { putPrivateObject } = await import('../s3')
+    await putPrivateObject(objectKey, body, CONTENT_TYPES[kind])
+    return `s3:${objectKey}`
+  }
+
+  const fs = await import('fs/promises')
+  const path = await import('path')
+  const filePath = await localPath(objectKey)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, body)
+  return `local:${objectKey}`
+}
+
+export async function readArtifact(key: string): Promise<Buffer> {
+  const separator = key.indexOf(':')
+  const backend = key.substring(0, separator)
+  const objectKey = key.substring(separator + 1)
+
+  if (backend === 's3') {
+    const { getPrivateObject } = await import('../s3')
+    return getPrivateObject(objectKey)
+  }
+
+  if (backend === 'local') {
+    const fs = await import('fs/promises')
+    return fs.readFile(await localPath(objectKey))
+  }
+
+  throw new Error(`Unknown artifact storage: ${backend}`)
+}
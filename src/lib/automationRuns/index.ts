@@ -0,0 +1,21 @@
+/**
+ * Automation Runs Module Main Export
+ *
+ * Step-by-step records of browser automation runs (navigate, click, fill,
+ * upload, submit) with screenshots and sanitized DOM snapshots, viewable by
+ * the user from the application and by the team when selectors break.
+ */
+
+export type {
+  AutomationStepAction,
+  AutomationStepStatus,
+  AutomationRunStatus,
+  StartRunParams,
+  RecordStepOptions,
+  RunOutcome,
+  ArtifactKind,
+} from './types'
+
+export { AutomationRecorder, linkRunToApplication } from './recorder'
+export { sanitizeHtml } from './sanitize'
+export { saveArtifact, readArtifact, artifactContentType } from './artifacts'
@@ -0,0 +1,171 @@
+/**
+ * Automation Run Recorder
+ *
+ * Persists an AutomationRun and an ordered step trail as the automation
+ * drives the browser. Every step captures a screenshot and a sanitized DOM
+ * snapshot so a broken selector can be diagnosed from the record alone.
+ * Recording is best-effort: a storage or database error is logged and never
+ * fails the application itself.
+ */
+
+import { Page } from 'puppeteer'
+import { prisma } from '../db'
+import { saveArtifact } from './artifacts'
+import { sanitizeHtml } from './sanitize'
+import { AutomationStepAction, RecordStepOptions, RunOutcome, StartRunParams } from './types'
+
+const SCREENSHOT_QUALITY = 60
+
+export class AutomationRecorder {
+  private stepIndex = 0
+  private lastStepAt: number
+  private readonly startedAt: number
+
+  private constructor(
+    readonly runId: string,
+    private readonly userId: string
+  ) {
+    this.startedAt = Date.now()
+    this.lastStepAt = this.startedAt
+  }
+
+  /**
+   * Create the run record. Returns null when it can't be stored, in which
+   * case the automation simply runs unrecorded.
+   */
+  static async start(params: StartRunParams): Promise<AutomationRecorder | null> {
+    try {
+      const run = await prisma.automationRun.create({
+        data: {
+          userId: params.userId,
+          platform: params.platform,
+          jobUrl: params.jobUrl,
+          jobId: params.jobId,
+          applicationId: null,
+          status: 'RUNNING',
+        },
+      })
+      console.log(`🎬 Recording automation run ${run.id}`)
+      return new AutomationRecorder(run.id, params.userId)
+    } catch (error) {
+      console.error('Automation run start error:', error)
+      return null
+    }
+  }
+
+  async step(
+    page: Page,
+    action: AutomationStepAction,
+    description: string,
+    options: RecordStepOptions = {}
+  ): Promise<void> {
+    const index = this.stepIndex++
+    const now = Date.now()
+    const durationMs = now - this.lastStepAt
+    this.lastStepAt = now
+
+    try {
+      const { screenshotKey, htmlKey } = await this.capture(page, index, options.fullPage)
+
+      await prisma.automationRunStep.create({
+        data: {
+          runId: this.runId,
+          index,
+          action,
+          description,
+          selector: options.selector,
+          status: options.status || 'OK',
+          error: options.error,
+          pageUrl: page.isClosed() ? undefined : page.url(),
+          screenshotKey,
+          htmlKey,
+          durationMs,
+        },
+      })
+    } catch (error) {
+      console.error(`Automation run step error (${description}):`, error)
+    }
+  }
+
+  /**
+   * Note which selector pack drove the run, so a failure can be traced to
+   * the pack version that missed
+   */
+  async useSelectorPack(pack: { platform: string; version: number }): Promise<void> {
+    try {
+      await prisma.automationRun.update({
+        where: { id: this.runId },
+        data: { selectorPack: `${pack.platform}@${pack.version}` },
+      })
+    } catch (error) {
+      console.error('Automation run selector pack error:', error)
+    }
+  }
+
+  async finish(outcome: RunOutcome): Promise<void> {
+    const status = outcome.method === 'dry_run'
+      ? 'DRY_RUN'
+      : outcome.success ? 'SUCCEEDED' : outcome.method === 'redirect' ? 'REDIRECTED' : 'FAILED'
+
+    try {
+      await prisma.automationRun.update({
+        where: { id: this.runId },
+        data: {
+          status,
+          method: outcome.method,
+          error: outcome.error,
+          stoppedAt: outcome.stoppedAt,
+          confirmationId: outcome.confirmationId,
+          preview: outcome.preview ? JSON.stringify(outcome.preview) : null,
+          finishedAt: new Date(),
+          durationMs: Date.now() - this.startedAt,
+        },
+      })
+      console.log(`🎬 Automation run ${this.runId} finished: ${status} (${this.stepIndex} steps)`)
+    } catch (error) {
+      console.error('Automation run finish error:', error)
+    }
+  }
+
+  private async capture(
+    page: Page,
+    index: number,
+    fullPage = false
+  ): Promise<{ screenshotKey?: string; htmlKey?: string }> {
+    if (page.isClosed()) return {}
+
+    const runPath = `${this.userId}/${this.runId}`
+    const name = String(index).padStart(3, '0')
+    const result: { screenshotKey?: string; htmlKey?: string } = {}
+
+    try {
+      const screenshot = await page.screenshot({ type: 'jpeg', quality: SCREENSHOT_QUALITY, fullPage })
+      result.screenshotKey = await saveArtifact(runPath, name, 'screenshot', Buffer.from(screenshot))
+    } catch (error) {
+      console.error('Automation run screenshot error:', error)
+    }
+
+    try {
+      const html = sanitizeHtml(await page.content())
+      result.htmlKey = await saveArtifact(runPath, name, 'html', Buffer.from(html, 'utf8'))
+    } catch (error) {
+      console.error('Automation run snapshot error:', error)
+    }
+
+    return result
+  }
+}
+
+/**
+ * Attach the application record created after a successful run
+ */
+export async function linkRunToApplication(runId: string, applicationId: string): Promise<void> {
+  try {
+    await prisma.automationRun.update({
+      where: { id: runId },
+      data: { applicationId },
+    })
+  } catch (error) {
+    console.error('Automation run link error:', error)
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * DOM snapshot sanitization
+ *
+ * Snapshots are kept so selector breakage can be debugged offline, which
+ * needs the markup but not scripts, tracking pixels or anything the
+ * applicant typed. Values of text-like inputs, hidden tokens and textarea
+ * contents are redacted; choice values (radios, options) are kept since
+ * they're part of the form's structure.
+ */
+
+const MAX_SNAPSHOT_BYTES = 1024 * 1024
+
+const REDACTED = '[redacted]'
+
+const KEEP_VALUE_TYPES = /^(submit|button|reset|radio|checkbox|image)$/i
+
+export function sanitizeHtml(html: string): string {
+  let clean = html
+    .replace(/<script\b[\s\S]*?<\/script\s*>/gi, '')
+    .replace(/<noscript\b[\s\S]*?<\/noscript\s*>/gi, '')
+    .replace(/<iframe\b[\s\S]*?<\/iframe\s*>/gi, '<iframe></iframe>')
+    // Inline event handlers and javascript: URLs
+    .replace(/\s+on[a-z]+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '')
+    .replace(/(href|src)\s*=\s*("|')\s*javascript:[^"']*\2/gi, '$1=$2#$2')
+    // Textarea contents may hold a cover letter or screening answers
+    .replace(/(<textarea\b[^>]*>)[\s\S]*?(<\/textarea\s*>)/gi, `$1${REDACTED}$2`)
+
+  clean = clean.replace(/<input\b[^>]*>/gi, tag => {
+    const type = /\stype\s*=\s*("|')?([a-z]+)/i.exec(tag)?.[2] || 'text'
+    if (KEEP_VALUE_TYPES.test(type)) return tag
+    return tag.replace(/(\svalue\s*=\s*)("[^"]*"|'[^']*'|[^\s>]+)/i, `$1"${REDACTED}"`)
+  })
+
+  if (clean.length > MAX_SNAPSHOT_BYTES) {
+    clean = `${clean.substring(0, MAX_SNAPSHOT_BYTES)}\n<!-- snapshot truncated -->`
+  }
+
+  return clean
+}
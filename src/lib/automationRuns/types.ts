@@ -0,0 +1,44 @@
+/**
+ * Automation Run Types
+ */
+
+import type { ApplicationPreview } from '../applicationPreview'
+
+export type AutomationStepAction =
+  | 'NAVIGATE'
+  | 'CLICK'
+  | 'FILL'
+  | 'UPLOAD'
+  | 'SUBMIT'
+  | 'CONFIRMATION'
+  | 'FAILURE'
+
+export type AutomationStepStatus = 'OK' | 'SKIPPED' | 'FAILED'
+
+export type AutomationRunStatus = 'RUNNING' | 'SUCCEEDED' | 'REDIRECTED' | 'FAILED' | 'DRY_RUN'
+
+export interface StartRunParams {
+  userId: string
+  platform: string
+  jobUrl: string
+  jobId?: string
+}
+
+export interface RecordStepOptions {
+  selector?: string
+  status?: AutomationStepStatus
+  error?: string
+  fullPage?: boolean // Capture the whole page rather than the viewport
+}
+
+// The subset of ApplicationResult a run is finished with
+export interface RunOutcome {
+  success: boolean
+  method: 'automated' | 'dry_run' | 'redirect' | 'failed'
+  error?: string
+  stoppedAt?: string
+  confirmationId?: string
+  preview?: ApplicationPreview
+}
+
+export type ArtifactKind = 'screenshot' | 'html'
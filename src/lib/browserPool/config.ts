@@ -0,0 +1,62 @@
+/**
+ * Browser pool settings from the environment
+ *
+ * Kept apart from the pool itself so the queue can size its
+ * submit_application workers without loading Puppeteer.
+ */
+
+import { parseListEnv } from '../jobSources/utils'
+import { BrowserPoolOptions } from './types'
+
+// Job boards that rate-limit or flag parallel sessions get fewer slots
+export const DEFAULT_PLATFORM_LIMITS: Record<string, number> = {
+  linkedin: 1,
+  indeed: 2,
+  workday: 2,
+  greenhouse: 3,
+  lever: 3,
+}
+
+/**
+ * Parse "linkedin=1,workday=2" into per-platform limits, ignoring malformed entries
+ */
+export function parsePlatformLimitsEnv(value: string | undefined): Record<string, number> {
+  const limits: Record<string, number> = {}
+
+  for (const entry of parseListEnv(value)) {
+    const [platform, limit] = entry.split('=').map(part => part.trim())
+    const parsedLimit = Number(limit)
+    if (platform && Number.isInteger(parsedLimit) && parsedLimit > 0) {
+      limits[platform.toLowerCase()] = parsedLimit
+    }
+  }
+
+  return limits
+}
+
+function positiveIntEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export function browserPoolOptionsFromEnv(): BrowserPoolOptions {
+  return {
+    maxBrowsers: positiveIntEnv(process.env.BROWSER_POOL_SIZE, 2),
+    maxContextsPerBrowser: positiveIntEnv(process.env.BROWSER_CONTEXTS_PER_BROWSER, 3),
+    maxRunsPerBrowser: positiveIntEnv(process.env.BROWSER_MAX_RUNS, 25),
+    platformLimits: {
+      ...DEFAULT_PLATFORM_LIMITS,
+      ...parsePlatformLimitsEnv(process.env.BROWSER_PLATFORM_LIMITS),
+    },
+    defaultPlatformLimit: 2,
+    acquireTimeoutMs: positiveIntEnv(process.env.BROWSER_ACQUIRE_TIMEOUT_MS, 120000),
+    idleTimeoutMs: 60000,
+  }
+}
+
+/**
+ * Most runs the pool will hold at once
+ */
+export function browserPoolCapacity(options: BrowserPoolOptions = browserPoolOptionsFromEnv()): number {
+  return options.maxBrowsers * options.maxContextsPerBrowser
+}
@@ -0,0 +1,24 @@
+/**
+ * Browser Pool Module Main Export
+ *
+ * Shared, bounded set of browsers that application automation leases
+ * isolated incognito contexts from, with per-platform concurrency limits
+ * and automatic replacement of worn-out or crashed browsers.
+ */
+
+export type {
+  BrowserPoolOptions,
+  BrowserLease,
+  BrowserPoolStats,
+  PooledBrowserStats,
+} from './types'
+export { BrowserPoolBusyError } from './types'
+
+export {
+  DEFAULT_PLATFORM_LIMITS,
+  parsePlatformLimitsEnv,
+  browserPoolOptionsFromEnv,
+  browserPoolCapacity,
+} from './config'
+
+export { BrowserPool, browserPool } from './pool'
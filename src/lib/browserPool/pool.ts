@@ -0,0 +1,282 @@
+/**
+ * Bounded pool of browsers for application automation
+ *
+ * Each run leases a fresh incognito context from one of at most maxBrowsers
+ * browsers, so runs for different users never share cookies or sessions.
+ * Runs beyond the pool's capacity or their platform's limit wait in line
+ * for a slot. A browser stops taking runs after maxRunsPerBrowser and is
+ * closed once its last run finishes; one that crashes is dropped straight
+ * away and replaced on the next lease.
+ */
+
+import puppeteer, { Browser, BrowserContext } from 'puppeteer'
+import { browserPoolCapacity, browserPoolOptionsFromEnv } from './config'
+import { BrowserLease, BrowserPoolBusyError, BrowserPoolOptions, BrowserPoolStats } from './types'
+
+interface PooledBrowser {
+  id: number
+  browser: Browser
+  activeContexts: number
+  runs: number
+  retiring: boolean
+  idleTimer?: NodeJS.Timeout
+}
+
+interface Waiter {
+  platform: string
+  grant: () => void
+  reject: (error: Error) => void
+}
+
+export class BrowserPool {
+  private browsers: PooledBrowser[] = []
+  private activeByPlatform = new Map<string, number>()
+  private reserved = 0
+  private waiters: Waiter[] = []
+  private nextBrowserId = 1
+  // Picking a browser may launch one; picks run one at a time so two runs never both launch
+  private picking: Promise<unknown> = Promise.resolve()
+
+  constructor(private options: BrowserPoolOptions) {}
+
+  /**
+   * Wait for a slot on the platform and lease an isolated context.
+   * Always release the lease, even when the run fails.
+   */
+  async acquire(platform: string, userId?: string): Promise<BrowserLease> {
+    const key = platform.toLowerCase()
+    await this.reserveSlot(key)
+
+    let entry: PooledBrowser | null = null
+    let context: BrowserContext
+    try {
+      entry = await this.pickBrowser()
+      context = await entry.browser.createIncognitoBrowserContext()
+    } catch (error) {
+      if (entry) this.finishRun(entry)
+      this.releaseSlot(key)
+      throw error
+    }
+
+    const leased = entry
+    let released = false
+    return {
+      context,
+      platform: key,
+      userId,
+      release: async () => {
+        if (released) return
+        released = true
+
+        try {
+          await context.close()
+        } catch (error) {
+          // Context is already gone if the browser crashed
+        }
+        this.finishRun(leased)
+        this.releaseSlot(key)
+      },
+    }
+  }
+
+  stats(): BrowserPoolStats {
+    const activeByPlatform: Record<string, number> = {}
+    this.activeByPlatform.forEach((count, platform) => {
+      if (count > 0) activeByPlatform[platform] = count
+    })
+
+    return {
+      browsers: this.browsers.map(entry => ({
+        id: entry.id,
+        activeContexts: entry.activeContexts,
+        runs: entry.runs,
+        retiring: entry.retiring,
+      })),
+      activeByPlatform,
+      waiting: this.waiters.length,
+      capacity: browserPoolCapacity(this.options),
+    }
+  }
+
+  /**
+   * Close every browser and turn away runs still waiting for a slot
+   */
+  async shutdown(): Promise<void> {
+    const waiters = this.waiters
+    this.waiters = []
+    waiters.forEach(waiter => waiter.reject(new Error('Browser pool is shutting down')))
+
+    await Promise.all(this.browsers.slice().map(entry => this.closeBrowser(entry, 'shutdown')))
+  }
+
+  private platformLimit(platform: string): number {
+    return this.options.platformLimits[platform] || this.options.defaultPlatformLimit
+  }
+
+  private canRun(platform: string): boolean {
+    return this.reserved < browserPoolCapacity(this.options) &&
+      (this.activeByPlatform.get(platform) || 0) < this.platformLimit(platform)
+  }
+
+  private takeSlot(platform: string): void {
+    this.reserved++
+    this.activeByPlatform.set(platform, (this.activeByPlatform.get(platform) || 0) + 1)
+  }
+
+  private reserveSlot(platform: string): Promise<void> {
+    // Runs already waiting are all blocked, so taking a free slot jumps no one
+    if (this.canRun(platform)) {
+      this.takeSlot(platform)
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve, reject) => {
+      const startedAt = Date.now()
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(other => other !== waiter)
+        reject(new BrowserPoolBusyError(platform, Date.now() - startedAt))
+      }, this.options.acquireTimeoutMs)
+
+      const waiter: Waiter = {
+        platform,
+        grant: () => {
+          clearTimeout(timer)
+          this.takeSlot(platform)
+          resolve()
+        },
+        reject: error => {
+          clearTimeout(timer)
+          reject(error)
+        },
+      }
+      this.waiters.push(waiter)
+    })
+  }
+
+  private releaseSlot(platform: string): void {
+    this.reserved--
+    this.activeByPlatform.set(platform, (this.activeByPlatform.get(platform) || 1) - 1)
+
+    // First come, first served, except that a run held back by its own
+    // platform's limit doesn't hold up runs for other platforms
+    for (const waiter of this.waiters.slice()) {
+      if (!this.canRun(waiter.platform)) continue
+      this.waiters.splice(this.waiters.indexOf(waiter), 1)
+      waiter.grant()
+    }
+  }
+
+  private pickBrowser(): Promise<PooledBrowser> {
+    const pick = this.picking.then(() => this.findOrLaunchBrowser())
+    this.picking = pick.catch(() => undefined)
+    return pick
+  }
+
+  private async findOrLaunchBrowser(): Promise<PooledBrowser> {
+    const available = this.browsers
+      .filter(entry => !entry.retiring && entry.activeContexts < this.options.maxContextsPerBrowser)
+      .sort((a, b) => a.activeContexts - b.activeContexts)[0]
+
+    // A retiring browser may still be finishing runs while its replacement starts
+    const entry = available || await this.launchBrowser()
+
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer)
+      entry.idleTimer = undefined
+    }
+    entry.activeContexts++
+    entry.runs++
+    if (entry.runs >= this.options.maxRunsPerBrowser) entry.retiring = true
+
+    return entry
+  }
+
+  private async launchBrowser(): Promise<PooledBrowser> {
+    const isProduction = process.env.NODE_ENV === 'production'
+
+    const browser = await puppeteer.launch({
+      headless: isProduction, // Show browser in development for debugging
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-accelerated-2d-canvas',
+        '--no-first-run',
+        '--no-zygote',
+        '--disable-gpu',
+        '--disable-background-timer-throttling',
+        '--disable-backgrounding-occluded-windows',
+        '--disable-renderer-backgrounding',
+        // Production optimizations
+        ...(isProduction ? [
+          '--disable-extensions',
+          '--disable-plugins',
+          '--disable-images',
+          '--disable-javascript',
+          '--disable-dev-shm-usage',
+        ] : [])
+      ],
+      defaultViewport: { width: 1366, height: 768 }
+    })
+
+    const entry: PooledBrowser = {
+      id: this.nextBrowserId++,
+      browser,
+      activeContexts: 0,
+      runs: 0,
+      retiring: false,
+    }
+    browser.on('disconnected', () => this.handleDisconnect(entry))
+    this.browsers.push(entry)
+
+    console.log(`🌐 Browser ${entry.id} launched (${this.browsers.length}/${this.options.maxBrowsers} in pool)`)
+    return entry
+  }
+
+  private finishRun(entry: PooledBrowser): void {
+    entry.activeContexts--
+
+    // Dropped already: crashed or shut down
+    if (!this.browsers.includes(entry)) return
+
+    if (!entry.browser.isConnected()) {
+      this.handleDisconnect(entry)
+      return
+    }
+
+    if (entry.activeContexts > 0) return
+
+    if (entry.retiring) {
+      this.closeBrowser(entry, `recycled after ${entry.runs} runs`)
+    } else {
+      entry.idleTimer = setTimeout(() => this.closeBrowser(entry, 'idle'), this.options.idleTimeoutMs)
+      entry.idleTimer.unref()
+    }
+  }
+
+  private handleDisconnect(entry: PooledBrowser): void {
+    if (!this.browsers.includes(entry)) return // Closed by the pool
+
+    console.warn(`⚠️ Browser ${entry.id} disconnected with ${entry.activeContexts} active run(s), removing from pool`)
+    this.removeBrowser(entry)
+  }
+
+  private removeBrowser(entry: PooledBrowser): void {
+    if (entry.idleTimer) clearTimeout(entry.idleTimer)
+    this.browsers = this.browsers.filter(other => other !== entry)
+  }
+
+  private async closeBrowser(entry: PooledBrowser, reason: string): Promise<void> {
+    this.removeBrowser(entry)
+
+    try {
+      await entry.browser.close()
+      console.log(`🌐 Browser ${entry.id} closed (${reason})`)
+    } catch (error) {
+      console.error(`Browser ${entry.id} close error:`, error)
+    }
+  }
+}
+
+// Export singleton instance
+export const browserPool = new BrowserPool(browserPoolOptionsFromEnv())
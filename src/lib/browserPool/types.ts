@@ -0,0 +1,43 @@
+/**
+ * Browser Pool Types
+ */
+
+import { BrowserContext } from 'puppeteer'
+
+export interface BrowserPoolOptions {
+  maxBrowsers: number
+  maxContextsPerBrowser: number // Runs sharing one browser, each in its own incognito context
+  maxRunsPerBrowser: number // Browser is replaced after this many runs
+  platformLimits: Record<string, number> // Concurrent runs per platform, e.g. { linkedin: 1 }
+  defaultPlatformLimit: number
+  acquireTimeoutMs: number // How long a run waits for a free slot before BrowserPoolBusyError
+  idleTimeoutMs: number // Idle browsers are closed after this long
+}
+
+export interface BrowserLease {
+  context: BrowserContext // Fresh incognito context: no cookies or storage shared with other runs
+  platform: string
+  userId?: string
+  release(): Promise<void>
+}
+
+export interface PooledBrowserStats {
+  id: number
+  activeContexts: number
+  runs: number
+  retiring: boolean
+}
+
+export interface BrowserPoolStats {
+  browsers: PooledBrowserStats[]
+  activeByPlatform: Record<string, number>
+  waiting: number
+  capacity: number
+}
+
+export class BrowserPoolBusyError extends Error {
+  constructor(public platform: string, waitedMs: number) {
+    super(`No browser slot for ${platform} became free within ${Math.round(waitedMs / 1000)}s`)
+    this.name = 'BrowserPoolBusyError'
+  }
+}
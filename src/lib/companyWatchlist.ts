@@ -0,0 +1,219 @@
+import { FollowedCompany } from '@prisma/client'
+import { prisma } from './db'
+import { NormalizedJob } from './jobAPIs'
+import { GreenhouseProvider, LeverProvider } from './jobSources'
+import { isJobKnownToUser, resolveCanonicalJob } from './jobIdentity'
+import { toSalaryFields, withStructuredSalary } from './salary'
+
+export type WatchlistPlatform = 'greenhouse' | 'lever'
+
+export const WATCHLIST_PLATFORMS: WatchlistPlatform[] = ['greenhouse', 'lever']
+
+const BOARD_FETCH_TIMEOUT_MS = 15000
+
+export interface BoardSyncResult {
+  companyId: string
+  boardSlug: string
+  platform: string
+  openJobs: number
+  newJobs: number
+  closedJobs: number
+  linkedJobIds: string[] // Jobs newly added to this user's scan results
+  error?: string
+}
+
+export interface WatchlistSyncResult {
+  companies: number
+  newJobs: number
+  closedJobs: number
+  linkedJobIds: string[]
+  results: BoardSyncResult[]
+}
+
+/**
+ * Fetch every open posting on a company's public Greenhouse or Lever board
+ */
+export async function fetchCompanyBoard(platform: WatchlistPlatform, boardSlug: string): Promise<NormalizedJob[]> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), BOARD_FETCH_TIMEOUT_MS)
+
+  try {
+    const provider = platform === 'greenhouse'
+      ? new GreenhouseProvider([boardSlug])
+      : new LeverProvider([boardSlug])
+
+    return await provider.fetchBoard(boardSlug, controller.signal)
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Sync one followed board: create Job rows for new postings, refresh the ones
+ * still listed, and mark postings that disappeared from the board as closed.
+ */
+export async function syncFollowedCompany(company: FollowedCompany): Promise<BoardSyncResult> {
+  const platform = company.platform as WatchlistPlatform
+  const result: BoardSyncResult = {
+    companyId: company.id,
+    boardSlug: company.boardSlug,
+    platform,
+    openJobs: 0,
+    newJobs: 0,
+    closedJobs: 0,
+    linkedJobIds: [],
+  }
+
+  try {
+    const postings = (await fetchCompanyBoard(platform, company.boardSlug))
+      .map(posting => withStructuredSalary(posting))
+    const now = new Date()
+
+    // Postings synced from this board before, plus any a keyword scan already
+    // saved. Slugs can prefix each other ("acme", "acme_corp"), so match the
+    // stored slug rather than the shape of the source id.
+    const existingJobs = await prisma.job.findMany({
+      where: {
+        OR: [
+          { source: platform, boardSlug: company.boardSlug },
+          { sourceJobId: { in: postings.map(posting => posting.sourceJobId) } },
+        ],
+      },
+      select: { id: true, sourceJobId: true, isClosed: true },
+    })
+    const existingBySourceId = new Map(existingJobs.map(job => [job.sourceJobId, job]))
+    const openJobIds: string[] = []
+
+    for (const posting of postings) {
+      const existing = existingBySourceId.get(posting.sourceJobId)
+
+      if (existing) {
+        await prisma.job.update({
+          where: { id: existing.id },
+          data: { lastSeenAt: now, isClosed: false, closedAt: null, boardSlug: company.boardSlug },
+        })
+        openJobIds.push(existing.id)
+        continue
+      }
+
+      const companyName = company.companyName || posting.company
+      const { canonicalJobId } = await resolveCanonicalJob({ ...posting, company: companyName })
+
+      const created = await prisma.job.create({
+        data: {
+          title: posting.title,
+          company: companyName,
+          description: posting.description,
+          url: posting.url,
+          location: posting.location,
+          salaryRange: posting.salaryRange,
+          ...toSalaryFields(posting.salary),
+          source: platform,
+          sourceJobId: posting.sourceJobId,
+          provider: platform,
+          canonicalJobId,
+          isProcessed: false,
+          appliedTo: false,
+          lastSeenAt: now,
+          boardSlug: company.boardSlug,
+        },
+      })
+      openJobIds.push(created.id)
+      result.newJobs++
+    }
+
+    // Postings no longer on the board have been filled or withdrawn
+    const seenSourceIds = new Set(postings.map(posting => posting.sourceJobId))
+    const disappearedIds = existingJobs
+      .filter(job => !job.isClosed && job.sourceJobId && !seenSourceIds.has(job.sourceJobId))
+      .map(job => job.id)
+
+    if (disappearedIds.length > 0) {
+      const closed = await prisma.job.updateMany({
+        where: { id: { in: disappearedIds } },
+        data: { isClosed: true, closedAt: now },
+      })
+      result.closedJobs = closed.count
+    }
+
+    result.openJobs = openJobIds.length
+    result.linkedJobIds = await linkJobsToUser(company.userId, openJobIds, company.boardSlug)
+
+    await prisma.followedCompany.update({
+      where: { id: company.id },
+      data: { lastSyncedAt: now, lastSyncError: null, openJobCount: result.openJobs },
+    })
+
+    console.log(`🏢 Synced ${platform}/${company.boardSlug}: ${result.openJobs} open, ${result.newJobs} new, ${result.closedJobs} closed`)
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown board sync error'
+    console.error(`Failed to sync ${platform}/${company.boardSlug}:`, error)
+
+    await prisma.followedCompany.update({
+      where: { id: company.id },
+      data: { lastSyncError: result.error },
+    })
+  }
+
+  return result
+}
+
+/**
+ * Create scan records for open board postings the user hasn't seen yet,
+ * including roles they already found through another job source
+ */
+async function linkJobsToUser(userId: string, jobIds: string[], boardSlug: string): Promise<string[]> {
+  if (jobIds.length === 0) return []
+
+  const existingScans = await prisma.userJobScan.findMany({
+    where: { userId, jobId: { in: jobIds } },
+    select: { jobId: true },
+  })
+  const alreadyLinked = new Set(existingScans.map(scan => scan.jobId))
+  const unlinkedJobs = await prisma.job.findMany({
+    where: { id: { in: jobIds.filter(jobId => !alreadyLinked.has(jobId)) } },
+    select: { id: true, title: true, company: true, canonicalJobId: true },
+  })
+
+  const newJobIds: string[] = []
+  for (const job of unlinkedJobs) {
+    if (await isJobKnownToUser(userId, job, job.canonicalJobId)) {
+      continue
+    }
+    newJobIds.push(job.id)
+  }
+
+  for (const jobId of newJobIds) {
+    await prisma.userJobScan.create({
+      data: {
+        userId,
+        jobId,
+        searchCriteria: JSON.stringify({ watchlist: boardSlug }),
+      },
+    })
+  }
+
+  return newJobIds
+}
+
+/**
+ * Sync every active board on a user's watchlist
+ */
+export async function syncUserWatchlist(userId: string): Promise<WatchlistSyncResult> {
+  const companies = await prisma.followedCompany.findMany({
+    where: { userId, isActive: true },
+  })
+
+  const results: BoardSyncResult[] = []
+  for (const company of companies) {
+    results.push(await syncFollowedCompany(company))
+  }
+
+  return {
+    companies: companies.length,
+    newJobs: results.reduce((sum, result) => sum + result.newJobs, 0),
+    closedJobs: results.reduce((sum, result) => sum + result.closedJobs, 0),
+    linkedJobIds: results.flatMap(result => result.linkedJobIds),
+    results,
+  }
+}
@@ -0,0 +1,146 @@
+import { prisma } from '../db'
+import { getCurrentUsage } from '../billing/usageTracking'
+import { appUrl } from '../email/transport'
+import { Digest, DigestFrequency, DigestUsage } from './types'
+
+const DIGEST_PERIOD_MS: Record<Exclude<DigestFrequency, 'OFF'>, number> = {
+  DAILY: 24 * 60 * 60 * 1000,
+  WEEKLY: 7 * 24 * 60 * 60 * 1000,
+}
+
+// However long since the last digest, look back no further than this
+const MAX_LOOKBACK_MS = 14 * 24 * 60 * 60 * 1000
+
+const MAX_MATCHES = 10
+const MAX_STATUS_CHANGES = 10
+const MAX_PRACTICE_SUGGESTIONS = 3
+
+// An interview practiced for this recently doesn't need another nudge
+const RECENT_PRACTICE_MS = 7 * 24 * 60 * 60 * 1000
+
+export function digestPeriodMs(frequency: Exclude<DigestFrequency, 'OFF'>): number {
+  return DIGEST_PERIOD_MS[frequency]
+}
+
+export interface BuildDigestOptions {
+  frequency: Exclude<DigestFrequency, 'OFF'>
+  since?: Date | null // When the last digest went out; defaults to one period ago
+  now?: Date
+  name?: string
+}
+
+async function loadUsage(userId: string): Promise<DigestUsage | null> {
+  try {
+    const usage = await getCurrentUsage(userId)
+    return {
+      planType: usage.planType,
+      autoApplicationsUsed: usage.autoApplicationsUsed,
+      autoApplicationsLimit: usage.autoApplicationsLimit,
+      mockInterviewsUsed: usage.mockInterviewsUsed,
+      mockInterviewsLimit: usage.mockInterviewsLimit,
+      daysRemainingInPeriod: usage.daysRemainingInPeriod,
+    }
+  } catch (error) {
+    console.error('Digest usage error:', error)
+    return null
+  }
+}
+
+/**
+ * Compile one user's digest. Reviews count as expiring when they close
+ * before the next digest would go out.
+ */
+export async function buildDigest(userId: string, options: BuildDigestOptions): Promise<Digest> {
+  const now = options.now || new Date()
+  const period = DIGEST_PERIOD_MS[options.frequency]
+  const periodStart = new Date(Math.max(
+    (options.since || new Date(now.getTime() - period)).getTime(),
+    now.getTime() - MAX_LOOKBACK_MS
+  ))
+  const nextDigestAt = new Date(now.getTime() + period)
+
+  const [notifications, totalNewMatches, reviews, changedApplications, interviewApplications, usage] = await Promise.all([
+    prisma.jobNotification.findMany({
+      where: { userId, createdAt: { gt: periodStart, lte: now } },
+      orderBy: { matchScore: 'desc' },
+      take: MAX_MATCHES,
+      include: { job: { select: { title: true, company: true, location: true } } },
+    }),
+    prisma.jobNotification.count({ where: { userId, createdAt: { gt: periodStart, lte: now } } }),
+    prisma.applicationReview.findMany({
+      where: { userId, status: 'PENDING', expiresAt: { gt: now, lte: nextDigestAt } },
+      orderBy: { expiresAt: 'asc' },
+      include: { job: { select: { title: true, company: true } } },
+    }),
+    prisma.application.findMany({
+      where: { userId, statusChangedAt: { gt: periodStart, lte: now } },
+      orderBy: { statusChangedAt: 'desc' },
+      take: MAX_STATUS_CHANGES,
+      select: { id: true, jobTitle: true, company: true, status: true, previousStatus: true, statusChangedAt: true },
+    }),
+    prisma.application.findMany({
+      where: { userId, status: 'INTERVIEW_SCHEDULED' },
+      orderBy: { statusChangedAt: 'desc' },
+      include: {
+        interviewSessions: {
+          where: { createdAt: { gt: new Date(now.getTime() - RECENT_PRACTICE_MS) } },
+          select: { id: true },
+        },
+      },
+    }),
+    loadUsage(userId),
+  ])
+
+  return {
+    name: options.name,
+    frequency: options.frequency,
+    periodStart,
+    periodEnd: now,
+    newMatches: notifications.map(notification => ({
+      jobId: notification.jobId,
+      title: notification.job.title,
+      company: notification.job.company,
+      location: notification.job.location || undefined,
+      matchScore: notification.matchScore,
+      foundAt: notification.createdAt,
+    })),
+    totalNewMatches,
+    expiringReviews: reviews.map(review => ({
+      reviewId: review.id,
+      title: review.job.title,
+      company: review.job.company,
+      matchScore: review.matchScore,
+      expiresAt: review.expiresAt,
+    })),
+    statusChanges: changedApplications.map(application => ({
+      applicationId: application.id,
+      title: application.jobTitle,
+      company: application.company,
+      from: application.previousStatus || undefined,
+      to: application.status,
+      changedAt: application.statusChangedAt!,
+    })),
+    practiceSuggestions: interviewApplications
+      .filter(application => application.interviewSessions.length === 0)
+      .slice(0, MAX_PRACTICE_SUGGESTIONS)
+      .map(application => ({
+        applicationId: application.id,
+        title: application.jobTitle,
+        company: application.company,
+        reason: 'Interview scheduled, no practice this week',
+      })),
+    usage,
+    dashboardUrl: appUrl('/dashboard'),
+    applicationsUrl: appUrl('/applications'),
+  }
+}
+
+/**
+ * Nothing worth an email: usage alone doesn't count
+ */
+export function isDigestEmpty(digest: Digest): boolean {
+  return digest.totalNewMatches === 0
+    && digest.expiringReviews.length === 0
+    && digest.statusChanges.length === 0
+    && digest.practiceSuggestions.length === 0
+}
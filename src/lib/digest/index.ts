@@ -0,0 +1,9 @@
+/**
+ * Digest Module Main Export
+ */
+
+export * from './types'
+export { buildDigest, digestPeriodMs, isDigestEmpty } from './builder'
+export type { BuildDigestOptions } from './builder'
+export { sendDueDigests } from './send'
+export type { DigestRunResult } from './send'
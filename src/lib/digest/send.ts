@@ -0,0 +1,69 @@
+import { prisma } from '../db'
+import { sendEmail } from '../email/send'
+import { buildDigest, digestPeriodMs, isDigestEmpty } from './builder'
+
+// The scheduler doesn't fire at exactly the same minute each day
+const DUE_SLACK_MS = 2 * 60 * 60 * 1000
+
+export interface DigestRunResult {
+  due: number
+  sent: number
+  empty: number
+  failed: number
+}
+
+/**
+ * Send every user whose daily or weekly digest is due. Run once a day:
+ * weekly users get theirs on the first run at least a week after the last.
+ * Users with nothing new are skipped and stay due.
+ */
+export async function sendDueDigests(now = new Date()): Promise<DigestRunResult> {
+  const users = await prisma.user.findMany({
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      emailPreference: { select: { digestFrequency: true, lastDigestSentAt: true, unsubscribedAll: true } },
+    },
+  })
+  const result: DigestRunResult = { due: 0, sent: 0, empty: 0, failed: 0 }
+
+  for (const user of users) {
+    const preference = user.emailPreference
+    const frequency = preference?.digestFrequency || 'DAILY'
+    if (frequency === 'OFF' || preference?.unsubscribedAll || !user.email) continue
+
+    const lastSentAt = preference?.lastDigestSentAt
+    if (lastSentAt && now.getTime() - lastSentAt.getTime() < digestPeriodMs(frequency) - DUE_SLACK_MS) continue
+    result.due++
+
+    try {
+      const digest = await buildDigest(user.id, { frequency, since: lastSentAt, now, name: user.name || undefined })
+      if (isDigestEmpty(digest)) {
+        result.empty++
+        continue
+      }
+
+      const sent = await sendEmail({
+        template: 'digest',
+        to: user.email,
+        userId: user.id,
+        props: digest,
+        dedupeKey: `digest:${user.id}:${now.toISOString().split('T')[0]}`,
+      })
+      if (sent.status === 'sent') {
+        await prisma.emailPreference.upsert({
+          where: { userId: user.id },
+          create: { userId: user.id, digestFrequency: frequency, lastDigestSentAt: now },
+          update: { lastDigestSentAt: now },
+        })
+        result.sent++
+      }
+    } catch (error) {
+      console.error('Digest send error:', error)
+      result.failed++
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,68 @@
+/**
+ * Digest Types
+ *
+ * A digest is one user's catch-up email: new matches since the last digest,
+ * reviews about to expire, application status changes, interviews worth
+ * practicing for, and how much of their plan they've used.
+ */
+
+export type DigestFrequency = 'DAILY' | 'WEEKLY' | 'OFF'
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['DAILY', 'WEEKLY', 'OFF']
+
+export interface DigestMatch {
+  jobId: string
+  title: string
+  company: string
+  location?: string
+  matchScore: number // 0-1
+  foundAt: Date
+}
+
+export interface DigestExpiringReview {
+  reviewId: string
+  title: string
+  company: string
+  matchScore: number
+  expiresAt: Date
+}
+
+export interface DigestStatusChange {
+  applicationId: string
+  title: string
+  company: string
+  from?: string // ApplicationStatus before the change, when known
+  to: string
+  changedAt: Date
+}
+
+export interface DigestPracticeSuggestion {
+  applicationId: string
+  title: string
+  company: string
+  reason: string
+}
+
+export interface DigestUsage {
+  planType: string
+  autoApplicationsUsed: number
+  autoApplicationsLimit: number
+  mockInterviewsUsed: number
+  mockInterviewsLimit: number
+  daysRemainingInPeriod: number
+}
+
+export interface Digest {
+  name?: string
+  frequency: Exclude<DigestFrequency, 'OFF'>
+  periodStart: Date
+  periodEnd: Date
+  newMatches: DigestMatch[] // Best first, capped; totalNewMatches has the full count
+  totalNewMatches: number
+  expiringReviews: DigestExpiringReview[]
+  statusChanges: DigestStatusChange[]
+  practiceSuggestions: DigestPracticeSuggestion[]
+  usage: DigestUsage | null // Null when usage couldn't be loaded
+  dashboardUrl: string
+  applicationsUrl: string
+}
@@ -0,0 +1,19 @@
+/**
+ * Email Module Main Export
+ */
+
+export * from './types'
+export { createEmailTransport, emailTransportFromEnv, getEmailTransport, appUrl } from './transport'
+export { EMAIL_TEMPLATES } from './templates'
+export { renderEmail, sendEmail } from './send'
+export type { RenderedEmail, SendEmailOptions } from './send'
+export {
+  DEFAULT_EMAIL_PREFERENCES,
+  getEmailPreferences,
+  updateEmailPreferences,
+  unsubscribe,
+  isCategoryEnabled,
+} from './preferences'
+export type { EmailPreferenceSettings } from './preferences'
+export { createUnsubscribeToken, verifyUnsubscribeToken, buildUnsubscribeUrl } from './unsubscribe'
+export type { UnsubscribeScope } from './unsubscribe'
@@ -0,0 +1,69 @@
+import { EmailPreference } from '@prisma/client'
+import { prisma } from '../db'
+import { DigestFrequency } from '../digest/types'
+import { EmailCategory, OptionalEmailCategory } from './types'
+
+export interface EmailPreferenceSettings {
+  jobMatches: boolean
+  reviewReminders: boolean
+  applicationUpdates: boolean
+  digestFrequency: DigestFrequency
+  unsubscribedAll: boolean
+}
+
+export const DEFAULT_EMAIL_PREFERENCES: EmailPreferenceSettings = {
+  jobMatches: true,
+  reviewReminders: true,
+  applicationUpdates: true,
+  digestFrequency: 'DAILY',
+  unsubscribedAll: false,
+}
+
+type ToggleCategory = Exclude<OptionalEmailCategory, 'digest'>
+
+const CATEGORY_FIELDS: Record<ToggleCategory, 'jobMatches' | 'reviewReminders' | 'applicationUpdates'> = {
+  job_matches: 'jobMatches',
+  review_reminders: 'reviewReminders',
+  application_updates: 'applicationUpdates',
+}
+
+function toSettings(preference: EmailPreference | null): EmailPreferenceSettings {
+  if (!preference) return { ...DEFAULT_EMAIL_PREFERENCES }
+  return {
+    jobMatches: preference.jobMatches,
+    reviewReminders: preference.reviewReminders,
+    applicationUpdates: preference.applicationUpdates,
+    digestFrequency: preference.digestFrequency,
+    unsubscribedAll: preference.unsubscribedAll,
+  }
+}
+
+export async function getEmailPreferences(userId: string): Promise<EmailPreferenceSettings> {
+  const preference = await prisma.emailPreference.findUnique({ where: { userId } })
+  return toSettings(preference)
+}
+
+export async function updateEmailPreferences(userId: string, changes: Partial<EmailPreferenceSettings>): Promise<EmailPreferenceSettings> {
+  const preference = await prisma.emailPreference.upsert({
+    where: { userId },
+    create: { userId, ...DEFAULT_EMAIL_PREFERENCES, ...changes },
+    update: changes,
+  })
+  return toSettings(preference)
+}
+
+/**
+ * Turn off one category, or every optional email when no category is given
+ */
+export async function unsubscribe(userId: string, category?: OptionalEmailCategory): Promise<EmailPreferenceSettings> {
+  if (!category) return updateEmailPreferences(userId, { unsubscribedAll: true })
+  if (category === 'digest') return updateEmailPreferences(userId, { digestFrequency: 'OFF' })
+  return updateEmailPreferences(userId, { [CATEGORY_FIELDS[category]]: false })
+}
+
+export function isCategoryEnabled(settings: EmailPreferenceSettings, category: EmailCategory): boolean {
+  if (category === 'account') return true
+  if (settings.unsubscribedAll) return false
+  if (category === 'digest') return settings.digestFrequency !== 'OFF'
+  return settings[CATEGORY_FIELDS[category]]
+}
@@ -0,0 +1,107 @@
+import { render } from '@react-email/components'
+import { prisma } from '../db'
+import { EMAIL_TEMPLATES } from './templates'
+import { emailFromAddress, appUrl, getEmailTransport } from './transport'
+import { getEmailPreferences, isCategoryEnabled } from './preferences'
+import { buildUnsubscribeHeaders, buildUnsubscribeUrl } from './unsubscribe'
+import { EmailFooterProps, EmailSendResult, EmailTemplateName, EmailTemplateProps, OptionalEmailCategory } from './types'
+
+export interface SendEmailOptions<N extends EmailTemplateName> {
+  template: N
+  to: string
+  userId?: string // Needed for anything but account emails, to check preferences and sign unsubscribe links
+  props: EmailTemplateProps[N]
+  dedupeKey?: string // Skip the send if an email with this key already went out
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+/**
+ * Render a template to its subject line, HTML and plain-text parts
+ */
+export async function renderEmail<N extends EmailTemplateName>(
+  name: N,
+  props: EmailTemplateProps[N],
+  footer: EmailFooterProps = {}
+): Promise<RenderedEmail> {
+  const template = EMAIL_TEMPLATES[name]
+  const element = template.render({ ...props, ...footer })
+  const [html, text] = await Promise.all([render(element), render(element, { plainText: true })])
+  return { subject: template.subject(props), html, text }
+}
+
+/**
+ * Render a template and deliver it, honouring the user's email preferences.
+ * Every attempt is recorded in email_deliveries. Throws if the transport
+ * fails, after recording the failure.
+ */
+export async function sendEmail<N extends EmailTemplateName>(options: SendEmailOptions<N>): Promise<EmailSendResult> {
+  const { template: name, to, userId, props, dedupeKey } = options
+  const template = EMAIL_TEMPLATES[name]
+  const transport = getEmailTransport()
+
+  if (dedupeKey) {
+    const alreadySent = await prisma.emailDelivery.findFirst({
+      where: { dedupeKey, status: 'SENT' },
+      select: { id: true },
+    })
+    if (alreadySent) return { status: 'duplicate' }
+  }
+
+  const footer: EmailFooterProps = {}
+  let headers: Record<string, string> | undefined
+
+  if (template.category !== 'account') {
+    if (!userId) {
+      throw new Error(`The ${name} email needs a userId to check email preferences`)
+    }
+
+    const preferences = await getEmailPreferences(userId)
+    if (!isCategoryEnabled(preferences, template.category)) {
+      await prisma.emailDelivery.create({
+        data: { userId, to, template: name, status: 'SKIPPED', transport: transport.id, dedupeKey },
+      })
+      return { status: 'skipped' }
+    }
+
+    footer.unsubscribeUrl = buildUnsubscribeUrl(userId, template.category as OptionalEmailCategory)
+    footer.preferencesUrl = appUrl('/profile#email-preferences')
+    headers = buildUnsubscribeHeaders(userId, template.category as OptionalEmailCategory)
+  }
+
+  const { subject, html, text } = await renderEmail(name, props, footer)
+
+  try {
+    const { messageId } = await transport.send({
+      to,
+      from: emailFromAddress(),
+      replyTo: process.env.EMAIL_REPLY_TO || undefined,
+      subject,
+      html,
+      text,
+      headers,
+    })
+
+    await prisma.emailDelivery.create({
+      data: { userId, to, template: name, status: 'SENT', transport: transport.id, providerMessageId: messageId, dedupeKey },
+    })
+    return { status: 'sent', messageId }
+  } catch (error) {
+    await prisma.emailDelivery.create({
+      data: {
+        userId,
+        to,
+        template: name,
+        status: 'FAILED',
+        transport: transport.id,
+        error: error instanceof Error ? error.message : String(error),
+        dedupeKey,
+      },
+    }).catch(recordError => console.error('Email delivery record error:', recordError))
+    throw error
+  }
+}
@@ -0,0 +1,20 @@
+import * as React from 'react'
+import { Text } from '@react-email/components'
+import { EmailFooterProps, EmailTemplateProps } from '../types'
+import { EmailButton, EmailLayout, greeting, headingStyle, textStyle } from './Layout'
+
+type ApplicationSubmittedEmailProps = EmailTemplateProps['application_submitted'] & EmailFooterProps
+
+export function ApplicationSubmittedEmail({ name, title, company, submittedAt, applicationsUrl, ...footer }: ApplicationSubmittedEmailProps) {
+  return (
+    <EmailLayout preview={`Applied to ${title} at ${company}`} {...footer}>
+      <Text style={headingStyle}>Application submitted</Text>
+      <Text style={textStyle}>{greeting(name)}</Text>
+      <Text style={textStyle}>
+        We submitted your application for <strong>{title}</strong> at <strong>{company}</strong> on{' '}
+        {submittedAt.toUTCString()}.
+      </Text>
+      <EmailButton href={applicationsUrl}>Track your applications</EmailButton>
+    </EmailLayout>
+  )
+}
@@ -0,0 +1,20 @@
+import * as React from 'react'
+import { Text } from '@react-email/components'
+import { EmailFooterProps, EmailTemplateProps } from '../types'
+import { EmailButton, EmailLayout, greeting, headingStyle, mutedStyle, textStyle } from './Layout'
+
+type AutomationFailedEmailProps = EmailTemplateProps['automation_failed'] & EmailFooterProps
+
+export function AutomationFailedEmail({ name, title, company, error, applicationsUrl, ...footer }: AutomationFailedEmailProps) {
+  return (
+    <EmailLayout preview={`We couldn't apply to ${title} at ${company}`} {...footer}>
+      <Text style={headingStyle}>An automatic application failed</Text>
+      <Text style={textStyle}>{greeting(name)}</Text>
+      <Text style={textStyle}>
+        We couldn&apos;t submit your application to <strong>{title}</strong> at <strong>{company}</strong>.
+      </Text>
+      <Text style={mutedStyle}>{error}</Text>
+      <EmailButton href={applicationsUrl}>View your applications</EmailButton>
+    </EmailLayout>
+  )
+}
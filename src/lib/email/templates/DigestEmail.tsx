@@ -0,0 +1,120 @@
+import * as React from 'react'
+import { Section, Text } from '@react-email/components'
+import { EmailFooterProps, EmailTemplateProps } from '../types'
+import { EmailButton, EmailLayout, formatMatchScore, greeting, headingStyle, mutedStyle, textStyle } from './Layout'
+
+type DigestEmailProps = EmailTemplateProps['digest'] & EmailFooterProps
+
+const sectionTitleStyle = { ...textStyle, fontWeight: 600, margin: '24px 0 8px' }
+const itemStyle = { ...textStyle, margin: '0 0 8px' }
+
+const STATUS_LABELS: Record<string, string> = {
+  APPLIED: 'Applied',
+  REVIEWING: 'In review',
+  INTERVIEW_SCHEDULED: 'Interview scheduled',
+  INTERVIEWED: 'Interviewed',
+  OFFER_RECEIVED: 'Offer received',
+  REJECTED: 'Rejected',
+  WITHDRAWN: 'Withdrawn',
+}
+
+function statusLabel(status: string): string {
+  return STATUS_LABELS[status] || status
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+export function DigestEmail({
+  name,
+  frequency,
+  periodEnd,
+  newMatches,
+  totalNewMatches,
+  expiringReviews,
+  statusChanges,
+  practiceSuggestions,
+  usage,
+  dashboardUrl,
+  applicationsUrl,
+  ...footer
+}: DigestEmailProps) {
+  const period = frequency === 'WEEKLY' ? 'week' : 'day'
+
+  return (
+    <EmailLayout preview={`${totalNewMatches} new match${totalNewMatches === 1 ? '' : 'es'} this ${period}`} {...footer}>
+      <Text style={headingStyle}>Your {frequency === 'WEEKLY' ? 'weekly' : 'daily'} job search digest · {formatDay(periodEnd)}</Text>
+      <Text style={textStyle}>{greeting(name)}</Text>
+      <Text style={textStyle}>Here&apos;s what happened since your last digest.</Text>
+
+      <Section>
+        <Text style={sectionTitleStyle}>New matches ({totalNewMatches})</Text>
+        {newMatches.length === 0 ? (
+          <Text style={mutedStyle}>No new matches this {period}.</Text>
+        ) : (
+          newMatches.map(match => (
+            <Text key={match.jobId} style={itemStyle}>
+              {match.title} at {match.company} · {formatMatchScore(match.matchScore)}
+              {match.location ? ` · ${match.location}` : ''}
+            </Text>
+          ))
+        )}
+        {totalNewMatches > newMatches.length && (
+          <Text style={mutedStyle}>And {totalNewMatches - newMatches.length} more on your dashboard.</Text>
+        )}
+      </Section>
+
+      {expiringReviews.length > 0 && (
+        <Section>
+          <Text style={sectionTitleStyle}>Reviews expiring soon</Text>
+          {expiringReviews.map(review => (
+            <Text key={review.reviewId} style={itemStyle}>
+              {review.title} at {review.company} · {formatMatchScore(review.matchScore)} · expires {formatDay(review.expiresAt)}
+            </Text>
+          ))}
+        </Section>
+      )}
+
+      {statusChanges.length > 0 && (
+        <Section>
+          <Text style={sectionTitleStyle}>Application updates</Text>
+          {statusChanges.map(change => (
+            <Text key={change.applicationId} style={itemStyle}>
+              {change.title} at {change.company}: {change.from ? `${statusLabel(change.from)} → ` : ''}{statusLabel(change.to)}
+            </Text>
+          ))}
+        </Section>
+      )}
+
+      {practiceSuggestions.length > 0 && (
+        <Section>
+          <Text style={sectionTitleStyle}>Practice for your interviews</Text>
+          {practiceSuggestions.map(suggestion => (
+            <Text key={suggestion.applicationId} style={itemStyle}>
+              {suggestion.title} at {suggestion.company} · {suggestion.reason}
+            </Text>
+          ))}
+          <EmailButton href={applicationsUrl}>Start a mock interview</EmailButton>
+        </Section>
+      )}
+
+      {usage && (
+        <Section>
+          <Text style={sectionTitleStyle}>Your {usage.planType} plan</Text>
+          <Text style={itemStyle}>
+            {usage.autoApplicationsUsed} of {usage.autoApplicationsLimit} auto-applications and {usage.mockInterviewsUsed} of{' '}
+            {usage.mockInterviewsLimit} mock interviews used, {usage.daysRemainingInPeriod} day{usage.daysRemainingInPeriod === 1 ? '' : 's'} left
+            in this period.
+          </Text>
+        </Section>
+      )}
+
+      <EmailButton href={dashboardUrl}>Open your dashboard</EmailButton>
+      <Text style={mutedStyle}>
+        You get this digest {frequency === 'WEEKLY' ? 'once a week' : 'once a day'} when there&apos;s something new. You can switch
+        between daily and weekly in your email preferences.
+      </Text>
+    </EmailLayout>
+  )
+}
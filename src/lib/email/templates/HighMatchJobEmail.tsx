@@ -0,0 +1,20 @@
+import * as React from 'react'
+import { Text } from '@react-email/components'
+import { EmailFooterProps, EmailTemplateProps } from '../types'
+import { EmailButton, EmailLayout, formatMatchScore, greeting, headingStyle, textStyle } from './Layout'
+
+type HighMatchJobEmailProps = EmailTemplateProps['high_match_job'] & EmailFooterProps
+
+export function HighMatchJobEmail({ name, job, dashboardUrl, ...footer }: HighMatchJobEmailProps) {
+  return (
+    <EmailLayout preview={`${job.title} at ${job.company} is a ${formatMatchScore(job.matchScore)}`} {...footer}>
+      <Text style={headingStyle}>A strong match just came in</Text>
+      <Text style={textStyle}>{greeting(name)}</Text>
+      <Text style={textStyle}>
+        <strong>{job.title}</strong> at <strong>{job.company}</strong>
+        {job.location ? ` (${job.location})` : ''} scored a {formatMatchScore(job.matchScore)} against your profile.
+      </Text>
+      <EmailButton href={dashboardUrl}>View the job</EmailButton>
+    </EmailLayout>
+  )
+}
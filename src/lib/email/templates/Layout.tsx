@@ -0,0 +1,70 @@
+import * as React from 'react'
+import { Body, Button, Container, Head, Hr, Html, Link, Preview, Section, Text } from '@react-email/components'
+import { EmailFooterProps } from '../types'
+
+interface EmailLayoutProps extends EmailFooterProps {
+  preview: string
+  children: React.ReactNode
+}
+
+const styles = {
+  body: { backgroundColor: '#f9fafb', fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif', margin: 0 },
+  container: { backgroundColor: '#ffffff', border: '1px solid #e5e7eb', borderRadius: '8px', margin: '32px auto', maxWidth: '560px', padding: '32px' },
+  brand: { color: '#2563eb', fontSize: '18px', fontWeight: 700, margin: '0 0 24px' },
+  footer: { color: '#6b7280', fontSize: '12px', lineHeight: '18px', margin: 0 },
+  link: { color: '#6b7280', textDecoration: 'underline' },
+}
+
+export const textStyle = { color: '#374151', fontSize: '15px', lineHeight: '24px', margin: '0 0 16px' }
+export const headingStyle = { color: '#111827', fontSize: '20px', fontWeight: 600, lineHeight: '28px', margin: '0 0 16px' }
+export const mutedStyle = { color: '#6b7280', fontSize: '13px', lineHeight: '20px', margin: '0 0 16px' }
+
+export function greeting(name?: string): string {
+  return name ? `Hi ${name.split(' ')[0]},` : 'Hi,'
+}
+
+export function formatMatchScore(score: number): string {
+  return `${Math.round(score * 100)}% match`
+}
+
+export function EmailButton({ href, children }: { href: string; children: React.ReactNode }) {
+  return (
+    <Section style={{ margin: '24px 0' }}>
+      <Button
+        href={href}
+        style={{ backgroundColor: '#2563eb', borderRadius: '6px', color: '#ffffff', fontSize: '15px', fontWeight: 600, padding: '12px 20px' }}
+      >
+        {children}
+      </Button>
+    </Section>
+  )
+}
+
+export function EmailLayout({ preview, unsubscribeUrl, preferencesUrl, children }: EmailLayoutProps) {
+  return (
+    <Html lang="en">
+      <Head />
+      <Preview>{preview}</Preview>
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          <Text style={styles.brand}>HelpMeApply AI</Text>
+          {children}
+          <Hr style={{ borderColor: '#e5e7eb', margin: '32px 0 16px' }} />
+          <Text style={styles.footer}>
+            You&apos;re receiving this because you have a HelpMeApply AI account.
+            {preferencesUrl && (
+              <>
+                {' '}<Link href={preferencesUrl} style={styles.link}>Email preferences</Link>
+              </>
+            )}
+            {unsubscribeUrl && (
+              <>
+                {' · '}<Link href={unsubscribeUrl} style={styles.link}>Unsubscribe</Link>
+              </>
+            )}
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
@@ -0,0 +1,25 @@
+import * as React from 'react'
+import { Text } from '@react-email/components'
+import { EmailFooterProps, EmailTemplateProps } from '../types'
+import { EmailButton, EmailLayout, greeting, headingStyle, mutedStyle, textStyle } from './Layout'
+
+type PasswordResetEmailProps = EmailTemplateProps['password_reset'] & EmailFooterProps
+
+export function PasswordResetEmail({ name, resetUrl, expiresAt, ...footer }: PasswordResetEmailProps) {
+  const minutes = Math.max(1, Math.round((expiresAt.getTime() - Date.now()) / 60000))
+
+  return (
+    <EmailLayout preview="Reset your HelpMeApply AI password" {...footer}>
+      <Text style={headingStyle}>Reset your password</Text>
+      <Text style={textStyle}>{greeting(name)}</Text>
+      <Text style={textStyle}>
+        Someone asked to reset the password for your account. Use the button below to choose a new one.
+        The link works once and expires in {minutes} minutes.
+      </Text>
+      <EmailButton href={resetUrl}>Choose a new password</EmailButton>
+      <Text style={mutedStyle}>
+        If you didn&apos;t ask for this, you can ignore this email and your password will stay the same.
+      </Text>
+    </EmailLayout>
+  )
+}
@@ -0,0 +1,27 @@
+import * as React from 'react'
+import { Text } from '@react-email/components'
+import { EmailFooterProps, EmailTemplateProps } from '../types'
+import { EmailButton, EmailLayout, greeting, headingStyle, mutedStyle, textStyle } from './Layout'
+
+type QuotaLowEmailProps = EmailTemplateProps['quota_low'] & EmailFooterProps
+
+export const QUOTA_LABELS: Record<EmailTemplateProps['quota_low']['quota'], string> = {
+  auto_applications: 'automatic applications',
+  mock_interviews: 'mock interviews',
+}
+
+export function QuotaLowEmail({ name, quota, remaining, limit, billingUrl, ...footer }: QuotaLowEmailProps) {
+  const label = QUOTA_LABELS[quota]
+
+  return (
+    <EmailLayout preview={`${remaining} of ${limit} ${label} left this period`} {...footer}>
+      <Text style={headingStyle}>You&apos;re running low on {label}</Text>
+      <Text style={textStyle}>{greeting(name)}</Text>
+      <Text style={textStyle}>
+        You have <strong>{remaining}</strong> of your {limit} {label} left this billing period.
+      </Text>
+      <EmailButton href={billingUrl}>See plans</EmailButton>
+      <Text style={mutedStyle}>Your allowance resets at the start of the next period.</Text>
+    </EmailLayout>
+  )
+}
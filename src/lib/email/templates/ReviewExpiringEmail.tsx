@@ -0,0 +1,23 @@
+import * as React from 'react'
+import { Text } from '@react-email/components'
+import { EmailFooterProps, EmailTemplateProps } from '../types'
+import { EmailButton, EmailLayout, formatMatchScore, greeting, headingStyle, mutedStyle, textStyle } from './Layout'
+
+type ReviewExpiringEmailProps = EmailTemplateProps['review_expiring'] & EmailFooterProps
+
+export function ReviewExpiringEmail({ name, job, expiresAt, reviewUrl, ...footer }: ReviewExpiringEmailProps) {
+  const hours = Math.max(1, Math.round((expiresAt.getTime() - Date.now()) / 3600000))
+
+  return (
+    <EmailLayout preview={`Your review of ${job.title} at ${job.company} expires in ${hours}h`} {...footer}>
+      <Text style={headingStyle}>An application is waiting for you</Text>
+      <Text style={textStyle}>{greeting(name)}</Text>
+      <Text style={textStyle}>
+        Your application to <strong>{job.title}</strong> at <strong>{job.company}</strong> ({formatMatchScore(job.matchScore)})
+        is ready for review. It expires in about {hours} hour{hours === 1 ? '' : 's'}.
+      </Text>
+      <EmailButton href={reviewUrl}>Review the application</EmailButton>
+      <Text style={mutedStyle}>Expired reviews are closed without applying.</Text>
+    </EmailLayout>
+  )
+}
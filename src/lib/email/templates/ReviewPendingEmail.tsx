@@ -0,0 +1,21 @@
+import * as React from 'react'
+import { Text } from '@react-email/components'
+import { EmailFooterProps, EmailTemplateProps } from '../types'
+import { EmailButton, EmailLayout, formatMatchScore, greeting, headingStyle, mutedStyle, textStyle } from './Layout'
+
+type ReviewPendingEmailProps = EmailTemplateProps['review_pending'] & EmailFooterProps
+
+export function ReviewPendingEmail({ name, job, expiresAt, reviewUrl, ...footer }: ReviewPendingEmailProps) {
+  return (
+    <EmailLayout preview={`${job.title} at ${job.company} is ready for your review`} {...footer}>
+      <Text style={headingStyle}>An application is ready for review</Text>
+      <Text style={textStyle}>{greeting(name)}</Text>
+      <Text style={textStyle}>
+        We prepared an application to <strong>{job.title}</strong> at <strong>{job.company}</strong> ({formatMatchScore(job.matchScore)}).
+        Approve it, edit it or turn it down before {expiresAt.toUTCString()}.
+      </Text>
+      <EmailButton href={reviewUrl}>Review the application</EmailButton>
+      <Text style={mutedStyle}>Nothing is sent until you approve it.</Text>
+    </EmailLayout>
+  )
+}
@@ -0,0 +1,67 @@
+/**
+ * Email Template Registry
+ *
+ * Maps each template name to its category, subject line and React Email
+ * component, so sendEmail can render any template from its typed props.
+ */
+
+import * as React from 'react'
+import { EmailCategory, EmailFooterProps, EmailTemplateName, EmailTemplateProps } from '../types'
+import { ApplicationSubmittedEmail } from './ApplicationSubmittedEmail'
+import { AutomationFailedEmail } from './AutomationFailedEmail'
+import { DigestEmail } from './DigestEmail'
+import { HighMatchJobEmail } from './HighMatchJobEmail'
+import { PasswordResetEmail } from './PasswordResetEmail'
+import { QUOTA_LABELS, QuotaLowEmail } from './QuotaLowEmail'
+import { ReviewExpiringEmail } from './ReviewExpiringEmail'
+import { ReviewPendingEmail } from './ReviewPendingEmail'
+
+export interface EmailTemplate<N extends EmailTemplateName> {
+  category: EmailCategory
+  subject: (props: EmailTemplateProps[N]) => string
+  render: (props: EmailTemplateProps[N] & EmailFooterProps) => React.ReactElement
+}
+
+export const EMAIL_TEMPLATES: { [N in EmailTemplateName]: EmailTemplate<N> } = {
+  password_reset: {
+    category: 'account',
+    subject: () => 'Reset your HelpMeApply AI password',
+    render: props => <PasswordResetEmail {...props} />,
+  },
+  digest: {
+    category: 'digest',
+    subject: props => `Your ${props.frequency === 'WEEKLY' ? 'weekly' : 'daily'} digest: ${props.totalNewMatches} new match${props.totalNewMatches === 1 ? '' : 'es'}`
+      + (props.expiringReviews.length > 0 ? `, ${props.expiringReviews.length} review${props.expiringReviews.length === 1 ? '' : 's'} expiring` : ''),
+    render: props => <DigestEmail {...props} />,
+  },
+  high_match_job: {
+    category: 'job_matches',
+    subject: props => `${Math.round(props.job.matchScore * 100)}% match: ${props.job.title} at ${props.job.company}`,
+    render: props => <HighMatchJobEmail {...props} />,
+  },
+  review_expiring: {
+    category: 'review_reminders',
+    subject: props => `Review expiring soon: ${props.job.title} at ${props.job.company}`,
+    render: props => <ReviewExpiringEmail {...props} />,
+  },
+  application_submitted: {
+    category: 'application_updates',
+    subject: props => `Application submitted: ${props.title} at ${props.company}`,
+    render: props => <ApplicationSubmittedEmail {...props} />,
+  },
+  review_pending: {
+    category: 'review_reminders',
+    subject: props => `Ready for review: ${props.job.title} at ${props.job.company}`,
+    render: props => <ReviewPendingEmail {...props} />,
+  },
+  automation_failed: {
+    category: 'application_updates',
+    subject: props => `Application failed: ${props.title} at ${props.company}`,
+    render: props => <AutomationFailedEmail {...props} />,
+  },
+  quota_low: {
+    category: 'application_updates',
+    subject: props => `${props.remaining} ${QUOTA_LABELS[props.quota]} left this period`,
+    render: props => <QuotaLowEmail {...props} />,
+  },
+}
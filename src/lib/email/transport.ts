@@ -0,0 +1,74 @@
+/**
+ * Email Transport Selection
+ *
+ * EMAIL_TRANSPORT picks how mail leaves the app: "smtp" (SMTP_HOST and
+ * friends), "resend" (RESEND_API_KEY) or "file" (EMAIL_OUTPUT_DIR). Left
+ * unset, the first configured one wins, falling back to "file" so local
+ * development never sends real mail.
+ */
+
+import path from 'path'
+import { EMAIL_TRANSPORT_IDS, EmailTransport, EmailTransportId } from './types'
+import { FileTransport } from './transports/file'
+import { ResendTransport } from './transports/resend'
+import { SmtpTransport } from './transports/smtp'
+
+export function emailTransportFromEnv(): EmailTransportId {
+  const configured = process.env.EMAIL_TRANSPORT?.toLowerCase()
+
+  if (configured) {
+    if (!EMAIL_TRANSPORT_IDS.includes(configured as EmailTransportId)) {
+      throw new Error(`Unknown EMAIL_TRANSPORT "${configured}". Expected one of ${EMAIL_TRANSPORT_IDS.join(', ')}`)
+    }
+    return configured as EmailTransportId
+  }
+
+  if (process.env.SMTP_HOST) return 'smtp'
+  if (process.env.RESEND_API_KEY) return 'resend'
+  return 'file'
+}
+
+export function createEmailTransport(id: EmailTransportId = emailTransportFromEnv()): EmailTransport {
+  switch (id) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST')
+      }
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+      })
+
+    case 'resend':
+      if (!process.env.RESEND_API_KEY) {
+        throw new Error('EMAIL_TRANSPORT=resend requires RESEND_API_KEY')
+      }
+      return new ResendTransport(process.env.RESEND_API_KEY)
+
+    case 'file':
+    default:
+      return new FileTransport(process.env.EMAIL_OUTPUT_DIR || path.join(process.cwd(), '.emails'))
+  }
+}
+
+let emailTransport: EmailTransport | null = null
+
+export function getEmailTransport(): EmailTransport {
+  if (!emailTransport) emailTransport = createEmailTransport()
+  return emailTransport
+}
+
+export function emailFromAddress(): string {
+  return process.env.EMAIL_FROM || 'HelpMeApply AI <no-reply@helpmeapply.app>'
+}
+
+/**
+ * Absolute URL for a path in the app, for links inside emails
+ */
+export function appUrl(pathname: string): string {
+  const base = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '')
+  return `${base}${pathname}`
+}
@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { EmailMessage, EmailTransport } from '../types'
+
+/**
+ * Writes each email to EMAIL_OUTPUT_DIR as .html and .txt files instead of
+ * sending it, and logs where it went. Used when no real transport is configured.
+ */
+export class FileTransport implements EmailTransport {
+  readonly id = 'file' as const
+
+  constructor(private outputDir: string) {}
+
+  async send(message: EmailMessage): Promise<{ messageId?: string }> {
+    const messageId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    const headers = Object.entries(message.headers || {}).map(([name, value]) => `${name}: ${value}`)
+    const envelope = [`From: ${message.from}`, `To: ${message.to}`, `Subject: ${message.subject}`, ...headers].join('\n')
+
+    await fs.mkdir(this.outputDir, { recursive: true })
+    const basePath = path.join(this.outputDir, messageId)
+    await fs.writeFile(`${basePath}.html`, message.html)
+    await fs.writeFile(`${basePath}.txt`, `${envelope}\n\n${message.text}`)
+
+    console.log(`📧 Email "${message.subject}" to ${message.to} written to ${basePath}.html`)
+    return { messageId }
+  }
+}
@@ -0,0 +1,39 @@
+import { EmailMessage, EmailTransport } from '../types'
+
+const RESEND_API_URL = 'https://api.resend.com/emails'
+const REQUEST_TIMEOUT_MS = 15000
+
+/**
+ * Resend's HTTP API (RESEND_API_KEY), for hosts that block outbound SMTP
+ */
+export class ResendTransport implements EmailTransport {
+  readonly id = 'resend' as const
+
+  constructor(private apiKey: string) {}
+
+  async send(message: EmailMessage): Promise<{ messageId?: string }> {
+    const response = await fetch(RESEND_API_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        reply_to: message.replyTo,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(`Resend rejected the email (${response.status}): ${body.message || response.statusText}`)
+    }
+    return { messageId: body.id }
+  }
+}
@@ -0,0 +1,40 @@
+import nodemailer, { Transporter } from 'nodemailer'
+import { EmailMessage, EmailTransport } from '../types'
+
+export interface SmtpTransportOptions {
+  host: string
+  port: number
+  secure: boolean // TLS from the start; otherwise STARTTLS when the server offers it
+  user?: string
+  password?: string
+}
+
+/**
+ * Any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE)
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly id = 'smtp' as const
+  private transporter: Transporter
+
+  constructor(options: SmtpTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    })
+  }
+
+  async send(message: EmailMessage): Promise<{ messageId?: string }> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      replyTo: message.replyTo,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers,
+    })
+    return { messageId: info.messageId }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Email Types
+ *
+ * Every outgoing email is a typed template rendered to HTML and text, then
+ * handed to one transport (SMTP, the Resend API, or files on disk for local
+ * development). Optional emails belong to a category the user can turn off.
+ */
+
+import { Digest } from '../digest/types'
+
+export type EmailTransportId = 'smtp' | 'resend' | 'file'
+
+export const EMAIL_TRANSPORT_IDS: EmailTransportId[] = ['smtp', 'resend', 'file']
+
+export interface EmailMessage {
+  to: string
+  from: string
+  replyTo?: string
+  subject: string
+  html: string
+  text: string
+  headers?: Record<string, string>
+}
+
+export interface EmailTransport {
+  id: EmailTransportId
+  /**
+   * Deliver one message; throws when the transport refuses it
+   */
+  send(message: EmailMessage): Promise<{ messageId?: string }>
+}
+
+/**
+ * Account emails are always sent; the rest follow the user's email preferences
+ */
+export type EmailCategory = 'account' | 'job_matches' | 'review_reminders' | 'application_updates' | 'digest'
+
+export type OptionalEmailCategory = Exclude<EmailCategory, 'account'>
+
+export const OPTIONAL_EMAIL_CATEGORIES: OptionalEmailCategory[] = ['job_matches', 'review_reminders', 'application_updates', 'digest']
+
+export interface EmailJobSummary {
+  title: string
+  company: string
+  matchScore: number // 0-1
+  location?: string
+}
+
+export interface EmailTemplateProps {
+  password_reset: { name?: string; resetUrl: string; expiresAt: Date }
+  digest: Digest
+  high_match_job: { name?: string; job: EmailJobSummary; dashboardUrl: string }
+  review_expiring: { name?: string; job: EmailJobSummary; expiresAt: Date; reviewUrl: string }
+  application_submitted: { name?: string; title: string; company: string; submittedAt: Date; applicationsUrl: string }
+  review_pending: { name?: string; job: EmailJobSummary; expiresAt: Date; reviewUrl: string }
+  automation_failed: { name?: string; title: string; company: string; error: string; applicationsUrl: string }
+  quota_low: { name?: string; quota: 'auto_applications' | 'mock_interviews'; remaining: number; limit: number; billingUrl: string }
+}
+
+export type EmailTemplateName = keyof EmailTemplateProps
+
+/**
+ * Links every optional email ends with
+ */
+export interface EmailFooterProps {
+  unsubscribeUrl?: string
+  preferencesUrl?: string
+}
+
+export type EmailSendStatus = 'sent' | 'skipped' | 'duplicate'
+
+export interface EmailSendResult {
+  status: EmailSendStatus
+  messageId?: string
+}
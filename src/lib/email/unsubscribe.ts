@@ -0,0 +1,62 @@
+import crypto from 'crypto'
+import { appUrl } from './transport'
+import { OPTIONAL_EMAIL_CATEGORIES, OptionalEmailCategory } from './types'
+
+// "all" turns off every optional email rather than one category
+export type UnsubscribeScope = OptionalEmailCategory | 'all'
+
+export interface UnsubscribeToken {
+  userId: string
+  scope: UnsubscribeScope
+}
+
+function unsubscribeSecret(): string {
+  const secret = process.env.EMAIL_UNSUBSCRIBE_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('EMAIL_UNSUBSCRIBE_SECRET or NEXTAUTH_SECRET is required to sign unsubscribe links')
+  }
+  return secret
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', unsubscribeSecret()).update(payload).digest('base64url')
+}
+
+/**
+ * Tokens don't expire, so a link in an old email keeps working. They only
+ * ever turn email off, which is why anyone holding one may use it.
+ */
+export function createUnsubscribeToken(userId: string, scope: UnsubscribeScope): string {
+  const payload = `${userId}.${scope}`
+  return `${payload}.${sign(payload)}`
+}
+
+export function verifyUnsubscribeToken(token: string): UnsubscribeToken | null {
+  const [userId, scope, signature] = token.split('.')
+  if (!userId || !scope || !signature) return null
+  if (scope !== 'all' && !OPTIONAL_EMAIL_CATEGORIES.includes(scope as OptionalEmailCategory)) return null
+
+  const expected = Buffer.from(sign(`${userId}.${scope}`))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null
+
+  return { userId, scope: scope as UnsubscribeScope }
+}
+
+/**
+ * Page the footer link opens, which asks before unsubscribing
+ */
+export function buildUnsubscribeUrl(userId: string, scope: UnsubscribeScope): string {
+  return appUrl(`/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(userId, scope))}`)
+}
+
+/**
+ * RFC 8058 one-click headers, so mail clients can unsubscribe with a POST
+ */
+export function buildUnsubscribeHeaders(userId: string, scope: UnsubscribeScope): Record<string, string> {
+  const endpoint = appUrl(`/api/email/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(userId, scope))}`)
+  return {
+    'List-Unsubscribe': `<${endpoint}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  }
+}
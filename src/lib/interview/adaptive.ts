@@ -0,0 +1,285 @@
+/**
+ * Adaptive Question Planning
+ *
+ * Picks the next interview move from what the candidate has said so far: a
+ * vague answer gets a follow-up probing what it left out, a strong answer
+ * raises the difficulty, and otherwise the interview moves on to the next
+ * competency from the job description it hasn't covered. The session's
+ * interview type and persona shape each of those moves; see strategies.ts.
+ */
+
+import { InterviewQuestion, InterviewSession } from '@prisma/client'
+import { prisma } from '../db'
+import { parseAnswerEvaluation } from './evaluation'
+import { competencyCoverage, getSessionCompetencies } from './competencies'
+import { interviewStyle, interviewTypeStrategy, panelistFor, PersonaStrategy, personaStrategy } from './strategies'
+import {
+  AnswerAssessment,
+  AnswerGap,
+  Competency,
+  CompetencyCoverage,
+  CompetencyKind,
+  InterviewQuestionType,
+  InterviewStyle,
+  QuestionPlan,
+} from './types'
+
+export const MAX_DIFFICULTY = 3
+
+const NO_STYLE: InterviewStyle = { type: null, persona: null }
+
+const SHORT_ANSWER_WORDS = 40
+const FULL_ANSWER_WORDS = 120
+
+const OUTCOME_PATTERN = /\b(result(ed)?|outcome|led to|increas|reduc|sav(ed|ing)|improv|grew|launched|shipped|deliver|achiev)/i
+
+/**
+ * Read an answer for vagueness. Uses the rubric grade when it has come in,
+ * otherwise a quick look at the text: the grade is queued and usually isn't
+ * ready by the time the next question is asked. How vague is too vague is
+ * up to the persona.
+ */
+export function assessAnswer(
+  question: Pick<InterviewQuestion, 'userAnswerText' | 'evaluation'>,
+  persona: PersonaStrategy = personaStrategy(null)
+): AnswerAssessment | null {
+  const evaluation = parseAnswerEvaluation(question.evaluation)
+  if (evaluation) {
+    const low = (id: string) => evaluation.criteria.some(c => c.id === id && c.score < persona.vagueScore)
+    const gaps: AnswerGap[] = []
+    if (low('star_structure')) gaps.push('personal_contribution', 'outcome')
+    if (low('quantified_impact')) gaps.push('numbers')
+    if (low('specificity')) gaps.push('detail')
+
+    return {
+      signal: evaluation.score < persona.vagueScore ? 'vague' : evaluation.score >= persona.strongScore ? 'strong' : 'adequate',
+      gaps,
+      source: 'evaluation',
+    }
+  }
+
+  const text = question.userAnswerText?.trim()
+  if (!text) return null
+
+  const words = text.split(/\s+/).length
+  const firstPerson = text.match(/\b(I|I'm|I've|I'd|my|me)\b/g)?.length || 0
+  const team = text.match(/\b(we|we're|we've|our|us|the team)\b/gi)?.length || 0
+
+  const gaps: AnswerGap[] = []
+  if (team > firstPerson * 2) gaps.push('personal_contribution')
+  if (!/\d|percent|twice|double|half/i.test(text)) gaps.push('numbers')
+  if (words < SHORT_ANSWER_WORDS) gaps.push('detail')
+  if (!OUTCOME_PATTERN.test(text)) gaps.push('outcome')
+
+  return {
+    signal: words < SHORT_ANSWER_WORDS || gaps.length >= persona.vagueGaps ? 'vague' : gaps.length === 0 && words >= FULL_ANSWER_WORDS ? 'strong' : 'adequate',
+    gaps,
+    source: 'heuristic',
+  }
+}
+
+type PlannedQuestion = Pick<
+  InterviewQuestion,
+  'id' | 'questionIndex' | 'questionText' | 'questionType' | 'userAnswerText' | 'evaluation' | 'competency' | 'difficulty' | 'followUpOfId' | 'interviewer'
+>
+
+// Follow-ups keep the question's own format; openings and closings are followed up like behavioral answers
+const FOLLOW_UP_TYPES = new Set<string>(['behavioral', 'technical', 'situational', 'system_design', 'case', 'negotiation', 'screening'])
+
+// How many follow-ups in a row end with this question
+function followUpDepth(question: PlannedQuestion, previous: PlannedQuestion[]): number {
+  let depth = 0
+  let current: PlannedQuestion | undefined = question
+  while (current?.followUpOfId) {
+    depth++
+    const parentId: string = current.followUpOfId
+    current = previous.find(q => q.id === parentId)
+  }
+  return depth
+}
+
+/**
+ * Choose the next move. `previous` is every question asked so far in the
+ * session, in order.
+ */
+export function planNextQuestion(
+  questionIndex: number,
+  totalQuestions: number,
+  competencies: Competency[],
+  previous: PlannedQuestion[],
+  style: InterviewStyle = NO_STYLE
+): QuestionPlan {
+  const strategy = interviewTypeStrategy(style.type)
+  const persona = personaStrategy(style.persona)
+  const interviewer = panelistFor(style.persona, questionIndex)
+
+  if (questionIndex === 0 && strategy.opening) {
+    return { move: 'opening', questionType: 'opening', competency: null, difficulty: 1, depth: 0, reason: 'First question', interviewer, followUpOf: null }
+  }
+  if (questionIndex >= totalQuestions - 1 && strategy.closing) {
+    return { move: 'closing', questionType: 'closing', competency: null, difficulty: 1, depth: 0, reason: 'Last question', interviewer, followUpOf: null }
+  }
+
+  const last = [...previous].filter(q => q.questionIndex < questionIndex).sort((a, b) => b.questionIndex - a.questionIndex)[0]
+  const assessment = last ? assessAnswer(last, persona) : null
+  const lastDifficulty = last?.difficulty || 1
+  const lastCompetency = competencies.find(c => c.name === last?.competency) || null
+  const questionTypeFor = (kind: CompetencyKind | undefined): InterviewQuestionType =>
+    strategy.questionType || (kind === 'technical' ? 'technical' : 'behavioral')
+  const askedOn = (name: string) => previous.filter(q => q.competency === name && !q.followUpOfId).length
+
+  // Following up on a follow-up turns into an interrogation, unless the persona is out to do exactly that
+  const followUpRound = last ? followUpDepth(last, previous) + 1 : 1
+  const canFollowUp = last && last.questionType !== 'opening' && last.questionText && last.userAnswerText &&
+    followUpRound <= persona.maxFollowUps
+  if (assessment?.signal === 'vague' && canFollowUp) {
+    return {
+      move: 'follow_up',
+      questionType: last.questionType && FOLLOW_UP_TYPES.has(last.questionType) ? last.questionType as InterviewQuestionType : 'behavioral',
+      competency: lastCompetency,
+      difficulty: lastDifficulty,
+      depth: lastCompetency ? askedOn(lastCompetency.name) : 0,
+      reason: `Previous answer was vague (${assessment.gaps.join(', ') || 'low score'})`,
+      // The panelist who asked gets to press their own point
+      interviewer: last.interviewer ?? interviewer,
+      followUpOf: {
+        questionId: last.id,
+        questionText: last.questionText!,
+        answerText: last.userAnswerText!,
+        gaps: assessment.gaps,
+        round: followUpRound,
+      },
+    }
+  }
+
+  // Scenario interviews stay with one problem for several questions
+  if (lastCompetency && strategy.questionsPerTopic > 1) {
+    const depth = askedOn(lastCompetency.name)
+    if (depth < strategy.questionsPerTopic) {
+      return {
+        move: 'deep_dive',
+        questionType: questionTypeFor(lastCompetency.kind),
+        competency: lastCompetency,
+        difficulty: Math.min(MAX_DIFFICULTY, lastDifficulty + 1),
+        depth,
+        reason: `Digging into ${lastCompetency.name} (${depth + 1} of ${strategy.questionsPerTopic})`,
+        interviewer,
+        followUpOf: null,
+      }
+    }
+  }
+
+  const coverage = competencyCoverage(competencies, previous)
+  const leastAsked = (candidates: CompetencyCoverage[]) =>
+    [...candidates].sort((a, b) => a.questions - b.questions)[0] || null
+  const preferredKind = strategy.competencyKind
+  const uncovered = coverage.filter(c => !c.covered)
+  const nextUncovered = (preferredKind && uncovered.find(c => c.kind === preferredKind)) || uncovered[0]
+  // A new scenario starts over at the bottom; competencies carry the difficulty on
+  const baseDifficulty = strategy.questionsPerTopic > 1 ? 1 : lastDifficulty
+
+  if (assessment?.signal === 'strong') {
+    const uncoveredHard = uncovered.filter(c => c.kind === (preferredKind || 'technical'))
+    const target = uncoveredHard[0] || nextUncovered || leastAsked(coverage)
+    return {
+      move: 'harder',
+      questionType: questionTypeFor(target?.kind || lastCompetency?.kind),
+      competency: target ? { name: target.name, kind: target.kind } : lastCompetency,
+      difficulty: Math.min(MAX_DIFFICULTY, baseDifficulty + 1),
+      depth: target ? target.questions : 0,
+      reason: 'Previous answer was strong',
+      interviewer,
+      followUpOf: null,
+    }
+  }
+
+  const target = nextUncovered || leastAsked(coverage)
+  return {
+    move: 'new_competency',
+    questionType: questionTypeFor(target?.kind),
+    competency: target ? { name: target.name, kind: target.kind } : null,
+    difficulty: baseDifficulty,
+    depth: target ? target.questions : 0,
+    reason: target ? `${target.name} not covered yet` : 'No competencies from the job description',
+    interviewer,
+    followUpOf: null,
+  }
+}
+
+const FOLLOW_UP_QUESTIONS: Record<AnswerGap, string> = {
+  personal_contribution: 'You talked about what the team did. What was your specific contribution, and which decisions were yours?',
+  numbers: 'How did you measure whether it worked? Can you put some numbers on the impact?',
+  detail: 'Can you walk me through that in more detail: what exactly did you do, step by step?',
+  outcome: 'How did it turn out in the end, and what would you do differently next time?',
+}
+
+/**
+ * Question text for a plan without calling OpenAI. Returns null for the
+ * moves the caller's own question banks cover (opening, closing, and
+ * sessions with nothing left to work through).
+ */
+export function builtInQuestionText(plan: QuestionPlan, style: InterviewStyle = NO_STYLE): string | null {
+  const strategy = interviewTypeStrategy(style.type)
+
+  if (plan.move === 'follow_up' && plan.followUpOf) {
+    const { gaps, round } = plan.followUpOf
+    const lead = round === 1 ? personaStrategy(style.persona).followUpLead : ''
+    const followUps = strategy.followUps || gaps.map(gap => FOLLOW_UP_QUESTIONS[gap])
+    return lead + (followUps[round - 1] || followUps[followUps.length - 1] || FOLLOW_UP_QUESTIONS.detail)
+  }
+
+  if (plan.move === 'closing') return strategy.closingQuestion || null
+
+  const competency = plan.competency
+  if (!competency || plan.move === 'opening') return null
+
+  const topic = strategy.topics.find(t => t.name === competency.name)
+  if (topic) {
+    if (plan.depth === 0) return topic.prompt
+    // Past the last probe, and for topics without any, the caller's banks take over
+    return topic.probes?.[plan.depth - 1] || null
+  }
+
+  if (competency.kind === 'technical') {
+    if (plan.difficulty >= 3) {
+      return `Suppose the ${competency.name} side of something you own had to handle ten times the load or scope next quarter. How would you approach it, and what would break first?`
+    }
+    if (plan.difficulty === 2) {
+      return `Walk me through the most complex thing you've built with ${competency.name}. What trade-offs did you make, and why?`
+    }
+    return `Tell me about a recent project where you used ${competency.name}. What was your role, and how did it turn out?`
+  }
+
+  if (plan.difficulty >= 3) {
+    return `Describe the hardest situation that has tested your ${competency.name.toLowerCase()}. What was at stake, and what would you do differently now?`
+  }
+  if (plan.difficulty === 2) {
+    return `Tell me about a time your ${competency.name.toLowerCase()} didn't go to plan. What happened, and what did you change afterwards?`
+  }
+  return `Tell me about a time you showed ${competency.name.toLowerCase()} at work. What was the situation, and what did you do?`
+}
+
+export interface SessionQuestionPlan {
+  plan: QuestionPlan
+  style: InterviewStyle
+  competencies: Competency[]
+  previous: InterviewQuestion[]
+}
+
+/**
+ * Load what the session has covered so far and plan its next question
+ */
+export async function planSessionQuestion(session: InterviewSession, questionIndex: number, totalQuestions: number): Promise<SessionQuestionPlan> {
+  const style = interviewStyle(session)
+  const [competencies, previous] = await Promise.all([
+    getSessionCompetencies(session),
+    prisma.interviewQuestion.findMany({
+      where: { sessionId: session.id, questionIndex: { lt: questionIndex } },
+      orderBy: { questionIndex: 'asc' },
+    }),
+  ])
+
+  const plan = planNextQuestion(questionIndex, totalQuestions, competencies, previous, style)
+  console.log(`🧭 Interview ${session.id} question ${questionIndex + 1}: ${plan.move}${plan.competency ? ` on ${plan.competency.name}` : ''} (${plan.reason})`)
+  return { plan, style, competencies, previous }
+}
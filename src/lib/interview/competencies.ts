@@ -0,0 +1,126 @@
+/**
+ * Interview Competencies
+ *
+ * The skills and behaviors a role asks for, pulled from the job description
+ * once per session. Questions work through them in order, so a short
+ * session covers the role instead of repeating generic prompts. Interview
+ * types that aren't about the job description, like a case interview, get
+ * their own topics instead.
+ */
+
+import { InterviewQuestion, InterviewSession } from '@prisma/client'
+import { prisma } from '../db'
+import { extractInterviewCompetencies } from '../openai'
+import { SKILLS_DATABASE } from '../skillsDatabase'
+import { interviewStyle, interviewTypeStrategy, pickTopics } from './strategies'
+import { Competency, CompetencyCoverage, CompetencyKind } from './types'
+
+export const MAX_COMPETENCIES = 6
+
+// Fewer of the interview type's own kind than this and its built-in topics fill in
+const MIN_PREFERRED_COMPETENCIES = 2
+
+const BEHAVIORAL_CATEGORIES = new Set([
+  'Communication Skills',
+  'Leadership Skills',
+  'Personal Effectiveness',
+  'Soft Skills',
+  'Business & Management',
+  'Human Resources',
+])
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Competencies named in the job description, most mentioned first, found
+ * by matching the skills database. Used when OpenAI isn't available.
+ */
+export function matchCompetencies(jobDescription: string, max: number = MAX_COMPETENCIES): Competency[] {
+  const matches = SKILLS_DATABASE.flatMap(skill => {
+    const mentions = [skill.name, ...skill.aliases].reduce((count, term) => {
+      // Short names like "Go" and "R" only count with their exact casing
+      const pattern = new RegExp(`(^|[^A-Za-z0-9+#.])${escapeRegExp(term)}(?![A-Za-z0-9+#])`, term.length <= 3 ? 'g' : 'gi')
+      return count + (jobDescription.match(pattern)?.length || 0)
+    }, 0)
+    if (mentions === 0) return []
+    const kind: CompetencyKind = BEHAVIORAL_CATEGORIES.has(skill.category) ? 'behavioral' : 'technical'
+    return [{ name: skill.name, kind, mentions }]
+  })
+
+  matches.sort((a, b) => b.mentions - a.mentions)
+
+  // Keep a behavioral competency in the mix when the description names one
+  const technical = matches.filter(m => m.kind === 'technical')
+  const behavioral = matches.filter(m => m.kind === 'behavioral')
+  const picked = [...technical.slice(0, max - Math.min(2, behavioral.length)), ...behavioral].slice(0, max)
+
+  return picked.map(({ name, kind }) => ({ name, kind }))
+}
+
+export function parseCompetencies(value: string | null): Competency[] | null {
+  if (!value) return null
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : null
+  } catch (error) {
+    return null
+  }
+}
+
+async function extractCompetencies(session: InterviewSession): Promise<Competency[]> {
+  try {
+    return process.env.OPENAI_API_KEY
+      ? (await extractInterviewCompetencies(session.jobTitle, session.jobDescription)).slice(0, MAX_COMPETENCIES)
+      : matchCompetencies(session.jobDescription)
+  } catch (error) {
+    console.error('Competency extraction error:', error)
+    return matchCompetencies(session.jobDescription)
+  }
+}
+
+/**
+ * The session's competencies, extracted and saved on first use. A
+ * behavioral or technical interview puts competencies of its kind first,
+ * topping up from its own topics when the job description names few.
+ */
+export async function getSessionCompetencies(session: InterviewSession): Promise<Competency[]> {
+  const stored = parseCompetencies(session.competencies)
+  if (stored) return stored
+
+  const { type } = interviewStyle(session)
+  const strategy = interviewTypeStrategy(type)
+
+  let competencies: Competency[]
+  if (type && strategy.source === 'topics') {
+    competencies = pickTopics(type, session.totalQuestions)
+  } else {
+    competencies = await extractCompetencies(session)
+
+    const kind = strategy.competencyKind
+    if (kind) {
+      const preferred = competencies.filter(c => c.kind === kind)
+      const topUp = strategy.topics
+        .slice(0, Math.max(0, MIN_PREFERRED_COMPETENCIES - preferred.length))
+        .map(topic => ({ name: topic.name, kind }))
+      competencies = [...preferred, ...topUp, ...competencies.filter(c => c.kind !== kind)].slice(0, MAX_COMPETENCIES)
+    }
+  }
+
+  await prisma.interviewSession.update({
+    where: { id: session.id },
+    data: { competencies: JSON.stringify(competencies) },
+  })
+  return competencies
+}
+
+export function competencyCoverage(
+  competencies: Competency[],
+  questions: Array<Pick<InterviewQuestion, 'competency' | 'followUpOfId'>>
+): CompetencyCoverage[] {
+  return competencies.map(competency => {
+    const count = questions.filter(q => q.competency === competency.name && !q.followUpOfId).length
+    return { ...competency, questions: count, covered: count > 0 }
+  })
+}
@@ -0,0 +1,192 @@
+/**
+ * Competency Drills
+ *
+ * Spaced repetition over the competencies a user's answers have been graded
+ * on. Each grade moves the competency's next review (SM-2: a weak answer
+ * brings it back the next day, each passing answer pushes it further out),
+ * and a drill session practices the weakest competencies that are due.
+ */
+
+import { InterviewQuestion } from '@prisma/client'
+import { prisma } from '../db'
+import { parseCompetencies } from './competencies'
+import { Competency, CompetencyKind, DrillCompetency, DrillUnavailableError } from './types'
+
+export const DRILL_COMPETENCIES = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PASSING_QUALITY = 3 // Of 5
+const DEFAULT_EASINESS = 2.5
+const MIN_EASINESS = 1.3
+
+export interface ReviewSchedule {
+  repetitions: number
+  easiness: number
+  intervalDays: number
+}
+
+/**
+ * SM-2 step for one graded answer. The 0-1 score is read as a 0-5 recall
+ * quality; below 3 the competency starts over.
+ */
+export function nextReview(schedule: ReviewSchedule, score: number): ReviewSchedule {
+  const quality = Math.round(Math.min(1, Math.max(0, score)) * 5)
+  const easiness = Math.round(Math.max(MIN_EASINESS, schedule.easiness + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)) * 100) / 100
+
+  if (quality < PASSING_QUALITY) {
+    return { repetitions: 0, easiness, intervalDays: 1 }
+  }
+
+  const repetitions = schedule.repetitions + 1
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(schedule.intervalDays * easiness)
+  return { repetitions, easiness, intervalDays }
+}
+
+// For answers graded before the session's competencies recorded a kind
+function kindFromQuestionType(questionType: string | null): CompetencyKind {
+  return questionType === 'technical' || questionType === 'system_design' ? 'technical' : 'behavioral'
+}
+
+/**
+ * Move a competency along its review schedule after a graded answer
+ */
+export async function recordCompetencyPractice(userId: string, competency: Competency, score: number): Promise<void> {
+  const now = new Date()
+  const existing = await prisma.competencyPractice.findUnique({
+    where: { userId_competency: { userId, competency: competency.name } },
+  })
+
+  const schedule = nextReview(
+    existing ?? { repetitions: 0, easiness: DEFAULT_EASINESS, intervalDays: 0 },
+    score
+  )
+  const attempts = (existing?.attempts || 0) + 1
+  const averageScore = Math.round((((existing?.averageScore || 0) * (attempts - 1) + score) / attempts) * 100) / 100
+  const data = {
+    kind: competency.kind,
+    averageScore,
+    attempts,
+    lastScore: score,
+    ...schedule,
+    dueAt: new Date(now.getTime() + schedule.intervalDays * DAY_MS),
+    lastPracticedAt: now,
+  }
+
+  await prisma.competencyPractice.upsert({
+    where: { userId_competency: { userId, competency: competency.name } },
+    create: { userId, competency: competency.name, ...data },
+    update: data,
+  })
+}
+
+/**
+ * Update the schedule for a freshly graded answer, if it was on a competency
+ */
+export async function recordAnswerPractice(
+  question: Pick<InterviewQuestion, 'competency' | 'questionType'>,
+  session: { userId: string; competencies: string | null },
+  score: number
+): Promise<void> {
+  if (!question.competency) return
+
+  const kind = parseCompetencies(session.competencies)?.find(c => c.name === question.competency)?.kind
+    ?? kindFromQuestionType(question.questionType)
+  await recordCompetencyPractice(session.userId, { name: question.competency, kind }, score)
+}
+
+/**
+ * Every competency the user has been graded on, weakest first. Answers
+ * graded before scheduling existed still count, and are due right away.
+ */
+export async function listDrillCompetencies(userId: string, now: Date = new Date()): Promise<DrillCompetency[]> {
+  const [practice, sessions] = await Promise.all([
+    prisma.competencyPractice.findMany({ where: { userId } }),
+    prisma.interviewSession.findMany({ where: { userId }, select: { id: true } }),
+  ])
+
+  const competencies: DrillCompetency[] = practice.map(p => ({
+    name: p.competency,
+    kind: p.kind === 'technical' ? 'technical' : 'behavioral',
+    averageScore: p.averageScore,
+    attempts: p.attempts,
+    lastScore: p.lastScore,
+    dueAt: p.dueAt,
+    due: p.dueAt <= now,
+  }))
+
+  const scheduled = new Set(competencies.map(c => c.name))
+  const history = await prisma.interviewQuestion.findMany({
+    where: {
+      sessionId: { in: sessions.map(s => s.id) },
+      competency: { not: null },
+      score: { not: null },
+    },
+    select: { competency: true, questionType: true, score: true, answeredAt: true },
+    orderBy: { answeredAt: 'asc' },
+  })
+
+  const unscheduled = new Map<string, { kind: CompetencyKind; scores: number[] }>()
+  for (const question of history) {
+    if (!question.competency || scheduled.has(question.competency)) continue
+    const entry = unscheduled.get(question.competency) || { kind: kindFromQuestionType(question.questionType), scores: [] }
+    entry.scores.push(question.score!)
+    unscheduled.set(question.competency, entry)
+  }
+
+  for (const [name, { kind, scores }] of unscheduled) {
+    competencies.push({
+      name,
+      kind,
+      averageScore: Math.round((scores.reduce((sum, s) => sum + s, 0) / scores.length) * 100) / 100,
+      attempts: scores.length,
+      lastScore: scores[scores.length - 1],
+      dueAt: now,
+      due: true,
+    })
+  }
+
+  return competencies.sort((a, b) => a.averageScore - b.averageScore)
+}
+
+/**
+ * What a drill should practice: the weakest competencies that are due,
+ * topped up with the weakest of the rest when few are due
+ */
+export async function pickDrillCompetencies(userId: string, max: number = DRILL_COMPETENCIES): Promise<DrillCompetency[]> {
+  const competencies = await listDrillCompetencies(userId)
+  return [...competencies.filter(c => c.due), ...competencies.filter(c => !c.due)].slice(0, max)
+}
+
+const DRILL_QUESTIONS_PER_COMPETENCY = 2
+
+/**
+ * What a new drill session is about. Drills aren't tied to an application,
+ * so the job context comes from the profile. Throws DrillUnavailableError
+ * when nothing has been graded yet.
+ */
+export async function drillSessionData(userId: string) {
+  const [competencies, profile] = await Promise.all([
+    pickDrillCompetencies(userId),
+    prisma.profile.findUnique({ where: { userId } }),
+  ])
+
+  if (competencies.length === 0) {
+    throw new DrillUnavailableError()
+  }
+
+  let preferredTitle: string | undefined
+  try {
+    preferredTitle = JSON.parse(profile?.jobTitlePrefs || '[]')[0]
+  } catch (error) {
+    preferredTitle = undefined
+  }
+
+  return {
+    jobTitle: profile?.defaultJobTitle || preferredTitle || 'Practice drill',
+    company: '',
+    jobDescription: '',
+    resumeUrl: profile?.resumeUrl || '',
+    totalQuestions: competencies.length * DRILL_QUESTIONS_PER_COMPETENCY,
+    competencies: JSON.stringify(competencies.map(({ name, kind }) => ({ name, kind }))),
+  }
+}
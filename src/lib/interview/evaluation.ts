@@ -0,0 +1,108 @@
+/**
+ * Interview Answer Evaluation
+ *
+ * Grades a submitted practice answer against the rubric for its question
+ * type, weighted for the session's interviewer persona, and moves the
+ * answer's competency along its drill schedule. Runs as a queued job after
+ * submit-answer, so a slow model call never holds up the next question.
+ */
+
+import { prisma } from '../db'
+import { evaluateInterviewAnswer } from '../openai'
+import { JobType } from '../queue/jobTypes'
+import { classifyQuestion, isInterviewQuestionType, rubricFor, scoreWithRubric } from './rubrics'
+import { interviewStyle } from './strategies'
+import { recordAnswerPractice } from './drills'
+import { requestSessionReport } from './report'
+import { parseTranscript } from './transcription'
+import { AnswerEvaluation, RubricCriterionId } from './types'
+
+export async function enqueueAnswerEvaluation(questionId: string, userId: string): Promise<void> {
+  const { queueManager } = await import('../queue')
+  await queueManager.enqueue(JobType.EVALUATE_INTERVIEW_ANSWER, { questionId, userId }, {
+    deduplicationKey: `interview_answer_${questionId}`,
+  })
+}
+
+export function parseAnswerEvaluation(value: string | null): AnswerEvaluation | null {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Grade one answer and store the score, feedback and full evaluation on the
+ * question. Answers without text (audio that hasn't been transcribed) are
+ * left ungraded. Returns null when there was nothing to grade. An answer
+ * already graded since it was submitted isn't graded again, so a retry after
+ * the report request failed doesn't move its drill schedule twice.
+ */
+export async function evaluateAnswer(questionId: string): Promise<AnswerEvaluation | null> {
+  const question = await prisma.interviewQuestion.findUnique({
+    where: { id: questionId },
+    include: { session: true },
+  })
+
+  if (!question || !question.answeredAt || !question.userAnswerText?.trim()) {
+    return null
+  }
+
+  const { session } = question
+  if (question.evaluatedAt && question.evaluatedAt >= question.answeredAt) {
+    await requestSessionReport(session.id, session.userId)
+    return parseAnswerEvaluation(question.evaluation)
+  }
+
+  const questionType = isInterviewQuestionType(question.questionType)
+    ? question.questionType
+    : classifyQuestion(question.questionText, question.questionIndex, session.totalQuestions)
+  const rubric = rubricFor(questionType, interviewStyle(session).persona)
+
+  const result = await evaluateInterviewAnswer({
+    job: {
+      title: session.jobTitle,
+      company: session.company,
+      description: session.jobDescription,
+    },
+    question: question.questionText || 'Interview question (audio only)',
+    answer: question.userAnswerText,
+    spoken: parseTranscript(question.transcript)?.text === question.userAnswerText,
+    criteria: rubric.criteria.map(({ id, label, description }) => ({ id, label, description })),
+  })
+
+  const criteria = result.criteria.map(c => ({ ...c, id: c.id as RubricCriterionId }))
+  const evaluation: AnswerEvaluation = {
+    questionType,
+    score: scoreWithRubric(rubric, criteria),
+    criteria,
+    feedback: result.feedback,
+    strengths: result.strengths,
+    improvements: result.improvements,
+  }
+
+  await prisma.interviewQuestion.update({
+    where: { id: questionId },
+    data: {
+      questionType,
+      score: evaluation.score,
+      feedback: evaluation.feedback,
+      evaluation: JSON.stringify(evaluation),
+      evaluatedAt: new Date(),
+    },
+  })
+
+  console.log(`📝 Graded interview answer ${questionId} (${questionType}): ${Math.round(evaluation.score * 100)}%`)
+
+  // A missed review date isn't worth failing the grade over
+  try {
+    await recordAnswerPractice(question, session, evaluation.score)
+  } catch (error) {
+    console.error('Competency practice update error:', error)
+  }
+
+  await requestSessionReport(session.id, session.userId)
+  return evaluation
+}
@@ -0,0 +1,63 @@
+/**
+ * Interview Module Main Export
+ *
+ * Interview types and personas, the question bank, adaptive question
+ * planning, transcription and rubric grading for practice interview
+ * answers, the report a finished session rolls up into, and drills that
+ * bring weak competencies back on a spaced repetition schedule.
+ */
+
+export * from './types'
+export { RUBRIC_CRITERIA, classifyQuestion, isInterviewQuestionType, rubricFor, scoreWithRubric } from './rubrics'
+export { enqueueAnswerEvaluation, evaluateAnswer, parseAnswerEvaluation } from './evaluation'
+export { requestSessionReport, buildSessionReport, parseSessionReport } from './report'
+export {
+  enqueueAnswerTranscription,
+  transcribeAnswer,
+  markTranscriptionFailed,
+  parseTranscript,
+  parseSpeakingMetrics,
+} from './transcription'
+export { MAX_COMPETENCIES, matchCompetencies, parseCompetencies, getSessionCompetencies, competencyCoverage } from './competencies'
+export {
+  GENERAL_INTERVIEW,
+  INTERVIEW_TYPE_STRATEGIES,
+  DEFAULT_PERSONA,
+  PERSONA_STRATEGIES,
+  isInterviewType,
+  isInterviewPersona,
+  interviewStyle,
+  interviewTypeStrategy,
+  personaStrategy,
+  panelistFor,
+  pickTopics,
+} from './strategies'
+export type { InterviewTopic, InterviewTypeStrategy, PersonaStrategy } from './strategies'
+export { MAX_DIFFICULTY, assessAnswer, planNextQuestion, builtInQuestionText, planSessionQuestion } from './adaptive'
+export type { SessionQuestionPlan } from './adaptive'
+export {
+  SEED_QUESTIONS,
+  roleFamilyFor,
+  seniorityFor,
+  questionKey,
+  sessionBankTags,
+  ensureQuestionBankSeeded,
+  addBankQuestion,
+  bankGeneratedQuestion,
+  listShareCandidates,
+  shareBankQuestion,
+  listBankQuestions,
+  findBankQuestion,
+  chooseQuestionText,
+} from './questionBank'
+export type { NewBankQuestion } from './questionBank'
+export {
+  DRILL_COMPETENCIES,
+  nextReview,
+  recordCompetencyPractice,
+  recordAnswerPractice,
+  listDrillCompetencies,
+  pickDrillCompetencies,
+  drillSessionData,
+} from './drills'
+export type { ReviewSchedule } from './drills'
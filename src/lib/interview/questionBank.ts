@@ -0,0 +1,329 @@
+/**
+ * Interview Question Bank
+ *
+ * Questions tagged by competency, seniority, role family, company and
+ * difficulty, so a session can ask one that fits instead of a generic
+ * prompt. Seeded with the built-in questions on first use. Generated
+ * questions and the ones users add are private to that user, since they're
+ * written from their job and answers; an admin can share one with everyone.
+ */
+
+import { InterviewBankQuestion, InterviewBankQuestionSource, InterviewSession } from '@prisma/client'
+import { prisma } from '../db'
+import { builtInQuestionText } from './adaptive'
+import { interviewTypeStrategy } from './strategies'
+import {
+  BankQuestionCriteria,
+  BankQuestionTags,
+  InterviewQuestionType,
+  InterviewStyle,
+  QuestionPlan,
+  RoleFamily,
+  Seniority,
+} from './types'
+
+interface SeedQuestion extends Partial<BankQuestionTags> {
+  text: string
+  questionType: InterviewQuestionType
+}
+
+export const SEED_QUESTIONS: SeedQuestion[] = [
+  { text: 'Tell me about yourself and your professional background.', questionType: 'opening' },
+  { text: 'Why are you interested in this position at our company?', questionType: 'opening' },
+  { text: 'What attracted you to apply for this role?', questionType: 'opening' },
+  { text: 'What are your greatest strengths?', questionType: 'opening' },
+  { text: 'Walk me through your approach to solving a complex technical problem.', questionType: 'technical', competency: 'Problem Solving', roleFamily: 'engineering', difficulty: 2 },
+  { text: 'Describe your management style and how you handle team conflicts.', questionType: 'technical', competency: 'People Management', roleFamily: 'management' },
+  { text: 'Tell me about your design process from concept to final product.', questionType: 'technical', roleFamily: 'design' },
+  { text: 'What technical skills make you well-suited for this position?', questionType: 'technical' },
+  { text: 'Describe a challenging project you\'ve worked on and how you overcame obstacles.', questionType: 'behavioral', competency: 'Problem Solving' },
+  { text: 'Tell me about a time when you had to learn a new technology quickly.', questionType: 'behavioral', competency: 'Continuous Learning' },
+  { text: 'Give me an example of when you collaborated with a difficult team member.', questionType: 'behavioral', competency: 'Conflict Resolution' },
+  { text: 'How do you handle tight deadlines and pressure?', questionType: 'situational', competency: 'Stress Management' },
+  { text: 'Describe a time when you failed at something. What did you learn?', questionType: 'behavioral', competency: 'Accountability', difficulty: 2 },
+  { text: 'Tell me about a time you went above and beyond for a project.', questionType: 'behavioral', competency: 'Self-Motivation' },
+  { text: 'Where do you see yourself in 5 years?', questionType: 'closing' },
+  { text: 'What questions do you have for me about the role or company?', questionType: 'closing' },
+  { text: 'What would success look like for you in this position?', questionType: 'closing' },
+]
+
+// First match wins, so a Product Manager is product but an Engineering Manager is management
+const ROLE_FAMILY_PATTERNS: Array<[RoleFamily, RegExp]> = [
+  ['product', /\b(product)\b/i],
+  ['management', /\b(manager|head of|director|vp|vice president|chief|cto|ceo)\b/i],
+  ['data', /\b(data|analytics|machine learning|ml|ai|scientist)\b/i],
+  ['engineering', /\b(engineer|developer|programmer|sre|devops|architect)\b/i],
+  ['design', /\b(designer|ux|ui|design)\b/i],
+  ['sales', /\b(sales|account executive|business development|sdr|bdr)\b/i],
+  ['marketing', /\b(marketing|growth|content|seo|brand)\b/i],
+  ['operations', /\b(operations|ops|logistics|supply chain|hr|recruit(er|ing)|people)\b/i],
+]
+
+const SENIORITY_PATTERNS: Array<[Seniority, RegExp]> = [
+  ['lead', /\b(lead|principal|staff|head|director|vp|chief)\b/i],
+  ['senior', /\b(senior|sr\.?|iii)\b/i],
+  ['junior', /\b(junior|jr\.?|intern|graduate|entry[- ]level|associate)\b/i],
+]
+
+export function roleFamilyFor(jobTitle: string): RoleFamily | null {
+  return ROLE_FAMILY_PATTERNS.find(([, pattern]) => pattern.test(jobTitle))?.[0] ?? null
+}
+
+export function seniorityFor(jobTitle: string): Seniority | null {
+  return SENIORITY_PATTERNS.find(([, pattern]) => pattern.test(jobTitle))?.[0] ?? null
+}
+
+// Wording-insensitive key, so the same question isn't banked twice
+export function questionKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+export function sessionBankTags(session: Pick<InterviewSession, 'jobTitle' | 'company'>): Pick<BankQuestionTags, 'seniority' | 'roleFamily' | 'company'> {
+  return {
+    seniority: seniorityFor(session.jobTitle),
+    roleFamily: roleFamilyFor(session.jobTitle),
+    company: session.company || null,
+  }
+}
+
+let seeding: Promise<void> | null = null
+
+/**
+ * Add the built-in questions to the bank if they aren't there yet. Runs
+ * once per process.
+ */
+export function ensureQuestionBankSeeded(): Promise<void> {
+  if (!seeding) {
+    seeding = (async () => {
+      const seeded = await prisma.interviewBankQuestion.count({ where: { source: 'SEED' } })
+      if (seeded > 0) return
+
+      await prisma.interviewBankQuestion.createMany({
+        data: SEED_QUESTIONS.map(question => ({
+          userId: null,
+          questionKey: questionKey(question.text),
+          text: question.text,
+          questionType: question.questionType,
+          competency: question.competency ?? null,
+          seniority: question.seniority ?? null,
+          roleFamily: question.roleFamily ?? null,
+          company: question.company ?? null,
+          difficulty: question.difficulty ?? 1,
+          source: 'SEED' as const,
+        })),
+      })
+      console.log(`🌱 Seeded interview question bank with ${SEED_QUESTIONS.length} questions`)
+    })().catch(error => {
+      seeding = null
+      throw error
+    })
+  }
+  return seeding
+}
+
+export interface NewBankQuestion extends Partial<BankQuestionTags> {
+  text: string
+  questionType: InterviewQuestionType
+  source: InterviewBankQuestionSource
+  userId?: string | null // Set for a private question
+}
+
+/**
+ * Add a question to the bank, or return the one already there with the
+ * same wording
+ */
+export async function addBankQuestion(question: NewBankQuestion): Promise<InterviewBankQuestion> {
+  const key = questionKey(question.text)
+  const userId = question.userId ?? null
+
+  const existing = await prisma.interviewBankQuestion.findFirst({
+    where: { questionKey: key, OR: [{ userId: null }, ...(userId ? [{ userId }] : [])] },
+  })
+  if (existing) return existing
+
+  return prisma.interviewBankQuestion.create({
+    data: {
+      userId,
+      questionKey: key,
+      text: question.text.trim(),
+      questionType: question.questionType,
+      competency: question.competency ?? null,
+      seniority: question.seniority ?? null,
+      roleFamily: question.roleFamily ?? null,
+      company: question.company ?? null,
+      difficulty: question.difficulty ?? 1,
+      source: question.source,
+    },
+  })
+}
+
+/**
+ * Keep a generated question for the user's later sessions. Follow-ups and
+ * deep dives answer one conversation, so they aren't worth keeping.
+ */
+export async function bankGeneratedQuestion(session: InterviewSession, plan: QuestionPlan, text: string): Promise<void> {
+  if (plan.move === 'follow_up' || plan.move === 'deep_dive') return
+
+  try {
+    await addBankQuestion({
+      text,
+      questionType: plan.questionType,
+      competency: plan.competency?.name ?? null,
+      difficulty: plan.difficulty,
+      ...sessionBankTags(session),
+      source: 'AI',
+      userId: session.userId,
+    })
+  } catch (error) {
+    console.error('Question bank save error:', error)
+  }
+}
+
+/**
+ * Private questions across all users, most asked first, for an admin to
+ * pick ones worth sharing. Owners aren't included.
+ */
+export async function listShareCandidates(limit: number = 100): Promise<Omit<InterviewBankQuestion, 'userId'>[]> {
+  return prisma.interviewBankQuestion.findMany({
+    where: { userId: { not: null } },
+    orderBy: [{ timesAsked: 'desc' }, { createdAt: 'desc' }],
+    take: limit,
+    omit: { userId: true },
+  })
+}
+
+/**
+ * Share a private question with everyone as a copy; the owner keeps theirs
+ * @returns The shared question, or null when there's no private one with that ID
+ */
+export async function shareBankQuestion(questionId: string): Promise<InterviewBankQuestion | null> {
+  const question = await prisma.interviewBankQuestion.findFirst({
+    where: { id: questionId, userId: { not: null } },
+  })
+  if (!question) return null
+
+  return addBankQuestion({
+    text: question.text,
+    questionType: question.questionType as InterviewQuestionType,
+    competency: question.competency,
+    seniority: question.seniority as Seniority | null,
+    roleFamily: question.roleFamily as RoleFamily | null,
+    company: question.company,
+    difficulty: question.difficulty,
+    source: question.source,
+    userId: null,
+  })
+}
+
+function visibleTo(userId: string) {
+  return { OR: [{ userId: null }, { userId }] }
+}
+
+/**
+ * Questions the user can see, their own first
+ */
+export async function listBankQuestions(userId: string, criteria: BankQuestionCriteria = {}): Promise<InterviewBankQuestion[]> {
+  await ensureQuestionBankSeeded()
+
+  const questions = await prisma.interviewBankQuestion.findMany({
+    where: {
+      AND: [
+        visibleTo(userId),
+        criteria.questionType ? { questionType: criteria.questionType } : {},
+        criteria.competency ? { competency: { equals: criteria.competency, mode: 'insensitive' as const } } : {},
+        criteria.seniority ? { seniority: criteria.seniority } : {},
+        criteria.roleFamily ? { roleFamily: criteria.roleFamily } : {},
+        criteria.company ? { company: { equals: criteria.company, mode: 'insensitive' as const } } : {},
+        criteria.difficulty ? { difficulty: criteria.difficulty } : {},
+      ],
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 500,
+  })
+
+  return [...questions.filter(q => q.userId), ...questions.filter(q => !q.userId)]
+}
+
+/**
+ * The best-fitting question the session hasn't asked yet. Tags that are
+ * set on a question have to match; the more of them match, and the closer
+ * the difficulty, the better the fit.
+ */
+export async function findBankQuestion(userId: string, criteria: BankQuestionCriteria): Promise<InterviewBankQuestion | null> {
+  await ensureQuestionBankSeeded()
+
+  const candidates = await prisma.interviewBankQuestion.findMany({
+    where: {
+      AND: [
+        visibleTo(userId),
+        criteria.questionType ? { questionType: criteria.questionType } : {},
+        criteria.competency ? { competency: { equals: criteria.competency, mode: 'insensitive' as const } } : {},
+      ],
+    },
+    take: 200,
+  })
+
+  const asked = new Set((criteria.exclude || []).map(questionKey))
+  const matches = (tag: string | null, wanted: string | null | undefined) =>
+    !tag || (!!wanted && tag.toLowerCase() === wanted.toLowerCase())
+
+  const fitting = candidates.filter(q =>
+    !asked.has(q.questionKey) &&
+    matches(q.roleFamily, criteria.roleFamily) &&
+    matches(q.seniority, criteria.seniority) &&
+    matches(q.company, criteria.company)
+  )
+  if (fitting.length === 0) return null
+
+  const fit = (q: InterviewBankQuestion) =>
+    (q.userId ? 2 : 0) +
+    (q.company ? 3 : 0) +
+    (q.roleFamily ? 2 : 0) +
+    (q.seniority ? 1 : 0) -
+    Math.abs(q.difficulty - (criteria.difficulty ?? 1))
+
+  // Among equally good fits, the least asked, so repeat sessions vary
+  const best = fitting.sort((a, b) => fit(b) - fit(a) || a.timesAsked - b.timesAsked)[0]
+
+  await prisma.interviewBankQuestion.update({
+    where: { id: best.id },
+    data: { timesAsked: { increment: 1 }, lastAskedAt: new Date() },
+  })
+  return best
+}
+
+/**
+ * Question text for a plan without OpenAI. Follow-ups and scenario probes
+ * come from the plan, since they're written for this conversation; other
+ * moves prefer a banked question on the plan's competency, then the
+ * built-in template, then any banked question of the right type.
+ */
+export async function chooseQuestionText(
+  session: InterviewSession,
+  plan: QuestionPlan,
+  style: InterviewStyle,
+  asked: string[]
+): Promise<string> {
+  const askedKeys = new Set(asked.map(questionKey))
+  const builtIn = builtInQuestionText(plan, style)
+  const freshBuiltIn = builtIn && !askedKeys.has(questionKey(builtIn)) ? builtIn : null
+
+  const conversational = plan.move === 'follow_up' || plan.move === 'deep_dive' || interviewTypeStrategy(style.type).source === 'topics'
+  if (conversational && freshBuiltIn) return freshBuiltIn
+
+  const criteria: BankQuestionCriteria = {
+    questionType: plan.questionType,
+    difficulty: plan.difficulty,
+    ...sessionBankTags(session),
+    exclude: asked,
+  }
+
+  if (plan.competency) {
+    const onCompetency = await findBankQuestion(session.userId, { ...criteria, competency: plan.competency.name })
+    if (onCompetency) return onCompetency.text
+  }
+  if (freshBuiltIn) return freshBuiltIn
+
+  const anyOfType = await findBankQuestion(session.userId, criteria)
+  return anyOfType?.text || builtIn || SEED_QUESTIONS[0].text
+}
@@ -0,0 +1,184 @@
+/**
+ * Interview Session Report
+ *
+ * Once a session is completed and every answer with text has been graded,
+ * the grades are rolled up into one report: overall score, averages per
+ * rubric criterion, strengths and weaknesses across answers, a better
+ * version of the weakest answer and, for recorded answers, how they were
+ * delivered.
+ */
+
+import { prisma } from '../db'
+import { summarizeInterviewSession } from '../openai'
+import { JobType } from '../queue/jobTypes'
+import { SpeakingMetrics } from '../transcription/types'
+import { parseAnswerEvaluation } from './evaluation'
+import { parseSpeakingMetrics } from './transcription'
+import { AnswerEvaluation, RubricCriterionId, SessionReport, SessionSpeakingSummary } from './types'
+
+export function parseSessionReport(value: string | null): SessionReport | null {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Queue the session's report if it's ready: the session is completed, at
+ * least one answer is graded, no recording is still being transcribed and
+ * no answer with text is still waiting for its grade. Safe to call after
+ * every grade; only the last one queues anything.
+ */
+export async function requestSessionReport(sessionId: string, userId: string): Promise<boolean> {
+  const session = await prisma.interviewSession.findUnique({
+    where: { id: sessionId },
+    include: { questions: true },
+  })
+
+  if (!session || session.status !== 'COMPLETED') return false
+
+  if (session.questions.some(q => q.transcriptionStatus === 'PENDING')) return false
+
+  const gradable = session.questions.filter(q => q.answeredAt && q.userAnswerText?.trim())
+  if (gradable.length === 0 || gradable.some(q => !q.evaluatedAt)) return false
+
+  const { queueManager } = await import('../queue')
+  await queueManager.enqueue(JobType.BUILD_INTERVIEW_REPORT, { sessionId, userId }, {
+    deduplicationKey: `interview_report_${sessionId}`,
+  })
+  return true
+}
+
+function averageCriteria(evaluations: AnswerEvaluation[]): Partial<Record<RubricCriterionId, number>> {
+  const totals: Partial<Record<RubricCriterionId, { sum: number; count: number }>> = {}
+  for (const evaluation of evaluations) {
+    for (const criterion of evaluation.criteria) {
+      const total = totals[criterion.id] || { sum: 0, count: 0 }
+      total.sum += criterion.score
+      total.count++
+      totals[criterion.id] = total
+    }
+  }
+
+  const averages: Partial<Record<RubricCriterionId, number>> = {}
+  for (const [id, total] of Object.entries(totals) as Array<[RubricCriterionId, { sum: number; count: number }]>) {
+    averages[id] = Math.round((total.sum / total.count) * 100) / 100
+  }
+  return averages
+}
+
+function summarizeSpeaking(metrics: SpeakingMetrics[]): SessionSpeakingSummary | null {
+  if (metrics.length === 0) return null
+
+  const words = metrics.reduce((sum, m) => sum + m.wordCount, 0)
+  const minutes = metrics.reduce((sum, m) => sum + m.speakingSeconds, 0) / 60
+  const fillerWords = metrics.reduce((sum, m) => sum + m.fillerWords.total, 0)
+
+  const fillerCounts: Record<string, number> = {}
+  for (const m of metrics) {
+    for (const [word, count] of Object.entries(m.fillerWords.counts)) {
+      fillerCounts[word] = (fillerCounts[word] || 0) + count
+    }
+  }
+
+  return {
+    answers: metrics.length,
+    wordsPerMinute: minutes > 0 ? Math.round(words / minutes) : 0,
+    fillerWords,
+    fillerWordsPerMinute: minutes > 0 ? Math.round((fillerWords / minutes) * 10) / 10 : 0,
+    topFillers: Object.entries(fillerCounts)
+      .map(([word, count]) => ({ word, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5),
+    longPauses: metrics.reduce((sum, m) => sum + m.longPauses.count, 0),
+    longestPauseSeconds: Math.max(...metrics.map(m => m.longPauses.longestSeconds)),
+  }
+}
+
+/**
+ * Build and store the report for a session. Also sets the session's
+ * overallScore and feedback, which the interview history already shows.
+ */
+export async function buildSessionReport(sessionId: string): Promise<SessionReport | null> {
+  const session = await prisma.interviewSession.findUnique({
+    where: { id: sessionId },
+    include: { questions: { orderBy: { questionIndex: 'asc' } } },
+  })
+
+  if (!session) return null
+
+  const answered = session.questions.filter(q => q.answeredAt)
+  const graded = answered.flatMap(q => {
+    const evaluation = parseAnswerEvaluation(q.evaluation)
+    return evaluation ? [{ question: q, evaluation }] : []
+  })
+
+  if (graded.length === 0) return null
+
+  const overallScore = Math.round((graded.reduce((sum, g) => sum + g.evaluation.score, 0) / graded.length) * 100) / 100
+  const weakest = graded.reduce((lowest, g) => g.evaluation.score < lowest.evaluation.score ? g : lowest)
+  const speaking = summarizeSpeaking(answered.flatMap(q => {
+    const metrics = parseSpeakingMetrics(q.speakingMetrics)
+    return metrics ? [metrics] : []
+  }))
+
+  const summary = await summarizeInterviewSession({
+    job: {
+      title: session.jobTitle,
+      company: session.company,
+      description: session.jobDescription,
+    },
+    answers: graded.map(({ question, evaluation }) => ({
+      question: question.questionText || 'Interview question (audio only)',
+      answer: question.userAnswerText || '',
+      score: evaluation.score,
+      feedback: evaluation.feedback,
+      strengths: evaluation.strengths,
+      improvements: evaluation.improvements,
+    })),
+    speaking: speaking
+      ? {
+          wordsPerMinute: speaking.wordsPerMinute,
+          fillerWordsPerMinute: speaking.fillerWordsPerMinute,
+          longPauses: speaking.longPauses,
+        }
+      : null,
+    weakest: weakest.question.questionText && weakest.question.userAnswerText
+      ? { question: weakest.question.questionText, answer: weakest.question.userAnswerText }
+      : null,
+  })
+
+  const report: SessionReport = {
+    overallScore,
+    criteria: averageCriteria(graded.map(g => g.evaluation)),
+    summary: summary.summary,
+    strengths: summary.strengths,
+    weaknesses: summary.weaknesses,
+    suggestedAnswer: summary.suggestedAnswer
+      ? {
+          questionId: weakest.question.id,
+          questionText: weakest.question.questionText || '',
+          answer: summary.suggestedAnswer,
+        }
+      : null,
+    speaking,
+    answeredQuestions: answered.length,
+    evaluatedQuestions: graded.length,
+    generatedAt: new Date().toISOString(),
+  }
+
+  await prisma.interviewSession.update({
+    where: { id: sessionId },
+    data: {
+      overallScore,
+      feedback: report.summary || null,
+      report: JSON.stringify(report),
+      reportGeneratedAt: new Date(),
+    },
+  })
+
+  console.log(`📊 Interview report ready for session ${sessionId}: ${Math.round(overallScore * 100)}% over ${graded.length} answer(s)`)
+  return report
+}
@@ -0,0 +1,161 @@
+/**
+ * Interview Rubrics
+ *
+ * Which criteria an answer is graded on, and how much each counts, depends
+ * on the question: a behavioral answer lives or dies by its STAR structure,
+ * while an opening answer mostly needs to be relevant and brief. The
+ * interviewer persona then shifts the weights toward what they care about.
+ */
+
+import { InterviewPersona, InterviewQuestionType, Rubric, RubricCriterion, RubricCriterionId } from './types'
+
+export const RUBRIC_CRITERIA: Record<RubricCriterionId, Omit<RubricCriterion, 'weight'>> = {
+  star_structure: {
+    id: 'star_structure',
+    label: 'STAR structure',
+    description: 'Sets up the Situation and Task, walks through the Actions the candidate personally took, and closes with the Result',
+  },
+  relevance: {
+    id: 'relevance',
+    label: 'Relevance to the role',
+    description: 'Answers the question asked and connects it to the skills and responsibilities in the job description',
+  },
+  specificity: {
+    id: 'specificity',
+    label: 'Specificity',
+    description: 'Uses concrete examples, names tools, decisions and trade-offs instead of generalities',
+  },
+  quantified_impact: {
+    id: 'quantified_impact',
+    label: 'Quantified impact',
+    description: 'Backs outcomes with numbers: time saved, revenue, users, percentages, scale',
+  },
+  conciseness: {
+    id: 'conciseness',
+    label: 'Conciseness',
+    description: 'Gets to the point, stays on topic and fits in about two minutes of speaking',
+  },
+  requirements: {
+    id: 'requirements',
+    label: 'Requirements',
+    description: 'Clarifies scope, users, traffic and constraints before designing, and states the assumptions made',
+  },
+  tradeoffs: {
+    id: 'tradeoffs',
+    label: 'Trade-offs',
+    description: 'Compares alternatives and explains what each choice costs, instead of naming one technology',
+  },
+  scalability: {
+    id: 'scalability',
+    label: 'Scalability',
+    description: 'Identifies bottlenecks and failure modes, and how the design holds up as load and data grow',
+  },
+  structured_reasoning: {
+    id: 'structured_reasoning',
+    label: 'Structured reasoning',
+    description: 'Breaks the problem into a clear framework, works through it in order and does the math out loud',
+  },
+  recommendation: {
+    id: 'recommendation',
+    label: 'Recommendation',
+    description: 'Lands on a clear answer backed by the analysis, with its risks and next steps',
+  },
+  market_anchoring: {
+    id: 'market_anchoring',
+    label: 'Market anchoring',
+    description: 'Names a number or range first and grounds it in market data, levels or competing offers',
+  },
+  value_justification: {
+    id: 'value_justification',
+    label: 'Value justification',
+    description: 'Ties the ask to what the candidate brings to this role rather than to personal need',
+  },
+  composure: {
+    id: 'composure',
+    label: 'Composure',
+    description: 'Stays collaborative under pushback, doesn\'t accept or cave too early and keeps options open',
+  },
+  motivation: {
+    id: 'motivation',
+    label: 'Motivation',
+    description: 'Gives a genuine, specific reason for wanting this role and company, consistent with the career story',
+  },
+}
+
+const RUBRIC_WEIGHTS: Record<InterviewQuestionType, Partial<Record<RubricCriterionId, number>>> = {
+  opening: { relevance: 0.4, specificity: 0.25, conciseness: 0.25, quantified_impact: 0.1 },
+  behavioral: { star_structure: 0.35, specificity: 0.2, quantified_impact: 0.2, relevance: 0.15, conciseness: 0.1 },
+  technical: { specificity: 0.35, relevance: 0.3, quantified_impact: 0.15, conciseness: 0.2 },
+  situational: { relevance: 0.3, specificity: 0.3, star_structure: 0.2, conciseness: 0.2 },
+  system_design: { requirements: 0.25, tradeoffs: 0.3, scalability: 0.25, specificity: 0.2 },
+  case: { structured_reasoning: 0.35, quantified_impact: 0.2, recommendation: 0.3, conciseness: 0.15 },
+  negotiation: { market_anchoring: 0.3, value_justification: 0.3, composure: 0.3, conciseness: 0.1 },
+  screening: { motivation: 0.35, relevance: 0.35, conciseness: 0.3 },
+  closing: { relevance: 0.5, specificity: 0.25, conciseness: 0.25 },
+}
+
+// Multipliers on the question type's weights; criteria a rubric doesn't have are ignored
+const PERSONA_WEIGHTS: Record<InterviewPersona, Partial<Record<RubricCriterionId, number>>> = {
+  friendly_recruiter: { relevance: 1.5, motivation: 1.5, conciseness: 1.25 },
+  skeptical_hiring_manager: { quantified_impact: 1.5, specificity: 1.5, tradeoffs: 1.5, value_justification: 1.5, composure: 1.25 },
+  // Several listeners with different backgrounds: the answer has to be easy to follow
+  panel: { star_structure: 1.25, structured_reasoning: 1.25, conciseness: 1.5 },
+}
+
+const QUESTION_TYPE_PATTERNS: Array<[InterviewQuestionType, RegExp]> = [
+  ['closing', /questions (do you have )?for (me|us)|where do you see yourself|what would success look like|anything else/i],
+  ['opening', /tell me about yourself|walk me through your (background|resume|cv)|why are you interested|what attracted you|why (do you want|this role|this company)/i],
+  ['screening', /salary expectations|notice period|start date|availab(le|ility)|why are you (leaving|looking)|work authori[sz]ation|relocat/i],
+  ['negotiation', /\boffer\b|counter|compensation|equity|signing bonus|base salary/i],
+  ['behavioral', /tell me about a time|describe a (time|situation|project)|give (me )?an example|have you ever|when you (had to|failed)|went above and beyond/i],
+  ['system_design', /design (a|an|the) |how would you (build|scale)|high[- ]level (design|architecture)/i],
+  ['case', /estimate|market size|how many .* (are|is) there|profitab|should (the|our) (client|company)|revenue (has|is) (dropped|down|falling)/i],
+  ['situational', /how would you|what would you do|imagine|suppose|if you (were|had)|how do you (handle|deal|prioriti[sz]e)/i],
+  ['technical', /technical|design|architect|algorithm|debug|code|system|approach to solving|process from|management style/i],
+]
+
+/**
+ * Classify a question by its wording, falling back on where it sits in the
+ * interview: first questions open, last questions close.
+ */
+export function classifyQuestion(questionText: string | null | undefined, questionIndex: number, totalQuestions: number): InterviewQuestionType {
+  const text = questionText || ''
+  const match = QUESTION_TYPE_PATTERNS.find(([, pattern]) => pattern.test(text))
+  if (match) return match[0]
+
+  if (questionIndex === 0) return 'opening'
+  if (questionIndex >= totalQuestions - 1) return 'closing'
+  return 'behavioral'
+}
+
+export function isInterviewQuestionType(value: unknown): value is InterviewQuestionType {
+  return typeof value === 'string' && value in RUBRIC_WEIGHTS
+}
+
+export function rubricFor(questionType: InterviewQuestionType, persona?: InterviewPersona | null): Rubric {
+  const weights = RUBRIC_WEIGHTS[questionType]
+  const multipliers = persona ? PERSONA_WEIGHTS[persona] : {}
+  return {
+    questionType,
+    criteria: (Object.keys(weights) as RubricCriterionId[]).map(id => ({
+      ...RUBRIC_CRITERIA[id],
+      weight: Math.round(weights[id]! * (multipliers[id] ?? 1) * 100) / 100,
+    })),
+  }
+}
+
+/**
+ * Weighted average of criterion scores. Criteria the grader skipped don't
+ * count against the answer.
+ */
+export function scoreWithRubric(rubric: Rubric, scores: Array<{ id: RubricCriterionId; score: number }>): number {
+  let total = 0
+  let weight = 0
+  for (const criterion of rubric.criteria) {
+    const scored = scores.find(s => s.id === criterion.id)
+    if (!scored) continue
+    total += scored.score * criterion.weight
+    weight += criterion.weight
+  }
+  return weight > 0 ? Math.round((total / weight) * 100) / 100 : 0
+}
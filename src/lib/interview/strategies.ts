@@ -0,0 +1,382 @@
+/**
+ * Interview Strategies
+ *
+ * How each interview type runs and how each interviewer persona behaves.
+ * The type decides what gets asked: the role's competencies, a fixed list
+ * of screening or negotiation topics, or a few open-ended scenarios that
+ * later questions dig into. The persona sets the tone, how hard vague
+ * answers get pushed and, through the rubric, what the grade rewards.
+ * Plain data, so the browser can import it for labels.
+ */
+
+import { CompetencyKind, InterviewPersona, InterviewQuestionType, InterviewStyle, InterviewType, Panelist } from './types'
+
+export interface InterviewTopic {
+  name: string
+  prompt: string // Built-in question that opens the topic
+  probes?: string[] // Built-in deep-dive questions, in order
+}
+
+export interface InterviewTypeStrategy {
+  label: string
+  description: string
+  questionType: InterviewQuestionType | null // Null picks behavioral or technical from each competency
+  opening: boolean
+  closing: boolean
+  // 'competencies' works through the job description's, topping up from `topics`; 'topics' ignores the job
+  source: 'competencies' | 'topics'
+  competencyKind: CompetencyKind | null // Asked first, and the kind of `topics`
+  topics: InterviewTopic[]
+  orderedTopics: boolean // Asked in the order listed, otherwise picked at random per session
+  questionsPerTopic: number // Above 1, the questions after a topic's first dig deeper into it
+  instructions: string // For generated questions
+  followUps?: string[] // Built-in follow-ups to a vague answer, one per round, when the answer gaps don't fit the format
+  closingQuestion?: string
+}
+
+export interface PersonaStrategy {
+  label: string
+  description: string
+  style: string // How they talk, for generated questions
+  vagueScore: number // Graded answers below this get a follow-up
+  strongScore: number // Graded answers at or above this raise the difficulty
+  vagueGaps: number // Ungraded answers missing this many things count as vague
+  maxFollowUps: number // Follow-ups in a row on one question
+  followUpLead: string // Opens built-in follow-ups
+  panel: Panelist[] // Take turns asking; empty for one interviewer
+}
+
+// Sessions without a type: the role's competencies, behavioral or technical as each one calls for
+export const GENERAL_INTERVIEW: InterviewTypeStrategy = {
+  label: 'General',
+  description: 'A mix of questions on the competencies in the job description',
+  questionType: null,
+  opening: true,
+  closing: true,
+  source: 'competencies',
+  competencyKind: null,
+  topics: [],
+  orderedTopics: false,
+  questionsPerTopic: 1,
+  instructions: 'A general interview covering the competencies the role asks for.',
+}
+
+export const INTERVIEW_TYPE_STRATEGIES: Record<InterviewType, InterviewTypeStrategy> = {
+  behavioral: {
+    label: 'Behavioral (STAR)',
+    description: 'Past situations, told as Situation, Task, Action and Result',
+    questionType: 'behavioral',
+    opening: true,
+    closing: true,
+    source: 'competencies',
+    competencyKind: 'behavioral',
+    topics: [
+      { name: 'Conflict', prompt: 'Tell me about a time you disagreed with a teammate or your manager. How did you handle it?' },
+      { name: 'Failure', prompt: 'Describe a time something you were responsible for failed. What happened, and what did you learn?' },
+      { name: 'Ownership', prompt: 'Tell me about a time you took on a problem nobody had asked you to fix.' },
+      { name: 'Influence', prompt: 'Give me an example of when you convinced people to change direction without having authority over them.' },
+      { name: 'Ambiguity', prompt: 'Tell me about a project where the goal or requirements were unclear. How did you move it forward?' },
+    ],
+    orderedTopics: false,
+    questionsPerTopic: 1,
+    instructions: 'A behavioral interview. Ask about specific past situations, expecting a STAR answer: Situation, Task, Action, Result.',
+  },
+  technical: {
+    label: 'Role technical',
+    description: 'The tools and skills the job description asks for, in depth',
+    questionType: 'technical',
+    opening: true,
+    closing: true,
+    source: 'competencies',
+    competencyKind: 'technical',
+    topics: [
+      { name: 'Debugging', prompt: 'Walk me through the hardest bug you\'ve tracked down. How did you find it?' },
+      { name: 'Code quality', prompt: 'How do you decide when code is good enough to ship? Give me a recent example.' },
+      { name: 'Technical decisions', prompt: 'Tell me about a technical decision you made that you\'d make differently today.' },
+    ],
+    orderedTopics: false,
+    questionsPerTopic: 1,
+    instructions: 'A technical interview for this role. Ask about the tools and skills in the job description: how they work, trade-offs and hands-on experience.',
+  },
+  system_design: {
+    label: 'System design',
+    description: 'Design a system end to end, then defend it as the requirements grow',
+    questionType: 'system_design',
+    opening: false,
+    closing: true,
+    source: 'topics',
+    competencyKind: 'technical',
+    topics: [
+      {
+        name: 'URL shortener',
+        prompt: 'Design a URL shortening service like bit.ly. Start wherever you like, but tell me what you\'re assuming.',
+        probes: [
+          'Say it takes off: 10,000 new links a second and a hundred times that in redirects. What in your design breaks first, and how do you fix it?',
+          'How do you generate short codes that never collide across servers, and what happens when a link expires?',
+        ],
+      },
+      {
+        name: 'News feed',
+        prompt: 'Design the home feed for a social network: people follow each other and see recent posts from the accounts they follow.',
+        probes: [
+          'An account with 50 million followers posts. Walk me through what your design does, and whether that changes your approach.',
+          'How would you rank the feed instead of showing it in time order, and where would that computation run?',
+        ],
+      },
+      {
+        name: 'Rate limiter',
+        prompt: 'Design a rate limiter for a public API that lets each customer make a set number of requests per minute.',
+        probes: [
+          'The API now runs in three regions behind a global load balancer. How do you keep limits accurate, and what do you give up?',
+          'The limiter\'s data store goes down. Do you fail open or closed, and why?',
+        ],
+      },
+      {
+        name: 'Chat service',
+        prompt: 'Design a one-to-one chat service with online presence and message history.',
+        probes: [
+          'How do you make sure messages arrive in order and exactly once when a phone keeps dropping its connection?',
+          'Group chats with up to 5,000 members are next. What changes?',
+        ],
+      },
+      {
+        name: 'File sync',
+        prompt: 'Design a file storage and sync service like Dropbox.',
+        probes: [
+          'Someone edits the same file on two offline laptops. What happens when both come back online?',
+          'How do you avoid storing the same 2 GB video thousands of times, and what does that cost you?',
+        ],
+      },
+    ],
+    orderedTopics: false,
+    questionsPerTopic: 3,
+    instructions: 'A system design interview. Present an open-ended design problem suited to the role, then probe scale, data model, failure modes and trade-offs.',
+    followUps: [
+      'Can you be more concrete: which components, what data lives where, and why that choice over the alternatives?',
+      'What\'s the weakest part of what you just described, and how would you know it was failing in production?',
+    ],
+    closingQuestion: 'If you had another week on this design, what would you revisit first, and why?',
+  },
+  case: {
+    label: 'Case interview',
+    description: 'A business problem worked through out loud, ending in a recommendation',
+    questionType: 'case',
+    opening: false,
+    closing: false,
+    source: 'topics',
+    competencyKind: null,
+    topics: [
+      {
+        name: 'Profitability',
+        prompt: 'Our client, a regional coffee chain, has seen profits fall 20% over two years while revenue stayed flat. How would you figure out what\'s going on?',
+        probes: [
+          'The cost per cup is up 30%, mostly milk and rent. What would you look at next, and how would you size the impact?',
+          'The CEO wants a recommendation by Friday. What do you recommend, and what are the risks?',
+        ],
+      },
+      {
+        name: 'Market sizing',
+        prompt: 'Estimate the yearly market for electric bike rentals in a large European city.',
+        probes: [
+          'Which of your assumptions moves the answer the most, and how would you check it?',
+          'Given your number, would you advise a startup to enter this market? Why?',
+        ],
+      },
+      {
+        name: 'Market entry',
+        prompt: 'A mid-sized US meal-kit company is considering expanding into Canada. How would you structure the decision?',
+        probes: [
+          'Canadian customers turn out to order half as often but spend 40% more per order. How does that change your analysis?',
+          'What\'s your recommendation, and what would make you change your mind?',
+        ],
+      },
+      {
+        name: 'Pricing',
+        prompt: 'A software company is launching an analytics add-on for its existing customers. How should they price it?',
+        probes: [
+          'Sales says any price above $20 per seat will kill adoption. How would you test that?',
+          'Pick a price and a pricing model, and defend them.',
+        ],
+      },
+    ],
+    orderedTopics: false,
+    questionsPerTopic: 3,
+    instructions: 'A case interview. Present a business problem, give data when the candidate would ask for it, and push toward a structured analysis and a clear recommendation.',
+    followUps: [
+      'Can you put numbers on that? Walk me through the calculation step by step.',
+      'What data would you ask the client for to confirm that, and what would change your conclusion?',
+    ],
+  },
+  salary_negotiation: {
+    label: 'Salary negotiation',
+    description: 'An offer conversation with a recruiter who has a budget to protect',
+    questionType: 'negotiation',
+    opening: false,
+    closing: true,
+    source: 'topics',
+    competencyKind: null,
+    topics: [
+      { name: 'Initial offer', prompt: 'We\'d love to have you join. We\'re offering a base salary at the midpoint of the band for this role. What do you think?' },
+      { name: 'Expectations', prompt: 'Before we go further, what number did you have in mind, and how did you arrive at it?' },
+      { name: 'Pushback', prompt: 'That\'s above what we budgeted for this level, and I don\'t think I can get it approved. Where does that leave us?' },
+      { name: 'Equity and bonus', prompt: 'We can\'t move much on base. How do you feel about the equity and bonus side of the package?' },
+      { name: 'Competing offers', prompt: 'You mentioned you\'re talking to other companies. Do you have another offer, and how does ours compare?' },
+      { name: 'Beyond salary', prompt: 'Is there anything besides pay, like start date, remote work or title, that matters to you here?' },
+    ],
+    orderedTopics: true,
+    questionsPerTopic: 1,
+    instructions: 'A salary negotiation. You are extending an offer for this role and have a budget to protect: make realistic counter-moves, not interview questions.',
+    followUps: [
+      'Let\'s be specific. What exactly are you asking for, and why is that fair for this role?',
+      'Where does that number come from? Help me justify it to the people who sign off on it.',
+    ],
+    closingQuestion: 'If we can close that gap, are you ready to accept today?',
+  },
+  hr_screen: {
+    label: 'HR screen',
+    description: 'A first call on motivation, logistics and expectations',
+    questionType: 'screening',
+    opening: true,
+    closing: true,
+    source: 'topics',
+    competencyKind: null,
+    topics: [
+      { name: 'Motivation', prompt: 'What made you apply for this role, and what do you know about us so far?' },
+      { name: 'Career move', prompt: 'Why are you looking to leave your current position?' },
+      { name: 'Salary expectations', prompt: 'What are your salary expectations for this role?' },
+      { name: 'Availability', prompt: 'What\'s your notice period, and when could you start?' },
+      { name: 'Work setup', prompt: 'This role has some in-office days. How does that fit with where you\'re based and how you like to work?' },
+      { name: 'Team fit', prompt: 'What kind of team and manager do you do your best work with?' },
+    ],
+    orderedTopics: true,
+    questionsPerTopic: 1,
+    instructions: 'A recruiter phone screen. Check motivation, career story, salary expectations and logistics; keep it short and conversational.',
+    followUps: [
+      'Could you say a bit more about that? I want to make sure I represent you accurately to the hiring team.',
+      'Is there anything about that the hiring manager should hear directly from you?',
+    ],
+  },
+  drill: {
+    label: 'Drill',
+    description: 'Your weakest competencies from past interviews, as they come due for review',
+    questionType: null,
+    opening: false,
+    closing: false,
+    source: 'competencies',
+    competencyKind: null,
+    topics: [],
+    orderedTopics: true,
+    questionsPerTopic: 1,
+    instructions: 'A focused practice drill on competencies the candidate has scored poorly on before. Skip small talk and ask directly about the competency below.',
+  },
+}
+
+// Sessions without a persona keep the original behavior
+export const DEFAULT_PERSONA: PersonaStrategy = {
+  label: 'Interviewer',
+  description: 'A professional, neutral interviewer',
+  style: 'Professional and neutral.',
+  vagueScore: 0.5,
+  strongScore: 0.75,
+  vagueGaps: 3,
+  maxFollowUps: 1,
+  followUpLead: '',
+  panel: [],
+}
+
+export const PERSONA_STRATEGIES: Record<InterviewPersona, PersonaStrategy> = {
+  friendly_recruiter: {
+    label: 'Friendly recruiter',
+    description: 'Warm and encouraging, lets most answers go',
+    style: 'Warm, encouraging and conversational. Acknowledge the candidate\'s previous answer briefly before asking.',
+    vagueScore: 0.4,
+    strongScore: 0.7,
+    vagueGaps: 4,
+    maxFollowUps: 1,
+    followUpLead: 'Thanks, that\'s helpful. ',
+    panel: [],
+  },
+  skeptical_hiring_manager: {
+    label: 'Skeptical hiring manager',
+    description: 'Blunt, wants numbers and pushes back twice on vague answers',
+    style: 'Direct, skeptical and short. Challenge claims, ask for evidence and don\'t offer reassurance.',
+    vagueScore: 0.65,
+    strongScore: 0.85,
+    vagueGaps: 2,
+    maxFollowUps: 2,
+    followUpLead: 'I\'m not convinced yet. ',
+    panel: [],
+  },
+  panel: {
+    label: 'Panel',
+    description: 'Three interviewers taking turns, each with their own angle',
+    style: 'A panel interview. Speak as the panelist named below, from their role\'s point of view.',
+    vagueScore: 0.5,
+    strongScore: 0.75,
+    vagueGaps: 3,
+    maxFollowUps: 1,
+    followUpLead: '',
+    panel: [
+      { name: 'Priya', title: 'Hiring Manager' },
+      { name: 'Marcus', title: 'Team Lead' },
+      { name: 'Dana', title: 'People Partner' },
+    ],
+  },
+}
+
+export function isInterviewType(value: unknown): value is InterviewType {
+  return typeof value === 'string' && value in INTERVIEW_TYPE_STRATEGIES
+}
+
+export function isInterviewPersona(value: unknown): value is InterviewPersona {
+  return typeof value === 'string' && value in PERSONA_STRATEGIES
+}
+
+export function interviewStyle(session: { interviewType: string | null; persona: string | null }): InterviewStyle {
+  return {
+    type: isInterviewType(session.interviewType) ? session.interviewType : null,
+    persona: isInterviewPersona(session.persona) ? session.persona : null,
+  }
+}
+
+export function interviewTypeStrategy(type: InterviewType | null): InterviewTypeStrategy {
+  return type ? INTERVIEW_TYPE_STRATEGIES[type] : GENERAL_INTERVIEW
+}
+
+export function personaStrategy(persona: InterviewPersona | null): PersonaStrategy {
+  return persona ? PERSONA_STRATEGIES[persona] : DEFAULT_PERSONA
+}
+
+/**
+ * The panelist whose turn it is to ask, e.g. "Priya, Hiring Manager".
+ * Null outside panel interviews.
+ */
+export function panelistFor(persona: InterviewPersona | null, questionIndex: number): string | null {
+  const { panel } = personaStrategy(persona)
+  if (panel.length === 0) return null
+  const panelist = panel[questionIndex % panel.length]
+  return `${panelist.name}, ${panelist.title}`
+}
+
+/**
+ * Topics for a session of a topic-based type, in the order they'll be
+ * asked. Picks as many as the session has room for; unordered topics are
+ * shuffled so repeat sessions don't start the same way.
+ */
+export function pickTopics(type: InterviewType, totalQuestions: number): Array<{ name: string; kind: CompetencyKind }> {
+  const strategy = INTERVIEW_TYPE_STRATEGIES[type]
+  const bodyQuestions = Math.max(1, totalQuestions - (strategy.opening ? 1 : 0) - (strategy.closing ? 1 : 0))
+  const count = Math.min(strategy.topics.length, Math.ceil(bodyQuestions / strategy.questionsPerTopic))
+
+  const topics = [...strategy.topics]
+  if (!strategy.orderedTopics) {
+    for (let i = topics.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1))
+      const topic = topics[i]
+      topics[i] = topics[j]
+      topics[j] = topic
+    }
+  }
+
+  return topics.slice(0, count).map(topic => ({ name: topic.name, kind: strategy.competencyKind || 'behavioral' }))
+}
@@ -0,0 +1,109 @@
+/**
+ * Interview Answer Transcription
+ *
+ * Recorded answers are transcribed in a queued job after upload. The
+ * transcript fills in the answer text when the user didn't type one, gives
+ * the speaking metrics shown in the session report, and then the answer is
+ * graded like a typed one.
+ */
+
+import { prisma } from '../db'
+import { JobType } from '../queue/jobTypes'
+import { computeSpeakingMetrics, getTranscriptionBackend, SpeakingMetrics, Transcript, TranscriptionNotConfiguredError } from '../transcription'
+import { enqueueAnswerEvaluation } from './evaluation'
+import { requestSessionReport } from './report'
+
+const AUDIO_DOWNLOAD_TIMEOUT_MS = 30000
+
+export async function enqueueAnswerTranscription(questionId: string, userId: string): Promise<void> {
+  const { queueManager } = await import('../queue')
+  await queueManager.enqueue(JobType.TRANSCRIBE_INTERVIEW_ANSWER, { questionId, userId }, {
+    deduplicationKey: `interview_transcript_${questionId}`,
+  })
+}
+
+export function parseTranscript(value: string | null): Transcript | null {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch (error) {
+    return null
+  }
+}
+
+export function parseSpeakingMetrics(value: string | null): SpeakingMetrics | null {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch (error) {
+    return null
+  }
+}
+
+async function downloadAudio(url: string): Promise<{ audio: Buffer; mimeType: string; fileName: string }> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(AUDIO_DOWNLOAD_TIMEOUT_MS) })
+  if (!response.ok) {
+    throw new Error(`Failed to download answer audio (${response.status})`)
+  }
+
+  const mimeType = response.headers.get('content-type')?.split(';')[0] || 'audio/mpeg'
+  const fileName = new URL(url).pathname.split('/').pop() || 'answer.mp3'
+  return { audio: Buffer.from(await response.arrayBuffer()), mimeType, fileName }
+}
+
+/**
+ * Transcribe one recorded answer and store the transcript and speaking
+ * metrics, then queue the answer for grading. Throws on failure so the job
+ * is retried.
+ */
+export async function transcribeAnswer(questionId: string): Promise<SpeakingMetrics | null> {
+  const question = await prisma.interviewQuestion.findUnique({
+    where: { id: questionId },
+    include: { session: { select: { userId: true } } },
+  })
+
+  if (!question?.userAnswerAudioUrl) return null
+
+  const backend = getTranscriptionBackend()
+  if (!backend) throw new TranscriptionNotConfiguredError()
+
+  const transcript = await backend.transcribe({
+    ...await downloadAudio(question.userAnswerAudioUrl),
+    language: process.env.TRANSCRIPTION_LANGUAGE || undefined,
+  })
+  const metrics = computeSpeakingMetrics(transcript)
+  const typedAnswer = question.userAnswerText?.trim()
+
+  await prisma.interviewQuestion.update({
+    where: { id: questionId },
+    data: {
+      userAnswerText: typedAnswer || transcript.text || null,
+      transcript: JSON.stringify(transcript),
+      speakingMetrics: JSON.stringify(metrics),
+      transcriptionStatus: 'COMPLETED',
+      transcribedAt: new Date(),
+    },
+  })
+
+  console.log(`🎙️ Transcribed interview answer ${questionId} with ${backend.id}: ${metrics.wordCount} words, ${metrics.wordsPerMinute} wpm`)
+
+  if (typedAnswer || transcript.text) {
+    await enqueueAnswerEvaluation(questionId, question.session.userId)
+  } else {
+    await requestSessionReport(question.sessionId, question.session.userId)
+  }
+  return metrics
+}
+
+/**
+ * Give up on a recording, so the session report doesn't wait on it forever
+ */
+export async function markTranscriptionFailed(questionId: string): Promise<void> {
+  const question = await prisma.interviewQuestion.update({
+    where: { id: questionId },
+    data: { transcriptionStatus: 'FAILED' },
+    include: { session: { select: { userId: true } } },
+  })
+
+  await requestSessionReport(question.sessionId, question.session.userId)
+}
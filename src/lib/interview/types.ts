@@ -0,0 +1,208 @@
+/**
+ * Interview Evaluation Types
+ *
+ * Each practice answer is graded against a rubric picked by the kind of
+ * question it answers, and a finished session rolls those grades up into a
+ * report. Scores are 0-1, like job match scores.
+ */
+
+export type InterviewQuestionType =
+  | 'opening'
+  | 'behavioral'
+  | 'technical'
+  | 'situational'
+  | 'system_design'
+  | 'case'
+  | 'negotiation'
+  | 'screening'
+  | 'closing'
+
+export const INTERVIEW_QUESTION_TYPES: InterviewQuestionType[] = [
+  'opening',
+  'behavioral',
+  'technical',
+  'situational',
+  'system_design',
+  'case',
+  'negotiation',
+  'screening',
+  'closing',
+]
+
+export type RubricCriterionId =
+  | 'star_structure'
+  | 'relevance'
+  | 'specificity'
+  | 'quantified_impact'
+  | 'conciseness'
+  | 'requirements'
+  | 'tradeoffs'
+  | 'scalability'
+  | 'structured_reasoning'
+  | 'recommendation'
+  | 'market_anchoring'
+  | 'value_justification'
+  | 'composure'
+  | 'motivation'
+
+// What the mock interview practices, chosen when it starts
+export type InterviewType = 'behavioral' | 'technical' | 'system_design' | 'case' | 'salary_negotiation' | 'hr_screen' | 'drill'
+
+// Offered for an application; drills aren't tied to one and start from the practice page
+export const INTERVIEW_TYPES: InterviewType[] = ['behavioral', 'technical', 'system_design', 'case', 'salary_negotiation', 'hr_screen']
+
+// Who is asking: sets the tone, how hard vague answers get pushed and what the grade rewards
+export type InterviewPersona = 'friendly_recruiter' | 'skeptical_hiring_manager' | 'panel'
+
+export const INTERVIEW_PERSONAS: InterviewPersona[] = ['friendly_recruiter', 'skeptical_hiring_manager', 'panel']
+
+export interface InterviewStyle {
+  type: InterviewType | null // Null for sessions started before interview types
+  persona: InterviewPersona | null
+}
+
+export interface Panelist {
+  name: string
+  title: string
+}
+
+export interface RubricCriterion {
+  id: RubricCriterionId
+  label: string
+  description: string // What the grader looks for
+  weight: number // Relative; a rubric's weights needn't sum to 1
+}
+
+export interface Rubric {
+  questionType: InterviewQuestionType
+  criteria: RubricCriterion[]
+}
+
+export interface CriterionScore {
+  id: RubricCriterionId
+  score: number // 0-1
+  comment: string
+}
+
+// Stored as JSON on InterviewQuestion.evaluation
+export interface AnswerEvaluation {
+  questionType: InterviewQuestionType
+  score: number // Weighted average of the criterion scores
+  criteria: CriterionScore[]
+  feedback: string // Short summary, also stored on InterviewQuestion.feedback
+  strengths: string[]
+  improvements: string[]
+}
+
+export interface SuggestedAnswer {
+  questionId: string
+  questionText: string
+  answer: string // A stronger answer to the session's weakest question
+}
+
+// Delivery across every transcribed answer in the session
+export interface SessionSpeakingSummary {
+  answers: number // Answers with speaking metrics
+  wordsPerMinute: number
+  fillerWords: number
+  fillerWordsPerMinute: number
+  topFillers: Array<{ word: string; count: number }>
+  longPauses: number
+  longestPauseSeconds: number
+}
+
+// Stored as JSON on InterviewSession.report
+export interface SessionReport {
+  overallScore: number
+  criteria: Partial<Record<RubricCriterionId, number>> // Average per criterion across graded answers
+  summary: string // Also stored on InterviewSession.feedback
+  strengths: string[]
+  weaknesses: string[]
+  suggestedAnswer: SuggestedAnswer | null
+  speaking: SessionSpeakingSummary | null // Null when no answer was recorded and transcribed
+  answeredQuestions: number
+  evaluatedQuestions: number
+  generatedAt: string
+}
+
+export type CompetencyKind = 'technical' | 'behavioral'
+
+// Stored as JSON on InterviewSession.competencies
+export interface Competency {
+  name: string
+  kind: CompetencyKind
+}
+
+export interface CompetencyCoverage extends Competency {
+  questions: number // Questions that targeted it, follow-ups not counted
+  covered: boolean
+}
+
+// What a vague answer left out, which decides the follow-up
+export type AnswerGap = 'personal_contribution' | 'numbers' | 'detail' | 'outcome'
+
+export type AnswerSignal = 'vague' | 'adequate' | 'strong'
+
+export interface AnswerAssessment {
+  signal: AnswerSignal
+  gaps: AnswerGap[]
+  source: 'evaluation' | 'heuristic' // Rubric grade when it's in, otherwise a quick read of the text
+}
+
+export type QuestionMove = 'opening' | 'follow_up' | 'harder' | 'deep_dive' | 'new_competency' | 'closing'
+
+export interface QuestionPlan {
+  move: QuestionMove
+  questionType: InterviewQuestionType
+  competency: Competency | null
+  difficulty: number // 1-3
+  depth: number // Earlier questions on the same competency, follow-ups aside
+  reason: string
+  interviewer: string | null // Panelist asking, e.g. "Priya, Hiring Manager"; null outside panel interviews
+  followUpOf: {
+    questionId: string
+    questionText: string
+    answerText: string
+    gaps: AnswerGap[]
+    round: number // 1 for a follow-up to the original question, 2 for a follow-up to that follow-up
+  } | null
+}
+
+export type Seniority = 'junior' | 'mid' | 'senior' | 'lead'
+
+export const SENIORITIES: Seniority[] = ['junior', 'mid', 'senior', 'lead']
+
+export type RoleFamily = 'engineering' | 'design' | 'product' | 'data' | 'management' | 'sales' | 'marketing' | 'operations'
+
+export const ROLE_FAMILIES: RoleFamily[] = ['engineering', 'design', 'product', 'data', 'management', 'sales', 'marketing', 'operations']
+
+// Tags a bank question is filed under; null matches any
+export interface BankQuestionTags {
+  competency: string | null
+  seniority: Seniority | null
+  roleFamily: RoleFamily | null
+  company: string | null
+  difficulty: number // 1-3
+}
+
+export interface BankQuestionCriteria extends Partial<BankQuestionTags> {
+  questionType?: InterviewQuestionType
+  exclude?: string[] // Question texts already asked
+}
+
+// A competency's practice history and where it stands in the review schedule
+export interface DrillCompetency extends Competency {
+  averageScore: number
+  attempts: number
+  lastScore: number
+  dueAt: Date
+  due: boolean
+}
+
+export class DrillUnavailableError extends Error {
+  constructor() {
+    super('No graded answers yet. Answer a few practice questions first so there are competencies to drill')
+    this.name = 'DrillUnavailableError'
+  }
+}
+
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { buildStructuredSalary, formatSalaryRange, normalizeCurrency, normalizeSalaryPeriod, StructuredSalary } from './salary'
 
 // API Response Schemas
 export const jobSearchResponseSchema = z.object({
@@ -167,12 +168,14 @@ export interface NormalizedJob {
   source: string
   originalSource?: string
   sourceInfo?: any // JobSourceInfo from jobSourceDetector
+  provider?: string // Job source provider that returned this listing (jsearch, greenhouse, ...)
   title: string
   company: string
   description: string
   url: string
   location?: string
-  salaryRange?: string
+  salaryRange?: string // Display string, kept alongside the structured salary
+  salary?: StructuredSalary
   employmentType?: string
   isRemote: boolean
   postedAt?: Date
@@ -201,6 +204,27 @@ export interface JobAPIResponse {
 }
 
 // JSearch API implementation
+/**
+ * Structured salary from JSearch's min/max/currency/period fields
+ */
+function jsearchSalary(job: {
+  job_min_salary: number | null
+  job_max_salary: number | null
+  job_salary_currency?: string | null
+  job_salary_period: string | null
+  job_country?: string | null
+}): Pick<NormalizedJob, 'salary' | 'salaryRange'> {
+  const salary = buildStructuredSalary({
+    min: job.job_min_salary,
+    max: job.job_max_salary,
+    currency: normalizeCurrency(job.job_salary_currency, job.job_country),
+    period: normalizeSalaryPeriod(job.job_salary_period),
+    source: 'api',
+  })
+
+  return salary ? { salary, salaryRange: formatSalaryRange(salary) } : {}
+}
+
 export class JSearchAPI {
   private apiKey: string
   private baseUrl = 'https://jsearch.p.rapidapi.com'
@@ -357,13 +381,7 @@ export class JSearchAPI {
           location: job.job_city && job.job_state 
             ? `${job.job_city}, ${job.job_state}` 
             : job.job_city || job.job_state || job.job_country,
-          salaryRange: job.job_min_salary && job.job_max_salary
-            ? `${job.job_min_salary.toLocaleString()} - ${job.job_max_salary.toLocaleString()}`
-            : job.job_min_salary
-            ? `From ${job.job_min_salary.toLocaleString()}`
-            : job.job_max_salary
-            ? `Up to ${job.job_max_salary.toLocaleString()}`
-            : undefined,
+          ...jsearchSalary(job),
           employmentType: job.job_employment_type,
           isRemote: job.job_is_remote,
           postedAt: job.job_posted_at_datetime_utc ? new Date(job.job_posted_at_datetime_utc) : undefined,
@@ -405,13 +423,7 @@ export class JSearchAPI {
         location: job.job_city && job.job_state 
           ? `${job.job_city}, ${job.job_state}` 
           : job.job_city || job.job_state || job.job_country,
-        salaryRange: job.job_min_salary && job.job_max_salary
-          ? `${job.job_min_salary.toLocaleString()} - ${job.job_max_salary.toLocaleString()}`
-          : job.job_min_salary
-          ? `From ${job.job_min_salary.toLocaleString()}`
-          : job.job_max_salary
-          ? `Up to ${job.job_max_salary.toLocaleString()}`
-          : undefined,
+        ...jsearchSalary(job),
         employmentType: job.job_employment_type,
         isRemote: job.job_is_remote,
         postedAt: job.job_posted_at_datetime_utc ? new Date(job.job_posted_at_datetime_utc) : undefined,
@@ -479,59 +491,3 @@ export class BackupJobAPI {
     return null
   }
 }
-
-// Enhanced job search service with fallback
-export class JobSearchService {
-  private primaryAPI: JSearchAPI | null = null
-  private backupAPI: BackupJobAPI
-
-  constructor(jsearchApiKey?: string) {
-    if (jsearchApiKey) {
-      this.primaryAPI = new JSearchAPI(jsearchApiKey)
-    }
-    this.backupAPI = new BackupJobAPI()
-  }
-
-  async searchJobs(params: JobSearchParams): Promise<JobAPIResponse> {
-    // Try primary API first
-    if (this.primaryAPI) {
-      try {
-        return await this.primaryAPI.searchJobs(params)
-      } catch (error) {
-        console.warn('Primary job API failed, falling back to backup:', error)
-      }
-    }
-
-    // Fall back to backup API
-    return await this.backupAPI.searchJobs(params)
-  }
-
-  async getJobDetails(jobId: string): Promise<NormalizedJob | null> {
-    // Try primary API first
-    if (this.primaryAPI) {
-      try {
-        return await this.primaryAPI.getJobDetails(jobId)
-      } catch (error) {
-        console.warn('Primary job API failed for details, falling back:', error)
-      }
-    }
-
-    // Fall back to backup API
-    return await this.backupAPI.getJobDetails(jobId)
-  }
-}
-
-// Factory function for creating job APIs
-export function createJobAPI(provider: 'jsearch', apiKey: string) {
-  switch (provider) {
-    case 'jsearch':
-      return new JSearchAPI(apiKey)
-    default:
-      throw new Error(`Unsupported job API provider: ${provider}`)
-  }
-}
-
-// Create job search service with automatic fallback
-export function createJobSearchService(jsearchApiKey?: string) {
-  return new JobSearchService(jsearchApiKey)
-}
\ No newline at end of file
@@ -1,6 +1,27 @@
-import puppeteer, { Browser, Page } from 'puppeteer'
-
-interface ApplicationData {
+import { BrowserContext, Page } from 'puppeteer'
+import { extractWorkdayTenant } from './jobSourceDetector'
+import { AutomationRecorder, AutomationStepAction, RecordStepOptions } from './automationRuns'
+import {
+  SelectorPack,
+  SelectorPackPlatform,
+  loadSelectorPack,
+  findFirst,
+  waitForAny,
+  findBlocker,
+  isSuccessPage,
+  extractConfirmationId,
+} from './selectorPacks'
+import { ApplicationPreview, createApplicationPreview, resumeFileName } from './applicationPreview'
+import { BrowserLease, browserPool } from './browserPool'
+
+export interface ApplicationData {
+  userId?: string // Needed for platforms with per-user accounts (Workday), screening answers and run recording
+  jobId?: string
+  job?: {
+    title: string
+    company: string
+    description?: string | null
+  }
   fullName: string
   email: string
   phone: string
@@ -8,110 +29,101 @@ interface ApplicationData {
   coverLetter?: string
   linkedinProfile?: string
   portfolioUrl?: string
+  dryRun?: boolean // Stop before the final submit click and return a preview instead
 }
 
-interface ApplicationResult {
+export interface ApplicationResult {
   success: boolean
   platform: string
-  method: 'automated' | 'redirect' | 'failed'
+  method: 'automated' | 'dry_run' | 'redirect' | 'failed'
   confirmationId?: string
   error?: string
   redirectUrl?: string
   duration?: number
+  stoppedAt?: string // Multi-step platforms: the step automation could not get past
+  completedSteps?: string[]
+  runId?: string // AutomationRun with the step trail, when the run was recorded
+  preview?: ApplicationPreview // Dry runs: what would have been submitted
 }
 
-export class JobApplicationAutomation {
-  private browser: Browser | null = null
-
-  async initBrowser(): Promise<void> {
-    if (this.browser) return
-
-    const isProduction = process.env.NODE_ENV === 'production'
-    
-    this.browser = await puppeteer.launch({
-      headless: isProduction, // Show browser in development for debugging
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--disable-gpu',
-        '--disable-background-timer-throttling',
-        '--disable-backgrounding-occluded-windows',
-        '--disable-renderer-backgrounding',
-        // Production optimizations
-        ...(isProduction ? [
-          '--disable-extensions',
-          '--disable-plugins',
-          '--disable-images',
-          '--disable-javascript',
-          '--disable-dev-shm-usage',
-        ] : [])
-      ],
-      defaultViewport: { width: 1366, height: 768 }
-    })
+// Job publisher names as they come from job APIs, mapped to the platforms automation knows
+const AUTOMATED_PLATFORMS: Record<string, string> = {
+  'indeed': 'indeed',
+  'indeed.com': 'indeed',
+  'greenhouse': 'greenhouse',
+  'greenhouse.io': 'greenhouse',
+  'lever': 'lever',
+  'lever.co': 'lever',
+  'linkedin': 'linkedin',
+  'linkedin.com': 'linkedin',
+  'workday': 'workday',
+  'myworkdayjobs.com': 'workday',
+}
 
-    console.log('Browser initialized for job application automation')
-  }
+export class JobApplicationAutomation {
+  // Browser context leased from the pool for each run
+  private runContexts = new WeakMap<ApplicationData, BrowserContext>()
+  // Recorder for each run, keyed by its input and then by the page it drives
+  private runRecorders = new WeakMap<ApplicationData, AutomationRecorder>()
+  private pageRecorders = new WeakMap<Page, AutomationRecorder>()
+  // Dry-run previews, threaded the same way
+  private runPreviews = new WeakMap<ApplicationData, ApplicationPreview>()
+  private pagePreviews = new WeakMap<Page, ApplicationPreview>()
+
+  /**
+   * Waits for a browser slot on the platform first; if none frees up in
+   * time the BrowserPoolBusyError is thrown for the caller to retry later
+   */
+  async applyToJob(
+    jobUrl: string, 
+    jobPublisher: string, 
+    applicationData: ApplicationData
+  ): Promise<ApplicationResult> {
+    const platform = AUTOMATED_PLATFORMS[jobPublisher.toLowerCase()]
+    let lease: BrowserLease | null = null
 
-  async closeBrowser(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close()
-      this.browser = null
-      console.log('Browser closed')
+    try {
+      if (platform) {
+        lease = await browserPool.acquire(platform, applicationData.userId)
+        this.runContexts.set(applicationData, lease.context)
+      }
+      return await this.runApplication(jobUrl, jobPublisher, applicationData)
+    } finally {
+      if (lease) await lease.release()
     }
   }
 
-  async applyToJob(
-    jobUrl: string, 
-    jobPublisher: string, 
+  private async runApplication(
+    jobUrl: string,
+    jobPublisher: string,
     applicationData: ApplicationData
   ): Promise<ApplicationResult> {
     const startTime = Date.now()
+    const recorder = applicationData.userId
+      ? await AutomationRecorder.start({
+          userId: applicationData.userId,
+          platform: jobPublisher,
+          jobUrl,
+          jobId: applicationData.jobId,
+        })
+      : null
+    if (recorder) this.runRecorders.set(applicationData, recorder)
+
+    const preview = applicationData.dryRun ? createApplicationPreview(jobPublisher, jobUrl) : null
+    if (preview) this.runPreviews.set(applicationData, preview)
+
+    let result: ApplicationResult
     
     try {
-      await this.initBrowser()
-      
       console.log(`=== STARTING AUTOMATION ===`)
       console.log(`Platform: ${jobPublisher}`)
       console.log(`URL: ${jobUrl}`)
       console.log(`Applicant: ${applicationData.fullName}`)
 
-      switch (jobPublisher.toLowerCase()) {
-        case 'indeed':
-        case 'indeed.com':
-          return await this.applyToIndeed(jobUrl, applicationData)
-        
-        case 'greenhouse':
-        case 'greenhouse.io':
-          return await this.applyToGreenhouse(jobUrl, applicationData)
-        
-        case 'lever':
-        case 'lever.co':
-          return await this.applyToLever(jobUrl, applicationData)
-        
-        case 'linkedin':
-        case 'linkedin.com':
-          return await this.applyToLinkedIn(jobUrl, applicationData)
-        
-        case 'workday':
-          return await this.applyToWorkday(jobUrl, applicationData)
-        
-        default:
-          console.log(`Unsupported platform: ${jobPublisher}, falling back to redirect`)
-          return {
-            success: false,
-            platform: jobPublisher,
-            method: 'redirect',
-            redirectUrl: jobUrl,
-            error: 'Platform not supported for automation'
-          }
-      }
+      result = await this.applyOnPlatform(jobUrl, jobPublisher, applicationData)
     } catch (error) {
       console.error('Job application automation failed:', error)
-      return {
+      result = {
         success: false,
         platform: jobPublisher,
         method: 'failed',
@@ -121,19 +133,131 @@ export class JobApplicationAutomation {
     } finally {
       const duration = Date.now() - startTime
       console.log(`Automation completed in ${duration}ms`)
+    }
+
+    if (preview) result = { ...result, preview }
+    if (!recorder) return result
+
+    await recorder.finish(result)
+    return { ...result, runId: recorder.runId }
+  }
+
+  private async applyOnPlatform(
+    jobUrl: string,
+    jobPublisher: string,
+    applicationData: ApplicationData
+  ): Promise<ApplicationResult> {
+    switch (AUTOMATED_PLATFORMS[jobPublisher.toLowerCase()]) {
+      case 'indeed':
+        return await this.applyToIndeed(jobUrl, applicationData)
+      
+      case 'greenhouse':
+        return await this.applyToGreenhouse(jobUrl, applicationData)
+      
+      case 'lever':
+        return await this.applyToLever(jobUrl, applicationData)
+      
+      case 'linkedin':
+        return await this.applyToLinkedIn(jobUrl, applicationData)
       
-      // Always close browser after each job to save memory
-      await this.closeBrowser()
+      case 'workday':
+        return await this.applyToWorkday(jobUrl, applicationData)
+      
+      default:
+        console.log(`Unsupported platform: ${jobPublisher}, falling back to redirect`)
+        return {
+          success: false,
+          platform: jobPublisher,
+          method: 'redirect',
+          redirectUrl: jobUrl,
+          error: 'Platform not supported for automation'
+        }
+    }
+  }
+
+  private async openPage(data: ApplicationData): Promise<Page> {
+    const context = this.runContexts.get(data)
+    if (!context) throw new Error('Browser not initialized')
+
+    const page = await context.newPage()
+    const recorder = this.runRecorders.get(data)
+    if (recorder) this.pageRecorders.set(page, recorder)
+    const preview = this.runPreviews.get(data)
+    if (preview) this.pagePreviews.set(page, preview)
+    return page
+  }
+
+  private async recordStep(
+    page: Page,
+    action: AutomationStepAction,
+    description: string,
+    options?: RecordStepOptions
+  ): Promise<void> {
+    await this.pageRecorders.get(page)?.step(page, action, description, options)
+  }
+
+  private async recordFailure(page: Page, error: unknown): Promise<void> {
+    await this.recordStep(page, 'FAILURE', 'Automation stopped', {
+      status: 'FAILED',
+      error: error instanceof Error ? error.message : String(error),
+      fullPage: true,
+    })
+  }
+
+  private isDryRun(page: Page): boolean {
+    return this.pagePreviews.has(page)
+  }
+
+  /**
+   * Dry runs stop at the submit button: note it in the preview and record
+   * the skipped click instead of making it
+   */
+  private async skipSubmit(page: Page, selector: string): Promise<boolean> {
+    const preview = this.pagePreviews.get(page)
+    if (!preview) return false
+
+    preview.submitSelector = selector
+    console.log(`🧪 Dry run: not clicking submit (${selector})`)
+    await this.recordStep(page, 'SUBMIT', 'Submit skipped (dry run)', { selector, status: 'SKIPPED', fullPage: true })
+    return true
+  }
+
+  private notePreviewField(page: Page, label: string, value: string, selector: string): void {
+    const preview = this.pagePreviews.get(page)
+    if (!preview) return
+
+    if (label === 'Cover Letter') preview.coverLetter = value
+    else preview.fields.push({ label, value, selector })
+  }
+
+  private noteResume(page: Page, resumeUrl: string, selector: string): void {
+    const preview = this.pagePreviews.get(page)
+    if (preview) preview.resume = { fileName: resumeFileName(resumeUrl), url: resumeUrl, selector }
+  }
+
+  private noteAnswers(page: Page, answers: { question: string; answer: string; source: string }[]): void {
+    this.pagePreviews.get(page)?.answers.push(...answers.map(({ question, answer, source }) => ({ question, answer, source })))
+  }
+
+  private async loadPack(page: Page, platform: SelectorPackPlatform): Promise<SelectorPack> {
+    const pack = await loadSelectorPack(platform)
+    await this.pageRecorders.get(page)?.useSelectorPack(pack)
+    return pack
+  }
+
+  // Wait for the pack's ready selectors, failing the run when they never appear
+  private async waitForReady(page: Page, selectors: string[] | undefined, description: string): Promise<void> {
+    if (!(await waitForAny(page, selectors || [], 15000))) {
+      throw new Error(`${description} did not load`)
     }
   }
 
   private async applyToIndeed(jobUrl: string, data: ApplicationData): Promise<ApplicationResult> {
-    if (!this.browser) throw new Error('Browser not initialized')
-    
-    const page = await this.browser.newPage()
+    const page = await this.openPage(data)
     
     try {
       console.log('Starting Indeed application automation...')
+      const pack = await this.loadPack(page, 'indeed')
       
       // Set realistic user agent
       await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36')
@@ -141,29 +265,35 @@ export class JobApplicationAutomation {
       // Navigate to job application page
       console.log('Navigating to Indeed job page:', jobUrl)
       await page.goto(jobUrl, { waitUntil: 'networkidle2', timeout: 30000 })
+      await this.recordStep(page, 'NAVIGATE', 'Open job page')
       
       // Wait for page to load and look for Apply button
-      await page.waitForSelector('button[data-jk], .jobsearch-IndeedApplyButton-newDesign, [data-testid="apply-button"]', { timeout: 15000 })
+      await this.waitForReady(page, pack.ready.jobPage, 'Indeed job page')
       
       // Click the Apply button
-      const applyButtonClicked = await this.clickIndeedApplyButton(page)
+      const applyButtonClicked = await this.clickIndeedApplyButton(page, pack)
       if (!applyButtonClicked) {
         throw new Error('Could not find or click Apply button')
       }
 
       // Wait for application form to load
       console.log('Waiting for application form...')
-      await page.waitForSelector('form, [data-testid="contact-info"], input[name="applicant.name"], #input-applicant\\.name', { timeout: 15000 })
+      await this.waitForReady(page, pack.ready.form, 'Indeed application form')
       
       // Fill out the application form
-      await this.fillIndeedApplicationForm(page, data)
+      await this.fillIndeedApplicationForm(page, data, pack)
       
       // Submit the application
-      const submitted = await this.submitIndeedApplication(page)
+      const submitted = await this.submitIndeedApplication(page, pack)
+      
+      if (submitted && this.isDryRun(page)) {
+        return { success: true, platform: 'indeed', method: 'dry_run' }
+      }
       
       if (submitted) {
         // Look for confirmation
-        const confirmationId = await this.getIndeedConfirmationId(page)
+        const confirmationId = await this.getIndeedConfirmationId(page, pack)
+        await this.recordStep(page, 'CONFIRMATION', 'Confirmation page', { fullPage: true })
         
         return {
           success: true,
@@ -177,6 +307,7 @@ export class JobApplicationAutomation {
 
     } catch (error) {
       console.error('Indeed automation error:', error)
+      await this.recordFailure(page, error)
       
       // Take screenshot for debugging (only in development)
       if (process.env.NODE_ENV !== 'production') {
@@ -199,22 +330,14 @@ export class JobApplicationAutomation {
     }
   }
 
-  private async clickIndeedApplyButton(page: Page): Promise<boolean> {
-    const applySelectors = [
-      'button[data-jk]', // Standard Indeed apply button
-      '.jobsearch-IndeedApplyButton-newDesign', // New design
-      '[data-testid="apply-button"]', // Test ID selector
-      'button:has-text("Apply")', // Fallback text selector
-      'a:has-text("Apply")', // Link version
-      '.ia-JobActions-apply' // Alternative selector
-    ]
-
-    for (const selector of applySelectors) {
+  private async clickIndeedApplyButton(page: Page, pack: SelectorPack): Promise<boolean> {
+    for (const selector of pack.buttons.apply || []) {
       try {
         const element = await page.$(selector)
         if (element) {
           console.log(`Found Apply button with selector: ${selector}`)
           await element.click()
+          await this.recordStep(page, 'CLICK', 'Click Apply', { selector })
           
           // Wait a bit for navigation/modal
           await page.waitForTimeout(2000)
@@ -229,64 +352,30 @@ export class JobApplicationAutomation {
     return false
   }
 
-  private async fillIndeedApplicationForm(page: Page, data: ApplicationData): Promise<void> {
+  private async fillIndeedApplicationForm(page: Page, data: ApplicationData, pack: SelectorPack): Promise<void> {
     console.log('Filling Indeed application form...')
 
-    // Name fields
-    const nameSelectors = [
-      '#input-applicant\\.name',
-      'input[name="applicant.name"]',
-      'input[data-testid="contact-info-name"]',
-      'input[placeholder*="name" i]'
-    ]
-    
-    await this.fillFirstFoundInput(page, nameSelectors, data.fullName, 'Full Name')
-
-    // Email fields  
-    const emailSelectors = [
-      '#input-applicant\\.email',
-      'input[name="applicant.email"]',
-      'input[data-testid="contact-info-email"]',
-      'input[type="email"]',
-      'input[placeholder*="email" i]'
-    ]
-    
-    await this.fillFirstFoundInput(page, emailSelectors, data.email, 'Email')
-
-    // Phone fields
-    const phoneSelectors = [
-      '#input-applicant\\.phoneNumber',
-      'input[name="applicant.phoneNumber"]', 
-      'input[data-testid="contact-info-phone"]',
-      'input[type="tel"]',
-      'input[placeholder*="phone" i]'
-    ]
-    
-    await this.fillFirstFoundInput(page, phoneSelectors, data.phone, 'Phone')
+    await this.fillFirstFoundInput(page, pack.fields.fullName, data.fullName, 'Full Name')
+    await this.fillFirstFoundInput(page, pack.fields.email, data.email, 'Email')
+    await this.fillFirstFoundInput(page, pack.fields.phone, data.phone, 'Phone')
 
     // Resume upload
-    await this.uploadResumeToIndeed(page, data.resumeUrl)
+    await this.uploadResumeToIndeed(page, data.resumeUrl, pack)
 
     // Cover letter
     if (data.coverLetter) {
-      await this.fillIndeedCoverLetter(page, data.coverLetter)
+      await this.fillIndeedCoverLetter(page, data.coverLetter, pack)
     }
 
     // LinkedIn profile
     if (data.linkedinProfile) {
-      const linkedinSelectors = [
-        'input[name="linkedinProfile"]',
-        'input[placeholder*="linkedin" i]',
-        'input[name="socialProfile"]'
-      ]
-      
-      await this.fillFirstFoundInput(page, linkedinSelectors, data.linkedinProfile, 'LinkedIn Profile')
+      await this.fillFirstFoundInput(page, pack.fields.linkedin, data.linkedinProfile, 'LinkedIn Profile')
     }
 
     console.log('Form filling completed')
   }
 
-  private async fillFirstFoundInput(page: Page, selectors: string[], value: string, fieldName: string): Promise<boolean> {
+  private async fillFirstFoundInput(page: Page, selectors: string[] = [], value: string, fieldName: string): Promise<boolean> {
     for (const selector of selectors) {
       try {
         const input = await page.$(selector)
@@ -307,6 +396,8 @@ export class JobApplicationAutomation {
           const inputValue = await input.evaluate((el: any) => el.value)
           if (inputValue.includes(value)) {
             console.log(`✓ ${fieldName} filled successfully`)
+            await this.recordStep(page, 'FILL', `Fill ${fieldName}`, { selector })
+            this.notePreviewField(page, fieldName, value, selector)
             return true
           }
         }
@@ -317,10 +408,15 @@ export class JobApplicationAutomation {
     }
     
     console.log(`⚠️ Could not fill ${fieldName} - no matching selectors found`)
+    this.pagePreviews.get(page)?.missing.push(fieldName)
+    await this.recordStep(page, 'FILL', `Fill ${fieldName}`, {
+      status: 'SKIPPED',
+      error: `No field matched: ${selectors.join(', ')}`,
+    })
     return false
   }
 
-  private async uploadResumeToIndeed(page: Page, resumeUrl: string): Promise<void> {
+  private async uploadResumeToIndeed(page: Page, resumeUrl: string, pack: SelectorPack): Promise<void> {
     console.log('Attempting to upload resume...')
     
     try {
@@ -342,20 +438,15 @@ export class JobApplicationAutomation {
       
       console.log(`Resume downloaded to: ${tempFilePath}`)
       
-      const fileInputSelectors = [
-        'input[type="file"]',
-        'input[name="resume"]',
-        'input[data-testid="resume-upload"]',
-        'input[accept*="pdf" i]'
-      ]
-
-      for (const selector of fileInputSelectors) {
+      for (const selector of pack.fields.resume || []) {
         try {
           const fileInput = await page.$(selector) as any
           if (fileInput) {
             console.log(`Found file input: ${selector}`)
             await fileInput.uploadFile(tempFilePath)
             console.log('✓ Resume uploaded successfully')
+            await this.recordStep(page, 'UPLOAD', 'Upload resume', { selector })
+            this.noteResume(page, resumeUrl, selector)
             
             // Clean up temporary file
             await fs.unlink(tempFilePath)
@@ -376,15 +467,8 @@ export class JobApplicationAutomation {
     }
   }
 
-  private async fillIndeedCoverLetter(page: Page, coverLetter: string): Promise<void> {
-    const coverLetterSelectors = [
-      'textarea[name="coverLetter"]',
-      'textarea[data-testid="cover-letter"]',
-      'textarea[placeholder*="cover letter" i]',
-      '#coverLetter'
-    ]
-
-    for (const selector of coverLetterSelectors) {
+  private async fillIndeedCoverLetter(page: Page, coverLetter: string, pack: SelectorPack): Promise<void> {
+    for (const selector of pack.fields.coverLetter || []) {
       try {
         const textarea = await page.$(selector)
         if (textarea) {
@@ -392,6 +476,8 @@ export class JobApplicationAutomation {
           await textarea.click()
           await textarea.type(coverLetter, { delay: 20 })
           console.log('✓ Cover letter filled')
+          await this.recordStep(page, 'FILL', 'Fill Cover Letter', { selector })
+          this.notePreviewField(page, 'Cover Letter', coverLetter, selector)
           return
         }
       } catch (error) {
@@ -402,18 +488,10 @@ export class JobApplicationAutomation {
     console.log('⚠️ No cover letter field found')
   }
 
-  private async submitIndeedApplication(page: Page): Promise<boolean> {
+  private async submitIndeedApplication(page: Page, pack: SelectorPack): Promise<boolean> {
     console.log('Attempting to submit application...')
-    
-    const submitSelectors = [
-      'button[data-testid="submit-application-button"]',
-      'button[type="submit"]',
-      'button:has-text("Submit")',
-      'button:has-text("Apply")',
-      '.ia-ApplyForm-submitButton'
-    ]
-
-    for (const selector of submitSelectors) {
+
+    for (const selector of pack.buttons.submit || []) {
       try {
         const button = await page.$(selector)
         if (button) {
@@ -426,8 +504,11 @@ export class JobApplicationAutomation {
             continue
           }
           
+          if (await this.skipSubmit(page, selector)) return true
+          
           await button.click()
           console.log('✓ Submit button clicked')
+          await this.recordStep(page, 'SUBMIT', 'Click Submit', { selector })
           
           // Wait for navigation or confirmation
           await page.waitForTimeout(3000)
@@ -443,46 +524,36 @@ export class JobApplicationAutomation {
     return false
   }
 
-  private async getIndeedConfirmationId(page: Page): Promise<string | null> {
-    try {
-      // Wait for confirmation page
-      await page.waitForSelector('.ia-ConfirmationPage, .confirmation, [data-testid="confirmation"]', { timeout: 10000 })
-      
-      // Look for confirmation text or ID
-      const confirmationSelectors = [
-        '.confirmation-id',
-        '.application-id', 
-        '[data-testid="confirmation-id"]'
-      ]
-      
-      for (const selector of confirmationSelectors) {
-        const element = await page.$(selector)
-        if (element) {
-          const confirmationId = await element.evaluate((el: any) => el.textContent)
-          if (confirmationId) {
-            console.log('✓ Found confirmation ID:', confirmationId)
-            return confirmationId.trim()
-          }
-        }
-      }
-      
-      // If no specific ID, just return success indicator
-      return 'APPLICATION_SUBMITTED'
-      
-    } catch (error) {
+  private async getIndeedConfirmationId(page: Page, pack: SelectorPack): Promise<string | null> {
+    // Wait for confirmation page
+    if (!(await this.waitForConfirmation(page, pack))) {
       console.log('Could not find confirmation page, but application may have succeeded')
       return 'SUBMITTED_NO_CONFIRMATION'
     }
+
+    // Look for confirmation text or ID
+    const confirmationId = await extractConfirmationId(page, pack)
+    if (confirmationId) {
+      console.log('✓ Found confirmation ID:', confirmationId)
+      return confirmationId
+    }
+
+    // If no specific ID, just return success indicator
+    return 'APPLICATION_SUBMITTED'
+  }
+
+  private async waitForConfirmation(page: Page, pack: SelectorPack): Promise<boolean> {
+    if (await waitForAny(page, pack.success.selectors, 10000)) return true
+    return isSuccessPage(page, pack)
   }
 
   // Greenhouse automation implementation
   private async applyToGreenhouse(jobUrl: string, data: ApplicationData): Promise<ApplicationResult> {
-    if (!this.browser) throw new Error('Browser not initialized')
-    
-    const page = await this.browser.newPage()
+    const page = await this.openPage(data)
     
     try {
       console.log('Starting Greenhouse application automation...')
+      const pack = await this.loadPack(page, 'greenhouse')
       
       // Set realistic user agent
       await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36')
@@ -490,21 +561,27 @@ export class JobApplicationAutomation {
       // Navigate to Greenhouse application page
       console.log('Navigating to Greenhouse job page:', jobUrl)
       await page.goto(jobUrl, { waitUntil: 'networkidle2', timeout: 30000 })
+      await this.recordStep(page, 'NAVIGATE', 'Open job page')
       
       // Wait for Greenhouse application form to load
-      await page.waitForSelector('#application_form, .application-form, [data-provides="application-form"]', { timeout: 15000 })
+      await this.waitForReady(page, pack.ready.form, 'Greenhouse application form')
       
       console.log('Greenhouse application form detected')
       
       // Fill out the standard Greenhouse application form
-      await this.fillGreenhouseApplicationForm(page, data)
+      await this.fillGreenhouseApplicationForm(page, data, pack)
       
       // Submit the application
-      const submitted = await this.submitGreenhouseApplication(page)
+      const submitted = await this.submitGreenhouseApplication(page, pack)
+      
+      if (submitted && this.isDryRun(page)) {
+        return { success: true, platform: 'greenhouse', method: 'dry_run' }
+      }
       
       if (submitted) {
         // Look for confirmation
-        const confirmationId = await this.getGreenhouseConfirmationId(page)
+        const confirmationId = await this.getGreenhouseConfirmationId(page, pack)
+        await this.recordStep(page, 'CONFIRMATION', 'Confirmation page', { fullPage: true })
         
         return {
           success: true,
@@ -518,6 +595,7 @@ export class JobApplicationAutomation {
 
     } catch (error) {
       console.error('Greenhouse automation error:', error)
+      await this.recordFailure(page, error)
       
       // Take screenshot for debugging (only in development)
       if (process.env.NODE_ENV !== 'production') {
@@ -540,71 +618,40 @@ export class JobApplicationAutomation {
     }
   }
 
-  private async fillGreenhouseApplicationForm(page: Page, data: ApplicationData): Promise<void> {
+  private async fillGreenhouseApplicationForm(page: Page, data: ApplicationData, pack: SelectorPack): Promise<void> {
     console.log('Filling Greenhouse application form...')
 
-    // Greenhouse standard form selectors (very consistent across companies)
-    
     // Personal Information Section
-    await this.fillGreenhousePersonalInfo(page, data)
+    await this.fillGreenhousePersonalInfo(page, data, pack)
     
     // Resume Upload Section  
-    await this.uploadResumeToGreenhouse(page, data.resumeUrl)
+    await this.uploadResumeToGreenhouse(page, data.resumeUrl, pack)
     
     // Cover Letter Section
     if (data.coverLetter) {
-      await this.fillGreenhouseCoverLetter(page, data.coverLetter)
+      await this.fillGreenhouseCoverLetter(page, data.coverLetter, pack)
     }
     
     // Additional Information (LinkedIn, Portfolio, etc.)
-    await this.fillGreenhouseAdditionalInfo(page, data)
+    await this.fillGreenhouseAdditionalInfo(page, data, pack)
     
     console.log('Greenhouse form filling completed')
   }
 
-  private async fillGreenhousePersonalInfo(page: Page, data: ApplicationData): Promise<void> {
-    // First Name
-    const firstNameSelectors = [
-      '#first_name',
-      'input[name="first_name"]',
-      'input[placeholder*="First name" i]',
-      '#application_first_name'
-    ]
+  private async fillGreenhousePersonalInfo(page: Page, data: ApplicationData, pack: SelectorPack): Promise<void> {
     const firstName = data.fullName.split(' ')[0]
-    await this.fillFirstFoundInput(page, firstNameSelectors, firstName, 'First Name')
-
-    // Last Name  
-    const lastNameSelectors = [
-      '#last_name',
-      'input[name="last_name"]',
-      'input[placeholder*="Last name" i]',
-      '#application_last_name'
-    ]
+    await this.fillFirstFoundInput(page, pack.fields.firstName, firstName, 'First Name')
+
     const lastName = data.fullName.split(' ').slice(1).join(' ')
-    await this.fillFirstFoundInput(page, lastNameSelectors, lastName, 'Last Name')
-
-    // Email
-    const emailSelectors = [
-      '#email',
-      'input[name="email"]',
-      'input[type="email"]',
-      '#application_email'
-    ]
-    await this.fillFirstFoundInput(page, emailSelectors, data.email, 'Email')
-
-    // Phone
-    const phoneSelectors = [
-      '#phone',
-      'input[name="phone"]',
-      'input[type="tel"]',
-      '#application_phone'
-    ]
-    await this.fillFirstFoundInput(page, phoneSelectors, data.phone, 'Phone')
+    await this.fillFirstFoundInput(page, pack.fields.lastName, lastName, 'Last Name')
+
+    await this.fillFirstFoundInput(page, pack.fields.email, data.email, 'Email')
+    await this.fillFirstFoundInput(page, pack.fields.phone, data.phone, 'Phone')
 
     console.log('✓ Greenhouse personal info filled')
   }
 
-  private async uploadResumeToGreenhouse(page: Page, resumeUrl: string): Promise<void> {
+  private async uploadResumeToGreenhouse(page: Page, resumeUrl: string, pack: SelectorPack): Promise<void> {
     console.log('Attempting to upload resume to Greenhouse...')
     
     try {
@@ -626,21 +673,15 @@ export class JobApplicationAutomation {
       
       console.log(`Resume downloaded to: ${tempFilePath}`)
       
-      const fileInputSelectors = [
-        '#resume',
-        'input[name="resume"]',
-        'input[type="file"]',
-        '#application_resume',
-        'input[accept*="pdf" i]'
-      ]
-
-      for (const selector of fileInputSelectors) {
+      for (const selector of pack.fields.resume || []) {
         try {
           const fileInput = await page.$(selector) as any
           if (fileInput) {
             console.log(`Found Greenhouse file input: ${selector}`)
             await fileInput.uploadFile(tempFilePath)
             console.log('✓ Greenhouse resume uploaded successfully')
+            await this.recordStep(page, 'UPLOAD', 'Upload resume', { selector })
+            this.noteResume(page, resumeUrl, selector)
             
             // Clean up temporary file
             await fs.unlink(tempFilePath)
@@ -661,15 +702,8 @@ export class JobApplicationAutomation {
     }
   }
 
-  private async fillGreenhouseCoverLetter(page: Page, coverLetter: string): Promise<void> {
-    const coverLetterSelectors = [
-      '#cover_letter',
-      'textarea[name="cover_letter"]',
-      '#application_cover_letter',
-      'textarea[placeholder*="cover letter" i]'
-    ]
-
-    for (const selector of coverLetterSelectors) {
+  private async fillGreenhouseCoverLetter(page: Page, coverLetter: string, pack: SelectorPack): Promise<void> {
+    for (const selector of pack.fields.coverLetter || []) {
       try {
         const textarea = await page.$(selector)
         if (textarea) {
@@ -677,6 +711,8 @@ export class JobApplicationAutomation {
           await textarea.click()
           await textarea.type(coverLetter, { delay: 20 })
           console.log('✓ Greenhouse cover letter filled')
+          await this.recordStep(page, 'FILL', 'Fill Cover Letter', { selector })
+          this.notePreviewField(page, 'Cover Letter', coverLetter, selector)
           return
         }
       } catch (error) {
@@ -687,47 +723,37 @@ export class JobApplicationAutomation {
     console.log('⚠️ No Greenhouse cover letter field found')
   }
 
-  private async fillGreenhouseAdditionalInfo(page: Page, data: ApplicationData): Promise<void> {
+  private async fillGreenhouseAdditionalInfo(page: Page, data: ApplicationData, pack: SelectorPack): Promise<void> {
     // LinkedIn Profile
     if (data.linkedinProfile) {
-      const linkedinSelectors = [
-        '#linkedin',
-        'input[name="linkedin"]',
-        'input[placeholder*="linkedin" i]',
-        '#application_linkedin'
-      ]
-      await this.fillFirstFoundInput(page, linkedinSelectors, data.linkedinProfile, 'LinkedIn Profile')
+      await this.fillFirstFoundInput(page, pack.fields.linkedin, data.linkedinProfile, 'LinkedIn Profile')
     }
 
     // Portfolio/Website
     if (data.portfolioUrl) {
-      const portfolioSelectors = [
-        '#website',
-        'input[name="website"]', 
-        'input[name="portfolio"]',
-        'input[placeholder*="website" i]',
-        'input[placeholder*="portfolio" i]'
-      ]
-      await this.fillFirstFoundInput(page, portfolioSelectors, data.portfolioUrl, 'Portfolio URL')
+      await this.fillFirstFoundInput(page, pack.fields.portfolio, data.portfolioUrl, 'Portfolio URL')
+    }
+
+    // Employer-specific questions come from the user's answer bank
+    if (data.userId && pack.questions) {
+      const { fillScreeningQuestions } = await import('./answerBank')
+      const result = await fillScreeningQuestions(
+        page,
+        data.userId,
+        pack.questions.container,
+        { job: data.job },
+        pack.questions.label
+      )
+      this.noteAnswers(page, result.answered)
     }
 
     console.log('✓ Greenhouse additional info filled')
   }
 
-  private async submitGreenhouseApplication(page: Page): Promise<boolean> {
+  private async submitGreenhouseApplication(page: Page, pack: SelectorPack): Promise<boolean> {
     console.log('Attempting to submit Greenhouse application...')
-    
-    const submitSelectors = [
-      '#submit_application',
-      'input[type="submit"]',
-      'button[type="submit"]',
-      'input[value*="Submit" i]',
-      'button:has-text("Submit")',
-      '.btn-submit',
-      '#application_submit'
-    ]
-
-    for (const selector of submitSelectors) {
+
+    for (const selector of pack.buttons.submit || []) {
       try {
         const button = await page.$(selector)
         if (button) {
@@ -740,8 +766,11 @@ export class JobApplicationAutomation {
             continue
           }
           
+          if (await this.skipSubmit(page, selector)) return true
+          
           await button.click()
           console.log('✓ Greenhouse submit button clicked')
+          await this.recordStep(page, 'SUBMIT', 'Click Submit', { selector })
           
           // Wait for submission to process
           await page.waitForTimeout(3000)
@@ -757,72 +786,54 @@ export class JobApplicationAutomation {
     return false
   }
 
-  private async getGreenhouseConfirmationId(page: Page): Promise<string | null> {
-    try {
-      // Wait for confirmation page or success message
-      await page.waitForSelector('.confirmation, .success-message, .application-submitted, #confirmation', { timeout: 10000 })
-      
-      // Look for confirmation text
-      const confirmationSelectors = [
-        '.confirmation-number',
-        '.application-id',
-        '.reference-number',
-        '#confirmation_id'
-      ]
-      
-      for (const selector of confirmationSelectors) {
-        const element = await page.$(selector)
-        if (element) {
-          const confirmationId = await element.evaluate((el: any) => el.textContent)
-          if (confirmationId) {
-            console.log('✓ Found Greenhouse confirmation ID:', confirmationId)
-            return confirmationId.trim()
-          }
-        }
-      }
-      
-      // Check URL for confirmation
-      const currentUrl = page.url()
-      if (currentUrl.includes('confirmation') || currentUrl.includes('submitted') || currentUrl.includes('thank')) {
-        console.log('✓ Greenhouse application submitted successfully (URL confirmation)')
-        return 'GREENHOUSE_SUBMITTED_SUCCESS'
-      }
-      
-      return 'GREENHOUSE_APPLICATION_SUBMITTED'
-      
-    } catch (error) {
+  private async getGreenhouseConfirmationId(page: Page, pack: SelectorPack): Promise<string | null> {
+    // Wait for confirmation page or success message
+    if (!(await this.waitForConfirmation(page, pack))) {
       console.log('Could not find Greenhouse confirmation, but application may have succeeded')
       return 'GREENHOUSE_SUBMITTED_NO_CONFIRMATION'
     }
+
+    const confirmationId = await extractConfirmationId(page, pack)
+    if (confirmationId) {
+      console.log('✓ Found Greenhouse confirmation ID:', confirmationId)
+      return confirmationId
+    }
+
+    return 'GREENHOUSE_APPLICATION_SUBMITTED'
   }
 
   // Lever automation implementation
   private async applyToLever(jobUrl: string, data: ApplicationData): Promise<ApplicationResult> {
-    if (!this.browser) throw new Error('Browser not initialized')
-    
-    const page = await this.browser.newPage()
+    const page = await this.openPage(data)
     
     try {
       console.log('Starting Lever application automation...')
+      const pack = await this.loadPack(page, 'lever')
       
       await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36')
       
       console.log('Navigating to Lever job page:', jobUrl)
       await page.goto(jobUrl, { waitUntil: 'networkidle2', timeout: 30000 })
+      await this.recordStep(page, 'NAVIGATE', 'Open job page')
       
       // Wait for Lever application form to load
-      await page.waitForSelector('.application-form, .lever-form, form[data-qa="application-form"]', { timeout: 15000 })
+      await this.waitForReady(page, pack.ready.form, 'Lever application form')
       
       console.log('Lever application form detected')
       
       // Fill out the Lever application form
-      await this.fillLeverApplicationForm(page, data)
+      await this.fillLeverApplicationForm(page, data, pack)
       
       // Submit the application
-      const submitted = await this.submitLeverApplication(page)
+      const submitted = await this.submitLeverApplication(page, pack)
+      
+      if (submitted && this.isDryRun(page)) {
+        return { success: true, platform: 'lever', method: 'dry_run' }
+      }
       
       if (submitted) {
-        const confirmationId = await this.getLeverConfirmationId(page)
+        const confirmationId = await this.getLeverConfirmationId(page, pack)
+        await this.recordStep(page, 'CONFIRMATION', 'Confirmation page', { fullPage: true })
         
         return {
           success: true,
@@ -836,6 +847,7 @@ export class JobApplicationAutomation {
 
     } catch (error) {
       console.error('Lever automation error:', error)
+      await this.recordFailure(page, error)
       
       if (process.env.NODE_ENV !== 'production') {
         try {
@@ -857,81 +869,40 @@ export class JobApplicationAutomation {
     }
   }
 
-  private async fillLeverApplicationForm(page: Page, data: ApplicationData): Promise<void> {
+  private async fillLeverApplicationForm(page: Page, data: ApplicationData, pack: SelectorPack): Promise<void> {
     console.log('Filling Lever application form...')
 
     // Lever often uses a single name field or separate first/last
-    const nameSelectors = [
-      'input[name="name"]',
-      'input[placeholder*="Full name" i]',
-      'input[placeholder*="Name" i]'
-    ]
-    
-    const firstNameSelectors = [
-      'input[name="first_name"]',
-      'input[placeholder*="First name" i]'
-    ]
-    
-    const lastNameSelectors = [
-      'input[name="last_name"]', 
-      'input[placeholder*="Last name" i]'
-    ]
-
-    // Try full name first
-    const hasFullName = await this.fillFirstFoundInput(page, nameSelectors, data.fullName, 'Full Name')
+    const hasFullName = await this.fillFirstFoundInput(page, pack.fields.fullName, data.fullName, 'Full Name')
     
     if (!hasFullName) {
       // Try separate first/last name fields
       const firstName = data.fullName.split(' ')[0]
       const lastName = data.fullName.split(' ').slice(1).join(' ')
-      await this.fillFirstFoundInput(page, firstNameSelectors, firstName, 'First Name')
-      await this.fillFirstFoundInput(page, lastNameSelectors, lastName, 'Last Name')
+      await this.fillFirstFoundInput(page, pack.fields.firstName, firstName, 'First Name')
+      await this.fillFirstFoundInput(page, pack.fields.lastName, lastName, 'Last Name')
     }
 
-    // Email
-    const emailSelectors = [
-      'input[name="email"]',
-      'input[type="email"]',
-      'input[placeholder*="email" i]'
-    ]
-    await this.fillFirstFoundInput(page, emailSelectors, data.email, 'Email')
-
-    // Phone
-    const phoneSelectors = [
-      'input[name="phone"]',
-      'input[type="tel"]',
-      'input[placeholder*="phone" i]'
-    ]
-    await this.fillFirstFoundInput(page, phoneSelectors, data.phone, 'Phone')
+    await this.fillFirstFoundInput(page, pack.fields.email, data.email, 'Email')
+    await this.fillFirstFoundInput(page, pack.fields.phone, data.phone, 'Phone')
 
     // Resume upload
-    await this.uploadResumeToLever(page, data.resumeUrl)
+    await this.uploadResumeToLever(page, data.resumeUrl, pack)
 
     // Cover letter/additional information
     if (data.coverLetter) {
-      const coverLetterSelectors = [
-        'textarea[name="additional_information"]',
-        'textarea[name="comments"]',
-        'textarea[placeholder*="cover" i]',
-        'textarea[placeholder*="additional" i]'
-      ]
-      await this.fillFirstFoundInput(page, coverLetterSelectors, data.coverLetter, 'Cover Letter')
+      await this.fillFirstFoundInput(page, pack.fields.coverLetter, data.coverLetter, 'Cover Letter')
     }
 
     // LinkedIn profile
     if (data.linkedinProfile) {
-      const linkedinSelectors = [
-        'input[name="linkedin"]',
-        'input[placeholder*="linkedin" i]',
-        'input[name="social_profile"]'
-      ]
-      await this.fillFirstFoundInput(page, linkedinSelectors, data.linkedinProfile, 'LinkedIn Profile')
+      await this.fillFirstFoundInput(page, pack.fields.linkedin, data.linkedinProfile, 'LinkedIn Profile')
     }
 
     console.log('✓ Lever form filling completed')
   }
 
-  private async uploadResumeToLever(page: Page, resumeUrl: string): Promise<void> {
+  private async uploadResumeToLever(page: Page, resumeUrl: string, pack: SelectorPack): Promise<void> {
     console.log('Attempting to upload resume to Lever...')
     
     try {
@@ -949,20 +920,15 @@ export class JobApplicationAutomation {
       const tempFilePath = path.join(tempDir, `resume-lever-${Date.now()}.pdf`)
       await fs.writeFile(tempFilePath, Buffer.from(resumeBuffer))
       
-      const fileInputSelectors = [
-        'input[type="file"]',
-        'input[name="resume"]',
-        'input[accept*="pdf" i]',
-        '.file-upload input'
-      ]
-
-      for (const selector of fileInputSelectors) {
+      for (const selector of pack.fields.resume || []) {
         try {
           const fileInput = await page.$(selector) as any
           if (fileInput) {
             console.log(`Found Lever file input: ${selector}`)
             await fileInput.uploadFile(tempFilePath)
             console.log('✓ Lever resume uploaded successfully')
+            await this.recordStep(page, 'UPLOAD', 'Upload resume', { selector })
+            this.noteResume(page, resumeUrl, selector)
             
             await fs.unlink(tempFilePath)
             return
@@ -981,19 +947,10 @@ export class JobApplicationAutomation {
     }
   }
 
-  private async submitLeverApplication(page: Page): Promise<boolean> {
+  private async submitLeverApplication(page: Page, pack: SelectorPack): Promise<boolean> {
     console.log('Attempting to submit Lever application...')
-    
-    const submitSelectors = [
-      'button[type="submit"]',
-      'input[type="submit"]',
-      'button:has-text("Submit Application")',
-      'button:has-text("Submit")',
-      '.submit-btn',
-      '[data-qa="submit-application"]'
-    ]
-
-    for (const selector of submitSelectors) {
+
+    for (const selector of pack.buttons.submit || []) {
       try {
         const button = await page.$(selector)
         if (button) {
@@ -1005,8 +962,11 @@ export class JobApplicationAutomation {
             continue
           }
           
+          if (await this.skipSubmit(page, selector)) return true
+          
           await button.click()
           console.log('✓ Lever submit button clicked')
+          await this.recordStep(page, 'SUBMIT', 'Click Submit', { selector })
           
           await page.waitForTimeout(3000)
           return true
@@ -1021,59 +981,38 @@ export class JobApplicationAutomation {
     return false
   }
 
-  private async getLeverConfirmationId(page: Page): Promise<string | null> {
-    try {
-      // Wait for confirmation page or success message
-      await page.waitForSelector('.confirmation, .thank-you, .success, .submitted', { timeout: 10000 })
-      
-      const confirmationSelectors = [
-        '.confirmation-id',
-        '.application-id',
-        '.reference-id',
-        '[data-qa="confirmation"]'
-      ]
-      
-      for (const selector of confirmationSelectors) {
-        const element = await page.$(selector)
-        if (element) {
-          const confirmationId = await element.evaluate((el: any) => el.textContent)
-          if (confirmationId) {
-            console.log('✓ Found Lever confirmation ID:', confirmationId)
-            return confirmationId.trim()
-          }
-        }
-      }
-      
-      const currentUrl = page.url()
-      if (currentUrl.includes('thank') || currentUrl.includes('submitted') || currentUrl.includes('confirmation')) {
-        console.log('✓ Lever application submitted successfully (URL confirmation)')
-        return 'LEVER_SUBMITTED_SUCCESS'
-      }
-      
-      return 'LEVER_APPLICATION_SUBMITTED'
-      
-    } catch (error) {
+  private async getLeverConfirmationId(page: Page, pack: SelectorPack): Promise<string | null> {
+    // Wait for confirmation page or success message
+    if (!(await this.waitForConfirmation(page, pack))) {
       console.log('Could not find Lever confirmation, but application may have succeeded')
       return 'LEVER_SUBMITTED_NO_CONFIRMATION'
     }
+
+    const confirmationId = await extractConfirmationId(page, pack)
+    if (confirmationId) {
+      console.log('✓ Found Lever confirmation ID:', confirmationId)
+      return confirmationId
+    }
+
+    return 'LEVER_APPLICATION_SUBMITTED'
   }
 
   // LinkedIn automation implementation  
   private async applyToLinkedIn(jobUrl: string, data: ApplicationData): Promise<ApplicationResult> {
-    if (!this.browser) throw new Error('Browser not initialized')
-    
-    const page = await this.browser.newPage()
+    const page = await this.openPage(data)
     
     try {
       console.log('Starting LinkedIn application automation...')
+      const pack = await this.loadPack(page, 'linkedin')
       
       await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36')
       
       console.log('Navigating to LinkedIn job page:', jobUrl)
       await page.goto(jobUrl, { waitUntil: 'networkidle2', timeout: 30000 })
+      await this.recordStep(page, 'NAVIGATE', 'Open job page')
       
       // Check if user needs to be logged in
-      const needsLogin = await page.$('.authwall, .guest-signin')
+      const needsLogin = await findBlocker(page, pack)
       if (needsLogin) {
         return {
           success: false,
@@ -1085,7 +1024,7 @@ export class JobApplicationAutomation {
       }
       
       // Look for Easy Apply button
-      const easyApplyButton = await page.$('.jobs-apply-button, [aria-label*="Easy Apply"], [data-control-name="jobdetails_topcard_inapply"]')
+      const easyApplyButton = await findFirst(page, pack.buttons.apply)
       if (!easyApplyButton) {
         return {
           success: false,
@@ -1097,18 +1036,24 @@ export class JobApplicationAutomation {
       }
       
       console.log('Found LinkedIn Easy Apply button')
-      await easyApplyButton.click()
+      await easyApplyButton.element.click()
+      await this.recordStep(page, 'CLICK', 'Click Easy Apply', { selector: easyApplyButton.selector })
       
       // Wait for application modal to load
-      await page.waitForSelector('.jobs-easy-apply-modal, .apply-modal', { timeout: 15000 })
+      await this.waitForReady(page, pack.ready.form, 'LinkedIn Easy Apply form')
       
       // Fill out LinkedIn Easy Apply form
-      await this.fillLinkedInEasyApplyForm(page, data)
+      await this.fillLinkedInEasyApplyForm(page, data, pack)
       
       // Submit the application
-      const submitted = await this.submitLinkedInApplication(page)
+      const submitted = await this.submitLinkedInApplication(page, pack)
+      
+      if (submitted && this.isDryRun(page)) {
+        return { success: true, platform: 'linkedin', method: 'dry_run' }
+      }
       
       if (submitted) {
+        await this.recordStep(page, 'CONFIRMATION', 'Confirmation page', { fullPage: true })
         return {
           success: true,
           platform: 'linkedin',
@@ -1121,6 +1066,7 @@ export class JobApplicationAutomation {
 
     } catch (error) {
       console.error('LinkedIn automation error:', error)
+      await this.recordFailure(page, error)
       
       return {
         success: false,
@@ -1134,36 +1080,30 @@ export class JobApplicationAutomation {
     }
   }
 
-  private async fillLinkedInEasyApplyForm(page: Page, data: ApplicationData): Promise<void> {
+  private async fillLinkedInEasyApplyForm(page: Page, data: ApplicationData, pack: SelectorPack): Promise<void> {
     console.log('Filling LinkedIn Easy Apply form...')
     
     // LinkedIn Easy Apply forms are usually pre-filled with profile data
     // We mainly need to handle additional questions and file uploads
     
     // Check for resume upload
-    const resumeUploadSelector = 'input[type="file"][accept*="pdf"], .file-input, .resume-upload input'
-    const resumeUpload = await page.$(resumeUploadSelector)
+    const resumeUpload = await findFirst(page, pack.fields.resume)
     if (resumeUpload && data.resumeUrl) {
-      await this.uploadResumeToLinkedIn(page, data.resumeUrl)
+      await this.uploadResumeToLinkedIn(page, data.resumeUrl, resumeUpload.selector)
     }
     
     // Handle cover letter if there's a text area
     if (data.coverLetter) {
-      const coverLetterSelectors = [
-        'textarea[name="coverLetter"]',
-        'textarea[placeholder*="cover letter" i]',
-        'textarea[aria-label*="cover letter" i]'
-      ]
-      await this.fillFirstFoundInput(page, coverLetterSelectors, data.coverLetter, 'Cover Letter')
+      await this.fillFirstFoundInput(page, pack.fields.coverLetter, data.coverLetter, 'Cover Letter')
     }
     
     // Handle any additional questions (these vary by job posting)
-    await this.handleLinkedInAdditionalQuestions(page)
+    await this.handleLinkedInAdditionalQuestions(page, data, pack)
     
     console.log('✓ LinkedIn form filling completed')
   }
 
-  private async uploadResumeToLinkedIn(page: Page, resumeUrl: string): Promise<void> {
+  private async uploadResumeToLinkedIn(page: Page, resumeUrl: string, selector: string): Promise<void> {
     try {
       const response = await fetch(resumeUrl)
       if (!response.ok) return
@@ -1177,10 +1117,12 @@ export class JobApplicationAutomation {
       const tempFilePath = path.join(tempDir, `resume-linkedin-${Date.now()}.pdf`)
       await fs.writeFile(tempFilePath, Buffer.from(resumeBuffer))
       
-      const fileInput = await page.$('input[type="file"]') as any
+      const fileInput = await page.$(selector) as any
       if (fileInput) {
         await fileInput.uploadFile(tempFilePath)
         console.log('✓ LinkedIn resume uploaded successfully')
+        await this.recordStep(page, 'UPLOAD', 'Upload resume', { selector })
+        this.noteResume(page, resumeUrl, selector)
       }
       
       await fs.unlink(tempFilePath)
@@ -1189,64 +1131,43 @@ export class JobApplicationAutomation {
     }
   }
 
-  private async handleLinkedInAdditionalQuestions(page: Page): Promise<void> {
-    // Handle common LinkedIn Easy Apply questions
-    const questions = await page.$$('.jobs-easy-apply-form-section')
-    
-    for (const question of questions) {
-      try {
-        const questionText = await question.$eval('.jobs-easy-apply-form-element__label', (el: any) => el.textContent?.toLowerCase() || '')
-        
-        if (questionText.includes('years of experience')) {
-          const input = await question.$('input[type="number"], select')
-          if (input) {
-            await input.click()
-            await input.type('3') // Default experience
-          }
-        }
-        
-        if (questionText.includes('require sponsorship') || questionText.includes('work authorization')) {
-          const select = await question.$('select')
-          if (select) {
-            await page.select('select', 'No')
-          }
-        }
-        
-        if (questionText.includes('willing to relocate')) {
-          const select = await question.$('select')
-          if (select) {
-            await page.select('select', 'Yes')
-          }
-        }
-      } catch (error) {
-        console.log('Error handling LinkedIn question:', error)
-        continue
-      }
+  private async handleLinkedInAdditionalQuestions(page: Page, data: ApplicationData, pack: SelectorPack): Promise<void> {
+    // Easy Apply questions vary by posting; answer them from the user's answer bank
+    if (!data.userId || !pack.questions) return
+
+    try {
+      const { fillScreeningQuestions } = await import('./answerBank')
+      const result = await fillScreeningQuestions(
+        page,
+        data.userId,
+        pack.questions.container,
+        { job: data.job },
+        pack.questions.label
+      )
+      this.noteAnswers(page, result.answered)
+    } catch (error) {
+      console.log('Error handling LinkedIn questions:', error)
     }
   }
 
-  private async submitLinkedInApplication(page: Page): Promise<boolean> {
-    const submitSelectors = [
-      'button[aria-label*="Submit application"]',
-      'button[data-control-name="submit_unify"]',
-      'button:has-text("Submit application")',
-      '.jobs-apply-button--top-card'
-    ]
-
-    for (const selector of submitSelectors) {
+  private async submitLinkedInApplication(page: Page, pack: SelectorPack): Promise<boolean> {
+    for (const selector of pack.buttons.submit || []) {
       try {
         const button = await page.$(selector)
         if (button) {
+          if (await this.skipSubmit(page, selector)) return true
+          
           await button.click()
           console.log('✓ LinkedIn submit button clicked')
+          await this.recordStep(page, 'SUBMIT', 'Click Submit', { selector })
           
           // Handle potential additional steps (LinkedIn sometimes has multi-step applications)
           await page.waitForTimeout(2000)
           
           // Check if there's a "Next" button (multi-step form)
-          const nextButton = await page.$('button[aria-label*="Continue"], button:has-text("Next")')
+          const nextButton = await findFirst(page, pack.buttons.next)
           if (nextButton) {
-            await nextButton.click()
+            await nextButton.element.click()
             await page.waitForTimeout(2000)
           }
           
@@ -1263,48 +1184,118 @@ export class JobApplicationAutomation {
 
   // Workday automation implementation
   private async applyToWorkday(jobUrl: string, data: ApplicationData): Promise<ApplicationResult> {
-    if (!this.browser) throw new Error('Browser not initialized')
+    const tenant = extractWorkdayTenant(jobUrl)
+    if (!tenant || !data.userId) {
+      return {
+        success: false,
+        platform: 'workday',
+        method: 'redirect',
+        redirectUrl: jobUrl,
+        error: !tenant
+          ? 'Could not determine the Workday tenant from the job URL'
+          : 'Workday applications need a user to hold the tenant account'
+      }
+    }
     
-    const page = await this.browser.newPage()
+    const page = await this.openPage(data)
+    const fs = await import('fs/promises')
+    let resumePath: string | undefined
     
     try {
       console.log('Starting Workday application automation...')
       
       await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36')
-      
-      console.log('Navigating to Workday job page:', jobUrl)
-      await page.goto(jobUrl, { waitUntil: 'networkidle2', timeout: 30000 })
-      
-      // Look for Apply button
-      const applyButton = await page.$('[data-automation-id="apply"], .css-1psuvjl, button:has-text("Apply")')
-      if (!applyButton) {
-        throw new Error('Could not find Workday Apply button')
+
+      // Download resume to a temporary file for upload
+      if (data.resumeUrl) {
+        const response = await fetch(data.resumeUrl)
+        if (response.ok) {
+          const path = await import('path')
+          const os = await import('os')
+          resumePath = path.join(os.tmpdir(), `resume-${Date.now()}.pdf`)
+          await fs.writeFile(resumePath, Buffer.from(await response.arrayBuffer()))
+        }
+      }
+
+      const { WorkdayApplicationFlow } = await import('./workday')
+      const [firstName, ...lastNameParts] = data.fullName.trim().split(/\s+/)
+      const flow = new WorkdayApplicationFlow(page, tenant, {
+        userId: data.userId,
+        firstName,
+        lastName: lastNameParts.join(' '),
+        email: data.email,
+        phone: data.phone,
+        resumePath,
+        resumeUrl: data.resumeUrl,
+        coverLetter: data.coverLetter,
+        linkedinProfile: data.linkedinProfile,
+        portfolioUrl: data.portfolioUrl,
+        job: data.job,
+      }, this.pagePreviews.get(page))
+      
+      const result = await flow.run(jobUrl)
+      
+      if (result.success && result.dryRun) {
+        await this.recordStep(page, 'SUBMIT', 'Submit skipped (dry run)', { status: 'SKIPPED', fullPage: true })
+        return {
+          success: true,
+          platform: 'workday',
+          method: 'dry_run',
+          completedSteps: result.completedSteps
+        }
       }
       
-      await applyButton.click()
-      await page.waitForTimeout(3000)
-      
-      // Workday often requires creating an account first - this is complex to automate
-      // For now, we'll return a redirect result for Workday applications
+      if (result.success) {
+        await this.recordStep(page, 'CONFIRMATION', 'Confirmation page', { fullPage: true })
+        return {
+          success: true,
+          platform: 'workday',
+          method: 'automated',
+          confirmationId: result.confirmationId || 'SUCCESS',
+          completedSteps: result.completedSteps
+        }
+      }
+
+      if (process.env.NODE_ENV !== 'production') {
+        try {
+          await page.screenshot({ path: `debug-workday-${Date.now()}.png` })
+        } catch (screenshotError) {
+          console.error('Failed to take debug screenshot:', screenshotError)
+        }
+      }
+
+      await this.recordStep(page, 'FAILURE', `Stopped at ${result.stoppedAt || 'unknown step'}`, {
+        status: 'FAILED',
+        error: result.error,
+        fullPage: true,
+      })
+
+      // The candidate can pick up from the step we stopped at
       return {
         success: false,
         platform: 'workday',
         method: 'redirect',
         redirectUrl: jobUrl,
-        error: 'Workday applications require manual completion due to account creation requirements'
+        error: result.error,
+        stoppedAt: result.stoppedAt,
+        completedSteps: result.completedSteps
       }
 
     } catch (error) {
       console.error('Workday automation error:', error)
+      await this.recordFailure(page, error)
       
       return {
         success: false,
         platform: 'workday',
-        method: 'redirect',
-        error: 'Workday automation not yet supported - please apply manually',
+        method: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown Workday error',
         redirectUrl: jobUrl
       }
     } finally {
+      if (resumePath) {
+        await fs.unlink(resumePath).catch(() => undefined)
+      }
       await page.close()
     }
   }
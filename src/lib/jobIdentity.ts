@@ -0,0 +1,411 @@
+/**
+ * Canonical job identity
+ * Recognizes the same role when it is posted on several boards with slightly
+ * different titles, company suffixes or locations, so it can be surfaced and
+ * applied to only once.
+ */
+
+import { Application } from '@prisma/client'
+import { prisma } from './db'
+import { stripHtml } from './jobSources/utils'
+
+export interface JobIdentityInput {
+  title: string
+  company: string
+  description?: string | null
+  location?: string | null
+}
+
+export interface JobIdentity {
+  companyKey: string
+  titleKey: string
+  locationKey?: string
+  fingerprint?: string // 64-bit SimHash of the description, hex encoded
+}
+
+export interface CanonicalJobResolution {
+  canonicalJobId: string
+  isNew: boolean
+}
+
+// Titles this similar (token Jaccard) are the same role on their own
+const TITLE_MATCH_SIMILARITY = 0.8
+// Looser title matches also need near-identical descriptions
+const TITLE_FUZZY_SIMILARITY = 0.6
+// Max differing SimHash bits for two descriptions to count as the same posting
+const FINGERPRINT_MATCH_DISTANCE = 6
+// Fewer words than this are too little text to fingerprint reliably
+const MIN_FINGERPRINT_WORDS = 20
+const MAX_CANDIDATES = 200
+
+const COMPANY_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'llp', 'lp', 'ltd', 'limited', 'corp', 'corporation',
+  'co', 'company', 'plc', 'gmbh', 'ag', 'sa', 'bv', 'pty', 'pte',
+])
+
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: 'senior',
+  snr: 'senior',
+  jr: 'junior',
+  jnr: 'junior',
+  eng: 'engineer',
+  engr: 'engineer',
+  dev: 'developer',
+  mgr: 'manager',
+  mgmt: 'management',
+  swe: 'software engineer',
+  admin: 'administrator',
+  assoc: 'associate',
+  asst: 'assistant',
+  dir: 'director',
+  vp: 'vice president',
+  ops: 'operations',
+  ml: 'machine learning',
+  i: '1',
+  ii: '2',
+  iii: '3',
+  iv: '4',
+}
+
+// Work arrangement words say nothing about which role it is
+const TITLE_NOISE_WORDS = new Set(['remote', 'hybrid', 'onsite', 'wfh'])
+
+// Two titles with different seniority are different roles however similar the rest is
+const SENIORITY_WORDS = new Set([
+  'intern', 'junior', 'associate', 'mid', 'senior', 'staff', 'principal', 'lead', 'head',
+  'director', '1', '2', '3', '4',
+])
+
+const LOCATION_ALIASES: Record<string, string> = {
+  sf: 'san francisco',
+  nyc: 'new york',
+  'new york city': 'new york',
+  la: 'los angeles',
+  dc: 'washington',
+  'washington dc': 'washington',
+}
+
+/**
+ * "Acme, Inc." / "The Acme Company" / "ACME Corp" -> "acme"
+ */
+export function normalizeCompanyName(company: string): string {
+  const tokens = company
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  if (tokens[0] === 'the' && tokens.length > 1) {
+    tokens.shift()
+  }
+  while (tokens.length > 1 && COMPANY_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop()
+  }
+
+  // Joined so "Open AI" and "OpenAI" produce the same key
+  return tokens.join('')
+}
+
+/**
+ * "Sr. Software Eng (Remote)" -> "senior software engineer"
+ */
+export function normalizeJobTitle(title: string): string {
+  let normalized = title
+    .toLowerCase()
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(/\bfront[\s-]+end\b/g, 'frontend')
+    .replace(/\bback[\s-]+end\b/g, 'backend')
+    .replace(/\bfull[\s-]+stack\b/g, 'fullstack')
+    .replace(/\bon[\s-]+site\b/g, 'onsite')
+    .replace(/[^a-z0-9+#\s]/g, ' ')
+
+  normalized = normalized
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(token => TITLE_ABBREVIATIONS[token] || token)
+    .filter(token => !TITLE_NOISE_WORDS.has(token))
+    .join(' ')
+
+  return normalized
+}
+
+/**
+ * "San Francisco, CA, USA" -> "san francisco", anything remote -> "remote"
+ */
+export function normalizeLocation(location?: string | null): string | undefined {
+  if (!location) return undefined
+
+  const lower = location.toLowerCase()
+  if (/\b(remote|anywhere|work from home)\b/.test(lower)) {
+    return 'remote'
+  }
+
+  const city = lower
+    .split(/[,(/|]/)[0]
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  if (!city) return undefined
+  return LOCATION_ALIASES[city] || city
+}
+
+function fnv1a(text: string, seed: number): number {
+  let hash = seed >>> 0
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash >>> 0
+}
+
+/**
+ * 64-bit SimHash over word trigrams. Near-duplicate descriptions (same posting
+ * reformatted or truncated by another board) differ in only a few bits.
+ * Built from two 32-bit halves since the target has no BigInt.
+ */
+export function computeFingerprint(description?: string | null): string | undefined {
+  if (!description) return undefined
+
+  const words = stripHtml(description)
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  if (words.length < MIN_FINGERPRINT_WORDS) return undefined
+
+  const weights = new Array<number>(64).fill(0)
+  for (let i = 0; i <= words.length - 3; i++) {
+    const shingle = `${words[i]} ${words[i + 1]} ${words[i + 2]}`
+    const low = fnv1a(shingle, 0x811c9dc5)
+    const high = fnv1a(shingle, 0x050c5d1f)
+
+    for (let bit = 0; bit < 32; bit++) {
+      weights[bit] += (low >>> bit) & 1 ? 1 : -1
+      weights[bit + 32] += (high >>> bit) & 1 ? 1 : -1
+    }
+  }
+
+  let low = 0
+  let high = 0
+  for (let bit = 0; bit < 32; bit++) {
+    if (weights[bit] > 0) low |= 1 << bit
+    if (weights[bit + 32] > 0) high |= 1 << bit
+  }
+
+  return (high >>> 0).toString(16).padStart(8, '0') + (low >>> 0).toString(16).padStart(8, '0')
+}
+
+function popCount(value: number): number {
+  let count = 0
+  let remaining = value >>> 0
+  while (remaining) {
+    remaining &= remaining - 1
+    count++
+  }
+  return count
+}
+
+/**
+ * Number of differing bits between two fingerprints
+ */
+export function fingerprintDistance(a: string, b: string): number {
+  const highA = parseInt(a.slice(0, 8), 16)
+  const lowA = parseInt(a.slice(8), 16)
+  const highB = parseInt(b.slice(0, 8), 16)
+  const lowB = parseInt(b.slice(8), 16)
+
+  return popCount(highA ^ highB) + popCount(lowA ^ lowB)
+}
+
+/**
+ * Jaccard similarity of two normalized titles' word sets
+ */
+export function titleSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+
+  const tokensA = new Set(a.split(' ').filter(Boolean))
+  const tokensB = new Set(b.split(' ').filter(Boolean))
+  if (tokensA.size === 0 || tokensB.size === 0) return 0
+
+  let shared = 0
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++
+  })
+
+  return shared / (tokensA.size + tokensB.size - shared)
+}
+
+function seniorityOf(titleKey: string): string {
+  return titleKey
+    .split(' ')
+    .filter(token => SENIORITY_WORDS.has(token))
+    .sort()
+    .join(' ')
+}
+
+export function computeJobIdentity(job: JobIdentityInput): JobIdentity {
+  return {
+    companyKey: normalizeCompanyName(job.company),
+    titleKey: normalizeJobTitle(job.title),
+    locationKey: normalizeLocation(job.location),
+    fingerprint: computeFingerprint(job.description),
+  }
+}
+
+/**
+ * Whether two identities describe the same role at the same company
+ */
+export function isSameRole(a: JobIdentity, b: JobIdentity): boolean {
+  if (a.companyKey !== b.companyKey) return false
+  if (seniorityOf(a.titleKey) !== seniorityOf(b.titleKey)) return false
+
+  const descriptionsMatch = !!a.fingerprint && !!b.fingerprint &&
+    fingerprintDistance(a.fingerprint, b.fingerprint) <= FINGERPRINT_MATCH_DISTANCE
+
+  // The same title in two different cities is usually two separate openings,
+  // unless the postings are word-for-word the same
+  const locationsCompatible = !a.locationKey || !b.locationKey ||
+    a.locationKey === b.locationKey || a.locationKey === 'remote' || b.locationKey === 'remote'
+  if (!locationsCompatible && !descriptionsMatch) return false
+
+  const similarity = titleSimilarity(a.titleKey, b.titleKey)
+  if (similarity >= TITLE_MATCH_SIMILARITY) return true
+
+  return similarity >= TITLE_FUZZY_SIMILARITY && descriptionsMatch
+}
+
+/**
+ * Find the canonical job a posting belongs to, without creating one
+ */
+export async function findCanonicalJob(identity: JobIdentity) {
+  if (!identity.companyKey || !identity.titleKey) return null
+
+  const candidates = await prisma.canonicalJob.findMany({
+    where: { companyKey: identity.companyKey },
+    orderBy: { lastSeenAt: 'desc' },
+    take: MAX_CANDIDATES,
+  })
+
+  const matches = candidates.filter(candidate => isSameRole(identity, {
+    companyKey: candidate.companyKey,
+    titleKey: candidate.titleKey,
+    locationKey: candidate.locationKey || undefined,
+    fingerprint: candidate.fingerprint || undefined,
+  }))
+  if (matches.length === 0) return null
+
+  // Prefer the closest title when several roles at the company qualify
+  return matches.reduce((best, candidate) =>
+    titleSimilarity(identity.titleKey, candidate.titleKey) > titleSimilarity(identity.titleKey, best.titleKey)
+      ? candidate
+      : best
+  )
+}
+
+/**
+ * Link a posting to its canonical job, creating the canonical job the first
+ * time the role is seen. Pass linkVariant: false when no Job row is being
+ * created for it (e.g. a manually logged application).
+ */
+export async function resolveCanonicalJob(
+  job: JobIdentityInput,
+  options: { linkVariant?: boolean } = {}
+): Promise<CanonicalJobResolution> {
+  const linkVariant = options.linkVariant ?? true
+  const identity = computeJobIdentity(job)
+  const match = await findCanonicalJob(identity)
+
+  if (match) {
+    await prisma.canonicalJob.update({
+      where: { id: match.id },
+      data: {
+        lastSeenAt: new Date(),
+        ...(linkVariant && { sourceCount: { increment: 1 } }),
+        ...(!match.fingerprint && identity.fingerprint && { fingerprint: identity.fingerprint }),
+        ...(!match.locationKey && identity.locationKey && { locationKey: identity.locationKey }),
+      },
+    })
+    return { canonicalJobId: match.id, isNew: false }
+  }
+
+  const created = await prisma.canonicalJob.create({
+    data: {
+      companyKey: identity.companyKey,
+      titleKey: identity.titleKey,
+      locationKey: identity.locationKey,
+      company: job.company,
+      title: job.title,
+      location: job.location || null,
+      fingerprint: identity.fingerprint,
+      sourceCount: linkVariant ? 1 : 0,
+    },
+  })
+
+  return { canonicalJobId: created.id, isNew: true }
+}
+
+/**
+ * Canonical job ID for a stored Job, backfilling it for jobs saved before
+ * canonicalization existed
+ */
+export async function ensureCanonicalJobId(job: JobIdentityInput & {
+  id: string
+  canonicalJobId?: string | null
+}): Promise<string> {
+  if (job.canonicalJobId) return job.canonicalJobId
+
+  const { canonicalJobId } = await resolveCanonicalJob(job)
+  await prisma.job.update({
+    where: { id: job.id },
+    data: { canonicalJobId },
+  })
+
+  return canonicalJobId
+}
+
+/**
+ * The user's application to this role from any source, if they already have one.
+ * Also matches exact title + company for applications created before
+ * canonicalization existed, or when the role has no canonical job yet.
+ */
+export async function findExistingApplication(
+  userId: string,
+  job: { title: string; company: string },
+  canonicalJobId: string | null
+): Promise<Application | null> {
+  return prisma.application.findFirst({
+    where: {
+      userId,
+      OR: [
+        ...(canonicalJobId ? [{ canonicalJobId }] : []),
+        { jobTitle: job.title, company: job.company },
+      ],
+    },
+  })
+}
+
+/**
+ * Whether the user has already been shown or applied to any variant of this role.
+ * Applications made before canonical jobs existed have no canonical id, so
+ * they're still matched on their exact title and company.
+ */
+export async function isJobKnownToUser(
+  userId: string,
+  job: { title: string; company: string },
+  canonicalJobId: string | null
+): Promise<boolean> {
+  const [application, scan] = await Promise.all([
+    findExistingApplication(userId, job, canonicalJobId),
+    canonicalJobId
+      ? prisma.userJobScan.findFirst({
+          where: { userId, job: { canonicalJobId } },
+          select: { id: true },
+        })
+      : null,
+  ])
+
+  return !!application || !!scan
+}
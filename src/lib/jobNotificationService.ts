@@ -1,6 +1,14 @@
 import { PrismaClient } from '@prisma/client'
 import { analyzeJobMatch, generateCoverLetter } from './openai'
-import { createJobSearchService } from './jobAPIs'
+import { ensureCanonicalJobId, findExistingApplication } from './jobIdentity'
+import { pickSalaryFields } from './salary'
+import { answerScreeningQuestions, approveScreeningAnswers, COMMON_SCREENING_QUESTIONS } from './answerBank'
+import { ApplicationPreview, createApplicationPreview, parseApplicationPreview, resumeFileName } from './applicationPreview'
+import { getJobSourceInfo } from './jobSourceDetector'
+import { queueManager } from './queue/QueueManager'
+import { publishUserEvent } from './userEvents/createEventBus'
+import { dispatchNotification } from './notifications/dispatch'
+import { emitWebhookEvent } from './webhooks/deliveries'
 
 const prisma = new PrismaClient()
 
@@ -187,6 +195,16 @@ export class JobNotificationService {
         expiresAt,
       },
     })
+    await publishUserEvent(userId, 'notification.created', {
+      jobId: job.id,
+      title: job.title,
+      company: job.company,
+      matchScore: matchResult.matchScore,
+    })
+    await dispatchNotification(userId, 'match_found', {
+      job: { id: job.id, title: job.title, company: job.company, location: job.location || undefined },
+      matchScore: matchResult.matchScore,
+    }, { dedupeKey: `match:${job.id}` })
 
     // If user has approval enabled, also create an application review
     if (settings.requireApproval ?? true) {
@@ -211,7 +229,7 @@ export class JobNotificationService {
     })
 
     if (notification) {
-      await prisma.applicationReview.create({
+      const review = await prisma.applicationReview.create({
         data: {
           userId,
           jobId: job.id,
@@ -224,13 +242,33 @@ export class JobNotificationService {
           expiresAt: new Date(Date.now() + (settings.reviewTimeoutHours || 24) * 60 * 60 * 1000),
         },
       })
+      await publishUserEvent(userId, 'review.created', {
+        reviewId: review.id,
+        jobId: job.id,
+        title: job.title,
+        company: job.company,
+        matchScore: matchResult.matchScore,
+      })
+      await emitWebhookEvent(userId, 'review.created', { review })
+      await dispatchNotification(userId, 'review_pending', {
+        reviewId: review.id,
+        job: { id: job.id, title: job.title, company: job.company, location: job.location || undefined },
+        matchScore: matchResult.matchScore,
+        expiresAt: review.expiresAt.toISOString(),
+      }, { dedupeKey: `review_pending:${review.id}` })
     }
   }
 
   private async autoApplyToJob(userId: string, job: any, matchResult: JobMatchResult): Promise<void> {
     try {
+      const canonicalJobId = await ensureCanonicalJobId(job)
+      if (await findExistingApplication(userId, job, canonicalJobId)) {
+        console.log(`Skipping auto-apply to ${job.title} at ${job.company}: already applied via another source`)
+        return
+      }
+
       // Create application record
-      await prisma.application.create({
+      const application = await prisma.application.create({
         data: {
           userId,
           jobTitle: job.title,
@@ -239,15 +277,18 @@ export class JobNotificationService {
           jobUrl: job.url,
           location: job.location,
           salaryRange: job.salaryRange,
+          ...pickSalaryFields(job),
           employmentType: job.employmentType,
           status: 'APPLIED',
           coverLetter: matchResult.coverLetter,
           matchScore: matchResult.matchScore,
           source: job.source,
           sourceJobId: job.sourceJobId,
+          canonicalJobId,
           notes: `Auto-applied by AI (${Math.round(matchResult.matchScore * 100)}% match)`,
         },
       })
+      await emitWebhookEvent(userId, 'application.created', { application })
 
       // Mark job as applied
       await prisma.job.update({
@@ -269,6 +310,17 @@ export class JobNotificationService {
       })
 
       console.log(`Auto-applied to ${job.title} at ${job.company} (${Math.round(matchResult.matchScore * 100)}% match)`)
+      await publishUserEvent(userId, 'application.submitted', {
+        jobId: job.id,
+        applicationId: application.id,
+        title: job.title,
+        company: job.company,
+      })
+      await dispatchNotification(userId, 'auto_applied', {
+        applicationId: application.id,
+        job: { id: job.id, title: job.title, company: job.company, location: job.location || undefined },
+        matchScore: matchResult.matchScore,
+      }, { dedupeKey: `auto_applied:${application.id}` })
     } catch (error) {
       console.error('Error auto-applying to job:', error)
       throw error
@@ -321,15 +373,24 @@ export class JobNotificationService {
   }
 
   private async generateApplicationAnswers(job: any, profile: any): Promise<Record<string, any>> {
-    // Generate common application form answers based on job and profile
+    // Common screening questions, plus "years with X" for profile skills the posting mentions
+    const description = `${job.title} ${job.description || ''}`.toLowerCase()
+    const skillQuestions = (profile.skills || [])
+      .filter((s: any) => description.includes(String(s.name).toLowerCase()))
+      .slice(0, 3)
+      .map((s: any) => ({ question: `How many years of experience do you have with ${s.name}?` }))
+
+    const result = await answerScreeningQuestions(
+      profile.userId,
+      [...COMMON_SCREENING_QUESTIONS, ...skillQuestions],
+      { job, profile }
+    )
+
+    // AI drafts are approved in the bank together with the application review
     return {
-      yearsOfExperience: profile.yearsExperience || 0,
-      availability: 'Immediately',
-      salaryExpectation: profile.salaryMax || 'Negotiable',
-      coverLetter: 'Generated by AI assistant',
-      whyInterested: `I'm excited about the ${job.title} position at ${job.company} because it aligns perfectly with my career goals and experience.`,
-      relocate: profile.preferredLocations?.includes(job.location) ? 'Yes' : 'No',
-      authorized: 'Yes',
+      screeningAnswers: result.answers,
+      pendingAnswerIds: result.pending.map(answer => answer.bankEntryId).filter(Boolean),
+      unansweredQuestions: result.unanswered.map(question => question.question),
     }
   }
 
@@ -398,6 +459,19 @@ export class JobNotificationService {
       throw new Error('Review not found or already processed')
     }
 
+    // Approving the review approves the answer drafts queued with it
+    const answers = review.applicationAnswers ? JSON.parse(review.applicationAnswers) : {}
+    if (Array.isArray(answers.pendingAnswerIds)) {
+      await approveScreeningAnswers(userId, answers.pendingAnswerIds)
+    }
+
+    // Automatable jobs go to the submission queue first, so a full queue
+    // (QueueFullError) leaves the review pending for the user to retry
+    const queued = !!review.job.url && getJobSourceInfo(review.job.url).canAutomate
+    if (queued) {
+      await queueManager.enqueueApplicationSubmission({ userId, jobId: review.jobId, reviewId })
+    }
+
     // Update review status
     await prisma.applicationReview.update({
       where: { id: reviewId },
@@ -408,10 +482,101 @@ export class JobNotificationService {
       },
     })
 
-    // Submit the application
-    await this.submitApplication(userId, review)
+    // Jobs automation can't submit are recorded as applied on approval
+    if (!queued) {
+      await this.submitApplication(userId, review)
+    }
 
-    return review
+    return { ...review, queued }
+  }
+
+  /**
+   * Dry run of approveApplication, leaving the review, its answer drafts and
+   * the job untouched. Jobs automation can submit are run through the real
+   * form as a queued dry run; the preview arrives as an application.previewed
+   * event and from getApplicationPreview. For the rest, approving only
+   * records the application, so the preview lists what it would record.
+   */
+  async previewApplication(reviewId: string, userId: string): Promise<{ review: any; preview: ApplicationPreview | null; queued: boolean }> {
+    const review = await prisma.applicationReview.findFirst({
+      where: {
+        id: reviewId,
+        userId,
+        status: 'PENDING',
+      },
+      include: {
+        job: true,
+        notification: true,
+      },
+    })
+
+    if (!review) {
+      throw new Error('Review not found or already processed')
+    }
+
+    if (review.job.url && getJobSourceInfo(review.job.url).canAutomate) {
+      await queueManager.enqueueApplicationSubmission({ userId, jobId: review.jobId, reviewId, dryRun: true })
+      return { review, preview: null, queued: true }
+    }
+
+    const profile = await prisma.profile.findUnique({ where: { userId } })
+    const preview = createApplicationPreview(review.job.source || 'unknown', review.job.url || undefined)
+
+    const contactFields: [string, string | null | undefined][] = [
+      ['Full Name', profile?.fullName],
+      ['Email', profile?.email],
+      ['Phone', profile?.mobile],
+      ['LinkedIn Profile', profile?.linkedinUrl],
+    ]
+    for (const [label, value] of contactFields) {
+      if (value) preview.fields.push({ label, value })
+      else preview.missing.push(label)
+    }
+
+    const resumeUrl = review.customizedResume?.startsWith('http') ? review.customizedResume : profile?.resumeUrl
+    if (resumeUrl) {
+      preview.resume = { fileName: resumeFileName(resumeUrl), url: resumeUrl }
+    } else {
+      preview.missing.push('Resume')
+    }
+
+    preview.coverLetter = review.coverLetter
+
+    // Pending drafts are included: approving the review approves them too
+    const answers = review.applicationAnswers ? JSON.parse(review.applicationAnswers) : {}
+    preview.answers = (answers.screeningAnswers || []).map((entry: any) => ({
+      question: entry.question,
+      answer: entry.answer,
+      source: entry.source,
+    }))
+
+    return { review, preview, queued: false }
+  }
+
+  /**
+   * The latest queued dry run of a review's job, started at or after `since`.
+   * The preview is null while the run is still going.
+   */
+  async getApplicationPreview(reviewId: string, userId: string, since: Date) {
+    const review = await prisma.applicationReview.findFirst({
+      where: { id: reviewId, userId },
+      select: { jobId: true },
+    })
+
+    if (!review) {
+      throw new Error('Review not found')
+    }
+
+    const run = await prisma.automationRun.findFirst({
+      where: { userId, jobId: review.jobId, startedAt: { gte: since } },
+      orderBy: { startedAt: 'desc' },
+      select: { id: true, status: true, error: true, preview: true, startedAt: true, finishedAt: true },
+    })
+
+    if (!run) return null
+
+    const { preview, ...details } = run
+    return { run: details, preview: parseApplicationPreview(preview) }
   }
 
   async rejectApplication(reviewId: string, userId: string, userNotes?: string) {
@@ -429,25 +594,33 @@ export class JobNotificationService {
   }
 
   private async submitApplication(userId: string, review: any): Promise<void> {
-    // Create application record
-    await prisma.application.create({
-      data: {
-        userId,
-        jobTitle: review.job.title,
-        company: review.job.company,
-        jobDescription: review.job.description,
-        jobUrl: review.job.url,
-        location: review.job.location,
-        salaryRange: review.job.salaryRange,
-        employmentType: review.job.employmentType,
-        status: 'APPLIED',
-        coverLetter: review.coverLetter,
-        matchScore: review.matchScore,
-        source: review.job.source,
-        sourceJobId: review.job.sourceJobId,
-        notes: review.userNotes ? `User approved: ${review.userNotes}` : 'User approved application',
-      },
-    })
+    const canonicalJobId = await ensureCanonicalJobId(review.job)
+    const existingApplication = await findExistingApplication(userId, review.job, canonicalJobId)
+
+    // Create application record, unless this role was already applied to through another source
+    if (!existingApplication) {
+      const application = await prisma.application.create({
+        data: {
+          userId,
+          jobTitle: review.job.title,
+          company: review.job.company,
+          jobDescription: review.job.description,
+          jobUrl: review.job.url,
+          location: review.job.location,
+          salaryRange: review.job.salaryRange,
+          ...pickSalaryFields(review.job),
+          employmentType: review.job.employmentType,
+          status: 'APPLIED',
+          coverLetter: review.coverLetter,
+          matchScore: review.matchScore,
+          source: review.job.source,
+          sourceJobId: review.job.sourceJobId,
+          canonicalJobId,
+          notes: review.userNotes ? `User approved: ${review.userNotes}` : 'User approved application',
+        },
+      })
+      await emitWebhookEvent(userId, 'application.created', { application })
+    }
 
     // Mark job as applied
     await prisma.job.update({
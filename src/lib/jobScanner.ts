@@ -1,8 +1,22 @@
 import { PrismaClient } from '@prisma/client'
 import { analyzeJobMatch, generateCoverLetter } from './openai'
-import { createJobSearchService, JobSearchParams, NormalizedJob } from './jobAPIs'
+import { JobSearchParams, NormalizedJob } from './jobAPIs'
+import { getJobSourceRegistry, ProviderRunResult } from './jobSources'
 import { ResumeCustomizationService } from './resumeCustomizationService'
+import {
+  computeJobIdentity,
+  ensureCanonicalJobId,
+  findExistingApplication,
+  isJobKnownToUser,
+  isSameRole,
+  JobIdentity,
+  resolveCanonicalJob,
+} from './jobIdentity'
+import { pickSalaryFields, salaryMatchesRange, StructuredSalary, toAnnualSalary, toSalaryFields } from './salary'
 import { queueManager } from './queue/QueueManager' // New abstracted queue interface
+import { publishUserEvent } from './userEvents/createEventBus'
+import { dispatchNotification } from './notifications/dispatch'
+import { emitWebhookEvent } from './webhooks/deliveries'
 
 const prisma = new PrismaClient()
 
@@ -13,9 +27,11 @@ interface JobListing {
   url?: string
   location?: string
   salaryRange?: string
+  salary?: StructuredSalary
   employmentType?: 'FULL_TIME' | 'PART_TIME' | 'CONTRACT' | 'FREELANCE' | 'INTERNSHIP' | 'REMOTE'
   source: string
   sourceJobId?: string
+  provider?: string
   canAutoApply?: boolean
 }
 
@@ -52,6 +68,10 @@ export class JobScanner {
       }
 
       console.log('🏗️ STAGE 1: Fetching and filtering jobs (non-AI)')
+
+      // Pull every open posting from the companies on the user's watchlist first,
+      // so keyword search below skips anything the boards already provided
+      processed += await this.scanFollowedCompanies(userId, profile.autoApplySettings?.isEnabled || false)
       
       // STAGE 1: Synchronous non-AI filtering - get jobs immediately
       const jobListings = await this.fetchJobsFromSources(profile, profile.autoApplySettings || {})
@@ -60,11 +80,20 @@ export class JobScanner {
       
       // Process jobs with non-AI filtering only
       for (const job of jobListings) {
-        if (await this.shouldSkipJob(job, profile.autoApplySettings || {}, userId)) {
+        if (await this.shouldSkipJob(job, profile.autoApplySettings || {}, profile)) {
+          continue
+        }
+
+        // Link every source variant to one canonical role, but only surface
+        // the role once per user no matter how many boards it appears on
+        const { canonicalJobId } = await resolveCanonicalJob(job)
+        const savedJob = await this.saveJobListing(job, canonicalJobId)
+
+        if (await isJobKnownToUser(userId, job, canonicalJobId)) {
+          console.log(`🔗 Linked ${job.source} variant of ${job.title} at ${job.company} to a role the user already has`)
           continue
         }
 
-        const savedJob = await this.saveJobListing(job)
         processed++
 
         // Always create a scan record so jobs appear immediately in frontend
@@ -88,6 +117,30 @@ export class JobScanner {
     }
   }
 
+  private async scanFollowedCompanies(userId: string, queueAnalysis: boolean): Promise<number> {
+    try {
+      const { syncUserWatchlist } = await import('./companyWatchlist')
+      const watchlist = await syncUserWatchlist(userId)
+
+      if (watchlist.companies === 0) {
+        return 0
+      }
+
+      console.log(`🏢 Watchlist: ${watchlist.companies} companies, ${watchlist.linkedJobIds.length} new postings for user, ${watchlist.closedJobs} closed`)
+
+      if (queueAnalysis) {
+        for (const jobId of watchlist.linkedJobIds) {
+          await this.queueJobForAIAnalysis(jobId, userId)
+        }
+      }
+
+      return watchlist.linkedJobIds.length
+    } catch (error) {
+      console.error('Error scanning followed companies:', error)
+      return 0
+    }
+  }
+
   private async queueJobForAIAnalysis(jobId: string, userId: string): Promise<void> {
     try {
       // STAGE 2: Queue job for background AI analysis using abstracted interface
@@ -107,10 +160,15 @@ export class JobScanner {
       // Import preference resolver
       const { resolveJobPreferences } = await import('./preferenceResolver')
       
-      // Use job search service with automatic fallback
-      const jsearchApiKey = process.env.JSEARCH_API_KEY
-      console.log('JobScanner - API Key check:', jsearchApiKey ? `✓ Found (${jsearchApiKey.length} chars)` : '✗ Missing')
-      const jobAPI = createJobSearchService(jsearchApiKey)
+      // Fan out across every job source configured for this deployment
+      const registry = getJobSourceRegistry()
+      const activeProviders = registry.getActiveProviders()
+      console.log(`JobScanner - Active job sources: [${activeProviders.map(provider => provider.id).join(', ')}]`)
+
+      if (activeProviders.length === 0) {
+        console.log('JobScanner - No job sources configured, skipping automated search')
+        return allJobs
+      }
       
       // Use preference resolver instead of direct field access
       const preferences = await resolveJobPreferences(profile.userId)
@@ -164,9 +222,10 @@ export class JobScanner {
           }
 
           console.log(`JobScanner - Searching: "${jobTitle}" in "${formattedLocation || 'Any location'}"`)
-          const response = await jobAPI.searchJobs(searchParams)
-          const normalizedJobs = response.jobs.map(job => this.normalizeJobToListing(job))
+          const { jobs, results } = await registry.fanOut(searchParams)
+          const normalizedJobs = jobs.map(job => this.normalizeJobToListing(job))
           console.log(`JobScanner - Found ${normalizedJobs.length} jobs for "${jobTitle}"`)
+          this.logProviderResults(results)
           
           allJobs.push(...normalizedJobs)
 
@@ -179,7 +238,7 @@ export class JobScanner {
       }
     } catch (error) {
       console.error('Error fetching jobs from APIs:', error)
-      // The service already includes fallback, so if we get here it's a critical error
+      // Provider failures are isolated by the registry, so if we get here it's a critical error
       return []
     }
 
@@ -188,6 +247,16 @@ export class JobScanner {
     return deduplicatedJobs
   }
 
+  private logProviderResults(results: ProviderRunResult[]) {
+    for (const result of results) {
+      if (result.error) {
+        console.log(`  ${result.provider}: ✗ ${result.timedOut ? 'timed out' : 'failed'} after ${result.durationMs}ms - ${result.error}`)
+      } else {
+        console.log(`  ${result.provider}: ✓ ${result.jobCount} jobs in ${result.durationMs}ms`)
+      }
+    }
+  }
+
   private normalizeJobToListing(job: NormalizedJob): JobListing {
     return {
       title: job.title,
@@ -196,9 +265,11 @@ export class JobScanner {
       url: job.url,
       location: job.location,
       salaryRange: job.salaryRange,
+      salary: job.salary,
       employmentType: this.mapEmploymentType(job.employmentType),
       source: job.source,
       sourceJobId: job.sourceJobId,
+      provider: job.provider,
       canAutoApply: job.source === 'indeed',
     }
   }
@@ -247,54 +318,44 @@ export class JobScanner {
   }
 
   private deduplicateJobs(jobs: JobListing[]): JobListing[] {
-    const seen = new Map<string, JobListing>()
+    // The same role often comes back from several providers with slightly
+    // different titles and company names, so compare canonical identities
+    const kept: { job: JobListing; identity: JobIdentity }[] = []
     
     jobs.forEach(job => {
-      const key = `${job.company.toLowerCase()}-${job.title.toLowerCase()}`
-      const existingJob = seen.get(key)
+      const identity = computeJobIdentity(job)
+      const existing = kept.find(entry => isSameRole(entry.identity, identity))
       
-      if (!existingJob) {
-        seen.set(key, job)
+      if (!existing) {
+        kept.push({ job, identity })
       } else {
         // Keep the job with more complete information
-        if (job.description && job.description.length > (existingJob.description?.length || 0)) {
-          seen.set(key, job)
+        if (job.description && job.description.length > (existing.job.description?.length || 0)) {
+          existing.job = job
+          existing.identity = identity
         }
       }
     })
     
-    return Array.from(seen.values())
+    return kept.map(entry => entry.job)
   }
 
-  private async shouldSkipJob(job: JobListing, settings: any, userId: string): Promise<boolean> {
-    const existingJob = await prisma.job.findFirst({
-      where: {
-        OR: [
-          { sourceJobId: job.sourceJobId },
-          {
-            AND: [
-              { title: job.title },
-              { company: job.company },
-            ],
-          },
-        ],
-      },
-    })
-
-    if (existingJob) {
-      return true
-    }
-
-    const existingApplication = await prisma.application.findFirst({
-      where: {
-        userId,
-        company: job.company,
-        jobTitle: job.title,
-      },
-    })
+  private async shouldSkipJob(
+    job: JobListing,
+    settings: any,
+    profile: { salaryMin?: number | null; salaryMax?: number | null }
+  ): Promise<boolean> {
+    // Cross-source duplicates are handled by canonical job resolution in the
+    // scan loop; here only the exact same posting is skipped
+    if (job.sourceJobId) {
+      const existingJob = await prisma.job.findFirst({
+        where: { sourceJobId: job.sourceJobId },
+        select: { id: true },
+      })
 
-    if (existingApplication) {
-      return true
+      if (existingJob) {
+        return true
+      }
     }
 
     const excludedCompanies = JSON.parse(settings.excludedCompanies || '[]') as string[]
@@ -312,14 +373,21 @@ export class JobScanner {
       return true
     }
 
-    if (settings.requireSalaryRange && !job.salaryRange) {
+    if (settings.requireSalaryRange && !job.salary && !job.salaryRange) {
+      return true
+    }
+
+    // Compare yearly base-currency pay, so a $20/hr contract and a $200k role
+    // are judged on the same scale. Unknown or unconvertible pay is never skipped.
+    const annualSalary = job.salary && toAnnualSalary(job.salary)
+    if (annualSalary && salaryMatchesRange(annualSalary, { min: profile.salaryMin, max: profile.salaryMax }) === false) {
       return true
     }
 
     return false
   }
 
-  private async saveJobListing(job: JobListing) {
+  private async saveJobListing(job: JobListing, canonicalJobId: string) {
     return await prisma.job.create({
       data: {
         title: job.title,
@@ -328,9 +396,12 @@ export class JobScanner {
         url: job.url,
         location: job.location,
         salaryRange: job.salaryRange,
+        ...toSalaryFields(job.salary),
         employmentType: job.employmentType,
         source: job.source,
         sourceJobId: job.sourceJobId,
+        provider: job.provider,
+        canonicalJobId,
         isProcessed: false,
         appliedTo: false,
       },
@@ -440,6 +511,16 @@ export class JobScanner {
       })
 
       console.log(`Created notification for ${job.title} at ${job.company} (Match: ${Math.round(matchScore * 100)}%) - requires approval`)
+      await publishUserEvent(profile.userId, 'notification.created', {
+        jobId: job.id,
+        title: job.title,
+        company: job.company,
+        matchScore,
+      })
+      await dispatchNotification(profile.userId, 'match_found', {
+        job: { id: job.id, title: job.title, company: job.company, location: job.location || undefined },
+        matchScore,
+      }, { dedupeKey: `match:${job.id}` })
     } catch (error) {
       console.error('Error creating job notification:', error)
       throw error
@@ -454,43 +535,25 @@ export class JobScanner {
       // Only attempt real automation for supported platforms
       if (sourceInfo.source === 'GREENHOUSE' || sourceInfo.source === 'LEVER') {
         try {
-          // Attempt real automation for Greenhouse/Lever
-          const automationResult = await this.attemptRealAutomation(job, profile, coverLetter, sourceInfo)
-          
-          if (automationResult.success) {
-            // Real automation succeeded
-            await this.createApplicationRecord(job, profile, {
-              status: 'APPLIED',
-              notes: `Auto-applied via ${sourceInfo.displayName} application form`,
-              source: `automated_${sourceInfo.source.toLowerCase()}`,
-              matchScore,
-              coverLetter,
-              appliedTo: true
-            })
-            console.log(`✅ Successfully auto-applied to ${job.title} at ${job.company} via ${sourceInfo.displayName}`)
-          } else {
-            // Automation failed - requires manual
-            await this.createApplicationRecord(job, profile, {
-              status: 'REVIEWING',
-              notes: `Auto-apply to ${sourceInfo.displayName} failed - manual application required. ${automationResult.error || ''}`,
-              source: `manual_${sourceInfo.source.toLowerCase()}`,
-              matchScore,
-              coverLetter,
-              appliedTo: false
-            })
-            console.log(`⚠️ Auto-apply failed for ${job.title} at ${job.company} - requires manual application`)
-          }
+          // The queue worker submits it through the browser pool and records the outcome
+          await queueManager.enqueueApplicationSubmission({
+            userId: profile.userId,
+            jobId: job.id,
+            matchScore,
+            coverLetter
+          })
+          console.log(`📨 Queued auto-apply to ${job.title} at ${job.company} via ${sourceInfo.displayName}`)
         } catch (error) {
-          // Automation error - requires manual
+          // Submission backlog full or queue unavailable - requires manual
           await this.createApplicationRecord(job, profile, {
             status: 'REVIEWING',
-            notes: `Auto-apply to ${sourceInfo.displayName} encountered error - manual application required`,
+            notes: `Auto-apply to ${sourceInfo.displayName} could not be queued - manual application required`,
             source: `manual_${sourceInfo.source.toLowerCase()}`,
             matchScore,
             coverLetter,
             appliedTo: false
           })
-          console.log(`❌ Auto-apply error for ${job.title} at ${job.company} - requires manual application`)
+          console.log(`❌ Auto-apply queue error for ${job.title} at ${job.company} - requires manual application`)
         }
       } else {
         // No automation available - create manual application record
@@ -522,7 +585,14 @@ export class JobScanner {
     coverLetter: string,
     appliedTo: boolean
   }) {
-    await prisma.application.create({
+    const canonicalJobId = await ensureCanonicalJobId(job)
+    const existingApplication = await findExistingApplication(profile.userId, job, canonicalJobId)
+    if (existingApplication) {
+      console.log(`⏭️ Already applied to ${job.title} at ${job.company} via another source, skipping`)
+      return
+    }
+
+    const application = await prisma.application.create({
       data: {
         userId: profile.userId,
         jobTitle: job.title,
@@ -531,15 +601,18 @@ export class JobScanner {
         jobUrl: job.url,
         location: job.location,
         salaryRange: job.salaryRange,
+        ...pickSalaryFields(job),
         employmentType: job.employmentType,
         status: options.status,
         coverLetter: options.coverLetter,
         matchScore: options.matchScore,
         source: options.source,
         sourceJobId: job.sourceJobId,
+        canonicalJobId,
         notes: options.notes,
       },
     })
+    await emitWebhookEvent(profile.userId, 'application.created', { application })
 
     await prisma.job.update({
       where: { id: job.id },
@@ -547,64 +620,6 @@ export class JobScanner {
     })
   }
 
-  private async attemptRealAutomation(job: any, profile: any, coverLetter: string, sourceInfo: any) {
-    try {
-      console.log(`Attempting real automation for ${job.title} at ${job.company} via ${sourceInfo.displayName}`)
-      
-      // Create form data for automation API
-      const formData = new FormData()
-      formData.append('firstName', profile.fullName?.split(' ')[0] || '')
-      formData.append('lastName', profile.fullName?.split(' ').slice(1).join(' ') || '')
-      formData.append('email', profile.email || '')
-      formData.append('phone', profile.mobile || '')
-      formData.append('jobUrl', job.url || '')
-      formData.append('jobTitle', job.title)
-      formData.append('company', job.company)
-      formData.append('platform', sourceInfo.source)
-      formData.append('coverLetter', coverLetter || '')
-      
-      // Add resume file if available
-      if (profile.resumeUrl) {
-        // Create a blob from the resume URL for upload
-        const resumeResponse = await fetch(profile.resumeUrl)
-        if (resumeResponse.ok) {
-          const resumeBlob = await resumeResponse.blob()
-          formData.append('resume', resumeBlob, 'resume.pdf')
-        }
-      }
-      
-      // Call the real automation API
-      const response = await fetch('/api/auto-apply', {
-        method: 'POST',
-        body: formData
-      })
-      
-      const result = await response.json()
-      
-      if (response.ok && result.success) {
-        console.log(`✅ Real automation succeeded: ${result.message}`)
-        return {
-          success: true,
-          platform: sourceInfo.source,
-          method: 'automated',
-          details: result.details || result.message
-        }
-      } else {
-        console.log(`❌ Real automation failed: ${result.error}`)
-        return {
-          success: false,
-          error: result.error || 'Automation API returned failure'
-        }
-      }
-    } catch (error) {
-      console.log(`❌ Real automation error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown automation error'
-      }
-    }
-  }
-
   async getJobQueueStatus(userId: string) {
     const pendingJobs = await prisma.jobQueue.count({
       where: {
@@ -629,18 +644,6 @@ export class JobScanner {
 
     return { pendingJobs, processingJobs, failedJobs }
   }
-
-  async scheduleJobScan(userId: string) {
-    await prisma.jobQueue.create({
-      data: {
-        type: 'user_job_scan',
-        payload: JSON.stringify({ scanId: `scan_${Date.now()}` }),
-        userId,
-        status: 'PENDING',
-        priority: 1,
-      },
-    })
-  }
 }
 
 export const jobScanner = JobScanner.getInstance()
\ No newline at end of file
@@ -3,7 +3,7 @@
  * Categorizes job URLs into specific platforms for targeted automation
  */
 
-export type JobSource = 'INDEED' | 'LINKEDIN' | 'GREENHOUSE' | 'LEVER' | 'OTHER'
+export type JobSource = 'INDEED' | 'LINKEDIN' | 'GREENHOUSE' | 'LEVER' | 'WORKDAY' | 'OTHER'
 
 export interface JobSourceInfo {
   source: JobSource
@@ -45,6 +45,11 @@ export function detectJobSource(url: string): JobSource {
     return 'LEVER'
   }
   
+  // Workday detection (tenant.wd5.myworkdayjobs.com, wd5.myworkdaysite.com/recruiting/tenant)
+  if (normalizedUrl.match(/myworkdayjobs\.com|myworkdaysite\.com/)) {
+    return 'WORKDAY'
+  }
+  
   // Everything else
   return 'OTHER'
 }
@@ -108,6 +113,19 @@ export function getJobSourceInfo(url: string): JobSourceInfo {
         }
       }
       
+    case 'WORKDAY':
+      return {
+        source: 'WORKDAY',
+        canAutomate: true,
+        automationType: 'puppeteer',
+        displayName: 'Workday',
+        icon: '🏛️',
+        badge: {
+          color: 'bg-amber-50 text-amber-700 border-amber-200',
+          text: 'Auto Apply Available'
+        }
+      }
+      
     case 'OTHER':
     default:
       return {
@@ -153,4 +171,66 @@ export function supportsOnSiteForm(url: string): boolean {
 export function supportsDirectAutomation(url: string): boolean {
   const source = detectJobSource(url)
   return source === 'INDEED'
-}
\ No newline at end of file
+}
+
+/**
+ * Extracts the company board slug from a Greenhouse or Lever URL
+ * (e.g. https://boards.greenhouse.io/airbnb/jobs/123 -> greenhouse/airbnb)
+ */
+export function extractJobBoard(url: string): { platform: 'greenhouse' | 'lever'; boardSlug: string } | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url.includes('://') ? url : `https://${url}`)
+  } catch {
+    return null
+  }
+
+  const source = detectJobSource(parsed.toString())
+  const [firstSegment] = parsed.pathname.split('/').filter(Boolean)
+
+  if (source === 'GREENHOUSE') {
+    const embeddedSlug = parsed.searchParams.get('for')
+    const boardSlug = embeddedSlug || (firstSegment !== 'embed' ? firstSegment : undefined)
+    return boardSlug ? { platform: 'greenhouse', boardSlug: boardSlug.toLowerCase() } : null
+  }
+
+  if (source === 'LEVER') {
+    return firstSegment ? { platform: 'lever', boardSlug: firstSegment.toLowerCase() } : null
+  }
+
+  return null
+}
+
+/**
+ * Extracts the Workday tenant from a job URL. Candidate accounts are per tenant,
+ * so this is the key credentials are stored under.
+ * (e.g. https://acme.wd5.myworkdayjobs.com/en-US/External/job/... -> acme)
+ */
+export function extractWorkdayTenant(url: string): { tenant: string; host: string; site?: string } | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url.includes('://') ? url : `https://${url}`)
+  } catch {
+    return null
+  }
+
+  const host = parsed.hostname.toLowerCase()
+  const segments = parsed.pathname.split('/').filter(Boolean)
+  // Optional locale prefix, e.g. /en-US/External/job/...
+  const pathSegments = /^[a-z]{2}-[a-z]{2}$/i.test(segments[0] || '') ? segments.slice(1) : segments
+
+  if (host.endsWith('.myworkdayjobs.com')) {
+    const tenant = host.split('.')[0]
+    return tenant ? { tenant, host, site: pathSegments[0] } : null
+  }
+
+  if (host.endsWith('myworkdaysite.com')) {
+    const recruitingIndex = pathSegments.indexOf('recruiting')
+    const tenant = recruitingIndex >= 0 ? pathSegments[recruitingIndex + 1] : undefined
+    return tenant
+      ? { tenant: tenant.toLowerCase(), host, site: pathSegments[recruitingIndex + 2] }
+      : null
+  }
+
+  return null
+}
@@ -0,0 +1,31 @@
+/**
+ * Job Sources Module Main Export
+ *
+ * Pluggable job-source providers (JSearch, Greenhouse, Lever, Ashby, RSS/Atom feeds)
+ * behind a single registry that fans searches out in parallel.
+ */
+
+export type {
+  JobProviderId,
+  JobSourceProvider,
+  ProviderRunResult,
+  FanOutResult,
+  FanOutOptions,
+} from './types'
+export { JOB_PROVIDER_IDS } from './types'
+
+export {
+  JobSourceRegistry,
+  createJobSource,
+  createJobSourceRegistry,
+  getEnabledProviderIds,
+  getJobSourceRegistry,
+} from './registry'
+
+export { JobSearchService, createJobSearchService } from './searchService'
+
+export { JSearchProvider } from './providers/jsearch'
+export { GreenhouseProvider } from './providers/greenhouse'
+export { LeverProvider } from './providers/lever'
+export { AshbyProvider } from './providers/ashby'
+export { FeedProvider, parseFeed } from './providers/feed'
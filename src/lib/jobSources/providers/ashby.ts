@@ -0,0 +1,68 @@
+import { JobSearchParams, NormalizedJob } from '../../jobAPIs'
+import { getJobSourceInfo } from '../../jobSourceDetector'
+import { JobSourceProvider } from '../types'
+import { fetchBoards, fetchJson, matchesSearchParams, parseListEnv } from '../utils'
+
+const ASHBY_API_URL = 'https://api.ashbyhq.com/posting-api/job-board'
+
+interface AshbyJob {
+  id: string
+  title: string
+  location?: string
+  employmentType?: string
+  isRemote?: boolean
+  isListed?: boolean
+  descriptionPlain?: string
+  publishedAt?: string
+  jobUrl: string
+  applyUrl?: string
+}
+
+/**
+ * Ashby public job posting API - pulls every listed posting for configured job boards
+ * (ASHBY_BOARDS=linear,ramp)
+ */
+export class AshbyProvider implements JobSourceProvider {
+  readonly id = 'ashby' as const
+  readonly displayName = 'Ashby'
+  readonly timeoutMs = 15000
+
+  constructor(private boards: string[] = parseListEnv(process.env.ASHBY_BOARDS)) {}
+
+  isConfigured(): boolean {
+    return this.boards.length > 0
+  }
+
+  async searchJobs(params: JobSearchParams, signal: AbortSignal): Promise<NormalizedJob[]> {
+    const jobs = await fetchBoards(this.displayName, this.boards, board => this.fetchBoard(board, signal))
+
+    return jobs.filter(job => matchesSearchParams(job, params))
+  }
+
+  async fetchBoard(board: string, signal: AbortSignal): Promise<NormalizedJob[]> {
+    const response = await fetchJson(`${ASHBY_API_URL}/${encodeURIComponent(board)}`, signal)
+    const jobs: AshbyJob[] = response.jobs || []
+
+    return jobs
+      .filter(job => job.isListed !== false)
+      .map(job => this.normalizeJob(job, board))
+  }
+
+  private normalizeJob(job: AshbyJob, board: string): NormalizedJob {
+    return {
+      sourceJobId: `ashby_${board}_${job.id}`,
+      source: 'ashby',
+      originalSource: 'ashby',
+      sourceInfo: getJobSourceInfo(job.applyUrl || job.jobUrl),
+      title: job.title,
+      company: board,
+      description: job.descriptionPlain || '',
+      url: job.applyUrl || job.jobUrl,
+      location: job.location,
+      employmentType: job.employmentType,
+      isRemote: job.isRemote ?? /remote/i.test(job.location || ''),
+      postedAt: job.publishedAt ? new Date(job.publishedAt) : undefined,
+      requirements: [],
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { JobSearchParams, NormalizedJob } from '../../jobAPIs'
+import { getJobSourceInfo } from '../../jobSourceDetector'
+import { JobSourceProvider } from '../types'
+import { decodeHtmlEntities, fetchBoards, fetchText, matchesSearchParams, parseListEnv, stripHtml } from '../utils'
+
+export interface FeedConfig {
+  url: string
+  /**
+   * Fixed company for single-employer feeds; otherwise parsed from "Company: Title" item titles
+   */
+  company?: string
+}
+
+interface FeedItem {
+  id: string
+  title: string
+  link: string
+  description: string
+  publishedAt?: Date
+}
+
+/**
+ * Parse JOB_FEED_URLS entries, either "url" or "Company Name|url"
+ */
+export function parseFeedConfig(value: string | undefined): FeedConfig[] {
+  return parseListEnv(value).map(entry => {
+    const [company, url] = entry.includes('|') ? entry.split('|', 2) : [undefined, entry]
+    return { url: url.trim(), company: company?.trim() || undefined }
+  })
+}
+
+function readTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'))
+  if (!match) return undefined
+
+  return match[1].replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1').trim()
+}
+
+function readAtomLink(entry: string): string | undefined {
+  const alternate = entry.match(/<link[^>]*rel=["']alternate["'][^>]*>/i) || entry.match(/<link[^>]*>/i)
+  return alternate?.[0].match(/href=["']([^"']+)["']/i)?.[1]
+}
+
+/**
+ * Minimal RSS 2.0 / Atom parser - job feeds only need title, link, body and date
+ */
+export function parseFeed(xml: string): FeedItem[] {
+  const isAtom = /<feed[\s>]/i.test(xml)
+  const blocks = xml.match(isAtom ? /<entry[\s>][\s\S]*?<\/entry>/gi : /<item[\s>][\s\S]*?<\/item>/gi) || []
+
+  return blocks.map(block => {
+    const link = isAtom ? readAtomLink(block) : readTag(block, 'link')
+    const date = isAtom
+      ? readTag(block, 'published') || readTag(block, 'updated')
+      : readTag(block, 'pubDate') || readTag(block, 'dc:date')
+    const body = isAtom
+      ? readTag(block, 'content') || readTag(block, 'summary')
+      : readTag(block, 'content:encoded') || readTag(block, 'description')
+
+    return {
+      id: readTag(block, isAtom ? 'id' : 'guid') || link || '',
+      title: decodeHtmlEntities(readTag(block, 'title') || ''),
+      link: decodeHtmlEntities(link || ''),
+      description: body ? stripHtml(body) : '',
+      publishedAt: date && !isNaN(Date.parse(date)) ? new Date(date) : undefined,
+    }
+  }).filter(item => item.title && item.link)
+}
+
+/**
+ * RSS/Atom job feeds (JOB_FEED_URLS=Acme|https://acme.com/jobs.rss,https://remote-board.example/feed)
+ */
+export class FeedProvider implements JobSourceProvider {
+  readonly id = 'feed' as const
+  readonly displayName = 'RSS/Atom feeds'
+  readonly timeoutMs = 15000
+
+  constructor(private feeds: FeedConfig[] = parseFeedConfig(process.env.JOB_FEED_URLS)) {}
+
+  isConfigured(): boolean {
+    return this.feeds.length > 0
+  }
+
+  async searchJobs(params: JobSearchParams, signal: AbortSignal): Promise<NormalizedJob[]> {
+    const jobs = await fetchBoards(this.displayName, this.feeds, feed => this.fetchFeed(feed, signal), feed => feed.url)
+
+    return jobs.filter(job => matchesSearchParams(job, params))
+  }
+
+  async fetchFeed(feed: FeedConfig, signal: AbortSignal): Promise<NormalizedJob[]> {
+    const xml = await fetchText(feed.url, signal)
+
+    return parseFeed(xml).map(item => this.normalizeItem(item, feed))
+  }
+
+  private normalizeItem(item: FeedItem, feed: FeedConfig): NormalizedJob {
+    let company = feed.company
+    let title = item.title
+
+    if (!company) {
+      const separator = item.title.indexOf(':')
+      if (separator > 0) {
+        company = item.title.slice(0, separator).trim()
+        title = item.title.slice(separator + 1).trim()
+      }
+    }
+
+    return {
+      sourceJobId: `feed_${item.id}`,
+      source: getJobSourceInfo(item.link).source.toLowerCase(),
+      originalSource: 'feed',
+      sourceInfo: getJobSourceInfo(item.link),
+      title,
+      company: company || new URL(feed.url).hostname,
+      description: item.description,
+      url: item.link,
+      isRemote: /remote/i.test(title),
+      postedAt: item.publishedAt,
+      requirements: [],
+    }
+  }
+}
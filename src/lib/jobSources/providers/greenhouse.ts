@@ -0,0 +1,67 @@
+import { JobSearchParams, NormalizedJob } from '../../jobAPIs'
+import { getJobSourceInfo } from '../../jobSourceDetector'
+import { JobSourceProvider } from '../types'
+import { fetchBoards, fetchJson, matchesSearchParams, parseListEnv, stripHtml } from '../utils'
+
+const GREENHOUSE_API_URL = 'https://boards-api.greenhouse.io/v1/boards'
+
+interface GreenhouseJob {
+  id: number
+  title: string
+  absolute_url: string
+  company_name?: string
+  updated_at?: string
+  first_published?: string
+  content?: string
+  location?: { name?: string }
+  departments?: { name: string }[]
+  metadata?: { name: string; value: any }[] | null
+}
+
+/**
+ * Greenhouse public job board API - pulls every open posting for configured board slugs
+ * (GREENHOUSE_BOARDS=airbnb,stripe)
+ */
+export class GreenhouseProvider implements JobSourceProvider {
+  readonly id = 'greenhouse' as const
+  readonly displayName = 'Greenhouse'
+  readonly timeoutMs = 15000
+
+  constructor(private boards: string[] = parseListEnv(process.env.GREENHOUSE_BOARDS)) {}
+
+  isConfigured(): boolean {
+    return this.boards.length > 0
+  }
+
+  async searchJobs(params: JobSearchParams, signal: AbortSignal): Promise<NormalizedJob[]> {
+    const jobs = await fetchBoards(this.displayName, this.boards, board => this.fetchBoard(board, signal))
+
+    return jobs.filter(job => matchesSearchParams(job, params))
+  }
+
+  async fetchBoard(board: string, signal: AbortSignal): Promise<NormalizedJob[]> {
+    const response = await fetchJson(`${GREENHOUSE_API_URL}/${encodeURIComponent(board)}/jobs?content=true`, signal)
+    const jobs: GreenhouseJob[] = response.jobs || []
+
+    return jobs.map(job => this.normalizeJob(job, board))
+  }
+
+  private normalizeJob(job: GreenhouseJob, board: string): NormalizedJob {
+    const location = job.location?.name || undefined
+
+    return {
+      sourceJobId: `greenhouse_${board}_${job.id}`,
+      source: 'greenhouse',
+      originalSource: 'greenhouse',
+      sourceInfo: getJobSourceInfo(job.absolute_url),
+      title: job.title,
+      company: job.company_name || board,
+      description: job.content ? stripHtml(job.content) : '',
+      url: job.absolute_url,
+      location,
+      isRemote: /remote/i.test(location || ''),
+      postedAt: job.first_published || job.updated_at ? new Date((job.first_published || job.updated_at)!) : undefined,
+      requirements: [],
+    }
+  }
+}
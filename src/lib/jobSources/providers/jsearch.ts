@@ -0,0 +1,37 @@
+import { JSearchAPI, JobSearchParams, NormalizedJob } from '../../jobAPIs'
+import { JobSourceProvider } from '../types'
+
+/**
+ * JSearch (RapidAPI) aggregator - keyword search across LinkedIn, Indeed and others
+ */
+export class JSearchProvider implements JobSourceProvider {
+  readonly id = 'jsearch' as const
+  readonly displayName = 'JSearch'
+  readonly timeoutMs = 30000
+  private api: JSearchAPI | null
+
+  constructor(apiKey = process.env.JSEARCH_API_KEY) {
+    this.api = apiKey ? new JSearchAPI(apiKey) : null
+  }
+
+  isConfigured(): boolean {
+    return this.api !== null
+  }
+
+  async searchJobs(params: JobSearchParams): Promise<NormalizedJob[]> {
+    if (!this.api) {
+      throw new Error('JSEARCH_API_KEY is not configured')
+    }
+
+    const response = await this.api.searchJobs(params)
+    return response.jobs
+  }
+
+  async getJobDetails(jobId: string): Promise<NormalizedJob | null> {
+    if (!this.api) {
+      return null
+    }
+
+    return this.api.getJobDetails(jobId)
+  }
+}
@@ -0,0 +1,76 @@
+import { JobSearchParams, NormalizedJob } from '../../jobAPIs'
+import { getJobSourceInfo } from '../../jobSourceDetector'
+import { JobSourceProvider } from '../types'
+import { fetchBoards, fetchJson, matchesSearchParams, parseListEnv } from '../utils'
+
+const LEVER_API_URL = 'https://api.lever.co/v0/postings'
+
+interface LeverPosting {
+  id: string
+  text: string
+  hostedUrl: string
+  applyUrl?: string
+  createdAt?: number
+  descriptionPlain?: string
+  additionalPlain?: string
+  workplaceType?: string
+  categories?: {
+    location?: string
+    commitment?: string
+    team?: string
+  }
+  lists?: { text: string; content: string }[]
+}
+
+/**
+ * Lever public postings API - pulls every open posting for configured company slugs
+ * (LEVER_COMPANIES=netflix,figma)
+ */
+export class LeverProvider implements JobSourceProvider {
+  readonly id = 'lever' as const
+  readonly displayName = 'Lever'
+  readonly timeoutMs = 15000
+
+  constructor(private companies: string[] = parseListEnv(process.env.LEVER_COMPANIES)) {}
+
+  isConfigured(): boolean {
+    return this.companies.length > 0
+  }
+
+  async searchJobs(params: JobSearchParams, signal: AbortSignal): Promise<NormalizedJob[]> {
+    const jobs = await fetchBoards(this.displayName, this.companies, company => this.fetchBoard(company, signal))
+
+    return jobs.filter(job => matchesSearchParams(job, params))
+  }
+
+  async fetchBoard(company: string, signal: AbortSignal): Promise<NormalizedJob[]> {
+    const postings: LeverPosting[] = await fetchJson(`${LEVER_API_URL}/${encodeURIComponent(company)}?mode=json`, signal)
+
+    return postings.map(posting => this.normalizePosting(posting, company))
+  }
+
+  private normalizePosting(posting: LeverPosting, company: string): NormalizedJob {
+    const location = posting.categories?.location
+    const description = [
+      posting.descriptionPlain,
+      ...(posting.lists || []).map(list => list.text),
+      posting.additionalPlain,
+    ].filter(Boolean).join('\n\n')
+
+    return {
+      sourceJobId: `lever_${company}_${posting.id}`,
+      source: 'lever',
+      originalSource: 'lever',
+      sourceInfo: getJobSourceInfo(posting.hostedUrl),
+      title: posting.text,
+      company,
+      description,
+      url: posting.hostedUrl,
+      location,
+      employmentType: posting.categories?.commitment,
+      isRemote: posting.workplaceType === 'remote' || /remote/i.test(location || ''),
+      postedAt: posting.createdAt ? new Date(posting.createdAt) : undefined,
+      requirements: [],
+    }
+  }
+}
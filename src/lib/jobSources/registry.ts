@@ -0,0 +1,178 @@
+/**
+ * Job Source Provider Registry
+ *
+ * Holds the providers enabled for this deployment and fans searches out to all
+ * of them in parallel. Each provider runs with its own timeout and failures are
+ * isolated: one source being down or over quota never empties the result set.
+ */
+
+import type { JobSearchParams, NormalizedJob } from '../jobAPIs'
+import { withStructuredSalary } from '../salary'
+import { AshbyProvider } from './providers/ashby'
+import { FeedProvider } from './providers/feed'
+import { GreenhouseProvider } from './providers/greenhouse'
+import { JSearchProvider } from './providers/jsearch'
+import { LeverProvider } from './providers/lever'
+import {
+  FanOutOptions,
+  FanOutResult,
+  JOB_PROVIDER_IDS,
+  JobProviderId,
+  JobSourceProvider,
+  ProviderRunResult,
+} from './types'
+import { parseListEnv } from './utils'
+
+const DEFAULT_PROVIDER_TIMEOUT_MS = 20000
+
+class ProviderTimeoutError extends Error {
+  constructor(provider: JobProviderId, timeoutMs: number) {
+    super(`${provider} timed out after ${timeoutMs}ms`)
+    this.name = 'ProviderTimeoutError'
+  }
+}
+
+export class JobSourceRegistry {
+  private providers = new Map<JobProviderId, JobSourceProvider>()
+
+  constructor(private defaultTimeoutMs = DEFAULT_PROVIDER_TIMEOUT_MS) {}
+
+  register(provider: JobSourceProvider): void {
+    this.providers.set(provider.id, provider)
+  }
+
+  get(id: JobProviderId): JobSourceProvider | undefined {
+    return this.providers.get(id)
+  }
+
+  list(): JobSourceProvider[] {
+    return Array.from(this.providers.values())
+  }
+
+  /**
+   * Registered providers that have the configuration they need to run
+   */
+  getActiveProviders(ids?: JobProviderId[]): JobSourceProvider[] {
+    return this.list().filter(provider =>
+      provider.isConfigured() && (!ids || ids.includes(provider.id))
+    )
+  }
+
+  /**
+   * Search every active provider in parallel. Jobs are tagged with the provider
+   * that produced them, and salaries missing from a provider's API are parsed
+   * out of the description; per-provider outcomes are returned alongside.
+   */
+  async fanOut(params: JobSearchParams, options: FanOutOptions = {}): Promise<FanOutResult> {
+    const providers = this.getActiveProviders(options.providers)
+
+    const runs = await Promise.all(
+      providers.map(provider => this.runProvider(provider, params, options.timeoutMs))
+    )
+
+    return {
+      jobs: runs.flatMap(run => run.jobs),
+      results: runs.map(run => run.result),
+    }
+  }
+
+  private async runProvider(
+    provider: JobSourceProvider,
+    params: JobSearchParams,
+    timeoutOverride?: number
+  ): Promise<{ jobs: NormalizedJob[]; result: ProviderRunResult }> {
+    const timeoutMs = timeoutOverride || provider.timeoutMs || this.defaultTimeoutMs
+    const controller = new AbortController()
+    const startTime = Date.now()
+    let timeoutId: NodeJS.Timeout | undefined
+
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        controller.abort()
+        reject(new ProviderTimeoutError(provider.id, timeoutMs))
+      }, timeoutMs)
+    })
+
+    try {
+      const jobs = await Promise.race([provider.searchJobs(params, controller.signal), timeout])
+      const attributedJobs = jobs.map(job => withStructuredSalary({ ...job, provider: provider.id }))
+
+      return {
+        jobs: attributedJobs,
+        result: { provider: provider.id, jobCount: attributedJobs.length, durationMs: Date.now() - startTime },
+      }
+    } catch (error) {
+      console.warn(`Job source ${provider.id} failed:`, error instanceof Error ? error.message : error)
+
+      return {
+        jobs: [],
+        result: {
+          provider: provider.id,
+          jobCount: 0,
+          durationMs: Date.now() - startTime,
+          error: error instanceof Error ? error.message : 'Unknown provider error',
+          timedOut: error instanceof ProviderTimeoutError,
+        },
+      }
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+}
+
+/**
+ * Factory for a single provider, configured from the environment
+ */
+export function createJobSource(id: JobProviderId): JobSourceProvider {
+  switch (id) {
+    case 'jsearch':
+      return new JSearchProvider()
+    case 'greenhouse':
+      return new GreenhouseProvider()
+    case 'lever':
+      return new LeverProvider()
+    case 'ashby':
+      return new AshbyProvider()
+    case 'feed':
+      return new FeedProvider()
+    default:
+      throw new Error(`Unsupported job source provider: ${id}`)
+  }
+}
+
+/**
+ * Providers enabled for this deployment. JOB_SOURCES restricts the set
+ * (e.g. "jsearch,greenhouse"); without it every provider is registered and
+ * runs as soon as its own configuration is present.
+ */
+export function getEnabledProviderIds(): JobProviderId[] {
+  const configured = parseListEnv(process.env.JOB_SOURCES).map(id => id.toLowerCase())
+
+  if (configured.length === 0) {
+    return JOB_PROVIDER_IDS
+  }
+
+  const unknown = configured.filter(id => !JOB_PROVIDER_IDS.includes(id as JobProviderId))
+  if (unknown.length > 0) {
+    console.warn(`Ignoring unknown job sources in JOB_SOURCES: ${unknown.join(', ')}`)
+  }
+
+  return JOB_PROVIDER_IDS.filter(id => configured.includes(id))
+}
+
+export function createJobSourceRegistry(ids: JobProviderId[] = getEnabledProviderIds()): JobSourceRegistry {
+  const registry = new JobSourceRegistry()
+
+  ids.forEach(id => registry.register(createJobSource(id)))
+
+  return registry
+}
+
+let defaultRegistry: JobSourceRegistry | null = null
+
+export function getJobSourceRegistry(): JobSourceRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = createJobSourceRegistry()
+  }
+  return defaultRegistry
+}
@@ -0,0 +1,47 @@
+import { BackupJobAPI, JobAPIResponse, JobSearchParams, NormalizedJob } from '../jobAPIs'
+import { getJobSourceRegistry, JobSourceRegistry } from './registry'
+import { JOB_PROVIDER_IDS, JobProviderId } from './types'
+
+// Job search service fanning out across every configured provider, with the backup API as last resort
+export class JobSearchService {
+  private backupAPI = new BackupJobAPI()
+
+  constructor(private registry: JobSourceRegistry = getJobSourceRegistry()) {}
+
+  async searchJobs(params: JobSearchParams): Promise<JobAPIResponse> {
+    const { jobs, results } = await this.registry.fanOut(params)
+
+    if (results.some(result => !result.error)) {
+      return {
+        jobs,
+        totalResults: jobs.length,
+        currentPage: params.page || 1,
+        hasMore: jobs.length >= 10,
+      }
+    }
+
+    console.warn('All job sources failed or none are configured, falling back to backup:', results)
+    return await this.backupAPI.searchJobs(params)
+  }
+
+  async getJobDetails(jobId: string): Promise<NormalizedJob | null> {
+    // Board providers prefix their IDs ("greenhouse_<board>_<id>"); anything else came from JSearch
+    const prefix = jobId.split('_')[0] as JobProviderId
+    const provider = this.registry.get(JOB_PROVIDER_IDS.includes(prefix) ? prefix : 'jsearch')
+
+    if (provider?.getJobDetails && provider.isConfigured()) {
+      try {
+        return await provider.getJobDetails(jobId)
+      } catch (error) {
+        console.warn(`Job details from ${provider.id} failed, falling back:`, error)
+      }
+    }
+
+    return await this.backupAPI.getJobDetails(jobId)
+  }
+}
+
+// Create job search service with automatic fallback
+export function createJobSearchService(registry?: JobSourceRegistry) {
+  return new JobSearchService(registry)
+}
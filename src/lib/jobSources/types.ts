@@ -0,0 +1,49 @@
+/**
+ * Job Source Provider Types
+ *
+ * Every job source (JSearch, company job boards, feeds) implements the same
+ * provider interface and produces NormalizedJob records, so the scanner can
+ * fan out across sources without knowing how each one is queried.
+ */
+
+import type { JobSearchParams, NormalizedJob } from '../jobAPIs'
+
+export type JobProviderId = 'jsearch' | 'greenhouse' | 'lever' | 'ashby' | 'feed'
+
+export const JOB_PROVIDER_IDS: JobProviderId[] = ['jsearch', 'greenhouse', 'lever', 'ashby', 'feed']
+
+export interface JobSourceProvider {
+  id: JobProviderId
+  displayName: string
+  /**
+   * Overrides the registry default timeout for this provider (ms)
+   */
+  timeoutMs?: number
+  /**
+   * Whether the deployment has supplied what this provider needs (API key, board slugs, feed URLs)
+   */
+  isConfigured(): boolean
+  searchJobs(params: JobSearchParams, signal: AbortSignal): Promise<NormalizedJob[]>
+  getJobDetails?(jobId: string): Promise<NormalizedJob | null>
+}
+
+export interface ProviderRunResult {
+  provider: JobProviderId
+  jobCount: number
+  durationMs: number
+  error?: string
+  timedOut?: boolean
+}
+
+export interface FanOutResult {
+  jobs: NormalizedJob[]
+  results: ProviderRunResult[]
+}
+
+export interface FanOutOptions {
+  /**
+   * Restrict the fan-out to these providers (defaults to every configured provider)
+   */
+  providers?: JobProviderId[]
+  timeoutMs?: number
+}
@@ -0,0 +1,148 @@
+import type { JobSearchParams, NormalizedJob } from '../jobAPIs'
+
+const BOARD_CACHE_TTL_MS = 5 * 60 * 1000
+
+const responseCache = new Map<string, { expiresAt: number; body: any }>()
+
+/**
+ * GET a JSON document, caching it briefly so repeated searches during one scan
+ * (the scanner searches once per job title) don't refetch the same board
+ */
+export async function fetchJson(url: string, signal: AbortSignal, headers: Record<string, string> = {}): Promise<any> {
+  const cached = responseCache.get(url)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.body
+  }
+
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: { Accept: 'application/json', ...headers },
+    signal,
+  })
+
+  if (!response.ok) {
+    throw new Error(`Job source request failed: ${response.status} ${response.statusText} (${url})`)
+  }
+
+  const body = await response.json()
+  responseCache.set(url, { expiresAt: Date.now() + BOARD_CACHE_TTL_MS, body })
+  return body
+}
+
+/**
+ * Fetch every configured board, keeping the jobs from the ones that loaded.
+ * A failed board is logged and skipped; the search only fails when all of
+ * them do, so the registry still reports a provider that's entirely down.
+ */
+export async function fetchBoards<T>(
+  providerName: string,
+  boards: T[],
+  fetchBoard: (board: T) => Promise<NormalizedJob[]>,
+  describeBoard: (board: T) => string = String
+): Promise<NormalizedJob[]> {
+  const results = await Promise.allSettled(boards.map(board => fetchBoard(board)))
+  const jobs: NormalizedJob[] = []
+  let firstError: unknown
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      jobs.push(...result.value)
+      return
+    }
+    firstError ??= result.reason
+    console.warn(
+      `${providerName} board ${describeBoard(boards[index])} failed:`,
+      result.reason instanceof Error ? result.reason.message : result.reason
+    )
+  })
+
+  if (results.length > 0 && results.every(result => result.status === 'rejected')) {
+    throw firstError
+  }
+
+  return jobs
+}
+
+export async function fetchText(url: string, signal: AbortSignal): Promise<string> {
+  const response = await fetch(url, { method: 'GET', signal })
+
+  if (!response.ok) {
+    throw new Error(`Job source request failed: ${response.status} ${response.statusText} (${url})`)
+  }
+
+  return response.text()
+}
+
+/**
+ * Parse a comma-separated environment variable into trimmed, non-empty entries
+ */
+export function parseListEnv(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+}
+
+export function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&')
+}
+
+export function stripHtml(html: string): string {
+  return decodeHtmlEntities(html)
+    .replace(/<\s*(br|\/p|\/li|\/h\d)\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Extract the bare role keywords from a search query.
+ * The scanner builds JSearch-style queries ("Frontend Developer jobs in Toronto"),
+ * which board providers have to match against titles themselves.
+ */
+export function extractQueryKeywords(query: string): string[] {
+  const roleQuery = query
+    .replace(/\bjobs?\b(\s+in\s+.*)?$/i, '')
+    .trim()
+    .toLowerCase()
+
+  return roleQuery
+    .split(/[^a-z0-9+#.]+/)
+    .filter(word => word.length > 1)
+}
+
+/**
+ * Local filtering for providers that return a whole board rather than search results
+ */
+export function matchesSearchParams(job: NormalizedJob, params: JobSearchParams): boolean {
+  const keywords = extractQueryKeywords(params.query)
+  const title = job.title.toLowerCase()
+
+  if (keywords.length > 0 && !keywords.every(keyword => title.includes(keyword))) {
+    return false
+  }
+
+  if (params.location && !job.isRemote) {
+    const city = params.location.split(',')[0].trim().toLowerCase()
+    if (city && job.location && !job.location.toLowerCase().includes(city)) {
+      return false
+    }
+  }
+
+  if (params.datePosted && params.datePosted !== 'all' && job.postedAt) {
+    const maxAgeDays = { today: 1, '3days': 3, week: 7, month: 30 }[params.datePosted]
+    if (Date.now() - job.postedAt.getTime() > maxAgeDays * 24 * 60 * 60 * 1000) {
+      return false
+    }
+  }
+
+  return true
+}
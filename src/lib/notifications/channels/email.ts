@@ -0,0 +1,81 @@
+import { prisma } from '../../db'
+import { sendEmail } from '../../email/send'
+import { appUrl } from '../../email/transport'
+import { AnyNotificationEvent, NotificationChannel } from '../types'
+
+/**
+ * Sends the event's email template. The user's email preferences still
+ * apply on top of their notification routes.
+ */
+export class EmailChannel implements NotificationChannel {
+  id = 'email' as const
+  heldDuringQuietHours = true
+
+  async send(userId: string, event: AnyNotificationEvent): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true, name: true } })
+    if (!user?.email) return
+
+    const name = user.name || undefined
+    const base = { to: user.email, userId, dedupeKey: event.dedupeKey ? `${event.type}:${userId}:${event.dedupeKey}` : undefined }
+
+    switch (event.type) {
+      case 'match_found': {
+        const { job, matchScore } = event.data
+        await sendEmail({
+          ...base,
+          template: 'high_match_job',
+          props: { name, job: { title: job.title, company: job.company, location: job.location, matchScore }, dashboardUrl: appUrl('/dashboard') },
+        })
+        return
+      }
+      case 'review_pending':
+      case 'review_expiring': {
+        const { job, matchScore, expiresAt } = event.data
+        await sendEmail({
+          ...base,
+          template: event.type,
+          props: {
+            name,
+            job: { title: job.title, company: job.company, location: job.location, matchScore },
+            expiresAt: new Date(expiresAt),
+            reviewUrl: appUrl('/dashboard'),
+          },
+        })
+        return
+      }
+      case 'auto_applied':
+        await sendEmail({
+          ...base,
+          template: 'application_submitted',
+          props: {
+            name,
+            title: event.data.job.title,
+            company: event.data.job.company,
+            submittedAt: new Date(event.occurredAt),
+            applicationsUrl: appUrl('/applications'),
+          },
+        })
+        return
+      case 'automation_failed':
+        await sendEmail({
+          ...base,
+          template: 'automation_failed',
+          props: {
+            name,
+            title: event.data.job.title,
+            company: event.data.job.company,
+            error: event.data.error,
+            applicationsUrl: appUrl('/applications'),
+          },
+        })
+        return
+      case 'quota_low':
+        await sendEmail({
+          ...base,
+          template: 'quota_low',
+          props: { name, ...event.data, billingUrl: appUrl('/billing') },
+        })
+        return
+    }
+  }
+}
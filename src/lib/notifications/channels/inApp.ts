@@ -0,0 +1,42 @@
+import { prisma } from '../../db'
+import { publishUserEvent } from '../../userEvents/createEventBus'
+import { notificationContent } from '../content'
+import { AnyNotificationEvent, NotificationChannel } from '../types'
+
+/**
+ * Stores the notification in the user's inbox and pushes it to any open dashboard
+ */
+export class InAppChannel implements NotificationChannel {
+  id = 'in_app' as const
+  heldDuringQuietHours = false
+
+  async send(userId: string, event: AnyNotificationEvent): Promise<void> {
+    if (event.dedupeKey) {
+      const existing = await prisma.inAppNotification.findFirst({
+        where: { userId, dedupeKey: event.dedupeKey },
+        select: { id: true },
+      })
+      if (existing) return
+    }
+
+    const content = notificationContent(event)
+    const notification = await prisma.inAppNotification.create({
+      data: {
+        userId,
+        type: event.type,
+        title: content.title,
+        body: content.body,
+        url: content.url,
+        dedupeKey: event.dedupeKey,
+      },
+    })
+
+    await publishUserEvent(userId, 'inbox.created', {
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      url: notification.url || undefined,
+    })
+  }
+}
@@ -0,0 +1,75 @@
+import webpush from 'web-push'
+import { prisma } from '../../db'
+import { notificationContent } from '../content'
+import { AnyNotificationEvent, NotificationChannel } from '../types'
+
+// A subscription that keeps failing is dropped after this many attempts in a row
+const MAX_PUSH_FAILURES = 5
+
+let vapidConfigured = false
+
+/**
+ * The VAPID public key browsers subscribe with, or null when push isn't set up
+ */
+export function vapidPublicKey(): string | null {
+  return process.env.VAPID_PUBLIC_KEY || null
+}
+
+function configureVapid(): boolean {
+  if (vapidConfigured) return true
+  const publicKey = process.env.VAPID_PUBLIC_KEY
+  const privateKey = process.env.VAPID_PRIVATE_KEY
+  if (!publicKey || !privateKey) return false
+
+  webpush.setVapidDetails(process.env.VAPID_SUBJECT || 'mailto:no-reply@helpmeapply.app', publicKey, privateKey)
+  vapidConfigured = true
+  return true
+}
+
+/**
+ * Sends a Web Push notification to each browser the user subscribed.
+ * Subscriptions the push service reports gone are deleted. Failures aren't
+ * retried, which would resend to the browsers that did get it.
+ */
+export class PushChannel implements NotificationChannel {
+  id = 'push' as const
+  heldDuringQuietHours = true
+
+  async send(userId: string, event: AnyNotificationEvent): Promise<void> {
+    if (!configureVapid()) {
+      console.warn('⚠️ Web Push skipped: VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are not set')
+      return
+    }
+
+    const subscriptions = await prisma.pushSubscription.findMany({ where: { userId } })
+    if (subscriptions.length === 0) return
+
+    const content = notificationContent(event)
+    const payload = JSON.stringify({ ...content, type: event.type, tag: event.dedupeKey })
+
+    for (const subscription of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          payload,
+          { TTL: 24 * 60 * 60 }
+        )
+        await prisma.pushSubscription.update({
+          where: { id: subscription.id },
+          data: { failureCount: 0, lastSentAt: new Date() },
+        })
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode
+        if (statusCode === 404 || statusCode === 410 || subscription.failureCount + 1 >= MAX_PUSH_FAILURES) {
+          await prisma.pushSubscription.delete({ where: { id: subscription.id } })
+        } else {
+          await prisma.pushSubscription.update({
+            where: { id: subscription.id },
+            data: { failureCount: { increment: 1 } },
+          })
+        }
+        console.error('Web Push error:', error)
+      }
+    }
+  }
+}
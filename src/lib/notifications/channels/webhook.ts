@@ -0,0 +1,24 @@
+import { emitWebhookEvent } from '../../webhooks/deliveries'
+import { notificationContent } from '../content'
+import { AnyNotificationEvent, NotificationChannel } from '../types'
+
+/**
+ * Sends the event as a notification.created webhook to each of the user's
+ * endpoints subscribed to it, which signs, retries and logs every delivery
+ * like any other webhook event
+ */
+export class WebhookChannel implements NotificationChannel {
+  id = 'webhook' as const
+  heldDuringQuietHours = false
+
+  async send(userId: string, event: AnyNotificationEvent): Promise<void> {
+    await emitWebhookEvent(userId, 'notification.created', {
+      notification: {
+        type: event.type,
+        occurredAt: event.occurredAt,
+        ...notificationContent(event),
+        data: event.data,
+      },
+    })
+  }
+}
@@ -0,0 +1,67 @@
+import { appUrl } from '../email/transport'
+import { AnyNotificationEvent, NotificationContent } from './types'
+
+const QUOTA_NAMES = {
+  auto_applications: 'automatic applications',
+  mock_interviews: 'mock interviews',
+}
+
+function percent(score: number): string {
+  return `${Math.round(score * 100)}%`
+}
+
+/**
+ * The match score channel minimums are compared against, when the event has one
+ */
+export function notificationMatchScore(event: AnyNotificationEvent): number | undefined {
+  switch (event.type) {
+    case 'match_found':
+    case 'review_pending':
+    case 'review_expiring':
+    case 'auto_applied':
+      return event.data.matchScore
+    default:
+      return undefined
+  }
+}
+
+export function notificationContent(event: AnyNotificationEvent): NotificationContent {
+  switch (event.type) {
+    case 'match_found':
+      return {
+        title: `${percent(event.data.matchScore)} match: ${event.data.job.title}`,
+        body: `${event.data.job.company}${event.data.job.location ? ` · ${event.data.job.location}` : ''}`,
+        url: appUrl('/dashboard'),
+      }
+    case 'review_pending':
+      return {
+        title: 'Application ready for review',
+        body: `${event.data.job.title} at ${event.data.job.company} (${percent(event.data.matchScore)} match)`,
+        url: appUrl('/dashboard'),
+      }
+    case 'review_expiring':
+      return {
+        title: 'Review expiring soon',
+        body: `${event.data.job.title} at ${event.data.job.company} expires ${new Date(event.data.expiresAt).toUTCString()}`,
+        url: appUrl('/dashboard'),
+      }
+    case 'auto_applied':
+      return {
+        title: 'Application submitted',
+        body: `Applied to ${event.data.job.title} at ${event.data.job.company}`,
+        url: appUrl('/applications'),
+      }
+    case 'automation_failed':
+      return {
+        title: 'Automatic application failed',
+        body: `${event.data.job.title} at ${event.data.job.company}: ${event.data.error}`,
+        url: appUrl('/applications'),
+      }
+    case 'quota_low':
+      return {
+        title: `Running low on ${QUOTA_NAMES[event.data.quota]}`,
+        body: `${event.data.remaining} of ${event.data.limit} left this billing period`,
+        url: appUrl('/billing'),
+      }
+  }
+}
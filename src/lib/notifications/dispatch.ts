@@ -0,0 +1,113 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '../db'
+import { JobType } from '../queue/jobTypes'
+import { notificationMatchScore } from './content'
+import { getNotificationPreferences } from './preferences'
+import { quietHoursDelayMs } from './quietHours'
+import { EmailChannel } from './channels/email'
+import { InAppChannel } from './channels/inApp'
+import { PushChannel } from './channels/push'
+import { WebhookChannel } from './channels/webhook'
+import {
+  AnyNotificationEvent,
+  NotificationChannel,
+  NotificationChannelId,
+  NotificationEventPayloads,
+  NotificationEventType,
+} from './types'
+
+const CHANNELS: Record<NotificationChannelId, NotificationChannel> = {
+  in_app: new InAppChannel(),
+  email: new EmailChannel(),
+  push: new PushChannel(),
+  webhook: new WebhookChannel(),
+}
+
+/**
+ * Record that a deduplicated event is going out on a channel
+ * @returns false when it already went out there
+ */
+async function claimDelivery(userId: string, channel: NotificationChannelId, dedupeKey: string): Promise<boolean> {
+  try {
+    await prisma.notificationDelivery.create({ data: { userId, channel, dedupeKey } })
+    return true
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false
+    }
+    throw error
+  }
+}
+
+export interface DispatchOptions {
+  dedupeKey?: string // Each channel delivers an event with the same key at most once
+  now?: Date
+}
+
+/**
+ * Send an event over every channel the user routes it to. The in-app feed
+ * is written straight away; the other channels are queued, and email and
+ * push are held until the user's quiet hours end. An event with a dedupe
+ * key is queued at most once per channel, however often it's dispatched.
+ * Never throws: a failed notification is logged, never a reason to fail
+ * the work that raised it.
+ */
+export async function dispatchNotification<T extends NotificationEventType>(
+  userId: string,
+  type: T,
+  data: NotificationEventPayloads[T],
+  options: DispatchOptions = {}
+): Promise<void> {
+  try {
+    const now = options.now || new Date()
+    const event = { type, data, occurredAt: now.toISOString(), dedupeKey: options.dedupeKey } as AnyNotificationEvent
+    const settings = await getNotificationPreferences(userId)
+    const matchScore = notificationMatchScore(event)
+
+    const channels = settings.routes[type].filter(channel =>
+      matchScore === undefined || matchScore >= settings.minScores[channel]
+    )
+    if (channels.length === 0) return
+
+    if (channels.includes('in_app')) {
+      await deliverToChannel(userId, 'in_app', event).catch(error => {
+        console.error('In-app notification error:', error)
+      })
+    }
+
+    const external = channels.filter(channel => channel !== 'in_app')
+    if (external.length === 0) return
+
+    const { queueManager } = await import('../queue')
+    const quietDelay = quietHoursDelayMs(settings.quietHours, now)
+
+    for (const channel of external) {
+      const dedupeKey = options.dedupeKey
+      if (dedupeKey && !(await claimDelivery(userId, channel, dedupeKey))) continue
+
+      try {
+        await queueManager.enqueue(JobType.DELIVER_NOTIFICATION, { userId, channel, event }, {
+          delay: CHANNELS[channel].heldDuringQuietHours && quietDelay > 0 ? quietDelay : undefined,
+          deduplicationKey: dedupeKey ? `notify_${channel}_${userId}_${dedupeKey}` : undefined,
+        })
+      } catch (error) {
+        // Not queued, so a later dispatch may try again
+        if (dedupeKey) {
+          await prisma.notificationDelivery.deleteMany({ where: { userId, channel, dedupeKey } })
+        }
+        throw error
+      }
+    }
+  } catch (error) {
+    console.error(`Notification ${type} error:`, error)
+  }
+}
+
+/**
+ * Deliver an event over one channel with the user's current settings.
+ * Throws when the channel fails, so queued deliveries are retried.
+ */
+export async function deliverToChannel(userId: string, channel: NotificationChannelId, event: AnyNotificationEvent): Promise<void> {
+  const settings = await getNotificationPreferences(userId)
+  await CHANNELS[channel].send(userId, event, settings)
+}
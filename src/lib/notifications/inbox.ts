@@ -0,0 +1,31 @@
+import { InAppNotification } from '@prisma/client'
+import { prisma } from '../db'
+
+export interface InboxPage {
+  notifications: InAppNotification[]
+  unreadCount: number
+}
+
+export async function listInAppNotifications(userId: string, options: { limit?: number; unreadOnly?: boolean } = {}): Promise<InboxPage> {
+  const [notifications, unreadCount] = await Promise.all([
+    prisma.inAppNotification.findMany({
+      where: { userId, ...(options.unreadOnly ? { readAt: null } : {}) },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit || 20,
+    }),
+    prisma.inAppNotification.count({ where: { userId, readAt: null } }),
+  ])
+  return { notifications, unreadCount }
+}
+
+/**
+ * Mark the given notifications read, or all of the user's when no IDs are given
+ * @returns Promise<number> Notifications marked
+ */
+export async function markInAppNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  const result = await prisma.inAppNotification.updateMany({
+    where: { userId, readAt: null, ...(ids ? { id: { in: ids } } : {}) },
+    data: { readAt: new Date() },
+  })
+  return result.count
+}
@@ -0,0 +1,23 @@
+/**
+ * Notifications Module Main Export
+ */
+
+export * from './types'
+export { dispatchNotification, deliverToChannel } from './dispatch'
+export type { DispatchOptions } from './dispatch'
+export {
+  DEFAULT_NOTIFICATION_ROUTES,
+  DEFAULT_MIN_SCORES,
+  DEFAULT_QUIET_HOURS,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from './preferences'
+export type { NotificationPreferenceChanges } from './preferences'
+export { quietHoursDelayMs } from './quietHours'
+export { notificationContent, notificationMatchScore } from './content'
+export { REVIEW_REMINDER_WINDOW_HOURS, sendReviewExpiringReminders } from './reminders'
+export { listInAppNotifications, markInAppNotificationsRead } from './inbox'
+export type { InboxPage } from './inbox'
+export { savePushSubscription, deletePushSubscription, countPushSubscriptions } from './pushSubscriptions'
+export type { BrowserPushSubscription } from './pushSubscriptions'
+export { vapidPublicKey } from './channels/push'
@@ -0,0 +1,130 @@
+import { NotificationPreference } from '@prisma/client'
+import { prisma } from '../db'
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENT_TYPES,
+  NotificationChannelId,
+  NotificationEventType,
+  NotificationPreferenceSettings,
+} from './types'
+
+export const DEFAULT_NOTIFICATION_ROUTES: Record<NotificationEventType, NotificationChannelId[]> = {
+  match_found: ['in_app', 'email'],
+  review_pending: ['in_app'],
+  review_expiring: ['in_app', 'email'],
+  auto_applied: ['in_app', 'email'],
+  automation_failed: ['in_app', 'email'],
+  quota_low: ['in_app', 'email'],
+}
+
+// Email and push interrupt, so they wait for the strongest matches
+export const DEFAULT_MIN_SCORES: Record<NotificationChannelId, number> = {
+  in_app: 0.6,
+  email: 0.85,
+  push: 0.8,
+  webhook: 0,
+}
+
+export const DEFAULT_QUIET_HOURS: NotificationPreferenceSettings['quietHours'] = {
+  enabled: false,
+  start: '22:00',
+  end: '07:00',
+  timeZone: 'UTC',
+}
+
+function parseJson<T>(value: string): Partial<T> {
+  try {
+    const parsed = JSON.parse(value)
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch (error) {
+    return {}
+  }
+}
+
+function toRoutes(stored: Partial<Record<string, unknown>>): NotificationPreferenceSettings['routes'] {
+  const routes = { ...DEFAULT_NOTIFICATION_ROUTES }
+  for (const type of NOTIFICATION_EVENT_TYPES) {
+    const channels = stored[type]
+    if (Array.isArray(channels)) {
+      routes[type] = NOTIFICATION_CHANNELS.filter(channel => channels.includes(channel))
+    }
+  }
+  return routes
+}
+
+function toMinScores(stored: Partial<Record<string, unknown>>): NotificationPreferenceSettings['minScores'] {
+  const minScores = { ...DEFAULT_MIN_SCORES }
+  for (const channel of NOTIFICATION_CHANNELS) {
+    const score = stored[channel]
+    if (typeof score === 'number' && score >= 0 && score <= 1) minScores[channel] = score
+  }
+  return minScores
+}
+
+function toSettings(preference: NotificationPreference): NotificationPreferenceSettings {
+  return {
+    routes: toRoutes(parseJson(preference.routes)),
+    minScores: toMinScores(parseJson(preference.minScores)),
+    quietHours: {
+      enabled: preference.quietHoursEnabled,
+      start: preference.quietHoursStart,
+      end: preference.quietHoursEnd,
+      timeZone: preference.timeZone,
+    },
+  }
+}
+
+/**
+ * Until a user saves their own, in-app match alerts follow the auto-apply
+ * settings they already had: notifyOnMatch and notifyMinScore
+ */
+async function defaultSettings(userId: string): Promise<NotificationPreferenceSettings> {
+  const autoApply = await prisma.autoApplySettings.findFirst({
+    where: { profile: { userId } },
+    select: { notifyOnMatch: true, notifyMinScore: true },
+  })
+  const routes = { ...DEFAULT_NOTIFICATION_ROUTES }
+  if (autoApply && !autoApply.notifyOnMatch) {
+    routes.match_found = routes.match_found.filter(channel => channel !== 'in_app')
+  }
+
+  return {
+    routes,
+    minScores: { ...DEFAULT_MIN_SCORES, in_app: autoApply?.notifyMinScore ?? DEFAULT_MIN_SCORES.in_app },
+    quietHours: { ...DEFAULT_QUIET_HOURS },
+  }
+}
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferenceSettings> {
+  const preference = await prisma.notificationPreference.findUnique({ where: { userId } })
+  return preference ? toSettings(preference) : defaultSettings(userId)
+}
+
+export interface NotificationPreferenceChanges {
+  routes?: Partial<NotificationPreferenceSettings['routes']>
+  minScores?: Partial<NotificationPreferenceSettings['minScores']>
+  quietHours?: Partial<NotificationPreferenceSettings['quietHours']>
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  changes: NotificationPreferenceChanges
+): Promise<NotificationPreferenceSettings> {
+  const current = await getNotificationPreferences(userId)
+  const quietHours = { ...current.quietHours, ...changes.quietHours }
+  const data = {
+    routes: JSON.stringify({ ...current.routes, ...changes.routes }),
+    minScores: JSON.stringify({ ...current.minScores, ...changes.minScores }),
+    quietHoursEnabled: quietHours.enabled,
+    quietHoursStart: quietHours.start,
+    quietHoursEnd: quietHours.end,
+    timeZone: quietHours.timeZone,
+  }
+
+  const preference = await prisma.notificationPreference.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  })
+  return toSettings(preference)
+}
@@ -0,0 +1,34 @@
+import { prisma } from '../db'
+
+export interface BrowserPushSubscription {
+  endpoint: string
+  keys: { p256dh: string; auth: string }
+}
+
+/**
+ * Save a browser's subscription. An endpoint belongs to one browser, so
+ * subscribing again (or as another user) replaces the old row.
+ */
+export async function savePushSubscription(userId: string, subscription: BrowserPushSubscription, userAgent?: string): Promise<void> {
+  const data = {
+    userId,
+    p256dh: subscription.keys.p256dh,
+    auth: subscription.keys.auth,
+    userAgent,
+    failureCount: 0,
+  }
+  await prisma.pushSubscription.upsert({
+    where: { endpoint: subscription.endpoint },
+    create: { endpoint: subscription.endpoint, ...data },
+    update: data,
+  })
+}
+
+export async function deletePushSubscription(userId: string, endpoint: string): Promise<number> {
+  const result = await prisma.pushSubscription.deleteMany({ where: { userId, endpoint } })
+  return result.count
+}
+
+export async function countPushSubscriptions(userId: string): Promise<number> {
+  return prisma.pushSubscription.count({ where: { userId } })
+}
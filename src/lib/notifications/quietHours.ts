@@ -0,0 +1,47 @@
+import { NotificationPreferenceSettings } from './types'
+
+const MINUTES_PER_DAY = 24 * 60
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function minutesInTimeZone(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+  const hour = Number(parts.find(part => part.type === 'hour')?.value || 0)
+  const minute = Number(parts.find(part => part.type === 'minute')?.value || 0)
+  return hour * 60 + minute
+}
+
+/**
+ * How long until the user's quiet hours end, or 0 outside them. A window
+ * whose end is earlier than its start runs past midnight.
+ */
+export function quietHoursDelayMs(quietHours: NotificationPreferenceSettings['quietHours'], now = new Date()): number {
+  if (!quietHours.enabled) return 0
+
+  const start = toMinutes(quietHours.start)
+  const end = toMinutes(quietHours.end)
+  if (start === end) return 0
+
+  let current: number
+  try {
+    current = minutesInTimeZone(now, quietHours.timeZone)
+  } catch (error) {
+    current = minutesInTimeZone(now, 'UTC')
+  }
+
+  const inside = start < end
+    ? current >= start && current < end
+    : current >= start || current < end
+  if (!inside) return 0
+
+  const minutesLeft = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  return (minutesLeft * 60 - now.getUTCSeconds()) * 1000
+}
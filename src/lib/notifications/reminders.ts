@@ -0,0 +1,28 @@
+import { prisma } from '../db'
+import { dispatchNotification } from './dispatch'
+
+// Pending reviews expiring within this window get one reminder
+export const REVIEW_REMINDER_WINDOW_HOURS = 12
+
+/**
+ * Remind users about pending reviews that expire soon. Each review gets at
+ * most one reminder per channel, however often this runs: the dedupe key
+ * is claimed per channel when the reminder is dispatched.
+ */
+export async function sendReviewExpiringReminders(now = new Date()): Promise<number> {
+  const windowEnd = new Date(now.getTime() + REVIEW_REMINDER_WINDOW_HOURS * 60 * 60 * 1000)
+  const reviews = await prisma.applicationReview.findMany({
+    where: { status: 'PENDING', expiresAt: { gt: now, lte: windowEnd } },
+    include: { job: { select: { id: true, title: true, company: true, location: true } } },
+  })
+
+  for (const review of reviews) {
+    await dispatchNotification(review.userId, 'review_expiring', {
+      reviewId: review.id,
+      job: { id: review.job.id, title: review.job.title, company: review.job.company, location: review.job.location || undefined },
+      matchScore: review.matchScore,
+      expiresAt: review.expiresAt.toISOString(),
+    }, { dedupeKey: `review_expiring:${review.id}`, now })
+  }
+  return reviews.length
+}
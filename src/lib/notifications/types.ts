@@ -0,0 +1,87 @@
+/**
+ * Notification Types
+ *
+ * Things worth telling a user about are notification events. Each user
+ * routes every event type to any of four channels: the in-app feed, email,
+ * browser Web Push and their webhook endpoints. Channels can ignore matches below
+ * a minimum score, and email and push wait out the user's quiet hours.
+ */
+
+export type NotificationEventType =
+  | 'match_found'
+  | 'review_pending'
+  | 'review_expiring'
+  | 'auto_applied'
+  | 'automation_failed'
+  | 'quota_low'
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = [
+  'match_found',
+  'review_pending',
+  'review_expiring',
+  'auto_applied',
+  'automation_failed',
+  'quota_low',
+]
+
+export type NotificationChannelId = 'in_app' | 'email' | 'push' | 'webhook'
+
+export const NOTIFICATION_CHANNELS: NotificationChannelId[] = ['in_app', 'email', 'push', 'webhook']
+
+export interface NotificationJob {
+  id: string
+  title: string
+  company: string
+  location?: string
+}
+
+// Dates are ISO strings: events travel through the queue as JSON
+export interface NotificationEventPayloads {
+  match_found: { job: NotificationJob; matchScore: number }
+  review_pending: { reviewId: string; job: NotificationJob; matchScore: number; expiresAt: string }
+  review_expiring: { reviewId: string; job: NotificationJob; matchScore: number; expiresAt: string }
+  auto_applied: { applicationId: string; job: NotificationJob; matchScore?: number }
+  automation_failed: { applicationId?: string; job: NotificationJob; error: string }
+  quota_low: { quota: 'auto_applications' | 'mock_interviews'; remaining: number; limit: number }
+}
+
+export interface NotificationEvent<T extends NotificationEventType = NotificationEventType> {
+  type: T
+  data: NotificationEventPayloads[T]
+  occurredAt: string
+  dedupeKey?: string // Each channel delivers an event with the same key at most once
+}
+
+// One variant per event type, so checking `type` narrows `data`
+export type AnyNotificationEvent = {
+  [T in NotificationEventType]: NotificationEvent<T>
+}[NotificationEventType]
+
+export interface NotificationPreferenceSettings {
+  routes: Record<NotificationEventType, NotificationChannelId[]>
+  minScores: Record<NotificationChannelId, number> // 0-1; events without a match score always pass
+  quietHours: {
+    enabled: boolean
+    start: string // HH:mm
+    end: string // HH:mm, may be earlier than start to span midnight
+    timeZone: string
+  }
+}
+
+/**
+ * Title, text and link shared by every channel's rendering of an event
+ */
+export interface NotificationContent {
+  title: string
+  body: string
+  url: string
+}
+
+export interface NotificationChannel {
+  id: NotificationChannelId
+  heldDuringQuietHours: boolean
+  /**
+   * Deliver one event; throws to have the queue retry it
+   */
+  send(userId: string, event: AnyNotificationEvent, settings: NotificationPreferenceSettings): Promise<void>
+}
@@ -299,4 +299,471 @@ Return only a JSON array like: ["Job Title 1", "Job Title 2", ...]
     console.error('OpenAI job suggestion error:', error)
     throw new Error('Failed to find relevant jobs')
   }
-}
\ No newline at end of file
+}
+export interface ScreeningAnswerDraftRequest {
+  profile: {
+    fullName: string
+    yearsExperience?: number
+    skills: Array<{
+      name: string
+      yearsUsed?: number
+    }>
+    preferredLocations: string[]
+    salaryMin?: number
+    salaryMax?: number
+  }
+  job?: {
+    title: string
+    company: string
+    description?: string
+  }
+  questions: Array<{
+    question: string
+    options?: string[]
+  }>
+}
+
+/**
+ * Draft answers to application screening questions. Drafts are only ever
+ * queued for the user's approval, never submitted as-is.
+ */
+export async function draftScreeningAnswers(request: ScreeningAnswerDraftRequest): Promise<string[]> {
+  try {
+    const { profile, job, questions } = request
+
+    const prompt = `
+Draft answers to these job application screening questions for the candidate below. The candidate will review every answer before it is used.
+
+Candidate:
+- Name: ${profile.fullName}
+- Years of experience: ${profile.yearsExperience ?? 'Unknown'}
+- Skills: ${profile.skills.map(s => s.yearsUsed ? `${s.name} (${s.yearsUsed} years)` : s.name).join(', ')}
+- Preferred locations: ${profile.preferredLocations.join(', ') || 'Not specified'}
+- Salary range (yearly, USD): ${profile.salaryMin || profile.salaryMax ? `${profile.salaryMin || '?'} - ${profile.salaryMax || '?'}` : 'Not specified'}
+${job ? `
+Job: ${job.title} at ${job.company}
+${job.description ? job.description.substring(0, 1500) : ''}
+` : ''}
+Questions:
+${questions.map((q, i) => `${i + 1}. ${q.question}${q.options?.length ? ` (choose one of: ${q.options.join(' | ')})` : ''}`).join('\n')}
+
+Rules:
+- When choices are listed, answer with one of the choices exactly as written
+- Keep free-text answers to one or two sentences
+- Never invent facts the profile doesn't support; answer "" when the candidate must answer themselves (e.g. citizenship, visa status)
+
+Return only a JSON array of answer strings, in question order, like: ["answer 1", "answer 2", ...]
+`
+
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system',
+          content: 'You help job seekers fill in application forms accurately and concisely. Always respond with valid JSON only.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.2,
+      max_tokens: 800,
+    })
+
+    const response = completion.choices[0]?.message?.content
+    if (!response) {
+      throw new Error('No response from OpenAI')
+    }
+
+    const cleanedResponse = response.trim().replace(/^```(json)?\s*/, '').replace(/\s*```$/, '')
+    const answers = JSON.parse(cleanedResponse)
+    if (!Array.isArray(answers)) {
+      throw new Error('Expected a JSON array of answers')
+    }
+
+    return questions.map((_, i) => typeof answers[i] === 'string' ? answers[i].trim() : '')
+  } catch (error) {
+    console.error('OpenAI screening answer draft error:', error)
+    throw new Error('Failed to draft screening answers')
+  }
+}
+
+export interface InterviewAnswerEvaluationRequest {
+  job: {
+    title: string
+    company: string
+    description: string
+  }
+  question: string
+  answer: string
+  spoken: boolean // Transcribed from a recording rather than typed
+  criteria: Array<{
+    id: string
+    label: string
+    description: string
+  }>
+}
+
+export interface InterviewAnswerEvaluationResult {
+  criteria: Array<{
+    id: string
+    score: number // 0-1
+    comment: string
+  }>
+  feedback: string
+  strengths: string[]
+  improvements: string[]
+}
+
+/**
+ * Grade one practice interview answer against the given rubric criteria.
+ * The caller weights the criterion scores into the answer's score.
+ */
+export async function evaluateInterviewAnswer(request: InterviewAnswerEvaluationRequest): Promise<InterviewAnswerEvaluationResult> {
+  try {
+    const { job, question, answer, spoken, criteria } = request
+
+    const prompt = `
+Grade this mock interview answer for a ${job.title} role at ${job.company}.
+
+Job description:
+${job.description.substring(0, 2000)}
+
+Question: ${question}
+
+Candidate's answer${spoken ? ' (transcribed from speech; ignore punctuation and transcription slips)' : ''}:
+${answer.substring(0, 6000)}
+
+Score the answer from 0 to 1 on each criterion:
+${criteria.map(c => `- ${c.id} (${c.label}): ${c.description}`).join('\n')}
+
+Be honest: 0.5 is an average answer, 0.8+ is one a hiring manager would remember. Quote or paraphrase the answer in comments so the candidate sees what you mean.
+
+Return only JSON in this format:
+{
+  "criteria": [{ "id": "<criterion id>", "score": 0.0, "comment": "one sentence" }],
+  "feedback": "two or three sentences of overall feedback",
+  "strengths": ["short strength", ...],
+  "improvements": ["short, actionable improvement", ...]
+}
+`
+
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an experienced interviewer coaching candidates with direct, specific feedback. Always respond with valid JSON only.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.2,
+      max_tokens: 900,
+    })
+
+    const response = completion.choices[0]?.message?.content
+    if (!response) {
+      throw new Error('No response from OpenAI')
+    }
+
+    const cleanedResponse = response.trim().replace(/^```(json)?\s*/, '').replace(/\s*```$/, '')
+    const result = JSON.parse(cleanedResponse)
+
+    return {
+      criteria: criteria.flatMap(c => {
+        const scored = Array.isArray(result.criteria) ? result.criteria.find((s: any) => s?.id === c.id) : null
+        if (!scored || typeof scored.score !== 'number') return []
+        return [{
+          id: c.id,
+          score: Math.max(0, Math.min(1, scored.score)),
+          comment: typeof scored.comment === 'string' ? scored.comment : '',
+        }]
+      }),
+      feedback: typeof result.feedback === 'string' ? result.feedback : '',
+      strengths: Array.isArray(result.strengths) ? result.strengths.filter((s: unknown) => typeof s === 'string') : [],
+      improvements: Array.isArray(result.improvements) ? result.improvements.filter((s: unknown) => typeof s === 'string') : [],
+    }
+  } catch (error) {
+    console.error('OpenAI interview answer evaluation error:', error)
+    throw new Error('Failed to evaluate interview answer')
+  }
+}
+
+export interface InterviewReportRequest {
+  job: {
+    title: string
+    company: string
+    description: string
+  }
+  answers: Array<{
+    question: string
+    answer: string
+    score: number
+    feedback: string
+    strengths: string[]
+    improvements: string[]
+  }>
+  speaking: {
+    wordsPerMinute: number
+    fillerWordsPerMinute: number
+    longPauses: number
+  } | null // From the recorded answers, when they were transcribed
+  weakest: {
+    question: string
+    answer: string
+  } | null
+}
+
+export interface InterviewReportResult {
+  summary: string
+  strengths: string[]
+  weaknesses: string[]
+  suggestedAnswer: string | null
+}
+
+/**
+ * Roll graded answers up into session-level strengths and weaknesses, and
+ * rewrite the weakest answer the way a strong candidate would give it.
+ */
+export async function summarizeInterviewSession(request: InterviewReportRequest): Promise<InterviewReportResult> {
+  try {
+    const { job, answers, speaking, weakest } = request
+
+    const prompt = `
+Summarize this mock interview for a ${job.title} role at ${job.company}.
+
+Job description:
+${job.description.substring(0, 2000)}
+
+Graded answers:
+${answers.map((a, i) => `
+${i + 1}. Q: ${a.question}
+   Score: ${Math.round(a.score * 100)}%
+   Feedback: ${a.feedback}
+   Strengths: ${a.strengths.join('; ') || 'None noted'}
+   Improvements: ${a.improvements.join('; ') || 'None noted'}`).join('\n')}
+${speaking ? `
+Delivery (from the recordings): ${speaking.wordsPerMinute} words per minute (130-160 is comfortable), ${speaking.fillerWordsPerMinute} filler words per minute, ${speaking.longPauses} pauses of 3+ seconds. Mention delivery only when it stands out.
+` : ''}${weakest ? `
+Weakest answer, to rewrite:
+Q: ${weakest.question}
+A: ${weakest.answer.substring(0, 3000)}
+` : ''}
+Look for patterns across answers rather than repeating each one's feedback.${weakest ? ' The rewrite must stay truthful to what the candidate said, reorganized with STAR structure and sharper specifics, and fit in two minutes of speaking; use [brackets] for numbers the candidate should fill in.' : ''}
+
+Return only JSON in this format:
+{
+  "summary": "two or three sentences",
+  "strengths": ["pattern the candidate should keep", ...],
+  "weaknesses": ["pattern to work on, with how", ...],
+  "suggestedAnswer": ${weakest ? '"the rewritten answer"' : 'null'}
+}
+`
+
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an experienced interviewer coaching candidates with direct, specific feedback. Always respond with valid JSON only.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.4,
+      max_tokens: 1200,
+    })
+
+    const response = completion.choices[0]?.message?.content
+    if (!response) {
+      throw new Error('No response from OpenAI')
+    }
+
+    const cleanedResponse = response.trim().replace(/^```(json)?\s*/, '').replace(/\s*```$/, '')
+    const result = JSON.parse(cleanedResponse)
+
+    return {
+      summary: typeof result.summary === 'string' ? result.summary : '',
+      strengths: Array.isArray(result.strengths) ? result.strengths.filter((s: unknown) => typeof s === 'string') : [],
+      weaknesses: Array.isArray(result.weaknesses) ? result.weaknesses.filter((s: unknown) => typeof s === 'string') : [],
+      suggestedAnswer: weakest && typeof result.suggestedAnswer === 'string' ? result.suggestedAnswer : null,
+    }
+  } catch (error) {
+    console.error('OpenAI interview report error:', error)
+    throw new Error('Failed to summarize interview session')
+  }
+}
+
+/**
+ * The competencies a mock interview for this role should cover, most
+ * important first
+ */
+export async function extractInterviewCompetencies(jobTitle: string, jobDescription: string): Promise<Array<{ name: string; kind: 'technical' | 'behavioral' }>> {
+  try {
+    const prompt = `
+List the competencies an interviewer should probe for a ${jobTitle} role, based on this job description.
+
+Job Description:
+${jobDescription.substring(0, 4000)}
+
+Rules:
+- 4 to 6 competencies, most important to the role first
+- Each is a short noun phrase an interviewer could ask about, e.g. "React", "API design", "Stakeholder management"
+- Mark each "technical" (skills, tools, domain knowledge) or "behavioral" (how the candidate works with people and problems)
+- Include at least one behavioral competency
+
+Return only a JSON array like: [{ "name": "API design", "kind": "technical" }, ...]
+`
+
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an experienced hiring manager planning structured interviews. Always respond with valid JSON only.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.2,
+      max_tokens: 400,
+    })
+
+    const response = completion.choices[0]?.message?.content
+    if (!response) {
+      throw new Error('No response from OpenAI')
+    }
+
+    const cleanedResponse = response.trim().replace(/^```(json)?\s*/, '').replace(/\s*```$/, '')
+    const competencies = JSON.parse(cleanedResponse)
+    if (!Array.isArray(competencies)) {
+      throw new Error('Expected a JSON array of competencies')
+    }
+
+    return competencies
+      .filter((c: any) => typeof c?.name === 'string' && c.name.trim())
+      .map((c: any) => ({ name: c.name.trim(), kind: c.kind === 'behavioral' ? 'behavioral' as const : 'technical' as const }))
+  } catch (error) {
+    console.error('OpenAI competency extraction error:', error)
+    throw new Error('Failed to extract interview competencies')
+  }
+}
+
+export interface InterviewQuestionRequest {
+  job: {
+    title: string
+    company: string
+    description: string
+  }
+  interview?: {
+    label: string
+    instructions: string
+  }
+  interviewer?: {
+    style: string
+    name?: string // Panelist asking, e.g. "Priya, Hiring Manager"
+  }
+  questionNumber: number
+  totalQuestions: number
+  move: 'opening' | 'follow_up' | 'harder' | 'deep_dive' | 'new_competency' | 'closing'
+  competency?: { name: string; kind: 'technical' | 'behavioral' }
+  difficulty: number // 1-3
+  followUpOf?: {
+    question: string
+    answer: string
+    gaps: string[]
+  }
+  previousAnswer?: {
+    question: string
+    answer: string
+  }
+  askedQuestions: string[]
+  skills: string[]
+}
+
+const QUESTION_MOVE_INSTRUCTIONS: Record<InterviewQuestionRequest['move'], string> = {
+  opening: 'Open the interview, e.g. asking the candidate to introduce themselves or why this role interests them.',
+  follow_up: 'The previous answer was vague. Ask one follow-up that digs into it, targeting what it left out. Refer to something the candidate actually said.',
+  harder: 'The previous answer was strong. Raise the bar with a more demanding question on the competency below: deeper trade-offs, scale, ambiguity or failure modes.',
+  deep_dive: 'Stay with the topic below and dig one level deeper, building on the candidate\'s last answer: new constraints, numbers, edge cases or a decision to defend.',
+  new_competency: 'Move on to the competency below, which the interview hasn\'t covered yet.',
+  closing: 'Close the interview with a question about goals, motivation or what questions the candidate has.',
+}
+
+const ANSWER_GAP_DESCRIPTIONS: Record<string, string> = {
+  personal_contribution: 'what the candidate personally did, as opposed to the team',
+  numbers: 'measurable results',
+  detail: 'concrete detail',
+  outcome: 'how it turned out',
+}
+
+/**
+ * Write the next mock interview question for a move the caller has already
+ * chosen from the previous answers
+ */
+export async function generateInterviewQuestion(request: InterviewQuestionRequest): Promise<string> {
+  try {
+    const { job, move, competency, difficulty, followUpOf, previousAnswer, interview, interviewer } = request
+
+    const prompt = `
+You are interviewing a candidate for ${job.title} at ${job.company}. This is question ${request.questionNumber} of ${request.totalQuestions}.
+${interview ? `Interview type: ${interview.label}. ${interview.instructions}` : ''}
+${interviewer?.name ? `You are ${interviewer.name} on the panel.` : ''}
+
+Job description:
+${job.description.substring(0, 2000)}
+
+Candidate's skills: ${request.skills.join(', ') || 'Not provided'}
+
+Already asked:
+${request.askedQuestions.map(q => `- ${q}`).join('\n') || '- Nothing yet'}
+
+${QUESTION_MOVE_INSTRUCTIONS[move]}
+${competency ? `Competency: ${competency.name} (${competency.kind})` : ''}
+Difficulty: ${difficulty} of 3
+${followUpOf ? `
+Previous question: ${followUpOf.question}
+Candidate's answer: ${followUpOf.answer.substring(0, 2000)}
+It lacked: ${followUpOf.gaps.map(g => ANSWER_GAP_DESCRIPTIONS[g] || g).join(', ') || 'specifics'}
+` : ''}${previousAnswer ? `
+Previous question: ${previousAnswer.question}
+Candidate's answer: ${previousAnswer.answer.substring(0, 2000)}
+` : ''}
+Ask one question, conversational and realistic, that doesn't repeat anything already asked. Respond with just the question text.
+`
+
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system',
+          content: `You are an experienced interviewer conducting professional job interviews. Generate realistic, relevant interview questions. Your manner: ${interviewer?.style || 'professional and neutral.'}`
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.7,
+      max_tokens: 200,
+    })
+
+    const question = completion.choices[0]?.message?.content?.trim().replace(/^"|"$/g, '')
+    if (!question) {
+      throw new Error('No response from OpenAI')
+    }
+
+    return question
+  } catch (error) {
+    console.error('OpenAI interview question error:', error)
+    throw new Error('Failed to generate interview question')
+  }
+}
@@ -7,6 +7,7 @@
 
 import { prisma } from '@/lib/db'
 import { getPlanLimits, getUserQuotaRemaining } from './config'
+import { dispatchNotification } from '@/lib/notifications/dispatch'
 
 export interface UserPlanStatus {
   subscriptionPlan: string
@@ -128,6 +129,24 @@ export async function checkMockInterviewQuota(userId: string): Promise<QuotaChec
   }
 }
 
+// Users hear once per period when a quota drops to this share of its limit
+const QUOTA_LOW_SHARE = 0.2
+
+async function notifyIfQuotaLow(
+  userId: string,
+  quota: 'auto_applications' | 'mock_interviews',
+  remaining: number,
+  limit: number
+): Promise<void> {
+  if (remaining !== Math.max(1, Math.floor(limit * QUOTA_LOW_SHARE))) return
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { subscriptionPeriodStart: true } })
+  const period = (user?.subscriptionPeriodStart || new Date()).toISOString().split('T')[0]
+  await dispatchNotification(userId, 'quota_low', { quota, remaining, limit }, {
+    dedupeKey: `quota_low:${quota}:${period}`,
+  })
+}
+
 /**
  * Consume an auto application quota (increment usage)
  */
@@ -145,6 +164,7 @@ export async function consumeAutoApplication(userId: string): Promise<boolean> {
       }
     }
   })
+  await notifyIfQuotaLow(userId, 'auto_applications', quota.remaining - 1, quota.limit)
 
   return true
 }
@@ -166,6 +186,7 @@ export async function consumeMockInterview(userId: string): Promise<boolean> {
       }
     }
   })
+  await notifyIfQuotaLow(userId, 'mock_interviews', quota.remaining - 1, quota.limit)
 
   return true
 }
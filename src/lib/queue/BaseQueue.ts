@@ -0,0 +1,333 @@
+/**
+ * Shared Queue Worker
+ *
+ * The part of every IQueue that doesn't depend on where jobs are stored:
+ * handler registration, per-type and per-group concurrency, handler
+ * timeouts and retry backoff. Implementations only store jobs and claim
+ * them atomically.
+ *
+ * Every state change a job goes through in this process is emitted as a
+ * 'job' event (QueueJobEvent).
+ */
+
+import { EventEmitter } from 'events'
+import { IQueue, QueueJob, JobHandler, JobResult, EnqueueOptions, QueueWorkerOptions, QueueMetrics, QueueJobEvent, UserQueueDepth, JobStatus, DeadJob, DeadJobFilter, DeadJobPage, ReplayOptions, JobTimeoutError } from './interfaces'
+
+export abstract class BaseQueue extends EventEmitter implements IQueue {
+  protected handlers = new Map<string, { handler: JobHandler, options: QueueWorkerOptions }>()
+  protected isRunning = false
+  protected activeTasks = new Set<Promise<void>>()
+  private activeByType = new Map<string, number>()
+  private activeByGroup = new Map<string, number>()
+  private pollingInterval?: NodeJS.Timeout
+  private wakeTimer?: NodeJS.Timeout
+  private wakeTimerAt = 0
+  private processing = false
+  private processAgain = false
+  private shutdownHandlersInstalled = false
+  protected maxConcurrency = 10
+  protected pollIntervalMs = 2000
+
+  abstract enqueueJob(type: string, payload: any, options?: EnqueueOptions): Promise<string>
+  abstract getMetrics(): Promise<QueueMetrics>
+  abstract getUserDepth(userId: string): Promise<UserQueueDepth>
+  abstract cleanup(olderThanDays: number): Promise<number>
+  abstract listDeadJobs(filter?: DeadJobFilter): Promise<DeadJobPage>
+  abstract getDeadJob(id: string): Promise<DeadJob | null>
+  abstract replayDeadJob(id: string, options?: ReplayOptions): Promise<string | null>
+  abstract purgeDeadJobs(filter?: DeadJobFilter): Promise<number>
+
+  /**
+   * Atomically claim up to `limit` available jobs, highest priority first,
+   * of the given types only. A job is claimed by exactly one worker.
+   */
+  protected abstract claimJobs(limit: number, types: Map<string, number>): Promise<QueueJob[]>
+  protected abstract completeJob(job: QueueJob): Promise<void>
+  protected abstract retryJob(job: QueueJob, attemptCount: number, availableAt: Date, errorMessage: string): Promise<void>
+  /**
+   * Move a job that won't run again to the dead-letter store, with its error history
+   */
+  protected abstract failJob(job: QueueJob, errorMessage: string): Promise<void>
+
+  /**
+   * Name used in worker logs
+   */
+  protected abstract get backendName(): string
+
+  /**
+   * Called once when the worker starts, before the first claim
+   */
+  protected async onStart(): Promise<void> {}
+
+  /**
+   * Called once the worker has stopped and its jobs have finished
+   */
+  protected async onStop(): Promise<void> {}
+
+  /**
+   * Tell 'job' listeners about a job's new state. Backends call this for
+   * the jobs they enqueue; the worker does for everything else.
+   */
+  protected emitJobEvent(job: Pick<QueueJob, 'id' | 'type' | 'userId'>, status: JobStatus, attemptCount: number, error?: string): void {
+    const event: QueueJobEvent = { id: job.id, type: job.type, userId: job.userId, status, attemptCount, error }
+    try {
+      this.emit('job', event)
+    } catch (listenerError) {
+      console.error('Queue job listener error:', listenerError)
+    }
+  }
+
+  /**
+   * Register job handler - abstracted interface
+   */
+  registerHandler(type: string, handler: JobHandler, options: QueueWorkerOptions = {}): void {
+    this.handlers.set(type, { handler, options })
+    console.log(`✅ Registered handler for job type: ${type}`)
+    if (this.isRunning) this.wake()
+  }
+
+  /**
+   * Start queue worker
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) return
+
+    this.isRunning = true
+    console.log(`🚀 Starting ${this.backendName} queue worker...`)
+    this.setupGracefulShutdown()
+    await this.onStart()
+
+    this.pollingInterval = setInterval(() => this.wake(), this.pollIntervalMs)
+    this.wake()
+
+    console.log(`✅ ${this.backendName} queue worker started (polling every ${this.pollIntervalMs}ms)`)
+  }
+
+  /**
+   * Look for work now instead of waiting for the next poll
+   */
+  protected wake(): void {
+    if (!this.isRunning) return
+
+    // A wake during a claim runs another claim right after it
+    if (this.processing) {
+      this.processAgain = true
+      return
+    }
+
+    this.processing = true
+    this.processJobs()
+      .catch(error => {
+        console.error('Queue processing error:', error)
+      })
+      .finally(() => {
+        this.processing = false
+        if (this.processAgain) {
+          this.processAgain = false
+          this.wake()
+        }
+      })
+  }
+
+  /**
+   * Wake when the next delayed job becomes available, if that's before the next poll
+   */
+  protected wakeAt(availableAt: number): void {
+    const delay = availableAt - Date.now()
+    if (!this.isRunning || delay >= this.pollIntervalMs) return
+    if (this.wakeTimer && this.wakeTimerAt <= availableAt) return
+
+    if (this.wakeTimer) clearTimeout(this.wakeTimer)
+    this.wakeTimerAt = availableAt
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = undefined
+      this.wake()
+    }, Math.max(delay, 0))
+  }
+
+  /**
+   * Process jobs with concurrency control
+   */
+  private async processJobs(): Promise<void> {
+    let limit = this.maxConcurrency - this.activeTasks.size
+    if (limit <= 0) return // At max concurrency
+
+    // Only registered types are claimed, and types at their handler's concurrency limit wait in the queue.
+    // Types sharing a concurrency group are claimed together, up to what's left of the group's cap.
+    const claims = new Map<string, { limit: number, freeSlots: Map<string, number> }>()
+    this.handlers.forEach(({ options }, type) => {
+      const slots = options.concurrency ? options.concurrency - (this.activeByType.get(type) || 0) : limit
+      if (slots <= 0) return
+
+      const groupName = options.group?.name || ''
+      let claim = claims.get(groupName)
+      if (!claim) {
+        const groupLimit = options.group ? options.group.concurrency - (this.activeByGroup.get(groupName) || 0) : limit
+        claim = { limit: groupLimit, freeSlots: new Map() }
+        claims.set(groupName, claim)
+      }
+      claim.freeSlots.set(type, slots)
+    })
+
+    for (const [groupName, claim] of Array.from(claims.entries())) {
+      const claimLimit = Math.min(limit, claim.limit)
+      if (claimLimit <= 0) continue
+      claim.freeSlots.forEach((slots, type) => claim.freeSlots.set(type, Math.min(slots, claimLimit)))
+
+      const jobs = await this.claimJobs(claimLimit, claim.freeSlots)
+      limit -= jobs.length
+
+      for (const job of jobs) {
+        this.startJob(job, groupName)
+      }
+    }
+  }
+
+  /**
+   * Run a claimed job, counting it against its type's and group's concurrency
+   */
+  private startJob(job: QueueJob, groupName: string): void {
+    const task = this.processJob(job)
+    this.activeTasks.add(task)
+    this.activeByType.set(job.type, (this.activeByType.get(job.type) || 0) + 1)
+    if (groupName) this.activeByGroup.set(groupName, (this.activeByGroup.get(groupName) || 0) + 1)
+
+    // Clean up completed tasks and pick up whatever was waiting on the slot
+    task.finally(() => {
+      this.activeTasks.delete(task)
+      this.activeByType.set(job.type, (this.activeByType.get(job.type) || 1) - 1)
+      if (groupName) this.activeByGroup.set(groupName, (this.activeByGroup.get(groupName) || 1) - 1)
+      this.wake()
+    })
+  }
+
+  /**
+   * Process individual job with error handling and retries
+   */
+  private async processJob(job: QueueJob): Promise<void> {
+    const startTime = Date.now()
+    console.log(`🔄 Processing job: ${job.type} (${job.id})`)
+
+    const handlerInfo = this.handlers.get(job.type)
+    if (!handlerInfo) {
+      const errorMessage = `No handler registered for job type: ${job.type}`
+      await this.failJob(job, errorMessage)
+      this.emitJobEvent(job, JobStatus.FAILED, job.attemptCount + 1, errorMessage)
+      return
+    }
+    this.emitJobEvent(job, JobStatus.PROCESSING, job.attemptCount)
+
+    let run: Promise<JobResult> | undefined
+    try {
+      run = handlerInfo.handler(job.payload, job)
+      const result = await this.runWithTimeout(run, handlerInfo.options.timeout)
+
+      if (result.success) {
+        await this.completeJob(job)
+        this.emitJobEvent(job, JobStatus.COMPLETED, job.attemptCount)
+        console.log(`✅ Job completed: ${job.type} (${job.id}) in ${Date.now() - startTime}ms`)
+      } else {
+        await this.handleJobFailure(job, result.error || 'Job handler returned failure', result.retry, result.retryDelay)
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`❌ Job failed: ${job.type} (${job.id}):`, error)
+
+      const timedOut = error instanceof JobTimeoutError
+      try {
+        await this.handleJobFailure(job, errorMessage, !timedOut || handlerInfo.options.retryOnTimeout !== false)
+      } catch (storeError) {
+        console.error(`Failed to record failure of job ${job.id}:`, storeError)
+      }
+
+      // The handler can't be stopped, so it keeps its slot until it finishes
+      // rather than running alongside the type's concurrency limit
+      if (timedOut && run) {
+        await run.catch(() => {})
+        console.log(`⌛ Timed-out job ${job.type} (${job.id}) finished after ${Date.now() - startTime}ms`)
+      }
+    }
+  }
+
+  /**
+   * Reject when the handler outlives its timeout; the handler itself keeps running
+   */
+  private runWithTimeout(promise: Promise<JobResult>, timeout?: number): Promise<JobResult> {
+    if (!timeout) return promise
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new JobTimeoutError(timeout))
+      }, timeout)
+
+      promise
+        .then(resolve, reject)
+        .finally(() => clearTimeout(timer))
+    })
+  }
+
+  /**
+   * Handle job failure with retry logic
+   */
+  private async handleJobFailure(job: QueueJob, errorMessage: string, shouldRetry = true, retryDelay = 0): Promise<void> {
+    const newAttemptCount = job.attemptCount + 1
+
+    if (shouldRetry && newAttemptCount < job.maxAttempts) {
+      // Retry with exponential backoff
+      const backoffDelay = retryDelay || Math.min(1000 * Math.pow(2, newAttemptCount), 30000)
+      await this.retryJob(job, newAttemptCount, new Date(Date.now() + backoffDelay), errorMessage)
+      this.emitJobEvent(job, JobStatus.PENDING, newAttemptCount, errorMessage)
+      this.wakeAt(Date.now() + backoffDelay)
+
+      console.log(`🔁 Retrying job ${job.id} in ${backoffDelay}ms (attempt ${newAttemptCount}/${job.maxAttempts})`)
+    } else {
+      await this.failJob(job, errorMessage)
+      this.emitJobEvent(job, JobStatus.FAILED, newAttemptCount, errorMessage)
+    }
+  }
+
+  /**
+   * Stop queue worker gracefully
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) return
+
+    console.log(`🛑 Stopping ${this.backendName} queue worker...`)
+    this.isRunning = false
+
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval)
+    }
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer)
+      this.wakeTimer = undefined
+    }
+
+    // Wait for active tasks to complete
+    if (this.activeTasks.size > 0) {
+      console.log(`⏳ Waiting for ${this.activeTasks.size} active jobs to complete...`)
+      await Promise.all(Array.from(this.activeTasks))
+    }
+
+    await this.onStop()
+    console.log(`✅ ${this.backendName} queue worker stopped`)
+  }
+
+  /**
+   * Setup graceful shutdown
+   */
+  private setupGracefulShutdown(): void {
+    if (this.shutdownHandlersInstalled) return
+    this.shutdownHandlersInstalled = true
+
+    const shutdown = () => {
+      console.log('📥 Received shutdown signal')
+      this.stop().then(() => {
+        process.exit(0)
+      })
+    }
+
+    process.on('SIGINT', shutdown)
+    process.on('SIGTERM', shutdown)
+  }
+}
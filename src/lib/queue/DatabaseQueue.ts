@@ -1,28 +1,32 @@
 /**
- * Database-Backed Queue Implementation (TEMPORARY)
+ * Database-Backed Queue Implementation
  * 
- * TODO: Replace with Redis/SQS implementation in production
- * This implementation uses database with row-level locking for queue operations
- * Migration to dedicated queue should only require changing this file
+ * Stores jobs in the job_queue collection and claims them with atomic
+ * conditional updates. Needs nothing beyond MongoDB, but every worker polls
+ * the collection; use RedisQueue (QUEUE_BACKEND=redis) at higher volume.
+ * Jobs that run out of attempts move to the dead_letter_jobs collection.
  */
 
-import { PrismaClient } from '@prisma/client'
-import { IQueue, QueueJob, JobHandler, JobResult, EnqueueOptions, QueueWorkerOptions, JobStatus, QueueMetrics } from './interfaces'
-import { EventEmitter } from 'events'
+import { DeadLetterJob, Prisma, PrismaClient } from '@prisma/client'
+import { QueueJob, EnqueueOptions, JobStatus, QueueMetrics, QueueFullError, DeadJob, DeadJobFilter, DeadJobPage, ReplayOptions, UserQueueDepth } from './interfaces'
+import { BaseQueue } from './BaseQueue'
+import { DEFAULT_DEAD_JOB_PAGE_SIZE, parseErrorHistory } from './deadLetter'
+import { scheduleFairly } from './fairness'
 
 const prisma = new PrismaClient()
 
-export class DatabaseQueue extends EventEmitter implements IQueue {
-  private handlers = new Map<string, { handler: JobHandler, options: QueueWorkerOptions }>()
-  private isRunning = false
-  private pollingInterval?: NodeJS.Timeout
-  private activeTasks = new Set<Promise<void>>()
-  private maxConcurrency = 10
-  private pollIntervalMs = 2000
-
-  constructor() {
-    super()
-    this.setupGracefulShutdown()
+/**
+ * Stored error history with this attempt's error added
+ */
+function withError(errorHistory: string | null | undefined, attempt: number, error: string): string {
+  const history = parseErrorHistory(errorHistory)
+  history.push({ attempt, error, failedAt: new Date() })
+  return JSON.stringify(history)
+}
+
+export class DatabaseQueue extends BaseQueue {
+  protected get backendName(): string {
+    return 'Database'
   }
 
   /**
@@ -32,10 +36,10 @@ export class DatabaseQueue extends EventEmitter implements IQueue {
   async enqueueJob(type: string, payload: any, options: EnqueueOptions = {}): Promise<string> {
     const {
       priority = 1,
-      delay = 0,
       maxAttempts = 3,
       userId,
-      deduplicationKey
+      deduplicationKey,
+      maxPending
     } = options
 
     // TODO: When migrating to Redis/SQS, replace this database logic
@@ -56,7 +60,17 @@ export class DatabaseQueue extends EventEmitter implements IQueue {
       }
     }
 
-    const availableAt = new Date(Date.now() + delay)
+    if (maxPending !== undefined) {
+      const pending = await prisma.jobQueue.count({
+        where: { type, status: 'PENDING' }
+      })
+
+      if (pending >= maxPending) {
+        throw new QueueFullError(type, pending)
+      }
+    }
+
+    const { fairTag, availableAt } = await scheduleFairly(type, options, Date.now(), (key, now, interval) => this.advanceClock(key, now, interval))
     
     const job = await prisma.jobQueue.create({
       data: {
@@ -65,87 +79,36 @@ export class DatabaseQueue extends EventEmitter implements IQueue {
         userId,
         priority,
         maxAttempts,
-        availableAt,
+        availableAt: new Date(availableAt),
+        fairTag,
         deduplicationKey,
         status: 'PENDING'
       }
     })
 
     console.log(`📥 Enqueued job: ${type} (ID: ${job.id})`)
+    this.emitJobEvent({ id: job.id, type, userId }, JobStatus.PENDING, 0)
+    this.wakeAt(availableAt) // Enqueued by this worker's own process
     return job.id
   }
 
   /**
-   * Register job handler - abstracted interface
-   */
-  registerHandler(type: string, handler: JobHandler, options: QueueWorkerOptions = {}): void {
-    this.handlers.set(type, { handler, options })
-    console.log(`✅ Registered handler for job type: ${type}`)
-  }
-
-  /**
-   * Start queue worker with row-level locking
-   */
-  async start(): Promise<void> {
-    if (this.isRunning) return
-
-    this.isRunning = true
-    console.log('🚀 Starting database queue worker...')
-    
-    // TODO: When migrating to Redis/SQS, replace with queue.subscribe()
-    this.pollingInterval = setInterval(() => {
-      this.processJobs().catch(error => {
-        console.error('Queue processing error:', error)
-      })
-    }, this.pollIntervalMs)
-
-    console.log(`✅ Database queue worker started (polling every ${this.pollIntervalMs}ms)`)
-  }
-
-  /**
-   * Process jobs with concurrency control and row-level locking
+   * Claim available jobs with atomic conditional updates
+   * (MongoDB has no SELECT ... FOR UPDATE SKIP LOCKED)
    */
-  private async processJobs(): Promise<void> {
-    if (this.activeTasks.size >= this.maxConcurrency) {
-      return // At max concurrency
-    }
-
-    try {
-      // ChatGPT requirement: Use row-level locking (SELECT ... FOR UPDATE SKIP LOCKED)
-      // Note: MongoDB doesn't support this, so we'll simulate with atomic updates
-      const jobs = await this.getAvailableJobs(this.maxConcurrency - this.activeTasks.size)
-      
-      for (const job of jobs) {
-        if (this.activeTasks.size >= this.maxConcurrency) break
-        
-        const task = this.processJob(job)
-        this.activeTasks.add(task)
-        
-        // Clean up completed tasks
-        task.finally(() => {
-          this.activeTasks.delete(task)
-        })
-      }
-    } catch (error) {
-      console.error('Error fetching jobs:', error)
-    }
-  }
-
-  /**
-   * Get available jobs with atomic locking simulation
-   * TODO: Replace with proper Redis/SQS job fetching
-   */
-  private async getAvailableJobs(limit: number): Promise<QueueJob[]> {
+  protected async claimJobs(limit: number, freeSlots: Map<string, number>): Promise<QueueJob[]> {
     const now = new Date()
     
     // Find available jobs
     const availableJobs = await prisma.jobQueue.findMany({
       where: {
         status: 'PENDING',
-        availableAt: { lte: now }
+        availableAt: { lte: now },
+        type: { in: Array.from(freeSlots.keys()) }
       },
       orderBy: [
         { priority: 'desc' },
+        { fairTag: 'asc' },
         { createdAt: 'asc' }
       ],
       take: limit
@@ -155,6 +118,9 @@ export class DatabaseQueue extends EventEmitter implements IQueue {
     const claimedJobs: QueueJob[] = []
     
     for (const job of availableJobs) {
+      const slots = freeSlots.get(job.type) || 0
+      if (slots <= 0) continue
+
       try {
         const updated = await prisma.jobQueue.updateMany({
           where: {
@@ -168,6 +134,7 @@ export class DatabaseQueue extends EventEmitter implements IQueue {
         })
         
         if (updated.count > 0) {
+          freeSlots.set(job.type, slots - 1)
           claimedJobs.push({
             id: job.id,
             type: job.type,
@@ -194,68 +161,33 @@ export class DatabaseQueue extends EventEmitter implements IQueue {
   }
 
   /**
-   * Process individual job with error handling and retries
+   * Put a failed job back with its next attempt delayed
    */
-  private async processJob(job: QueueJob): Promise<void> {
-    const startTime = Date.now()
-    console.log(`🔄 Processing job: ${job.type} (${job.id})`)
-
-    const handlerInfo = this.handlers.get(job.type)
-    if (!handlerInfo) {
-      await this.failJob(job.id, `No handler registered for job type: ${job.type}`)
-      return
-    }
+  protected async retryJob(job: QueueJob, attemptCount: number, availableAt: Date, errorMessage: string): Promise<void> {
+    const row = await prisma.jobQueue.findUnique({
+      where: { id: job.id },
+      select: { errorHistory: true }
+    })
 
-    try {
-      const result = await handlerInfo.handler(job.payload, job)
-      
-      if (result.success) {
-        await this.completeJob(job.id, Date.now() - startTime)
-        console.log(`✅ Job completed: ${job.type} (${job.id}) in ${Date.now() - startTime}ms`)
-      } else {
-        await this.handleJobFailure(job, result.error || 'Job handler returned failure', result.retry, result.retryDelay)
+    await prisma.jobQueue.update({
+      where: { id: job.id },
+      data: {
+        status: 'PENDING',
+        attemptCount,
+        availableAt,
+        errorMessage,
+        errorHistory: withError(row?.errorHistory, attemptCount, errorMessage),
+        updatedAt: new Date()
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      await this.handleJobFailure(job, errorMessage, true)
-      console.error(`❌ Job failed: ${job.type} (${job.id}):`, error)
-    }
-  }
-
-  /**
-   * Handle job failure with retry logic
-   */
-  private async handleJobFailure(job: QueueJob, errorMessage: string, shouldRetry = true, retryDelay = 0): Promise<void> {
-    const newAttemptCount = job.attemptCount + 1
-    
-    if (shouldRetry && newAttemptCount < job.maxAttempts) {
-      // Retry with exponential backoff
-      const backoffDelay = retryDelay || Math.min(1000 * Math.pow(2, newAttemptCount), 30000)
-      const availableAt = new Date(Date.now() + backoffDelay)
-      
-      await prisma.jobQueue.update({
-        where: { id: job.id },
-        data: {
-          status: 'PENDING',
-          attemptCount: newAttemptCount,
-          availableAt,
-          errorMessage,
-          updatedAt: new Date()
-        }
-      })
-      
-      console.log(`🔁 Retrying job ${job.id} in ${backoffDelay}ms (attempt ${newAttemptCount}/${job.maxAttempts})`)
-    } else {
-      await this.failJob(job.id, errorMessage)
-    }
+    })
   }
 
   /**
    * Mark job as completed
    */
-  private async completeJob(jobId: string, duration: number): Promise<void> {
+  protected async completeJob(job: QueueJob): Promise<void> {
     await prisma.jobQueue.update({
-      where: { id: jobId },
+      where: { id: job.id },
       data: {
         status: 'COMPLETED',
         processedAt: new Date(),
@@ -265,77 +197,212 @@ export class DatabaseQueue extends EventEmitter implements IQueue {
   }
 
   /**
-   * Mark job as permanently failed
+   * Move a job that won't be retried to the dead-letter store
    */
-  private async failJob(jobId: string, errorMessage: string): Promise<void> {
-    await prisma.jobQueue.update({
-      where: { id: jobId },
-      data: {
-        status: 'FAILED',
-        errorMessage,
-        processedAt: new Date(),
-        updatedAt: new Date()
-      }
-    })
+  protected async failJob(job: QueueJob, errorMessage: string): Promise<void> {
+    const row = await prisma.jobQueue.findUnique({ where: { id: job.id } })
+    if (!row) return
+
+    await prisma.$transaction([
+      prisma.deadLetterJob.create({
+        data: {
+          jobId: row.id,
+          type: row.type,
+          payload: row.payload,
+          userId: row.userId,
+          priority: row.priority,
+          maxAttempts: row.maxAttempts,
+          deduplicationKey: row.deduplicationKey,
+          errorMessage,
+          errorHistory: withError(row.errorHistory, job.attemptCount + 1, errorMessage),
+          enqueuedAt: row.createdAt,
+        }
+      }),
+      prisma.jobQueue.delete({ where: { id: row.id } }),
+    ])
+
+    console.log(`💀 Job ${job.type} (${job.id}) moved to the dead-letter store`)
   }
 
   /**
-   * Stop queue worker gracefully
+   * Get queue metrics
    */
-  async stop(): Promise<void> {
-    if (!this.isRunning) return
-
-    console.log('🛑 Stopping database queue worker...')
-    this.isRunning = false
+  async getMetrics(): Promise<QueueMetrics> {
+    const [counts, deadCounts] = await Promise.all([
+      prisma.jobQueue.groupBy({
+        by: ['type', 'status'],
+        _count: { status: true }
+      }),
+      prisma.deadLetterJob.groupBy({
+        by: ['type'],
+        _count: { type: true }
+      })
+    ])
 
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval)
+    const metrics: QueueMetrics = {
+      pending: 0,
+      processing: 0,
+      completed: 0,
+      failed: 0,
+      workers: this.activeTasks.size,
+      byType: {}
     }
 
-    // Wait for active tasks to complete
-    if (this.activeTasks.size > 0) {
-      console.log(`⏳ Waiting for ${this.activeTasks.size} active jobs to complete...`)
-      await Promise.all(Array.from(this.activeTasks))
-    }
+    // FAILED job_queue rows predate the dead-letter store
+    const rows = counts.map(({ type, status, _count }) => ({ type, status: status as string, count: _count.status }))
+      .concat(deadCounts.map(({ type, _count }) => ({ type, status: 'FAILED', count: _count.type })))
+
+    rows.forEach(({ type, status, count }) => {
+      if (!metrics.byType[type]) metrics.byType[type] = {}
+      metrics.byType[type][status] = (metrics.byType[type][status] || 0) + count
+
+      switch (status) {
+        case 'PENDING':
+          metrics.pending += count
+          break
+        case 'PROCESSING':
+          metrics.processing += count
+          break
+        case 'COMPLETED':
+          metrics.completed += count
+          break
+        case 'FAILED':
+          metrics.failed += count
+          break
+      }
+    })
 
-    console.log('✅ Database queue worker stopped')
+    return metrics
+  }
+
+  async getUserDepth(userId: string): Promise<UserQueueDepth> {
+    const counts = await prisma.jobQueue.groupBy({
+      by: ['status'],
+      where: { userId, status: { in: ['PENDING', 'PROCESSING'] } },
+      _count: { status: true }
+    })
+
+    const count = (status: string) => counts.find(row => row.status === status)?._count.status || 0
+    return { pending: count('PENDING'), processing: count('PROCESSING') }
   }
 
   /**
-   * Get queue metrics
+   * Delete completed jobs older than the cutoff; dead jobs are kept until purged
    */
-  async getMetrics(): Promise<QueueMetrics> {
-    const [pending, processing, completed, failed] = await Promise.all([
-      prisma.jobQueue.count({ where: { status: 'PENDING' } }),
-      prisma.jobQueue.count({ where: { status: 'PROCESSING' } }),
-      prisma.jobQueue.count({ where: { status: 'COMPLETED' } }),
-      prisma.jobQueue.count({ where: { status: 'FAILED' } })
+  async cleanup(olderThanDays: number): Promise<number> {
+    const cutoffDate = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000)
+
+    const deleted = await prisma.jobQueue.deleteMany({
+      where: {
+        status: { in: ['COMPLETED', 'FAILED'] },
+        updatedAt: { lt: cutoffDate }
+      }
+    })
+
+    // Clocks in the past no longer hold anyone back
+    await prisma.queueClock.deleteMany({
+      where: { value: { lt: Date.now() } }
+    })
+
+    console.log(`🧹 Cleaned up ${deleted.count} old queue jobs`)
+    return deleted.count
+  }
+
+  async listDeadJobs(filter: DeadJobFilter = {}): Promise<DeadJobPage> {
+    const where = this.deadJobWhere(filter)
+
+    const [rows, total] = await Promise.all([
+      prisma.deadLetterJob.findMany({
+        where,
+        orderBy: { failedAt: 'desc' },
+        skip: filter.offset || 0,
+        take: filter.limit || DEFAULT_DEAD_JOB_PAGE_SIZE
+      }),
+      prisma.deadLetterJob.count({ where })
     ])
 
-    return {
-      pending,
-      processing,
-      completed,
-      failed,
-      workers: this.activeTasks.size
-    }
+    return { jobs: rows.map(row => this.toDeadJob(row)), total }
+  }
+
+  async getDeadJob(id: string): Promise<DeadJob | null> {
+    const row = await prisma.deadLetterJob.findUnique({ where: { id } })
+    return row ? this.toDeadJob(row) : null
+  }
+
+  async replayDeadJob(id: string, options: ReplayOptions = {}): Promise<string | null> {
+    const dead = await this.getDeadJob(id)
+    if (!dead) return null
+
+    const jobId = await this.enqueueJob(dead.type, options.payload ?? dead.payload, {
+      priority: dead.priority,
+      maxAttempts: dead.maxAttempts,
+      userId: dead.userId,
+      deduplicationKey: dead.deduplicationKey
+    })
+    await prisma.deadLetterJob.delete({ where: { id } })
+
+    console.log(`♻️ Replayed dead job ${dead.type} (${id}) as ${jobId}`)
+    return jobId
+  }
+
+  async purgeDeadJobs(filter: DeadJobFilter = {}): Promise<number> {
+    const deleted = await prisma.deadLetterJob.deleteMany({ where: this.deadJobWhere(filter) })
+
+    console.log(`🧹 Purged ${deleted.count} dead jobs`)
+    return deleted.count
   }
 
   /**
-   * Setup graceful shutdown
+   * Advance a fair-share or rate-limit clock with compare-and-set, retrying
+   * when another process moved it first
    */
-  private setupGracefulShutdown(): void {
-    const shutdown = () => {
-      console.log('📥 Received shutdown signal')
-      this.stop().then(() => {
-        process.exit(0)
+  private async advanceClock(key: string, now: number, interval: number): Promise<number> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const clock = await prisma.queueClock.findUnique({ where: { key } })
+      const value = Math.max(now, clock?.value || 0) + interval
+
+      if (!clock) {
+        try {
+          await prisma.queueClock.create({ data: { key, value } })
+          return value
+        } catch (error) {
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') continue
+          throw error
+        }
+      }
+
+      const updated = await prisma.queueClock.updateMany({
+        where: { key, value: clock.value },
+        data: { value }
       })
+      if (updated.count > 0) return value
     }
 
-    process.on('SIGINT', shutdown)
-    process.on('SIGTERM', shutdown)
+    throw new Error(`Queue clock ${key} is too contended to advance`)
+  }
+
+  private deadJobWhere(filter: DeadJobFilter): Prisma.DeadLetterJobWhereInput {
+    return {
+      ...(filter.ids && { id: { in: filter.ids } }),
+      ...(filter.type && { type: filter.type }),
+      ...(filter.error && { errorMessage: { contains: filter.error, mode: 'insensitive' } }),
+      ...(filter.failedBefore && { failedAt: { lt: filter.failedBefore } })
+    }
   }
-}
 
-// Export singleton instance
-export const queue = new DatabaseQueue()
\ No newline at end of file
+  private toDeadJob(row: DeadLetterJob): DeadJob {
+    return {
+      id: row.id,
+      type: row.type,
+      payload: JSON.parse(row.payload),
+      userId: row.userId || undefined,
+      priority: row.priority,
+      maxAttempts: row.maxAttempts,
+      deduplicationKey: row.deduplicationKey || undefined,
+      errorMessage: row.errorMessage,
+      attempts: parseErrorHistory(row.errorHistory),
+      enqueuedAt: row.enqueuedAt,
+      failedAt: row.failedAt
+    }
+  }
+}
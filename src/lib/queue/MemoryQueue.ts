@@ -0,0 +1,274 @@
+/**
+ * In-Memory Queue Implementation
+ *
+ * Keeps jobs in the current process only, so they are lost on restart and
+ * can't be shared between a web server and a worker. Meant for local runs
+ * without MongoDB or Redis (QUEUE_BACKEND=memory) and for checking the
+ * queue's behaviour in isolation.
+ */
+
+import { QueueJob, EnqueueOptions, JobStatus, QueueMetrics, QueueFullError, DeadJob, DeadJobFilter, DeadJobPage, JobAttemptError, ReplayOptions, UserQueueDepth } from './interfaces'
+import { BaseQueue } from './BaseQueue'
+import { matchesDeadJobFilter, pageDeadJobs } from './deadLetter'
+import { scheduleFairly } from './fairness'
+
+interface StoredJob extends QueueJob {
+  deduplicationKey?: string
+  errorHistory: JobAttemptError[]
+  fairTag: number
+}
+
+export class MemoryQueue extends BaseQueue {
+  private jobs = new Map<string, StoredJob>()
+  private deadJobs = new Map<string, DeadJob>()
+  private clocks = new Map<string, number>()
+  private nextId = 1
+
+  protected get backendName(): string {
+    return 'In-memory'
+  }
+
+  async enqueueJob(type: string, payload: any, options: EnqueueOptions = {}): Promise<string> {
+    const {
+      priority = 1,
+      maxAttempts = 3,
+      userId,
+      deduplicationKey,
+      maxPending
+    } = options
+
+    if (deduplicationKey) {
+      const existing = this.findJob(job =>
+        job.deduplicationKey === deduplicationKey &&
+        (job.status === JobStatus.PENDING || job.status === JobStatus.PROCESSING)
+      )
+
+      if (existing) {
+        console.log(`Duplicate job prevented: ${deduplicationKey}`)
+        return existing.id
+      }
+    }
+
+    if (maxPending !== undefined) {
+      const pending = this.countJobs(job => job.type === type && job.status === JobStatus.PENDING)
+      if (pending >= maxPending) {
+        throw new QueueFullError(type, pending)
+      }
+    }
+
+    const now = new Date()
+    const { fairTag, availableAt } = await scheduleFairly(type, options, now.getTime(), async (key, at, interval) => {
+      const value = Math.max(at, this.clocks.get(key) || 0) + interval
+      this.clocks.set(key, value)
+      return value
+    })
+
+    const job: StoredJob = {
+      id: `mem_${this.nextId++}`,
+      type,
+      // Handlers get their own copy, as they would from any other backend
+      payload: JSON.parse(JSON.stringify(payload ?? null)),
+      userId,
+      status: JobStatus.PENDING,
+      priority,
+      attemptCount: 0,
+      maxAttempts,
+      availableAt: new Date(availableAt),
+      createdAt: now,
+      updatedAt: now,
+      deduplicationKey,
+      errorHistory: [],
+      fairTag,
+    }
+    this.jobs.set(job.id, job)
+
+    console.log(`📥 Enqueued job: ${type} (ID: ${job.id})`)
+    this.emitJobEvent(job, JobStatus.PENDING, 0)
+    this.wakeAt(job.availableAt.getTime())
+    return job.id
+  }
+
+  protected async claimJobs(limit: number, freeSlots: Map<string, number>): Promise<QueueJob[]> {
+    const now = Date.now()
+    const available = Array.from(this.jobs.values())
+      .filter(job => job.status === JobStatus.PENDING && freeSlots.has(job.type))
+      .sort((a, b) => b.priority - a.priority || a.fairTag - b.fairTag || a.createdAt.getTime() - b.createdAt.getTime())
+
+    const claimed: QueueJob[] = []
+    let nextAvailableAt = Infinity
+
+    for (const job of available) {
+      if (job.availableAt.getTime() > now) {
+        nextAvailableAt = Math.min(nextAvailableAt, job.availableAt.getTime())
+        continue
+      }
+
+      const slots = freeSlots.get(job.type) || 0
+      if (slots <= 0 || claimed.length >= limit) continue
+
+      freeSlots.set(job.type, slots - 1)
+      job.status = JobStatus.PROCESSING
+      job.updatedAt = new Date()
+      claimed.push({ ...job })
+    }
+
+    if (nextAvailableAt !== Infinity) this.wakeAt(nextAvailableAt)
+    return claimed
+  }
+
+  protected async completeJob(job: QueueJob): Promise<void> {
+    this.updateJob(job.id, {
+      status: JobStatus.COMPLETED,
+      processedAt: new Date(),
+    })
+  }
+
+  protected async retryJob(job: QueueJob, attemptCount: number, availableAt: Date, errorMessage: string): Promise<void> {
+    this.jobs.get(job.id)?.errorHistory.push({ attempt: attemptCount, error: errorMessage, failedAt: new Date() })
+    this.updateJob(job.id, {
+      status: JobStatus.PENDING,
+      attemptCount,
+      availableAt,
+      errorMessage,
+    })
+  }
+
+  protected async failJob(job: QueueJob, errorMessage: string): Promise<void> {
+    const stored = this.jobs.get(job.id)
+    if (!stored) return
+
+    const failedAt = new Date()
+    this.deadJobs.set(stored.id, {
+      id: stored.id,
+      type: stored.type,
+      payload: stored.payload,
+      userId: stored.userId,
+      priority: stored.priority,
+      maxAttempts: stored.maxAttempts,
+      deduplicationKey: stored.deduplicationKey,
+      errorMessage,
+      attempts: stored.errorHistory.concat({ attempt: job.attemptCount + 1, error: errorMessage, failedAt }),
+      enqueuedAt: stored.createdAt,
+      failedAt,
+    })
+    this.jobs.delete(stored.id)
+
+    console.log(`💀 Job ${job.type} (${job.id}) moved to the dead-letter store`)
+  }
+
+  async getMetrics(): Promise<QueueMetrics> {
+    const metrics: QueueMetrics = {
+      pending: 0,
+      processing: 0,
+      completed: 0,
+      failed: 0,
+      workers: this.activeTasks.size,
+      byType: {}
+    }
+
+    this.jobs.forEach(({ type, status }) => {
+      if (!metrics.byType[type]) metrics.byType[type] = {}
+      metrics.byType[type][status] = (metrics.byType[type][status] || 0) + 1
+
+      switch (status) {
+        case JobStatus.PENDING:
+          metrics.pending++
+          break
+        case JobStatus.PROCESSING:
+          metrics.processing++
+          break
+        case JobStatus.COMPLETED:
+          metrics.completed++
+          break
+        case JobStatus.FAILED:
+          metrics.failed++
+          break
+      }
+    })
+
+    this.deadJobs.forEach(({ type }) => {
+      if (!metrics.byType[type]) metrics.byType[type] = {}
+      metrics.byType[type][JobStatus.FAILED] = (metrics.byType[type][JobStatus.FAILED] || 0) + 1
+      metrics.failed++
+    })
+
+    return metrics
+  }
+
+  async getUserDepth(userId: string): Promise<UserQueueDepth> {
+    return {
+      pending: this.countJobs(job => job.userId === userId && job.status === JobStatus.PENDING),
+      processing: this.countJobs(job => job.userId === userId && job.status === JobStatus.PROCESSING),
+    }
+  }
+
+  async cleanup(olderThanDays: number): Promise<number> {
+    const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000
+    let deleted = 0
+
+    this.jobs.forEach((job, id) => {
+      if (job.status === JobStatus.COMPLETED && job.updatedAt.getTime() < cutoff) {
+        this.jobs.delete(id)
+        deleted++
+      }
+    })
+
+    // Clocks in the past no longer hold anyone back
+    this.clocks.forEach((value, key) => {
+      if (value < Date.now()) this.clocks.delete(key)
+    })
+
+    console.log(`🧹 Cleaned up ${deleted} old queue jobs`)
+    return deleted
+  }
+
+  async listDeadJobs(filter: DeadJobFilter = {}): Promise<DeadJobPage> {
+    return pageDeadJobs(Array.from(this.deadJobs.values()), filter)
+  }
+
+  async getDeadJob(id: string): Promise<DeadJob | null> {
+    return this.deadJobs.get(id) || null
+  }
+
+  async replayDeadJob(id: string, options: ReplayOptions = {}): Promise<string | null> {
+    const dead = this.deadJobs.get(id)
+    if (!dead) return null
+
+    const jobId = await this.enqueueJob(dead.type, options.payload ?? dead.payload, {
+      priority: dead.priority,
+      maxAttempts: dead.maxAttempts,
+      userId: dead.userId,
+      deduplicationKey: dead.deduplicationKey,
+    })
+    this.deadJobs.delete(id)
+
+    console.log(`♻️ Replayed dead job ${dead.type} (${id}) as ${jobId}`)
+    return jobId
+  }
+
+  async purgeDeadJobs(filter: DeadJobFilter = {}): Promise<number> {
+    let deleted = 0
+    this.deadJobs.forEach((job, id) => {
+      if (matchesDeadJobFilter(job, filter)) {
+        this.deadJobs.delete(id)
+        deleted++
+      }
+    })
+
+    console.log(`🧹 Purged ${deleted} dead jobs`)
+    return deleted
+  }
+
+  private findJob(predicate: (job: StoredJob) => boolean): StoredJob | undefined {
+    return Array.from(this.jobs.values()).find(predicate)
+  }
+
+  private countJobs(predicate: (job: StoredJob) => boolean): number {
+    return Array.from(this.jobs.values()).filter(predicate).length
+  }
+
+  private updateJob(id: string, changes: Partial<StoredJob>): void {
+    const job = this.jobs.get(id)
+    if (job) Object.assign(job, changes, { updatedAt: new Date() })
+  }
+}
@@ -2,64 +2,97 @@
  * Queue Manager - Main Interface for Business Logic
  * 
  * This provides a clean abstraction that business logic uses.
- * Implementation can be swapped (Database → Redis → SQS) without changing business code.
- * 
- * TODO: Swap DatabaseQueue for RedisQueue/SQSQueue in production
+ * The backend (database, Redis or in-memory) is picked by QUEUE_BACKEND
+ * without changing business code.
  */
 
-import { queue } from './DatabaseQueue' // TODO: Change this import for migration
-import { handleAnalyzeJobMatch, handleUserJobScan } from './handlers'
-import { IQueue, EnqueueOptions, QueueMetrics } from './interfaces'
+import { createQueue } from './createQueue'
+import { JOB_HANDLERS } from './handlers'
+import { IQueue, EnqueueOptions, QueueMetrics, QueueJobEvent, UserQueueDepth, DeadJob, DeadJobFilter, DeadJobPage, ReplayOptions } from './interfaces'
+import { JOB_CATALOG, JobPayloads, JobType, isJobType } from './jobTypes'
+import { getProcessingTier, scaleRateLimit } from './processingTier'
+import { JobScheduler } from './scheduler'
+import { ScheduleSummary, listSchedules } from './schedules'
+import { publishUserEvent } from '../userEvents/createEventBus'
+import type { SubmitApplicationPayload } from '../applicationSubmission'
+
+// Submissions waiting for a browser before new ones are turned away
+const MAX_PENDING_SUBMISSIONS = Number(process.env.SUBMIT_APPLICATION_MAX_PENDING) || 200
 
 class QueueManager {
-  private queue: IQueue = queue // TODO: Inject queue implementation here
+  private queue: IQueue = createQueue()
+  private scheduler = new JobScheduler(this.queue)
+  private initialized = false
+
+  constructor() {
+    this.queue.on('job', event => this.streamJobUpdate(event))
+  }
 
   /**
    * Initialize queue with all handlers
    */
   async initialize(): Promise<void> {
+    if (this.initialized) return
     console.log('🔧 Initializing Queue Manager...')
     
-    // Register all job handlers
-    this.queue.registerHandler('analyze_job_match', handleAnalyzeJobMatch, {
-      concurrency: 5, // Process 5 AI analyses concurrently
-      pollInterval: 2000
+    // Register every catalog job with its handler and worker limits
+    Object.keys(JOB_HANDLERS).forEach(key => {
+      const type = key as JobType
+      const { concurrency, group, timeout, retryOnTimeout } = JOB_CATALOG[type]
+      this.queue.registerHandler(type, JOB_HANDLERS[type], {
+        concurrency,
+        group,
+        timeout,
+        retryOnTimeout,
+      })
     })
-
-    this.queue.registerHandler('user_job_scan', handleUserJobScan, {
-      concurrency: 2, // Limit concurrent job scans
-      pollInterval: 1000
-    })
-
-    // TODO: Register other handlers as needed
+    this.initialized = true
     
     console.log('✅ Queue handlers registered')
   }
 
   /**
-   * Start queue processing
+   * Start queue processing and recurring schedules
    */
   async start(): Promise<void> {
     await this.initialize()
     await this.queue.start()
+    await this.scheduler.start()
   }
 
   /**
    * Stop queue processing
    */
   async stop(): Promise<void> {
+    await this.scheduler.stop()
     await this.queue.stop()
   }
 
+  /**
+   * Enqueue any catalog job with its default priority and attempts. A user's
+   * job gets the fair share and rate limit of their plan's processing tier.
+   */
+  async enqueue<T extends JobType>(type: T, payload: JobPayloads[T], options: EnqueueOptions = {}): Promise<string> {
+    const { priority, maxAttempts, rateLimit } = JOB_CATALOG[type]
+    const userId = options.userId ?? (payload as { userId?: string }).userId
+    const tier = userId ? await getProcessingTier(userId) : undefined
+
+    return this.queue.enqueueJob(type, payload, {
+      priority,
+      maxAttempts,
+      userId,
+      weight: tier?.weight,
+      rateLimit: rateLimit && tier ? scaleRateLimit(rateLimit, tier) : undefined,
+      ...options,
+    })
+  }
+
   /**
    * Business Logic Interface: Enqueue AI Analysis
    * Called from job scanning when jobs need AI processing
    */
   async enqueueAIAnalysis(jobId: string, userId: string): Promise<string> {
-    return this.queue.enqueueJob('analyze_job_match', { jobId, userId }, {
-      priority: 8, // High priority for AI analysis
-      maxAttempts: 3,
-      userId,
+    return this.enqueue(JobType.ANALYZE_JOB_MATCH, { jobId, userId }, {
       deduplicationKey: `ai_analysis_${jobId}` // Prevent duplicate AI analysis
     })
   }
@@ -69,20 +102,30 @@ class QueueManager {
    * Called when user triggers manual scan
    */
   async enqueueUserJobScan(userId: string): Promise<string> {
-    return this.queue.enqueueJob('user_job_scan', { userId }, {
-      priority: 10, // Highest priority for user-initiated scans
-      maxAttempts: 2,
-      userId,
+    return this.enqueue(JobType.USER_JOB_SCAN, { userId, source: 'manual' }, {
       deduplicationKey: `user_scan_${userId}_${Date.now()}` // Allow multiple user scans but prevent rapid duplicates
     })
   }
 
+  /**
+   * Business Logic Interface: Enqueue Application Submission
+   * Called for auto-applies and approved reviews; throws QueueFullError
+   * when the submission backlog is full
+   */
+  async enqueueApplicationSubmission(payload: SubmitApplicationPayload): Promise<string> {
+    return this.enqueue(JobType.SUBMIT_APPLICATION, payload, {
+      priority: payload.reviewId ? 9 : JOB_CATALOG[JobType.SUBMIT_APPLICATION].priority, // User-approved applications go ahead of automatic ones
+      deduplicationKey: `${payload.dryRun ? 'preview' : 'submit'}_${payload.userId}_${payload.jobId}`,
+      maxPending: MAX_PENDING_SUBMISSIONS
+    })
+  }
+
   /**
    * Business Logic Interface: Enqueue with Delay
    * For scheduled or delayed processing
    */
-  async enqueueWithDelay(type: string, payload: any, delayMs: number, options: EnqueueOptions = {}): Promise<string> {
-    return this.queue.enqueueJob(type, payload, {
+  async enqueueWithDelay<T extends JobType>(type: T, payload: JobPayloads[T], delayMs: number, options: EnqueueOptions = {}): Promise<string> {
+    return this.enqueue(type, payload, {
       ...options,
       delay: delayMs
     })
@@ -95,6 +138,87 @@ class QueueManager {
     return this.queue.getMetrics()
   }
 
+  /**
+   * How many of the user's jobs are waiting and running
+   */
+  async getUserDepth(userId: string): Promise<UserQueueDepth> {
+    return this.queue.getUserDepth(userId)
+  }
+
+  /**
+   * Recurring schedules: the system ones, plus the user's own when a user ID is passed
+   */
+  async getSchedules(userId?: string): Promise<ScheduleSummary[]> {
+    return listSchedules(userId)
+  }
+
+  /**
+   * Enqueue whatever schedules are due without starting the worker's scheduler.
+   * Returns 0 when a running scheduler elsewhere holds the lease.
+   */
+  async runDueSchedules(): Promise<number> {
+    return this.scheduler.runOnce()
+  }
+
+  /**
+   * Delete finished jobs older than the given number of days
+   */
+  async cleanup(olderThanDays = 7): Promise<number> {
+    return this.queue.cleanup(olderThanDays)
+  }
+
+  /**
+   * Dead-letter store: jobs that used up their attempts
+   */
+  async listDeadJobs(filter: DeadJobFilter = {}): Promise<DeadJobPage> {
+    return this.queue.listDeadJobs(filter)
+  }
+
+  async getDeadJob(id: string): Promise<DeadJob | null> {
+    return this.queue.getDeadJob(id)
+  }
+
+  /**
+   * Re-enqueue one dead job, optionally with an edited payload.
+   * Returns the new job ID, or null when there's no such dead job.
+   */
+  async replayDeadJob(id: string, options: ReplayOptions = {}): Promise<string | null> {
+    return this.queue.replayDeadJob(id, options)
+  }
+
+  /**
+   * Re-enqueue every dead job matching the filter (up to its limit)
+   */
+  async replayDeadJobs(filter: DeadJobFilter): Promise<{ id: string; jobId: string }[]> {
+    const { jobs } = await this.queue.listDeadJobs(filter)
+    const replayed: { id: string; jobId: string }[] = []
+
+    for (const dead of jobs) {
+      const jobId = await this.queue.replayDeadJob(dead.id)
+      if (jobId) replayed.push({ id: dead.id, jobId })
+    }
+
+    return replayed
+  }
+
+  async purgeDeadJobs(filter: DeadJobFilter = {}): Promise<number> {
+    return this.queue.purgeDeadJobs(filter)
+  }
+
+  /**
+   * Forward state changes of the user's catalog jobs marked streamUpdates to their dashboard
+   */
+  private streamJobUpdate(event: QueueJobEvent): void {
+    if (!event.userId || !isJobType(event.type) || !JOB_CATALOG[event.type].streamUpdates) return
+
+    publishUserEvent(event.userId, 'job.updated', {
+      id: event.id,
+      type: event.type,
+      status: event.status,
+      attemptCount: event.attemptCount,
+    })
+  }
+
   /**
    * Health check for queue system
    */
@@ -109,7 +233,7 @@ class QueueManager {
     } catch (error) {
       return {
         healthy: false,
-        metrics: { pending: 0, processing: 0, completed: 0, failed: 0, workers: 0 }
+        metrics: { pending: 0, processing: 0, completed: 0, failed: 0, workers: 0, byType: {} }
       }
     }
   }
@@ -119,4 +243,7 @@ class QueueManager {
 export const queueManager = new QueueManager()
 
 // Export types for business logic
-export type { QueueMetrics } from './interfaces'
\ No newline at end of file
+export type { QueueMetrics, UserQueueDepth, DeadJob, DeadJobFilter } from './interfaces'
+export type { ScheduleSummary } from './schedules'
+export { QueueFullError } from './interfaces'
+export { JobType } from './jobTypes'
\ No newline at end of file
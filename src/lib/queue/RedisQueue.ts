@@ -0,0 +1,532 @@
+/**
+ * Redis-Backed Queue Implementation
+ *
+ * Each job is a hash; per type it sits in one sorted set for its state:
+ * ready (scored by priority, then fair-share tag), delayed (by when it becomes
+ * available), processing (by when its claim expires), and completed or
+ * dead (by when it finished). Each failed attempt's error is pushed onto a
+ * list next to the hash, and a dead job keeps both until it's replayed or
+ * purged. Per-user fair-share and rate-limit clocks are plain keys that
+ * expire once they're in the past, and a hash per user counts their pending
+ * and processing jobs. Claims, promotions of due delayed jobs
+ * and state changes run as Lua scripts, so they're atomic across workers.
+ *
+ * Enqueues publish on an events channel that idle workers subscribe to, so
+ * they pick up new work straight away instead of polling for it. A claim
+ * that outlives its visibility timeout (the worker died mid-job) goes back
+ * to ready and counts as a failed attempt.
+ */
+
+import Redis from 'ioredis'
+import { QueueJob, EnqueueOptions, JobStatus, QueueMetrics, QueueFullError, DeadJob, DeadJobFilter, DeadJobPage, ReplayOptions, UserQueueDepth } from './interfaces'
+import { BaseQueue } from './BaseQueue'
+import { matchesDeadJobFilter, pageDeadJobs, parseErrorHistory } from './deadLetter'
+import { fairShareInterval, rateLimitInterval } from './fairness'
+
+export interface RedisQueueOptions {
+  url: string
+  prefix?: string // Namespace for every key, e.g. to share one Redis between environments
+}
+
+// Ready set score: higher priority first, then lowest fair-share tag
+const PRIORITY_WEIGHT = 1e13
+// Clock keys outlive the time they hold by this long
+const CLOCK_TTL_GRACE_MS = 60000
+// Claims outlive the handler timeout by this long before they count as abandoned
+const VISIBILITY_GRACE_MS = 60000
+const DEFAULT_VISIBILITY_TIMEOUT_MS = 10 * 60 * 1000
+// Sorted sets a type's jobs move through; ready and delayed both count as pending
+const STATES = ['ready', 'delayed', 'processing', 'completed', 'dead']
+
+// Shared by the scripts below: move a job between the user's depth counters
+const DEPTH_FUNCTION = `
+local function moveDepth(p, userId, from, to)
+  if not userId or userId == '' then return end
+  if from then redis.call('HINCRBY', p .. 'depth:' .. userId, from, -1) end
+  if to then redis.call('HINCRBY', p .. 'depth:' .. userId, to, 1) end
+end
+`
+
+// ARGV: prefix, type, payload, userId, priority, maxAttempts, availableAt, now, dedup key,
+// maxPending (-1 for none), priority score, fair-share interval, rate interval (0 for none), burst, clock TTL grace
+// Advances the user's clocks (see fairness.ts) only once the job is accepted
+const ENQUEUE_SCRIPT = DEPTH_FUNCTION + `
+local p, jobType, dedup = ARGV[1], ARGV[2], ARGV[9]
+if dedup ~= '' then
+  local existing = redis.call('GET', p .. 'dedup:' .. dedup)
+  if existing then return {'duplicate', existing} end
+end
+local maxPending = tonumber(ARGV[10])
+if maxPending >= 0 then
+  local pending = redis.call('ZCARD', p .. 'ready:' .. jobType) + redis.call('ZCARD', p .. 'delayed:' .. jobType)
+  if pending >= maxPending then return {'full', tostring(pending)} end
+end
+local now, availableAt, grace = tonumber(ARGV[8]), tonumber(ARGV[7]), tonumber(ARGV[15])
+local userId, fairTag = ARGV[4], now
+if userId ~= '' then
+  local fairKey = p .. 'clock:fair:' .. jobType .. ':' .. userId
+  fairTag = math.max(now, tonumber(redis.call('GET', fairKey) or 0)) + tonumber(ARGV[12])
+  redis.call('SET', fairKey, fairTag, 'PX', fairTag - now + grace)
+
+  local rateInterval = tonumber(ARGV[13])
+  if rateInterval > 0 then
+    local rateKey = p .. 'clock:rate:' .. jobType .. ':' .. userId
+    local arrival = math.max(now, tonumber(redis.call('GET', rateKey) or 0)) + rateInterval
+    redis.call('SET', rateKey, arrival, 'PX', arrival - now + grace)
+    availableAt = math.max(availableAt, arrival - tonumber(ARGV[14]) * rateInterval)
+  end
+end
+local readyScore = tonumber(ARGV[11]) + fairTag
+
+local id = tostring(redis.call('INCR', p .. 'seq'))
+redis.call('HSET', p .. 'job:' .. id,
+  'type', jobType, 'payload', ARGV[3], 'userId', userId, 'status', 'PENDING',
+  'priority', ARGV[5], 'attemptCount', '0', 'maxAttempts', ARGV[6],
+  'availableAt', availableAt, 'createdAt', ARGV[8], 'updatedAt', ARGV[8],
+  'readyScore', readyScore, 'deduplicationKey', dedup)
+redis.call('SADD', p .. 'types', jobType)
+if dedup ~= '' then redis.call('SET', p .. 'dedup:' .. dedup, id) end
+if availableAt > now then
+  redis.call('ZADD', p .. 'delayed:' .. jobType, availableAt, id)
+else
+  redis.call('ZADD', p .. 'ready:' .. jobType, readyScore, id)
+end
+moveDepth(p, userId, nil, 'pending')
+redis.call('PUBLISH', p .. 'events', jobType)
+return {'enqueued', id}
+`
+
+// ARGV: prefix, now, limit, then (type, free slots, visibility timeout ms) per type
+// Returns the next delayed job's availableAt (or -1) followed by the claimed ids
+const CLAIM_SCRIPT = DEPTH_FUNCTION + `
+local p, now, limit = ARGV[1], tonumber(ARGV[2]), tonumber(ARGV[3])
+local types, slots, visibility = {}, {}, {}
+for i = 4, #ARGV, 3 do
+  table.insert(types, ARGV[i])
+  slots[ARGV[i]] = tonumber(ARGV[i + 1])
+  visibility[ARGV[i]] = tonumber(ARGV[i + 2])
+end
+
+for _, t in ipairs(types) do
+  for _, id in ipairs(redis.call('ZRANGEBYSCORE', p .. 'delayed:' .. t, '-inf', now, 'LIMIT', 0, 500)) do
+    redis.call('ZREM', p .. 'delayed:' .. t, id)
+    redis.call('ZADD', p .. 'ready:' .. t, redis.call('HGET', p .. 'job:' .. id, 'readyScore'), id)
+  end
+
+  for _, id in ipairs(redis.call('ZRANGEBYSCORE', p .. 'processing:' .. t, '-inf', now, 'LIMIT', 0, 500)) do
+    local key = p .. 'job:' .. id
+    local attempts = tonumber(redis.call('HGET', key, 'attemptCount')) + 1
+    redis.call('ZREM', p .. 'processing:' .. t, id)
+    redis.call('HSET', key, 'attemptCount', attempts, 'updatedAt', ARGV[2],
+      'errorMessage', 'Claim expired before the job finished')
+    redis.call('RPUSH', p .. 'errors:' .. id,
+      '{"attempt":' .. attempts .. ',"error":"Claim expired before the job finished","failedAt":' .. ARGV[2] .. '}')
+    if attempts < tonumber(redis.call('HGET', key, 'maxAttempts')) then
+      redis.call('HSET', key, 'status', 'PENDING')
+      redis.call('ZADD', p .. 'ready:' .. t, redis.call('HGET', key, 'readyScore'), id)
+      moveDepth(p, redis.call('HGET', key, 'userId'), 'processing', 'pending')
+    else
+      redis.call('HSET', key, 'status', 'FAILED', 'processedAt', ARGV[2])
+      moveDepth(p, redis.call('HGET', key, 'userId'), 'processing', nil)
+      redis.call('ZADD', p .. 'dead:' .. t, now, id)
+      local dedup = redis.call('HGET', key, 'deduplicationKey')
+      if dedup and dedup ~= '' and redis.call('GET', p .. 'dedup:' .. dedup) == id then
+        redis.call('DEL', p .. 'dedup:' .. dedup)
+      end
+    end
+  end
+end
+
+local claimed = {}
+while #claimed < limit do
+  local bestType, bestId, bestScore = nil, nil, nil
+  for _, t in ipairs(types) do
+    if slots[t] > 0 then
+      local head = redis.call('ZRANGE', p .. 'ready:' .. t, 0, 0, 'WITHSCORES')
+      if head[1] and (bestScore == nil or tonumber(head[2]) < bestScore) then
+        bestType, bestId, bestScore = t, head[1], tonumber(head[2])
+      end
+    end
+  end
+  if not bestId then break end
+
+  redis.call('ZREM', p .. 'ready:' .. bestType, bestId)
+  redis.call('ZADD', p .. 'processing:' .. bestType, now + visibility[bestType], bestId)
+  redis.call('HSET', p .. 'job:' .. bestId, 'status', 'PROCESSING', 'updatedAt', ARGV[2])
+  moveDepth(p, redis.call('HGET', p .. 'job:' .. bestId, 'userId'), 'pending', 'processing')
+  slots[bestType] = slots[bestType] - 1
+  table.insert(claimed, bestId)
+end
+
+local nextAt = -1
+for _, t in ipairs(types) do
+  local head = redis.call('ZRANGE', p .. 'delayed:' .. t, 0, 0, 'WITHSCORES')
+  if head[2] and (nextAt < 0 or tonumber(head[2]) < nextAt) then nextAt = tonumber(head[2]) end
+end
+
+return {tostring(nextAt), unpack(claimed)}
+`
+
+// ARGV: prefix, id, type, now, status, attemptCount, availableAt, errorMessage, error history entry
+// A claim that already expired and went back to ready is left alone
+const FINISH_SCRIPT = DEPTH_FUNCTION + `
+local p, id, jobType, now, status = ARGV[1], ARGV[2], ARGV[3], ARGV[4], ARGV[5]
+local key = p .. 'job:' .. id
+if redis.call('ZREM', p .. 'processing:' .. jobType, id) == 0 then return 0 end
+moveDepth(p, redis.call('HGET', key, 'userId'), 'processing', status == 'PENDING' and 'pending' or nil)
+
+redis.call('HSET', key, 'status', status, 'updatedAt', now)
+if ARGV[8] ~= '' then redis.call('HSET', key, 'errorMessage', ARGV[8]) end
+if ARGV[9] ~= '' then redis.call('RPUSH', p .. 'errors:' .. id, ARGV[9]) end
+
+if status == 'PENDING' then
+  redis.call('HSET', key, 'attemptCount', ARGV[6], 'availableAt', ARGV[7])
+  redis.call('ZADD', p .. 'delayed:' .. jobType, ARGV[7], id)
+  redis.call('PUBLISH', p .. 'events', jobType)
+  return 1
+end
+
+redis.call('HSET', key, 'processedAt', now)
+redis.call('ZADD', p .. (status == 'COMPLETED' and 'completed:' or 'dead:') .. jobType, now, id)
+local dedup = redis.call('HGET', key, 'deduplicationKey')
+if dedup and dedup ~= '' and redis.call('GET', p .. 'dedup:' .. dedup) == id then
+  redis.call('DEL', p .. 'dedup:' .. dedup)
+end
+return 1
+`
+
+export class RedisQueue extends BaseQueue {
+  private redis: Redis
+  private subscriber?: Redis
+  private prefix: string
+
+  constructor(options: RedisQueueOptions) {
+    super()
+    this.prefix = options.prefix ?? 'queue:'
+    this.redis = new Redis(options.url, { lazyConnect: true })
+    this.redis.on('error', error => {
+      console.error('Redis queue connection error:', error)
+    })
+
+    // Enqueues wake the worker; polling only covers missed events and expired claims
+    this.pollIntervalMs = 15000
+  }
+
+  protected get backendName(): string {
+    return 'Redis'
+  }
+
+  async enqueueJob(type: string, payload: any, options: EnqueueOptions = {}): Promise<string> {
+    const {
+      priority = 1,
+      delay = 0,
+      maxAttempts = 3,
+      userId,
+      deduplicationKey,
+      maxPending,
+      weight,
+      rateLimit
+    } = options
+
+    const now = Date.now()
+    const [outcome, value] = await this.redis.eval(
+      ENQUEUE_SCRIPT, 0,
+      this.prefix,
+      type,
+      JSON.stringify(payload ?? null),
+      userId || '',
+      priority,
+      maxAttempts,
+      now + delay,
+      now,
+      deduplicationKey || '',
+      maxPending ?? -1,
+      -priority * PRIORITY_WEIGHT,
+      fairShareInterval(weight),
+      rateLimit ? rateLimitInterval(rateLimit) : 0,
+      rateLimit?.burst ?? 0,
+      CLOCK_TTL_GRACE_MS
+    ) as [string, string]
+
+    if (outcome === 'duplicate') {
+      console.log(`Duplicate job prevented: ${deduplicationKey}`)
+      return value
+    }
+
+    if (outcome === 'full') {
+      throw new QueueFullError(type, Number(value))
+    }
+
+    console.log(`📥 Enqueued job: ${type} (ID: ${value})`)
+    this.emitJobEvent({ id: value, type, userId }, JobStatus.PENDING, 0)
+    return value
+  }
+
+  protected async onStart(): Promise<void> {
+    this.subscriber = this.redis.duplicate()
+    this.subscriber.on('message', () => this.wake())
+    await this.subscriber.subscribe(`${this.prefix}events`)
+  }
+
+  protected async onStop(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.quit()
+      this.subscriber = undefined
+    }
+  }
+
+  protected async claimJobs(limit: number, freeSlots: Map<string, number>): Promise<QueueJob[]> {
+    const args: (string | number)[] = [this.prefix, Date.now(), limit]
+    freeSlots.forEach((slots, type) => {
+      const options = this.handlers.get(type)?.options || {}
+      const visibilityTimeout = options.visibilityTimeout ??
+        (options.timeout ? options.timeout + VISIBILITY_GRACE_MS : DEFAULT_VISIBILITY_TIMEOUT_MS)
+      args.push(type, slots, visibilityTimeout)
+    })
+
+    const [nextAvailableAt, ...ids] = await this.redis.eval(CLAIM_SCRIPT, 0, ...args) as string[]
+    if (Number(nextAvailableAt) >= 0) this.wakeAt(Number(nextAvailableAt))
+    if (ids.length === 0) return []
+
+    const pipeline = this.redis.pipeline()
+    ids.forEach(id => pipeline.hgetall(this.jobKey(id)))
+    const results = await pipeline.exec()
+
+    return ids.map((id, index) => this.toJob(id, (results?.[index]?.[1] || {}) as Record<string, string>))
+  }
+
+  protected async completeJob(job: QueueJob): Promise<void> {
+    await this.finishJob(job, JobStatus.COMPLETED)
+  }
+
+  protected async retryJob(job: QueueJob, attemptCount: number, availableAt: Date, errorMessage: string): Promise<void> {
+    await this.finishJob(job, JobStatus.PENDING, errorMessage, attemptCount, availableAt)
+  }
+
+  protected async failJob(job: QueueJob, errorMessage: string): Promise<void> {
+    await this.finishJob(job, JobStatus.FAILED, errorMessage)
+    console.log(`💀 Job ${job.type} (${job.id}) moved to the dead-letter store`)
+  }
+
+  async getMetrics(): Promise<QueueMetrics> {
+    const types = await this.redis.smembers(`${this.prefix}types`)
+
+    const pipeline = this.redis.pipeline()
+    types.forEach(type => {
+      STATES.forEach(state => pipeline.zcard(`${this.prefix}${state}:${type}`))
+    })
+    const results = await pipeline.exec()
+    const count = (index: number) => Number(results?.[index]?.[1] || 0)
+
+    const metrics: QueueMetrics = {
+      pending: 0,
+      processing: 0,
+      completed: 0,
+      failed: 0,
+      workers: this.activeTasks.size,
+      byType: {}
+    }
+
+    types.forEach((type, i) => {
+      const base = i * STATES.length
+      const counts = {
+        [JobStatus.PENDING]: count(base) + count(base + 1),
+        [JobStatus.PROCESSING]: count(base + 2),
+        [JobStatus.COMPLETED]: count(base + 3),
+        [JobStatus.FAILED]: count(base + 4),
+      }
+
+      Object.keys(counts).forEach(key => {
+        const status = key as JobStatus
+        if (counts[status] === 0) return
+        if (!metrics.byType[type]) metrics.byType[type] = {}
+        metrics.byType[type][status] = counts[status]
+      })
+
+      metrics.pending += counts[JobStatus.PENDING]
+      metrics.processing += counts[JobStatus.PROCESSING]
+      metrics.completed += counts[JobStatus.COMPLETED]
+      metrics.failed += counts[JobStatus.FAILED]
+    })
+
+    return metrics
+  }
+
+  async getUserDepth(userId: string): Promise<UserQueueDepth> {
+    const depth = await this.redis.hgetall(`${this.prefix}depth:${userId}`)
+    return {
+      pending: Math.max(0, Number(depth.pending || 0)),
+      processing: Math.max(0, Number(depth.processing || 0)),
+    }
+  }
+
+  async cleanup(olderThanDays: number): Promise<number> {
+    const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000
+    const types = await this.redis.smembers(`${this.prefix}types`)
+    let deleted = 0
+
+    for (const type of types) {
+      const setKey = `${this.prefix}completed:${type}`
+      const ids = await this.redis.zrangebyscore(setKey, '-inf', `(${cutoff}`)
+      if (ids.length === 0) continue
+
+      await this.deleteJobs(setKey, ids)
+      deleted += ids.length
+    }
+
+    console.log(`🧹 Cleaned up ${deleted} old queue jobs`)
+    return deleted
+  }
+
+  async listDeadJobs(filter: DeadJobFilter = {}): Promise<DeadJobPage> {
+    return pageDeadJobs(await this.loadDeadJobs(filter), filter)
+  }
+
+  async getDeadJob(id: string): Promise<DeadJob | null> {
+    const [hash, errors] = await Promise.all([
+      this.redis.hgetall(this.jobKey(id)),
+      this.redis.lrange(`${this.prefix}errors:${id}`, 0, -1),
+    ])
+
+    return hash.status === JobStatus.FAILED ? this.toDeadJob(id, hash, errors) : null
+  }
+
+  async replayDeadJob(id: string, options: ReplayOptions = {}): Promise<string | null> {
+    const dead = await this.getDeadJob(id)
+    if (!dead) return null
+
+    const jobId = await this.enqueueJob(dead.type, options.payload ?? dead.payload, {
+      priority: dead.priority,
+      maxAttempts: dead.maxAttempts,
+      userId: dead.userId,
+      deduplicationKey: dead.deduplicationKey,
+    })
+    await this.deleteJobs(`${this.prefix}dead:${dead.type}`, [id])
+
+    console.log(`♻️ Replayed dead job ${dead.type} (${id}) as ${jobId}`)
+    return jobId
+  }
+
+  async purgeDeadJobs(filter: DeadJobFilter = {}): Promise<number> {
+    const jobs = await this.loadDeadJobs(filter)
+
+    for (const job of jobs) {
+      await this.deleteJobs(`${this.prefix}dead:${job.type}`, [job.id])
+    }
+
+    console.log(`🧹 Purged ${jobs.length} dead jobs`)
+    return jobs.length
+  }
+
+  /**
+   * Close the Redis connections; the queue can't be used afterwards
+   */
+  async close(): Promise<void> {
+    await this.stop()
+    await this.onStop()
+    await this.redis.quit()
+  }
+
+  private async finishJob(job: QueueJob, status: JobStatus, errorMessage = '', attemptCount = job.attemptCount, availableAt?: Date): Promise<void> {
+    const now = Date.now()
+    const errorEntry = errorMessage
+      ? JSON.stringify({ attempt: status === JobStatus.PENDING ? attemptCount : job.attemptCount + 1, error: errorMessage, failedAt: now })
+      : ''
+
+    const finished = await this.redis.eval(
+      FINISH_SCRIPT, 0,
+      this.prefix,
+      job.id,
+      job.type,
+      now,
+      status,
+      attemptCount,
+      availableAt ? availableAt.getTime() : '',
+      errorMessage,
+      errorEntry
+    )
+
+    if (finished === 0) {
+      console.warn(`⚠️ Job ${job.id} finished after its claim expired; it was already put back in the queue`)
+    }
+  }
+
+  /**
+   * Dead jobs matching the filter, unpaged; dead jobs are few enough to filter here
+   */
+  private async loadDeadJobs(filter: DeadJobFilter): Promise<DeadJob[]> {
+    const types = filter.type ? [filter.type] : await this.redis.smembers(`${this.prefix}types`)
+    const jobs: DeadJob[] = []
+
+    for (const type of types) {
+      const ids = filter.ids || await this.redis.zrange(`${this.prefix}dead:${type}`, 0, -1)
+      if (ids.length === 0) continue
+
+      const pipeline = this.redis.pipeline()
+      ids.forEach(id => {
+        pipeline.hgetall(this.jobKey(id))
+        pipeline.lrange(`${this.prefix}errors:${id}`, 0, -1)
+      })
+      const results = await pipeline.exec()
+
+      ids.forEach((id, index) => {
+        const hash = (results?.[index * 2]?.[1] || {}) as Record<string, string>
+        const errors = (results?.[index * 2 + 1]?.[1] || []) as string[]
+        if (hash.status === JobStatus.FAILED && hash.type === type) jobs.push(this.toDeadJob(id, hash, errors))
+      })
+    }
+
+    return jobs.filter(job => matchesDeadJobFilter(job, filter))
+  }
+
+  /**
+   * Delete jobs with their error history and drop them from a state set
+   */
+  private async deleteJobs(setKey: string, ids: string[]): Promise<void> {
+    await this.redis
+      .multi()
+      .del(...ids.map(id => this.jobKey(id)), ...ids.map(id => `${this.prefix}errors:${id}`))
+      .zrem(setKey, ...ids)
+      .exec()
+  }
+
+  private jobKey(id: string): string {
+    return `${this.prefix}job:${id}`
+  }
+
+  private toDeadJob(id: string, hash: Record<string, string>, errors: string[]): DeadJob {
+    const job = this.toJob(id, hash)
+
+    return {
+      id,
+      type: job.type,
+      payload: job.payload,
+      userId: job.userId,
+      priority: job.priority,
+      maxAttempts: job.maxAttempts,
+      deduplicationKey: hash.deduplicationKey || undefined,
+      errorMessage: job.errorMessage || '',
+      attempts: parseErrorHistory(`[${errors.join(',')}]`),
+      enqueuedAt: job.createdAt,
+      failedAt: job.processedAt || job.updatedAt,
+    }
+  }
+
+  private toJob(id: string, hash: Record<string, string>): QueueJob {
+    return {
+      id,
+      type: hash.type,
+      payload: JSON.parse(hash.payload || 'null'),
+      userId: hash.userId || undefined,
+      status: hash.status as JobStatus,
+      priority: Number(hash.priority),
+      attemptCount: Number(hash.attemptCount),
+      maxAttempts: Number(hash.maxAttempts),
+      availableAt: new Date(Number(hash.availableAt)),
+      createdAt: new Date(Number(hash.createdAt)),
+      updatedAt: new Date(Number(hash.updatedAt)),
+      errorMessage: hash.errorMessage || undefined,
+      processedAt: hash.processedAt ? new Date(Number(hash.processedAt)) : undefined,
+    }
+  }
+}
@@ -0,0 +1,552 @@
+/**
+ * Queue Conformance Suite
+ *
+ * Behaviour every IQueue implementation has to share, so backends can be
+ * swapped without business code noticing: payload delivery, priority
+ * order, fair sharing between users, rate limits, delays, deduplication,
+ * retries, backpressure, per-type and per-group concurrency, handler
+ * timeouts, the dead-letter store, metrics, per-user depth, job events
+ * and cleanup.
+ *
+ * Cases only use job types under their own prefix, and the queue only
+ * claims types it has handlers for, so the suite can run against a shared
+ * store. Dead jobs it creates are purged at the end, but the cleanup case
+ * does delete every completed job in the store.
+ */
+
+import { IQueue, JobHandler, JobStatus, QueueFullError, QueueJob, QueueJobEvent } from './interfaces'
+
+export interface ConformanceCaseResult {
+  name: string
+  passed: boolean
+  error?: string
+  durationMs: number
+}
+
+interface ConformanceCase {
+  name: string
+  run: (queue: IQueue, type: (name: string) => string) => Promise<void>
+}
+
+const CASE_TIMEOUT_MS = 30000
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(description: string, check: () => boolean | Promise<boolean>, timeoutMs = 15000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${description}`)
+    await sleep(50)
+  }
+}
+
+async function statusCount(queue: IQueue, type: string, status: JobStatus): Promise<number> {
+  const metrics = await queue.getMetrics()
+  return metrics.byType[type]?.[status] || 0
+}
+
+const ok: JobHandler = async () => ({ success: true })
+
+const CASES: ConformanceCase[] = [
+  {
+    name: 'runs an enqueued job with its payload',
+    run: async (queue, type) => {
+      const jobType = type('payload')
+      const seen: QueueJob[] = []
+      queue.registerHandler(jobType, async (payload, job) => {
+        seen.push({ ...job, payload })
+        return { success: true }
+      })
+
+      const id = await queue.enqueueJob(jobType, { value: 42, nested: { list: [1, 2] } }, { userId: 'user_1' })
+      await waitFor('the job to run', () => seen.length === 1)
+
+      const [job] = seen
+      assert(job.id === id, `handler got job ${job.id}, expected ${id}`)
+      assert(job.type === jobType, `handler got type ${job.type}`)
+      assert(job.payload.value === 42 && job.payload.nested.list[1] === 2, 'payload did not round-trip')
+      assert(job.userId === 'user_1', `handler got userId ${job.userId}`)
+      assert(job.attemptCount === 0, `first run had attemptCount ${job.attemptCount}`)
+      await waitFor('the job to be counted as completed', async () => await statusCount(queue, jobType, JobStatus.COMPLETED) === 1)
+    },
+  },
+  {
+    name: 'runs higher priority jobs first',
+    run: async (queue, type) => {
+      const jobType = type('priority')
+      await queue.enqueueJob(jobType, { priority: 1 }, { priority: 1 })
+      await queue.enqueueJob(jobType, { priority: 10 }, { priority: 10 })
+      await queue.enqueueJob(jobType, { priority: 5 }, { priority: 5 })
+
+      const order: number[] = []
+      queue.registerHandler(jobType, async payload => {
+        order.push(payload.priority)
+        return { success: true }
+      }, { concurrency: 1 })
+
+      await waitFor('all three jobs to run', () => order.length === 3)
+      assert(order.join(',') === '10,5,1', `ran in order ${order.join(',')}`)
+    },
+  },
+  {
+    name: 'interleaves users instead of running one user\'s backlog first',
+    run: async (queue, type) => {
+      const jobType = type('fair')
+      for (let i = 0; i < 5; i++) {
+        await queue.enqueueJob(jobType, { user: 'a' }, { userId: 'user_a' })
+      }
+      await queue.enqueueJob(jobType, { user: 'b' }, { userId: 'user_b' })
+      await queue.enqueueJob(jobType, { user: 'b' }, { userId: 'user_b' })
+
+      const order: string[] = []
+      queue.registerHandler(jobType, async payload => {
+        order.push(payload.user)
+        return { success: true }
+      }, { concurrency: 1 })
+
+      await waitFor('all seven jobs to run', () => order.length === 7)
+      assert(order.slice(0, 4).filter(user => user === 'b').length === 2, `ran in order ${order.join(',')}`)
+    },
+  },
+  {
+    name: 'gives users with more weight a larger share',
+    run: async (queue, type) => {
+      const jobType = type('weight')
+      for (let i = 0; i < 3; i++) {
+        await queue.enqueueJob(jobType, { user: 'standard' }, { userId: 'user_standard' })
+      }
+      for (let i = 0; i < 4; i++) {
+        await queue.enqueueJob(jobType, { user: 'priority' }, { userId: 'user_priority', weight: 4 })
+      }
+
+      const order: string[] = []
+      queue.registerHandler(jobType, async payload => {
+        order.push(payload.user)
+        return { success: true }
+      }, { concurrency: 1 })
+
+      await waitFor('all seven jobs to run', () => order.length === 7)
+      assert(order.slice(0, 5).filter(user => user === 'priority').length === 4, `ran in order ${order.join(',')}`)
+    },
+  },
+  {
+    name: 'holds a user\'s jobs beyond the burst to the rate limit',
+    run: async (queue, type) => {
+      const jobType = type('rate')
+      const ranAt: number[] = []
+      queue.registerHandler(jobType, async () => {
+        ranAt.push(Date.now())
+        return { success: true }
+      })
+
+      const enqueuedAt = Date.now()
+      const rateLimit = { perHour: 3600, burst: 2 } // One a second after the first two
+      for (let i = 0; i < 3; i++) {
+        await queue.enqueueJob(jobType, {}, { userId: 'user_rate', rateLimit })
+      }
+      await queue.enqueueJob(jobType, {}, { userId: 'user_other', rateLimit })
+
+      await waitFor('all four jobs to run', () => ranAt.length === 4)
+      const sorted = ranAt.map(at => at - enqueuedAt).sort((a, b) => a - b)
+      assert(sorted[2] < 900, `only ${sorted.filter(at => at < 900).length} jobs ran before the limit applied`)
+      assert(sorted[3] >= 900, `the job beyond the burst ran ${sorted[3]}ms after enqueue`)
+    },
+  },
+  {
+    name: 'holds delayed jobs until they are due',
+    run: async (queue, type) => {
+      const jobType = type('delay')
+      let ranAt = 0
+      queue.registerHandler(jobType, async () => {
+        ranAt = Date.now()
+        return { success: true }
+      })
+
+      const enqueuedAt = Date.now()
+      await queue.enqueueJob(jobType, {}, { delay: 1500 })
+      await waitFor('the delayed job to run', () => ranAt > 0)
+      assert(ranAt - enqueuedAt >= 1400, `ran ${ranAt - enqueuedAt}ms after enqueue`)
+    },
+  },
+  {
+    name: 'deduplicates jobs that are still waiting or running',
+    run: async (queue, type) => {
+      const jobType = type('dedup')
+      const key = `${jobType}_key`
+      const first = await queue.enqueueJob(jobType, {}, { deduplicationKey: key })
+      const second = await queue.enqueueJob(jobType, {}, { deduplicationKey: key })
+      assert(first === second, `duplicate enqueue returned ${second}, expected ${first}`)
+
+      let runs = 0
+      queue.registerHandler(jobType, async () => {
+        runs++
+        return { success: true }
+      })
+      await waitFor('the job to complete', async () => await statusCount(queue, jobType, JobStatus.COMPLETED) === 1)
+      assert(runs === 1, `job ran ${runs} times`)
+
+      const third = await queue.enqueueJob(jobType, {}, { deduplicationKey: key })
+      assert(third !== first, 'a finished job still blocked its deduplication key')
+      await waitFor('the new job to complete', async () => await statusCount(queue, jobType, JobStatus.COMPLETED) === 2)
+    },
+  },
+  {
+    name: 'retries failed jobs until maxAttempts, then fails them',
+    run: async (queue, type) => {
+      const jobType = type('retry')
+      const attempts: number[] = []
+      queue.registerHandler(jobType, async (payload, job) => {
+        attempts.push(job.attemptCount)
+        return { success: false, error: 'always fails', retry: true, retryDelay: 100 }
+      })
+
+      await queue.enqueueJob(jobType, {}, { maxAttempts: 3 })
+      await waitFor('the job to fail', async () => await statusCount(queue, jobType, JobStatus.FAILED) === 1)
+      assert(attempts.join(',') === '0,1,2', `ran with attemptCount ${attempts.join(',')}`)
+
+      const { jobs } = await queue.listDeadJobs({ type: jobType })
+      assert(jobs.length === 1, `${jobs.length} dead jobs listed`)
+      assert(jobs[0].errorMessage === 'always fails', `dead job has error ${jobs[0].errorMessage}`)
+      const history = jobs[0].attempts.map(attempt => attempt.attempt).join(',')
+      assert(history === '1,2,3', `dead job has attempts ${history}`)
+    },
+  },
+  {
+    name: 'fails without retrying when the handler says not to',
+    run: async (queue, type) => {
+      const jobType = type('noretry')
+      let runs = 0
+      queue.registerHandler(jobType, async () => {
+        runs++
+        return { success: false, error: 'permanent', retry: false }
+      })
+
+      await queue.enqueueJob(jobType, {}, { maxAttempts: 3 })
+      await waitFor('the job to fail', async () => await statusCount(queue, jobType, JobStatus.FAILED) === 1)
+      await sleep(300)
+      assert(runs === 1, `job ran ${runs} times`)
+    },
+  },
+  {
+    name: 'retries jobs whose handler throws',
+    run: async (queue, type) => {
+      const jobType = type('throws')
+      let runs = 0
+      queue.registerHandler(jobType, async () => {
+        runs++
+        if (runs === 1) throw new Error('first run throws')
+        return { success: true }
+      })
+
+      await queue.enqueueJob(jobType, {}, { maxAttempts: 2 })
+      await waitFor('the retried job to complete', async () => await statusCount(queue, jobType, JobStatus.COMPLETED) === 1)
+      assert(runs === 2, `job ran ${runs} times`)
+    },
+  },
+  {
+    name: 'refuses jobs beyond maxPending',
+    run: async (queue, type) => {
+      const jobType = type('backpressure')
+      await queue.enqueueJob(jobType, {}, { maxPending: 2 })
+      await queue.enqueueJob(jobType, {}, { maxPending: 2 })
+
+      let error: unknown
+      try {
+        await queue.enqueueJob(jobType, {}, { maxPending: 2 })
+      } catch (caught) {
+        error = caught
+      }
+      assert(error instanceof QueueFullError, 'third job was accepted')
+
+      // Drain so the check leaves nothing waiting behind
+      queue.registerHandler(jobType, ok)
+      await waitFor('the queued jobs to complete', async () => await statusCount(queue, jobType, JobStatus.COMPLETED) === 2)
+    },
+  },
+  {
+    name: 'runs no more jobs of a type at once than its concurrency',
+    run: async (queue, type) => {
+      const jobType = type('concurrency')
+      let running = 0
+      let maxRunning = 0
+      let finished = 0
+      queue.registerHandler(jobType, async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await sleep(300)
+        running--
+        finished++
+        return { success: true }
+      }, { concurrency: 2 })
+
+      for (let i = 0; i < 5; i++) {
+        await queue.enqueueJob(jobType, { i })
+      }
+      await waitFor('all five jobs to run', () => finished === 5, 25000)
+      assert(maxRunning <= 2, `${maxRunning} jobs ran at once`)
+    },
+  },
+  {
+    name: 'runs no more jobs of a group at once than its concurrency',
+    run: async (queue, type) => {
+      const firstType = type('group_first')
+      const secondType = type('group_second')
+      const group = { name: `${firstType}_group`, concurrency: 2 }
+      let running = 0
+      let maxRunning = 0
+      let finished = 0
+      const handler: JobHandler = async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await sleep(300)
+        running--
+        finished++
+        return { success: true }
+      }
+
+      for (let i = 0; i < 3; i++) {
+        await queue.enqueueJob(firstType, { i })
+        await queue.enqueueJob(secondType, { i })
+      }
+      queue.registerHandler(firstType, handler, { concurrency: 2, group })
+      queue.registerHandler(secondType, handler, { concurrency: 2, group })
+
+      await waitFor('all six jobs to run', () => finished === 6, 25000)
+      assert(maxRunning <= 2, `${maxRunning} jobs of the group ran at once`)
+    },
+  },
+  {
+    name: 'fails runs that outlive the handler timeout',
+    run: async (queue, type) => {
+      const jobType = type('timeout')
+      queue.registerHandler(jobType, async () => {
+        await sleep(1000)
+        return { success: true }
+      }, { timeout: 200 })
+
+      await queue.enqueueJob(jobType, {}, { maxAttempts: 1 })
+      await waitFor('the job to fail', async () => await statusCount(queue, jobType, JobStatus.FAILED) === 1)
+      assert(await statusCount(queue, jobType, JobStatus.COMPLETED) === 0, 'timed out job was completed')
+    },
+  },
+  {
+    name: 'fails timed-out runs for good when the type opts out of retries',
+    run: async (queue, type) => {
+      const jobType = type('timeout_no_retry')
+      let runs = 0
+      queue.registerHandler(jobType, async () => {
+        runs++
+        await sleep(500)
+        return { success: true }
+      }, { timeout: 100, retryOnTimeout: false })
+
+      await queue.enqueueJob(jobType, {}, { maxAttempts: 3 })
+      await waitFor('the job to fail', async () => await statusCount(queue, jobType, JobStatus.FAILED) === 1)
+      await sleep(1000)
+      assert(runs === 1, `timed out job ran ${runs} times`)
+    },
+  },
+  {
+    name: 'keeps a timed-out run\'s slot until its handler settles',
+    run: async (queue, type) => {
+      const jobType = type('timeout_slot')
+      let running = 0
+      let maxRunning = 0
+      queue.registerHandler(jobType, async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await sleep(500)
+        running--
+        return { success: true }
+      }, { concurrency: 1, timeout: 100 })
+
+      await queue.enqueueJob(jobType, {}, { maxAttempts: 1 })
+      await queue.enqueueJob(jobType, {}, { maxAttempts: 1 })
+      await waitFor('both jobs to fail', async () => await statusCount(queue, jobType, JobStatus.FAILED) === 2)
+      assert(maxRunning === 1, `${maxRunning} timed-out jobs ran at once`)
+    },
+  },
+  {
+    name: 'replays a dead job with an edited payload',
+    run: async (queue, type) => {
+      const jobType = type('replay')
+      const payloads: any[] = []
+      queue.registerHandler(jobType, async payload => {
+        payloads.push(payload)
+        return payload.fail ? { success: false, error: 'bad payload', retry: false } : { success: true }
+      })
+
+      const id = await queue.enqueueJob(jobType, { fail: true }, { userId: 'user_1' })
+      await waitFor('the job to fail', async () => await statusCount(queue, jobType, JobStatus.FAILED) === 1)
+
+      const { jobs } = await queue.listDeadJobs({ type: jobType })
+      assert(jobs.length === 1, `${jobs.length} dead jobs listed`)
+      const dead = await queue.getDeadJob(jobs[0].id)
+      assert(dead !== null && dead.payload.fail === true && dead.userId === 'user_1', 'dead job lost its payload or user')
+
+      const replayedId = await queue.replayDeadJob(jobs[0].id, { payload: { fail: false } })
+      assert(replayedId !== null && replayedId !== id, `replay returned ${replayedId}`)
+      await waitFor('the replayed job to complete', async () => await statusCount(queue, jobType, JobStatus.COMPLETED) === 1)
+      assert(payloads[1]?.fail === false, 'replay did not use the edited payload')
+      assert(await queue.getDeadJob(jobs[0].id) === null, 'replayed job is still dead')
+      assert(await queue.replayDeadJob(jobs[0].id) === null, 'a dead job was replayed twice')
+    },
+  },
+  {
+    name: 'filters and purges dead jobs',
+    run: async (queue, type) => {
+      const upstreamType = type('purge_upstream')
+      const inputType = type('purge_input')
+      queue.registerHandler(upstreamType, async () => ({ success: false, error: 'OpenAI request timed out', retry: false }))
+      queue.registerHandler(inputType, async () => ({ success: false, error: 'Invalid input', retry: false }))
+
+      await queue.enqueueJob(upstreamType, { n: 1 })
+      await queue.enqueueJob(upstreamType, { n: 2 })
+      await queue.enqueueJob(inputType, {})
+      await waitFor('all three jobs to fail', async () =>
+        await statusCount(queue, upstreamType, JobStatus.FAILED) === 2 &&
+        await statusCount(queue, inputType, JobStatus.FAILED) === 1)
+
+      const byError = await queue.listDeadJobs({ type: upstreamType, error: 'openai' })
+      assert(byError.total === 2, `error filter matched ${byError.total} jobs`)
+      assert((await queue.listDeadJobs({ type: inputType, error: 'openai' })).total === 0, 'error filter matched the wrong job')
+
+      const firstPage = await queue.listDeadJobs({ type: upstreamType, limit: 1 })
+      assert(firstPage.jobs.length === 1 && firstPage.total === 2, 'limit did not page the results')
+
+      const purged = await queue.purgeDeadJobs({ ids: [firstPage.jobs[0].id] })
+      assert(purged === 1, `purging by id deleted ${purged} jobs`)
+      assert(await queue.purgeDeadJobs({ type: upstreamType }) === 1, 'purging by type missed a job')
+      assert(await statusCount(queue, upstreamType, JobStatus.FAILED) === 0, 'purged jobs are still counted')
+      assert(await statusCount(queue, inputType, JobStatus.FAILED) === 1, 'purge deleted another type')
+    },
+  },
+  {
+    name: 'counts a user\'s waiting and running jobs',
+    run: async (queue, type) => {
+      const jobType = type('depth')
+      const userId = type('depth_user')
+      await queue.enqueueJob(jobType, {}, { userId })
+      await queue.enqueueJob(jobType, {}, { userId, delay: 1500 })
+      await queue.enqueueJob(jobType, {}, { userId: type('depth_other_user') })
+
+      let depth = await queue.getUserDepth(userId)
+      assert(depth.pending === 2 && depth.processing === 0, `before running: ${JSON.stringify(depth)}`)
+
+      let release = () => {}
+      const released = new Promise<void>(resolve => { release = resolve })
+      queue.registerHandler(jobType, async () => {
+        await released
+        return { success: true }
+      }, { concurrency: 2 })
+
+      await waitFor('the user\'s first job to start', async () => {
+        depth = await queue.getUserDepth(userId)
+        return depth.processing === 1
+      })
+      assert(depth.pending === 1, `while running: ${JSON.stringify(depth)}`)
+
+      release()
+      await waitFor('every job to finish', async () => {
+        depth = await queue.getUserDepth(userId)
+        return depth.pending === 0 && depth.processing === 0
+      })
+    },
+  },
+  {
+    name: 'emits an event for each state a job goes through',
+    run: async (queue, type) => {
+      const jobType = type('events')
+      const statuses: string[] = []
+      const listener = (event: QueueJobEvent) => {
+        if (event.type === jobType) statuses.push(`${event.status}:${event.attemptCount}`)
+      }
+      queue.on('job', listener)
+
+      try {
+        let runs = 0
+        queue.registerHandler(jobType, async () => {
+          runs++
+          return runs === 1 ? { success: false, error: 'first run fails', retryDelay: 50 } : { success: true }
+        })
+        await queue.enqueueJob(jobType, {}, { maxAttempts: 2 })
+
+        await waitFor('the job to complete', () => statuses.includes('COMPLETED:1'))
+        const expected = 'PENDING:0,PROCESSING:0,PENDING:1,PROCESSING:1,COMPLETED:1'
+        assert(statuses.join(',') === expected, `saw ${statuses.join(',')}`)
+      } finally {
+        queue.off('job', listener)
+      }
+    },
+  },
+  {
+    name: 'cleans up completed jobs but keeps dead ones',
+    run: async (queue, type) => {
+      const jobType = type('cleanup')
+      const deadType = type('cleanup_dead')
+      queue.registerHandler(jobType, ok)
+      queue.registerHandler(deadType, async () => ({ success: false, error: 'fails', retry: false }))
+      await queue.enqueueJob(jobType, {})
+      await queue.enqueueJob(deadType, {})
+      await waitFor('the jobs to finish', async () =>
+        await statusCount(queue, jobType, JobStatus.COMPLETED) === 1 &&
+        await statusCount(queue, deadType, JobStatus.FAILED) === 1)
+
+      await sleep(20)
+      const deleted = await queue.cleanup(0)
+      assert(deleted >= 1, `cleanup deleted ${deleted} jobs`)
+      assert(await statusCount(queue, jobType, JobStatus.COMPLETED) === 0, 'completed job is still counted')
+      assert(await statusCount(queue, deadType, JobStatus.FAILED) === 1, 'cleanup deleted a dead job')
+    },
+  },
+]
+
+/**
+ * Run every case against a started queue. Cases run one after another and
+ * register their own handlers, so pass a queue nothing else is using.
+ */
+export async function runQueueConformance(queue: IQueue, typePrefix: string): Promise<ConformanceCaseResult[]> {
+  const results: ConformanceCaseResult[] = []
+  const usedTypes = new Set<string>()
+  const type = (name: string) => {
+    usedTypes.add(`${typePrefix}${name}`)
+    return `${typePrefix}${name}`
+  }
+
+  for (const conformanceCase of CASES) {
+    const startedAt = Date.now()
+    let timer: NodeJS.Timeout | undefined
+
+    try {
+      await Promise.race([
+        conformanceCase.run(queue, type),
+        new Promise<never>((resolve, reject) => {
+          timer = setTimeout(() => reject(new Error(`Case took longer than ${CASE_TIMEOUT_MS}ms`)), CASE_TIMEOUT_MS)
+        }),
+      ])
+      results.push({ name: conformanceCase.name, passed: true, durationMs: Date.now() - startedAt })
+    } catch (error) {
+      results.push({
+        name: conformanceCase.name,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+      })
+    } finally {
+      if (timer) clearTimeout(timer)
+    }
+  }
+
+  // Leave no dead jobs behind in a shared store
+  for (const jobType of Array.from(usedTypes)) {
+    await queue.purgeDeadJobs({ type: jobType })
+  }
+
+  return results
+}
@@ -0,0 +1,44 @@
+/**
+ * Queue Backend Selection
+ *
+ * QUEUE_BACKEND picks the IQueue implementation the app and worker share:
+ * "database" (default) stores jobs in MongoDB, "redis" in REDIS_URL, and
+ * "memory" keeps them in the current process only.
+ */
+
+import { IQueue } from './interfaces'
+import { DatabaseQueue } from './DatabaseQueue'
+import { MemoryQueue } from './MemoryQueue'
+import { RedisQueue } from './RedisQueue'
+
+export const QUEUE_BACKENDS = ['database', 'redis', 'memory'] as const
+export type QueueBackend = typeof QUEUE_BACKENDS[number]
+
+export function queueBackendFromEnv(): QueueBackend {
+  const backend = (process.env.QUEUE_BACKEND || 'database').toLowerCase()
+
+  if (!QUEUE_BACKENDS.includes(backend as QueueBackend)) {
+    throw new Error(`Unknown QUEUE_BACKEND "${backend}". Expected one of ${QUEUE_BACKENDS.join(', ')}`)
+  }
+  return backend as QueueBackend
+}
+
+/**
+ * Create a queue for the backend. Nothing connects until the queue is used.
+ */
+export function createQueue(backend: QueueBackend = queueBackendFromEnv()): IQueue {
+  switch (backend) {
+    case 'redis':
+      if (!process.env.REDIS_URL) {
+        throw new Error('QUEUE_BACKEND=redis requires REDIS_URL')
+      }
+      return new RedisQueue({ url: process.env.REDIS_URL, prefix: process.env.REDIS_QUEUE_PREFIX || undefined })
+
+    case 'memory':
+      return new MemoryQueue()
+
+    case 'database':
+    default:
+      return new DatabaseQueue()
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Dead-letter helpers shared by queue implementations that filter dead jobs
+ * in memory rather than in a database query
+ */
+
+import { DeadJob, DeadJobFilter, DeadJobPage, JobAttemptError } from './interfaces'
+
+export const DEFAULT_DEAD_JOB_PAGE_SIZE = 50
+
+export function matchesDeadJobFilter(job: DeadJob, filter: DeadJobFilter = {}): boolean {
+  if (filter.ids && !filter.ids.includes(job.id)) return false
+  if (filter.type && job.type !== filter.type) return false
+  if (filter.error && !job.errorMessage.toLowerCase().includes(filter.error.toLowerCase())) return false
+  if (filter.failedBefore && job.failedAt >= filter.failedBefore) return false
+  return true
+}
+
+/**
+ * Filter, sort (most recently failed first) and page dead jobs
+ */
+export function pageDeadJobs(jobs: DeadJob[], filter: DeadJobFilter = {}): DeadJobPage {
+  const matching = jobs
+    .filter(job => matchesDeadJobFilter(job, filter))
+    .sort((a, b) => b.failedAt.getTime() - a.failedAt.getTime())
+
+  const offset = filter.offset || 0
+  const limit = filter.limit || DEFAULT_DEAD_JOB_PAGE_SIZE
+
+  return {
+    jobs: matching.slice(offset, offset + limit),
+    total: matching.length,
+  }
+}
+
+/**
+ * Parse a stored error history, tolerating rows written before it existed
+ */
+export function parseErrorHistory(value?: string | null): JobAttemptError[] {
+  if (!value) return []
+
+  try {
+    const entries = JSON.parse(value) as { attempt: number; error: string; failedAt: string | number }[]
+    return entries.map(entry => ({
+      attempt: entry.attempt,
+      error: entry.error,
+      failedAt: new Date(entry.failedAt),
+    }))
+  } catch (error) {
+    return []
+  }
+}
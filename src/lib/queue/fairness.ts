@@ -0,0 +1,62 @@
+/**
+ * Fair Sharing Between Users
+ *
+ * Two per-user clocks, kept per job type, shape when a user's jobs run:
+ *
+ * - Fair share (virtual clock): each job is tagged max(now, the user's last
+ *   tag) + FAIR_SHARE_INTERVAL_MS / weight, and ready jobs of the same
+ *   priority run in tag order. A user who queues 500 jobs at once tags them
+ *   far into the future, so other users' jobs queued afterwards interleave
+ *   with them instead of waiting behind all 500.
+ * - Rate limit (GCRA, a token bucket kept as one timestamp): the first
+ *   `burst` jobs are available straight away, the rest become available at
+ *   the sustained rate.
+ *
+ * Backends keep the clocks in their own store so every process enqueueing
+ * shares them, and advance them only for jobs they actually store.
+ */
+
+import { EnqueueOptions, RateLimit } from './interfaces'
+
+export const FAIR_SHARE_INTERVAL_MS = 1000
+
+export interface FairSchedule {
+  fairTag: number // Order among ready jobs of the same priority, lowest first
+  availableAt: number
+}
+
+/**
+ * Set a stored clock to max(now, its value) + interval and return the new value
+ */
+export type AdvanceClock = (key: string, now: number, interval: number) => Promise<number>
+
+export function fairShareInterval(weight = 1): number {
+  return Math.max(1, Math.round(FAIR_SHARE_INTERVAL_MS / Math.max(weight, 0.01)))
+}
+
+export function rateLimitInterval(rateLimit: RateLimit): number {
+  return Math.ceil(60 * 60 * 1000 / Math.max(rateLimit.perHour, 0.01))
+}
+
+/**
+ * Tag and time a job from its user's clocks. Jobs without a user keep
+ * arrival order and their requested delay.
+ */
+export async function scheduleFairly(type: string, options: EnqueueOptions, now: number, advanceClock: AdvanceClock): Promise<FairSchedule> {
+  const availableAt = now + (options.delay || 0)
+  if (!options.userId) {
+    return { fairTag: now, availableAt }
+  }
+
+  const fairTag = await advanceClock(`fair:${type}:${options.userId}`, now, fairShareInterval(options.weight))
+  if (!options.rateLimit) {
+    return { fairTag, availableAt }
+  }
+
+  const interval = rateLimitInterval(options.rateLimit)
+  const theoreticalArrival = await advanceClock(`rate:${type}:${options.userId}`, now, interval)
+  return {
+    fairTag,
+    availableAt: Math.max(availableAt, theoreticalArrival - options.rateLimit.burst * interval),
+  }
+}
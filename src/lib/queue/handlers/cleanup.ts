@@ -0,0 +1,103 @@
+/**
+ * Cleanup Handlers
+ */
+
+import { JobHandler, JobResult } from '../interfaces'
+import { PrismaClient } from '@prisma/client'
+import { sendReviewExpiringReminders } from '../../notifications/reminders'
+
+const prisma = new PrismaClient()
+
+export const handleCleanupExpiredReviews: JobHandler = async (): Promise<JobResult> => {
+  const startTime = Date.now()
+  
+  try {
+    console.log('Processing cleanup of expired application reviews')
+    
+    // Process expired reviews using the notification service
+    const { jobNotificationService } = await import('../../jobNotificationService')
+    const processed = await jobNotificationService.processExpiredReviews()
+    const reminded = await sendReviewExpiringReminders()
+    
+    const duration = Date.now() - startTime
+    console.log(`Expired review cleanup completed in ${duration}ms: ${processed} reviews processed, ${reminded} expiring soon`)
+    
+    return { success: true }
+  } catch (error) {
+    console.error('Expired review cleanup error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error in expired review cleanup',
+      retry: true
+    }
+  }
+}
+
+export const handleCleanupExpiredNotifications: JobHandler = async (): Promise<JobResult> => {
+  const startTime = Date.now()
+  
+  try {
+    console.log('Processing cleanup of expired job notifications')
+    
+    // Find notifications that have been expired for more than 7 days
+    const cutoffDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+    
+    const expiredNotifications = await prisma.jobNotification.findMany({
+      where: {
+        OR: [
+          {
+            status: 'EXPIRED',
+            updatedAt: { lt: cutoffDate },
+          },
+          {
+            expiresAt: {
+              not: null,
+              lt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Expire after 30 days
+            },
+            status: {
+              in: ['PENDING', 'VIEWED'],
+            },
+          },
+        ],
+      },
+    })
+
+    let processed = 0
+    for (const notification of expiredNotifications) {
+      // Update notification to expired status
+      await prisma.jobNotification.update({
+        where: { id: notification.id },
+        data: {
+          status: 'EXPIRED',
+          updatedAt: new Date(),
+        },
+      })
+      processed++
+    }
+
+    // Clean up old expired notifications (older than 90 days)
+    const veryOldCutoff = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)
+    const deleted = await prisma.jobNotification.deleteMany({
+      where: {
+        status: 'EXPIRED',
+        updatedAt: { lt: veryOldCutoff },
+      },
+    })
+
+    // Dashboard progress events are only replayed to streams that reconnect
+    const { getUserEventBus } = await import('../../userEvents/createEventBus')
+    const deletedEvents = await getUserEventBus().cleanup(new Date(Date.now() - 24 * 60 * 60 * 1000))
+
+    const duration = Date.now() - startTime
+    console.log(`Expired notification cleanup completed in ${duration}ms: ${processed} expired, ${deleted.count} deleted, ${deletedEvents} old user events deleted`)
+    
+    return { success: true }
+  } catch (error) {
+    console.error('Expired notification cleanup error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error in expired notification cleanup',
+      retry: true
+    }
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Daily Summary Handler
+ *
+ * Runs once a day and sends whichever daily and weekly digests are due.
+ */
+
+import { JobHandler, JobResult, QueueJob } from '../interfaces'
+import { JobPayloads, JobType } from '../jobTypes'
+import { sendDueDigests } from '../../digest/send'
+
+export const handleSendDailySummary: JobHandler = async (payload: JobPayloads[JobType.SEND_DAILY_SUMMARY], job: QueueJob): Promise<JobResult> => {
+  try {
+    const result = await sendDueDigests()
+    console.log(`📊 Digests for ${payload.date || new Date().toISOString().split('T')[0]}: ${result.sent} sent, ${result.empty} with nothing new, ${result.failed} failed (${result.due} due)`)
+    return { success: true }
+  } catch (error) {
+    console.error('Daily summary error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error sending digests',
+      retry: true
+    }
+  }
+}
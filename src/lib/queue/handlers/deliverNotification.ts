@@ -0,0 +1,26 @@
+/**
+ * Notification Delivery Handler
+ *
+ * Sends one notification event over one external channel (email, Web Push
+ * or webhook). Each channel is its own job, so a webhook that is down is
+ * retried without emailing the user twice.
+ */
+
+import { JobHandler, JobResult, QueueJob } from '../interfaces'
+import { JobPayloads, JobType } from '../jobTypes'
+
+export const handleDeliverNotification: JobHandler = async (payload: JobPayloads[JobType.DELIVER_NOTIFICATION], job: QueueJob): Promise<JobResult> => {
+  try {
+    const { deliverToChannel } = await import('../../notifications/dispatch')
+    await deliverToChannel(payload.userId, payload.channel, payload.event)
+    return { success: true }
+  } catch (error) {
+    console.error('Notification delivery error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : `Unknown error delivering ${payload.channel} notification`,
+      retry: true,
+      retryDelay: 60000, // Give a failing webhook or mail server time to recover
+    }
+  }
+}
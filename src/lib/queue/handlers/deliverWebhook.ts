@@ -0,0 +1,28 @@
+/**
+ * Webhook Delivery Handler
+ *
+ * POSTs one queued delivery to a user's webhook endpoint. Failures back off
+ * exponentially, from 30 seconds up to an hour between attempts.
+ */
+
+import { JobHandler, JobResult, QueueJob } from '../interfaces'
+import { JobPayloads, JobType } from '../jobTypes'
+
+const BASE_RETRY_DELAY_MS = 30000
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+
+export const handleDeliverWebhook: JobHandler = async (payload: JobPayloads[JobType.DELIVER_WEBHOOK], job: QueueJob): Promise<JobResult> => {
+  try {
+    const { attemptWebhookDelivery } = await import('../../webhooks/deliveries')
+    await attemptWebhookDelivery(payload.deliveryId, job.attemptCount + 1 >= job.maxAttempts)
+    return { success: true }
+  } catch (error) {
+    console.error('Webhook delivery error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error delivering webhook',
+      retry: true,
+      retryDelay: Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, job.attemptCount), MAX_RETRY_DELAY_MS),
+    }
+  }
+}
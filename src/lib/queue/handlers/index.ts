@@ -0,0 +1,33 @@
+/**
+ * Job Handler Registry
+ *
+ * The one place a job type is mapped to the code that runs it. The queue
+ * worker registers exactly these handlers, so every type in the catalog has
+ * one handler and one worker.
+ */
+
+import { JobHandler } from '../interfaces'
+import { JobType } from '../jobTypes'
+import { handleAnalyzeJobMatch, handleAutomatedJobScan, handleProcessJobMatches, handleUserJobScan } from './jobScan'
+import { handleSubmitApplication } from './submitApplication'
+import { handleCleanupExpiredNotifications, handleCleanupExpiredReviews } from './cleanup'
+import { handleSendDailySummary } from './dailySummary'
+import { handleDeliverNotification } from './deliverNotification'
+import { handleDeliverWebhook } from './deliverWebhook'
+import { handleBuildInterviewReport, handleEvaluateInterviewAnswer, handleTranscribeInterviewAnswer } from './interviewEvaluation'
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  [JobType.USER_JOB_SCAN]: handleUserJobScan,
+  [JobType.AUTOMATED_JOB_SCAN]: handleAutomatedJobScan,
+  [JobType.PROCESS_JOB_MATCHES]: handleProcessJobMatches,
+  [JobType.ANALYZE_JOB_MATCH]: handleAnalyzeJobMatch,
+  [JobType.SUBMIT_APPLICATION]: handleSubmitApplication,
+  [JobType.CLEANUP_EXPIRED_REVIEWS]: handleCleanupExpiredReviews,
+  [JobType.CLEANUP_EXPIRED_NOTIFICATIONS]: handleCleanupExpiredNotifications,
+  [JobType.SEND_DAILY_SUMMARY]: handleSendDailySummary,
+  [JobType.DELIVER_NOTIFICATION]: handleDeliverNotification,
+  [JobType.DELIVER_WEBHOOK]: handleDeliverWebhook,
+  [JobType.TRANSCRIBE_INTERVIEW_ANSWER]: handleTranscribeInterviewAnswer,
+  [JobType.EVALUATE_INTERVIEW_ANSWER]: handleEvaluateInterviewAnswer,
+  [JobType.BUILD_INTERVIEW_REPORT]: handleBuildInterviewReport,
+}
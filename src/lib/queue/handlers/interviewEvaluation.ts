@@ -0,0 +1,66 @@
+/**
+ * Interview Evaluation Handlers
+ *
+ * Transcribe recorded practice interview answers, grade answers against
+ * their rubric, then roll a finished session's grades up into its report.
+ */
+
+import { JobHandler, JobResult, QueueJob } from '../interfaces'
+import { JobPayloads, JobType } from '../jobTypes'
+
+export const handleTranscribeInterviewAnswer: JobHandler = async (payload: JobPayloads[JobType.TRANSCRIBE_INTERVIEW_ANSWER], job: QueueJob): Promise<JobResult> => {
+  const { markTranscriptionFailed, transcribeAnswer } = await import('../../interview/transcription')
+  const { TranscriptionNotConfiguredError } = await import('../../transcription/types')
+
+  try {
+    await transcribeAnswer(payload.questionId)
+    return { success: true }
+  } catch (error) {
+    console.error('Interview answer transcription error:', error)
+    const retry = !(error instanceof TranscriptionNotConfiguredError) && job.attemptCount + 1 < job.maxAttempts
+    if (!retry) {
+      await markTranscriptionFailed(payload.questionId)
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error transcribing interview answer',
+      retry,
+    }
+  }
+}
+
+export const handleEvaluateInterviewAnswer: JobHandler = async (payload: JobPayloads[JobType.EVALUATE_INTERVIEW_ANSWER], job: QueueJob): Promise<JobResult> => {
+  try {
+    const { evaluateAnswer } = await import('../../interview/evaluation')
+    const evaluation = await evaluateAnswer(payload.questionId)
+    if (!evaluation) {
+      console.log(`Interview answer ${payload.questionId} has no text to grade, skipping`)
+    }
+    return { success: true }
+  } catch (error) {
+    console.error('Interview answer evaluation error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error grading interview answer',
+      retry: true,
+    }
+  }
+}
+
+export const handleBuildInterviewReport: JobHandler = async (payload: JobPayloads[JobType.BUILD_INTERVIEW_REPORT], job: QueueJob): Promise<JobResult> => {
+  try {
+    const { buildSessionReport } = await import('../../interview/report')
+    const report = await buildSessionReport(payload.sessionId)
+    if (!report) {
+      return { success: false, error: 'No graded answers to report on', retry: false }
+    }
+    return { success: true }
+  } catch (error) {
+    console.error('Interview report error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error building interview report',
+      retry: true,
+    }
+  }
+}
@@ -1,12 +1,15 @@
 /**
- * Job Handlers for Queue Processing
+ * Job Scanning Handlers
  * 
  * These handlers are abstracted from queue implementation details
  * They work with any queue backend (Database/Redis/SQS)
  */
 
-import { JobHandler, JobResult, QueueJob } from './interfaces'
-import { analyzeJobMatch } from '../openai'
+import { JobHandler, JobResult, QueueJob } from '../interfaces'
+import { JobPayloads, JobType } from '../jobTypes'
+import { analyzeJobMatch } from '../../openai'
+import { publishUserEvent } from '../../userEvents/createEventBus'
+import { dispatchNotification } from '../../notifications/dispatch'
 import { PrismaClient } from '@prisma/client'
 
 const prisma = new PrismaClient()
@@ -97,6 +100,12 @@ export const handleAnalyzeJobMatch: JobHandler = async (payload: { jobId: string
         updatedAt: new Date()
       },
     })
+    await publishUserEvent(payload.userId, 'job.analyzed', {
+      jobId: jobData.id,
+      title: jobData.title,
+      company: jobData.company,
+      matchScore: matchAnalysis.matchScore,
+    })
 
     const settings = profile.autoApplySettings
     const meetsAutoApplyThreshold = matchAnalysis.matchScore >= settings.minMatchScore
@@ -130,6 +139,16 @@ export const handleAnalyzeJobMatch: JobHandler = async (payload: { jobId: string
         })
         actionsPerformed.push('notification_created')
         console.log(`📢 Created notification for ${jobData.title} at ${jobData.company}`)
+        await publishUserEvent(profile.userId, 'notification.created', {
+          jobId: jobData.id,
+          title: jobData.title,
+          company: jobData.company,
+          matchScore: matchAnalysis.matchScore,
+        })
+        await dispatchNotification(profile.userId, 'match_found', {
+          job: { id: jobData.id, title: jobData.title, company: jobData.company, location: jobData.location || undefined },
+          matchScore: matchAnalysis.matchScore,
+        }, { dedupeKey: `match:${jobData.id}` })
       }
     }
 
@@ -170,25 +189,86 @@ export const handleBatchAnalyzeJobs: JobHandler = async (payload: { jobIds: stri
  * User-initiated job scan handler
  * STAGE 1: Fast job fetching without AI blocking
  */
-export const handleUserJobScan: JobHandler = async (payload: { userId: string }, job: QueueJob): Promise<JobResult> => {
+export const handleUserJobScan: JobHandler = async (payload: JobPayloads[JobType.USER_JOB_SCAN], job: QueueJob): Promise<JobResult> => {
   try {
     console.log(`👤 Processing user job scan for: ${payload.userId}`)
+    await publishUserEvent(payload.userId, 'scan.started', { source: payload.source })
     
     // Import scanner and run Stage 1 (fast, non-AI)
-    const { jobScanner } = await import('../jobScanner')
+    const { jobScanner } = await import('../../jobScanner')
     const results = await jobScanner.scanAndProcessJobs(payload.userId)
     
     console.log(`✅ User job scan completed: ${results.processed} jobs processed`)
+    await publishUserEvent(payload.userId, 'scan.finished', { processed: results.processed })
     
     return {
       success: true
     }
   } catch (error) {
     console.error('User job scan error:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error in job scan'
+    await publishUserEvent(payload.userId, 'scan.failed', {
+      error: errorMessage,
+      willRetry: job.attemptCount + 1 < job.maxAttempts,
+    })
+
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error in job scan',
+      error: errorMessage,
       retry: true
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Daily sweep over users' scan schedules
+ * Each user's scans run from their own job_schedules row, kept in step when
+ * they save settings; this catches users whose row is missing or stale
+ * (settings written before schedules existed, or changed outside the API)
+ */
+export const handleAutomatedJobScan: JobHandler = async (payload: JobPayloads[JobType.AUTOMATED_JOB_SCAN], job: QueueJob): Promise<JobResult> => {
+  try {
+    const { syncUserScanSchedule } = await import('../schedules')
+
+    const profiles = await prisma.profile.findMany({
+      where: { autoApplySettings: { isNot: null } },
+      select: { userId: true },
+    })
+
+    let enabled = 0
+    for (const profile of profiles) {
+      const schedule = await syncUserScanSchedule(profile.userId)
+      if (schedule?.enabled) enabled++
+    }
+
+    console.log(`🕐 Automated job scan: synced ${profiles.length} scan schedules, ${enabled} enabled`)
+    return { success: true }
+  } catch (error) {
+    console.error('Automated job scan error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error in automated job scan',
+      retry: true
+    }
+  }
+}
+
+/**
+ * Match a user's processed jobs against their settings and notify or auto-apply
+ */
+export const handleProcessJobMatches: JobHandler = async (payload: JobPayloads[JobType.PROCESS_JOB_MATCHES], job: QueueJob): Promise<JobResult> => {
+  try {
+    const { jobNotificationService } = await import('../../jobNotificationService')
+    const results = await jobNotificationService.processJobMatches(payload.userId)
+
+    console.log(`✅ Job matches processed for ${payload.userId}: ${results.processed} processed, ${results.notified} notified, ${results.autoApplied} auto-applied`)
+    return { success: true }
+  } catch (error) {
+    console.error('Process job matches error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error in processing job matches',
+      retry: true
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Application Submission Handler
+ */
+
+import { JobHandler, JobResult, QueueJob } from '../interfaces'
+import { JobPayloads, JobType } from '../jobTypes'
+import { publishUserEvent } from '../../userEvents/createEventBus'
+
+/**
+ * Submit an application through the shared browser pool
+ * Queued by auto-apply scans and approved application reviews
+ */
+export const handleSubmitApplication: JobHandler = async (payload: JobPayloads[JobType.SUBMIT_APPLICATION], job: QueueJob): Promise<JobResult> => {
+  try {
+    console.log(`📨 Submitting queued application for job ${payload.jobId}`)
+
+    const { submitQueuedApplication } = await import('../../applicationSubmission')
+    await submitQueuedApplication(payload)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Queued application submission error:', error)
+
+    // Every browser slot stayed busy: back off and try again rather than fail
+    if (error instanceof Error && error.name === 'BrowserPoolBusyError') {
+      return { success: false, error: error.message, retry: true, retryDelay: 60000 }
+    }
+
+    // The form already went in, so trying again would apply twice
+    if (error instanceof Error && error.name === 'SubmissionNotRecordedError') {
+      return { success: false, error: error.message, retry: false }
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error in application submission'
+    const retry = !(error instanceof Error && error.message.includes('not found'))
+    const willRetry = retry && job.attemptCount + 1 < job.maxAttempts
+
+    // A failed preview isn't a failed application: just end the user's wait for it
+    if (payload.dryRun) {
+      if (!willRetry) {
+        await publishUserEvent(payload.userId, 'application.previewed', {
+          jobId: payload.jobId,
+          reviewId: payload.reviewId,
+          error: errorMessage,
+        })
+      }
+      return { success: false, error: errorMessage, retry }
+    }
+
+    await publishUserEvent(payload.userId, 'application.failed', {
+      jobId: payload.jobId,
+      error: errorMessage,
+      willRetry,
+    })
+    if (!willRetry) {
+      const { notifyAutomationFailed } = await import('../../applicationSubmission')
+      await notifyAutomationFailed(payload.userId, payload.jobId, errorMessage).catch(notifyError => {
+        console.error('Automation failure notification error:', notifyError)
+      })
+    }
+
+    return {
+      success: false,
+      error: errorMessage,
+      retry
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Queue Module Main Export
+ *
+ * The one background job system: a typed job catalog, a handler registry,
+ * a recurring scheduler and the queue manager the worker and API use.
+ */
+
+export type {
+  QueueJob,
+  EnqueueOptions,
+  QueueWorkerOptions,
+  IQueue,
+  JobHandler,
+  JobResult,
+  QueueMetrics,
+  UserQueueDepth,
+  QueueJobEvent,
+  JobAttemptError,
+  DeadJob,
+  DeadJobFilter,
+  DeadJobPage,
+  ReplayOptions,
+  RateLimit,
+  ConcurrencyGroup,
+} from './interfaces'
+export { JobStatus, QueueFullError } from './interfaces'
+
+export type { JobPayloads, JobDefinition } from './jobTypes'
+export { JobType, JOB_CATALOG, OPENAI_GROUP, isJobType } from './jobTypes'
+
+export type { FairSchedule } from './fairness'
+export { scheduleFairly, FAIR_SHARE_INTERVAL_MS } from './fairness'
+export type { ProcessingTier } from './processingTier'
+export { getProcessingTier, STANDARD_TIER, PRIORITY_TIER } from './processingTier'
+
+export { DatabaseQueue } from './DatabaseQueue'
+export { MemoryQueue } from './MemoryQueue'
+export type { RedisQueueOptions } from './RedisQueue'
+export { RedisQueue } from './RedisQueue'
+export type { QueueBackend } from './createQueue'
+export { QUEUE_BACKENDS, queueBackendFromEnv, createQueue } from './createQueue'
+
+export { JOB_HANDLERS } from './handlers'
+export { JobScheduler } from './scheduler'
+export type { CatchUpPolicy, ScheduleDefinition, ScheduleSummary } from './schedules'
+export { CATCH_UP_POLICIES, syncUserScanSchedule, updateSchedule, validateCronExpression, isValidTimeZone } from './schedules'
+
+export { queueManager } from './QueueManager'
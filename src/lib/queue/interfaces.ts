@@ -4,7 +4,8 @@
  * This abstraction allows clean migration from database-backed queues 
  * to dedicated queue systems (RabbitMQ/Redis/SQS) without refactoring business logic.
  * 
- * TODO: Migrate to Redis/SQS - only change the implementation, not the interface
+ * Implementations: DatabaseQueue, RedisQueue and MemoryQueue. A new one
+ * must pass the conformance suite (npm run queue:check).
  */
 
 export enum JobStatus {
@@ -36,12 +37,31 @@ export interface EnqueueOptions {
   maxAttempts?: number
   userId?: string
   deduplicationKey?: string // Prevent duplicate jobs
+  maxPending?: number // Backpressure: refuse the job when this many of its type are already waiting
+  weight?: number // The user's share of the type against other users' jobs of the same priority (default 1)
+  rateLimit?: RateLimit // Per user and type: jobs beyond the burst wait until the rate allows them
+}
+
+/**
+ * Token bucket for one user's jobs of one type
+ */
+export interface RateLimit {
+  perHour: number // Sustained rate
+  burst: number // Jobs that can become available at once
 }
 
 export interface QueueWorkerOptions {
-  concurrency?: number
+  concurrency?: number // Most jobs of this type processed at once
+  group?: ConcurrencyGroup // Cap shared with every other type in the same group
   pollInterval?: number
   visibilityTimeout?: number
+  timeout?: number // A run taking longer fails and is retried; its slot stays taken until the handler settles
+  retryOnTimeout?: boolean // false fails a timed-out run for good, for jobs that mustn't run twice
+}
+
+export interface ConcurrencyGroup {
+  name: string
+  concurrency: number // Most jobs of all the group's types processed at once
 }
 
 /**
@@ -80,6 +100,48 @@ export interface IQueue {
    * Get queue metrics
    */
   getMetrics(): Promise<QueueMetrics>
+
+  /**
+   * Count one user's jobs that are waiting or running
+   */
+  getUserDepth(userId: string): Promise<UserQueueDepth>
+
+  /**
+   * Delete completed jobs. Dead jobs stay until they're purged.
+   * @param olderThanDays Only jobs last updated before this many days ago
+   * @returns Promise<number> Jobs deleted
+   */
+  cleanup(olderThanDays: number): Promise<number>
+
+  /**
+   * List dead jobs, most recently failed first
+   */
+  listDeadJobs(filter?: DeadJobFilter): Promise<DeadJobPage>
+
+  /**
+   * Get one dead job with its full error history
+   */
+  getDeadJob(id: string): Promise<DeadJob | null>
+
+  /**
+   * Enqueue a dead job again, optionally with an edited payload, and remove
+   * it from the dead-letter store
+   * @returns Promise<string | null> New job ID, or null when no such dead job
+   */
+  replayDeadJob(id: string, options?: ReplayOptions): Promise<string | null>
+
+  /**
+   * Permanently delete dead jobs matching the filter (limit/offset are ignored)
+   * @returns Promise<number> Dead jobs deleted
+   */
+  purgeDeadJobs(filter?: DeadJobFilter): Promise<number>
+
+  /**
+   * Listen for jobs this queue instance enqueues or runs changing state.
+   * Only changes made in this process are seen.
+   */
+  on(event: 'job', listener: (event: QueueJobEvent) => void): this
+  off(event: 'job', listener: (event: QueueJobEvent) => void): this
 }
 
 export interface JobHandler {
@@ -93,10 +155,94 @@ export interface JobResult {
   retryDelay?: number
 }
 
+/**
+ * One failed run of a job
+ */
+export interface JobAttemptError {
+  attempt: number // 1 for the first run
+  error: string
+  failedAt: Date
+}
+
+/**
+ * A job that used up its attempts (or failed without retry), kept in the
+ * dead-letter store with every attempt's error until it's replayed or purged
+ */
+export interface DeadJob {
+  id: string
+  type: string
+  payload: any
+  userId?: string
+  priority: number
+  maxAttempts: number
+  deduplicationKey?: string
+  errorMessage: string // Error from the final attempt
+  attempts: JobAttemptError[]
+  enqueuedAt: Date
+  failedAt: Date
+}
+
+export interface DeadJobFilter {
+  ids?: string[]
+  type?: string
+  error?: string // Case-insensitive match on the final error message
+  failedBefore?: Date
+  limit?: number
+  offset?: number
+}
+
+export interface DeadJobPage {
+  jobs: DeadJob[]
+  total: number
+}
+
+export interface ReplayOptions {
+  payload?: any // Replaces the dead job's payload
+}
+
 export interface QueueMetrics {
   pending: number
   processing: number
   completed: number
-  failed: number
+  failed: number // Jobs in the dead-letter store
   workers: number
-}
\ No newline at end of file
+  byType: Record<string, Record<string, number>> // Job counts per type, then per status
+}
+
+export interface UserQueueDepth {
+  pending: number // Waiting, including delayed jobs and jobs waiting to retry
+  processing: number
+}
+
+/**
+ * A job changing state: PENDING when it's enqueued or waiting to retry,
+ * PROCESSING when a run starts, then COMPLETED or FAILED (dead)
+ */
+export interface QueueJobEvent {
+  id: string
+  type: string
+  userId?: string
+  status: JobStatus
+  attemptCount: number // Failed attempts so far
+  error?: string // The latest attempt's error, when it failed
+}
+
+/**
+ * Thrown by enqueueJob when the job type's maxPending backlog is full
+ */
+export class QueueFullError extends Error {
+  constructor(public type: string, public pending: number) {
+    super(`Queue for ${type} is full (${pending} jobs waiting)`)
+    this.name = 'QueueFullError'
+  }
+}
+
+/**
+ * A handler ran past its type's timeout. It may still be running.
+ */
+export class JobTimeoutError extends Error {
+  constructor(public timeout: number) {
+    super(`Job execution timed out after ${timeout}ms`)
+    this.name = 'JobTimeoutError'
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Job Catalog
+ *
+ * Every job type the queue runs, the payload it carries and the defaults it
+ * is enqueued and processed with. Adding a job type means adding it here
+ * and giving it a handler in handlers/index.ts; enqueueing a type or
+ * payload that isn't in the catalog is a type error.
+ */
+
+import type { SubmitApplicationPayload } from '../applicationSubmission'
+import type { AnyNotificationEvent, NotificationChannelId } from '../notifications/types'
+import { browserPoolCapacity } from '../browserPool/config'
+import type { ConcurrencyGroup, RateLimit } from './interfaces'
+
+export enum JobType {
+  USER_JOB_SCAN = 'user_job_scan',
+  AUTOMATED_JOB_SCAN = 'automated_job_scan',
+  PROCESS_JOB_MATCHES = 'process_job_matches',
+  ANALYZE_JOB_MATCH = 'analyze_job_match',
+  SUBMIT_APPLICATION = 'submit_application',
+  CLEANUP_EXPIRED_REVIEWS = 'cleanup_expired_reviews',
+  CLEANUP_EXPIRED_NOTIFICATIONS = 'cleanup_expired_notifications',
+  SEND_DAILY_SUMMARY = 'send_daily_summary',
+  DELIVER_NOTIFICATION = 'deliver_notification',
+  DELIVER_WEBHOOK = 'deliver_webhook',
+  TRANSCRIBE_INTERVIEW_ANSWER = 'transcribe_interview_answer',
+  EVALUATE_INTERVIEW_ANSWER = 'evaluate_interview_answer',
+  BUILD_INTERVIEW_REPORT = 'build_interview_report',
+}
+
+export interface JobPayloads {
+  [JobType.USER_JOB_SCAN]: { userId: string; source?: string }
+  [JobType.AUTOMATED_JOB_SCAN]: { source?: string }
+  [JobType.PROCESS_JOB_MATCHES]: { userId: string }
+  [JobType.ANALYZE_JOB_MATCH]: { jobId: string; userId: string }
+  [JobType.SUBMIT_APPLICATION]: SubmitApplicationPayload
+  [JobType.CLEANUP_EXPIRED_REVIEWS]: { source?: string }
+  [JobType.CLEANUP_EXPIRED_NOTIFICATIONS]: { source?: string }
+  [JobType.SEND_DAILY_SUMMARY]: { date?: string; source?: string }
+  [JobType.DELIVER_NOTIFICATION]: { userId: string; channel: NotificationChannelId; event: AnyNotificationEvent }
+  [JobType.DELIVER_WEBHOOK]: { deliveryId: string; userId: string }
+  [JobType.TRANSCRIBE_INTERVIEW_ANSWER]: { questionId: string; userId: string }
+  [JobType.EVALUATE_INTERVIEW_ANSWER]: { questionId: string; userId: string }
+  [JobType.BUILD_INTERVIEW_REPORT]: { sessionId: string; userId: string }
+}
+
+export interface JobDefinition {
+  priority: number // Higher runs first
+  maxAttempts: number
+  concurrency?: number // Most jobs of this type one worker runs at once
+  group?: ConcurrencyGroup // Cap one worker shares across every type in the group
+  rateLimit?: RateLimit // Per user on a standard plan; plans with priority processing get more
+  timeout?: number // Milliseconds before a run counts as failed
+  retryOnTimeout?: boolean // false for jobs a second run would repeat, since a timed-out run may still finish
+  streamUpdates?: boolean // Send the user's dashboard a job.updated event on each state change
+}
+
+/**
+ * Split a cap meant for the whole deployment between its worker replicas.
+ * Group caps are counted by each worker on its own, so without this every
+ * replica added would raise the real limit by the full cap.
+ */
+export function perWorkerConcurrency(total: number): number {
+  const workers = Number(process.env.QUEUE_WORKER_REPLICAS) || 1
+  return Math.max(1, Math.floor(total / workers))
+}
+
+// Handlers that call OpenAI share one cap, whichever type they are
+export const OPENAI_GROUP: ConcurrencyGroup = {
+  name: 'openai',
+  concurrency: perWorkerConcurrency(Number(process.env.OPENAI_MAX_CONCURRENCY) || 6),
+}
+
+export const JOB_CATALOG: Record<JobType, JobDefinition> = {
+  [JobType.USER_JOB_SCAN]: {
+    priority: 10, // User-initiated
+    maxAttempts: 2,
+    concurrency: 2,
+    timeout: 300000,
+    streamUpdates: true,
+  },
+  [JobType.PROCESS_JOB_MATCHES]: {
+    priority: 9,
+    maxAttempts: 2,
+    group: OPENAI_GROUP, // Match analysis and cover letters
+    rateLimit: { perHour: 12, burst: 3 },
+    timeout: 180000,
+    streamUpdates: true,
+  },
+  [JobType.ANALYZE_JOB_MATCH]: {
+    priority: 8,
+    maxAttempts: 3,
+    concurrency: 5, // AI analyses in parallel
+    group: OPENAI_GROUP,
+    rateLimit: { perHour: 120, burst: 30 }, // A scan's worth at once, then two a minute
+    timeout: 30000,
+  },
+  [JobType.TRANSCRIBE_INTERVIEW_ANSWER]: {
+    priority: 8, // Grading waits on the transcript
+    maxAttempts: 3,
+    concurrency: 2, // A self-hosted Whisper server is usually CPU-bound
+    timeout: 180000,
+    streamUpdates: true,
+  },
+  [JobType.EVALUATE_INTERVIEW_ANSWER]: {
+    priority: 8, // The user is usually still in the interview, waiting on feedback
+    maxAttempts: 3,
+    group: OPENAI_GROUP,
+    timeout: 60000,
+    streamUpdates: true,
+  },
+  [JobType.BUILD_INTERVIEW_REPORT]: {
+    priority: 8,
+    maxAttempts: 3,
+    group: OPENAI_GROUP,
+    timeout: 90000,
+    streamUpdates: true,
+  },
+  [JobType.SUBMIT_APPLICATION]: {
+    priority: 7,
+    maxAttempts: 5, // Waiting out a busy browser pool uses attempts too
+    concurrency: browserPoolCapacity(), // One per browser slot, so claimed jobs don't sit waiting for a browser
+    timeout: 600000,
+    retryOnTimeout: false, // A stalled browser may still submit the form
+    streamUpdates: true,
+  },
+  [JobType.AUTOMATED_JOB_SCAN]: {
+    priority: 7,
+    maxAttempts: 2,
+    concurrency: 1,
+    timeout: 120000, // Only syncs per-user scan schedules
+  },
+  [JobType.DELIVER_NOTIFICATION]: {
+    priority: 6,
+    maxAttempts: 3,
+    concurrency: 5, // Mostly waiting on mail servers, push services and webhooks
+    timeout: 30000,
+  },
+  [JobType.DELIVER_WEBHOOK]: {
+    priority: 5,
+    maxAttempts: 8, // With the handler's backoff, about an hour before giving up
+    concurrency: 5,
+    timeout: 30000,
+  },
+  [JobType.CLEANUP_EXPIRED_REVIEWS]: {
+    priority: 4,
+    maxAttempts: 3,
+    concurrency: 1,
+    timeout: 120000,
+  },
+  [JobType.CLEANUP_EXPIRED_NOTIFICATIONS]: {
+    priority: 3,
+    maxAttempts: 3,
+    concurrency: 1,
+    timeout: 300000,
+  },
+  [JobType.SEND_DAILY_SUMMARY]: {
+    priority: 2,
+    maxAttempts: 2,
+    concurrency: 1,
+    timeout: 120000,
+  },
+}
+
+export function isJobType(type: string): type is JobType {
+  return Object.keys(JOB_CATALOG).includes(type)
+}
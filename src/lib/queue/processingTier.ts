@@ -0,0 +1,52 @@
+/**
+ * Processing Tiers
+ *
+ * How much of the queue a user's jobs get. Plans with priority processing
+ * (PlanFeatures.hasPriorityProcessing) get a larger fair share against
+ * other users and higher per-type rate limits. Looked up when jobs are
+ * enqueued and cached briefly, since one scan enqueues many jobs for a user.
+ */
+
+import { checkFeatureAccess } from '../plans/enforcement'
+import { RateLimit } from './interfaces'
+
+export interface ProcessingTier {
+  weight: number // Fair share against standard users' jobs
+  rateMultiplier: number // Applied to the job type's rate limit
+}
+
+export const STANDARD_TIER: ProcessingTier = { weight: 1, rateMultiplier: 1 }
+export const PRIORITY_TIER: ProcessingTier = { weight: 3, rateMultiplier: 3 }
+
+const TIER_CACHE_TTL_MS = 5 * 60 * 1000
+const tierCache = new Map<string, { tier: ProcessingTier, expiresAt: number }>()
+
+export async function getProcessingTier(userId: string): Promise<ProcessingTier> {
+  const now = Date.now()
+  const cached = tierCache.get(userId)
+  if (cached && cached.expiresAt > now) return cached.tier
+
+  let tier = STANDARD_TIER
+  try {
+    if (await checkFeatureAccess(userId, 'priority_processing')) {
+      tier = PRIORITY_TIER
+    }
+  } catch (error) {
+    console.error('Processing tier lookup error:', error)
+  }
+
+  if (tierCache.size > 1000) {
+    tierCache.forEach((entry, key) => {
+      if (entry.expiresAt <= now) tierCache.delete(key)
+    })
+  }
+  tierCache.set(userId, { tier, expiresAt: now + TIER_CACHE_TTL_MS })
+  return tier
+}
+
+export function scaleRateLimit(rateLimit: RateLimit, tier: ProcessingTier): RateLimit {
+  return {
+    perHour: rateLimit.perHour * tier.rateMultiplier,
+    burst: Math.round(rateLimit.burst * tier.rateMultiplier),
+  }
+}
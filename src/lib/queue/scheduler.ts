@@ -0,0 +1,206 @@
+/**
+ * Recurring Job Scheduler
+ *
+ * Enqueues the jobs in job_schedules when they come due. It only adds jobs
+ * to the queue; running them is left to the queue worker like any other job.
+ * Every instance polls, but only the one holding the scheduler lease fires
+ * schedules, and each run is claimed by moving the row's nextRunAt on, so
+ * running two workers (or a deploy overlapping the old one) fires each run
+ * once. Runs missed while nothing held the lease follow each schedule's
+ * catch-up policy.
+ */
+
+import { hostname } from 'os'
+import { JobSchedule } from '@prisma/client'
+import { IQueue } from './interfaces'
+import { JOB_CATALOG, JobType, isJobType } from './jobTypes'
+import {
+  ScheduleDefinition,
+  acquireSchedulerLock,
+  claimScheduleRun,
+  dueRuns,
+  ensureSchedules,
+  findDueSchedules,
+  nextRunAfter,
+  recordScheduleJob,
+  releaseScheduleRun,
+  releaseSchedulerLock,
+} from './schedules'
+
+const LOCK_NAME = 'job_scheduler'
+const TICK_INTERVAL_MS = 30 * 1000
+const LOCK_TTL_MS = 3 * TICK_INTERVAL_MS // A leader that misses two ticks loses the lease
+
+// Created on first start; edits to the rows afterwards are kept
+const DEFAULT_SCHEDULES: ScheduleDefinition[] = [
+  {
+    key: `system:${JobType.AUTOMATED_JOB_SCAN}`,
+    type: JobType.AUTOMATED_JOB_SCAN,
+    cronExpression: '30 3 * * *', // Daily at 3:30 AM UTC
+  },
+  {
+    key: `system:${JobType.CLEANUP_EXPIRED_REVIEWS}`,
+    type: JobType.CLEANUP_EXPIRED_REVIEWS,
+    cronExpression: '0 */6 * * *', // Every 6 hours
+  },
+  {
+    key: `system:${JobType.CLEANUP_EXPIRED_NOTIFICATIONS}`,
+    type: JobType.CLEANUP_EXPIRED_NOTIFICATIONS,
+    cronExpression: '0 2 * * *', // Daily at 2 AM UTC
+  },
+  {
+    key: `system:${JobType.SEND_DAILY_SUMMARY}`,
+    type: JobType.SEND_DAILY_SUMMARY,
+    cronExpression: '0 9 * * *', // Daily at 9 AM UTC
+    catchUp: 'skip', // A late summary is worse than none
+  },
+]
+
+export class JobScheduler {
+  private interval: NodeJS.Timeout | null = null
+  private isRunning = false
+  private isLeader = false
+  private defaultsEnsured = false
+  private currentTick: Promise<number> | null = null
+  private readonly instanceId = `${hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`
+
+  constructor(private queue: IQueue) {}
+
+  async start() {
+    if (this.isRunning) {
+      console.log('Job scheduler is already running')
+      return
+    }
+
+    console.log('Starting job scheduler...')
+    this.isRunning = true
+
+    await this.ensureDefaultSchedules()
+    this.interval = setInterval(() => this.tick(), TICK_INTERVAL_MS)
+    await this.tick()
+
+    console.log('Job scheduler started successfully')
+  }
+
+  async stop() {
+    console.log('Stopping job scheduler...')
+    this.isRunning = false
+
+    if (this.interval) {
+      clearInterval(this.interval)
+      this.interval = null
+    }
+    await this.currentTick
+
+    if (this.isLeader) {
+      await releaseSchedulerLock(LOCK_NAME, this.instanceId).catch(error => {
+        console.error('Scheduler lock release error:', error)
+      })
+      this.isLeader = false
+    }
+
+    console.log('Job scheduler stopped')
+  }
+
+  /**
+   * Fire due schedules once and let go of the lease, for callers without a
+   * running scheduler (e.g. a cron route). Returns the number of runs
+   * enqueued; 0 when another instance holds the lease.
+   */
+  async runOnce(): Promise<number> {
+    await this.ensureDefaultSchedules()
+    const enqueued = await this.tick()
+
+    if (!this.isRunning && this.isLeader) {
+      await releaseSchedulerLock(LOCK_NAME, this.instanceId)
+      this.isLeader = false
+    }
+    return enqueued
+  }
+
+  private async ensureDefaultSchedules() {
+    if (this.defaultsEnsured) return
+    await ensureSchedules(DEFAULT_SCHEDULES)
+    this.defaultsEnsured = true
+  }
+
+  private tick(): Promise<number> {
+    // Ticks don't overlap; a slow one makes the next one wait
+    if (this.currentTick) return this.currentTick
+
+    this.currentTick = this.fireDueSchedules()
+      .catch(error => {
+        console.error('Scheduler tick error:', error)
+        return 0
+      })
+      .finally(() => {
+        this.currentTick = null
+      })
+    return this.currentTick
+  }
+
+  private async fireDueSchedules(): Promise<number> {
+    const isLeader = await acquireSchedulerLock(LOCK_NAME, this.instanceId, LOCK_TTL_MS)
+    if (isLeader !== this.isLeader) {
+      console.log(isLeader
+        ? `👑 Scheduler ${this.instanceId} now fires schedules`
+        : `Scheduler ${this.instanceId} lost the lease; another instance fires schedules`)
+      this.isLeader = isLeader
+    }
+    if (!isLeader) return 0
+
+    const now = new Date()
+    const schedules = await findDueSchedules(now)
+    let enqueued = 0
+
+    for (const schedule of schedules) {
+      enqueued += await this.fireSchedule(schedule, now)
+    }
+    return enqueued
+  }
+
+  private async fireSchedule(schedule: JobSchedule, now: Date): Promise<number> {
+    const runs = dueRuns(schedule, now)
+    const nextRunAt = nextRunAfter(schedule.cronExpression, schedule.timezone, now)
+    const lastRunAt = runs.length > 0 ? runs[runs.length - 1] : undefined
+
+    if (!(await claimScheduleRun(schedule, nextRunAt, lastRunAt))) {
+      return 0 // Another instance fired it
+    }
+
+    if (!isJobType(schedule.type)) {
+      console.warn(`Schedule ${schedule.key} has unknown job type ${schedule.type}; skipping`)
+      return 0
+    }
+    if (runs.length === 0) {
+      console.log(`⏭️ Skipped missed runs of ${schedule.key}; next at ${nextRunAt.toISOString()}`)
+      return 0
+    }
+
+    const { priority, maxAttempts } = JOB_CATALOG[schedule.type]
+    const payload = { ...(schedule.payload ? JSON.parse(schedule.payload) : {}), source: 'schedule' }
+    let enqueued = 0
+
+    try {
+      for (const runAt of runs) {
+        const jobId = await this.queue.enqueueJob(schedule.type, payload, {
+          priority,
+          maxAttempts,
+          userId: schedule.userId || undefined,
+          deduplicationKey: `schedule_${schedule.id}_${runAt.getTime()}`,
+        })
+        await recordScheduleJob(schedule.id, jobId)
+        enqueued++
+
+        console.log(`Scheduled job ${jobId} of type ${schedule.type} for ${runAt.toISOString()}`)
+      }
+    } catch (error) {
+      console.error(`Failed to schedule job ${schedule.type}:`, error)
+      if (enqueued === 0) {
+        await releaseScheduleRun(schedule, nextRunAt)
+      }
+    }
+
+    return enqueued
+  }
+}
@@ -0,0 +1,372 @@
+/**
+ * Persisted Job Schedules
+ *
+ * Recurring jobs are rows in job_schedules: a job type, a five-field cron
+ * expression read in the schedule's time zone, and the next time it's due.
+ * JobScheduler fires them; this module owns the rows, the cron maths and the
+ * lease that makes sure only one scheduler instance fires at a time.
+ */
+
+import { JobSchedule, Prisma, PrismaClient } from '@prisma/client'
+import { CronExpressionParser } from 'cron-parser'
+import { JobType } from './jobTypes'
+
+const prisma = new PrismaClient()
+
+export const CATCH_UP_POLICIES = ['skip', 'once', 'all'] as const
+/**
+ * What to do with runs that came due while no scheduler was up:
+ * skip them, run once for all of them, or run each one (up to MAX_CATCH_UP_RUNS)
+ */
+export type CatchUpPolicy = typeof CATCH_UP_POLICIES[number]
+
+export const MAX_CATCH_UP_RUNS = 24
+
+// A run this close to its scheduled time is on time, not a missed run
+export const ON_TIME_GRACE_MS = 5 * 60 * 1000
+
+export interface ScheduleDefinition {
+  key: string
+  type: JobType
+  cronExpression: string
+  timezone?: string
+  catchUp?: CatchUpPolicy
+  enabled?: boolean
+  payload?: any
+  userId?: string
+}
+
+export interface ScheduleSummary {
+  id: string
+  key: string
+  type: string
+  userId: string | null
+  cronExpression: string
+  timezone: string
+  catchUp: CatchUpPolicy
+  enabled: boolean
+  nextRunAt: Date | null
+  lastRunAt: Date | null
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * Throws with a readable message when the expression or time zone is unusable
+ */
+export function validateCronExpression(cronExpression: string, timezone = 'UTC'): void {
+  if (cronExpression.trim().split(/\s+/).length !== 5) {
+    throw new Error(`Cron expression "${cronExpression}" must have five fields (minute hour day month weekday)`)
+  }
+  if (!isValidTimeZone(timezone)) {
+    throw new Error(`Unknown time zone "${timezone}"`)
+  }
+  CronExpressionParser.parse(cronExpression, { tz: timezone })
+}
+
+/**
+ * First time the expression fires strictly after the given time
+ */
+export function nextRunAfter(cronExpression: string, timezone: string, after: Date): Date {
+  return CronExpressionParser.parse(cronExpression, { currentDate: after, tz: timezone }).next().toDate()
+}
+
+/**
+ * Scheduled times a schedule should run for now, oldest first, following its catch-up policy
+ */
+export function dueRuns(schedule: Pick<JobSchedule, 'cronExpression' | 'timezone' | 'catchUp' | 'nextRunAt'>, now: Date): Date[] {
+  if (!schedule.nextRunAt || schedule.nextRunAt > now) return []
+
+  const missed: Date[] = [schedule.nextRunAt]
+  let runAt = schedule.nextRunAt
+  while (true) {
+    runAt = nextRunAfter(schedule.cronExpression, schedule.timezone, runAt)
+    if (runAt > now) break
+    missed.push(runAt)
+    if (missed.length > MAX_CATCH_UP_RUNS) missed.shift()
+  }
+
+  const latest = missed[missed.length - 1]
+  switch (schedule.catchUp as CatchUpPolicy) {
+    case 'skip':
+      return now.getTime() - latest.getTime() <= ON_TIME_GRACE_MS ? [latest] : []
+    case 'all':
+      return missed
+    case 'once':
+    default:
+      return [latest]
+  }
+}
+
+/**
+ * Create schedules that don't exist yet. Existing rows keep any edits made to them.
+ */
+export async function ensureSchedules(definitions: ScheduleDefinition[]): Promise<void> {
+  const now = new Date()
+
+  for (const definition of definitions) {
+    const timezone = definition.timezone || 'UTC'
+    const enabled = definition.enabled ?? true
+
+    await prisma.jobSchedule.upsert({
+      where: { key: definition.key },
+      update: {},
+      create: {
+        key: definition.key,
+        type: definition.type,
+        payload: definition.payload !== undefined ? JSON.stringify(definition.payload) : null,
+        userId: definition.userId,
+        cronExpression: definition.cronExpression,
+        timezone,
+        catchUp: definition.catchUp || 'once',
+        enabled,
+        nextRunAt: enabled ? nextRunAfter(definition.cronExpression, timezone, now) : null,
+      },
+    })
+  }
+}
+
+/**
+ * Change a schedule's timing. A new expression, time zone or re-enabling
+ * starts it afresh from now, so it doesn't catch up on the old timing.
+ */
+export async function updateSchedule(
+  key: string,
+  changes: Partial<Pick<ScheduleDefinition, 'cronExpression' | 'timezone' | 'catchUp' | 'enabled' | 'payload'>>
+): Promise<JobSchedule | null> {
+  const existing = await prisma.jobSchedule.findUnique({ where: { key } })
+  if (!existing) return null
+
+  const cronExpression = changes.cronExpression ?? existing.cronExpression
+  const timezone = changes.timezone ?? existing.timezone
+  const enabled = changes.enabled ?? existing.enabled
+  validateCronExpression(cronExpression, timezone)
+
+  const retimed = cronExpression !== existing.cronExpression || timezone !== existing.timezone || (enabled && !existing.enabled)
+  let nextRunAt = existing.nextRunAt
+  if (!enabled) {
+    nextRunAt = null
+  } else if (retimed || !nextRunAt) {
+    nextRunAt = nextRunAfter(cronExpression, timezone, new Date())
+  }
+
+  return prisma.jobSchedule.update({
+    where: { key },
+    data: {
+      cronExpression,
+      timezone,
+      enabled,
+      nextRunAt,
+      catchUp: changes.catchUp,
+      payload: changes.payload !== undefined ? JSON.stringify(changes.payload) : undefined,
+    },
+  })
+}
+
+/**
+ * Enabled schedules due at the given time
+ */
+export async function findDueSchedules(now: Date): Promise<JobSchedule[]> {
+  return prisma.jobSchedule.findMany({
+    where: {
+      enabled: true,
+      nextRunAt: { lte: now },
+    },
+    orderBy: { nextRunAt: 'asc' },
+  })
+}
+
+/**
+ * Move a due schedule on to its next run. Only succeeds for the caller that
+ * saw the current nextRunAt, so two instances can't both fire the same run.
+ */
+export async function claimScheduleRun(schedule: JobSchedule, nextRunAt: Date, lastRunAt?: Date): Promise<boolean> {
+  const { count } = await prisma.jobSchedule.updateMany({
+    where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+    data: { nextRunAt, lastRunAt },
+  })
+  return count > 0
+}
+
+export async function recordScheduleJob(id: string, jobId: string): Promise<void> {
+  await prisma.jobSchedule.update({
+    where: { id },
+    data: { lastJobId: jobId },
+  })
+}
+
+/**
+ * Put back a run that was claimed but couldn't be enqueued, so the next tick tries again
+ */
+export async function releaseScheduleRun(schedule: JobSchedule, claimedNextRunAt: Date): Promise<void> {
+  await prisma.jobSchedule.updateMany({
+    where: { id: schedule.id, nextRunAt: claimedNextRunAt },
+    data: { nextRunAt: schedule.nextRunAt, lastRunAt: schedule.lastRunAt },
+  })
+}
+
+/**
+ * Take or renew the named lease. Returns false while another owner holds an unexpired one.
+ */
+export async function acquireSchedulerLock(name: string, ownerId: string, ttlMs: number): Promise<boolean> {
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + ttlMs)
+
+  const { count } = await prisma.schedulerLock.updateMany({
+    where: {
+      name,
+      OR: [
+        { ownerId },
+        { expiresAt: { lt: now } },
+      ],
+    },
+    data: { ownerId, expiresAt },
+  })
+  if (count > 0) return true
+
+  try {
+    await prisma.schedulerLock.create({
+      data: { name, ownerId, expiresAt },
+    })
+    return true
+  } catch (error) {
+    // The lock row exists and someone else holds it
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false
+    }
+    throw error
+  }
+}
+
+export async function releaseSchedulerLock(name: string, ownerId: string): Promise<void> {
+  await prisma.schedulerLock.deleteMany({
+    where: { name, ownerId },
+  })
+}
+
+export function userScanScheduleKey(userId: string): string {
+  return `user_job_scan:${userId}`
+}
+
+/**
+ * Scan intervals a user can pick. A cron hour step restarts at midnight
+ * (every 7 hours runs at 0, 7, 14, 21 and again at 0), so only divisors
+ * of 24 give evenly spaced scans.
+ */
+export const SCAN_FREQUENCY_HOURS = [1, 2, 3, 4, 6, 8, 12, 24]
+
+export function isScanFrequencyHours(hours: number): boolean {
+  return SCAN_FREQUENCY_HOURS.includes(hours)
+}
+
+/**
+ * Cron expression for a scan every `hours` hours. Each user gets their own
+ * minute past the hour so scans don't all land at :00. Intervals saved
+ * before they were limited to SCAN_FREQUENCY_HOURS round down to one.
+ */
+export function scanFrequencyCron(userId: string, hours: number): string {
+  let hash = 0
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) % 60
+  }
+
+  const interval = [...SCAN_FREQUENCY_HOURS].reverse().find(allowed => allowed <= hours) ?? 1
+  if (interval >= 24) return `${hash} 0 * * *`
+  return `${hash} */${interval} * * *`
+}
+
+/**
+ * Make a user's job scan schedule match their auto-apply settings and time
+ * zone. Scans are enabled while both auto-apply and auto-scan are on.
+ * Returns the schedule, or null when the user has no settings and no schedule.
+ */
+export async function syncUserScanSchedule(userId: string): Promise<JobSchedule | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      timezone: true,
+      profile: {
+        select: {
+          autoApplySettings: {
+            select: { isEnabled: true, autoScanEnabled: true, scanFrequencyHours: true },
+          },
+        },
+      },
+    },
+  })
+  if (!user) return null
+
+  const key = userScanScheduleKey(userId)
+  const settings = user.profile?.autoApplySettings
+  const existing = await prisma.jobSchedule.findUnique({ where: { key } })
+
+  if (!settings) {
+    return existing ? updateSchedule(key, { enabled: false }) : null
+  }
+
+  const timezone = user.timezone && isValidTimeZone(user.timezone) ? user.timezone : 'UTC'
+  const cronExpression = scanFrequencyCron(userId, settings.scanFrequencyHours)
+  const enabled = settings.isEnabled && settings.autoScanEnabled
+
+  if (!existing) {
+    await ensureSchedules([{
+      key,
+      type: JobType.USER_JOB_SCAN,
+      cronExpression,
+      timezone,
+      catchUp: 'once',
+      enabled,
+      payload: { userId, source: 'schedule' },
+      userId,
+    }])
+    return prisma.jobSchedule.findUnique({ where: { key } })
+  }
+
+  if (existing.cronExpression === cronExpression && existing.timezone === timezone && existing.enabled === enabled) {
+    return existing
+  }
+  return updateSchedule(key, { cronExpression, timezone, enabled })
+}
+
+/**
+ * System schedules, plus the given user's own when a user ID is passed
+ */
+export async function listSchedules(userId?: string): Promise<ScheduleSummary[]> {
+  const schedules = await prisma.jobSchedule.findMany({
+    where: {
+      OR: [
+        { userId: null },
+        ...(userId ? [{ userId }] : []),
+      ],
+    },
+    orderBy: { key: 'asc' },
+  })
+  return schedules.map(toScheduleSummary)
+}
+
+export async function getUserScanSchedule(userId: string): Promise<ScheduleSummary | null> {
+  const schedule = await prisma.jobSchedule.findUnique({ where: { key: userScanScheduleKey(userId) } })
+  return schedule ? toScheduleSummary(schedule) : null
+}
+
+export function toScheduleSummary(schedule: JobSchedule): ScheduleSummary {
+  return {
+    id: schedule.id,
+    key: schedule.key,
+    type: schedule.type,
+    userId: schedule.userId,
+    cronExpression: schedule.cronExpression,
+    timezone: schedule.timezone,
+    catchUp: schedule.catchUp as CatchUpPolicy,
+    enabled: schedule.enabled,
+    nextRunAt: schedule.nextRunAt,
+    lastRunAt: schedule.lastRunAt,
+  }
+}
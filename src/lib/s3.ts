@@ -1,4 +1,4 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3'
+import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3'
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
 
 const s3Client = new S3Client({
@@ -42,6 +42,30 @@ export async function deleteFileFromS3(fileUrl: string): Promise<void> {
   await s3Client.send(command)
 }
 
+// Private objects addressed by key rather than URL, read back through our own API
+export async function putPrivateObject(key: string, body: Buffer, contentType: string): Promise<void> {
+  await s3Client.send(new PutObjectCommand({
+    Bucket: process.env.AWS_S3_BUCKET!,
+    Key: key,
+    Body: body,
+    ContentType: contentType,
+    ACL: 'private',
+  }))
+}
+
+export async function getPrivateObject(key: string): Promise<Buffer> {
+  const response = await s3Client.send(new GetObjectCommand({
+    Bucket: process.env.AWS_S3_BUCKET!,
+    Key: key,
+  }))
+
+  if (!response.Body) {
+    throw new Error(`Empty S3 object: ${key}`)
+  }
+
+  return Buffer.from(await response.Body.transformToByteArray())
+}
+
 export async function getSignedDownloadUrl(fileUrl: string): Promise<string> {
   const url = new URL(fileUrl)
   const key = url.pathname.substring(1)
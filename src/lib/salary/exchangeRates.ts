@@ -0,0 +1,89 @@
+/**
+ * Static exchange-rate tables used to compare salaries across currencies.
+ *
+ * Rates are deliberately static: salary filtering only needs to be roughly
+ * right, and a live FX dependency would make job scans flaky. Deployments can
+ * override individual rates with SALARY_EXCHANGE_RATES ("EUR=1.08,GBP=1.27")
+ * or swap the whole table with setExchangeRateTable().
+ */
+
+import { parseListEnv } from '../jobSources/utils'
+
+export const BASE_CURRENCY = 'USD'
+
+// Units of BASE_CURRENCY per one unit of each currency
+export type ExchangeRateTable = Record<string, number>
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  CAD: 0.73,
+  AUD: 0.66,
+  NZD: 0.6,
+  CHF: 1.13,
+  SEK: 0.095,
+  NOK: 0.093,
+  DKK: 0.145,
+  PLN: 0.25,
+  INR: 0.012,
+  SGD: 0.74,
+  HKD: 0.128,
+  JPY: 0.0067,
+  CNY: 0.138,
+  BRL: 0.18,
+  MXN: 0.055,
+  ZAR: 0.054,
+  ILS: 0.27,
+  AED: 0.272,
+}
+
+/**
+ * Parse "EUR=1.08,GBP=1.27" into a rate table, ignoring malformed entries
+ */
+export function parseExchangeRateEnv(value: string | undefined): ExchangeRateTable {
+  const table: ExchangeRateTable = {}
+
+  for (const entry of parseListEnv(value)) {
+    const [code, rate] = entry.split('=').map(part => part.trim())
+    const parsedRate = Number(rate)
+    if (code && Number.isFinite(parsedRate) && parsedRate > 0) {
+      table[code.toUpperCase()] = parsedRate
+    }
+  }
+
+  return table
+}
+
+let activeRates: ExchangeRateTable = {
+  ...DEFAULT_EXCHANGE_RATES,
+  ...parseExchangeRateEnv(process.env.SALARY_EXCHANGE_RATES),
+}
+
+/**
+ * Replace the active rate table, or merge into it with { merge: true }
+ */
+export function setExchangeRateTable(table: ExchangeRateTable, options: { merge?: boolean } = {}) {
+  const normalized: ExchangeRateTable = {}
+  Object.keys(table).forEach(code => {
+    normalized[code.toUpperCase()] = table[code]
+  })
+
+  activeRates = options.merge
+    ? { ...activeRates, ...normalized }
+    : { [BASE_CURRENCY]: 1, ...normalized }
+}
+
+export function getExchangeRateTable(): ExchangeRateTable {
+  return { ...activeRates }
+}
+
+/**
+ * Convert an amount to the base currency. Returns undefined for currencies
+ * missing from the table so callers can treat the salary as unknown.
+ */
+export function convertToBaseCurrency(amount: number, currency: string): number | undefined {
+  const rate = activeRates[currency.toUpperCase()]
+  if (!rate) return undefined
+  return amount * rate
+}
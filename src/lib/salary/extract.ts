@@ -0,0 +1,70 @@
+import { stripHtml } from '../jobSources/utils'
+import { buildStructuredSalary, normalizeCurrency, normalizeSalaryPeriod } from './normalize'
+import { StructuredSalary } from './types'
+
+const CURRENCY = '(US\\$|CA\\$|C\\$|AU\\$|A\\$|NZ\\$|S\\$|HK\\$|R\\$|\\$|£|€|₹|¥|\\b(?:USD|CAD|AUD|NZD|EUR|GBP|INR|CHF|SGD)\\b)'
+const AMOUNT = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)\\s*([kK])?'
+const SEPARATOR = '\\s*(?:-|–|—|to)\\s*'
+const PERIOD = '(?:\\s*(?:\\/|per|an?|each)\\s*(hour|hr|day|week|wk|month|mo|year|yr|annum)\\b|\\s+(hourly|daily|weekly|monthly|annually|yearly)\\b)?'
+
+// "$120,000 - $150,000 per year", "£45k–£55k", "USD 60 to 75/hr", "€70,000 annually"
+const SALARY_PATTERN = `${CURRENCY}\\s*${AMOUNT}(?:${SEPARATOR}${CURRENCY}?\\s*${AMOUNT})?${PERIOD}`
+
+// "$5M Series B", "$2 billion in revenue" - funding and revenue, not pay
+const NON_SALARY_SUFFIX = /^\s*(m|mm|million|b|bn|billion)\b/i
+
+// Below this a bare amount is more likely a fee or a perk than an hourly rate
+const MIN_PLAUSIBLE_AMOUNT = 7
+
+function parseAmount(amount: string, thousands?: string): number {
+  const value = parseFloat(amount.replace(/,/g, ''))
+  return thousands ? value * 1000 : value
+}
+
+/**
+ * Pull a salary out of free-text job description, for sources whose APIs
+ * don't return structured pay. Prefers explicit ranges and amounts with a
+ * stated period over stray single figures.
+ */
+export function extractSalaryFromText(text?: string | null, country?: string | null): StructuredSalary | undefined {
+  if (!text) return undefined
+
+  const plainText = stripHtml(text)
+  const pattern = new RegExp(SALARY_PATTERN, 'gi')
+  let fallback: StructuredSalary | undefined
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(plainText)) !== null) {
+    const [fullMatch, currency, firstAmount, firstK, , secondAmount, secondK, period, periodWord] = match
+    const rest = plainText.slice(match.index + fullMatch.length)
+    if (NON_SALARY_SUFFIX.test(rest)) continue
+
+    let min = parseAmount(firstAmount, firstK)
+    const max = secondAmount ? parseAmount(secondAmount, secondK) : undefined
+
+    // "$120-150k": the k on the upper bound applies to both
+    if (max !== undefined && !firstK && secondK && min < 1000) {
+      min *= 1000
+    }
+    if (min < MIN_PLAUSIBLE_AMOUNT) continue
+
+    const salary = buildStructuredSalary({
+      min,
+      max: max ?? min, // A single figure is the pay, not a floor
+      currency: normalizeCurrency(currency, country),
+      period: normalizeSalaryPeriod(period || periodWord),
+      source: 'description',
+    })
+    if (!salary) continue
+
+    if (max !== undefined || period || periodWord) {
+      return salary
+    }
+    // A lone figure only counts if it looks like a yearly salary
+    if (!fallback && salary.period === 'YEAR') {
+      fallback = salary
+    }
+  }
+
+  return fallback
+}
@@ -0,0 +1,55 @@
+/**
+ * Salary Module Main Export
+ *
+ * Structured salaries with currency and pay period, normalized to a yearly
+ * base-currency amount so roles can be compared and filtered.
+ */
+
+import { NormalizedJob } from '../jobAPIs'
+import { extractSalaryFromText } from './extract'
+import { formatSalaryRange } from './normalize'
+
+export type { SalaryPeriod, StructuredSalary, AnnualSalary, SalaryFields } from './types'
+export { SALARY_PERIODS } from './types'
+
+export {
+  BASE_CURRENCY,
+  DEFAULT_EXCHANGE_RATES,
+  setExchangeRateTable,
+  getExchangeRateTable,
+  convertToBaseCurrency,
+  parseExchangeRateEnv,
+} from './exchangeRates'
+export type { ExchangeRateTable } from './exchangeRates'
+
+export {
+  normalizeSalaryPeriod,
+  normalizeCurrency,
+  currencyForCountry,
+  inferSalaryPeriod,
+  buildStructuredSalary,
+  annualize,
+  toAnnualSalary,
+  salaryMatchesRange,
+  formatSalaryRange,
+  toSalaryFields,
+  pickSalaryFields,
+} from './normalize'
+
+export { extractSalaryFromText }
+
+/**
+ * Fill in a job's salary from its description when the source didn't provide one
+ */
+export function withStructuredSalary<T extends NormalizedJob>(job: T): T {
+  if (job.salary) return job
+
+  const salary = extractSalaryFromText(job.description)
+  if (!salary) return job
+
+  return {
+    ...job,
+    salary,
+    salaryRange: job.salaryRange || formatSalaryRange(salary),
+  }
+}
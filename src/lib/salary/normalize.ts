@@ -0,0 +1,203 @@
+import { BASE_CURRENCY, convertToBaseCurrency } from './exchangeRates'
+import { AnnualSalary, SalaryFields, SalaryPeriod, StructuredSalary } from './types'
+
+// Working time in a year, used to annualize hourly/daily/weekly/monthly pay
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  HOUR: 2080, // 40h x 52 weeks
+  DAY: 260,
+  WEEK: 52,
+  MONTH: 12,
+  YEAR: 1,
+}
+
+const PERIOD_ALIASES: Record<string, SalaryPeriod> = {
+  hour: 'HOUR', hourly: 'HOUR', hr: 'HOUR', h: 'HOUR',
+  day: 'DAY', daily: 'DAY',
+  week: 'WEEK', weekly: 'WEEK', wk: 'WEEK',
+  month: 'MONTH', monthly: 'MONTH', mo: 'MONTH', mth: 'MONTH',
+  year: 'YEAR', yearly: 'YEAR', yr: 'YEAR', annual: 'YEAR', annually: 'YEAR', annum: 'YEAR', y: 'YEAR',
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD',
+  'C$': 'CAD',
+  'CA$': 'CAD',
+  'A$': 'AUD',
+  'AU$': 'AUD',
+  'NZ$': 'NZD',
+  'S$': 'SGD',
+  'HK$': 'HKD',
+  'R$': 'BRL',
+  '£': 'GBP',
+  '€': 'EUR',
+  '₹': 'INR',
+  '¥': 'JPY',
+  '₪': 'ILS',
+}
+
+// Currency a bare "$" most likely means, by job country
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  US: 'USD', CA: 'CAD', GB: 'GBP', UK: 'GBP', IE: 'EUR', DE: 'EUR', FR: 'EUR', NL: 'EUR',
+  ES: 'EUR', IT: 'EUR', PT: 'EUR', AU: 'AUD', NZ: 'NZD', IN: 'INR', SG: 'SGD', CH: 'CHF',
+  SE: 'SEK', NO: 'NOK', DK: 'DKK', PL: 'PLN', JP: 'JPY', BR: 'BRL', MX: 'MXN', IL: 'ILS',
+}
+
+export function normalizeSalaryPeriod(period?: string | null): SalaryPeriod | undefined {
+  if (!period) return undefined
+  const key = period.toLowerCase().replace(/^per\s+|^an?\s+|^\/\s*/, '').replace(/s$/, '').trim()
+  return PERIOD_ALIASES[key]
+}
+
+/**
+ * "usd", "$", "C$", "£" -> ISO code. A bare "$" resolves via the job's country.
+ */
+export function normalizeCurrency(currency?: string | null, country?: string | null): string | undefined {
+  if (!currency) return country ? currencyForCountry(country) : undefined
+
+  const trimmed = currency.trim()
+  if (trimmed === '$') return (country && currencyForCountry(country)) || 'USD'
+  if (CURRENCY_SYMBOLS[trimmed.toUpperCase()]) return CURRENCY_SYMBOLS[trimmed.toUpperCase()]
+  if (CURRENCY_SYMBOLS[trimmed]) return CURRENCY_SYMBOLS[trimmed]
+  if (/^[a-z]{3}$/i.test(trimmed)) return trimmed.toUpperCase()
+
+  return undefined
+}
+
+export function currencyForCountry(country: string): string | undefined {
+  return COUNTRY_CURRENCIES[country.trim().toUpperCase()]
+}
+
+/**
+ * Best guess at the pay period when a source gives amounts without one:
+ * nobody advertises a $45/year job or a $90,000/hour one
+ */
+export function inferSalaryPeriod(amount: number): SalaryPeriod {
+  if (amount < 300) return 'HOUR'
+  if (amount < 20000) return 'MONTH'
+  return 'YEAR'
+}
+
+/**
+ * Build a salary from raw figures, dropping it when there's nothing usable
+ */
+export function buildStructuredSalary(input: {
+  min?: number | null
+  max?: number | null
+  currency?: string
+  period?: SalaryPeriod
+  source: StructuredSalary['source']
+}): StructuredSalary | undefined {
+  let min = input.min && input.min > 0 ? input.min : undefined
+  let max = input.max && input.max > 0 ? input.max : undefined
+  if (min === undefined && max === undefined) return undefined
+
+  if (min !== undefined && max !== undefined && min > max) {
+    [min, max] = [max, min]
+  }
+
+  return {
+    min,
+    max,
+    currency: input.currency || BASE_CURRENCY,
+    period: input.period || inferSalaryPeriod((min ?? max) as number),
+    source: input.source,
+  }
+}
+
+export function annualize(amount: number, period: SalaryPeriod): number {
+  return amount * PERIODS_PER_YEAR[period]
+}
+
+/**
+ * Yearly pay in the base currency. Undefined when the currency has no
+ * exchange rate, so unknown salaries are never filtered on.
+ */
+export function toAnnualSalary(salary: StructuredSalary): AnnualSalary | undefined {
+  const convert = (amount?: number) => {
+    if (amount === undefined) return undefined
+    const converted = convertToBaseCurrency(annualize(amount, salary.period), salary.currency)
+    return converted === undefined ? undefined : Math.round(converted)
+  }
+
+  const min = convert(salary.min)
+  const max = convert(salary.max)
+  if (min === undefined && max === undefined) return undefined
+
+  return { min, max, currency: BASE_CURRENCY }
+}
+
+/**
+ * Whether a role's annual pay overlaps the range a user is looking for.
+ * Undefined when either side has no figures to compare.
+ */
+export function salaryMatchesRange(
+  salary: AnnualSalary,
+  range: { min?: number | null; max?: number | null }
+): boolean | undefined {
+  if (!range.min && !range.max) return undefined
+
+  const jobLow = salary.min ?? salary.max
+  const jobHigh = salary.max ?? salary.min
+  if (jobLow === undefined || jobHigh === undefined) return undefined
+
+  // Pays less than the user's floor, even at the top of its range
+  if (range.min && jobHigh < range.min) return false
+  // Pays more than the user's ceiling at the bottom of its range,
+  // which usually means the role is pitched at a different seniority
+  if (range.max && jobLow > range.max) return false
+
+  return true
+}
+
+const PERIOD_LABELS: Record<SalaryPeriod, string> = {
+  HOUR: 'hour',
+  DAY: 'day',
+  WEEK: 'week',
+  MONTH: 'month',
+  YEAR: 'year',
+}
+
+/**
+ * Display string kept in the legacy salaryRange column: "USD 120,000 - 150,000 / year"
+ */
+export function formatSalaryRange(salary: StructuredSalary): string {
+  const amounts = salary.min !== undefined && salary.max !== undefined && salary.min !== salary.max
+    ? `${salary.min.toLocaleString()} - ${salary.max.toLocaleString()}`
+    : salary.min !== undefined && salary.max !== undefined
+    ? salary.min.toLocaleString()
+    : salary.min !== undefined
+    ? `From ${salary.min.toLocaleString()}`
+    : `Up to ${(salary.max as number).toLocaleString()}`
+
+  return `${salary.currency} ${amounts} / ${PERIOD_LABELS[salary.period]}`
+}
+
+/**
+ * Database columns for a salary, ready to spread into Job or Application data
+ */
+export function toSalaryFields(salary?: StructuredSalary): SalaryFields {
+  const annual = salary ? toAnnualSalary(salary) : undefined
+
+  return {
+    salaryMin: salary?.min ?? null,
+    salaryMax: salary?.max ?? null,
+    salaryCurrency: salary?.currency ?? null,
+    salaryPeriod: salary?.period ?? null,
+    annualSalaryMin: annual?.min ?? null,
+    annualSalaryMax: annual?.max ?? null,
+  }
+}
+
+/**
+ * Copy the salary columns from a stored Job onto a new Application
+ */
+export function pickSalaryFields(record: Partial<SalaryFields>): SalaryFields {
+  return {
+    salaryMin: record.salaryMin ?? null,
+    salaryMax: record.salaryMax ?? null,
+    salaryCurrency: record.salaryCurrency ?? null,
+    salaryPeriod: record.salaryPeriod ?? null,
+    annualSalaryMin: record.annualSalaryMin ?? null,
+    annualSalaryMax: record.annualSalaryMax ?? null,
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Salary Types
+ */
+
+// Mirrors the SalaryPeriod enum in the Prisma schema
+export type SalaryPeriod = 'HOUR' | 'DAY' | 'WEEK' | 'MONTH' | 'YEAR'
+
+export const SALARY_PERIODS: SalaryPeriod[] = ['HOUR', 'DAY', 'WEEK', 'MONTH', 'YEAR']
+
+/**
+ * Salary as advertised: the posting's own currency and pay period
+ */
+export interface StructuredSalary {
+  min?: number
+  max?: number
+  currency: string // ISO 4217 code
+  period: SalaryPeriod
+  source: 'api' | 'description' // Where the figures came from
+}
+
+/**
+ * Salary converted to a yearly amount in the base currency, for comparing
+ * roles that are advertised in different currencies and pay periods
+ */
+export interface AnnualSalary {
+  min?: number
+  max?: number
+  currency: string // Always the base currency
+}
+
+/**
+ * Salary columns shared by the Job and Application models
+ */
+export interface SalaryFields {
+  salaryMin: number | null
+  salaryMax: number | null
+  salaryCurrency: string | null
+  salaryPeriod: SalaryPeriod | null
+  annualSalaryMin: number | null
+  annualSalaryMax: number | null
+}
@@ -0,0 +1,103 @@
+/**
+ * Selector pack fixture checks
+ *
+ * Runs a pack against a saved page already open in the browser and reports
+ * every expectation from the fixture manifest that the pack fails to meet.
+ */
+
+import { Page } from 'puppeteer'
+import {
+  extractConfirmationId,
+  findBlocker,
+  findFirst,
+  findInvalidSelectors,
+  isSuccessPage,
+  waitForAny,
+} from './resolve'
+import { FixtureCheckResult, SelectorPack, SelectorPackFixture } from './types'
+
+const READY_TIMEOUT_MS = 3000
+
+/**
+ * Every selector a pack contains, for syntax checks
+ */
+export function allPackSelectors(pack: SelectorPack): string[] {
+  const lists: (string[] | undefined)[] = [
+    pack.ready.jobPage,
+    pack.ready.form,
+    ...Object.keys(pack.fields).map(field => pack.fields[field as keyof SelectorPack['fields']]),
+    ...Object.keys(pack.buttons).map(button => pack.buttons[button as keyof SelectorPack['buttons']]),
+    pack.questions ? [pack.questions.container] : undefined,
+    pack.questions?.label ? [pack.questions.label] : undefined,
+    pack.blockers,
+    pack.success.selectors,
+    pack.confirmationId.selectors,
+  ]
+  return lists.reduce<string[]>((all, list) => all.concat(list || []), [])
+}
+
+export async function checkFixture(
+  page: Page,
+  pack: SelectorPack,
+  fixture: SelectorPackFixture
+): Promise<FixtureCheckResult> {
+  const failures: string[] = []
+  const matched: Record<string, string> = {}
+
+  const invalid = await findInvalidSelectors(page, allPackSelectors(pack))
+  invalid.forEach(selector => failures.push(`Invalid selector: ${selector}`))
+
+  // A blocked page never shows the job, so there is nothing else to look for
+  if (fixture.page === 'job' && pack.ready.jobPage && !fixture.blocked) {
+    const ready = await waitForAny(page, pack.ready.jobPage, READY_TIMEOUT_MS)
+    if (ready) matched['ready.jobPage'] = ready.selector
+    else failures.push('Job page not recognised (ready.jobPage)')
+  }
+
+  if (fixture.page === 'form') {
+    const ready = await waitForAny(page, pack.ready.form, READY_TIMEOUT_MS)
+    if (ready) matched['ready.form'] = ready.selector
+    else failures.push('Application form not recognised (ready.form)')
+  }
+
+  for (const field of fixture.fields || []) {
+    const match = await findFirst(page, pack.fields[field])
+    if (match) matched[`fields.${field}`] = match.selector
+    else failures.push(`No selector matched field "${field}"`)
+  }
+
+  for (const button of fixture.buttons || []) {
+    const match = await findFirst(page, pack.buttons[button])
+    if (match) matched[`buttons.${button}`] = match.selector
+    else failures.push(`No selector matched button "${button}"`)
+  }
+
+  if (fixture.questions) {
+    const found = pack.questions ? (await page.$$(pack.questions.container)).length : 0
+    if (found < fixture.questions) {
+      failures.push(`Found ${found} question containers, expected at least ${fixture.questions}`)
+    }
+  }
+
+  if (fixture.blocked !== undefined) {
+    const blocker = await findBlocker(page, pack)
+    if (blocker) matched.blocker = blocker.selector
+    if (!!blocker !== fixture.blocked) {
+      failures.push(fixture.blocked ? 'Blocker not detected' : `Unexpected blocker: ${blocker?.selector}`)
+    }
+  }
+
+  if (fixture.page === 'confirmation') {
+    if (!(await isSuccessPage(page, pack))) {
+      failures.push('Confirmation page not recognised (success)')
+    }
+    if (fixture.confirmationId !== undefined) {
+      const confirmationId = await extractConfirmationId(page, pack)
+      if (confirmationId !== fixture.confirmationId) {
+        failures.push(`Confirmation ID was ${JSON.stringify(confirmationId)}, expected ${JSON.stringify(fixture.confirmationId)}`)
+      }
+    }
+  }
+
+  return { fixture, packVersion: pack.version, failures, matched }
+}
@@ -0,0 +1,38 @@
+/**
+ * Selector Packs Module Main Export
+ *
+ * Per-platform ATS selectors (fields, buttons, success indicators and
+ * confirmation ID rules) kept as versioned data that can be updated at
+ * runtime, plus the checks that run them against saved application pages.
+ */
+
+export type {
+  SelectorPackPlatform,
+  PackField,
+  PackButton,
+  SelectorPack,
+  SelectorPackSource,
+  SelectorMatch,
+  SelectorPackFixture,
+  FixtureCheckResult,
+} from './types'
+
+export {
+  SELECTOR_PACK_PLATFORMS,
+  selectorPackSchema,
+  getBundledSelectorPack,
+  loadSelectorPack,
+  loadSelectorPackSource,
+  clearSelectorPackCache,
+} from './loader'
+
+export {
+  findFirst,
+  findInvalidSelectors,
+  waitForAny,
+  findBlocker,
+  isSuccessPage,
+  extractConfirmationId,
+} from './resolve'
+
+export { allPackSelectors, checkFixture } from './harness'
@@ -0,0 +1,168 @@
+/**
+ * Selector pack loading
+ *
+ * Packs ship with the app under ./packs and can be replaced at runtime
+ * without a redeploy: point SELECTOR_PACKS_DIR at a directory, or
+ * SELECTOR_PACKS_URL at a base URL, serving `<platform>.json`. Overrides are
+ * validated and re-read every few minutes; an invalid or unreachable
+ * override falls back to the bundled pack.
+ */
+
+import { z } from 'zod'
+import indeedPack from './packs/indeed.json'
+import greenhousePack from './packs/greenhouse.json'
+import leverPack from './packs/lever.json'
+import linkedinPack from './packs/linkedin.json'
+import { SelectorPack, SelectorPackPlatform, SelectorPackSource } from './types'
+
+const CACHE_TTL_MS = 5 * 60 * 1000
+
+export const SELECTOR_PACK_PLATFORMS: SelectorPackPlatform[] = ['indeed', 'greenhouse', 'lever', 'linkedin']
+
+const selectorList = z.array(z.string().min(1))
+
+const regexPattern = z.string().refine(pattern => {
+  try {
+    new RegExp(pattern, 'i')
+    return true
+  } catch (error) {
+    return false
+  }
+}, 'Invalid regular expression')
+
+const fieldSelectors = z.object({
+  fullName: selectorList.optional(),
+  firstName: selectorList.optional(),
+  lastName: selectorList.optional(),
+  email: selectorList.optional(),
+  phone: selectorList.optional(),
+  resume: selectorList.optional(),
+  coverLetter: selectorList.optional(),
+  linkedin: selectorList.optional(),
+  portfolio: selectorList.optional(),
+})
+
+export const selectorPackSchema = z.object({
+  platform: z.enum(['indeed', 'greenhouse', 'lever', 'linkedin']),
+  version: z.number().int().positive(),
+  updatedAt: z.string(),
+  ready: z.object({
+    jobPage: selectorList.min(1).optional(),
+    form: selectorList.min(1),
+  }),
+  fields: fieldSelectors,
+  buttons: z.object({
+    apply: selectorList.optional(),
+    submit: selectorList.optional(),
+    next: selectorList.optional(),
+  }),
+  questions: z.object({
+    container: z.string().min(1),
+    label: z.string().min(1).optional(),
+  }).optional(),
+  blockers: selectorList.optional(),
+  success: z.object({
+    selectors: selectorList,
+    urlPatterns: z.array(z.string().min(1)),
+  }),
+  confirmationId: z.object({
+    selectors: selectorList,
+    patterns: z.array(regexPattern),
+  }),
+})
+
+// Shipped packs are checked at load so a bad edit fails fast, not mid-application
+const BUNDLED_PACKS: Record<SelectorPackPlatform, SelectorPack> = {
+  indeed: selectorPackSchema.parse(indeedPack),
+  greenhouse: selectorPackSchema.parse(greenhousePack),
+  lever: selectorPackSchema.parse(leverPack),
+  linkedin: selectorPackSchema.parse(linkedinPack),
+}
+
+const cache = new Map<SelectorPackPlatform, { source: SelectorPackSource; expiresAt: number }>()
+
+export function getBundledSelectorPack(platform: SelectorPackPlatform): SelectorPack {
+  return BUNDLED_PACKS[platform]
+}
+
+async function readOverride(platform: SelectorPackPlatform): Promise<{ raw: unknown; location: string } | null> {
+  const dir = process.env.SELECTOR_PACKS_DIR
+  if (dir) {
+    const fs = await import('fs/promises')
+    const path = await import('path')
+    const location = path.join(dir, `${platform}.json`)
+    try {
+      return { raw: JSON.parse(await fs.readFile(location, 'utf8')), location }
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  const baseUrl = process.env.SELECTOR_PACKS_URL
+  if (baseUrl) {
+    const location = `${baseUrl.replace(/\/+$/, '')}/${platform}.json`
+    const response = await fetch(location, { cache: 'no-store' })
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`Failed to fetch selector pack: ${response.status}`)
+    }
+    return { raw: await response.json(), location }
+  }
+
+  return null
+}
+
+async function resolvePack(platform: SelectorPackPlatform): Promise<SelectorPackSource> {
+  const bundled: SelectorPackSource = { pack: BUNDLED_PACKS[platform], source: 'bundled' }
+
+  try {
+    const override = await readOverride(platform)
+    if (!override) return bundled
+
+    const parsed = selectorPackSchema.safeParse(override.raw)
+    if (!parsed.success) {
+      console.error(`Invalid selector pack at ${override.location}:`, parsed.error.issues)
+      return bundled
+    }
+    if (parsed.data.platform !== platform) {
+      console.error(`Selector pack at ${override.location} is for ${parsed.data.platform}, not ${platform}`)
+      return bundled
+    }
+
+    // A stale override must not shadow a newer pack shipped in a deploy
+    if (parsed.data.version < bundled.pack.version) {
+      console.log(`⚠️ Ignoring ${platform} selector pack v${parsed.data.version} at ${override.location}; bundled v${bundled.pack.version} is newer`)
+      return bundled
+    }
+
+    return { pack: parsed.data, source: 'override', location: override.location }
+  } catch (error) {
+    console.error(`Selector pack override error (${platform}):`, error)
+    return bundled
+  }
+}
+
+/**
+ * Current pack for a platform along with where it came from
+ */
+export async function loadSelectorPackSource(platform: SelectorPackPlatform): Promise<SelectorPackSource> {
+  const cached = cache.get(platform)
+  if (cached && cached.expiresAt > Date.now()) return cached.source
+
+  const source = await resolvePack(platform)
+  cache.set(platform, { source, expiresAt: Date.now() + CACHE_TTL_MS })
+
+  if (source.source === 'override') {
+    console.log(`🧩 Using ${platform} selector pack v${source.pack.version} from ${source.location}`)
+  }
+  return source
+}
+
+export async function loadSelectorPack(platform: SelectorPackPlatform): Promise<SelectorPack> {
+  return (await loadSelectorPackSource(platform)).pack
+}
+
+export function clearSelectorPackCache(): void {
+  cache.clear()
+}
@@ -0,0 +1,107 @@
+/**
+ * Applying a selector pack to a live page
+ *
+ * Shared by the automation and the fixture harness so the harness exercises
+ * exactly the lookups an application run makes.
+ */
+
+import { Page } from 'puppeteer'
+import { SelectorMatch, SelectorPack } from './types'
+
+/**
+ * First selector in the list that matches an element. A selector the
+ * browser rejects is skipped, like one that matches nothing.
+ */
+export async function findFirst(page: Page, selectors: string[] = []): Promise<SelectorMatch | null> {
+  for (const selector of selectors) {
+    try {
+      const element = await page.$(selector)
+      if (element) return { selector, element }
+    } catch (error) {
+      continue
+    }
+  }
+  return null
+}
+
+/**
+ * Selectors in the list the browser can't parse
+ */
+export async function findInvalidSelectors(page: Page, selectors: string[]): Promise<string[]> {
+  const invalid: string[] = []
+  for (const selector of selectors) {
+    try {
+      await page.$(selector)
+    } catch (error) {
+      invalid.push(selector)
+    }
+  }
+  return invalid
+}
+
+/**
+ * Wait for any of the selectors. Plain CSS selectors are waited on as one
+ * list; Puppeteer pseudo-selectors need their own query each.
+ */
+export async function waitForAny(page: Page, selectors: string[], timeout: number): Promise<SelectorMatch | null> {
+  const css = selectors.filter(selector => !selector.includes('::-p-'))
+  const custom = selectors.filter(selector => selector.includes('::-p-'))
+
+  const waits = [
+    ...(css.length > 0 ? [page.waitForSelector(css.join(', '), { timeout })] : []),
+    ...custom.map(selector => page.waitForSelector(selector, { timeout })),
+  ]
+  if (waits.length === 0) return null
+
+  const found = await new Promise<boolean>(resolve => {
+    let remaining = waits.length
+    const settle = (element: unknown) => {
+      remaining--
+      if (element) resolve(true)
+      else if (remaining === 0) resolve(false)
+    }
+    // A timeout or an unparseable selector only settles that one wait
+    waits.forEach(wait => wait.then(settle, () => settle(null)))
+  })
+  if (!found) return null
+
+  return findFirst(page, selectors)
+}
+
+export async function findBlocker(page: Page, pack: SelectorPack): Promise<SelectorMatch | null> {
+  return findFirst(page, pack.blockers)
+}
+
+/**
+ * Whether the page looks like the platform's post-submit confirmation
+ */
+export async function isSuccessPage(page: Page, pack: SelectorPack): Promise<boolean> {
+  const url = page.url().toLowerCase()
+  if (pack.success.urlPatterns.some(pattern => url.includes(pattern.toLowerCase()))) return true
+  return !!(await findFirst(page, pack.success.selectors))
+}
+
+/**
+ * Confirmation ID from the pack's ID elements, else the first text pattern
+ * that matches the page
+ */
+export async function extractConfirmationId(page: Page, pack: SelectorPack): Promise<string | null> {
+  for (const selector of pack.confirmationId.selectors) {
+    try {
+      const element = await page.$(selector)
+      const text = element ? await element.evaluate((el: any) => el.textContent) : null
+      if (text && text.trim()) return text.trim()
+    } catch (error) {
+      continue
+    }
+  }
+
+  if (pack.confirmationId.patterns.length === 0) return null
+
+  const pageText: string = await page.evaluate(() => document.body?.innerText || '')
+  for (const pattern of pack.confirmationId.patterns) {
+    const match = pageText.match(new RegExp(pattern, 'i'))
+    if (match?.[1]) return match[1].trim()
+  }
+  return null
+}
@@ -0,0 +1,81 @@
+/**
+ * Selector Pack Types
+ */
+
+import { ElementHandle } from 'puppeteer'
+
+export type SelectorPackPlatform = 'indeed' | 'greenhouse' | 'lever' | 'linkedin'
+
+// Applicant fields a pack knows how to locate
+export type PackField =
+  | 'fullName'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'resume'
+  | 'coverLetter'
+  | 'linkedin'
+  | 'portfolio'
+
+export type PackButton = 'apply' | 'submit' | 'next'
+
+/**
+ * Everything the automation needs to find on one ATS, as data. Each list is
+ * tried in order and the first selector that matches wins. Puppeteer
+ * selectors such as `button::-p-text(Submit)` are allowed.
+ */
+export interface SelectorPack {
+  platform: SelectorPackPlatform
+  version: number // Bumped on every change; the higher of bundled and override wins
+  updatedAt: string
+  ready: {
+    jobPage?: string[] // Job page has loaded and can be applied to
+    form: string[] // Application form has rendered
+  }
+  fields: Partial<Record<PackField, string[]>>
+  buttons: Partial<Record<PackButton, string[]>>
+  questions?: {
+    container: string // One element per employer-specific question
+    label?: string
+  }
+  blockers?: string[] // Login walls and the like; automation hands back to the user
+  success: {
+    selectors: string[]
+    urlPatterns: string[] // Case-insensitive substrings of the confirmation URL
+  }
+  confirmationId: {
+    selectors: string[] // Elements whose text is the confirmation ID
+    patterns: string[] // Regexes run over the page text; capture group 1 is the ID
+  }
+}
+
+export interface SelectorPackSource {
+  pack: SelectorPack
+  source: 'bundled' | 'override'
+  location?: string // Override file or URL
+}
+
+export interface SelectorMatch {
+  selector: string
+  element: ElementHandle<Element>
+}
+
+// A saved page and what the platform's pack must find on it
+export interface SelectorPackFixture {
+  platform: SelectorPackPlatform
+  file: string // Relative to the fixtures directory
+  page: 'job' | 'form' | 'confirmation'
+  fields?: PackField[]
+  buttons?: PackButton[]
+  questions?: number // Minimum number of question containers
+  blocked?: boolean // A blocker (e.g. login wall) must be detected
+  confirmationId?: string | null // Expected extracted ID; null when the page shows none
+}
+
+export interface FixtureCheckResult {
+  fixture: SelectorPackFixture
+  packVersion: number
+  failures: string[]
+  matched: Record<string, string> // Check name → selector that satisfied it
+}
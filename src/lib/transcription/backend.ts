@@ -0,0 +1,69 @@
+/**
+ * Transcription Backend Selection
+ *
+ * TRANSCRIPTION_BACKEND picks who turns recorded answers into text: "local"
+ * (a Whisper-compatible server at WHISPER_API_URL) or "openai" (hosted
+ * Whisper, OPENAI_API_KEY). Left unset, a local server wins when one is
+ * configured, so recordings stay on your own infrastructure.
+ */
+
+import { LocalWhisperBackend } from './backends/local'
+import { OpenAIWhisperBackend } from './backends/openai'
+import { TRANSCRIPTION_BACKEND_IDS, TranscriptionBackend, TranscriptionBackendId } from './types'
+
+export function transcriptionBackendFromEnv(): TranscriptionBackendId | null {
+  const configured = process.env.TRANSCRIPTION_BACKEND?.toLowerCase()
+
+  if (configured) {
+    if (!TRANSCRIPTION_BACKEND_IDS.includes(configured as TranscriptionBackendId)) {
+      throw new Error(`Unknown TRANSCRIPTION_BACKEND "${configured}". Expected one of ${TRANSCRIPTION_BACKEND_IDS.join(', ')}`)
+    }
+    return configured as TranscriptionBackendId
+  }
+
+  if (process.env.WHISPER_API_URL) return 'local'
+  if (process.env.OPENAI_API_KEY) return 'openai'
+  return null
+}
+
+export function createTranscriptionBackend(id: TranscriptionBackendId): TranscriptionBackend {
+  switch (id) {
+    case 'local':
+      if (!process.env.WHISPER_API_URL) {
+        throw new Error('TRANSCRIPTION_BACKEND=local requires WHISPER_API_URL')
+      }
+      return new LocalWhisperBackend(
+        process.env.WHISPER_API_URL,
+        process.env.WHISPER_MODEL || 'whisper-1',
+        process.env.WHISPER_API_KEY || undefined
+      )
+
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('TRANSCRIPTION_BACKEND=openai requires OPENAI_API_KEY')
+      }
+      return new OpenAIWhisperBackend(process.env.OPENAI_API_KEY, process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1')
+  }
+}
+
+let transcriptionBackend: TranscriptionBackend | null = null
+
+/**
+ * The configured backend, or null when transcription is off
+ */
+export function getTranscriptionBackend(): TranscriptionBackend | null {
+  if (!transcriptionBackend) {
+    const id = transcriptionBackendFromEnv()
+    if (!id) return null
+    transcriptionBackend = createTranscriptionBackend(id)
+  }
+  return transcriptionBackend
+}
+
+export function isTranscriptionConfigured(): boolean {
+  try {
+    return transcriptionBackendFromEnv() !== null
+  } catch (error) {
+    return false
+  }
+}
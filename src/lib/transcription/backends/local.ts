@@ -0,0 +1,40 @@
+import { Transcript, TranscriptionBackend, TranscriptionInput } from '../types'
+import { DISFLUENCY_PROMPT, parseVerboseTranscription } from '../verboseJson'
+
+const REQUEST_TIMEOUT_MS = 120000 // CPU-only Whisper can take a while on a two-minute answer
+
+/**
+ * A self-hosted Whisper server exposing the OpenAI-compatible
+ * /v1/audio/transcriptions endpoint (WHISPER_API_URL), e.g.
+ * faster-whisper-server, LocalAI or whisper.cpp's server
+ */
+export class LocalWhisperBackend implements TranscriptionBackend {
+  readonly id = 'local' as const
+
+  constructor(private baseUrl: string, private model: string, private apiKey?: string) {}
+
+  async transcribe(input: TranscriptionInput): Promise<Transcript> {
+    const form = new FormData()
+    form.append('file', new Blob([new Uint8Array(input.audio)], { type: input.mimeType }), input.fileName)
+    form.append('model', this.model)
+    form.append('response_format', 'verbose_json')
+    form.append('timestamp_granularities[]', 'segment')
+    form.append('timestamp_granularities[]', 'word')
+    form.append('prompt', DISFLUENCY_PROMPT)
+    if (input.language) form.append('language', input.language)
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/v1/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+      body: form,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      throw new Error(`Whisper server rejected the audio (${response.status}): ${body.substring(0, 200) || response.statusText}`)
+    }
+
+    return parseVerboseTranscription(this.id, await response.json())
+  }
+}
@@ -0,0 +1,34 @@
+import OpenAI, { toFile } from 'openai'
+import { Transcript, TranscriptionBackend, TranscriptionInput } from '../types'
+import { DISFLUENCY_PROMPT, parseVerboseTranscription, VerboseTranscriptionResponse } from '../verboseJson'
+
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024 // The API's upload limit
+
+/**
+ * OpenAI's hosted Whisper (OPENAI_API_KEY)
+ */
+export class OpenAIWhisperBackend implements TranscriptionBackend {
+  readonly id = 'openai' as const
+  private client: OpenAI
+
+  constructor(apiKey: string, private model: string) {
+    this.client = new OpenAI({ apiKey })
+  }
+
+  async transcribe(input: TranscriptionInput): Promise<Transcript> {
+    if (input.audio.length > MAX_AUDIO_BYTES) {
+      throw new Error(`Recording is ${Math.round(input.audio.length / 1024 / 1024)}MB; OpenAI accepts up to 25MB`)
+    }
+
+    const response = await this.client.audio.transcriptions.create({
+      file: await toFile(input.audio, input.fileName, { type: input.mimeType }),
+      model: this.model,
+      response_format: 'verbose_json',
+      timestamp_granularities: ['segment', 'word'],
+      prompt: DISFLUENCY_PROMPT,
+      language: input.language,
+    })
+
+    return parseVerboseTranscription(this.id, response as VerboseTranscriptionResponse)
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Transcription Module Main Export
+ */
+
+export * from './types'
+export { transcriptionBackendFromEnv, createTranscriptionBackend, getTranscriptionBackend, isTranscriptionConfigured } from './backend'
+export { computeSpeakingMetrics, LONG_PAUSE_SECONDS } from './metrics'
@@ -0,0 +1,93 @@
+/**
+ * Speaking Metrics
+ *
+ * Pace, filler words and long pauses, computed from a timestamped
+ * transcript. Word timestamps give exact pauses; with segment timestamps
+ * only, pauses are the gaps between segments.
+ */
+
+import { PauseStats, SpeakingMetrics, Transcript } from './types'
+
+export const LONG_PAUSE_SECONDS = 3
+
+// Fillers that are never content words
+const SIMPLE_FILLERS = new Set(['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'ah', 'hmm', 'mm'])
+
+// Fillers that are also ordinary words, counted only in filler positions
+const PHRASE_FILLERS: Array<[string, RegExp]> = [
+  ['you know', /(^|[,.!?]\s*)you know(\s*[,.!?]|$)/gi],
+  ['i mean', /(^|[,.!?]\s*)i mean\s*,/gi],
+  ['basically', /\bbasically\b/gi],
+  ['literally', /\bliterally\b/gi],
+  ['kind of', /\bkind of(?=\s*(,|like\b|um\b|uh\b))/gi],
+  ['sort of', /\bsort of(?=\s*(,|like\b|um\b|uh\b))/gi],
+  // "like" set off by commas or next to another filler; "I'd like" and "looks like" aren't fillers
+  ['like', /(^|[,.!?]\s*|\b(?:um|uh|so|and)\s+)like(?=\s*[,.!?]|\s+(?:um|uh|like)\b)/gi],
+]
+
+function splitWords(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z'\s-]/g, ' ').split(/\s+/).filter(Boolean)
+}
+
+function countFillers(text: string): Record<string, number> {
+  const counts: Record<string, number> = {}
+  const add = (filler: string, n: number) => {
+    if (n > 0) counts[filler] = (counts[filler] || 0) + n
+  }
+
+  for (const word of splitWords(text)) {
+    if (SIMPLE_FILLERS.has(word)) add(word.startsWith('um') ? 'um' : word.startsWith('uh') ? 'uh' : word, 1)
+  }
+  for (const [filler, pattern] of PHRASE_FILLERS) {
+    add(filler, text.match(pattern)?.length || 0)
+  }
+  return counts
+}
+
+function findLongPauses(spans: Array<{ start: number; end: number }>): PauseStats {
+  const at: number[] = []
+  let longestSeconds = 0
+  let totalSeconds = 0
+
+  for (let i = 1; i < spans.length; i++) {
+    const gap = spans[i].start - spans[i - 1].end
+    if (gap >= LONG_PAUSE_SECONDS) {
+      at.push(Math.round(spans[i - 1].end * 10) / 10)
+      totalSeconds += gap
+      longestSeconds = Math.max(longestSeconds, gap)
+    }
+  }
+
+  return {
+    count: at.length,
+    longestSeconds: Math.round(longestSeconds * 10) / 10,
+    totalSeconds: Math.round(totalSeconds * 10) / 10,
+    at,
+  }
+}
+
+export function computeSpeakingMetrics(transcript: Transcript): SpeakingMetrics {
+  const spans = transcript.words?.length ? transcript.words : transcript.segments.filter(s => s.text)
+  const wordCount = transcript.words?.length || splitWords(transcript.text).length
+
+  const speakingSeconds = spans.length > 0
+    ? spans[spans.length - 1].end - spans[0].start
+    : transcript.duration
+  const minutes = speakingSeconds / 60
+
+  const counts = countFillers(transcript.text)
+  const total = Object.values(counts).reduce((sum, n) => sum + n, 0)
+
+  return {
+    durationSeconds: Math.round(transcript.duration * 10) / 10,
+    speakingSeconds: Math.round(speakingSeconds * 10) / 10,
+    wordCount,
+    wordsPerMinute: minutes > 0 ? Math.round(wordCount / minutes) : 0,
+    fillerWords: {
+      total,
+      perMinute: minutes > 0 ? Math.round((total / minutes) * 10) / 10 : 0,
+      counts,
+    },
+    longPauses: findLongPauses(spans),
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Transcription Types
+ *
+ * Speech-to-text behind one interface, so recorded interview answers can be
+ * transcribed by a self-hosted Whisper server or OpenAI's hosted Whisper.
+ * Times are seconds from the start of the recording.
+ */
+
+export type TranscriptionBackendId = 'local' | 'openai'
+
+export const TRANSCRIPTION_BACKEND_IDS: TranscriptionBackendId[] = ['local', 'openai']
+
+export interface TranscriptWord {
+  word: string
+  start: number
+  end: number
+}
+
+export interface TranscriptSegment {
+  start: number
+  end: number
+  text: string
+}
+
+// Stored as JSON on InterviewQuestion.transcript
+export interface Transcript {
+  backend: TranscriptionBackendId
+  text: string
+  language?: string
+  duration: number // Length of the recording
+  segments: TranscriptSegment[]
+  words?: TranscriptWord[] // Only when the backend returns word timestamps
+}
+
+export interface TranscriptionInput {
+  audio: Buffer
+  fileName: string
+  mimeType: string
+  language?: string // ISO-639-1 hint, e.g. "en"
+}
+
+export interface TranscriptionBackend {
+  id: TranscriptionBackendId
+  /**
+   * Transcribe one recording; throws when the backend fails or refuses it
+   */
+  transcribe(input: TranscriptionInput): Promise<Transcript>
+}
+
+export interface FillerWordStats {
+  total: number
+  perMinute: number
+  counts: Record<string, number> // Filler as written ("um", "you know") to occurrences
+}
+
+export interface PauseStats {
+  count: number
+  longestSeconds: number
+  totalSeconds: number
+  at: number[] // Where each long pause starts
+}
+
+// Stored as JSON on InterviewQuestion.speakingMetrics
+export interface SpeakingMetrics {
+  durationSeconds: number // Recording length
+  speakingSeconds: number // First word to last word
+  wordCount: number
+  wordsPerMinute: number // Over speakingSeconds, so leading and trailing silence don't count
+  fillerWords: FillerWordStats
+  longPauses: PauseStats
+}
+
+export class TranscriptionNotConfiguredError extends Error {
+  constructor() {
+    super('No transcription backend is configured. Set WHISPER_API_URL or OPENAI_API_KEY')
+    this.name = 'TranscriptionNotConfiguredError'
+  }
+}
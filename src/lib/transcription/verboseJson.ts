@@ -0,0 +1,35 @@
+import { Transcript, TranscriptionBackendId, TranscriptSegment, TranscriptWord } from './types'
+
+// The verbose_json response OpenAI's transcription API returns, which
+// Whisper-compatible servers (faster-whisper-server, LocalAI, whisper.cpp) mirror
+export interface VerboseTranscriptionResponse {
+  text?: string
+  language?: string
+  duration?: number | string
+  segments?: Array<{ start: number; end: number; text: string }>
+  words?: Array<{ word: string; start: number; end: number }>
+}
+
+export function parseVerboseTranscription(backend: TranscriptionBackendId, response: VerboseTranscriptionResponse): Transcript {
+  const segments: TranscriptSegment[] = (response.segments || [])
+    .filter(s => typeof s.start === 'number' && typeof s.end === 'number')
+    .map(s => ({ start: s.start, end: s.end, text: (s.text || '').trim() }))
+  const words: TranscriptWord[] = (response.words || [])
+    .filter(w => typeof w.start === 'number' && typeof w.end === 'number')
+    .map(w => ({ word: (w.word || '').trim(), start: w.start, end: w.end }))
+
+  const lastEnd = Math.max(0, ...segments.map(s => s.end), ...words.map(w => w.end))
+  const duration = Number(response.duration) || lastEnd
+
+  return {
+    backend,
+    text: (response.text || segments.map(s => s.text).join(' ')).trim(),
+    language: response.language,
+    duration,
+    segments,
+    words: words.length > 0 ? words : undefined,
+  }
+}
+
+// Whisper tidies away "um" and "uh" unless the prompt shows they belong in the transcript
+export const DISFLUENCY_PROMPT = 'Umm, let me think, like, hmm... Okay, so, uh, here is what I, you know, did.'
@@ -0,0 +1,134 @@
+/**
+ * Database-Backed User Event Bus
+ *
+ * Events are rows in user_events. Neither IDs nor timestamps from different
+ * processes arrive in a strict order, so subscribers poll a window that
+ * reaches back OVERLAP_MS before the newest event they've delivered and
+ * skip the events in it they've already sent.
+ */
+
+import { PrismaClient, UserEvent as UserEventRow } from '@prisma/client'
+import { IUserEventBus, UserEvent, UserEventPayloads, UserEventType } from './types'
+
+const prisma = new PrismaClient()
+
+const POLL_INTERVAL_MS = 2000
+const BATCH_SIZE = 100
+// How late an event may show up behind one already delivered: clock skew
+// between processes plus the time an insert takes to land
+const OVERLAP_MS = 10000
+const MAX_SENT_IDS = 1000
+const OBJECT_ID = /^[0-9a-f]{24}$/
+
+/**
+ * Where a subscription resumes from a cursor: the cursor event's time, and
+ * the events up to it, which the subscriber has already had
+ */
+async function resumeFrom(userId: string, cursor: string): Promise<{ since: Date; seen: UserEventRow[] }> {
+  const row = await prisma.userEvent.findFirst({ where: { id: cursor, userId } })
+  // Cleaned up already: fall back to the time in the ObjectId
+  const since = row?.createdAt ?? new Date(parseInt(cursor.slice(0, 8), 16) * 1000)
+  const seen = row
+    ? await prisma.userEvent.findMany({
+      where: { userId, createdAt: { gte: new Date(since.getTime() - OVERLAP_MS), lte: since } },
+      orderBy: { createdAt: 'asc' },
+      take: MAX_SENT_IDS,
+    })
+    : []
+  return { since, seen }
+}
+
+function toUserEvent(row: UserEventRow): UserEvent {
+  return {
+    id: row.id,
+    type: row.type as UserEventType,
+    data: JSON.parse(row.data),
+    createdAt: row.createdAt,
+  }
+}
+
+export class DatabaseEventBus implements IUserEventBus {
+  async publish<T extends UserEventType>(userId: string, type: T, data: UserEventPayloads[T]): Promise<void> {
+    await prisma.userEvent.create({
+      data: { userId, type, data: JSON.stringify(data) }
+    })
+  }
+
+  subscribe(userId: string, cursor: string | null, onEvents: (events: UserEvent[]) => void): () => void {
+    // Events before the subscription started are only wanted after a cursor
+    let floor = Date.now()
+    let lastSeenAt = floor
+    // Sent event IDs and their times, oldest first, pruned once they fall out of the window
+    const sent = new Map<string, number>()
+    let stopped = false
+    let timer: NodeJS.Timeout | undefined
+
+    const markSent = (row: UserEventRow) => {
+      const time = row.createdAt.getTime()
+      sent.set(row.id, time)
+      lastSeenAt = Math.max(lastSeenAt, time)
+    }
+
+    const pruneSent = () => {
+      for (const [id, time] of sent) {
+        if (time >= lastSeenAt - OVERLAP_MS && sent.size <= MAX_SENT_IDS) break
+        sent.delete(id)
+      }
+    }
+
+    const poll = async () => {
+      let fetched = 0
+      try {
+        const rows = await prisma.userEvent.findMany({
+          where: {
+            userId,
+            createdAt: { gte: new Date(Math.max(floor, lastSeenAt - OVERLAP_MS)) },
+            id: { notIn: Array.from(sent.keys()) },
+          },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          take: BATCH_SIZE
+        })
+        fetched = rows.length
+
+        if (!stopped && rows.length > 0) {
+          rows.forEach(markSent)
+          pruneSent()
+          onEvents(rows.map(toUserEvent))
+        }
+      } catch (error) {
+        console.error('User event poll error:', error)
+      }
+
+      // A full batch means there's more waiting
+      if (!stopped) timer = setTimeout(poll, fetched === BATCH_SIZE ? 0 : POLL_INTERVAL_MS)
+    }
+
+    const start = async () => {
+      if (cursor && OBJECT_ID.test(cursor)) {
+        try {
+          const { since, seen } = await resumeFrom(userId, cursor)
+          // Without the cursor's row there's nothing to skip, so don't reach back
+          floor = since.getTime() - (seen.length > 0 ? OVERLAP_MS : 0)
+          lastSeenAt = since.getTime()
+          seen.forEach(markSent)
+        } catch (error) {
+          console.error('User event resume error:', error)
+        }
+      }
+      if (!stopped) poll()
+    }
+    start()
+
+    return () => {
+      stopped = true
+      if (timer) clearTimeout(timer)
+    }
+  }
+
+  async cleanup(olderThan: Date): Promise<number> {
+    const { count } = await prisma.userEvent.deleteMany({
+      where: { createdAt: { lt: olderThan } }
+    })
+    return count
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * In-Memory User Event Bus
+ *
+ * Delivers events within the current process only, to go with
+ * QUEUE_BACKEND=memory where the worker runs next to the web server.
+ * The latest events per user are kept so a reconnecting stream can catch up.
+ */
+
+import { EventEmitter } from 'events'
+import { IUserEventBus, UserEvent, UserEventPayloads, UserEventType } from './types'
+
+const KEPT_EVENTS = 100
+
+export class MemoryEventBus implements IUserEventBus {
+  private emitter = new EventEmitter()
+  private events = new Map<string, UserEvent[]>()
+  private nextId = 1
+
+  constructor() {
+    this.emitter.setMaxListeners(0) // One listener per open stream
+  }
+
+  async publish<T extends UserEventType>(userId: string, type: T, data: UserEventPayloads[T]): Promise<void> {
+    const event: UserEvent = { id: String(this.nextId++), type, data, createdAt: new Date() }
+
+    const kept = this.events.get(userId) || []
+    kept.push(event)
+    if (kept.length > KEPT_EVENTS) kept.shift()
+    this.events.set(userId, kept)
+
+    this.emitter.emit(userId, event)
+  }
+
+  subscribe(userId: string, cursor: string | null, onEvents: (events: UserEvent[]) => void): () => void {
+    // A cursor from before a restart is meaningless here; start from now
+    const after = cursor && /^\d+$/.test(cursor) && Number(cursor) < this.nextId ? Number(cursor) : this.nextId - 1
+    const missed = (this.events.get(userId) || []).filter(event => Number(event.id) > after)
+    if (missed.length > 0) onEvents(missed)
+
+    const listener = (event: UserEvent) => onEvents([event])
+    this.emitter.on(userId, listener)
+    return () => {
+      this.emitter.off(userId, listener)
+    }
+  }
+
+  async cleanup(olderThan: Date): Promise<number> {
+    let deleted = 0
+    this.events.forEach((events, userId) => {
+      const kept = events.filter(event => event.createdAt >= olderThan)
+      deleted += events.length - kept.length
+      if (kept.length > 0) {
+        this.events.set(userId, kept)
+      } else {
+        this.events.delete(userId)
+      }
+    })
+    return deleted
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Redis-Backed User Event Bus
+ *
+ * Each user's events are a Redis stream, trimmed to the latest few hundred
+ * and expired a day after the last publish. A subscription reads its stream
+ * with a blocking XREAD on a connection of its own, so events arrive as
+ * soon as they're added.
+ */
+
+import Redis from 'ioredis'
+import { IUserEventBus, UserEvent, UserEventPayloads, UserEventType } from './types'
+
+export interface RedisEventBusOptions {
+  url: string
+  prefix?: string // Same namespace as the queue's keys
+}
+
+const STREAM_MAX_LENGTH = 500
+const STREAM_TTL_SECONDS = 24 * 60 * 60
+const BLOCK_MS = 15000
+const BATCH_SIZE = 100
+const RETRY_DELAY_MS = 5000
+const STREAM_ID = /^\d+-\d+$/
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function toUserEvent(id: string, fields: string[]): UserEvent {
+  const values: Record<string, string> = {}
+  for (let i = 0; i < fields.length; i += 2) {
+    values[fields[i]] = fields[i + 1]
+  }
+
+  return {
+    id,
+    type: values.type as UserEventType,
+    data: JSON.parse(values.data || '{}'),
+    createdAt: new Date(Number(id.split('-')[0])),
+  }
+}
+
+export class RedisEventBus implements IUserEventBus {
+  private redis: Redis
+  private prefix: string
+
+  constructor(options: RedisEventBusOptions) {
+    this.prefix = options.prefix ?? 'queue:'
+    this.redis = new Redis(options.url, { lazyConnect: true })
+    this.redis.on('error', error => {
+      console.error('Redis event bus connection error:', error)
+    })
+  }
+
+  async publish<T extends UserEventType>(userId: string, type: T, data: UserEventPayloads[T]): Promise<void> {
+    const key = this.streamKey(userId)
+    await this.redis
+      .multi()
+      .xadd(key, 'MAXLEN', '~', STREAM_MAX_LENGTH, '*', 'type', type, 'data', JSON.stringify(data))
+      .expire(key, STREAM_TTL_SECONDS)
+      .exec()
+  }
+
+  subscribe(userId: string, cursor: string | null, onEvents: (events: UserEvent[]) => void): () => void {
+    const key = this.streamKey(userId)
+    const reader = this.redis.duplicate()
+    reader.on('error', () => {}) // Reported by the read loop
+    let stopped = false
+
+    const read = async () => {
+      let lastId = cursor && STREAM_ID.test(cursor) ? cursor : null
+
+      while (!stopped) {
+        try {
+          if (!lastId) {
+            // Start after whatever the stream already holds
+            const [latest] = await this.redis.xrevrange(key, '+', '-', 'COUNT', 1)
+            lastId = latest ? latest[0] : '0-0'
+          }
+
+          const result = await reader.xread('COUNT', BATCH_SIZE, 'BLOCK', BLOCK_MS, 'STREAMS', key, lastId)
+          if (!result || stopped) continue
+
+          const [, entries] = result[0]
+          if (entries.length === 0) continue
+          lastId = entries[entries.length - 1][0]
+          onEvents(entries.map(([id, fields]) => toUserEvent(id, fields)))
+        } catch (error) {
+          if (stopped) break
+          console.error('User event read error:', error)
+          await sleep(RETRY_DELAY_MS)
+        }
+      }
+    }
+    read()
+
+    return () => {
+      stopped = true
+      reader.disconnect()
+    }
+  }
+
+  async cleanup(olderThan: Date): Promise<number> {
+    return 0 // Streams are trimmed on publish and expire on their own
+  }
+
+  private streamKey(userId: string): string {
+    return `${this.prefix}user_events:${userId}`
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Event Bus Selection
+ *
+ * User events go through the store the queue already uses (QUEUE_BACKEND),
+ * since that's what the web app and the worker share: MongoDB rows for
+ * "database", Redis streams in REDIS_URL for "redis", and this process's
+ * memory for "memory".
+ */
+
+import { QueueBackend, queueBackendFromEnv } from '../queue/createQueue'
+import { IUserEventBus, UserEventPayloads, UserEventType } from './types'
+import { DatabaseEventBus } from './DatabaseEventBus'
+import { MemoryEventBus } from './MemoryEventBus'
+import { RedisEventBus } from './RedisEventBus'
+
+export function createEventBus(backend: QueueBackend = queueBackendFromEnv()): IUserEventBus {
+  switch (backend) {
+    case 'redis':
+      if (!process.env.REDIS_URL) {
+        throw new Error('QUEUE_BACKEND=redis requires REDIS_URL')
+      }
+      return new RedisEventBus({ url: process.env.REDIS_URL, prefix: process.env.REDIS_QUEUE_PREFIX || undefined })
+
+    case 'memory':
+      return new MemoryEventBus()
+
+    case 'database':
+    default:
+      return new DatabaseEventBus()
+  }
+}
+
+let userEventBus: IUserEventBus | null = null
+
+export function getUserEventBus(): IUserEventBus {
+  if (!userEventBus) userEventBus = createEventBus()
+  return userEventBus
+}
+
+/**
+ * Push an event to the user's dashboard. Never throws, so a progress
+ * update can't fail the work it reports on.
+ */
+export async function publishUserEvent<T extends UserEventType>(userId: string, type: T, data: UserEventPayloads[T]): Promise<void> {
+  try {
+    await getUserEventBus().publish(userId, type, data)
+  } catch (error) {
+    console.error('User event publish error:', error)
+  }
+}
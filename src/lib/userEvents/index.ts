@@ -0,0 +1,15 @@
+/**
+ * User Events Module Main Export
+ *
+ * Progress events from background work (scans, match analysis, reviews,
+ * submissions) carried to the user's dashboard stream at /api/events.
+ */
+
+export type { UserEventPayloads, UserEventType, UserEvent, IUserEventBus } from './types'
+export { USER_EVENT_TYPES } from './types'
+
+export { DatabaseEventBus } from './DatabaseEventBus'
+export { MemoryEventBus } from './MemoryEventBus'
+export type { RedisEventBusOptions } from './RedisEventBus'
+export { RedisEventBus } from './RedisEventBus'
+export { createEventBus, getUserEventBus, publishUserEvent } from './createEventBus'
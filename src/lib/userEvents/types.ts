@@ -0,0 +1,71 @@
+/**
+ * User Event Types
+ *
+ * Progress events pushed to a user's dashboard while their background work
+ * runs. Publishers and the stream route both go through IUserEventBus, so
+ * the event types and their data are declared once here.
+ */
+
+import type { ApplicationPreview } from '../applicationPreview'
+import type { JobStatus, UserQueueDepth } from '../queue/interfaces'
+
+export interface UserEventPayloads {
+  'scan.started': { source?: string }
+  'scan.finished': { processed: number }
+  'scan.failed': { error: string; willRetry: boolean }
+  'job.analyzed': { jobId: string; title: string; company: string; matchScore: number }
+  'notification.created': { jobId: string; title: string; company: string; matchScore: number }
+  'review.created': { reviewId: string; jobId: string; title: string; company: string; matchScore: number }
+  'application.submitted': { jobId: string; applicationId: string; title: string; company: string }
+  'application.failed': { jobId: string; applicationId?: string; title?: string; company?: string; error: string; willRetry: boolean }
+  'application.previewed': { jobId: string; reviewId?: string; runId?: string; title?: string; company?: string; preview?: ApplicationPreview; error?: string } // A queued dry run finished
+  'inbox.created': { id: string; type: string; title: string; body: string; url?: string } // A new in-app notification
+  'job.updated': { id: string; type: string; status: JobStatus; attemptCount: number } // A queue job of the user's changed state
+  'queue.depth': UserQueueDepth // Sent by the stream itself, never published
+}
+
+export type UserEventType = keyof UserEventPayloads
+
+export const USER_EVENT_TYPES: UserEventType[] = [
+  'scan.started',
+  'scan.finished',
+  'scan.failed',
+  'job.analyzed',
+  'notification.created',
+  'review.created',
+  'application.submitted',
+  'application.failed',
+  'application.previewed',
+  'inbox.created',
+  'job.updated',
+  'queue.depth',
+]
+
+export interface UserEvent<T extends UserEventType = UserEventType> {
+  id: string // Orders the user's events; sent as the stream's event ID
+  type: T
+  data: UserEventPayloads[T]
+  createdAt: Date
+}
+
+/**
+ * Carries events from whichever process does the work to whichever
+ * process holds the user's stream open
+ */
+export interface IUserEventBus {
+  publish<T extends UserEventType>(userId: string, type: T, data: UserEventPayloads[T]): Promise<void>
+
+  /**
+   * Call onEvents with the user's events, oldest first, as they're published.
+   * With a cursor (the ID of the last event seen), events after it that are
+   * still kept are delivered first; without one, only new events are.
+   * @returns Function that ends the subscription
+   */
+  subscribe(userId: string, cursor: string | null, onEvents: (events: UserEvent[]) => void): () => void
+
+  /**
+   * Delete events published before the given time
+   * @returns Promise<number> Events deleted
+   */
+  cleanup(olderThan: Date): Promise<number>
+}
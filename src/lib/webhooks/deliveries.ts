@@ -0,0 +1,187 @@
+import crypto from 'crypto'
+import { WebhookDelivery, WebhookEndpoint } from '@prisma/client'
+import { prisma } from '../db'
+import { JobType } from '../queue/jobTypes'
+import { assertSafeWebhookUrl } from './destinations'
+import {
+  UnsafeWebhookUrlError,
+  WEBHOOK_TEST_EVENT,
+  WebhookEnvelope,
+  WebhookEventPayloads,
+  WebhookEventType,
+  WebhookTestEnvelope,
+} from './types'
+
+const DELIVERY_TIMEOUT_MS = 10000
+
+/**
+ * Signature header value for a webhook body: the send time and an HMAC of
+ * "<time>.<body>", so receivers can reject altered or replayed requests
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${signature}`
+}
+
+async function enqueueDelivery(delivery: WebhookDelivery): Promise<void> {
+  const { queueManager } = await import('../queue')
+  await queueManager.enqueue(JobType.DELIVER_WEBHOOK, { deliveryId: delivery.id, userId: delivery.userId }, {
+    deduplicationKey: `webhook_${delivery.id}`,
+  })
+}
+
+async function createDelivery(endpoint: WebhookEndpoint, event: string, payload: string, replayOfId?: string): Promise<WebhookDelivery> {
+  return prisma.webhookDelivery.create({
+    data: { endpointId: endpoint.id, userId: endpoint.userId, event, payload, replayOfId },
+  })
+}
+
+/**
+ * Queue an event for each of the user's active endpoints subscribed to it.
+ * Never throws: a webhook that can't be queued is logged, never a reason
+ * to fail the change that raised it.
+ */
+export async function emitWebhookEvent<T extends WebhookEventType>(
+  userId: string,
+  type: T,
+  data: WebhookEventPayloads[T]
+): Promise<void> {
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { userId, isActive: true, events: { has: type } },
+    })
+    if (endpoints.length === 0) return
+
+    const envelope: WebhookEnvelope<T> = {
+      id: `evt_${crypto.randomUUID()}`,
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    }
+    const payload = JSON.stringify(envelope)
+
+    for (const endpoint of endpoints) {
+      const delivery = await createDelivery(endpoint, type, payload)
+      await enqueueDelivery(delivery)
+    }
+  } catch (error) {
+    console.error(`Webhook ${type} error:`, error)
+  }
+}
+
+/**
+ * POST one delivery to its endpoint and record the attempt. Throws when
+ * the endpoint doesn't answer with a 2xx, so the queue retries it; the
+ * delivery is only marked FAILED on the last attempt. Only the status and
+ * timing are kept: redirects aren't followed, the response body is never
+ * read back, and a URL that now resolves inside our network fails at once.
+ */
+export async function attemptWebhookDelivery(deliveryId: string, isLastAttempt: boolean): Promise<WebhookDelivery | null> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: true },
+  })
+  if (!delivery || delivery.status === 'SUCCEEDED') return delivery
+
+  const startedAt = Date.now()
+  let responseStatus: number | undefined
+  let error: string | undefined
+  let retryable = true
+
+  try {
+    await assertSafeWebhookUrl(delivery.endpoint.url)
+    const response = await fetch(delivery.endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'HelpMeApply-Webhooks/1.0',
+        'X-HelpMeApply-Event': delivery.event,
+        'X-HelpMeApply-Delivery': delivery.id,
+        'X-HelpMeApply-Signature': signWebhookPayload(delivery.endpoint.secret, delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    })
+    responseStatus = response.status
+    await response.body?.cancel().catch(() => undefined)
+    if (response.status >= 300 && response.status < 400) {
+      error = `Endpoint redirected (${response.status}); redirects aren't followed`
+    } else if (!response.ok) {
+      error = `Endpoint responded ${response.status}`
+    }
+  } catch (fetchError) {
+    if (fetchError instanceof UnsafeWebhookUrlError) retryable = false
+    error = fetchError instanceof Error ? fetchError.message : 'Request failed'
+  }
+
+  const now = new Date()
+  const updated = await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attemptCount: { increment: 1 },
+      lastAttemptAt: now,
+      durationMs: Date.now() - startedAt,
+      responseStatus: responseStatus ?? null,
+      error: error ?? null,
+      ...(error
+        ? { status: isLastAttempt || !retryable ? 'FAILED' : 'PENDING' }
+        : { status: 'SUCCEEDED', deliveredAt: now }),
+    },
+  })
+
+  if (error && retryable) throw new Error(error)
+  return updated
+}
+
+/**
+ * Send a delivery's exact payload again as a new delivery
+ * @returns The new delivery, or null when the original isn't the user's
+ */
+export async function replayWebhookDelivery(userId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+  const original = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, userId },
+    include: { endpoint: true },
+  })
+  if (!original) return null
+
+  const delivery = await createDelivery(original.endpoint, original.event, original.payload, original.id)
+  await enqueueDelivery(delivery)
+  return delivery
+}
+
+/**
+ * Fire a webhook.test event at the endpoint right away, without retries,
+ * so the settings page can show whether it worked
+ */
+export async function sendTestWebhook(endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const envelope: WebhookTestEnvelope = {
+    id: `evt_${crypto.randomUUID()}`,
+    type: WEBHOOK_TEST_EVENT,
+    createdAt: new Date().toISOString(),
+    data: { endpointId: endpoint.id, message: 'Test event from HelpMeApply AI' },
+  }
+  const delivery = await createDelivery(endpoint, WEBHOOK_TEST_EVENT, JSON.stringify(envelope))
+
+  try {
+    return (await attemptWebhookDelivery(delivery.id, true))!
+  } catch (error) {
+    return (await prisma.webhookDelivery.findUnique({ where: { id: delivery.id } }))!
+  }
+}
+
+export async function listWebhookDeliveries(
+  userId: string,
+  options: { endpointId?: string; limit?: number } = {}
+): Promise<Omit<WebhookDelivery, 'payload'>[]> {
+  return prisma.webhookDelivery.findMany({
+    where: { userId, ...(options.endpointId ? { endpointId: options.endpointId } : {}) },
+    orderBy: { createdAt: 'desc' },
+    take: options.limit || 50,
+    omit: { payload: true },
+  })
+}
+
+export async function getWebhookDelivery(userId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+  return prisma.webhookDelivery.findFirst({ where: { id: deliveryId, userId } })
+}
@@ -0,0 +1,79 @@
+import dns from 'dns'
+import net from 'net'
+import { UnsafeWebhookUrlError } from './types'
+
+// Addresses a webhook must never reach: this server, the private network
+// it sits on and the cloud metadata service. One list per family, since a
+// BlockList also matches IPv4 addresses against IPv4-mapped IPv6 ranges.
+const BLOCKED_IPV4 = new net.BlockList()
+const BLOCKED_IPV6 = new net.BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],        // "This" network
+  ['10.0.0.0', 8],       // Private
+  ['100.64.0.0', 10],    // Carrier-grade NAT
+  ['127.0.0.0', 8],      // Loopback
+  ['169.254.0.0', 16],   // Link-local, including the 169.254.169.254 metadata service
+  ['172.16.0.0', 12],    // Private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.168.0.0', 16],   // Private
+  ['198.18.0.0', 15],    // Benchmarking
+  ['224.0.0.0', 4],      // Multicast
+  ['240.0.0.0', 4],      // Reserved and broadcast
+] as const) {
+  BLOCKED_IPV4.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127],           // Unspecified and loopback
+  ['::', 96],            // IPv4-compatible
+  ['::ffff:0:0', 96],    // IPv4-mapped
+  ['64:ff9b::', 96],     // NAT64
+  ['fc00::', 7],         // Unique local, including the fd00:ec2::254 metadata service
+  ['fe80::', 10],        // Link-local
+  ['ff00::', 8],         // Multicast
+] as const) {
+  BLOCKED_IPV6.addSubnet(network, prefix, 'ipv6')
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address)
+  if (family === 0) return false
+  return family === 4
+    ? !BLOCKED_IPV4.check(address, 'ipv4')
+    : !BLOCKED_IPV6.check(address, 'ipv6')
+}
+
+/**
+ * Check a webhook URL before it's saved and again before each send, since
+ * what a hostname resolves to can change. Throws UnsafeWebhookUrlError when
+ * the URL isn't https (http is allowed in development) or any address the
+ * host resolves to is loopback, private, link-local or otherwise internal.
+ */
+export async function assertSafeWebhookUrl(url: string): Promise<void> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch (error) {
+    throw new UnsafeWebhookUrlError('it isn\'t a valid URL')
+  }
+
+  const allowHttp = process.env.NODE_ENV === 'development'
+  if (parsed.protocol !== 'https:' && !(allowHttp && parsed.protocol === 'http:')) {
+    throw new UnsafeWebhookUrlError(allowHttp ? 'use an http(s) URL' : 'use an https URL')
+  }
+  if (parsed.username || parsed.password) {
+    throw new UnsafeWebhookUrlError('credentials in the URL aren\'t supported')
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '')
+  let addresses: dns.LookupAddress[]
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true })
+  } catch (error) {
+    throw new UnsafeWebhookUrlError(`${hostname} doesn't resolve`)
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new UnsafeWebhookUrlError(`${hostname} points to a private or internal address`)
+  }
+}
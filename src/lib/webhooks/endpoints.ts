@@ -0,0 +1,97 @@
+import crypto from 'crypto'
+import { WebhookEndpoint } from '@prisma/client'
+import { prisma } from '../db'
+import { assertSafeWebhookUrl } from './destinations'
+import { WEBHOOK_EVENT_TYPES, WebhookEndpointLimitError, WebhookEndpointSummary, WebhookEventType } from './types'
+
+// Endpoints one user can register
+export const MAX_WEBHOOK_ENDPOINTS = 10
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`
+}
+
+export function toEndpointSummary(endpoint: WebhookEndpoint): WebhookEndpointSummary {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    events: endpoint.events.filter((event): event is WebhookEventType =>
+      WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType)
+    ),
+    isActive: endpoint.isActive,
+    createdAt: endpoint.createdAt,
+  }
+}
+
+export async function listWebhookEndpoints(userId: string): Promise<WebhookEndpointSummary[]> {
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  })
+  return endpoints.map(toEndpointSummary)
+}
+
+/**
+ * The user's endpoint, or null when it doesn't exist or belongs to someone else
+ */
+export async function getWebhookEndpoint(userId: string, endpointId: string): Promise<WebhookEndpoint | null> {
+  return prisma.webhookEndpoint.findFirst({ where: { id: endpointId, userId } })
+}
+
+export interface WebhookEndpointInput {
+  url: string
+  description?: string | null
+  events: WebhookEventType[]
+  isActive?: boolean
+}
+
+/**
+ * Register an endpoint with a fresh signing secret. Throws
+ * UnsafeWebhookUrlError for a URL that points inside our network.
+ * @returns The endpoint and its secret, which isn't shown again
+ */
+export async function createWebhookEndpoint(
+  userId: string,
+  input: WebhookEndpointInput
+): Promise<{ endpoint: WebhookEndpointSummary; secret: string }> {
+  const count = await prisma.webhookEndpoint.count({ where: { userId } })
+  if (count >= MAX_WEBHOOK_ENDPOINTS) {
+    throw new WebhookEndpointLimitError(MAX_WEBHOOK_ENDPOINTS)
+  }
+  await assertSafeWebhookUrl(input.url)
+
+  const secret = generateSecret()
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: {
+      userId,
+      url: input.url,
+      description: input.description || null,
+      events: input.events,
+      isActive: input.isActive ?? true,
+      secret,
+    },
+  })
+  return { endpoint: toEndpointSummary(endpoint), secret }
+}
+
+export async function updateWebhookEndpoint(
+  userId: string,
+  endpointId: string,
+  changes: Partial<WebhookEndpointInput>
+): Promise<WebhookEndpointSummary | null> {
+  const existing = await getWebhookEndpoint(userId, endpointId)
+  if (!existing) return null
+  if (changes.url) await assertSafeWebhookUrl(changes.url)
+
+  const endpoint = await prisma.webhookEndpoint.update({
+    where: { id: endpointId },
+    data: changes,
+  })
+  return toEndpointSummary(endpoint)
+}
+
+export async function deleteWebhookEndpoint(userId: string, endpointId: string): Promise<boolean> {
+  const result = await prisma.webhookEndpoint.deleteMany({ where: { id: endpointId, userId } })
+  return result.count > 0
+}
@@ -0,0 +1,24 @@
+/**
+ * Webhooks Module Main Export
+ */
+
+export * from './types'
+export {
+  MAX_WEBHOOK_ENDPOINTS,
+  listWebhookEndpoints,
+  getWebhookEndpoint,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint,
+} from './endpoints'
+export type { WebhookEndpointInput } from './endpoints'
+export { assertSafeWebhookUrl, isPublicAddress } from './destinations'
+export {
+  signWebhookPayload,
+  emitWebhookEvent,
+  attemptWebhookDelivery,
+  replayWebhookDelivery,
+  sendTestWebhook,
+  listWebhookDeliveries,
+  getWebhookDelivery,
+} from './deliveries'
@@ -0,0 +1,95 @@
+/**
+ * Outgoing Webhook Types
+ *
+ * Users register endpoints that receive application events as they happen,
+ * to sync them into their own trackers. Each event is a signed JSON POST
+ * whose data is the app's own Application, ApplicationReview or
+ * InterviewSession record, or a notification the user routed to webhooks.
+ */
+
+import type { Application, ApplicationReview, ApplicationStatus, InterviewSession } from '@prisma/client'
+import type { NotificationContent, NotificationEventPayloads, NotificationEventType } from '../notifications/types'
+
+export type WebhookEventType =
+  | 'application.created'
+  | 'application.status_changed'
+  | 'review.created'
+  | 'interview.completed'
+  | 'notification.created'
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'application.created',
+  'application.status_changed',
+  'review.created',
+  'interview.completed',
+  'notification.created',
+]
+
+// Sent by the test-fire button only; endpoints can't subscribe to it
+export const WEBHOOK_TEST_EVENT = 'webhook.test' as const
+
+export interface WebhookEventPayloads {
+  'application.created': { application: Application }
+  'application.status_changed': { application: Application; previousStatus: ApplicationStatus }
+  'review.created': { review: ApplicationReview }
+  'interview.completed': { session: InterviewSession; application: Application | null }
+  'notification.created': { notification: WebhookNotification }
+}
+
+// A notification routed to the webhook channel in the notification settings
+export interface WebhookNotification extends NotificationContent {
+  type: NotificationEventType
+  occurredAt: string
+  data: NotificationEventPayloads[NotificationEventType]
+}
+
+/**
+ * The JSON body of every delivery. `id` identifies the event, so a receiver
+ * can drop retries and replays it has already handled.
+ */
+export interface WebhookEnvelope<T extends WebhookEventType = WebhookEventType> {
+  id: string
+  type: T
+  createdAt: string
+  data: WebhookEventPayloads[T]
+}
+
+export interface WebhookTestEnvelope {
+  id: string
+  type: typeof WEBHOOK_TEST_EVENT
+  createdAt: string
+  data: { endpointId: string; message: string }
+}
+
+/**
+ * An endpoint as the settings page sees it: the secret is only returned
+ * when the endpoint is created
+ */
+export interface WebhookEndpointSummary {
+  id: string
+  url: string
+  description: string | null
+  events: WebhookEventType[]
+  isActive: boolean
+  createdAt: Date
+}
+
+/**
+ * Thrown when a user already has as many endpoints as they're allowed
+ */
+export class WebhookEndpointLimitError extends Error {
+  constructor(public limit: number) {
+    super(`You can register at most ${limit} webhook endpoints`)
+    this.name = 'WebhookEndpointLimitError'
+  }
+}
+
+/**
+ * Thrown when a webhook URL would reach this server or its private network
+ */
+export class UnsafeWebhookUrlError extends Error {
+  constructor(reason: string) {
+    super(`Webhook URL not allowed: ${reason}`)
+    this.name = 'UnsafeWebhookUrlError'
+  }
+}
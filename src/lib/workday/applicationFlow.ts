@@ -0,0 +1,472 @@
+import { ElementHandle, Page } from 'puppeteer'
+import { fillScreeningQuestions } from '../answerBank'
+import { ApplicationPreview, resumeFileName } from '../applicationPreview'
+import {
+  generateWorkdayPassword,
+  getWorkdayCredentials,
+  saveWorkdayCredentials,
+  updateWorkdayAccountStatus,
+} from './credentials'
+import {
+  WORKDAY_STEP_LABELS,
+  WorkdayApplicant,
+  WorkdayCredentials,
+  WorkdayFlowResult,
+  WorkdayStep,
+  WorkdayStepError,
+  WorkdayTenant,
+} from './types'
+
+// Workday renders the same data-automation-id attributes on every tenant
+const SELECTORS = {
+  applyButton: '[data-automation-id="adventureButton"], [data-automation-id="applyButton"]',
+  applyManually: '[data-automation-id="applyManually"]',
+  signInLink: '[data-automation-id="signInLink"]',
+  createAccountLink: '[data-automation-id="createAccountLink"]',
+  email: 'input[data-automation-id="email"]',
+  password: 'input[data-automation-id="password"]',
+  verifyPassword: 'input[data-automation-id="verifyPassword"]',
+  createAccountCheckbox: 'input[data-automation-id="createAccountCheckbox"]',
+  signInSubmit: '[data-automation-id="signInSubmitButton"]',
+  createAccountSubmit: '[data-automation-id="createAccountSubmitButton"]',
+  activeStep: '[data-automation-id="progressBarActiveStep"]',
+  nextButton: 'button[data-automation-id="bottom-navigation-next-button"]',
+  errors: '[data-automation-id="errorMessage"], [data-automation-id="inputAlert"], [data-automation-id="errorBanner"]',
+  firstName: 'input[data-automation-id="legalNameSection_firstName"]',
+  lastName: 'input[data-automation-id="legalNameSection_lastName"]',
+  phone: 'input[data-automation-id="phone-number"]',
+  previousWorkerNo: '[data-automation-id="previousWorker"] input[type="radio"][value="false"]',
+  resumeUpload: 'input[data-automation-id="file-upload-input-ref"]',
+  resumeUploaded: '[data-automation-id="file-upload-successful"]',
+  linkedin: 'input[data-automation-id="linkedinQuestion"]',
+  agreementCheckbox: 'input[data-automation-id="agreementCheckbox"]',
+  questionField: '[data-automation-id^="formField-"]',
+}
+
+const STEP_TIMEOUT_MS = 15000
+const SUBMIT_TIMEOUT_MS = 20000
+// Guards against looping forever on a tenant with an unexpected custom flow
+const MAX_FORM_STEPS = 8
+
+const SUBMITTED_PATTERN = /application (was )?submitted|thank you for applying|thanks for applying|congratulations/i
+const VERIFY_EMAIL_PATTERN = /verify your (email|account)|verification (email|link)/i
+const ACCOUNT_EXISTS_PATTERN = /already (exists|in use|registered)/i
+
+/**
+ * Walks one Workday application: start from the job page, sign in or create
+ * the tenant account, fill each step and submit from Review. Any step it
+ * can't get past is reported back instead of being guessed through.
+ * Given a preview, the flow is a dry run: it records what it fills and stops
+ * on Review without submitting.
+ */
+export class WorkdayApplicationFlow {
+  private completedSteps: WorkdayStep[] = []
+  private currentStep: WorkdayStep = 'JOB_PAGE'
+  private accountCreated = false
+
+  constructor(
+    private page: Page,
+    private tenant: WorkdayTenant,
+    private applicant: WorkdayApplicant,
+    private preview?: ApplicationPreview
+  ) {}
+
+  async run(jobUrl: string): Promise<WorkdayFlowResult> {
+    try {
+      console.log(`🏛️ Workday: applying on tenant ${this.tenant.tenant}`)
+      await this.page.goto(jobUrl, { waitUntil: 'networkidle2', timeout: 30000 })
+      await this.startApplication()
+      this.complete('JOB_PAGE')
+
+      await this.authenticate()
+
+      for (let i = 0; i < MAX_FORM_STEPS; i++) {
+        this.currentStep = await this.detectStep()
+
+        if (this.currentStep === 'REVIEW' && this.preview) {
+          console.log('🏛️ Workday: dry run, stopping on Review')
+          this.preview.submitSelector = SELECTORS.nextButton
+          this.complete('REVIEW')
+          return {
+            success: true,
+            completedSteps: this.completedSteps,
+            accountCreated: this.accountCreated,
+            dryRun: true,
+          }
+        }
+
+        if (this.currentStep === 'REVIEW') {
+          const confirmationId = await this.submit()
+          this.complete('REVIEW')
+          this.complete('SUBMITTED')
+          return {
+            success: true,
+            completedSteps: this.completedSteps,
+            accountCreated: this.accountCreated,
+            confirmationId,
+          }
+        }
+
+        await this.fillStep(this.currentStep)
+        await this.saveAndContinue(this.currentStep)
+        this.complete(this.currentStep)
+      }
+
+      throw new WorkdayStepError(this.currentStep, 'Application has more steps than expected')
+    } catch (error) {
+      const stoppedAt = error instanceof WorkdayStepError ? error.step : this.currentStep
+      const message = error instanceof Error ? error.message : 'Unknown Workday error'
+      console.error(`Workday automation stopped at ${WORKDAY_STEP_LABELS[stoppedAt]}:`, message)
+
+      return {
+        success: false,
+        completedSteps: this.completedSteps,
+        stoppedAt,
+        accountCreated: this.accountCreated,
+        error: `Stopped at ${WORKDAY_STEP_LABELS[stoppedAt]}: ${message}`,
+      }
+    }
+  }
+
+  private complete(step: WorkdayStep) {
+    if (!this.completedSteps.includes(step)) {
+      this.completedSteps.push(step)
+    }
+  }
+
+  private async startApplication(): Promise<void> {
+    const applyButton = await this.page.waitForSelector(SELECTORS.applyButton, { timeout: STEP_TIMEOUT_MS })
+      .catch(() => null)
+    if (!applyButton) {
+      throw new WorkdayStepError('JOB_PAGE', 'Could not find the Apply button - the posting may be closed')
+    }
+    await this.click(applyButton)
+
+    // Most tenants offer "Autofill with Resume" / "Apply Manually"; manual is the predictable path
+    const applyManually = await this.page.waitForSelector(SELECTORS.applyManually, { timeout: 5000 })
+      .catch(() => null)
+    if (applyManually) {
+      await this.click(applyManually)
+    }
+  }
+
+  private async authenticate(): Promise<void> {
+    const credentials = await getWorkdayCredentials(this.applicant.userId, this.tenant.tenant)
+
+    if (credentials) {
+      this.currentStep = 'SIGN_IN'
+      await this.signIn(credentials)
+      this.complete('SIGN_IN')
+      return
+    }
+
+    this.currentStep = 'CREATE_ACCOUNT'
+    await this.createAccount()
+    this.accountCreated = true
+    this.complete('CREATE_ACCOUNT')
+  }
+
+  private async signIn(credentials: WorkdayCredentials): Promise<void> {
+    if (!(await this.page.$(SELECTORS.signInSubmit))) {
+      const signInLink = await this.page.waitForSelector(SELECTORS.signInLink, { timeout: STEP_TIMEOUT_MS })
+        .catch(() => null)
+      if (!signInLink) {
+        throw new WorkdayStepError('SIGN_IN', 'Could not find the sign-in form')
+      }
+      await this.click(signInLink)
+    }
+
+    await this.typeInto(SELECTORS.email, credentials.email)
+    await this.typeInto(SELECTORS.password, credentials.password)
+    await this.clickSelector(SELECTORS.signInSubmit)
+
+    const outcome = await this.waitForFormOrError()
+    if (outcome !== 'form') {
+      const message = outcome === 'verify'
+        ? `Workday is waiting for ${credentials.email} to be verified - confirm the verification email and retry`
+        : `Sign-in rejected: ${await this.collectErrors() || 'unknown error'}`
+
+      await updateWorkdayAccountStatus(
+        credentials.accountId,
+        outcome === 'verify' ? 'PENDING_VERIFICATION' : 'LOGIN_FAILED',
+        message
+      )
+      throw new WorkdayStepError('SIGN_IN', message)
+    }
+
+    await updateWorkdayAccountStatus(credentials.accountId, 'ACTIVE')
+  }
+
+  private async createAccount(): Promise<void> {
+    if (!(await this.page.$(SELECTORS.verifyPassword))) {
+      const createLink = await this.page.waitForSelector(SELECTORS.createAccountLink, { timeout: STEP_TIMEOUT_MS })
+        .catch(() => null)
+      if (!createLink) {
+        throw new WorkdayStepError('CREATE_ACCOUNT', 'Could not find the create-account form')
+      }
+      await this.click(createLink)
+    }
+
+    // Store the password before submitting so it is never lost if Workday
+    // accepts the account and something later in the flow fails
+    const password = generateWorkdayPassword()
+    const account = await saveWorkdayCredentials(
+      this.applicant.userId,
+      this.tenant,
+      { email: this.applicant.email, password },
+      { status: 'PENDING_VERIFICATION', createdByAutomation: true }
+    )
+
+    await this.typeInto(SELECTORS.email, this.applicant.email)
+    await this.typeInto(SELECTORS.password, password)
+    await this.typeInto(SELECTORS.verifyPassword, password)
+
+    const termsCheckbox = await this.page.$(SELECTORS.createAccountCheckbox)
+    if (termsCheckbox && !(await termsCheckbox.evaluate((el: any) => el.checked))) {
+      await this.click(termsCheckbox)
+    }
+
+    await this.clickSelector(SELECTORS.createAccountSubmit)
+
+    const outcome = await this.waitForFormOrError()
+    if (outcome === 'form') {
+      await updateWorkdayAccountStatus(account.id, 'ACTIVE')
+      return
+    }
+
+    if (outcome === 'verify') {
+      const message = `Workday sent a verification email to ${this.applicant.email} - confirm it and retry`
+      await updateWorkdayAccountStatus(account.id, 'PENDING_VERIFICATION', message)
+      throw new WorkdayStepError('CREATE_ACCOUNT', message)
+    }
+
+    const errors = await this.collectErrors()
+    const message = ACCOUNT_EXISTS_PATTERN.test(errors)
+      ? `An account for ${this.applicant.email} already exists on ${this.tenant.tenant} - save its password under Workday accounts and retry`
+      : `Account creation rejected: ${errors || 'unknown error'}`
+    await updateWorkdayAccountStatus(account.id, 'LOGIN_FAILED', message)
+    throw new WorkdayStepError('CREATE_ACCOUNT', message)
+  }
+
+  /**
+   * After sign-in or account creation, wait until the application form shows
+   * up, Workday asks for email verification, or it reports an error
+   */
+  private async waitForFormOrError(): Promise<'form' | 'verify' | 'error'> {
+    try {
+      await this.page.waitForFunction(
+        (activeStep: string, errors: string, verifyPattern: string) =>
+          !!document.querySelector(activeStep) ||
+          !!document.querySelector(errors) ||
+          new RegExp(verifyPattern, 'i').test(document.body.innerText),
+        { timeout: STEP_TIMEOUT_MS },
+        SELECTORS.activeStep,
+        SELECTORS.errors,
+        VERIFY_EMAIL_PATTERN.source
+      )
+    } catch {
+      return 'error'
+    }
+
+    if (await this.page.$(SELECTORS.activeStep)) return 'form'
+    const bodyText = await this.page.evaluate(() => document.body.innerText)
+    return VERIFY_EMAIL_PATTERN.test(bodyText) ? 'verify' : 'error'
+  }
+
+  private async detectStep(): Promise<WorkdayStep> {
+    const activeStep = await this.page.waitForSelector(SELECTORS.activeStep, { timeout: STEP_TIMEOUT_MS })
+      .catch(() => null)
+    if (!activeStep) {
+      throw new WorkdayStepError(this.currentStep, 'Lost track of the application progress bar')
+    }
+
+    const label = (await activeStep.evaluate((el: any) => el.textContent || '')).toLowerCase()
+    if (label.includes('my information')) return 'MY_INFORMATION'
+    if (label.includes('my experience')) return 'MY_EXPERIENCE'
+    if (label.includes('voluntary disclosure')) return 'VOLUNTARY_DISCLOSURES'
+    if (label.includes('self identify') || label.includes('self-identify')) return 'SELF_IDENTIFY'
+    if (label.includes('review')) return 'REVIEW'
+    // "Application Questions" and any tenant-specific questionnaire steps
+    return 'APPLICATION_QUESTIONS'
+  }
+
+  private async fillStep(step: WorkdayStep): Promise<void> {
+    console.log(`🏛️ Workday: filling ${WORKDAY_STEP_LABELS[step]}`)
+
+    switch (step) {
+      case 'MY_INFORMATION': {
+        const previousWorkerNo = await this.page.$(SELECTORS.previousWorkerNo)
+        if (previousWorkerNo) await this.click(previousWorkerNo)
+
+        await this.fillIfEmpty(SELECTORS.firstName, this.applicant.firstName, 'First Name')
+        await this.fillIfEmpty(SELECTORS.lastName, this.applicant.lastName, 'Last Name')
+        await this.fillIfEmpty(SELECTORS.phone, this.applicant.phone, 'Phone')
+        break
+      }
+
+      case 'MY_EXPERIENCE': {
+        if (this.applicant.resumePath) {
+          const fileInput = await this.page.$(SELECTORS.resumeUpload) as ElementHandle<HTMLInputElement> | null
+          if (fileInput) {
+            await fileInput.uploadFile(this.applicant.resumePath)
+            if (this.preview && this.applicant.resumeUrl) {
+              this.preview.resume = {
+                fileName: resumeFileName(this.applicant.resumeUrl),
+                url: this.applicant.resumeUrl,
+                selector: SELECTORS.resumeUpload,
+              }
+            }
+            await this.page.waitForSelector(SELECTORS.resumeUploaded, { timeout: STEP_TIMEOUT_MS })
+              .catch(() => console.log('⚠️ Workday: resume upload not confirmed'))
+          }
+        }
+        if (this.applicant.linkedinProfile) {
+          await this.fillIfEmpty(SELECTORS.linkedin, this.applicant.linkedinProfile, 'LinkedIn Profile')
+        }
+        break
+      }
+
+      case 'APPLICATION_QUESTIONS':
+      case 'SELF_IDENTIFY':
+        await this.answerQuestions()
+        break
+
+      case 'VOLUNTARY_DISCLOSURES': {
+        await this.answerQuestions()
+        const agreement = await this.page.$(SELECTORS.agreementCheckbox)
+        if (agreement && !(await agreement.evaluate((el: any) => el.checked))) {
+          await this.click(agreement)
+        }
+        break
+      }
+
+      default:
+        break
+    }
+  }
+
+  /**
+   * Tenant questionnaires and EEO questions are answered from the user's
+   * answer bank. Anything without an approved answer stays empty; if it's
+   * required, Save and Continue reports it as a stop at this step.
+   */
+  private async answerQuestions(): Promise<void> {
+    const result = await fillScreeningQuestions(
+      this.page,
+      this.applicant.userId,
+      SELECTORS.questionField,
+      { job: this.applicant.job },
+      'label, legend'
+    )
+
+    if (result.unanswered.length > 0) {
+      console.log(`⚠️ Workday: no approved answer for ${result.unanswered.length} required question(s)`)
+    }
+
+    this.preview?.answers.push(...result.answered.map(answer => ({
+      question: answer.question,
+      answer: answer.answer,
+      source: answer.source,
+    })))
+  }
+
+  private async saveAndContinue(step: WorkdayStep): Promise<void> {
+    const stepLabel = await this.page.$eval(SELECTORS.activeStep, (el: any) => el.textContent || '')
+    await this.clickSelector(SELECTORS.nextButton)
+
+    try {
+      await this.page.waitForFunction(
+        (activeStep: string, errors: string, previousLabel: string) => {
+          const current = document.querySelector(activeStep)
+          return !!document.querySelector(errors) || (!!current && current.textContent !== previousLabel)
+        },
+        { timeout: STEP_TIMEOUT_MS },
+        SELECTORS.activeStep,
+        SELECTORS.errors,
+        stepLabel
+      )
+    } catch {
+      throw new WorkdayStepError(step, 'Save and Continue did not advance the application')
+    }
+
+    const errors = await this.collectErrors()
+    if (errors) {
+      throw new WorkdayStepError(step, `Workday needs more information: ${errors}`)
+    }
+  }
+
+  private async submit(): Promise<string | undefined> {
+    console.log('🏛️ Workday: submitting from Review')
+    await this.clickSelector(SELECTORS.nextButton)
+
+    try {
+      await this.page.waitForFunction(
+        (pattern: string) => new RegExp(pattern, 'i').test(document.body.innerText),
+        { timeout: SUBMIT_TIMEOUT_MS },
+        SUBMITTED_PATTERN.source
+      )
+    } catch {
+      const errors = await this.collectErrors()
+      throw new WorkdayStepError('REVIEW', errors || 'No submission confirmation from Workday')
+    }
+
+    // Workday doesn't show a reference number; the final URL identifies the application
+    return this.page.url()
+  }
+
+  private async collectErrors(): Promise<string> {
+    const messages = await this.page.$$eval(SELECTORS.errors, elements =>
+      elements.map((el: any) => (el.textContent || '').trim()).filter(Boolean)
+    )
+    return Array.from(new Set(messages)).slice(0, 5).join('; ')
+  }
+
+  private async typeInto(selector: string, value: string): Promise<void> {
+    const input = await this.page.waitForSelector(selector, { timeout: STEP_TIMEOUT_MS }).catch(() => null)
+    if (!input) {
+      throw new WorkdayStepError(this.currentStep, `Missing field ${selector}`)
+    }
+
+    await input.click({ clickCount: 3 })
+    await input.type(value, { delay: 30 })
+  }
+
+  private async fillIfEmpty(selector: string, value: string, label: string): Promise<void> {
+    if (!value) return
+
+    const input = await this.page.$(selector)
+    if (!input) {
+      this.preview?.missing.push(label)
+      return
+    }
+
+    const current = await input.evaluate((el: any) => el.value || '')
+    if (!current.trim()) {
+      await input.click()
+      await input.type(value, { delay: 30 })
+    }
+    // Workday keeps what the account already holds; that is what gets sent
+    this.preview?.fields.push({ label, value: current.trim() || value, selector })
+  }
+
+  private async clickSelector(selector: string): Promise<void> {
+    const element = await this.page.waitForSelector(selector, { timeout: STEP_TIMEOUT_MS }).catch(() => null)
+    if (!element) {
+      throw new WorkdayStepError(this.currentStep, `Missing button ${selector}`)
+    }
+    await this.click(element)
+  }
+
+  /**
+   * Workday lays a transparent "click_filter" div over many of its buttons,
+   * which swallows real mouse clicks, so fall back to a DOM click
+   */
+  private async click(element: ElementHandle): Promise<void> {
+    try {
+      await element.click()
+    } catch {
+      await element.evaluate((el: any) => el.click())
+    }
+    await this.page.waitForTimeout(1000)
+  }
+}
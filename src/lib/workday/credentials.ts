@@ -0,0 +1,149 @@
+import crypto from 'crypto'
+import { WorkdayAccountStatus } from '@prisma/client'
+import { prisma } from '../db'
+import { WorkdayCredentials, WorkdayTenant } from './types'
+
+const CIPHER = 'aes-256-gcm'
+const IV_BYTES = 12
+
+/**
+ * Key for encrypting stored Workday passwords. Any string works; it is hashed
+ * down to the 32 bytes AES-256 needs.
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY
+  if (!secret) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY is not configured - cannot store Workday credentials')
+  }
+  return crypto.createHash('sha256').update(secret).digest()
+}
+
+/**
+ * Encrypt a secret as "iv:authTag:ciphertext" (base64 parts)
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv(CIPHER, getEncryptionKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':')
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, authTag, encrypted] = payload.split(':').map(part => Buffer.from(part, 'base64'))
+  const decipher = crypto.createDecipheriv(CIPHER, getEncryptionKey(), iv)
+  decipher.setAuthTag(authTag)
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8')
+}
+
+/**
+ * Random password that satisfies Workday's default policy
+ * (upper, lower, digit and special character, 8+ characters)
+ */
+export function generateWorkdayPassword(): string {
+  const pick = (chars: string) => chars[crypto.randomInt(chars.length)]
+  const upper = 'ABCDEFGHJKLMNPQRSTUVWXYZ'
+  const lower = 'abcdefghijkmnpqrstuvwxyz'
+  const digits = '23456789'
+  const special = '!@#$%^&*'
+  const all = upper + lower + digits + special
+
+  const characters = [pick(upper), pick(lower), pick(digits), pick(special)]
+  while (characters.length < 20) {
+    characters.push(pick(all))
+  }
+
+  // Fisher-Yates so the required characters aren't always up front
+  for (let i = characters.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1)
+    ;[characters[i], characters[j]] = [characters[j], characters[i]]
+  }
+
+  return characters.join('')
+}
+
+/**
+ * Stored login for a tenant, with the password decrypted
+ */
+export async function getWorkdayCredentials(userId: string, tenant: string): Promise<WorkdayCredentials | null> {
+  const account = await prisma.workdayAccount.findUnique({
+    where: { userId_tenant: { userId, tenant } },
+  })
+  if (!account) return null
+
+  return {
+    accountId: account.id,
+    email: account.email,
+    password: decryptSecret(account.encryptedPassword),
+    status: account.status,
+  }
+}
+
+/**
+ * Create or replace the login for a tenant
+ */
+export async function saveWorkdayCredentials(
+  userId: string,
+  tenant: WorkdayTenant,
+  credentials: { email: string; password: string },
+  options: { status?: WorkdayAccountStatus; createdByAutomation?: boolean } = {}
+) {
+  const data = {
+    host: tenant.host,
+    email: credentials.email,
+    encryptedPassword: encryptSecret(credentials.password),
+    status: options.status || 'ACTIVE',
+    lastError: null,
+  }
+
+  return prisma.workdayAccount.upsert({
+    where: { userId_tenant: { userId, tenant: tenant.tenant } },
+    create: {
+      userId,
+      tenant: tenant.tenant,
+      createdByAutomation: options.createdByAutomation || false,
+      ...data,
+    },
+    update: data,
+  })
+}
+
+/**
+ * Record the outcome of a sign-in attempt
+ */
+export async function updateWorkdayAccountStatus(
+  accountId: string,
+  status: WorkdayAccountStatus,
+  error?: string
+) {
+  return prisma.workdayAccount.update({
+    where: { id: accountId },
+    data: {
+      status,
+      lastError: error || null,
+      ...(status === 'ACTIVE' && { lastLoginAt: new Date() }),
+    },
+  })
+}
+
+/**
+ * A user's Workday accounts, without password material
+ */
+export async function listWorkdayAccounts(userId: string) {
+  return prisma.workdayAccount.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      tenant: true,
+      host: true,
+      email: true,
+      status: true,
+      createdByAutomation: true,
+      lastLoginAt: true,
+      lastError: true,
+      createdAt: true,
+    },
+    orderBy: { tenant: 'asc' },
+  })
+}
@@ -0,0 +1,28 @@
+/**
+ * Workday Module Main Export
+ *
+ * Application automation for employers hosted on Workday
+ * (*.myworkdayjobs.com), including the per-tenant candidate accounts
+ * Workday requires before anyone can apply.
+ */
+
+export type {
+  WorkdayStep,
+  WorkdayTenant,
+  WorkdayApplicant,
+  WorkdayCredentials,
+  WorkdayFlowResult,
+} from './types'
+export { WORKDAY_STEP_LABELS, WorkdayStepError } from './types'
+
+export {
+  encryptSecret,
+  decryptSecret,
+  generateWorkdayPassword,
+  getWorkdayCredentials,
+  saveWorkdayCredentials,
+  updateWorkdayAccountStatus,
+  listWorkdayAccounts,
+} from './credentials'
+
+export { WorkdayApplicationFlow } from './applicationFlow'
@@ -0,0 +1,73 @@
+/**
+ * Workday Automation Types
+ */
+
+// Steps of a Workday application, in the order the flow walks them
+export type WorkdayStep =
+  | 'JOB_PAGE'
+  | 'SIGN_IN'
+  | 'CREATE_ACCOUNT'
+  | 'MY_INFORMATION'
+  | 'MY_EXPERIENCE'
+  | 'APPLICATION_QUESTIONS'
+  | 'VOLUNTARY_DISCLOSURES'
+  | 'SELF_IDENTIFY'
+  | 'REVIEW'
+  | 'SUBMITTED'
+
+export const WORKDAY_STEP_LABELS: Record<WorkdayStep, string> = {
+  JOB_PAGE: 'Job Page',
+  SIGN_IN: 'Sign In',
+  CREATE_ACCOUNT: 'Create Account',
+  MY_INFORMATION: 'My Information',
+  MY_EXPERIENCE: 'My Experience',
+  APPLICATION_QUESTIONS: 'Application Questions',
+  VOLUNTARY_DISCLOSURES: 'Voluntary Disclosures',
+  SELF_IDENTIFY: 'Self Identify',
+  REVIEW: 'Review',
+  SUBMITTED: 'Submitted',
+}
+
+export interface WorkdayTenant {
+  tenant: string
+  host: string
+  site?: string
+}
+
+export interface WorkdayApplicant {
+  userId: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  resumePath?: string // Local file ready for upload
+  resumeUrl?: string // Where resumePath was downloaded from
+  coverLetter?: string
+  linkedinProfile?: string
+  portfolioUrl?: string
+  job?: { title: string; company: string; description?: string | null } // Context for drafting screening answers
+}
+
+export interface WorkdayCredentials {
+  accountId: string
+  email: string
+  password: string
+  status: 'ACTIVE' | 'PENDING_VERIFICATION' | 'LOGIN_FAILED'
+}
+
+export interface WorkdayFlowResult {
+  success: boolean
+  completedSteps: WorkdayStep[]
+  stoppedAt?: WorkdayStep // Step the flow could not get past
+  accountCreated?: boolean
+  confirmationId?: string
+  dryRun?: boolean // Stopped on Review without submitting
+  error?: string
+}
+
+export class WorkdayStepError extends Error {
+  constructor(public step: WorkdayStep, message: string) {
+    super(message)
+    this.name = 'WorkdayStepError'
+  }
+}
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+
+/**
+ * Answer Bank Matching Check
+ *
+ * Runs pairs of screening questions through the answer bank's normalizer
+ * and checks which pairs count as the same question, so a saved answer is
+ * only reused where it really answers the new question. Needs no database.
+ * Exits non-zero on any failure.
+ *
+ * Usage:
+ *   npm run answers:check
+ */
+
+import { MATCH_THRESHOLD, normalizeQuestion, questionSimilarity } from '../lib/answerBank/normalize'
+
+interface MatchCase {
+  a: string
+  b: string
+  match: boolean
+}
+
+const CASES: MatchCase[] = [
+  // Same question, different wording
+  { a: 'Will you now or in the future require visa sponsorship?', b: 'Do you need a sponsor to work here?', match: true },
+  { a: 'Are you legally authorized to work in the United States?', b: 'Are you eligible to work in the U.S.?', match: true },
+  { a: 'Are you authorized to work?', b: 'Are you authorized to work in the United States?', match: true },
+  { a: 'What is your notice period?', b: 'What is your earliest start date?', match: true },
+  { a: 'What are your salary expectations?', b: 'What is your desired salary?', match: true },
+  { a: 'Are you willing to relocate?', b: 'Would you be open to relocation?', match: true },
+  { a: 'Do you have a disability?', b: 'Please select your disability status', match: true },
+  { a: 'How many years of experience do you have with Python?', b: 'Years of professional Python experience', match: true },
+
+  // Same category, different question
+  { a: 'Are you willing to relocate?', b: 'Are you able to commute to our downtown office three days a week?', match: false },
+  { a: 'What are your salary expectations?', b: 'Is the salary range of $120k-$140k acceptable to you?', match: false },
+  { a: 'What are your salary expectations?', b: 'What is your current salary?', match: false },
+  { a: 'Are you a U.S. citizen?', b: 'Are you legally authorized to work in the US?', match: false },
+  { a: 'What is your gender?', b: 'What are your preferred pronouns?', match: false },
+  { a: 'Are you a protected veteran?', b: 'Have you served in the military?', match: false },
+
+  // Different subject or polarity
+  { a: 'Are you authorized to work in the United States?', b: 'Are you authorized to work in Canada?', match: false },
+  { a: 'How many years of experience do you have with Python?', b: 'How many years of experience do you have with Java?', match: false },
+  { a: 'Will you require sponsorship?', b: 'Can you work without sponsorship?', match: false },
+]
+
+function main() {
+  let failed = 0
+
+  for (const { a, b, match } of CASES) {
+    const similarity = questionSimilarity(normalizeQuestion(a), normalizeQuestion(b))
+    const matched = similarity >= MATCH_THRESHOLD
+    const name = `"${a}" ${match ? '=' : '≠'} "${b}" (${similarity.toFixed(2)})`
+
+    if (matched === match) {
+      console.log(`✅ ${name}`)
+    } else {
+      failed++
+      console.log(`❌ ${name}`)
+      console.log(`   - expected ${match ? 'a match' : 'no match'}`)
+    }
+  }
+
+  if (failed > 0) {
+    console.log(`\n${failed} of ${CASES.length} case(s) failed`)
+    process.exit(1)
+  }
+  console.log(`\nAll ${CASES.length} case(s) passed`)
+  process.exit(0)
+}
+
+main()
@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+
+/**
+ * Queue Conformance Check
+ *
+ * Runs the shared queue conformance suite (src/lib/queue/conformance.ts)
+ * against one or more IQueue backends. The in-memory queue needs nothing;
+ * "redis" uses REDIS_URL under a throwaway key prefix and "database" uses
+ * DATABASE_URL. Job types are unique to each run, but the cleanup case
+ * deletes every finished job, so point "database" at a development
+ * database. Exits non-zero on any failure.
+ *
+ * Usage:
+ *   npm run queue:check
+ *   npm run queue:check -- memory redis database
+ */
+
+import { DatabaseQueue } from '../lib/queue/DatabaseQueue'
+import { MemoryQueue } from '../lib/queue/MemoryQueue'
+import { RedisQueue } from '../lib/queue/RedisQueue'
+import { IQueue } from '../lib/queue/interfaces'
+import { QUEUE_BACKENDS, QueueBackend } from '../lib/queue/createQueue'
+import { runQueueConformance } from '../lib/queue/conformance'
+
+const runId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+
+function createBackend(backend: QueueBackend): IQueue {
+  switch (backend) {
+    case 'redis':
+      if (!process.env.REDIS_URL) throw new Error('REDIS_URL is not set')
+      return new RedisQueue({ url: process.env.REDIS_URL, prefix: `conformance:${runId}:` })
+
+    case 'database':
+      if (!process.env.DATABASE_URL) throw new Error('DATABASE_URL is not set')
+      return new DatabaseQueue()
+
+    case 'memory':
+    default:
+      return new MemoryQueue()
+  }
+}
+
+async function main() {
+  const requested = process.argv.slice(2)
+  const unknown = requested.filter(backend => !QUEUE_BACKENDS.includes(backend as QueueBackend))
+  if (unknown.length > 0) {
+    console.error(`Unknown backend(s): ${unknown.join(', ')}. Expected one of ${QUEUE_BACKENDS.join(', ')}`)
+    process.exit(2)
+  }
+
+  const backends = (requested.length > 0 ? requested : ['memory']) as QueueBackend[]
+  let failed = 0
+  let total = 0
+
+  for (const backend of backends) {
+    console.log(`\n🧪 Checking ${backend} queue...`)
+    const queue = createBackend(backend)
+    await queue.start()
+
+    try {
+      const results = await runQueueConformance(queue, `conformance_${runId}_`)
+
+      results.forEach(result => {
+        total++
+        if (result.passed) {
+          console.log(`✅ ${backend} · ${result.name} (${result.durationMs}ms)`)
+        } else {
+          failed++
+          console.log(`❌ ${backend} · ${result.name}`)
+          console.log(`   - ${result.error}`)
+        }
+      })
+    } finally {
+      if (queue instanceof RedisQueue) await queue.close()
+      else await queue.stop()
+    }
+  }
+
+  if (failed > 0) {
+    console.log(`\n${failed} of ${total} case(s) failed`)
+    process.exit(1)
+  }
+  console.log(`\nAll ${total} case(s) passed`)
+  process.exit(0)
+}
+
+main().catch(error => {
+  console.error('Queue conformance check error:', error)
+  process.exit(1)
+})
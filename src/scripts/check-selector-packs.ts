@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+/**
+ * Selector Pack Fixture Check
+ *
+ * Serves the saved application pages in src/lib/selectorPacks/fixtures from
+ * a local static server and runs each platform's selector pack against them
+ * in headless Chrome. Requests that leave the local server are blocked, so
+ * the check runs without network access. Exits non-zero on any failure.
+ *
+ * New fixtures can be taken from the "Page Snapshot" of an automation run;
+ * add the file under fixtures/<platform>/ and describe it in manifest.json.
+ * Set SELECTOR_PACKS_DIR to check override packs before rolling them out.
+ *
+ * Usage:
+ *   npm run selectors:check
+ *   npm run selectors:check -- greenhouse lever
+ */
+
+import http from 'http'
+import path from 'path'
+import { promises as fs } from 'fs'
+import { AddressInfo } from 'net'
+import puppeteer from 'puppeteer'
+import {
+  SELECTOR_PACK_PLATFORMS,
+  SelectorPackFixture,
+  checkFixture,
+  loadSelectorPackSource,
+} from '../lib/selectorPacks'
+
+const FIXTURES_DIR = path.join(__dirname, '../lib/selectorPacks/fixtures')
+
+function startFixtureServer(): Promise<http.Server> {
+  const server = http.createServer(async (req, res) => {
+    const urlPath = decodeURIComponent((req.url || '/').split('?')[0])
+    const filePath = path.resolve(FIXTURES_DIR, `.${urlPath}`)
+
+    if (!filePath.startsWith(FIXTURES_DIR + path.sep)) {
+      res.writeHead(403)
+      res.end()
+      return
+    }
+
+    try {
+      const body = await fs.readFile(filePath)
+      res.writeHead(200, { 'Content-Type': filePath.endsWith('.html') ? 'text/html; charset=utf-8' : 'application/octet-stream' })
+      res.end(body)
+    } catch (error) {
+      res.writeHead(404)
+      res.end()
+    }
+  })
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)))
+}
+
+async function main() {
+  const requested = process.argv.slice(2)
+  const unknown = requested.filter(platform => !SELECTOR_PACK_PLATFORMS.includes(platform as any))
+  if (unknown.length > 0) {
+    console.error(`Unknown platform(s): ${unknown.join(', ')}. Expected one of ${SELECTOR_PACK_PLATFORMS.join(', ')}`)
+    process.exit(2)
+  }
+
+  const manifest: SelectorPackFixture[] = JSON.parse(await fs.readFile(path.join(FIXTURES_DIR, 'manifest.json'), 'utf8'))
+  const fixtures = manifest.filter(fixture => requested.length === 0 || requested.includes(fixture.platform))
+
+  const server = await startFixtureServer()
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  const browser = await puppeteer.launch({
+    headless: 'new',
+    args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage', '--disable-gpu'],
+  })
+
+  console.log(`🧩 Checking ${fixtures.length} fixture(s) against selector packs...`)
+  let failed = 0
+
+  try {
+    for (const fixture of fixtures) {
+      const { pack, source } = await loadSelectorPackSource(fixture.platform)
+      const page = await browser.newPage()
+
+      try {
+        await page.setRequestInterception(true)
+        page.on('request', request => {
+          if (request.url().startsWith(origin)) request.continue()
+          else request.abort()
+        })
+
+        await page.goto(`${origin}/${fixture.file}`, { waitUntil: 'domcontentloaded', timeout: 10000 })
+        const result = await checkFixture(page, pack, fixture)
+        const label = `${fixture.platform} v${pack.version} (${source}) · ${fixture.file}`
+
+        if (result.failures.length === 0) {
+          console.log(`✅ ${label}`)
+        } else {
+          failed++
+          console.log(`❌ ${label}`)
+          result.failures.forEach(failure => console.log(`   - ${failure}`))
+        }
+      } catch (error) {
+        failed++
+        console.error(`❌ ${fixture.platform} · ${fixture.file}:`, error)
+      } finally {
+        await page.close()
+      }
+    }
+  } finally {
+    await browser.close()
+    server.close()
+  }
+
+  if (failed > 0) {
+    console.log(`\n${failed} of ${fixtures.length} fixture(s) failed`)
+    process.exit(1)
+  }
+  console.log(`\nAll ${fixtures.length} fixture(s) passed`)
+}
+
+main().catch(error => {
+  console.error('Selector pack check error:', error)
+  process.exit(1)
+})
@@ -10,15 +10,17 @@
  */
 
 import { queueManager } from '../lib/queue/QueueManager'
+import { queueBackendFromEnv } from '../lib/queue/createQueue'
 
 async function startWorker() {
   try {
     console.log('🚀 Starting Queue Worker...')
     console.log('📋 ChatGPT Specification Implementation:')
     console.log('   - Queue abstraction with enqueueJob() interface')
-    console.log('   - Database-backed queue (temporary)')
-    console.log('   - Row-level locking simulation')  
+    console.log(`   - ${queueBackendFromEnv()} queue backend (QUEUE_BACKEND)`)
+    console.log('   - Atomic job claims')
     console.log('   - Concurrency controls')
+    console.log('   - Single job catalog, handler registry and scheduler')
     console.log('   - Migration-ready architecture')
     console.log('   - No AI in request lifecycle')
     console.log('')
@@ -28,7 +30,7 @@ async function startWorker() {
     
     console.log('✅ Queue Worker is running!')
     console.log('🔄 Processing jobs in background...')
-    console.log('📊 Monitor metrics at: GET /api/queue/process')
+    console.log('📊 Monitor metrics at: GET /api/jobs/queue')
     console.log('')
     console.log('🛠️  TODO: Migrate to Redis/SQS for production scale')
     console.log('    - Change queue import in QueueManager.ts')